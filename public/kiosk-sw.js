@@ -0,0 +1,52 @@
+// Service worker of the kiosk tablet: keeps the app shell available without a connection.
+// Network first so a connected tablet always runs the latest build; the cache is only a fallback.
+const CACHE_NAME = 'kollab-kiosk-v1';
+const SHELL_URL = '/kiosk';
+
+// Cache the kiosk page and the scripts and styles it references
+const cacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  const response = await fetch(SHELL_URL, { cache: 'no-store' });
+  if (!response.ok) return;
+
+  const html = await response.clone().text();
+  await cache.put(SHELL_URL, response);
+
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/[^"]+\.(?:js|css|svg|webmanifest))"/g), match => match[1]);
+  await Promise.all(assets.map(asset => cache.add(asset).catch(() => undefined)));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Only same-origin GETs; API calls to Supabase go straight to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request.mode === 'navigate' ? SHELL_URL : request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request.mode === 'navigate' ? SHELL_URL : request);
+        return cached || Response.error();
+      })
+  );
+});
@@ -10,14 +10,10 @@ import ProtectedRoute from './components/auth/ProtectedRoute';
 import UserSettingsPage from './components/settings/UserSettingsPage';
 import EmployeePortal from './components/employee/EmployeePortal';
 import LoadingScreen from './components/common/LoadingScreen';
+import KioskPage from './pages/KioskPage';
 
 function App() {
-  // TEMPORARY: Bypass authentication checks
-  const loading = false;
-  const isEmployee = () => true;
-  const isManager = () => true;
-  const isAdmin = () => true;
-  const { /* loading, isEmployee, isManager, isAdmin */ } = useAuth();
+  const { loading, user } = useAuth();
 
   // Show loading screen while checking authentication
   if (loading) {
@@ -29,12 +25,18 @@ function App() {
       <Router>
         <Routes>
           {/* Public routes */}
-          <Route path="/auth" element={<Navigate to="/" replace />} />
+          <Route path="/auth" element={user ? <Navigate to="/" replace /> : <AuthPage />} />
+
+          {/* Kiosk tablet - gated by the device lock a manager sets, must open without a connection */}
+          <Route path="/kiosk" element={<KioskPage />} />
           
-          {/* Protected routes for all authenticated users */}
-          <Route>
+          {/* Back office - managers and admins only, employees land on their portal */}
+          <Route element={<ProtectedRoute requiredRoles={['admin', 'manager']} />}>
             <Route path="/" element={<Layout />} />
-            
+          </Route>
+
+          {/* Protected routes for all authenticated users */}
+          <Route element={<ProtectedRoute />}>
             {/* Employee portal */}
             <Route path="/employee" element={
               <Layout>
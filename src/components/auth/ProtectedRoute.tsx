@@ -7,33 +7,35 @@ import LoadingScreen from '../common/LoadingScreen';
 interface ProtectedRouteProps {
   requiredRoles?: UserRole[];
   redirectPath?: string;
+  unauthorizedPath?: string;
+  children?: React.ReactNode;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   requiredRoles = ['admin', 'manager', 'employee'],
-  redirectPath = '/auth'
+  redirectPath = '/auth',
+  unauthorizedPath = '/employee',
+  children
 }) => {
-  // TEMPORARY: Bypass authentication checks
-  const loading = false;
-  const profile = { id: '1', email: 'test@example.com', role: 'admin' };
-  const hasAccess = () => true;
-  // const { loading, profile, hasAccess } = useAuth();
+  const { loading, user, hasAccess } = useAuth();
 
   // Show loading screen while checking authentication
   if (loading) {
     return <LoadingScreen />;
   }
 
-  // Check if user is authenticated and has required role
-  const hasRequiredAccess = true; // TEMPORARY: Always grant access
-
-  // Redirect if not authenticated or doesn't have required role
-  if (!hasRequiredAccess) {
+  // Redirect to login if not authenticated
+  if (!user) {
     return <Navigate to={redirectPath} replace />;
   }
 
+  // CRITICAL: Authenticated users without the required role go to the page their role allows
+  if (!hasAccess(requiredRoles)) {
+    return <Navigate to={unauthorizedPath} replace />;
+  }
+
   // Render the protected route
-  return <Outlet />;
+  return <>{children ?? <Outlet />}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { Clock, Heart, Send, Undo2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Employee, EmployeeAvailability, EmployeePreferenceValues } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  DEFAULT_AVAILABILITY_FREEZE_DAYS,
+  diffAvailabilityChange,
+  getFreezeEnd,
+  isEmptyAvailabilityChange
+} from '../../lib/availabilityChangeService';
+import EmployeeAvailabilityForm from '../employees/EmployeeAvailabilityForm';
+import EmployeePreferencesForm from '../employees/EmployeePreferencesForm';
+import AvailabilityChangeDiff from '../employees/AvailabilityChangeDiff';
+
+interface AvailabilitySelfServiceProps {
+  employee: Employee;
+}
+
+// CRITICAL: Employee side of availability - edit a draft, send it for review, follow the answer
+const AvailabilitySelfService: React.FC<AvailabilitySelfServiceProps> = ({ employee }) => {
+  const { t } = useTranslation();
+  const {
+    availabilityChangeRequests,
+    submitAvailabilityChange,
+    cancelAvailabilityChange,
+    getEmployeeAvailabilities,
+    getEmployeePreferences,
+    settings
+  } = useAppContext();
+  const current = getEmployeeAvailabilities(employee.id);
+  const currentPreference = getEmployeePreferences(employee.id);
+  const [draftAvailabilities, setDraftAvailabilities] = useState<EmployeeAvailability[]>(current);
+  const [draftPreference, setDraftPreference] = useState<EmployeePreferenceValues | undefined>(undefined);
+  const [showAvailabilityForm, setShowAvailabilityForm] = useState(false);
+  const [showPreferencesForm, setShowPreferencesForm] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const freezeDays = settings.availabilityFreezeDays ?? DEFAULT_AVAILABILITY_FREEZE_DAYS;
+  const freezeEnd = getFreezeEnd(freezeDays);
+
+  const myRequests = availabilityChangeRequests
+    .filter(request => request.employeeId === employee.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const pending = myRequests.find(request => request.status === 'pending');
+  const lastReviewed = myRequests.find(request => request.status === 'accepted' || request.status === 'rejected');
+
+  // Start again from what is in place whenever the manager applies or refuses a change
+  const currentKey = [employee.id, currentPreference?.updatedAt, ...current.map(rule => rule.id)].join(',');
+  const [draftKey, setDraftKey] = useState(currentKey);
+  if (draftKey !== currentKey) {
+    setDraftKey(currentKey);
+    setDraftAvailabilities(current);
+    setDraftPreference(undefined);
+  }
+
+  const draftDiff = diffAvailabilityChange(current, currentPreference, {
+    availabilities: draftAvailabilities,
+    preference: draftPreference
+  });
+  const pendingDiff = pending ? diffAvailabilityChange(current, currentPreference, pending) : null;
+
+  const handleAddRule = async (
+    employeeId: string,
+    availability: Omit<EmployeeAvailability, 'id' | 'employeeId' | 'createdAt' | 'updatedAt'>
+  ) => {
+    const timestamp = new Date().toISOString();
+    setDraftAvailabilities(prev => [...prev, { ...availability, id: uuidv4(), employeeId, createdAt: timestamp, updatedAt: timestamp }]);
+  };
+
+  const handleRemoveRule = async (availabilityId: string) => {
+    setDraftAvailabilities(prev => prev.filter(rule => rule.id !== availabilityId));
+  };
+
+  const handleSavePreferences = async (_employeeId: string, preferences: EmployeePreferenceValues) => {
+    setDraftPreference(preferences);
+  };
+
+  const handleSubmit = async () => {
+    setLoading(true);
+    try {
+      await submitAvailabilityChange(employee.id, draftAvailabilities, draftPreference);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDraftAvailabilities(current);
+    setDraftPreference(undefined);
+  };
+
+  // The preferences form reads the employee's preferences: show it the draft ones. Memoized as the
+  // form resets its fields whenever the employee object changes
+  const preferencesEmployee = useMemo<Employee>(() => ({
+    ...employee,
+    preferences: draftPreference
+      ? {
+          ...draftPreference,
+          id: currentPreference?.id ?? 'draft',
+          employeeId: employee.id,
+          createdAt: currentPreference?.createdAt ?? '',
+          updatedAt: currentPreference?.updatedAt ?? ''
+        }
+      : currentPreference
+  }), [employee, draftPreference, currentPreference]);
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-2">
+        <Clock className="text-blue-600" size={20} />
+        <h3 className="text-lg font-medium text-gray-800">
+          {t('availabilityChanges.title')}
+        </h3>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {t('availabilityChanges.freezeNotice', { days: freezeDays, date: format(parseISO(freezeEnd), 'dd/MM/yyyy') })}
+      </p>
+
+      {lastReviewed?.status === 'rejected' && !pending && (
+        <p className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-800">
+          {t('availabilityChanges.lastRejected', { comment: lastReviewed.managerComment ?? '' })}
+        </p>
+      )}
+
+      {pending && pendingDiff ? (
+        <div className="p-3 rounded-md bg-yellow-50 border border-yellow-200">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-yellow-800">{t('availabilityChanges.pendingReview')}</p>
+            <button
+              type="button"
+              onClick={() => cancelAvailabilityChange(pending)}
+              className="text-sm text-gray-600 hover:text-red-600"
+            >
+              {t('leaveRequests.cancel')}
+            </button>
+          </div>
+          <AvailabilityChangeDiff diff={pendingDiff} freezeEnd={freezeEnd} />
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setShowAvailabilityForm(true)}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100"
+            >
+              <Clock size={14} className="mr-1" />
+              {t('availabilityChanges.editAvailability', { count: draftAvailabilities.length })}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowPreferencesForm(true)}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-pink-700 bg-pink-50 rounded-md hover:bg-pink-100"
+            >
+              <Heart size={14} className="mr-1" />
+              {t('availabilityChanges.editPreferences')}
+            </button>
+          </div>
+
+          {!isEmptyAvailabilityChange(draftDiff) && (
+            <div className="mt-4 p-3 rounded-md bg-gray-50 border border-gray-200">
+              <p className="text-sm font-medium text-gray-700 mb-2">{t('availabilityChanges.draft')}</p>
+              <AvailabilityChangeDiff diff={draftDiff} freezeEnd={freezeEnd} />
+              <div className="mt-3 flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={loading}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Send size={14} className="mr-1" />
+                  {t('availabilityChanges.submit')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  <Undo2 size={14} className="mr-1" />
+                  {t('availabilityChanges.discard')}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {showAvailabilityForm && (
+        <EmployeeAvailabilityForm
+          isOpen={showAvailabilityForm}
+          onClose={() => setShowAvailabilityForm(false)}
+          employee={employee}
+          availabilities={draftAvailabilities}
+          onSave={handleAddRule}
+          onDelete={handleRemoveRule}
+        />
+      )}
+
+      {showPreferencesForm && (
+        <EmployeePreferencesForm
+          isOpen={showPreferencesForm}
+          onClose={() => setShowPreferencesForm(false)}
+          employee={preferencesEmployee}
+          onSave={handleSavePreferences}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AvailabilitySelfService;
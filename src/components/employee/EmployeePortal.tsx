@@ -1,38 +1,43 @@
 import React from 'react';
 import { User, Calendar, Clock, FileText } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
 import { useAuth } from '../../contexts/AuthContext';
 import { useAppContext } from '../../contexts/AppContext';
 import DocumentManager from '../hr/DocumentManager';
 import TimeClockWidget from '../timeclock/TimeClockWidget';
+import LeaveBalanceSection from '../employees/LeaveBalanceSection';
+import LeaveRequestSection from './LeaveRequestSection';
+import AvailabilitySelfService from './AvailabilitySelfService';
+import ScheduleNotificationsSection from './ScheduleNotificationsSection';
+import ShiftMarketplaceSection from './ShiftMarketplaceSection';
+import { getPublishedShifts } from '../../lib/schedulePublicationService';
 
 const EmployeePortal: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { profile } = useAuth();
-  const { currentRestaurant, getRestaurantEmployees, getRestaurantSchedule } = useAppContext();
+  const { currentRestaurant, getRestaurantEmployees, schedulePublications } = useAppContext();
   
   // Get employee data if available
   const employee = profile?.restaurantId && currentRestaurant
     ? getRestaurantEmployees(profile.restaurantId).find(e => e.email === profile.email)
     : null;
   
-  // Get employee schedule if available
-  const schedule = profile?.restaurantId
-    ? getRestaurantSchedule(profile.restaurantId)
-    : undefined;
-  
-  // Get employee shifts
-  const employeeShifts = employee && schedule
-    ? schedule.shifts.filter(s => s.employeeId === employee.id)
+  // CRITICAL: Only published weeks reach the portal - a week being edited shows as it was last sent
+  const employeeShifts = employee
+    ? getPublishedShifts(schedulePublications, employee.restaurantId)
+        .filter(({ shift }) => shift.employeeId === employee.id)
+        .map(({ shift, weekStartDate }) => ({ shift, date: addDays(parseISO(weekStartDate), shift.day) }))
     : [];
   
   // Get upcoming shifts (next 7 days)
-  const today = new Date();
-  const upcomingShifts = employeeShifts.filter(shift => {
-    const shiftDate = new Date(today);
-    shiftDate.setDate(today.getDate() + shift.day);
-    return shiftDate >= today;
-  }).sort((a, b) => a.day - b.day).slice(0, 3);
+  const today = startOfDay(new Date());
+  const upcomingShifts = employeeShifts
+    .filter(({ date }) => {
+      const daysAhead = differenceInCalendarDays(date, today);
+      return daysAhead >= 0 && daysAhead < 7;
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.shift.start.localeCompare(b.shift.start));
 
   return (
     <div className="space-y-6">
@@ -141,6 +146,34 @@ const EmployeePortal: React.FC = () => {
         </div>
       </div>
 
+      {/* Leave balances */}
+      {employee && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <LeaveBalanceSection restaurantId={employee.restaurantId} employee={employee} readOnly />
+        </div>
+      )}
+
+      {/* Leave requests */}
+      {employee && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <LeaveRequestSection employee={employee} />
+        </div>
+      )}
+
+      {/* Availability and preferences */}
+      {employee && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <AvailabilitySelfService employee={employee} />
+        </div>
+      )}
+
+      {/* Schedule updates */}
+      {employee && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <ScheduleNotificationsSection employee={employee} />
+        </div>
+      )}
+
       {/* Upcoming Shifts */}
       <div className="bg-white rounded-lg shadow-sm p-6">
         <div className="flex items-center gap-3 mb-4">
@@ -170,14 +203,11 @@ const EmployeePortal: React.FC = () => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 bg-white">
-                {upcomingShifts.map(shift => {
-                  const shiftDate = new Date(today);
-                  shiftDate.setDate(today.getDate() + shift.day);
-                  
+                {upcomingShifts.map(({ shift, date }) => {
                   return (
                     <tr key={shift.id}>
                       <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">
-                        {shiftDate.toLocaleDateString(i18n.language === 'fr' ? 'fr-FR' : 'en-US', { 
+                        {date.toLocaleDateString(i18n.language === 'fr' ? 'fr-FR' : 'en-US', { 
                           weekday: 'long', 
                           month: 'short', 
                           day: 'numeric' 
@@ -207,6 +237,13 @@ const EmployeePortal: React.FC = () => {
         )}
       </div>
 
+      {/* Shift swaps */}
+      {employee && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <ShiftMarketplaceSection employee={employee} />
+        </div>
+      )}
+
       {/* Documents Section */}
       {employee && (
         <div className="bg-white rounded-lg shadow-sm p-6">
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { CalendarX, Send } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { Employee, LeaveRequestStatus, LeaveRequestType } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+
+interface LeaveRequestSectionProps {
+  employee: Employee;
+}
+
+const REQUEST_TYPES: LeaveRequestType[] = ['CP', 'ABSENCE', 'UNAVAILABLE'];
+
+const STATUS_STYLES: Record<LeaveRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+// CRITICAL: Employee side of leave requests - ask for time off and follow the manager's answer
+const LeaveRequestSection: React.FC<LeaveRequestSectionProps> = ({ employee }) => {
+  const { t } = useTranslation();
+  const { leaveRequests, submitLeaveRequest, cancelLeaveRequest } = useAppContext();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [type, setType] = useState<LeaveRequestType>('CP');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const myRequests = leaveRequests
+    .filter(request => request.employeeId === employee.id)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const created = await submitLeaveRequest({
+        restaurantId: employee.restaurantId,
+        employeeId: employee.id,
+        type,
+        startDate,
+        endDate,
+        reason
+      });
+      if (created) {
+        setReason('');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <CalendarX className="text-blue-600" size={20} />
+        <h3 className="text-lg font-medium text-gray-800">
+          {t('leaveRequests.title')}
+        </h3>
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-2">
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as LeaveRequestType)}
+          aria-label={t('leaveRequests.type')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          {REQUEST_TYPES.map(value => (
+            <option key={value} value={value}>{t(`leaveRequests.types.${value}`)}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={startDate}
+          min={today}
+          onChange={(e) => {
+            setStartDate(e.target.value);
+            if (e.target.value > endDate) setEndDate(e.target.value);
+          }}
+          aria-label={t('leaveRequests.startDate')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          required
+        />
+        <input
+          type="date"
+          value={endDate}
+          min={startDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          aria-label={t('leaveRequests.endDate')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          required
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={t('leaveRequests.reasonPlaceholder')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          type="submit"
+          disabled={loading || !startDate || !endDate || endDate < startDate}
+          className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Send size={14} className="mr-1" />
+          {t('leaveRequests.submit')}
+        </button>
+      </form>
+
+      <div className="mt-4 divide-y divide-gray-200">
+        {myRequests.length === 0 ? (
+          <p className="text-center py-4 text-gray-500">{t('leaveRequests.noRequests')}</p>
+        ) : (
+          myRequests.map(request => (
+            <div key={request.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {t(`leaveRequests.types.${request.type}`)} · {format(parseISO(request.startDate), 'dd/MM/yyyy')} → {format(parseISO(request.endDate), 'dd/MM/yyyy')}
+                </p>
+                {request.managerComment && (
+                  <p className="text-sm text-gray-500">
+                    {t('leaveRequests.managerComment')}: {request.managerComment}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[request.status]}`}>
+                  {t(`leaveRequests.status.${request.status}`)}
+                </span>
+                {request.status === 'pending' && (
+                  <button
+                    type="button"
+                    onClick={() => cancelLeaveRequest(request)}
+                    className="text-sm text-gray-500 hover:text-red-600"
+                  >
+                    {t('leaveRequests.cancel')}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LeaveRequestSection;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Bell, Check } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { Employee } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import ScheduleChangeList from '../schedule/ScheduleChangeList';
+
+interface ScheduleNotificationsSectionProps {
+  employee: Employee;
+}
+
+// CRITICAL: What changed in the employee's published schedule, until they acknowledge it
+const ScheduleNotificationsSection: React.FC<ScheduleNotificationsSectionProps> = ({ employee }) => {
+  const { t } = useTranslation();
+  const { scheduleNotifications, markScheduleNotificationRead } = useAppContext();
+
+  const unread = scheduleNotifications
+    .filter(notification => notification.employeeId === employee.id && !notification.readAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <Bell className="text-blue-600" size={20} />
+        <h3 className="text-lg font-medium text-gray-800">
+          {t('schedule.publication.notificationsTitle')}
+        </h3>
+        {unread.length > 0 && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+            {unread.length}
+          </span>
+        )}
+      </div>
+
+      {unread.length === 0 ? (
+        <p className="text-center py-6 text-gray-500">{t('schedule.publication.noNotifications')}</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {unread.map(notification => (
+            <div key={notification.id} className="py-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {t(`schedule.publication.notificationKinds.${notification.kind}`, {
+                      date: format(parseISO(notification.weekStartDate), 'dd/MM/yyyy')
+                    })}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {t('schedule.publication.version', { version: notification.version })}
+                    {' · '}
+                    {format(parseISO(notification.createdAt), 'dd/MM/yyyy HH:mm')}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => markScheduleNotificationRead(notification)}
+                  className="inline-flex items-center px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100"
+                >
+                  <Check size={14} className="mr-1" />
+                  {t('schedule.publication.markRead')}
+                </button>
+              </div>
+              <div className="mt-2">
+                <ScheduleChangeList changes={notification.changes} weekStartDate={notification.weekStartDate} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleNotificationsSection;
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Hand, Repeat, Send, Undo2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { addDays, format, parseISO } from 'date-fns';
+import { Employee, ShiftOffer, ShiftOfferStatus } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { getPublishedShifts } from '../../lib/schedulePublicationService';
+import { getShiftOfferDate } from '../../lib/shiftOfferService';
+
+interface ShiftMarketplaceSectionProps {
+  employee: Employee;
+}
+
+const STATUS_STYLES: Record<ShiftOfferStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  claimed: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+// CRITICAL: Employee side of the shift marketplace - give a shift away, take one a colleague offers
+const ShiftMarketplaceSection: React.FC<ShiftMarketplaceSectionProps> = ({ employee }) => {
+  const { t } = useTranslation();
+  const {
+    shiftOffers,
+    schedulePublications,
+    offerShift,
+    claimShiftOffer,
+    unclaimShiftOffer,
+    cancelShiftOffer,
+    checkShiftOfferCandidate,
+    getRestaurantEmployees
+  } = useAppContext();
+  const [selectedShiftId, setSelectedShiftId] = useState('');
+  const [note, setNote] = useState('');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const restaurantOffers = shiftOffers.filter(offer => offer.restaurantId === employee.restaurantId);
+  const activeShiftIds = new Set(
+    restaurantOffers
+      .filter(offer => offer.status === 'open' || offer.status === 'claimed')
+      .map(offer => offer.shift.id)
+  );
+
+  // Only published worked shifts still to come can be offered
+  const offerableShifts = getPublishedShifts(schedulePublications, employee.restaurantId)
+    .map(({ shift, weekStartDate }) => ({
+      shift,
+      weekStartDate,
+      date: format(addDays(parseISO(weekStartDate), shift.day), 'yyyy-MM-dd')
+    }))
+    .filter(({ shift, date }) =>
+      shift.employeeId === employee.id && !shift.status && date >= today && !activeShiftIds.has(shift.id)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.shift.start.localeCompare(b.shift.start));
+
+  const myOffers = restaurantOffers
+    .filter(offer => offer.offeredBy === employee.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const takeableOffers = restaurantOffers
+    .filter(offer => getShiftOfferDate(offer) >= today)
+    .filter(offer =>
+      (offer.status === 'claimed' && offer.claimedBy === employee.id)
+      || (offer.status === 'open' && checkShiftOfferCandidate(offer, employee.id).eligible)
+    )
+    .sort((a, b) => getShiftOfferDate(a).localeCompare(getShiftOfferDate(b)));
+
+  const getEmployeeName = (employeeId: string) => {
+    const colleague = getRestaurantEmployees(employee.restaurantId).find(e => e.id === employeeId);
+    return colleague ? `${colleague.firstName} ${colleague.lastName}` : t('leaveRequests.unknownEmployee');
+  };
+
+  const describeOffer = (offer: ShiftOffer) =>
+    `${format(parseISO(getShiftOfferDate(offer)), 'dd/MM/yyyy')} · ${offer.shift.start}–${offer.shift.end} · ${offer.shift.position}`;
+
+  const handleOffer = async () => {
+    const selected = offerableShifts.find(({ shift }) => shift.id === selectedShiftId);
+    if (!selected) return;
+
+    setProcessingId(selected.shift.id);
+    try {
+      const created = await offerShift(selected.shift, parseISO(selected.weekStartDate), note);
+      if (created) {
+        setSelectedShiftId('');
+        setNote('');
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleAction = async (offer: ShiftOffer, action: (offer: ShiftOffer) => Promise<unknown>) => {
+    setProcessingId(offer.id);
+    try {
+      await action(offer);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <Repeat className="text-blue-600" size={20} />
+        <h3 className="text-lg font-medium text-gray-800">
+          {t('shiftOffers.portalTitle')}
+        </h3>
+      </div>
+
+      <div className="p-3 rounded-md bg-gray-50 border border-gray-200">
+        <p className="text-sm font-medium text-gray-700 mb-2">{t('shiftOffers.offerShift')}</p>
+        {offerableShifts.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('shiftOffers.noShiftToOffer')}</p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-2">
+            <select
+              value={selectedShiftId}
+              onChange={(e) => setSelectedShiftId(e.target.value)}
+              aria-label={t('shiftOffers.selectShift')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">{t('shiftOffers.selectShift')}</option>
+              {offerableShifts.map(({ shift, date }) => (
+                <option key={shift.id} value={shift.id}>
+                  {format(parseISO(date), 'dd/MM/yyyy')} · {shift.start}–{shift.end}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={t('shiftOffers.notePlaceholder')}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleOffer}
+              disabled={!selectedShiftId || processingId !== null}
+              className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send size={14} className="mr-1" />
+              {t('shiftOffers.offer')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4">
+        <p className="text-sm font-medium text-gray-700 mb-2">{t('shiftOffers.available')}</p>
+        {takeableOffers.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('shiftOffers.noAvailable')}</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {takeableOffers.map(offer => (
+              <div key={offer.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm text-gray-900">{describeOffer(offer)}</p>
+                  <p className="text-xs text-gray-500">
+                    {offer.offeredBy
+                      ? t('shiftOffers.offeredBy', { name: getEmployeeName(offer.offeredBy) })
+                      : t('shiftOffers.openShift')}
+                    {offer.note && <> · {offer.note}</>}
+                  </p>
+                </div>
+                {offer.status === 'claimed' ? (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-yellow-800">{t('shiftOffers.awaitingApproval')}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleAction(offer, unclaimShiftOffer)}
+                      disabled={processingId === offer.id}
+                      className="inline-flex items-center text-sm text-gray-600 hover:text-red-600 disabled:opacity-50"
+                    >
+                      <Undo2 size={14} className="mr-1" />
+                      {t('shiftOffers.unclaim')}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleAction(offer, o => claimShiftOffer(o, employee.id))}
+                    disabled={processingId === offer.id}
+                    className="inline-flex items-center px-3 py-1 text-sm font-medium text-green-700 bg-green-50 rounded-md hover:bg-green-100 disabled:opacity-50"
+                  >
+                    <Hand size={14} className="mr-1" />
+                    {t('shiftOffers.claim')}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {myOffers.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-700 mb-2">{t('shiftOffers.myOffers')}</p>
+          <div className="divide-y divide-gray-200">
+            {myOffers.map(offer => (
+              <div key={offer.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm text-gray-900">{describeOffer(offer)}</p>
+                  {offer.claimedBy && (
+                    <p className="text-xs text-gray-500">
+                      {t('shiftOffers.claimedBy', { name: getEmployeeName(offer.claimedBy) })}
+                    </p>
+                  )}
+                  {offer.managerComment && (
+                    <p className="text-xs text-gray-500">
+                      {t('leaveRequests.managerComment')}: {offer.managerComment}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[offer.status]}`}>
+                    {t(`shiftOffers.status.${offer.status}`)}
+                  </span>
+                  {(offer.status === 'open' || offer.status === 'claimed') && (
+                    <button
+                      type="button"
+                      onClick={() => handleAction(offer, cancelShiftOffer)}
+                      disabled={processingId === offer.id}
+                      className="text-sm text-gray-600 hover:text-red-600 disabled:opacity-50"
+                    >
+                      {t('leaveRequests.cancel')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShiftMarketplaceSection;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { AVAILABILITY_TYPES, DAYS_OF_WEEK, EmployeeAvailability, EmployeePreferenceValues, RECURRENCE_TYPES, SHIFT_TYPES } from '../../types';
+import { AvailabilityChangeDiff as Diff, PreferenceFieldChange } from '../../lib/availabilityChangeService';
+
+interface AvailabilityChangeDiffProps {
+  diff: Diff;
+  freezeEnd: string; // New recurring rules start on this date
+}
+
+// CRITICAL: What an availability change request adds, removes and changes - shown to both sides
+const AvailabilityChangeDiff: React.FC<AvailabilityChangeDiffProps> = ({ diff, freezeEnd }) => {
+  const { t, i18n } = useTranslation();
+  const isFr = i18n.language === 'fr';
+
+  const dayName = (day: number) => t(`days.${DAYS_OF_WEEK[day].toLowerCase()}`);
+
+  const describeRule = (rule: EmployeeAvailability) => {
+    const type = isFr ? AVAILABILITY_TYPES[rule.type].labelFr : AVAILABILITY_TYPES[rule.type].label;
+    const recurrence = isFr ? RECURRENCE_TYPES[rule.recurrence].labelFr : RECURRENCE_TYPES[rule.recurrence].label;
+    const when = rule.recurrence === 'ONCE' && rule.date
+      ? format(parseISO(rule.date), 'dd/MM/yyyy')
+      : `${dayName(rule.dayOfWeek ?? 0)} (${recurrence})`;
+    return `${type} • ${when} • ${rule.startTime} - ${rule.endTime}`;
+  };
+
+  const describeValue = (field: keyof EmployeePreferenceValues, value: PreferenceFieldChange['after'] | undefined) => {
+    if (value === undefined) return '-';
+    switch (field) {
+      case 'preferredDays':
+        return (value as number[]).map(dayName).join(', ') || '-';
+      case 'preferredShifts':
+        return (value as (keyof typeof SHIFT_TYPES)[]).map(shift => SHIFT_TYPES[shift].label).join(', ') || '-';
+      case 'preferredPositions':
+        return (value as string[]).join(', ') || '-';
+      case 'preferredHours': {
+        const hours = value as EmployeePreferenceValues['preferredHours'];
+        return `${hours.min}h - ${hours.max}h`;
+      }
+      default:
+        return (value as string) || '-';
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {diff.added.map(rule => (
+        <p key={`added-${rule.id}`} className="flex items-start text-green-800">
+          <Plus size={14} className="mr-1 mt-0.5 flex-shrink-0" />
+          <span>
+            {describeRule(rule)}
+            {rule.recurrence !== 'ONCE' && (!rule.date || rule.date < freezeEnd) && (
+              <span className="text-gray-500">
+                {' '}· {t('availabilityChanges.startsOn', { date: format(parseISO(freezeEnd), 'dd/MM/yyyy') })}
+              </span>
+            )}
+          </span>
+        </p>
+      ))}
+      {diff.removed.map(rule => (
+        <p key={`removed-${rule.id}`} className="flex items-start text-red-700 line-through">
+          <Minus size={14} className="mr-1 mt-0.5 flex-shrink-0" />
+          {describeRule(rule)}
+        </p>
+      ))}
+      {diff.preferenceChanges.map(change => (
+        <p key={change.field} className="text-gray-700">
+          <span className="font-medium">{t(`availabilityChanges.fields.${change.field}`)}</span>
+          {': '}
+          <span className="text-red-700 line-through">{describeValue(change.field, change.before)}</span>
+          {' → '}
+          <span className="text-green-800">{describeValue(change.field, change.after)}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default AvailabilityChangeDiff;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Check, Clock, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { AvailabilityChangeRequest, AvailabilityChangeStatus, Employee } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  DEFAULT_AVAILABILITY_FREEZE_DAYS,
+  diffAvailabilityChange,
+  getFreezeEnd,
+  getFrozenChanges
+} from '../../lib/availabilityChangeService';
+import AvailabilityChangeDiff from './AvailabilityChangeDiff';
+
+interface AvailabilityChangeInboxProps {
+  restaurantId: string;
+  employees: Employee[];
+}
+
+const STATUS_STYLES: Record<AvailabilityChangeStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+type InboxFilter = 'pending' | 'all';
+
+// CRITICAL: Manager review of the availability changes proposed from the employee portal
+const AvailabilityChangeInbox: React.FC<AvailabilityChangeInboxProps> = ({ restaurantId, employees }) => {
+  const { t } = useTranslation();
+  const {
+    availabilityChangeRequests,
+    reviewAvailabilityChange,
+    getEmployeeAvailabilities,
+    getEmployeePreferences,
+    settings
+  } = useAppContext();
+  const [filter, setFilter] = useState<InboxFilter>('pending');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const freezeDays = settings.availabilityFreezeDays ?? DEFAULT_AVAILABILITY_FREEZE_DAYS;
+  const freezeEnd = getFreezeEnd(freezeDays);
+
+  const requests = availabilityChangeRequests
+    .filter(request => request.restaurantId === restaurantId)
+    .filter(request => filter === 'all' || request.status === 'pending')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : t('leaveRequests.unknownEmployee');
+  };
+
+  const handleReview = async (request: AvailabilityChangeRequest, decision: 'accepted' | 'rejected') => {
+    setProcessingId(request.id);
+    try {
+      const updated = await reviewAvailabilityChange(request, decision, comments[request.id]);
+      if (updated) {
+        setComments(prev => ({ ...prev, [request.id]: '' }));
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Clock size={18} className="mr-2 text-blue-600" />
+          {t('availabilityChanges.inboxTitle')}
+        </h3>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as InboxFilter)}
+          aria-label={t('leaveRequests.filter')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="pending">{t('availabilityChanges.status.pending')}</option>
+          <option value="all">{t('leaveRequests.allRequests')}</option>
+        </select>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {t('availabilityChanges.freezeNotice', { days: freezeDays, date: format(parseISO(freezeEnd), 'dd/MM/yyyy') })}
+      </p>
+
+      {requests.length === 0 ? (
+        <p className="text-center py-6 text-gray-500">{t('availabilityChanges.noRequests')}</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {requests.map(request => {
+            const diff = request.status === 'pending'
+              ? diffAvailabilityChange(
+                  getEmployeeAvailabilities(request.employeeId),
+                  getEmployeePreferences(request.employeeId),
+                  request
+                )
+              : null;
+            const frozen = diff ? getFrozenChanges(diff, freezeEnd) : [];
+
+            return (
+              <div key={request.id} className="py-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{getEmployeeName(request.employeeId)}</p>
+                    <p className="text-xs text-gray-500">
+                      {t('availabilityChanges.submittedOn', { date: format(parseISO(request.createdAt), 'dd/MM/yyyy HH:mm') })}
+                    </p>
+                    {request.managerComment && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        {t('leaveRequests.managerComment')}: {request.managerComment}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[request.status]}`}>
+                    {t(`availabilityChanges.status.${request.status}`)}
+                  </span>
+                </div>
+
+                {diff && (
+                  <div className="mt-3 p-3 rounded-md bg-gray-50 border border-gray-200">
+                    <AvailabilityChangeDiff diff={diff} freezeEnd={freezeEnd} />
+                  </div>
+                )}
+
+                {frozen.length > 0 && (
+                  <p className="mt-2 text-sm text-orange-700">
+                    {t('availabilityChanges.frozenDates', {
+                      dates: frozen.map(rule => format(parseISO(rule.date!), 'dd/MM/yyyy')).join(', ')
+                    })}
+                  </p>
+                )}
+
+                {request.status === 'pending' && (
+                  <div className="mt-3 flex flex-col md:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={comments[request.id] ?? ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                      placeholder={t('leaveRequests.commentPlaceholder')}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleReview(request, 'accepted')}
+                      disabled={processingId === request.id || frozen.length > 0}
+                      className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <Check size={14} className="mr-1" />
+                      {t('availabilityChanges.accept')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleReview(request, 'rejected')}
+                      disabled={processingId === request.id || !comments[request.id]?.trim()}
+                      title={t('leaveRequests.rejectHint')}
+                      className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <X size={14} className="mr-1" />
+                      {t('leaveRequests.reject')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityChangeInbox;
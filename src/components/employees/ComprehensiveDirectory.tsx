@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { Database, Search, Filter, ArrowUp, ArrowDown, Download, FileText } from 'lucide-react';
+import { Database, Search, Filter, ArrowUp, ArrowDown, Download, FileText, QrCode } from 'lucide-react';
 import { Employee, EMPLOYEE_STATUS } from '../../types';
 import { useTranslation } from 'react-i18next';
 import { format, parseISO, differenceInYears } from 'date-fns';
@@ -8,6 +8,9 @@ import DirectoryExportButton from './DirectoryExportButton';
 import { pdf } from '@react-pdf/renderer';
 import DirectoryPDF from './DirectoryPDF';
 import { useAppContext } from '../../contexts/AppContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { kioskAuthService, getBadgePayload } from '../../lib/kioskAuthService';
+import QRCode from 'qrcode';
 import toast from 'react-hot-toast';
 
 interface ComprehensiveDirectoryProps {
@@ -33,6 +36,7 @@ const ComprehensiveDirectory: React.FC<ComprehensiveDirectoryProps> = ({
 }) => {
   const { t, i18n } = useTranslation();
   const { currentRestaurant } = useAppContext();
+  const { can } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [sortField, setSortField] = useState<SortField>(null);
@@ -343,8 +347,8 @@ const ComprehensiveDirectory: React.FC<ComprehensiveDirectoryProps> = ({
     return columns.filter(column => columnVisibility[column.id]);
   }, [columnVisibility]);
   
-  // Handle PDF export
-  const handleExportPDF = async () => {
+  // Handle PDF export (with a page of time clock badges when given)
+  const handleExportPDF = async (badges?: Record<string, string>) => {
     try {
       // Show loading toast
       const loadingToast = toast.loading(
@@ -360,6 +364,7 @@ const ComprehensiveDirectory: React.FC<ComprehensiveDirectoryProps> = ({
           restaurantName={restaurantName}
           columnVisibility={columnVisibility}
           restaurant={currentRestaurant}
+          badges={badges}
         />
       ).toBlob();
       
@@ -406,6 +411,30 @@ const ComprehensiveDirectory: React.FC<ComprehensiveDirectoryProps> = ({
     }
   };
 
+  // CRITICAL: Badges carry only an opaque token; missing tokens are issued on the fly
+  const handleExportBadges = async () => {
+    if (!currentRestaurant) return;
+
+    try {
+      const tokens = await kioskAuthService.getBadgeTokens(
+        currentRestaurant.id,
+        filteredAndSortedEmployees.map(employee => employee.id)
+      );
+
+      const badges: Record<string, string> = {};
+      for (const employee of filteredAndSortedEmployees) {
+        if (tokens[employee.id]) {
+          badges[employee.id] = await QRCode.toDataURL(getBadgePayload(tokens[employee.id]), { margin: 1, width: 240 });
+        }
+      }
+
+      await handleExportPDF(badges);
+    } catch (error) {
+      console.error('❌ Failed to generate badges:', error);
+      toast.error(t('staff.badgesExportFailed'));
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-sm">
       <div className="p-6 border-b border-gray-200">
@@ -433,8 +462,18 @@ const ComprehensiveDirectory: React.FC<ComprehensiveDirectoryProps> = ({
               Colonnes
             </button>
             
+            {currentRestaurant && can('employees:manage', currentRestaurant.id) && (
+              <button
+                onClick={handleExportBadges}
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <QrCode size={16} className="mr-2" />
+                {t('staff.badges')}
+              </button>
+            )}
+            
             <button
-              onClick={handleExportPDF}
+              onClick={() => handleExportPDF()}
               className="flex items-center px-3 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 transition-colors"
             >
               <FileText size={16} className="mr-2" />
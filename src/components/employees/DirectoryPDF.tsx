@@ -9,6 +9,7 @@ interface DirectoryPDFProps {
   restaurantName: string;
   columnVisibility: Record<string, boolean>;
   restaurant: any; // Using any to accommodate the restaurant object
+  badges?: Record<string, string>; // Employee id -> QR code image (data URL) of the time clock badge
 }
 
 // Create styles
@@ -148,9 +149,38 @@ const styles = StyleSheet.create({
     fontSize: 8,
     color: '#9ca3af',
   },
+  badgeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  badgeCard: {
+    width: '23%',
+    margin: '1%',
+    padding: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  badgeName: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    textAlign: 'center',
+  },
+  badgePosition: {
+    fontSize: 8,
+    color: '#6b7280',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  badgeQr: {
+    width: 110,
+    height: 110,
+  },
 });
 
-const DirectoryPDF: React.FC<DirectoryPDFProps> = ({ employees, restaurantName, columnVisibility, restaurant }) => {
+const DirectoryPDF: React.FC<DirectoryPDFProps> = ({ employees, restaurantName, columnVisibility, restaurant, badges }) => {
   // Calculate age from date of birth
   const calculateAge = (dateOfBirth: string): number => {
     if (!dateOfBirth) return 0;
@@ -404,6 +434,33 @@ const DirectoryPDF: React.FC<DirectoryPDFProps> = ({ employees, restaurantName,
           `Page ${pageNumber} / ${totalPages}`
         )} fixed />
       </Page>
+
+      {/* Time clock badges, one card per employee to cut out */}
+      {badges && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.header}>
+            <View style={styles.headerContent}>
+              <Text style={styles.title}>Badges de pointage</Text>
+              <Text style={styles.subtitle}>{restaurantName}</Text>
+              <Text style={styles.dateInfo}>Document généré le {currentDate}</Text>
+            </View>
+          </View>
+
+          <View style={styles.badgeGrid}>
+            {employees.filter(employee => badges[employee.id]).map(employee => (
+              <View key={employee.id} style={styles.badgeCard} wrap={false}>
+                <Text style={styles.badgeName}>{employee.firstName} {employee.lastName}</Text>
+                <Text style={styles.badgePosition}>{employee.position}</Text>
+                <Image src={badges[employee.id]} style={styles.badgeQr} />
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.pageNumber} render={({ pageNumber, totalPages }) => (
+            `Page ${pageNumber} / ${totalPages}`
+          )} fixed />
+        </Page>
+      )}
     </Document>
   );
 };
@@ -10,7 +10,7 @@ import {
   RecurrenceType 
 } from '../../types';
 import { useTranslation } from 'react-i18next';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import toast from 'react-hot-toast';
 
 interface EmployeeAvailabilityFormProps {
@@ -67,10 +67,11 @@ const EmployeeAvailabilityForm: React.FC<EmployeeAvailabilityFormProps> = ({
 
     try {
       // Validate inputs
-      if (startTime >= endTime) {
+      // An end before the start is an overnight slot (22:00 - 02:00)
+      if (startTime === endTime) {
         throw new Error(i18n.language === 'fr' 
-          ? 'L\'heure de début doit être antérieure à l\'heure de fin' 
-          : 'Start time must be before end time');
+          ? 'L\'heure de début doit être différente de l\'heure de fin' 
+          : 'Start time must differ from end time');
       }
 
       const availabilityData = {
@@ -79,10 +80,13 @@ const EmployeeAvailabilityForm: React.FC<EmployeeAvailabilityFormProps> = ({
         startTime,
         endTime,
         note: note || undefined,
-        // Set either dayOfWeek or date based on recurrence type
+        // Set either dayOfWeek or date based on recurrence type - bi-weekly and monthly
+        // rules also keep the date their cycle starts from
         ...(recurrenceType === 'ONCE' 
           ? { date } 
-          : { dayOfWeek })
+          : recurrenceType === 'WEEKLY'
+            ? { dayOfWeek }
+            : { dayOfWeek, date })
       };
 
       await onSave(employee.id, availabilityData);
@@ -256,6 +260,7 @@ const EmployeeAvailabilityForm: React.FC<EmployeeAvailabilityFormProps> = ({
                                           </p>
                                           <p className="text-sm text-gray-500">
                                             {formatAvailabilityType(availability.type)} • {formatRecurrenceType(availability.recurrence)}
+                                            {availability.date && ` • ${i18n.language === 'fr' ? 'depuis le' : 'from'} ${format(parseISO(availability.date), 'dd/MM/yyyy')}`}
                                           </p>
                                           {availability.note && (
                                             <p className="text-xs text-gray-500 mt-1">
@@ -425,6 +430,30 @@ const EmployeeAvailabilityForm: React.FC<EmployeeAvailabilityFormProps> = ({
                           </button>
                         ))}
                       </div>
+                      {recurrenceType !== 'WEEKLY' && (
+                        <div className="mt-3">
+                          <label htmlFor="cycleStart" className="block text-sm font-medium text-gray-700 mb-2">
+                            {i18n.language === 'fr' ? 'À partir du' : 'Starting from'}
+                          </label>
+                          <input
+                            type="date"
+                            id="cycleStart"
+                            value={date}
+                            onChange={(e) => setDate(e.target.value)}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            required
+                          />
+                          <p className="mt-1 text-xs text-gray-500">
+                            {recurrenceType === 'BIWEEKLY'
+                              ? (i18n.language === 'fr'
+                                ? 'Une semaine sur deux à partir de la première occurrence de ce jour'
+                                : 'Every other week from the first occurrence of this day')
+                              : (i18n.language === 'fr'
+                                ? 'Le même jour du mois que la première occurrence (ex. 2e mardi)'
+                                : 'Same weekday of the month as the first occurrence (e.g. 2nd Tuesday)')}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Mail, Calendar, MapPin, Globe, User, DollarSign, Briefcase, Clock, Heart, Calendar as CalendarIcon, Repeat, Upload, Image as ImageIcon } from 'lucide-react';
 import { Employee, POSITIONS, EMPLOYEE_CATEGORIES, EmployeeCategory, EMPLOYEE_STATUS, EmployeeStatus, formatFrenchPhoneNumber, formatSocialSecurityNumber } from '../../types';
+import { LABOR_RULE_PACKS } from '../../lib/laborRulePacks';
+import KioskCredentialsSection from './KioskCredentialsSection';
+import LeaveBalanceSection from './LeaveBalanceSection';
 import { useTranslation } from 'react-i18next';
 import toast from 'react-hot-toast';
 
@@ -47,9 +50,11 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
   const [placeOfBirth, setPlaceOfBirth] = useState('');
   const [countryOfBirth, setCountryOfBirth] = useState('France');
   const [employeeStatus, setEmployeeStatus] = useState<EmployeeStatus>('Employe');
+  const [laborRulePackId, setLaborRulePackId] = useState(''); // Empty = restaurant's pack
   const [hiringDate, setHiringDate] = useState('');
   const [hourlyRate, setHourlyRate] = useState<number>(12);
   const [grossMonthlySalary, setGrossMonthlySalary] = useState<number>(0);
+  const [payrollId, setPayrollId] = useState('');
   
   const [loading, setLoading] = useState(false);
   const [showCategoryPrompt, setShowCategoryPrompt] = useState(false);
@@ -99,9 +104,11 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
       setPlaceOfBirth(employee.placeOfBirth || '');
       setCountryOfBirth(employee.countryOfBirth || 'France');
       setEmployeeStatus(employee.employeeStatus || 'Employe');
+      setLaborRulePackId(employee.laborRulePackId || '');
       setHiringDate(employee.hiringDate || employee.startDate); // Default to startDate if hiringDate not set
       setHourlyRate(employee.hourlyRate || 12);
       setGrossMonthlySalary(employee.grossMonthlySalary || 0);
+      setPayrollId(employee.payrollId || '');
     } else {
       // Reset form for new employee
       setFirstName('');
@@ -128,9 +135,11 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
       setPlaceOfBirth('');
       setCountryOfBirth('France');
       setEmployeeStatus('Employe');
+      setLaborRulePackId('');
       setHiringDate('');
       setHourlyRate(12);
       setGrossMonthlySalary(0);
+      setPayrollId('');
     }
   }, [employee, isOpen]);
 
@@ -303,9 +312,11 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
         placeOfBirth: placeOfBirth || undefined,
         countryOfBirth: countryOfBirth || undefined,
         employeeStatus,
+        laborRulePackId: laborRulePackId || undefined,
         hiringDate: hiringDate || startDate, // Default to startDate if hiringDate not set
         hourlyRate,
-        grossMonthlySalary
+        grossMonthlySalary,
+        payrollId: payrollId.trim() || undefined
       };
 
       if (employee) {
@@ -567,6 +578,26 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
                         ))}
                       </select>
                     </div>
+
+                    <div>
+                      <label htmlFor="laborRulePackId" className="block text-sm font-medium text-gray-700">
+                        <div className="flex items-center">
+                          <Briefcase size={16} className="mr-2 text-gray-400" />
+                          {t('staff.laborRulePack')}
+                        </div>
+                      </label>
+                      <select
+                        id="laborRulePackId"
+                        value={laborRulePackId}
+                        onChange={(e) => setLaborRulePackId(e.target.value)}
+                        className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        <option value="">{t('staff.laborRulePackDefault')}</option>
+                        {LABOR_RULE_PACKS.map(pack => (
+                          <option key={pack.id} value={pack.id}>{pack.name}</option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
                 </div>
 
@@ -846,6 +877,16 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
                     </div>
                   </div>
                 </div>
+
+                {/* Paid leave, RTT and repos compensateur */}
+                {employee && <LeaveBalanceSection restaurantId={restaurantId} employee={employee} />}
+
+                {/* Time clock kiosk access */}
+                {employee ? (
+                  <KioskCredentialsSection restaurantId={restaurantId} employeeId={employee.id} />
+                ) : (
+                  <p className="text-sm text-gray-500">{t('staff.kioskAfterCreation')}</p>
+                )}
               </>
             )}
 
@@ -914,6 +955,23 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({
                         Calculé automatiquement: {weeklyHours}h/semaine × 4.33 semaines × {hourlyRate}€/h
                       </p>
                     </div>
+
+                    <div>
+                      <label htmlFor="payrollId" className="block text-sm font-medium text-gray-700">
+                        Matricule Paie
+                      </label>
+                      <input
+                        type="text"
+                        id="payrollId"
+                        value={payrollId}
+                        onChange={(e) => setPayrollId(e.target.value)}
+                        className="mt-1 block w-full py-2 px-3 rounded-md border border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+                        placeholder="Optionnel"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Identifiant du salarié dans le logiciel de paie, repris dans les exports
+                      </p>
+                    </div>
                   </div>
                   
                   <div className="mt-4 p-3 bg-blue-50 rounded-lg">
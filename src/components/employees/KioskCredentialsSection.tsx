@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyRound, QrCode, Lock, Unlock, Trash2 } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { KioskCredentialStatus } from '../../types';
+import { kioskAuthService, PIN_PATTERN } from '../../lib/kioskAuthService';
+import toast from 'react-hot-toast';
+
+interface KioskCredentialsSectionProps {
+  restaurantId: string;
+  employeeId: string;
+}
+
+// CRITICAL: PIN and badge of the time clock kiosk - the PIN is hashed server-side and never read back
+const KioskCredentialsSection: React.FC<KioskCredentialsSectionProps> = ({ restaurantId, employeeId }) => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<KioskCredentialStatus | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const statuses = await kioskAuthService.getCredentialStatus(restaurantId);
+      setStatus(statuses.find(s => s.employeeId === employeeId) ?? null);
+    } catch (error) {
+      console.error('❌ Failed to load kiosk credential status:', error);
+    }
+  }, [restaurantId, employeeId]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const isLocked = !!status?.lockedUntil && parseISO(status.lockedUntil) > new Date();
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setLoading(true);
+    try {
+      await action();
+      toast.success(successMessage);
+      await loadStatus();
+    } catch (error) {
+      console.error('❌ Kiosk credential update failed:', error);
+      toast.error(t('staff.kioskUpdateFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSavePin = async () => {
+    if (!PIN_PATTERN.test(pin)) {
+      toast.error(t('staff.kioskPinInvalid'));
+      return;
+    }
+    if (pin !== confirmPin) {
+      toast.error(t('staff.kioskPinMismatch'));
+      return;
+    }
+
+    await runAction(() => kioskAuthService.setPin(restaurantId, employeeId, pin), t('staff.kioskPinSaved'));
+    setPin('');
+    setConfirmPin('');
+  };
+
+  return (
+    <div className="border-b border-gray-200 pb-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">{t('staff.kioskAccess')}</h3>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <span className={`inline-flex items-center px-2 py-1 rounded-full ${
+          status?.hasPin ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+        }`}>
+          <KeyRound size={14} className="mr-1" />
+          {status?.hasPin ? t('staff.kioskPinSet') : t('staff.kioskPinNotSet')}
+        </span>
+        {isLocked && status?.lockedUntil && (
+          <span className="inline-flex items-center px-2 py-1 rounded-full bg-red-100 text-red-800">
+            <Lock size={14} className="mr-1" />
+            {t('staff.kioskLockedUntil', { time: format(parseISO(status.lockedUntil), 'dd/MM HH:mm') })}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label htmlFor="kioskPin" className="block text-sm font-medium text-gray-700">
+            {t('staff.kioskNewPin')}
+          </label>
+          <input
+            type="password"
+            id="kioskPin"
+            inputMode="numeric"
+            autoComplete="new-password"
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            maxLength={6}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="kioskPinConfirm" className="block text-sm font-medium text-gray-700">
+            {t('staff.kioskConfirmPin')}
+          </label>
+          <input
+            type="password"
+            id="kioskPinConfirm"
+            inputMode="numeric"
+            autoComplete="new-password"
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+            maxLength={6}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleSavePin}
+          disabled={loading || !pin}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t('staff.kioskSavePin')}
+        </button>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">{t('staff.kioskPinHint')}</p>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {status?.hasPin && (
+          <button
+            type="button"
+            onClick={() => runAction(() => kioskAuthService.setPin(restaurantId, employeeId, null), t('staff.kioskPinRemoved'))}
+            disabled={loading}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+          >
+            <Trash2 size={16} className="mr-1" />
+            {t('staff.kioskRemovePin')}
+          </button>
+        )}
+        {isLocked && (
+          <button
+            type="button"
+            onClick={() => runAction(() => kioskAuthService.unlock(restaurantId, employeeId), t('staff.kioskUnlocked'))}
+            disabled={loading}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            <Unlock size={16} className="mr-1" />
+            {t('staff.kioskUnlock')}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => runAction(() => kioskAuthService.regenerateBadge(restaurantId, employeeId), t('staff.kioskBadgeRegenerated'))}
+          disabled={loading}
+          className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+        >
+          <QrCode size={16} className="mr-1" />
+          {t('staff.kioskRegenerateBadge')}
+        </button>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">{t('staff.kioskBadgeHint')}</p>
+    </div>
+  );
+};
+
+export default KioskCredentialsSection;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, Palmtree, Plus } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { Employee, LeaveCounter, LeaveLedgerEntry } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { computeLeaveBalance, leaveLedgerService } from '../../lib/leaveLedgerService';
+import toast from 'react-hot-toast';
+
+interface LeaveBalanceSectionProps {
+  restaurantId: string;
+  employee: Employee;
+  readOnly?: boolean; // Employee portal: balances only, no manual movements
+}
+
+const COUNTERS: LeaveCounter[] = ['CP', 'RTT', 'REPOS_COMPENSATEUR'];
+
+// CRITICAL: CP, RTT and repos compensateur balances with the ledger behind them
+const LeaveBalanceSection: React.FC<LeaveBalanceSectionProps> = ({ restaurantId, employee, readOnly = false }) => {
+  const { t } = useTranslation();
+  const { schedules } = useAppContext();
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<LeaveLedgerEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [counter, setCounter] = useState<LeaveCounter>('CP');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    leaveLedgerService.fetchEntries(restaurantId, employee.id)
+      .then(setEntries)
+      .catch(error => {
+        console.error('❌ Failed to load leave ledger:', error);
+        toast.error(t('leave.loadFailed'));
+      });
+  }, [restaurantId, employee.id, t]);
+
+  const balance = computeLeaveBalance(employee, schedules, entries);
+  const counterLabel = (value: LeaveCounter) =>
+    value === 'CP' ? t('leave.paidLeave') : value === 'RTT' ? t('leave.rtt') : t('leave.reposCompensateur');
+  const formatAmount = (value: LeaveCounter, amount: number) =>
+    value === 'REPOS_COMPENSATEUR' ? t('leave.hours', { value: amount }) : t('leave.days', { value: amount });
+
+  const handleAddEntry = async () => {
+    setLoading(true);
+    try {
+      const entry = await leaveLedgerService.addEntry({
+        restaurantId,
+        employeeId: employee.id,
+        counter,
+        date,
+        amount: Number(amount),
+        reason
+      }, user?.id);
+      setEntries(prev => [...prev, entry]);
+      setAmount('');
+      setReason('');
+      toast.success(t('leave.entryAdded'));
+    } catch (error) {
+      console.error('❌ Failed to add leave ledger entry:', error);
+      toast.error(error instanceof Error ? error.message : t('leave.entryFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-gray-200 pb-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <Palmtree size={18} className="mr-2 text-green-600" />
+        {t('leave.title')}
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className={`p-4 rounded-lg border ${balance.cpBalance < 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-100'}`}>
+          <p className="text-sm font-medium text-gray-700">{t('leave.paidLeave')}</p>
+          <p className={`text-2xl font-bold ${balance.cpBalance < 0 ? 'text-red-700' : 'text-green-800'}`}>
+            {t('leave.days', { value: balance.cpBalance })}
+          </p>
+          <dl className="mt-2 space-y-1 text-xs text-gray-600">
+            <div className="flex justify-between">
+              <dt>{t('leave.acquired')}</dt>
+              <dd>{balance.cpAcquired}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt>
+                {t('leave.accruing', {
+                  start: format(parseISO(balance.referencePeriodStart), 'dd/MM/yyyy'),
+                  end: format(parseISO(balance.referencePeriodEnd), 'dd/MM/yyyy')
+                })}
+              </dt>
+              <dd>{balance.cpAccruing}</dd>
+            </div>
+            {balance.cpAdjustments !== 0 && (
+              <div className="flex justify-between">
+                <dt>{t('leave.adjustments')}</dt>
+                <dd>{balance.cpAdjustments > 0 ? '+' : ''}{balance.cpAdjustments}</dd>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <dt>{t('leave.taken')}</dt>
+              <dd>-{balance.cpTaken}</dd>
+            </div>
+          </dl>
+        </div>
+
+        <div className="p-4 rounded-lg border bg-blue-50 border-blue-100">
+          <p className="text-sm font-medium text-gray-700">{t('leave.rtt')}</p>
+          <p className="text-2xl font-bold text-blue-800">{t('leave.days', { value: balance.rttBalance })}</p>
+        </div>
+
+        <div className="p-4 rounded-lg border bg-purple-50 border-purple-100">
+          <p className="text-sm font-medium text-gray-700">{t('leave.reposCompensateur')}</p>
+          <p className="text-2xl font-bold text-purple-800">{t('leave.hours', { value: balance.reposCompensateurBalance })}</p>
+        </div>
+      </div>
+
+      {balance.cpBalance < 0 && (
+        <p className="mt-3 flex items-center text-sm text-red-700">
+          <AlertTriangle size={14} className="mr-1" />
+          {t('leave.negativeBalance')}
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setShowHistory(!showHistory)}
+        className="mt-4 text-sm text-blue-600 hover:text-blue-800"
+      >
+        {t('leave.history')} ({balance.lines.length})
+      </button>
+
+      {showHistory && (
+        <div className="mt-2 max-h-48 overflow-y-auto border rounded-md divide-y text-sm">
+          {balance.lines.length === 0 ? (
+            <p className="p-3 text-gray-500">{t('leave.noMovements')}</p>
+          ) : (
+            [...balance.lines].reverse().map((line, index) => (
+              <div key={`${line.date}-${index}`} className="flex justify-between px-3 py-2">
+                <span className="text-gray-600">
+                  {format(parseISO(line.date), 'dd/MM/yyyy')} · {counterLabel(line.counter)} · {
+                    line.source === 'accrual'
+                      ? t('leave.sourceAccrual')
+                      : line.source === 'taken'
+                        ? t('leave.sourceTaken')
+                        : line.reason
+                  }
+                </span>
+                <span className={line.amount < 0 ? 'text-red-600' : 'text-green-700'}>
+                  {line.amount > 0 ? '+' : ''}{formatAmount(line.counter, line.amount)}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">{t('leave.addEntry')}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+            <select
+              value={counter}
+              onChange={(e) => setCounter(e.target.value as LeaveCounter)}
+              aria-label={t('leave.counter')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {COUNTERS.map(value => (
+                <option key={value} value={value}>{counterLabel(value)}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.5"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={t('leave.amount')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              aria-label={t('leave.date')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('leave.reason')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleAddEntry}
+              disabled={loading || !amount || !reason.trim() || !date}
+              className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Plus size={14} className="mr-1" />
+              {t('leave.addEntry')}
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">{t('leave.amountHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaveBalanceSection;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CalendarX, Check, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { Employee, LeaveRequest, LeaveRequestStatus } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { getLeaveRequestConflicts, getLeaveRequestDates } from '../../lib/leaveRequestService';
+
+interface LeaveRequestInboxProps {
+  restaurantId: string;
+  employees: Employee[];
+}
+
+const STATUS_STYLES: Record<LeaveRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+type InboxFilter = 'pending' | 'all';
+
+// CRITICAL: Manager inbox of the leave requests sent from the employee portal
+const LeaveRequestInbox: React.FC<LeaveRequestInboxProps> = ({ restaurantId, employees }) => {
+  const { t } = useTranslation();
+  const { leaveRequests, schedules, reviewLeaveRequest } = useAppContext();
+  const [filter, setFilter] = useState<InboxFilter>('pending');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const requests = leaveRequests
+    .filter(request => request.restaurantId === restaurantId)
+    .filter(request => filter === 'all' || request.status === 'pending')
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : t('leaveRequests.unknownEmployee');
+  };
+
+  const handleReview = async (request: LeaveRequest, decision: 'approved' | 'rejected') => {
+    setProcessingId(request.id);
+    try {
+      const updated = await reviewLeaveRequest(request, decision, comments[request.id]);
+      if (updated) {
+        setComments(prev => ({ ...prev, [request.id]: '' }));
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <CalendarX size={18} className="mr-2 text-blue-600" />
+          {t('leaveRequests.inboxTitle')}
+        </h3>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as InboxFilter)}
+          aria-label={t('leaveRequests.filter')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="pending">{t('leaveRequests.status.pending')}</option>
+          <option value="all">{t('leaveRequests.allRequests')}</option>
+        </select>
+      </div>
+
+      {requests.length === 0 ? (
+        <p className="text-center py-6 text-gray-500">{t('leaveRequests.noRequests')}</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {requests.map(request => {
+            const conflicts = request.status === 'pending' ? getLeaveRequestConflicts(request, schedules) : [];
+            const days = getLeaveRequestDates(request).length;
+
+            return (
+              <div key={request.id} className="py-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {getEmployeeName(request.employeeId)} · {t(`leaveRequests.types.${request.type}`)}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {t('leaveRequests.period', {
+                        start: format(parseISO(request.startDate), 'dd/MM/yyyy'),
+                        end: format(parseISO(request.endDate), 'dd/MM/yyyy'),
+                        count: days
+                      })}
+                    </p>
+                    {request.reason && (
+                      <p className="text-sm text-gray-500 italic mt-1">"{request.reason}"</p>
+                    )}
+                    {request.managerComment && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        {t('leaveRequests.managerComment')}: {request.managerComment}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[request.status]}`}>
+                    {t(`leaveRequests.status.${request.status}`)}
+                  </span>
+                </div>
+
+                {conflicts.length > 0 && (
+                  <div className="mt-2 p-2 rounded-md bg-orange-50 border border-orange-200 text-sm text-orange-800">
+                    <p className="flex items-center font-medium">
+                      <AlertTriangle size={14} className="mr-1" />
+                      {t('leaveRequests.conflicts', { count: conflicts.length })}
+                    </p>
+                    <ul className="mt-1 ml-5 list-disc">
+                      {conflicts.map(({ date, shift }) => (
+                        <li key={shift.id}>
+                          {format(parseISO(date), 'dd/MM/yyyy')} · {shift.start}-{shift.end} · {shift.position}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {request.status === 'pending' && (
+                  <div className="mt-3 flex flex-col md:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={comments[request.id] ?? ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [request.id]: e.target.value }))}
+                      placeholder={t('leaveRequests.commentPlaceholder')}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleReview(request, 'approved')}
+                      disabled={processingId === request.id}
+                      className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <Check size={14} className="mr-1" />
+                      {t('leaveRequests.approve')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleReview(request, 'rejected')}
+                      disabled={processingId === request.id || !comments[request.id]?.trim()}
+                      title={t('leaveRequests.rejectHint')}
+                      className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <X size={14} className="mr-1" />
+                      {t('leaveRequests.reject')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaveRequestInbox;
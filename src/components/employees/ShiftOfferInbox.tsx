@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { Check, Plus, Repeat, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { differenceInCalendarDays, format, parseISO, startOfWeek } from 'date-fns';
+import { Employee, EmployeeCategory, EMPLOYEE_CATEGORIES, POSITIONS, SHIFT_TYPES, ShiftOffer, ShiftOfferStatus } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { getShiftOfferDate } from '../../lib/shiftOfferService';
+
+interface ShiftOfferInboxProps {
+  restaurantId: string;
+  employees: Employee[];
+}
+
+const STATUS_STYLES: Record<ShiftOfferStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  claimed: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600'
+};
+
+type InboxFilter = 'active' | 'all';
+
+interface OpenShiftForm {
+  date: string;
+  start: string;
+  end: string;
+  position: string;
+  category: EmployeeCategory;
+  note: string;
+}
+
+// CRITICAL: Manager side of the shift marketplace - post open shifts, approve claims in one click
+const ShiftOfferInbox: React.FC<ShiftOfferInboxProps> = ({ restaurantId, employees }) => {
+  const { t } = useTranslation();
+  const { shiftOffers, postOpenShift, reviewShiftOffer, checkShiftOfferCandidate } = useAppContext();
+  const [filter, setFilter] = useState<InboxFilter>('active');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<OpenShiftForm>({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    start: SHIFT_TYPES.morning.defaultStart,
+    end: SHIFT_TYPES.morning.defaultEnd,
+    position: POSITIONS[POSITIONS.length - 1],
+    category: 'Salle',
+    note: ''
+  });
+
+  const offers = shiftOffers
+    .filter(offer => offer.restaurantId === restaurantId)
+    .filter(offer => filter === 'all' || offer.status === 'open' || offer.status === 'claimed')
+    .sort((a, b) => getShiftOfferDate(a).localeCompare(getShiftOfferDate(b)) || a.shift.start.localeCompare(b.shift.start));
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : t('leaveRequests.unknownEmployee');
+  };
+
+  const handleReview = async (offer: ShiftOffer, decision: 'approved' | 'rejected') => {
+    setProcessingId(offer.id);
+    try {
+      const updated = await reviewShiftOffer(offer, decision, comments[offer.id]);
+      if (updated) {
+        setComments(prev => ({ ...prev, [offer.id]: '' }));
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const date = parseISO(form.date);
+    const weekStartDate = startOfWeek(date, { weekStartsOn: 1 });
+    const created = await postOpenShift({
+      restaurantId,
+      day: differenceInCalendarDays(date, weekStartDate),
+      start: form.start,
+      end: form.end,
+      position: form.position,
+      type: form.start < SHIFT_TYPES.evening.defaultStart ? 'morning' : 'evening'
+    }, weekStartDate, form.category, form.note);
+    if (created) {
+      setShowForm(false);
+      setForm(prev => ({ ...prev, note: '' }));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Repeat size={18} className="mr-2 text-blue-600" />
+          {t('shiftOffers.inboxTitle')}
+        </h3>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setShowForm(!showForm)}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100"
+          >
+            <Plus size={14} className="mr-1" />
+            {t('shiftOffers.postOpenShift')}
+          </button>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as InboxFilter)}
+            aria-label={t('leaveRequests.filter')}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="active">{t('shiftOffers.status.open')}</option>
+            <option value="all">{t('leaveRequests.allRequests')}</option>
+          </select>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handlePost} className="mb-6 p-4 rounded-md bg-gray-50 border border-gray-200 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="text-sm text-gray-700">
+            {t('shiftOffers.date')}
+            <input
+              type="date"
+              required
+              value={form.date}
+              min={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            {t('shifts.startTime')}
+            <input
+              type="time"
+              required
+              value={form.start}
+              onChange={(e) => setForm(prev => ({ ...prev, start: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            {t('shifts.endTime')}
+            <input
+              type="time"
+              required
+              value={form.end}
+              onChange={(e) => setForm(prev => ({ ...prev, end: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            {t('shiftOffers.position')}
+            <select
+              value={form.position}
+              onChange={(e) => setForm(prev => ({ ...prev, position: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {POSITIONS.map(position => (
+                <option key={position} value={position}>{t(`positions.${position.toLowerCase().replace(/[^a-z]/g, '')}`)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            {t('shiftOffers.category')}
+            <select
+              value={form.category}
+              onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value as EmployeeCategory }))}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {(Object.keys(EMPLOYEE_CATEGORIES) as EmployeeCategory[]).map(category => (
+                <option key={category} value={category}>{EMPLOYEE_CATEGORIES[category]}</option>
+              ))}
+            </select>
+          </label>
+          <div className="md:col-span-3 flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              value={form.note}
+              onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+              placeholder={t('shiftOffers.notePlaceholder')}
+              aria-label={t('shiftOffers.notePlaceholder')}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              type="submit"
+              disabled={form.start === form.end}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('shiftOffers.post')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {offers.length === 0 ? (
+        <p className="text-center py-6 text-gray-500">{t('shiftOffers.noOffers')}</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {offers.map(offer => {
+            const eligibility = offer.status === 'claimed' && offer.claimedBy
+              ? checkShiftOfferCandidate(offer, offer.claimedBy)
+              : null;
+            const isActive = offer.status === 'open' || offer.status === 'claimed';
+
+            return (
+              <div key={offer.id} className="py-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {format(parseISO(getShiftOfferDate(offer)), 'dd/MM/yyyy')} · {offer.shift.start}–{offer.shift.end} · {offer.shift.position}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {offer.offeredBy
+                        ? t('shiftOffers.offeredBy', { name: getEmployeeName(offer.offeredBy) })
+                        : t('shiftOffers.openShift')}
+                      {offer.claimedBy && (
+                        <> · {t('shiftOffers.claimedBy', { name: getEmployeeName(offer.claimedBy) })}</>
+                      )}
+                    </p>
+                    {offer.note && <p className="text-sm text-gray-500 mt-1">{offer.note}</p>}
+                    {offer.managerComment && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        {t('leaveRequests.managerComment')}: {offer.managerComment}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[offer.status]}`}>
+                    {t(`shiftOffers.status.${offer.status}`)}
+                  </span>
+                </div>
+
+                {eligibility && !eligibility.eligible && (
+                  <div className="mt-2 text-sm text-orange-700">
+                    <p>
+                      {t('shiftOffers.ineligible', {
+                        reasons: eligibility.reasons.map(reason => t(`shiftOffers.reasons.${reason}`)).join(', ')
+                      })}
+                    </p>
+                    {eligibility.violations.map(violation => (
+                      <p key={violation.id} className="text-xs">{violation.message}</p>
+                    ))}
+                  </div>
+                )}
+
+                {isActive && (
+                  <div className="mt-3 flex flex-col md:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={comments[offer.id] ?? ''}
+                      onChange={(e) => setComments(prev => ({ ...prev, [offer.id]: e.target.value }))}
+                      placeholder={t('leaveRequests.commentPlaceholder')}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    {offer.status === 'claimed' && (
+                      <button
+                        type="button"
+                        onClick={() => handleReview(offer, 'approved')}
+                        disabled={processingId === offer.id || !eligibility?.eligible}
+                        className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        <Check size={14} className="mr-1" />
+                        {t('shiftOffers.approve')}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleReview(offer, 'rejected')}
+                      disabled={processingId === offer.id || !comments[offer.id]?.trim()}
+                      title={t('leaveRequests.rejectHint')}
+                      className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                    >
+                      <X size={14} className="mr-1" />
+                      {t('leaveRequests.reject')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShiftOfferInbox;
@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Upload, Download, Trash2, Search, Filter, Eye, File, FilePlus, FolderPlus, Calendar, X } from 'lucide-react';
+import { FileText, Upload, Download, Trash2, Search, Filter, Eye, File, FilePlus, FolderPlus, Calendar, X, PenLine, Send, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { pdf } from '@react-pdf/renderer';
+import { format, parseISO } from 'date-fns';
 import { useAppContext } from '../../contexts/AppContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { autoSaveService } from '../../lib/autoSaveService';
+import { verifySignatureRequest, SignatureVerification } from '../../lib/documentSignatureService';
+import SignedDocumentPDF from './SignedDocumentPDF';
+import SignatureRequestModal from './SignatureRequestModal';
+import SignDocumentModal from './SignDocumentModal';
 import toast from 'react-hot-toast';
 
 // Document types
@@ -18,6 +24,7 @@ interface Document {
   size: number;
   url: string;
   status?: 'pending' | 'signed' | 'rejected';
+  signatureRequestId?: string; // Set for documents sent for electronic signature
 }
 
 interface DocumentManagerProps {
@@ -30,8 +37,12 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
   restrictToEmployee = false
 }) => {
   const { t, i18n } = useTranslation();
-  const { currentRestaurant, getRestaurantEmployees } = useAppContext();
-  const { profile, isManager } = useAuth();
+  const { currentRestaurant, getRestaurantEmployees, settings, signatureRequests, cancelSignatureRequest } = useAppContext();
+  const { profile, can } = useAuth();
+  // Managers handle every document of the restaurant, employees only their own (restrictToEmployee)
+  const canManageDocuments = can('documents:manage', currentRestaurant?.id) || restrictToEmployee;
+  // Only managers send documents for signature, only the employee signs them
+  const canRequestSignatures = can('documents:manage', currentRestaurant?.id) && !restrictToEmployee;
   
   // State
   const [documents, setDocuments] = useState<Document[]>([]);
@@ -44,6 +55,9 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
   const [showFolderModal, setShowFolderModal] = useState(false);
   const [loading, setLoading] = useState(true);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [showSignatureRequestModal, setShowSignatureRequestModal] = useState(false);
+  const [signingRequestId, setSigningRequestId] = useState<string | null>(null);
+  const [verification, setVerification] = useState<SignatureVerification | null>(null);
   
   // Initialize auto-save service for documents
   useEffect(() => {
@@ -87,6 +101,43 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
       ? employees.filter(e => e.email === profile.email)
       : employees;
 
+  // CRITICAL: Signature requests are real documents - cancelled ones are withdrawn from the list
+  const filteredEmployeeIds = new Set(filteredEmployees.map(e => e.id));
+  const signatureDocuments: Document[] = signatureRequests.flatMap(request =>
+    request.status === 'cancelled' || !filteredEmployeeIds.has(request.employeeId)
+      ? []
+      : [{
+          id: request.id,
+          employeeId: request.employeeId,
+          name: `${request.title}.pdf`,
+          category: 'contract' as DocumentCategory,
+          uploadDate: (request.signature?.signedAt ?? request.requestedAt).split('T')[0],
+          size: new Blob([request.content]).size,
+          url: '#',
+          status: request.status,
+          signatureRequestId: request.id
+        }]
+  );
+  const pendingSignatureCount = signatureDocuments.filter(doc => doc.status === 'pending').length;
+  const selectedSignatureRequest = signatureRequests.find(r => r.id === selectedDocument?.signatureRequestId);
+  const signingRequest = signatureRequests.find(r => r.id === signingRequestId);
+
+  // Hashes are checked again each time a signed document is opened
+  useEffect(() => {
+    setVerification(null);
+    if (!selectedSignatureRequest) return;
+
+    let cancelled = false;
+    verifySignatureRequest(selectedSignatureRequest)
+      .then(result => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch(error => console.error('❌ Failed to verify signature:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSignatureRequest]);
+
   // Load documents
   useEffect(() => {
     const loadDocuments = async () => {
@@ -164,32 +215,38 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
     return mockDocs;
   };
 
+  // Whether a document matches the search and category filters
+  const matchesFilters = (
+    doc: Document,
+    search: string,
+    category: DocumentCategory | 'all'
+  ): boolean => {
+    if (search) {
+      const searchLower = search.toLowerCase();
+      const matchesSearch = doc.name.toLowerCase().includes(searchLower) ||
+        employees.find(e => e.id === doc.employeeId)?.firstName.toLowerCase().includes(searchLower) ||
+        employees.find(e => e.id === doc.employeeId)?.lastName.toLowerCase().includes(searchLower);
+      if (!matchesSearch) return false;
+    }
+
+    return category === 'all' || doc.category === category;
+  };
+
   // Filter documents
   const filterDocuments = (
     docs: Document[], 
     search: string, 
     category: DocumentCategory | 'all'
   ) => {
-    let filtered = docs;
-    
-    // Apply search filter
-    if (search) {
-      const searchLower = search.toLowerCase();
-      filtered = filtered.filter(doc => 
-        doc.name.toLowerCase().includes(searchLower) ||
-        employees.find(e => e.id === doc.employeeId)?.firstName.toLowerCase().includes(searchLower) ||
-        employees.find(e => e.id === doc.employeeId)?.lastName.toLowerCase().includes(searchLower)
-      );
-    }
-    
-    // Apply category filter
-    if (category !== 'all') {
-      filtered = filtered.filter(doc => doc.category === category);
-    }
-    
-    setFilteredDocuments(filtered);
+    setFilteredDocuments(docs.filter(doc => matchesFilters(doc, search, category)));
   };
 
+  // Signature requests come from the context and stay in sync on their own
+  const visibleDocuments = [
+    ...signatureDocuments.filter(doc => matchesFilters(doc, searchTerm, categoryFilter)),
+    ...filteredDocuments
+  ];
+
   // Handle search
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -257,13 +314,58 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
   };
 
   // Handle document download
-  const handleDownload = (doc: Document) => {
+  const handleDownload = async (doc: Document) => {
+    const request = signatureRequests.find(r => r.id === doc.signatureRequestId);
+    if (request) {
+      await handleDownloadSigned(request.id);
+      return;
+    }
+
     // In a real implementation, this would download the document
     toast.success(i18n.language === 'fr' 
       ? 'Téléchargement du document démarré' 
       : 'Document download started');
   };
 
+  // CRITICAL: The PDF is rebuilt from the stored request - the hashes printed on it prove it was not altered
+  const handleDownloadSigned = async (requestId: string) => {
+    const request = signatureRequests.find(r => r.id === requestId);
+    if (!request) return;
+
+    try {
+      const blob = await pdf(
+        <SignedDocumentPDF
+          request={request}
+          employeeName={getEmployeeName(request.employeeId)}
+          restaurantName={currentRestaurant?.legalName || currentRestaurant?.name || ''}
+        />
+      ).toBlob();
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${request.title}${request.status === 'signed' ? ` - ${t('signatures.signedSuffix')}` : ''}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 5000);
+    } catch (error) {
+      console.error('❌ Failed to generate signed document:', error);
+      toast.error(t('signatures.pdfError'));
+    }
+  };
+
+  // Withdraw a document still waiting for the employee's signature
+  const handleCancelSignature = async (doc: Document) => {
+    const request = signatureRequests.find(r => r.id === doc.signatureRequestId);
+    if (!request || !window.confirm(t('signatures.cancelConfirm'))) return;
+
+    const cancelled = await cancelSignatureRequest(request);
+    if (cancelled && selectedDocument?.id === doc.id) {
+      setShowViewModal(false);
+    }
+  };
+
   // Handle document delete with auto-save
   const handleDelete = (doc: Document) => {
     if (confirm(i18n.language === 'fr' 
@@ -385,8 +487,19 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
           </div>
           
           {/* Action buttons - only show if user is a manager or viewing their own documents */}
-          {(isManager() || restrictToEmployee) && (
+          {canManageDocuments && (
             <div className="flex gap-2">
+              {canRequestSignatures && settings.electronicSignature && (
+                <button
+                  onClick={() => setShowSignatureRequestModal(true)}
+                  disabled={filteredEmployees.length === 0}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <Send size={16} className="mr-2" />
+                  {t('signatures.requestSignature')}
+                </button>
+              )}
+
               <button
                 onClick={() => setShowFolderModal(true)}
                 className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -406,6 +519,13 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
           )}
         </div>
         
+        {restrictToEmployee && pendingSignatureCount > 0 && (
+          <div className="mb-4 flex items-center p-3 rounded-md bg-yellow-50 text-sm text-yellow-800">
+            <PenLine size={16} className="mr-2" />
+            {t('signatures.awaitingYou', { count: pendingSignatureCount })}
+          </div>
+        )}
+
         <div className="flex flex-col md:flex-row md:items-center gap-4">
           {/* Search */}
           <div className="flex-1 max-w-md">
@@ -519,7 +639,7 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                   </div>
                 </td>
               </tr>
-            ) : filteredDocuments.length === 0 ? (
+            ) : visibleDocuments.length === 0 ? (
               <tr>
                 <td colSpan={employeeId || restrictToEmployee ? 6 : 7} className="px-6 py-4 text-center text-gray-500">
                   {i18n.language === 'fr' 
@@ -528,7 +648,7 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                 </td>
               </tr>
             ) : (
-              filteredDocuments.map(doc => (
+              visibleDocuments.map(doc => (
                 <tr key={doc.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
@@ -560,6 +680,15 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                     {getStatusBadge(doc.status)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {restrictToEmployee && doc.signatureRequestId && doc.status === 'pending' && (
+                      <button
+                        onClick={() => setSigningRequestId(doc.signatureRequestId ?? null)}
+                        className="text-yellow-600 hover:text-yellow-800 mr-3"
+                        title={t('signatures.sign')}
+                      >
+                        <PenLine size={16} />
+                      </button>
+                    )}
                     <button
                       onClick={() => handleView(doc)}
                       className="text-blue-600 hover:text-blue-900 mr-3"
@@ -574,7 +703,17 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                     >
                       <Download size={16} />
                     </button>
-                    {(isManager() || restrictToEmployee) && (
+                    {canRequestSignatures && doc.signatureRequestId && doc.status === 'pending' && (
+                      <button
+                        onClick={() => handleCancelSignature(doc)}
+                        className="text-red-600 hover:text-red-900"
+                        title={t('signatures.cancelRequest')}
+                      >
+                        <X size={16} />
+                      </button>
+                    )}
+                    {/* Signed and rejected documents are kept as evidence */}
+                    {canManageDocuments && !doc.signatureRequestId && (
                       <button
                         onClick={() => handleDelete(doc)}
                         className="text-red-600 hover:text-red-900"
@@ -771,23 +910,36 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
               </div>
               
               <div className="p-4">
-                <div className="bg-gray-100 rounded-lg p-4 h-96 flex items-center justify-center">
-                  <div className="text-center">
-                    <FileText size={64} className="mx-auto text-gray-400 mb-4" />
-                    <p className="text-gray-600 mb-2">
-                      {i18n.language === 'fr' 
-                        ? 'Aperçu du document non disponible' 
-                        : 'Document preview not available'}
-                    </p>
-                    <button
-                      onClick={() => handleDownload(selectedDocument)}
-                      className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-                    >
-                      <Download size={16} className="mr-2" />
-                      {i18n.language === 'fr' ? 'Télécharger' : 'Download'}
-                    </button>
+                {selectedSignatureRequest ? (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 h-96 overflow-y-auto">
+                    <p className="whitespace-pre-wrap text-sm text-gray-800">{selectedSignatureRequest.content}</p>
+                    {selectedSignatureRequest.signature && (
+                      <img
+                        src={selectedSignatureRequest.signature.image}
+                        alt={selectedSignatureRequest.signature.signerName}
+                        className="mt-4 ml-auto h-16"
+                      />
+                    )}
                   </div>
-                </div>
+                ) : (
+                  <div className="bg-gray-100 rounded-lg p-4 h-96 flex items-center justify-center">
+                    <div className="text-center">
+                      <FileText size={64} className="mx-auto text-gray-400 mb-4" />
+                      <p className="text-gray-600 mb-2">
+                        {i18n.language === 'fr' 
+                          ? 'Aperçu du document non disponible' 
+                          : 'Document preview not available'}
+                      </p>
+                      <button
+                        onClick={() => handleDownload(selectedDocument)}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                      >
+                        <Download size={16} className="mr-2" />
+                        {i18n.language === 'fr' ? 'Télécharger' : 'Download'}
+                      </button>
+                    </div>
+                  </div>
+                )}
                 
                 <div className="mt-4 grid grid-cols-2 gap-4">
                   <div>
@@ -828,7 +980,71 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
                         {getStatusBadge(selectedDocument.status)}
                       </div>
                       
-                      {selectedDocument.status === 'pending' && (
+                      {selectedSignatureRequest ? (
+                        <div className="mt-3 space-y-2 text-sm text-gray-600">
+                          <p>
+                            {t('signatures.requestedOn', {
+                              date: format(parseISO(selectedSignatureRequest.requestedAt), 'dd/MM/yyyy HH:mm')
+                            })}
+                          </p>
+                          {selectedSignatureRequest.viewedAt && (
+                            <p>
+                              {t('signatures.viewedOn', {
+                                date: format(parseISO(selectedSignatureRequest.viewedAt), 'dd/MM/yyyy HH:mm')
+                              })}
+                            </p>
+                          )}
+                          {selectedSignatureRequest.signature && (
+                            <p>
+                              {t('signatures.signedOn', {
+                                date: format(parseISO(selectedSignatureRequest.signature.signedAt), 'dd/MM/yyyy HH:mm'),
+                                name: selectedSignatureRequest.signature.signerName
+                              })}
+                              {selectedSignatureRequest.signerIp && ` · IP ${selectedSignatureRequest.signerIp}`}
+                            </p>
+                          )}
+                          {selectedSignatureRequest.rejectionReason && (
+                            <p className="text-red-700">
+                              {t('signatures.rejectionReason', { reason: selectedSignatureRequest.rejectionReason })}
+                            </p>
+                          )}
+                          {verification && (
+                            verification.contentIntact && verification.sealIntact ? (
+                              <p className="flex items-center text-green-700">
+                                <ShieldCheck size={16} className="mr-1" />
+                                {t('signatures.integrityOk')}
+                              </p>
+                            ) : (
+                              <p className="flex items-center text-red-700">
+                                <ShieldAlert size={16} className="mr-1" />
+                                {t('signatures.integrityFailed')}
+                              </p>
+                            )
+                          )}
+                          <p className="font-mono text-xs text-gray-400 break-all">SHA-256 {selectedSignatureRequest.contentHash}</p>
+                          {restrictToEmployee && selectedSignatureRequest.status === 'pending' && (
+                            <button
+                              onClick={() => {
+                                setShowViewModal(false);
+                                setSigningRequestId(selectedSignatureRequest.id);
+                              }}
+                              className="w-full inline-flex justify-center items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
+                            >
+                              <PenLine size={16} className="mr-2" />
+                              {t('signatures.reviewAndSign')}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDownloadSigned(selectedSignatureRequest.id)}
+                            className="w-full inline-flex justify-center items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                          >
+                            <Download size={16} className="mr-2" />
+                            {selectedSignatureRequest.status === 'signed'
+                              ? t('signatures.downloadSigned')
+                              : i18n.language === 'fr' ? 'Télécharger' : 'Download'}
+                          </button>
+                        </div>
+                      ) : selectedDocument.status === 'pending' && (
                         <div className="mt-3 flex space-x-2">
                           <button
                             className="flex-1 inline-flex justify-center items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
@@ -954,6 +1170,22 @@ const DocumentManager: React.FC<DocumentManagerProps> = ({
           </div>
         </div>
       )}
+
+      {showSignatureRequestModal && (
+        <SignatureRequestModal
+          employees={filteredEmployees}
+          defaultEmployeeId={employeeId}
+          onClose={() => setShowSignatureRequestModal(false)}
+        />
+      )}
+
+      {signingRequest && (
+        <SignDocumentModal
+          request={signingRequest}
+          employeeName={getEmployeeName(signingRequest.employeeId)}
+          onClose={() => setSigningRequestId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eraser, PenLine, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { DocumentSignatureRequest, SignatureMethod } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+
+interface SignDocumentModalProps {
+  request: DocumentSignatureRequest;
+  employeeName: string;
+  onClose: () => void;
+}
+
+const PAD_WIDTH = 600;
+const PAD_HEIGHT = 150;
+const INK_COLOR = '#1e3a8a';
+
+// A typed signature is drawn in a script font so the PDF gets an image either way
+const renderTypedSignature = (name: string): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAD_WIDTH;
+  canvas.height = PAD_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+
+  context.fillStyle = INK_COLOR;
+  context.font = 'italic 56px "Brush Script MT", "Segoe Script", cursive';
+  context.textBaseline = 'middle';
+  context.fillText(name, 20, PAD_HEIGHT / 2, PAD_WIDTH - 40);
+  return canvas.toDataURL('image/png');
+};
+
+// CRITICAL: Employee side of e-signature - read the full text, then sign with a drawn or typed signature
+const SignDocumentModal: React.FC<SignDocumentModalProps> = ({ request, employeeName, onClose }) => {
+  const { t } = useTranslation();
+  const { signDocument, rejectSignatureRequest, markSignatureRequestViewed } = useAppContext();
+  const [method, setMethod] = useState<SignatureMethod>('drawn');
+  const [typedName, setTypedName] = useState(employeeName);
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const [consent, setConsent] = useState(false);
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  // The opening is part of the audit trail
+  useEffect(() => {
+    markSignatureRequestViewed(request);
+  }, [request, markSignatureRequestViewed]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      (e.clientX - rect.left) * (PAD_WIDTH / rect.width),
+      (e.clientY - rect.top) * (PAD_HEIGHT / rect.height)
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    context.strokeStyle = INK_COLOR;
+    context.lineWidth = 3;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(...getPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    context.lineTo(...getPoint(e));
+    context.stroke();
+    setHasDrawing(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const clearPad = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawing(false);
+  };
+
+  const canSign = consent && (method === 'drawn' ? hasDrawing : typedName.trim().length > 0);
+
+  const handleSign = async () => {
+    const image = method === 'drawn'
+      ? canvasRef.current?.toDataURL('image/png') ?? ''
+      : renderTypedSignature(typedName.trim());
+
+    setSubmitting(true);
+    try {
+      const signed = await signDocument(request, {
+        method,
+        signerName: method === 'drawn' ? employeeName : typedName,
+        image
+      });
+      if (signed) onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReject = async () => {
+    setSubmitting(true);
+    try {
+      const rejected = await rejectSignatureRequest(request, reason);
+      if (rejected) onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black bg-opacity-25" onClick={onClose} />
+
+        <div className="relative w-full max-w-3xl rounded-lg bg-white shadow-xl">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{request.title}</h3>
+              <p className="text-xs text-gray-500">
+                {t('signatures.requestedOn', { date: format(parseISO(request.requestedAt), 'dd/MM/yyyy') })}
+              </p>
+            </div>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-500">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-4">
+            {request.message && (
+              <p className="text-sm text-blue-800 bg-blue-50 rounded-md p-3">{request.message}</p>
+            )}
+
+            <div className="max-h-72 overflow-y-auto whitespace-pre-wrap text-sm text-gray-800 bg-gray-50 border border-gray-200 rounded-md p-4">
+              {request.content}
+            </div>
+
+            {rejecting ? (
+              <textarea
+                rows={3}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t('signatures.rejectPlaceholder')}
+                aria-label={t('signatures.rejectPlaceholder')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            ) : (
+              <>
+                <div className="flex gap-2">
+                  {(['drawn', 'typed'] as SignatureMethod[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setMethod(option)}
+                      className={`px-3 py-1 text-sm rounded-md ${
+                        method === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {t(`signatures.methods.${option}`)}
+                    </button>
+                  ))}
+                </div>
+
+                {method === 'drawn' ? (
+                  <div>
+                    <canvas
+                      ref={canvasRef}
+                      width={PAD_WIDTH}
+                      height={PAD_HEIGHT}
+                      onPointerDown={handlePointerDown}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      onPointerLeave={handlePointerUp}
+                      aria-label={t('signatures.drawHere')}
+                      className="w-full h-36 border-2 border-dashed border-gray-300 rounded-md bg-white touch-none cursor-crosshair"
+                    />
+                    <div className="flex justify-between mt-1 text-xs text-gray-500">
+                      <span>{t('signatures.drawHere')}</span>
+                      <button type="button" onClick={clearPad} className="inline-flex items-center hover:text-gray-700">
+                        <Eraser size={12} className="mr-1" />
+                        {t('signatures.clear')}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <input
+                      type="text"
+                      value={typedName}
+                      onChange={(e) => setTypedName(e.target.value)}
+                      aria-label={t('signatures.typeName')}
+                      placeholder={t('signatures.typeName')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                    <p className="mt-2 h-16 flex items-center px-4 border-2 border-dashed border-gray-300 rounded-md text-4xl italic text-blue-900 font-serif truncate">
+                      {typedName}
+                    </p>
+                  </div>
+                )}
+
+                <label className="flex items-start text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={consent}
+                    onChange={(e) => setConsent(e.target.checked)}
+                    className="mt-0.5 mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  {t('signatures.consent')}
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-between gap-2 p-4 border-t">
+            <button
+              type="button"
+              onClick={() => setRejecting(!rejecting)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              {rejecting ? t('signatures.backToSigning') : t('signatures.reject')}
+            </button>
+            {rejecting ? (
+              <button
+                type="button"
+                onClick={handleReject}
+                disabled={submitting || !reason.trim()}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                <X size={16} className="mr-2" />
+                {t('signatures.confirmReject')}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={handleSign}
+                disabled={submitting || !canSign}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                <PenLine size={16} className="mr-2" />
+                {t('signatures.sign')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignDocumentModal;
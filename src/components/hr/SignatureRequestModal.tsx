@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Send, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Employee, SignatureDocumentKind } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { getSignatureTemplate } from '../../lib/documentSignatureService';
+
+interface SignatureRequestModalProps {
+  employees: Employee[];
+  defaultEmployeeId?: string;
+  onClose: () => void;
+}
+
+// CRITICAL: Manager side of e-signature - what is sent here is hashed and can no longer change
+const SignatureRequestModal: React.FC<SignatureRequestModalProps> = ({ employees, defaultEmployeeId, onClose }) => {
+  const { t } = useTranslation();
+  const { currentRestaurant, requestDocumentSignature } = useAppContext();
+  const [employeeId, setEmployeeId] = useState(defaultEmployeeId ?? employees[0]?.id ?? '');
+  const [kind, setKind] = useState<SignatureDocumentKind>('contract');
+  const [draft, setDraft] = useState(() => {
+    const employee = employees.find(e => e.id === (defaultEmployeeId ?? employees[0]?.id));
+    return employee ? getSignatureTemplate('contract', employee, currentRestaurant ?? undefined) : { title: '', content: '' };
+  });
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Changing the employee or the kind starts again from the template
+  const applyTemplate = (nextEmployeeId: string, nextKind: SignatureDocumentKind) => {
+    setEmployeeId(nextEmployeeId);
+    setKind(nextKind);
+    const employee = employees.find(e => e.id === nextEmployeeId);
+    if (employee) {
+      setDraft(getSignatureTemplate(nextKind, employee, currentRestaurant ?? undefined));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const created = await requestDocumentSignature({ employeeId, kind, title: draft.title, content: draft.content, message });
+      if (created) onClose();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black bg-opacity-25" onClick={onClose} />
+
+        <form onSubmit={handleSubmit} className="relative w-full max-w-2xl rounded-lg bg-white shadow-xl">
+          <div className="flex items-center justify-between p-4 border-b">
+            <h3 className="text-lg font-medium text-gray-900">{t('signatures.requestTitle')}</h3>
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-500">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="text-sm text-gray-700">
+                {t('signatures.employee')}
+                <select
+                  value={employeeId}
+                  onChange={(e) => applyTemplate(e.target.value, kind)}
+                  disabled={!!defaultEmployeeId}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  {employees.map(employee => (
+                    <option key={employee.id} value={employee.id}>
+                      {employee.firstName} {employee.lastName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                {t('signatures.kind')}
+                <select
+                  value={kind}
+                  onChange={(e) => applyTemplate(employeeId, e.target.value as SignatureDocumentKind)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="contract">{t('signatures.kinds.contract')}</option>
+                  <option value="amendment">{t('signatures.kinds.amendment')}</option>
+                </select>
+              </label>
+            </div>
+
+            <label className="block text-sm text-gray-700">
+              {t('signatures.documentTitle')}
+              <input
+                type="text"
+                required
+                value={draft.title}
+                onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </label>
+
+            <label className="block text-sm text-gray-700">
+              {t('signatures.content')}
+              <textarea
+                required
+                rows={12}
+                value={draft.content}
+                onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+              />
+            </label>
+
+            <input
+              type="text"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={t('signatures.messagePlaceholder')}
+              aria-label={t('signatures.messagePlaceholder')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+
+            <p className="text-xs text-gray-500">{t('signatures.frozenHint')}</p>
+          </div>
+
+          <div className="flex justify-end gap-2 p-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !employeeId}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send size={16} className="mr-2" />
+              {t('signatures.send')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SignatureRequestModal;
@@ -0,0 +1,199 @@
+import React from 'react';
+import { Document, Page, Text, View, StyleSheet, Image } from '@react-pdf/renderer';
+import { format, parseISO } from 'date-fns';
+import { DocumentSignatureRequest } from '../../types';
+
+interface SignedDocumentPDFProps {
+  request: DocumentSignatureRequest;
+  employeeName: string;
+  restaurantName: string;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    paddingBottom: 60,
+    fontFamily: 'Helvetica',
+    fontSize: 10,
+    color: '#1f2937',
+  },
+  header: {
+    marginBottom: 20,
+    borderBottom: 1,
+    borderBottomColor: '#2563eb',
+    paddingBottom: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 10,
+    color: '#6b7280',
+  },
+  paragraph: {
+    marginBottom: 10,
+    lineHeight: 1.5,
+    textAlign: 'justify',
+  },
+  signatureBlock: {
+    marginTop: 30,
+    marginLeft: 'auto',
+    width: 240,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 4,
+  },
+  signatureLabel: {
+    fontSize: 8,
+    color: '#6b7280',
+    marginBottom: 4,
+  },
+  signatureImage: {
+    height: 60,
+    objectFit: 'contain',
+    marginVertical: 4,
+  },
+  signaturePending: {
+    height: 60,
+    marginVertical: 4,
+    fontSize: 9,
+    color: '#9ca3af',
+    textAlign: 'center',
+    paddingTop: 24,
+  },
+  signatureName: {
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 20,
+    left: 40,
+    right: 40,
+    fontSize: 7,
+    color: '#9ca3af',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  hash: {
+    fontFamily: 'Courier',
+    fontSize: 7,
+  },
+  certificateRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    paddingVertical: 5,
+  },
+  certificateLabel: {
+    width: '35%',
+    fontSize: 9,
+    color: '#6b7280',
+  },
+  certificateValue: {
+    width: '65%',
+    fontSize: 9,
+  },
+  notice: {
+    marginTop: 20,
+    fontSize: 8,
+    color: '#6b7280',
+    lineHeight: 1.4,
+  },
+});
+
+const formatDateTime = (date?: string): string =>
+  date ? format(parseISO(date), "dd/MM/yyyy 'à' HH:mm:ss") : '-';
+
+// CRITICAL: The signed document followed by its audit certificate - both carry the hashes to check it against
+const SignedDocumentPDF: React.FC<SignedDocumentPDFProps> = ({ request, employeeName, restaurantName }) => {
+  const { signature } = request;
+
+  const certificateRows: [string, string][] = [
+    ['Document', request.title],
+    ['Identifiant', request.id],
+    ['Employeur', restaurantName],
+    ['Signataire', employeeName],
+    ['Envoyé pour signature le', formatDateTime(request.requestedAt)],
+    ['Ouvert par le signataire le', formatDateTime(request.viewedAt)],
+    ['Signé le', formatDateTime(signature?.signedAt)],
+    ['Nom saisi par le signataire', signature?.signerName ?? '-'],
+    ['Méthode', signature ? (signature.method === 'drawn' ? 'Signature manuscrite tracée' : 'Signature saisie') : '-'],
+    ['Adresse IP', request.signerIp ?? 'Non enregistrée'],
+    ['Appareil', signature?.userAgent ?? '-'],
+    ['Service de signature', `${request.provider}${request.providerReference ? ` (${request.providerReference})` : ''}`],
+  ];
+
+  return (
+    <Document title={request.title} author={restaurantName} subject="Document signé électroniquement">
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{request.title}</Text>
+          <Text style={styles.subtitle}>{restaurantName} · {employeeName}</Text>
+        </View>
+
+        {request.content.split(/\n{2,}/).map((paragraph, index) => (
+          <Text key={index} style={styles.paragraph}>{paragraph}</Text>
+        ))}
+
+        <View style={styles.signatureBlock} wrap={false}>
+          <Text style={styles.signatureLabel}>Lu et approuvé, signature du salarié</Text>
+          {signature ? (
+            <Image style={styles.signatureImage} src={signature.image} />
+          ) : (
+            <Text style={styles.signaturePending}>En attente de signature</Text>
+          )}
+          <Text style={styles.signatureName}>{signature?.signerName ?? employeeName}</Text>
+          {signature && (
+            <Text style={styles.signatureLabel}>Signé électroniquement le {formatDateTime(signature.signedAt)}</Text>
+          )}
+        </View>
+
+        <View style={styles.footer} fixed>
+          <Text style={styles.hash}>SHA-256 {request.contentHash}</Text>
+          <Text render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`} />
+        </View>
+      </Page>
+
+      {signature && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Certificat de signature électronique</Text>
+            <Text style={styles.subtitle}>Dossier de preuve - {request.title}</Text>
+          </View>
+
+          {certificateRows.map(([label, value]) => (
+            <View key={label} style={styles.certificateRow}>
+              <Text style={styles.certificateLabel}>{label}</Text>
+              <Text style={styles.certificateValue}>{value}</Text>
+            </View>
+          ))}
+          <View style={styles.certificateRow}>
+            <Text style={styles.certificateLabel}>Empreinte du document</Text>
+            <Text style={[styles.certificateValue, styles.hash]}>{request.contentHash}</Text>
+          </View>
+          <View style={styles.certificateRow}>
+            <Text style={styles.certificateLabel}>Sceau de signature</Text>
+            <Text style={[styles.certificateValue, styles.hash]}>{request.sealHash}</Text>
+          </View>
+
+          <Text style={styles.notice}>
+            L'empreinte du document est calculée sur le texte envoyé au signataire et ne peut plus changer après l'envoi.
+            Le sceau est calculé sur cette empreinte et sur les éléments de signature ci-dessus : toute modification du
+            texte ou de la signature rend la vérification impossible.
+          </Text>
+
+          <View style={styles.footer} fixed>
+            <Text style={styles.hash}>SHA-256 {request.sealHash}</Text>
+            <Text render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`} />
+          </View>
+        </Page>
+      )}
+    </Document>
+  );
+};
+
+export default SignedDocumentPDF;
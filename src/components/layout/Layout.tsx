@@ -13,25 +13,33 @@ import PayrollPage from '../../pages/PayrollPage';
 import { useAuth } from '../../contexts/AuthContext';
 import { useAppContext } from '../../contexts/AppContext';
 import { Navigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ShieldAlert } from 'lucide-react';
+import { TAB_PERMISSIONS } from '../../lib/permissions';
+import { AppTab } from '../../types';
 
 interface LayoutProps {
   children?: React.ReactNode;
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { currentTab } = useAppContext();
+  const { t } = useTranslation();
+  const { currentTab, setCurrentTab, currentRestaurant } = useAppContext();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
-  // TEMPORARY: Bypass authentication check
-  const isEmployee = () => true;
-  // const { isEmployee } = useAuth();
+  const { user, loading, can } = useAuth();
   const [isManuallyControlled, setIsManuallyControlled] = useState(false); // CRITICAL: Track manual override
-  
-  // Redirect to login if not authenticated
-  // TEMPORARY: Disabled authentication redirect
-  // if (!isEmployee()) {
-  //   return <Navigate to="/auth" replace />;
-  // }
+
+  const canOpenTab = (tab: AppTab) => can(TAB_PERMISSIONS[tab], currentRestaurant?.id);
+  const isCurrentTabAllowed = canOpenTab(currentTab);
+  const firstAllowedTab = (Object.keys(TAB_PERMISSIONS) as AppTab[]).find(canOpenTab);
+
+  // CRITICAL: Leave a tab the user lost access to (e.g. after switching restaurant)
+  useEffect(() => {
+    if (children || isCurrentTabAllowed || !firstAllowedTab) return;
+
+    setCurrentTab(firstAllowedTab);
+  }, [children, isCurrentTabAllowed, firstAllowedTab, setCurrentTab]);
   
   // CRITICAL: Refs and state for automatic retraction
   const sidebarRef = useRef<HTMLDivElement>(null);
@@ -135,6 +143,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     }
   }, [isMobileMenuOpen]);
 
+  // Redirect to login if not authenticated
+  if (!loading && !user) {
+    return <Navigate to="/auth" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Sidebar 
@@ -154,7 +167,12 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         isSidebarCollapsed ? 'lg:pl-16' : 'lg:pl-64'
       }`}>
         <div className="p-4 md:p-6">
-          {children || (
+          {children || (!isCurrentTabAllowed ? (
+            <div className="flex flex-col items-center justify-center py-24 text-gray-500">
+              <ShieldAlert size={48} className="mb-4 text-gray-400" />
+              <p className="text-lg font-medium">{t('common.accessDenied')}</p>
+            </div>
+          ) : (
             <>
               {currentTab === 'dashboard' && <DashboardPage />}
               {currentTab === 'restaurants' && <RestaurantsPage />}
@@ -166,7 +184,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               {currentTab === 'documents' && <DocumentsPage />}
               {currentTab === 'timeclock' && <TimeClockPage />}
             </>
-          )}
+          ))}
         </div>
       </main>
     </div>
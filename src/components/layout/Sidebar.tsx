@@ -18,6 +18,8 @@ import { Link } from 'react-router-dom';
 import { useAppContext } from '../../contexts/AppContext';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTranslation } from 'react-i18next';
+import { TAB_PERMISSIONS } from '../../lib/permissions';
+import { AppTab } from '../../types';
 
 interface SidebarProps {
   isMobileMenuOpen: boolean;
@@ -35,10 +37,7 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
   isAutoControlled = false
 }, ref) => {
   const { t, i18n } = useTranslation();
-  // TEMPORARY: Bypass role checks
-  const isManager = () => true;
-  const isAdmin = () => true;
-  const { signOut } = useAuth();
+  const { signOut, can, isManager } = useAuth();
   const { 
     restaurants, 
     currentRestaurant, 
@@ -60,12 +59,13 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
   const NavItem: React.FC<{ 
     icon: React.ReactNode; 
     label: string; 
-    tab: 'dashboard' | 'restaurants' | 'schedule' | 'staff' | 'settings' | 'performance' | 'timeclock';
+    tab: AppTab;
     isActive?: boolean;
     onClick?: () => void;
     hidden?: boolean;
   }> = ({ icon, label, tab, isActive = false, onClick, hidden = false }) => {
-    if (hidden) return null;
+    // CRITICAL: Tabs are only listed when the role grants access for the current restaurant
+    if (hidden || !isManager() || !can(TAB_PERMISSIONS[tab], currentRestaurant?.id)) return null;
     
     return (
       <li 
@@ -257,7 +257,8 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
                 isActive={currentTab === 'documents'}
               />
               
-              {/* Employee Portal - only for non-managers */}
+              {/* Employee Portal */}
+              {can('portal:access') && (
               <li 
                 className={`flex items-center rounded-lg mb-1 cursor-pointer transition-all duration-200 ${
                   isCollapsed ? 'p-2 justify-center' : 'p-3'
@@ -269,6 +270,7 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
                 </span>
                 {!isCollapsed && <span className="font-medium">{t('employee.portal')}</span>}
               </li>
+              )}
               <NavItem 
                 icon={<Settings size={20} />} 
                 label={t('nav.settings')} 
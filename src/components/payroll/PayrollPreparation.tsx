@@ -1,10 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { DollarSign, Calendar, Download, Filter, Search, Clock, Users, Briefcase, FileText, ChevronDown, ChevronUp, CheckCircle, AlertCircle } from 'lucide-react';
+import { DollarSign, Calendar, Download, Filter, Search, Clock, Users, Briefcase, FileText, ChevronDown, ChevronUp, CheckCircle, AlertCircle, Lock, Plus, X } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval } from 'date-fns';
+import { format, parseISO, startOfMonth, endOfMonth } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { useAppContext } from '../../contexts/AppContext';
-import { Employee, Shift } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { PayrollPeriodStatus, PayrollRegularization, PayrollSoftware, PublicHoliday, Timesheet } from '../../types';
+import { getHolidayName, getHolidayRegion, getPublicHoliday } from '../../lib/holidayCalendar';
+import { timesheetService, getTimesheetWeekStart, PAYABLE_TIMESHEET_STATUSES } from '../../lib/timesheetService';
+import { buildTimesheetWorkDays, computePayroll } from '../../lib/payrollEngine';
+import { payrollPeriodService, getPayrollPeriodStatus, getRegularizationMonth, isDateInClosedPeriod } from '../../lib/payrollPeriodService';
+import {
+  buildPayrollExportLines,
+  exportPayroll,
+  PayrollExportError,
+  PayrollExportLine,
+  PAYROLL_EXPORTERS,
+  PAYROLL_RUBRICS
+} from '../../lib/payrollExporters';
+import * as XLSX from 'xlsx';
 import toast from 'react-hot-toast';
 
 interface PayrollPreparationProps {
@@ -17,7 +31,8 @@ interface PayrollSummary {
   contractType: string;
   regularHours: number;
   overtimeHours: number;
-  holidayHours: number;
+  holidayHours: number; // Worked on a public holiday, also counted in the regular or overtime hours
+  nightHours: number;
   absenceHours: number;
   totalHours: number;
   hourlyRate: number;
@@ -27,11 +42,34 @@ interface PayrollSummary {
     amount: number;
     description: string;
   }[];
+  pendingTimesheets: number; // Weeks of the month not approved yet, left out of the hours
+  regularizationHours: number; // Corrections of closed months paid this month
+  exportLines: PayrollExportLine[]; // Variable elements sent to the payroll software
 }
 
+// Monthly transport allowance added to every payslip
+const TRANSPORT_ALLOWANCE = 75;
+
+const PERIOD_STATUS_STYLES: Record<PayrollPeriodStatus, string> = {
+  open: 'bg-gray-100 text-gray-700',
+  validated: 'bg-blue-100 text-blue-700',
+  exported: 'bg-purple-100 text-purple-700',
+  closed: 'bg-green-100 text-green-700'
+};
+
+const PERIOD_STATUS_LABELS: Record<PayrollPeriodStatus, { fr: string; en: string }> = {
+  open: { fr: 'Ouverte', en: 'Open' },
+  validated: { fr: 'Validée', en: 'Validated' },
+  exported: { fr: 'Exportée', en: 'Exported' },
+  closed: { fr: 'Clôturée', en: 'Closed' }
+};
+
+const emptyRegularizationForm = { employeeId: '', date: '', hours: '', reason: '' };
+
 const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId }) => {
   const { t, i18n } = useTranslation();
-  const { getRestaurantEmployees, getRestaurantSchedule } = useAppContext();
+  const { getRestaurantEmployees, restaurants, settings, payrollPeriods, transitionPayrollPeriod } = useAppContext();
+  const { user } = useAuth();
   
   // State
   const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
@@ -41,13 +79,19 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
   const [contractTypeFilter, setContractTypeFilter] = useState<string | 'all'>('all');
   const [loading, setLoading] = useState(true);
   const [expandedEmployees, setExpandedEmployees] = useState<Record<string, boolean>>({});
-  const [selectedExportFormat, setSelectedExportFormat] = useState<'excel' | 'csv' | 'pdf'>('excel');
+  const [selectedExportFormat, setSelectedExportFormat] = useState<'excel' | 'csv'>('excel');
+  const [selectedSoftware, setSelectedSoftware] = useState<'none' | PayrollSoftware>(settings.payrollSoftware || 'none');
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showRegularizationModal, setShowRegularizationModal] = useState(false);
+  const [regularizationForm, setRegularizationForm] = useState(emptyRegularizationForm);
+  const [reloadKey, setReloadKey] = useState(0);
   
-  // Get employees and shifts
+  // Get employees
   const employees = getRestaurantEmployees(restaurantId);
-  const schedule = getRestaurantSchedule(restaurantId);
-  const shifts = schedule?.shifts || [];
+  const restaurant = restaurants.find(r => r.id === restaurantId);
+  const holidayRegion = getHolidayRegion(restaurant);
+  const validationRequired = settings.payrollValidationRequired ?? true;
+  const periodStatus = getPayrollPeriodStatus(payrollPeriods, restaurantId, month);
 
   // Load payroll data
   useEffect(() => {
@@ -55,13 +99,11 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
       setLoading(true);
       
       try {
-        // In a real implementation, this would fetch data from an API
-        // For now, we'll generate mock data
-        const mockSummaries = generatePayrollSummaries();
-        setPayrollSummaries(mockSummaries);
+        const summaries = await generatePayrollSummaries();
+        setPayrollSummaries(summaries);
         
         // Apply initial filters
-        filterSummaries(mockSummaries, searchTerm, contractTypeFilter);
+        filterSummaries(summaries, searchTerm, contractTypeFilter);
       } catch (error) {
         console.error('Failed to load payroll data:', error);
         toast.error(i18n.language === 'fr' 
@@ -73,153 +115,171 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
     };
     
     loadPayrollData();
-  }, [month, restaurantId]);
+  }, [month, restaurantId, reloadKey]);
 
-  // Generate payroll summaries
-  const generatePayrollSummaries = (): PayrollSummary[] => {
+  // CRITICAL: Payroll summaries from the approved (or locked) weekly timesheets only
+  const generatePayrollSummaries = async (): Promise<PayrollSummary[]> => {
     const summaries: PayrollSummary[] = [];
     
     // Parse month
     const [year, monthNum] = month.split('-').map(Number);
     const monthStart = startOfMonth(new Date(year, monthNum - 1));
     const monthEnd = endOfMonth(monthStart);
+    const firstDay = format(monthStart, 'yyyy-MM-dd');
+    const lastDay = format(monthEnd, 'yyyy-MM-dd');
     
-    // Get all days in the month
-    const daysInMonth = eachDayOfInterval({ start: monthStart, end: monthEnd });
+    // Weeks overlapping the month; the lines outside the month belong to the neighbouring payroll
+    const [timesheets, regularizations] = await Promise.all([
+      timesheetService.fetchTimesheets(
+        restaurantId,
+        getTimesheetWeekStart(monthStart),
+        getTimesheetWeekStart(monthEnd)
+      ),
+      payrollPeriodService.fetchRegularizations(restaurantId, month)
+    ]);
     
     // Generate summary for each employee
     employees.forEach(employee => {
-      // Calculate hours worked
-      let regularHours = 0;
-      let overtimeHours = 0;
-      let holidayHours = 0;
-      let absenceHours = 0;
-      
-      // Process shifts
-      daysInMonth.forEach(day => {
-        const dayOfWeek = day.getDay() === 0 ? 6 : day.getDay() - 1; // Convert to 0-6 (Mon-Sun)
-        
-        // Find shifts for this employee on this day
-        const dayShifts = shifts.filter(shift => 
-          shift.employeeId === employee.id && 
-          shift.day === dayOfWeek
-        );
-        
-        dayShifts.forEach(shift => {
-          if (shift.status) {
-            // Handle absence statuses
-            if (shift.status === 'CP') {
-              // Paid leave counts as regular hours
-              regularHours += 7; // Assuming 7 hours per day
-            } else if (shift.status === 'PUBLIC_HOLIDAY') {
-              // Public holiday hours
-              holidayHours += 7;
-            } else {
-              // Other absences
-              absenceHours += 7;
-            }
-          } else if (shift.start && shift.end) {
-            // Regular working shift
-            const [startHour, startMin] = shift.start.split(':').map(Number);
-            const [endHour, endMin] = shift.end.split(':').map(Number);
-            
-            let hours = endHour - startHour;
-            let minutes = endMin - startMin;
-            
-            // Handle overnight shifts
-            if (hours < 0) {
-              hours += 24;
-            }
-            
-            if (minutes < 0) {
-              hours -= 1;
-              minutes += 60;
-            }
-            
-            const shiftHours = hours + minutes / 60;
-            
-            // Determine if hours are regular or overtime
-            const dailyOvertimeThreshold = 8; // Hours after which overtime starts
-            
-            if (shiftHours > dailyOvertimeThreshold) {
-              regularHours += dailyOvertimeThreshold;
-              overtimeHours += shiftHours - dailyOvertimeThreshold;
-            } else {
-              regularHours += shiftHours;
-            }
-          }
-        });
-      });
+      const employeeTimesheets = timesheets.filter((timesheet: Timesheet) => timesheet.employeeId === employee.id);
+      const pendingTimesheets = employeeTimesheets
+        .filter(timesheet => !PAYABLE_TIMESHEET_STATUSES.includes(timesheet.status)).length;
       
-      // Calculate total hours
-      const totalHours = regularHours + overtimeHours + holidayHours;
-      
-      // Calculate gross salary
-      const hourlyRate = employee.hourlyRate || 12; // Default to 12€/hour if not specified
-      const regularPay = regularHours * hourlyRate;
-      const overtimePay = overtimeHours * hourlyRate * 1.25; // 25% overtime premium
-      const holidayPay = holidayHours * hourlyRate * 2; // 100% holiday premium
-      const grossSalary = regularPay + overtimePay + holidayPay;
+      // CRITICAL: Whole weeks go to the engine so the weekly overtime bands see the days of the
+      // neighbouring month; only the days of this month are paid
+      const payroll = computePayroll(
+        buildTimesheetWorkDays(employeeTimesheets
+          .filter(timesheet => PAYABLE_TIMESHEET_STATUSES.includes(timesheet.status))
+          .flatMap(timesheet => timesheet.lines)),
+        employee,
+        { from: firstDay, to: lastDay, holidayRegion }
+      );
+      const { hourlyRate } = payroll;
+      const workedHolidays = new Set(payroll.workedHolidayDates
+        .map(date => getPublicHoliday(parseISO(date), holidayRegion))
+        .filter((holiday): holiday is PublicHoliday => !!holiday)
+        .map(holiday => getHolidayName(holiday, i18n.language)));
       
       // Generate variable elements
       const variableElements = [];
       
-      // Add overtime premium
-      if (overtimeHours > 0) {
+      if (payroll.complementaryHours > 0) {
         variableElements.push({
-          type: 'overtime',
-          amount: overtimePay - (overtimeHours * hourlyRate), // Just the premium
-          description: i18n.language === 'fr' 
-            ? `Prime d'heures supplémentaires (${overtimeHours.toFixed(1)}h à 25%)` 
-            : `Overtime premium (${overtimeHours.toFixed(1)}h at 25%)`
+          type: 'complementary',
+          amount: payroll.complementaryPremium,
+          description: i18n.language === 'fr'
+            ? `Heures complémentaires (${payroll.complementaryHours.toFixed(1)}h à 10%)`
+            : `Complementary hours (${payroll.complementaryHours.toFixed(1)}h at 10%)`
         });
       }
       
+      // Add the overtime premium of each weekly band
+      ([
+        ['110', payroll.overtime110Hours, payroll.overtime110Premium],
+        ['125', payroll.overtime125Hours, payroll.overtime125Premium],
+        ['150', payroll.overtime150Hours, payroll.overtime150Premium]
+      ] as const).forEach(([band, hours, amount]) => {
+        if (hours <= 0) return;
+        variableElements.push({
+          type: `overtime_${band}`,
+          amount,
+          description: i18n.language === 'fr' 
+            ? `Heures supplémentaires à ${band}% (${hours.toFixed(1)}h)` 
+            : `Overtime at ${band}% (${hours.toFixed(1)}h)`
+        });
+      });
+      
       // Add holiday premium
-      if (holidayHours > 0) {
+      if (payroll.holidayHours > 0) {
         variableElements.push({
           type: 'holiday',
-          amount: holidayPay - (holidayHours * hourlyRate), // Just the premium
-          description: i18n.language === 'fr' 
-            ? `Prime jour férié (${holidayHours.toFixed(1)}h à 100%)` 
-            : `Public holiday premium (${holidayHours.toFixed(1)}h at 100%)`
+          amount: payroll.holidayPremium,
+          description: (i18n.language === 'fr' 
+            ? `Prime jour férié (${payroll.holidayHours.toFixed(1)}h à 100%)` 
+            : `Public holiday premium (${payroll.holidayHours.toFixed(1)}h at 100%)`) +
+            (workedHolidays.size > 0 ? ` - ${Array.from(workedHolidays).join(', ')}` : '')
         });
       }
       
-      // Add meal vouchers
-      const workDays = Math.ceil(regularHours / 7); // Approximate number of work days
-      if (workDays > 0) {
+      if (payroll.nightHours > 0) {
         variableElements.push({
-          type: 'meal_voucher',
-          amount: workDays * 9, // 9€ per day
+          type: 'night',
+          amount: payroll.nightPremium,
+          description: i18n.language === 'fr'
+            ? `Majoration travail de nuit (${payroll.nightHours.toFixed(1)}h)`
+            : `Night work premium (${payroll.nightHours.toFixed(1)}h)`
+        });
+      }
+      
+      if (payroll.coupureDays > 0) {
+        variableElements.push({
+          type: 'coupure',
+          amount: payroll.coupureIndemnity,
+          description: i18n.language === 'fr'
+            ? `Indemnité de coupure (${payroll.coupureDays} jour(s))`
+            : `Split shift indemnity (${payroll.coupureDays} day(s))`
+        });
+      }
+      
+      // CRITICAL: Meals taken at the restaurant are a benefit in kind (HCR) instead of meal vouchers
+      if (payroll.meals > 0) {
+        variableElements.push({
+          type: 'meal_benefit',
+          amount: payroll.mealBenefit,
           description: i18n.language === 'fr' 
-            ? `Titres restaurant (${workDays} jours à 9€)` 
-            : `Meal vouchers (${workDays} days at 9€)`
+            ? `Avantage nourriture (${payroll.meals} repas)` 
+            : `Meal benefit in kind (${payroll.meals} meals)`
         });
       }
       
       // Add transport allowance
       variableElements.push({
         type: 'transport',
-        amount: 75,
+        amount: TRANSPORT_ALLOWANCE,
         description: i18n.language === 'fr' 
           ? 'Indemnité de transport' 
           : 'Transport allowance'
       });
       
+      // CRITICAL: Corrections of closed months, valued at the current hourly rate
+      const employeeRegularizations = regularizations
+        .filter((regularization: PayrollRegularization) => regularization.employeeId === employee.id);
+      const regularizationHours = employeeRegularizations.reduce((sum, regularization) => sum + regularization.hours, 0);
+      const regularizationAmount = Math.round(regularizationHours * hourlyRate * 100) / 100;
+      if (employeeRegularizations.length > 0) {
+        const dates = employeeRegularizations
+          .map(regularization => format(parseISO(regularization.date), 'dd/MM'))
+          .join(', ');
+        variableElements.push({
+          type: 'regularization',
+          amount: regularizationAmount,
+          description: i18n.language === 'fr'
+            ? `Régularisation (${regularizationHours > 0 ? '+' : ''}${regularizationHours.toFixed(1)}h) - ${dates}`
+            : `Regularization (${regularizationHours > 0 ? '+' : ''}${regularizationHours.toFixed(1)}h) - ${dates}`
+        });
+      }
+      
+      const regularHours = payroll.regularHours + payroll.complementaryHours + payroll.paidLeaveHours + payroll.publicHolidayHours;
+      
       // Create summary
       summaries.push({
         employeeId: employee.id,
         employeeName: `${employee.firstName} ${employee.lastName}`,
         contractType: employee.contractType,
         regularHours,
-        overtimeHours,
-        holidayHours,
-        absenceHours,
-        totalHours,
+        overtimeHours: payroll.overtimeHours,
+        holidayHours: payroll.holidayHours,
+        nightHours: payroll.nightHours,
+        absenceHours: payroll.absenceHours,
+        totalHours: regularHours + payroll.overtimeHours,
         hourlyRate,
-        grossSalary,
-        variableElements
+        grossSalary: payroll.grossPay + regularizationAmount,
+        variableElements,
+        pendingTimesheets,
+        regularizationHours,
+        exportLines: buildPayrollExportLines(employee, payroll, TRANSPORT_ALLOWANCE, {
+          hours: regularizationHours,
+          amount: regularizationAmount
+        })
       });
     });
     
@@ -286,14 +346,126 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
     return `${hours.toFixed(1)}h`;
   };
 
-  // Handle export
-  const handleExport = () => {
-    // In a real implementation, this would generate and download the export file
-    toast.success(i18n.language === 'fr' 
-      ? `Export ${selectedExportFormat.toUpperCase()} démarré` 
-      : `${selectedExportFormat.toUpperCase()} export started`);
-    
-    setShowExportModal(false);
+  // CRITICAL: Export the variable elements of the listed employees, in the selected software's import format
+  const handleExport = async () => {
+    if (validationRequired && periodStatus === 'open') {
+      toast.error(i18n.language === 'fr' 
+        ? 'Validez la période avant de l\'exporter' 
+        : 'Validate the period before exporting it');
+      return;
+    }
+
+    const lines = filteredSummaries.flatMap(summary => summary.exportLines);
+    if (lines.length === 0) {
+      toast.error(i18n.language === 'fr' ? 'Aucun élément à exporter' : 'Nothing to export');
+      return;
+    }
+
+    try {
+      if (selectedSoftware !== 'none') {
+        const file = exportPayroll(selectedSoftware, lines, {
+          period: month,
+          companyCode: restaurant?.siret?.replace(/\s/g, '').slice(0, 9),
+          overrides: settings.payrollRubricMappings?.[selectedSoftware]
+        });
+        const blob = new Blob([file.content], { type: file.mimeType });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.setAttribute('href', url);
+        link.setAttribute('download', file.filename);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+      } else {
+        const rows = lines.map(line => {
+          const rubric = PAYROLL_RUBRICS.find(definition => definition.id === line.rubric);
+          return {
+            [i18n.language === 'fr' ? 'Matricule' : 'Payroll ID']: line.payrollId,
+            [i18n.language === 'fr' ? 'Nom' : 'Last name']: line.lastName,
+            [i18n.language === 'fr' ? 'Prénom' : 'First name']: line.firstName,
+            [i18n.language === 'fr' ? 'Élément' : 'Element']: i18n.language === 'fr' ? rubric?.label : rubric?.labelEn,
+            [i18n.language === 'fr' ? 'Quantité' : 'Quantity']: line.quantity,
+            [i18n.language === 'fr' ? 'Montant' : 'Amount']: line.amount ?? ''
+          };
+        });
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), month);
+        XLSX.writeFile(workbook, `paie-${month}.${selectedExportFormat === 'excel' ? 'xlsx' : 'csv'}`, {
+          bookType: selectedExportFormat === 'excel' ? 'xlsx' : 'csv'
+        });
+      }
+
+      toast.success(i18n.language === 'fr' 
+        ? `Export ${selectedSoftware !== 'none' ? PAYROLL_EXPORTERS[selectedSoftware].name : selectedExportFormat.toUpperCase()} généré` 
+        : `${selectedSoftware !== 'none' ? PAYROLL_EXPORTERS[selectedSoftware].name : selectedExportFormat.toUpperCase()} export generated`);
+      setShowExportModal(false);
+    } catch (error) {
+      console.error('❌ Payroll export failed:', error);
+      if (error instanceof PayrollExportError) {
+        // One line per employee to fix in their file before exporting again
+        const details = error.issues.map(issue => {
+          const name = `${issue.firstName} ${issue.lastName}`;
+          if (issue.maxLength === undefined) {
+            return i18n.language === 'fr' ? `${name} : matricule paie manquant` : `${name}: payroll ID missing`;
+          }
+          return i18n.language === 'fr'
+            ? `${name} : ${issue.field} « ${issue.value} » dépasse ${issue.maxLength} caractères`
+            : `${name}: ${issue.field} "${issue.value}" exceeds ${issue.maxLength} characters`;
+        });
+        toast.error(
+          [i18n.language === 'fr' ? 'Export bloqué :' : 'Export blocked:', ...new Set(details)].join('\n'),
+          { duration: 10000 }
+        );
+        return;
+      }
+      toast.error(i18n.language === 'fr' ? 'Échec de l\'export' : 'Export failed');
+      return;
+    }
+
+    // The first export moves the period forward; exporting again later only downloads the file
+    if (periodStatus === 'validated' || periodStatus === 'open') {
+      await transitionPayrollPeriod(restaurantId, month, 'exported');
+    }
+  };
+
+  // CRITICAL: Closing locks the month's shifts for good
+  const handleClosePeriod = async () => {
+    const confirmed = window.confirm(i18n.language === 'fr'
+      ? `Clôturer la paie de ${formatMonthDisplay()} ? Les services du mois ne pourront plus être modifiés ; les corrections passeront en régularisation sur la période suivante.`
+      : `Close the ${formatMonthDisplay()} payroll? The month's shifts can no longer be changed; corrections will be regularized on the next period.`);
+    if (!confirmed) return;
+
+    const updated = await transitionPayrollPeriod(restaurantId, month, 'closed');
+    if (updated) {
+      toast.success(i18n.language === 'fr' ? 'Période de paie clôturée' : 'Payroll period closed');
+    }
+  };
+
+  const handleAddRegularization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const employee = employees.find(emp => emp.id === regularizationForm.employeeId);
+    if (!employee) return;
+
+    try {
+      const regularization = await payrollPeriodService.addRegularization(payrollPeriods, {
+        restaurantId,
+        employeeId: employee.id,
+        date: regularizationForm.date,
+        hours: Number(regularizationForm.hours),
+        reason: regularizationForm.reason
+      }, user?.id);
+
+      toast.success(i18n.language === 'fr' 
+        ? `Régularisation enregistrée sur la paie de ${regularization.month}` 
+        : `Regularization recorded on the ${regularization.month} payroll`);
+      setShowRegularizationModal(false);
+      setRegularizationForm(emptyRegularizationForm);
+      if (regularization.month === month) setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('❌ Failed to record payroll regularization:', error);
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
   };
 
   // Format month for display
@@ -332,6 +504,7 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
   };
 
   const totals = calculateTotals();
+  const pendingTimesheetCount = payrollSummaries.reduce((sum, summary) => sum + summary.pendingTimesheets, 0);
 
   return (
     <div className="bg-white rounded-lg shadow-sm">
@@ -436,6 +609,77 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
         </div>
       </div>
       
+      {/* Payroll period */}
+      <div className="mx-6 mt-6 p-3 bg-gray-50 border border-gray-200 rounded-lg flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          {periodStatus === 'closed' && <Lock size={16} className="text-green-600" />}
+          <span className="text-sm text-gray-700">
+            {i18n.language === 'fr' ? 'Période de paie' : 'Payroll period'}
+          </span>
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${PERIOD_STATUS_STYLES[periodStatus]}`}>
+            {PERIOD_STATUS_LABELS[periodStatus][i18n.language === 'fr' ? 'fr' : 'en']}
+          </span>
+          {periodStatus === 'closed' && (
+            <span className="text-xs text-gray-500">
+              {i18n.language === 'fr' 
+                ? 'Services verrouillés, les corrections passent en régularisation' 
+                : 'Shifts locked, corrections are regularized'}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {periodStatus === 'open' && validationRequired && (
+            <button
+              onClick={() => transitionPayrollPeriod(restaurantId, month, 'validated')}
+              disabled={pendingTimesheetCount > 0}
+              title={pendingTimesheetCount > 0 
+                ? (i18n.language === 'fr' ? 'Des feuilles de temps ne sont pas approuvées' : 'Some timesheets are not approved') 
+                : undefined}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CheckCircle size={14} className="mr-1" />
+              {i18n.language === 'fr' ? 'Valider' : 'Validate'}
+            </button>
+          )}
+          {periodStatus === 'validated' && (
+            <button
+              onClick={() => transitionPayrollPeriod(restaurantId, month, 'reopened')}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              {i18n.language === 'fr' ? 'Rouvrir' : 'Reopen'}
+            </button>
+          )}
+          {periodStatus === 'exported' && (
+            <button
+              onClick={handleClosePeriod}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-gray-800 hover:bg-gray-900"
+            >
+              <Lock size={14} className="mr-1" />
+              {i18n.language === 'fr' ? 'Clôturer' : 'Close'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowRegularizationModal(true)}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <Plus size={14} className="mr-1" />
+            {i18n.language === 'fr' ? 'Régularisation' : 'Regularization'}
+          </button>
+        </div>
+      </div>
+      
+      {/* Timesheets awaiting approval */}
+      {pendingTimesheetCount > 0 && (
+        <div className="mx-6 mt-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start">
+          <AlertCircle size={18} className="text-yellow-500 mr-2 mt-0.5" />
+          <p className="text-sm text-yellow-800">
+            {i18n.language === 'fr' 
+              ? `${pendingTimesheetCount} feuille(s) de temps du mois ne sont pas encore approuvées. Seules les heures des feuilles approuvées (Badgeuse > Rapports > Feuilles de temps) sont payées.` 
+              : `${pendingTimesheetCount} timesheet(s) of the month are not approved yet. Only the hours of approved timesheets (Time Clock > Reports > Timesheets) are paid.`}
+          </p>
+        </div>
+      )}
+      
       {/* Summary cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 p-6">
         <div className="bg-blue-50 p-4 rounded-lg border border-blue-100">
@@ -645,6 +889,14 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
                                 {formatHours(summary.holidayHours)}
                               </div>
                             </div>
+                            <div className="flex justify-between items-center">
+                              <div className="text-sm text-gray-600">
+                                {i18n.language === 'fr' ? 'Heures de nuit' : 'Night hours'}
+                              </div>
+                              <div className="text-sm text-gray-900">
+                                {formatHours(summary.nightHours)}
+                              </div>
+                            </div>
                             <div className="flex justify-between items-center">
                               <div className="text-sm text-gray-600">
                                 {i18n.language === 'fr' ? 'Heures d\'absence' : 'Absence hours'}
@@ -713,14 +965,25 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
                       
                       {/* Validation status */}
                       <div className="mt-4 pt-4 border-t">
-                        <div className="flex items-center">
-                          <CheckCircle size={16} className="text-green-500 mr-2" />
-                          <span className="text-sm text-green-700">
-                            {i18n.language === 'fr' 
-                              ? 'Données validées pour l\'export de paie' 
-                              : 'Data validated for payroll export'}
-                          </span>
-                        </div>
+                        {summary.pendingTimesheets > 0 ? (
+                          <div className="flex items-center">
+                            <AlertCircle size={16} className="text-yellow-500 mr-2" />
+                            <span className="text-sm text-yellow-700">
+                              {i18n.language === 'fr' 
+                                ? `${summary.pendingTimesheets} feuille(s) de temps non approuvée(s), leurs heures ne sont pas comptées` 
+                                : `${summary.pendingTimesheets} timesheet(s) not approved, their hours are not counted`}
+                            </span>
+                          </div>
+                        ) : (
+                          <div className="flex items-center">
+                            <CheckCircle size={16} className="text-green-500 mr-2" />
+                            <span className="text-sm text-green-700">
+                              {i18n.language === 'fr' 
+                                ? 'Données validées pour l\'export de paie' 
+                                : 'Data validated for payroll export'}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
@@ -731,6 +994,129 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
         </div>
       </div>
       
+      {/* Regularization Modal */}
+      {showRegularizationModal && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black bg-opacity-25" onClick={() => setShowRegularizationModal(false)} />
+            
+            <form onSubmit={handleAddRegularization} className="relative w-full max-w-md rounded-lg bg-white p-8 shadow-xl">
+              <button
+                type="button"
+                onClick={() => setShowRegularizationModal(false)}
+                className="absolute right-4 top-4 text-gray-400 hover:text-gray-500"
+              >
+                <X size={20} />
+              </button>
+
+              <h2 className="mb-2 text-xl font-bold text-gray-900">
+                {i18n.language === 'fr' ? 'Régularisation de Paie' : 'Payroll Regularization'}
+              </h2>
+              <p className="mb-6 text-sm text-gray-500">
+                {i18n.language === 'fr' 
+                  ? 'Heures à ajouter (ou à retirer, en négatif) pour un jour d\'une période clôturée. Elles sont payées sur la prochaine période ouverte.' 
+                  : 'Hours to add (or take back, as a negative value) for a day of a closed period. They are paid with the next open period.'}
+              </p>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {i18n.language === 'fr' ? 'Employé' : 'Employee'}
+                  </label>
+                  <select
+                    required
+                    value={regularizationForm.employeeId}
+                    onChange={(e) => setRegularizationForm(prev => ({ ...prev, employeeId: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">{i18n.language === 'fr' ? 'Sélectionner...' : 'Select...'}</option>
+                    {employees.map(employee => (
+                      <option key={employee.id} value={employee.id}>
+                        {employee.firstName} {employee.lastName}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {i18n.language === 'fr' ? 'Jour corrigé' : 'Corrected day'}
+                    </label>
+                    <input
+                      type="date"
+                      required
+                      value={regularizationForm.date}
+                      onChange={(e) => setRegularizationForm(prev => ({ ...prev, date: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {i18n.language === 'fr' ? 'Heures' : 'Hours'}
+                    </label>
+                    <input
+                      type="number"
+                      required
+                      step="0.25"
+                      min="-24"
+                      max="24"
+                      value={regularizationForm.hours}
+                      onChange={(e) => setRegularizationForm(prev => ({ ...prev, hours: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {i18n.language === 'fr' ? 'Motif' : 'Reason'}
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={regularizationForm.reason}
+                    onChange={(e) => setRegularizationForm(prev => ({ ...prev, reason: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+
+                {regularizationForm.date && (
+                  isDateInClosedPeriod(payrollPeriods, restaurantId, regularizationForm.date) ? (
+                    <p className="text-sm text-blue-700">
+                      {i18n.language === 'fr' 
+                        ? `Payée sur la période ${getRegularizationMonth(payrollPeriods, restaurantId, regularizationForm.date)}` 
+                        : `Paid with the ${getRegularizationMonth(payrollPeriods, restaurantId, regularizationForm.date)} period`}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-yellow-700">
+                      {i18n.language === 'fr' 
+                        ? 'Ce jour n\'est pas dans une période clôturée : modifiez directement le planning' 
+                        : 'This day is not in a closed period: edit the schedule directly'}
+                    </p>
+                  )
+                )}
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowRegularizationModal(false)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    {i18n.language === 'fr' ? 'Annuler' : 'Cancel'}
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!regularizationForm.date || !isDateInClosedPeriod(payrollPeriods, restaurantId, regularizationForm.date)}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {i18n.language === 'fr' ? 'Enregistrer' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+      
       {/* Export Modal */}
       {showExportModal && (
         <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -751,49 +1137,39 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
 
               <div className="space-y-6">
                 {/* Export format */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    {i18n.language === 'fr' ? 'Format d\'export' : 'Export Format'}
-                  </label>
-                  <div className="grid grid-cols-3 gap-3">
-                    <button
-                      type="button"
-                      onClick={() => setSelectedExportFormat('excel')}
-                      className={`flex flex-col items-center justify-center p-3 border rounded-lg ${
-                        selectedExportFormat === 'excel'
-                          ? 'border-green-500 bg-green-50 text-green-700'
-                          : 'border-gray-300 hover:bg-gray-50'
-                      }`}
-                    >
-                      <FileText size={24} className={selectedExportFormat === 'excel' ? 'text-green-500' : 'text-gray-400'} />
-                      <span className="mt-2 text-sm font-medium">Excel</span>
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setSelectedExportFormat('csv')}
-                      className={`flex flex-col items-center justify-center p-3 border rounded-lg ${
-                        selectedExportFormat === 'csv'
-                          ? 'border-blue-500 bg-blue-50 text-blue-700'
-                          : 'border-gray-300 hover:bg-gray-50'
-                      }`}
-                    >
-                      <FileText size={24} className={selectedExportFormat === 'csv' ? 'text-blue-500' : 'text-gray-400'} />
-                      <span className="mt-2 text-sm font-medium">CSV</span>
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => setSelectedExportFormat('pdf')}
-                      className={`flex flex-col items-center justify-center p-3 border rounded-lg ${
-                        selectedExportFormat === 'pdf'
-                          ? 'border-red-500 bg-red-50 text-red-700'
-                          : 'border-gray-300 hover:bg-gray-50'
-                      }`}
-                    >
-                      <FileText size={24} className={selectedExportFormat === 'pdf' ? 'text-red-500' : 'text-gray-400'} />
-                      <span className="mt-2 text-sm font-medium">PDF</span>
-                    </button>
+                {selectedSoftware === 'none' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {i18n.language === 'fr' ? 'Format d\'export' : 'Export Format'}
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedExportFormat('excel')}
+                        className={`flex flex-col items-center justify-center p-3 border rounded-lg ${
+                          selectedExportFormat === 'excel'
+                            ? 'border-green-500 bg-green-50 text-green-700'
+                            : 'border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        <FileText size={24} className={selectedExportFormat === 'excel' ? 'text-green-500' : 'text-gray-400'} />
+                        <span className="mt-2 text-sm font-medium">Excel</span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedExportFormat('csv')}
+                        className={`flex flex-col items-center justify-center p-3 border rounded-lg ${
+                          selectedExportFormat === 'csv'
+                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                            : 'border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        <FileText size={24} className={selectedExportFormat === 'csv' ? 'text-blue-500' : 'text-gray-400'} />
+                        <span className="mt-2 text-sm font-medium">CSV</span>
+                      </button>
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {/* Export options */}
                 <div>
@@ -843,19 +1219,19 @@ const PayrollPreparation: React.FC<PayrollPreparationProps> = ({ restaurantId })
                     {i18n.language === 'fr' ? 'Intégration Logiciel' : 'Software Integration'}
                   </label>
                   <select
+                    value={selectedSoftware}
+                    onChange={(e) => setSelectedSoftware(e.target.value as 'none' | PayrollSoftware)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
                   >
                     <option value="none">{i18n.language === 'fr' ? 'Aucune intégration' : 'No integration'}</option>
-                    <option value="sage">Sage Paie</option>
-                    <option value="cegid">Cegid</option>
-                    <option value="payfit">PayFit</option>
-                    <option value="adp">ADP</option>
-                    <option value="quadratus">Quadratus</option>
+                    {Object.values(PAYROLL_EXPORTERS).map(exporter => (
+                      <option key={exporter.id} value={exporter.id}>{exporter.name}</option>
+                    ))}
                   </select>
                   <p className="mt-1 text-xs text-gray-500">
                     {i18n.language === 'fr' 
-                      ? 'Exporter directement vers votre logiciel de paie' 
-                      : 'Export directly to your payroll software'}
+                      ? 'Fichier d\'import des éléments variables, avec les codes rubriques définis dans les paramètres' 
+                      : 'Variable elements import file, with the rubric codes set in the settings'}
                   </p>
                 </div>
 
@@ -4,6 +4,7 @@ import { PerformanceMetrics, Employee, DateRange } from '../../types';
 import { useTranslation } from 'react-i18next';
 import { format, parseISO } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import { estimateWeeklyContractCost } from '../../lib/payrollEngine';
 
 interface PayrollAnalysisProps {
   metrics: PerformanceMetrics[];
@@ -37,50 +38,19 @@ const PayrollAnalysis: React.FC<PayrollAnalysisProps> = ({ metrics, employees, d
       positionDistribution[employee.position] = 0;
     }
     
-    // Estimate salary based on position and contract type
-    let estimatedSalary = 0;
-    switch (employee.position) {
-      case 'Operations Manager':
-        estimatedSalary = 4000;
-        break;
-      case 'Chef de Cuisine':
-        estimatedSalary = 3200;
-        break;
-      case 'Second de Cuisine':
-        estimatedSalary = 2800;
-        break;
-      case 'Chef de Partie':
-        estimatedSalary = 2400;
-        break;
-      case 'Commis de Cuisine':
-        estimatedSalary = 1800;
-        break;
-      case 'Plongeur':
-        estimatedSalary = 1600;
-        break;
-      case 'Barman/Barmaid':
-        estimatedSalary = 2000;
-        break;
-      case 'Waiter(s)':
-        estimatedSalary = 1800;
-        break;
-      default:
-        estimatedSalary = 1800;
-    }
+    // CRITICAL: Contract hours through the payroll engine (overtime bands of 39h contracts, employer charges)
+    let estimatedWeeklyCost = estimateWeeklyContractCost(employee);
     
     // Adjust for contract type
     if (employee.contractType === 'CDD') {
-      estimatedSalary *= 1.1; // 10% premium for fixed-term
+      estimatedWeeklyCost *= 1.1; // 10% premium for fixed-term
     } else if (employee.contractType === 'Extra') {
-      estimatedSalary *= 1.2; // 20% premium for extra
+      estimatedWeeklyCost *= 1.2; // 20% premium for extra
     }
     
-    // Add social charges (42% in France)
-    estimatedSalary *= 1.42;
-    
-    // Distribute monthly salary across the period
+    // Distribute the weekly cost across the period
     const daysInPeriod = metrics.length;
-    const dailySalary = estimatedSalary / 30; // Approximate daily cost
+    const dailySalary = estimatedWeeklyCost / 7;
     
     positionDistribution[employee.position] += dailySalary * daysInPeriod;
   });
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Upload, Image as ImageIcon } from 'lucide-react';
-import { Restaurant } from '../../types';
+import { PunchRoundingMode, PunchRules, Restaurant } from '../../types';
+import { DEFAULT_RULE_PACK_ID, LABOR_RULE_PACKS } from '../../lib/laborRulePacks';
+import { DEFAULT_PUNCH_RULES, getPunchRules } from '../../lib/timeClockService';
 import { useTranslation } from 'react-i18next';
 import toast from 'react-hot-toast';
 
@@ -33,6 +35,8 @@ const RestaurantForm: React.FC<RestaurantFormProps> = ({
   const [postalCode, setPostalCode] = useState('');
   const [city, setCity] = useState('');
   const [country, setCountry] = useState('France');
+  const [laborRulePackId, setLaborRulePackId] = useState(DEFAULT_RULE_PACK_ID);
+  const [punchRules, setPunchRules] = useState<PunchRules>(DEFAULT_PUNCH_RULES);
   const [phone, setPhone] = useState('');
   const [website, setWebsite] = useState('');
   const [managerFirstName, setManagerFirstName] = useState('');
@@ -50,6 +54,8 @@ const RestaurantForm: React.FC<RestaurantFormProps> = ({
       setPostalCode(restaurant.postalCode || '');
       setCity(restaurant.city || '');
       setCountry(restaurant.country || 'France');
+      setLaborRulePackId(restaurant.laborRulePackId || DEFAULT_RULE_PACK_ID);
+      setPunchRules(getPunchRules(restaurant));
       setPhone(restaurant.phone || '');
       setWebsite(restaurant.website || '');
       if (restaurant.manager) {
@@ -68,6 +74,8 @@ const RestaurantForm: React.FC<RestaurantFormProps> = ({
       setPostalCode('');
       setCity('');
       setCountry('France');
+      setLaborRulePackId(DEFAULT_RULE_PACK_ID);
+      setPunchRules(DEFAULT_PUNCH_RULES);
       setPhone('');
       setWebsite('');
       setManagerFirstName('');
@@ -164,6 +172,8 @@ const RestaurantForm: React.FC<RestaurantFormProps> = ({
         postalCode,
         city,
         country,
+        laborRulePackId,
+        punchRules,
         phone: phone || undefined,
         website: website || undefined,
         manager: (managerFirstName || managerLastName || managerPhone || managerEmail) ? {
@@ -386,6 +396,22 @@ const RestaurantForm: React.FC<RestaurantFormProps> = ({
                     />
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {t('restaurants.laborRulePack')}
+                    </label>
+                    <select
+                      value={laborRulePackId}
+                      onChange={(e) => setLaborRulePackId(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      {LABOR_RULE_PACKS.map(pack => (
+                        <option key={pack.id} value={pack.id}>{pack.name}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">{t('restaurants.laborRulePackHint')}</p>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700">
                       {t('restaurants.website')}
@@ -422,6 +448,94 @@ const RestaurantForm: React.FC<RestaurantFormProps> = ({
                 </div>
               </div>
 
+              {/* CRITICAL: Time clock rules - how punches become paid hours */}
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-1">
+                  {t('restaurants.punchRules')}
+                </h3>
+                <p className="text-sm text-gray-500 mb-4">{t('restaurants.punchRulesHint')}</p>
+                <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {t('restaurants.punchRounding')}
+                    </label>
+                    <select
+                      value={punchRules.roundingMode}
+                      onChange={(e) => setPunchRules({ ...punchRules, roundingMode: e.target.value as PunchRoundingMode })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      <option value="none">{t('restaurants.punchRoundingNone')}</option>
+                      <option value="nearest">{t('restaurants.punchRoundingNearest')}</option>
+                      <option value="up">{t('restaurants.punchRoundingUp')}</option>
+                      <option value="down">{t('restaurants.punchRoundingDown')}</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {t('restaurants.punchRoundingIncrement')}
+                    </label>
+                    <select
+                      value={punchRules.roundingIncrement}
+                      onChange={(e) => setPunchRules({ ...punchRules, roundingIncrement: Number(e.target.value) })}
+                      disabled={punchRules.roundingMode === 'none'}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+                    >
+                      {[5, 10, 15, 30].map(minutes => (
+                        <option key={minutes} value={minutes}>{minutes} min</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {t('restaurants.arrivalGrace')}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="60"
+                      value={punchRules.arrivalGraceMinutes}
+                      onChange={(e) => setPunchRules({ ...punchRules, arrivalGraceMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {t('restaurants.departureGrace')}
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="60"
+                      value={punchRules.departureGraceMinutes}
+                      onChange={(e) => setPunchRules({ ...punchRules, departureGraceMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {t('restaurants.autoClockOutHours')}
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="24"
+                      value={punchRules.autoClockOutHours ?? ''}
+                      onChange={(e) => setPunchRules({
+                        ...punchRules,
+                        autoClockOutHours: e.target.value ? Math.max(1, Number(e.target.value)) : undefined
+                      })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      placeholder={t('restaurants.autoClockOutOff')}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">{t('restaurants.autoClockOutHint')}</p>
+                  </div>
+                </div>
+              </div>
+
               {/* Manager Information */}
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-4">
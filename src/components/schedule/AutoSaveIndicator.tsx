@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Save, Check, AlertCircle } from 'lucide-react';
+import { Check, AlertCircle, CloudOff } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 
 interface AutoSaveIndicatorProps {
   lastSaved: Date | null;
-  status: 'idle' | 'saving' | 'success' | 'error';
+  status: 'idle' | 'saving' | 'success' | 'error' | 'offline';
+  // Number of changes stored locally that have not reached the server yet
+  pendingCount?: number;
+  isOnline?: boolean;
 }
 
-const AutoSaveIndicator: React.FC<AutoSaveIndicatorProps> = ({ lastSaved, status }) => {
+const AutoSaveIndicator: React.FC<AutoSaveIndicatorProps> = ({ lastSaved, status, pendingCount = 0, isOnline = true }) => {
   const { t } = useTranslation();
   const [visible, setVisible] = useState(false);
   
@@ -45,13 +48,18 @@ const AutoSaveIndicator: React.FC<AutoSaveIndicatorProps> = ({ lastSaved, status
     }
   };
   
-  if (!visible) return null;
+  // CRITICAL: Stay visible as long as local changes are waiting to be synced
+  if (!visible && pendingCount === 0) return null;
+  
+  const showPending = pendingCount > 0 && status !== 'saving';
+  
   
   return (
     <div className={`fixed bottom-4 right-4 z-50 flex items-center px-4 py-2 rounded-lg shadow-md transition-all duration-300 ${
       status === 'saving' ? 'bg-blue-50 text-blue-700 border border-blue-200' :
       status === 'success' ? 'bg-green-50 text-green-700 border border-green-200' :
       status === 'error' ? 'bg-red-50 text-red-700 border border-red-200' :
+      showPending ? 'bg-amber-50 text-amber-700 border border-amber-200' :
       'bg-gray-50 text-gray-700 border border-gray-200'
     }`}>
       {status === 'saving' && (
@@ -61,19 +69,33 @@ const AutoSaveIndicator: React.FC<AutoSaveIndicatorProps> = ({ lastSaved, status
         </>
       )}
       
-      {status === 'success' && (
+      {status === 'success' && !showPending && (
         <>
           <Check size={16} className="text-green-600 mr-2" />
           <span className="text-sm">{t('schedule.savedSuccessfully')} {formatLastSaved()}</span>
         </>
       )}
       
-      {status === 'error' && (
+      {status === 'error' && !showPending && (
         <>
           <AlertCircle size={16} className="text-red-600 mr-2" />
           <span className="text-sm">{t('schedule.saveFailed')}</span>
         </>
       )}
+      
+      {showPending && (
+        <>
+          {isOnline ? (
+            <AlertCircle size={16} className={`${status === 'error' ? 'text-red-600' : 'text-amber-600'} mr-2`} />
+          ) : (
+            <CloudOff size={16} className="text-amber-600 mr-2" />
+          )}
+          <span className="text-sm">
+            {t('schedule.pendingSync', { count: pendingCount })}
+            {!isOnline && ` · ${t('schedule.offlineMode')}`}
+          </span>
+        </>
+      )}
     </div>
   );
 };
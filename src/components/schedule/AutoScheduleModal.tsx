@@ -0,0 +1,376 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Wand2, Plus, Trash2, Copy, AlertTriangle, CheckCircle, TrendingUp } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Employee,
+  EmployeeAvailability,
+  EmployeePreference,
+  Schedule,
+  Shift,
+  ShiftType,
+  StaffingRequirement,
+  POSITIONS,
+  SHIFT_TYPES
+} from '../../types';
+import { generateWeekSchedule, ScheduleGenerationResult } from '../../lib/scheduleGenerator';
+
+const DAY_KEYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+interface AutoScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  restaurantId: string;
+  restaurantRulePackId?: string;
+  weekStartDate: Date;
+  employees: Employee[];
+  existingShifts: Shift[];
+  schedules: Schedule[]; // Other weeks of the restaurant, for the labor law rules spanning weeks
+  availabilities: EmployeeAvailability[];
+  preferences: EmployeePreference[];
+  forecastRequirements?: StaffingRequirement[]; // Requirements derived from the covers forecast
+  onApply: (shifts: Shift[]) => void;
+}
+
+// Staffing requirements are remembered per restaurant so the next week starts from the same needs
+const getStorageKey = (restaurantId: string) => `staffingRequirements_${restaurantId}`;
+
+const loadRequirements = (restaurantId: string): StaffingRequirement[] => {
+  try {
+    const saved = localStorage.getItem(getStorageKey(restaurantId));
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('❌ Failed to load staffing requirements:', error);
+    return [];
+  }
+};
+
+const createRequirement = (day = 0): StaffingRequirement => ({
+  id: uuidv4(),
+  day,
+  position: POSITIONS[0],
+  start: SHIFT_TYPES.morning.defaultStart,
+  end: SHIFT_TYPES.morning.defaultEnd,
+  headcount: 1,
+  type: 'morning'
+});
+
+const AutoScheduleModal: React.FC<AutoScheduleModalProps> = ({
+  isOpen,
+  onClose,
+  restaurantId,
+  restaurantRulePackId,
+  weekStartDate,
+  employees,
+  existingShifts,
+  schedules,
+  availabilities,
+  preferences,
+  forecastRequirements = [],
+  onApply
+}) => {
+  const { t } = useTranslation();
+  const [requirements, setRequirements] = useState<StaffingRequirement[]>([]);
+  const [result, setResult] = useState<ScheduleGenerationResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRequirements(loadRequirements(restaurantId));
+      setResult(null);
+    }
+  }, [isOpen, restaurantId]);
+
+  const employeeNames = useMemo(
+    () => new Map(employees.map(employee => [employee.id, `${employee.firstName} ${employee.lastName}`])),
+    [employees]
+  );
+
+  if (!isOpen) return null;
+
+  const updateRequirement = (id: string, changes: Partial<StaffingRequirement>) => {
+    setRequirements(prev => prev.map(r => (r.id === id ? { ...r, ...changes } : r)));
+    setResult(null);
+  };
+
+  const handleTypeChange = (id: string, type: ShiftType) => {
+    updateRequirement(id, { type, start: SHIFT_TYPES[type].defaultStart, end: SHIFT_TYPES[type].defaultEnd });
+  };
+
+  // Repeat a requirement on every other day of the week
+  const handleCopyToAllDays = (requirement: StaffingRequirement) => {
+    const copies = DAY_KEYS
+      .map((_, day) => day)
+      .filter(day => day !== requirement.day && !requirements.some(r =>
+        r.day === day && r.position === requirement.position && r.start === requirement.start && r.end === requirement.end
+      ))
+      .map(day => ({ ...requirement, id: uuidv4(), day }));
+
+    setRequirements(prev => [...prev, ...copies]);
+    setResult(null);
+  };
+
+  const handleGenerate = () => {
+    const validRequirements = requirements.filter(r => r.headcount > 0 && r.start && r.end);
+    localStorage.setItem(getStorageKey(restaurantId), JSON.stringify(requirements));
+
+    setResult(generateWeekSchedule({
+      restaurantId,
+      restaurantRulePackId,
+      weekStartDate,
+      employees,
+      requirements: validRequirements,
+      existingShifts,
+      schedules,
+      availabilities,
+      preferences
+    }));
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(result.shifts);
+    onClose();
+  };
+
+  const generatedShifts = result?.shifts.filter(shift => !shift.status) ?? [];
+  const restDays = result?.shifts.filter(shift => shift.status === 'WEEKLY_REST') ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <Wand2 className="text-blue-600 mr-3" size={24} />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('schedule.autoGenerate.title')}</h2>
+              <p className="text-sm text-gray-600">{t('schedule.autoGenerate.description')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Staffing requirements */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3">{t('schedule.autoGenerate.requirements')}</h3>
+
+            {requirements.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-3">{t('schedule.autoGenerate.noRequirements')}</p>
+            ) : (
+              <table className="w-full text-sm mb-3">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 font-medium">{t('schedule.conflictFields.day')}</th>
+                    <th className="pb-2 font-medium">{t('schedule.conflictFields.position')}</th>
+                    <th className="pb-2 font-medium">{t('schedule.conflictFields.type')}</th>
+                    <th className="pb-2 font-medium">{t('schedule.conflictFields.start')}</th>
+                    <th className="pb-2 font-medium">{t('schedule.conflictFields.end')}</th>
+                    <th className="pb-2 font-medium">{t('schedule.autoGenerate.headcount')}</th>
+                    <th className="pb-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {requirements.map(requirement => (
+                    <tr key={requirement.id} className="border-t border-gray-100">
+                      <td className="py-2 pr-2">
+                        <select
+                          value={requirement.day}
+                          onChange={e => updateRequirement(requirement.id, { day: Number(e.target.value) })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                        >
+                          {DAY_KEYS.map((key, day) => (
+                            <option key={key} value={day}>{t(`days.${key}`)}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          value={requirement.position}
+                          onChange={e => updateRequirement(requirement.id, { position: e.target.value })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                        >
+                          {POSITIONS.map(position => (
+                            <option key={position} value={position}>
+                              {t(`positions.${position.toLowerCase().replace(/[^a-z]/g, '')}`)}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          value={requirement.type}
+                          onChange={e => handleTypeChange(requirement.id, e.target.value as ShiftType)}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                        >
+                          {(Object.keys(SHIFT_TYPES) as ShiftType[]).map(type => (
+                            <option key={type} value={type}>{t(`shifts.${type}`, SHIFT_TYPES[type].label)}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="time"
+                          value={requirement.start}
+                          onChange={e => updateRequirement(requirement.id, { start: e.target.value })}
+                          className="px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="time"
+                          value={requirement.end}
+                          onChange={e => updateRequirement(requirement.id, { end: e.target.value })}
+                          className="px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          min={0}
+                          value={requirement.headcount}
+                          onChange={e => updateRequirement(requirement.id, { headcount: Math.max(0, Number(e.target.value)) })}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                      </td>
+                      <td className="py-2 whitespace-nowrap">
+                        <button
+                          onClick={() => handleCopyToAllDays(requirement)}
+                          className="p-1 text-gray-500 hover:text-blue-600"
+                          title={t('schedule.autoGenerate.copyToAllDays')}
+                        >
+                          <Copy size={16} />
+                        </button>
+                        <button
+                          onClick={() => {
+                            setRequirements(prev => prev.filter(r => r.id !== requirement.id));
+                            setResult(null);
+                          }}
+                          className="p-1 text-gray-500 hover:text-red-600"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setRequirements(prev => [...prev, createRequirement(prev[prev.length - 1]?.day ?? 0)])}
+                className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <Plus size={16} className="mr-1" />
+                {t('schedule.autoGenerate.addRequirement')}
+              </button>
+              {forecastRequirements.length > 0 && (
+                <button
+                  onClick={() => {
+                    setRequirements(forecastRequirements);
+                    setResult(null);
+                  }}
+                  className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  <TrendingUp size={16} className="mr-1" />
+                  {t('schedule.staffing.useForecast')}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Generation result */}
+          {result && (
+            <div className="space-y-4">
+              <div className="flex items-center p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+                <CheckCircle size={18} className="mr-2 flex-shrink-0" />
+                {t('schedule.autoGenerate.generatedCount', { count: generatedShifts.length })}
+                {restDays.length > 0 && ` · ${t('schedule.autoGenerate.restDaysAdded', { count: restDays.length })}`}
+              </div>
+
+              {result.existingViolations.length > 0 && (
+                <div className="flex items-start p-3 bg-orange-50 border border-orange-200 rounded-md text-sm text-orange-800">
+                  <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+                  {t('schedule.autoGenerate.existingViolations', { count: result.existingViolations.length })}
+                </div>
+              )}
+
+              {generatedShifts.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">{t('schedule.autoGenerate.preview')}</h4>
+                  <ul className="text-sm text-gray-700 divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {generatedShifts
+                      .slice()
+                      .sort((a, b) => a.day - b.day || a.start.localeCompare(b.start))
+                      .map(shift => (
+                        <li key={shift.id} className="px-3 py-2 flex justify-between">
+                          <span>{t(`days.${DAY_KEYS[shift.day]}`)} · {shift.start}-{shift.end} · {shift.position}</span>
+                          <span className="font-medium">{employeeNames.get(shift.employeeId)}</span>
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+
+              {result.unfilled.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-red-700 mb-2">{t('schedule.autoGenerate.unfilledTitle')}</h4>
+                  <ul className="space-y-2">
+                    {result.unfilled.map(slot => (
+                      <li key={slot.requirement.id} className="p-3 bg-red-50 border border-red-200 rounded-md text-sm">
+                        <p className="font-medium text-red-800">
+                          {t(`days.${DAY_KEYS[slot.requirement.day]}`)} · {slot.requirement.start}-{slot.requirement.end} · {slot.requirement.position}
+                          {' — '}
+                          {t('schedule.autoGenerate.missing', { count: slot.missing })}
+                        </p>
+                        {slot.rejections.length === 0 ? (
+                          <p className="text-red-700 mt-1">{t('schedule.autoGenerate.reasons.noQualifiedEmployee')}</p>
+                        ) : (
+                          <ul className="mt-1 text-red-700 list-disc list-inside">
+                            {slot.rejections.map(rejection => (
+                              <li key={`${rejection.employeeId}-${rejection.reason}`}>
+                                {rejection.employeeName}: {rejection.details ?? t(`schedule.autoGenerate.reasons.${rejection.reason}`)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={requirements.length === 0}
+            className="flex items-center px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 disabled:opacity-50"
+          >
+            <Wand2 size={16} className="mr-2" />
+            {t('schedule.autoGenerate.generate')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!result || result.shifts.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('schedule.autoGenerate.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoScheduleModal;
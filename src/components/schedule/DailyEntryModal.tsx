@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { X, Trash2, Clock, Calendar, Plus, AlertTriangle, Heart, Calendar as CalendarIcon, Scissors } from 'lucide-react';
-import { Employee, Shift, DAYS_OF_WEEK, DAILY_STATUS, DailyStatus, POSITIONS } from '../../types';
+import { Employee, Shift, DAYS_OF_WEEK, DAILY_STATUS, DailyStatus, LeaveLedgerEntry, POSITIONS } from '../../types';
 import { useTranslation } from 'react-i18next';
 import { v4 as uuidv4 } from 'uuid'; 
 import { calculateTimeInHours } from '../../lib/scheduleUtils';
 import { useAppContext } from '../../contexts/AppContext'; 
 import toast from 'react-hot-toast';
-import { addDays, parseISO } from 'date-fns';
+import { addDays, format, parseISO } from 'date-fns';
+import { computeLeaveBalance, getCpDates, leaveLedgerService } from '../../lib/leaveLedgerService';
 
 interface DailyEntryModalProps {
   isOpen: boolean;
@@ -70,7 +71,7 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
   restaurantId
 }) => {
   const { t, i18n } = useTranslation();
-  const { checkAvailabilityConflicts, getEmployeePreferences } = useAppContext();
+  const { checkAvailabilityConflicts, getEmployeePreferences, schedules } = useAppContext();
   const [activeTab, setActiveTab] = useState<'shifts' | 'absence'>('shifts');
   const [shiftItems, setShiftItems] = useState<Array<{
     id: string;
@@ -87,6 +88,17 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
   const [availabilityWarning, setAvailabilityWarning] = useState<string | null>(null);
   const [preferenceWarning, setPreferenceWarning] = useState<string | null>(null);
   const [positionMismatchWarning, setPositionMismatchWarning] = useState<string | null>(null);
+  const [leaveEntries, setLeaveEntries] = useState<LeaveLedgerEntry[]>([]);
+
+  // CRITICAL: Manual leave movements, for the CP balance shown when placing a CP
+  const employeeId = employee?.id;
+  useEffect(() => {
+    if (!isOpen || !employeeId) return;
+
+    leaveLedgerService.fetchEntries(restaurantId, employeeId)
+      .then(setLeaveEntries)
+      .catch(error => console.error('❌ Failed to load leave ledger:', error));
+  }, [isOpen, employeeId, restaurantId]);
 
   // Initialize modal state based on existing shifts or absences
   useEffect(() => {
@@ -212,20 +224,26 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
   const checkForAvailabilityConflicts = (employeeId: string, day: number, start: string, end: string) => {
     if (!employee) return;
     
-    const conflict = checkAvailabilityConflicts(employeeId, day, start, end);
+    const conflict = checkAvailabilityConflicts(employeeId, weekStartDate, day, start, end);
     
     if (conflict.hasConflict) {
+      // Slots of the rules behind the warning, an overnight rule shows as 22:00-02:00
+      const slots = conflict.overlaps
+        .filter(({ availability }) => availability.type === conflict.conflictType)
+        .map(({ availability }) => `${availability.startTime}-${availability.endTime}`)
+        .join(', ');
+
       if (conflict.conflictType === 'UNAVAILABLE') {
         setAvailabilityWarning(
           i18n.language === 'fr'
-            ? `⚠️ Conflit : L'employé a indiqué être indisponible pendant cette période`
-            : `⚠️ Conflict: Employee has indicated they are unavailable during this time`
+            ? `⚠️ Conflit : L'employé a indiqué être indisponible pendant cette période (${slots})`
+            : `⚠️ Conflict: Employee has indicated they are unavailable during this time (${slots})`
         );
       } else if (conflict.conflictType === 'LIMITED') {
         setAvailabilityWarning(
           i18n.language === 'fr'
-            ? `⚠️ Attention : L'employé a une disponibilité limitée pendant cette période`
-            : `⚠️ Warning: Employee has limited availability during this time`
+            ? `⚠️ Attention : L'employé a une disponibilité limitée pendant cette période (${slots})`
+            : `⚠️ Warning: Employee has limited availability during this time (${slots})`
         );
       }
     } else {
@@ -424,6 +442,11 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
         return;
       }
       
+      // The CP day is debited from the balance through the schedule; placing it in advance is allowed
+      if (cpPreview && cpPreview.after < 0) {
+        toast(t('leave.cpWillBeNegative', { after: cpPreview.after }), { icon: '⚠️', duration: 5000 });
+      }
+      
       // Special handling for worked holiday (PUBLIC_HOLIDAY)
       if (selectedAbsence === 'PUBLIC_HOLIDAY' && isHolidayWorked) {
         // Create a worked holiday shift
@@ -485,6 +508,17 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
   // Calculate day summary
   const { workingHours, breakHours } = calculateDaySummary();
 
+  // CP balance before and after this day (a day already in CP or a Sunday debits nothing more)
+  const getCpPreview = () => {
+    if (!employee || selectedAbsence !== 'CP') return null;
+
+    const date = addDays(weekStartDate, day);
+    const { cpBalance } = computeLeaveBalance(employee, schedules, leaveEntries);
+    const alreadyDebited = date.getDay() === 0 || getCpDates(employee.id, schedules).includes(format(date, 'yyyy-MM-dd'));
+    return { balance: cpBalance, after: Math.round((cpBalance - (alreadyDebited ? 0 : 1)) * 100) / 100 };
+  };
+  const cpPreview = getCpPreview();
+
   if (!isOpen || !employee) return null;
 
   return (
@@ -763,7 +797,7 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
                       ))}
                     </div>
                     
-                    {/* Special handling for Férié 1er Mai */}
+                    {/* Special handling for public holidays (Férié) */}
                     {selectedAbsence === 'PUBLIC_HOLIDAY' && (
                       <div className="mt-4 p-4 bg-red-50 rounded-lg border border-red-200">
                         <div className="flex items-center justify-between mb-3">
@@ -800,8 +834,8 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
                           <div className="mt-3">
                             <p className="text-sm text-red-600 mb-3">
                               {i18n.language === 'fr' 
-                                ? 'Les heures travaillées pendant le 1er Mai seront comptées comme des heures majorées à 100%.'
-                                : 'Hours worked during May 1st will be counted with 100% premium pay.'}
+                                ? 'Les heures travaillées pendant un jour férié seront comptées comme des heures majorées à 100%.'
+                                : 'Hours worked on a public holiday will be counted with 100% premium pay.'}
                             </p>
                             
                             {/* Time inputs for worked holiday */}
@@ -843,6 +877,23 @@ const DailyEntryModal: React.FC<DailyEntryModalProps> = ({
                       </div>
                     )}
                     
+                    {/* CP balance */}
+                    {cpPreview && (
+                      <div className={`mt-4 p-3 rounded-lg border ${
+                        cpPreview.after < 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-100'
+                      }`}>
+                        <p className={`text-sm ${cpPreview.after < 0 ? 'text-yellow-800' : 'text-green-700'}`}>
+                          {t('leave.cpAfterDay', cpPreview)}
+                        </p>
+                        {cpPreview.after < 0 && (
+                          <p className="mt-1 flex items-center text-sm text-yellow-800">
+                            <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+                            {t('leave.cpWillBeNegative', { after: cpPreview.after })}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    
                     <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-100">
                       <p className="text-sm text-blue-700">
                         <strong>Note:</strong> {i18n.language === 'fr' 
@@ -1,18 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { AlertTriangle, CheckCircle, Clock, Calendar, Users, Shield, ChevronDown, ChevronUp, Info, X } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, CheckCircle, Clock, Calendar, Users, Shield, ChevronDown, ChevronUp, Info, X, Wrench, Undo2, Eye } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useAppContext } from '../../contexts/AppContext';
+import toast from 'react-hot-toast';
 import { 
   FrenchLaborLawValidator, 
   LaborLawViolation, 
   RestPeriodAnalysis,
+  ComplianceRemediation,
+  applyRemediation,
   formatViolationMessage,
   getViolationIcon,
   getViolationColor,
   ViolationSeverity
 } from '../../lib/laborLawValidation';
+import { getRulePack } from '../../lib/laborRulePacks';
 import { toastNotificationService } from '../notifications/ToastNotificationService';
-import { Employee, Shift } from '../../types';
+import { Employee, LaborRulePack, Schedule, Shift } from '../../types';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 
@@ -20,14 +24,29 @@ interface LaborLawCompliancePanelProps {
   employees: Employee[];
   shifts: Shift[];
   weekStartDate: Date;
+  schedules?: Schedule[]; // Restaurant schedules around the week, for the rules spanning weeks
+  restaurantRulePackId?: string; // Labor rule pack selected for the restaurant
+  canApplyFixes?: boolean; // schedule:edit permission on the restaurant
   isVisible: boolean;
   onToggle: () => void;
 }
 
+// Shifts touched by the last applied remediation, to undo it
+interface AppliedRemediation {
+  label: string;
+  previousShifts: Shift[];
+  addedShiftIds: string[];
+}
+
+const DAY_NAMES = ['Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi', 'Dimanche'];
+
 const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
   employees,
   shifts,
   weekStartDate,
+  schedules = [],
+  restaurantRulePackId,
+  canApplyFixes = false,
   isVisible,
   onToggle
 }) => {
@@ -38,13 +57,16 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
   const [isCompliant, setIsCompliant] = useState(true);
   const [selectedViolation, setSelectedViolation] = useState<LaborLawViolation | null>(null);
   const [filterSeverity, setFilterSeverity] = useState<ViolationSeverity | 'all'>('all');
+  const [previewRemediation, setPreviewRemediation] = useState<ComplianceRemediation | null>(null);
+  const [lastApplied, setLastApplied] = useState<AppliedRemediation | null>(null);
+  const { addShift, updateShift, deleteShift } = useAppContext();
 
   // CRITICAL: Run validation and show toast notifications when data changes
   useEffect(() => {
     if (employees.length > 0) {
       console.log('🔍 Running French Labor Law validation...');
       
-      const newValidator = new FrenchLaborLawValidator(employees, shifts, weekStartDate);
+      const newValidator = new FrenchLaborLawValidator(employees, shifts, weekStartDate, schedules, restaurantRulePackId);
       const results = newValidator.validateWeeklySchedule();
       const allViolations = newValidator.getAllViolations();
       const compliant = newValidator.isScheduleCompliant();
@@ -72,7 +94,78 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
         compliant
       });
     }
-  }, [employees, shifts, weekStartDate]);
+  }, [employees, shifts, weekStartDate, schedules, restaurantRulePackId]);
+
+  // CRITICAL: Preview - the week as it would be after the remediation, checked with the same rules
+  const remediationPreview = useMemo(() => {
+    if (!previewRemediation) return null;
+
+    const previewShifts = applyRemediation(shifts, previewRemediation);
+    const previewValidator = new FrenchLaborLawValidator(employees, previewShifts, weekStartDate, schedules, restaurantRulePackId);
+    previewValidator.validateWeeklySchedule();
+    const previewViolations = previewValidator.getAllViolations();
+
+    const getEmployeeName = (employeeId: string) => {
+      const employee = employees.find(e => e.id === employeeId);
+      return employee ? `${employee.firstName} ${employee.lastName}` : employeeId;
+    };
+
+    const changes = previewRemediation.actions.map(action => {
+      if (action.type === 'add_shift') {
+        return `${getEmployeeName(action.shift.employeeId)} : repos hebdomadaire le ${DAY_NAMES[action.shift.day]}`;
+      }
+      const before = shifts.find(shift => shift.id === action.shiftId);
+      const after = previewShifts.find(shift => shift.id === action.shiftId);
+      if (!before || !after) return '';
+      return `${DAY_NAMES[before.day]} : ${getEmployeeName(before.employeeId)} ${before.start}-${before.end} → ${getEmployeeName(after.employeeId)} ${after.start}-${after.end}`;
+    });
+
+    return {
+      changes: changes.filter(Boolean),
+      total: previewViolations.length,
+      critical: previewViolations.filter(v => v.severity === 'critical').length
+    };
+  }, [previewRemediation, shifts, employees, weekStartDate, schedules, restaurantRulePackId]);
+
+  // CRITICAL: Apply through the regular shift operations so edits are versioned, synced and broadcast
+  const handleApplyRemediation = (remediation: ComplianceRemediation) => {
+    const previousShifts: Shift[] = [];
+    const addedShiftIds: string[] = [];
+
+    remediation.actions.forEach(action => {
+      if (action.type === 'update_shift') {
+        const shift = shifts.find(s => s.id === action.shiftId);
+        if (!shift) return;
+        previousShifts.push(shift);
+        updateShift({ ...shift, ...action.changes }, weekStartDate);
+      } else {
+        const shiftId = addShift(action.shift, weekStartDate);
+        if (shiftId) addedShiftIds.push(shiftId);
+      }
+    });
+
+    console.log('🔧 Compliance remediation applied:', remediation.label);
+    setLastApplied({ label: remediation.label, previousShifts, addedShiftIds });
+    setPreviewRemediation(null);
+    setSelectedViolation(null);
+    toast.success('Correction appliquée');
+  };
+
+  const handleUndoRemediation = () => {
+    if (!lastApplied) return;
+
+    lastApplied.previousShifts.forEach(shift => updateShift(shift, weekStartDate));
+    lastApplied.addedShiftIds.forEach(shiftId => deleteShift(shiftId, weekStartDate));
+
+    console.log('↩️ Compliance remediation undone:', lastApplied.label);
+    setLastApplied(null);
+    toast.success('Correction annulée');
+  };
+
+  const closeViolationDetail = () => {
+    setSelectedViolation(null);
+    setPreviewRemediation(null);
+  };
 
   // CRITICAL: Filter violations by severity
   const filteredViolations = violations.filter(violation => 
@@ -115,6 +208,24 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
 
   const complianceStatus = getComplianceStatus();
 
+  // CRITICAL: Packs applied this week - the restaurant's one plus per-employee overrides (minors, other agreements)
+  const restaurantPack = getRulePack(restaurantRulePackId);
+  const appliedPacks = [restaurantPack, ...analysisResults.map(result => getRulePack(result.rulePackId))]
+    .filter((pack, index, packs) => packs.findIndex(p => p.id === pack.id) === index);
+
+  // CRITICAL: Human-readable lines for the legal references box
+  const describeRules = ({ rules }: LaborRulePack): string[] => [
+    rules.dailyRestHours && `Repos quotidien : ${rules.dailyRestHours.limit}h minimum, y compris entre le dimanche soir et le lundi matin (${rules.dailyRestHours.reference})`,
+    rules.weeklyRestHours && `Repos hebdomadaire : ${rules.weeklyRestHours.limit}h consécutives${rules.weeklyRestHours.referenceDays ? ` par période de ${rules.weeklyRestHours.referenceDays} jours` : ''} (${rules.weeklyRestHours.reference})`,
+    rules.maxDailyHours && `Durée quotidienne : ${rules.maxDailyHours.limit}h maximum (${rules.maxDailyHours.reference})`,
+    rules.maxWeeklyHours && `Durée hebdomadaire : ${rules.maxWeeklyHours.limit}h maximum (${rules.maxWeeklyHours.reference})`,
+    rules.averageWeeklyHours && `Durée moyenne : ${rules.averageWeeklyHours.limit}h sur ${rules.averageWeeklyHours.weeks} semaines consécutives (${rules.averageWeeklyHours.reference})`,
+    rules.maxConsecutiveDays && `Jours consécutifs : ${rules.maxConsecutiveDays.limit} maximum (${rules.maxConsecutiveDays.reference})`,
+    rules.maxContinuousHours && `Travail continu : ${rules.maxContinuousHours.limit}h maximum sans pause (${rules.maxContinuousHours.reference})`,
+    rules.minCoupureMinutes && `Coupure : ${rules.minCoupureMinutes.limit}min minimum (${rules.minCoupureMinutes.reference})`,
+    rules.nightWork && `Travail de nuit interdit entre ${rules.nightWork.start} et ${rules.nightWork.end} (${rules.nightWork.reference})`
+  ].filter((line): line is string => !!line);
+
   // CRITICAL: Format week range for display
   const formatWeekRange = (): string => {
     const endDate = new Date(weekStartDate);
@@ -146,7 +257,7 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
                 </h3>
               </div>
               <p className="text-sm text-gray-600">
-                {formatWeekRange()} • {employees.length} employé(s) analysé(s)
+                {formatWeekRange()} • {employees.length} employé(s) analysé(s) • {restaurantPack.name}
               </p>
             </div>
           </div>
@@ -177,6 +288,20 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
         </div>
       </div>
 
+      {/* CRITICAL: Undo the last applied remediation */}
+      {lastApplied && (
+        <div className="flex items-center justify-between px-4 py-2 bg-blue-50 border-b border-blue-200 text-sm text-blue-800">
+          <span>Correction appliquée : {lastApplied.label}</span>
+          <button
+            onClick={handleUndoRemediation}
+            className="flex items-center gap-1 font-medium text-blue-700 hover:text-blue-900"
+          >
+            <Undo2 size={14} />
+            Annuler
+          </button>
+        </div>
+      )}
+
       {/* CRITICAL: Detailed Compliance Panel - Expandable */}
       {isVisible && (
         <div className="p-4 space-y-4">
@@ -204,6 +329,34 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
             </div>
           </div>
 
+          {/* CRITICAL: 12-week average per employee, when earlier weeks are known */}
+          {analysisResults.some(result => result.averageWeeklyHours !== undefined) && (
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Moyenne sur 12 semaines</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {analysisResults
+                  .filter(result => result.averageWeeklyHours !== undefined)
+                  .map(result => {
+                    const employee = employees.find(e => e.id === result.employeeId);
+                    const average = result.averageWeeklyHours!;
+                    return (
+                      <div key={result.employeeId} className="flex items-center justify-between px-3 py-2 bg-gray-50 rounded text-sm">
+                        <span className="text-gray-700">
+                          {employee ? `${employee.firstName} ${employee.lastName}` : result.employeeId}
+                          <span className="text-xs text-gray-500 ml-1">({result.weeksInAverage} sem.)</span>
+                        </span>
+                        <span className={`font-semibold ${
+                          average > 44 ? 'text-red-600' : average > 42 ? 'text-orange-600' : 'text-gray-900'
+                        }`}>
+                          {average.toFixed(1)}h
+                        </span>
+                      </div>
+                    );
+                  })}
+              </div>
+            </div>
+          )}
+
           {/* CRITICAL: Violations List */}
           {violations.length > 0 && (
             <div>
@@ -240,6 +393,17 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
                               {['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'][violation.day]}
                             </span>
                           )}
+                          {violation.spansWeeks && (
+                            <span className="text-xs bg-white bg-opacity-50 px-2 py-1 rounded">
+                              Multi-semaines
+                            </span>
+                          )}
+                          {!!violation.remediations?.length && (
+                            <span className="flex items-center gap-1 text-xs bg-white bg-opacity-50 px-2 py-1 rounded">
+                              <Wrench size={10} />
+                              {violation.remediations.length} correction(s)
+                            </span>
+                          )}
                         </div>
                         <p className="text-sm">{violation.message}</p>
                         <p className="text-xs mt-1 opacity-75">{violation.suggestion}</p>
@@ -267,13 +431,15 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
           {/* CRITICAL: Legal References */}
           <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <h5 className="font-medium text-blue-900 mb-2">Références légales</h5>
-            <div className="text-sm text-blue-800 space-y-1">
-              <div>• Repos quotidien : 11h minimum (Art. L3131-1)</div>
-              <div>• Repos hebdomadaire : 35h consécutives (Art. L3132-2)</div>
-              <div>• Durée quotidienne : 10h maximum (Art. L3121-18)</div>
-              <div>• Durée hebdomadaire : 48h maximum (Art. L3121-20)</div>
-              <div>• Jours consécutifs : 6 maximum (Art. L3132-1)</div>
-              <div>• Convention collective CHR applicable</div>
+            <div className="space-y-3">
+              {appliedPacks.map(pack => (
+                <div key={pack.id} className="text-sm text-blue-800 space-y-1">
+                  <div className="font-medium">{pack.name}</div>
+                  {describeRules(pack).map(line => (
+                    <div key={line}>• {line}</div>
+                  ))}
+                </div>
+              ))}
             </div>
           </div>
         </div>
@@ -283,13 +449,13 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
       {selectedViolation && (
         <div className="fixed inset-0 z-50 overflow-y-auto">
           <div className="flex min-h-screen items-center justify-center p-4">
-            <div className="fixed inset-0 bg-black bg-opacity-25" onClick={() => setSelectedViolation(null)} />
+            <div className="fixed inset-0 bg-black bg-opacity-25" onClick={closeViolationDetail} />
             
             <div className="relative w-full max-w-md bg-white rounded-lg shadow-xl">
               <div className="flex items-center justify-between p-4 border-b">
                 <h3 className="text-lg font-medium text-gray-900">Détail de la violation</h3>
                 <button
-                  onClick={() => setSelectedViolation(null)}
+                  onClick={closeViolationDetail}
                   className="text-gray-400 hover:text-gray-500"
                 >
                   <X size={20} />
@@ -310,9 +476,56 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
                   <p className="text-sm text-gray-700">{selectedViolation.suggestion}</p>
                 </div>
                 
+                {/* CRITICAL: One-click remediations with preview */}
+                {!!selectedViolation.remediations?.length && (
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">🔧 Corrections automatiques</h4>
+                    <div className="space-y-2">
+                      {selectedViolation.remediations.map(remediation => (
+                        <div key={remediation.id} className="p-2 border border-gray-200 rounded-lg">
+                          <div className="flex items-start justify-between gap-2">
+                            <p className="text-sm text-gray-700">{remediation.label}</p>
+                            <button
+                              onClick={() => setPreviewRemediation(
+                                previewRemediation?.id === remediation.id ? null : remediation
+                              )}
+                              className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 flex-shrink-0"
+                            >
+                              <Eye size={12} />
+                              Aperçu
+                            </button>
+                          </div>
+
+                          {previewRemediation?.id === remediation.id && remediationPreview && (
+                            <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-700 space-y-1">
+                              {remediationPreview.changes.map(change => (
+                                <div key={change}>• {change}</div>
+                              ))}
+                              <div className="pt-1 font-medium">
+                                Violations : {violationCounts.total} → {remediationPreview.total} (critiques : {violationCounts.critical} → {remediationPreview.critical})
+                              </div>
+                              {canApplyFixes && (
+                                <button
+                                  onClick={() => handleApplyRemediation(remediation)}
+                                  className="mt-1 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
+                                >
+                                  Appliquer
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <h4 className="font-medium text-gray-900 mb-2">📖 Référence légale</h4>
                   <p className="text-sm text-gray-700">{selectedViolation.legalReference}</p>
+                  {selectedViolation.rulePackName && (
+                    <p className="text-xs text-gray-500 mt-1">Règles appliquées : {selectedViolation.rulePackName}</p>
+                  )}
                 </div>
                 
                 {selectedViolation.day !== undefined && (
@@ -327,7 +540,7 @@ const LaborLawCompliancePanel: React.FC<LaborLawCompliancePanelProps> = ({
               
               <div className="p-4 border-t bg-gray-50">
                 <button
-                  onClick={() => setSelectedViolation(null)}
+                  onClick={closeViolationDetail}
                   className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700"
                 >
                   Compris
@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday } from 'date-fns';
-import { Shift, Employee, SHIFT_TYPES, DAILY_STATUS } from '../../types';
+import { Shift, Employee, SHIFT_TYPES, DAILY_STATUS, HolidayRegion } from '../../types';
+import { getPublicHoliday } from '../../lib/holidayCalendar';
 
 interface MonthlyScheduleProps {
   shifts: Shift[];
   employees: Employee[];
   onShiftClick: (shift: Shift) => void;
   currentDate: Date;
+  holidayRegion?: HolidayRegion;
 }
 
 const MonthlySchedule: React.FC<MonthlyScheduleProps> = ({
@@ -15,6 +17,7 @@ const MonthlySchedule: React.FC<MonthlyScheduleProps> = ({
   employees,
   onShiftClick,
   currentDate,
+  holidayRegion = 'metropole',
 }) => {
   const [selectedMonth, setSelectedMonth] = useState(currentDate);
 
@@ -116,6 +119,7 @@ const MonthlySchedule: React.FC<MonthlyScheduleProps> = ({
           const dayShifts = getShiftsForDate(date);
           const isCurrentMonth = isSameMonth(date, selectedMonth);
           const isCurrentDay = isToday(date);
+          const holiday = getPublicHoliday(date, holidayRegion);
           
           return (
             <div
@@ -124,10 +128,11 @@ const MonthlySchedule: React.FC<MonthlyScheduleProps> = ({
                 !isCurrentMonth ? 'bg-gray-50' : ''
               } ${isCurrentDay ? 'ring-2 ring-blue-500' : ''}`}
             >
-              <div className={`text-right mb-1 ${
+              <div className={`flex justify-between items-start gap-1 mb-1 ${
                 isCurrentDay ? 'text-blue-600 font-semibold' : 'text-gray-500'
               }`}>
-                {format(date, 'd')}
+                <span className="text-xs font-medium text-red-600 truncate">{holiday?.name}</span>
+                <span>{format(date, 'd')}</span>
               </div>
               
               <div className="space-y-1">
@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { addDays, format, parseISO } from 'date-fns';
+import { DAILY_STATUS, DAYS_OF_WEEK, Employee, ScheduleDayChange, Shift } from '../../types';
+
+interface ScheduleChangeListProps {
+  changes: ScheduleDayChange[];
+  weekStartDate: string; // yyyy-MM-dd
+  employees?: Employee[]; // Prefix each line with the employee's name when given
+  late?: ScheduleDayChange[]; // Changes notified inside the notice period
+}
+
+// CRITICAL: Day-by-day changes between two versions of a week, e.g. "Marie: Tue 10:00–15:00 → 11:00–15:00"
+const ScheduleChangeList: React.FC<ScheduleChangeListProps> = ({ changes, weekStartDate, employees, late = [] }) => {
+  const { t } = useTranslation();
+
+  const describeDay = (entries: Shift[]) =>
+    entries.length === 0
+      ? '—'
+      : entries
+          .map(entry => entry.status ? DAILY_STATUS[entry.status].label : `${entry.start}–${entry.end}`)
+          .join(', ');
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees?.find(e => e.id === employeeId);
+    return employee ? employee.firstName : t('leaveRequests.unknownEmployee');
+  };
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">{t('schedule.publication.noChanges')}</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map(change => {
+        const isLate = late.includes(change);
+        const date = addDays(parseISO(weekStartDate), change.day);
+        return (
+          <li key={`${change.employeeId}-${change.day}`} className="flex items-start gap-1 text-gray-700">
+            <span>
+              {employees && <span className="font-medium">{getEmployeeName(change.employeeId)}: </span>}
+              {t(`days.${DAYS_OF_WEEK[change.day].toLowerCase().slice(0, 3)}`)} {format(date, 'dd/MM')}{' '}
+              <span className={change.before.length > 0 ? 'text-red-700 line-through' : 'text-gray-400'}>
+                {describeDay(change.before)}
+              </span>
+              {' → '}
+              <span className={change.after.length > 0 ? 'text-green-800' : 'text-gray-400'}>
+                {describeDay(change.after)}
+              </span>
+            </span>
+            {isLate && (
+              <span className="ml-1 inline-flex items-center text-xs text-orange-700" title={t('schedule.publication.lateHint')}>
+                <AlertTriangle size={12} className="mr-0.5" />
+                {t('schedule.publication.late')}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ScheduleChangeList;
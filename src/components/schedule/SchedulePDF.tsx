@@ -4,6 +4,7 @@ import { Employee, Shift, Restaurant, POSITIONS } from '../../types';
 import { format, addDays, getWeek } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { calculateEmployeeWeeklySummary, formatHours, formatHoursDiff } from '../../lib/scheduleUtils';
+import { getHolidayRegion, getPublicHoliday } from '../../lib/holidayCalendar';
 
 interface SchedulePDFProps {
   restaurant: Restaurant;
@@ -427,6 +428,7 @@ const SchedulePDF: React.FC<SchedulePDFProps> = ({
               const dayDate = format(date, 'd MMM', { 
                 locale: language === 'fr' ? fr : undefined 
               });
+              const holiday = getPublicHoliday(date, getHolidayRegion(restaurant));
               
               return (
                 <View key={index} style={styles.dayCell}>
@@ -436,6 +438,11 @@ const SchedulePDF: React.FC<SchedulePDFProps> = ({
                   <Text style={{...styles.headerText, fontSize: 6, marginTop: 1}}>
                     {language === 'fr' ? dayDate.replace(/\b\w/g, (char) => char.toUpperCase()) : dayDate}
                   </Text>
+                  {holiday && (
+                    <Text style={{...styles.headerText, fontSize: 5, marginTop: 1}}>
+                      {language === 'fr' ? holiday.name : holiday.nameEn}
+                    </Text>
+                  )}
                 </View>
               );
             })}
@@ -471,7 +478,8 @@ const SchedulePDF: React.FC<SchedulePDFProps> = ({
               employee.startDate,
               employee.endDate,
               weekStartDate,
-              payBreakTimes ?? true
+              payBreakTimes ?? true,
+              getHolidayRegion(restaurant)
             );
 
             const isProRated = Math.abs(proRatedContractHours - (employee.weeklyHours || 35)) > 0.1;
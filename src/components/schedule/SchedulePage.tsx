@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { DndContext, DragEndEvent, closestCenter } from '@dnd-kit/core';
-import { Plus, Calendar as CalendarIcon, Clock, Users, ChefHat, Shield, Save, FileText, Archive, X, AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Copy } from 'lucide-react';
+import { Plus, Calendar as CalendarIcon, Clock, Users, ChefHat, Shield, Save, FileText, Archive, X, AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Copy, Wand2, Gauge } from 'lucide-react';
 import { startOfWeek, addWeeks, format, isWithinInterval, parseISO, addDays, endOfWeek, getWeek, setWeek } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import ScheduleHeader from './ScheduleHeader';
@@ -11,10 +11,20 @@ import LaborLawCompliancePanel from './LaborLawCompliancePanel';
 import WeeklySchedule from './WeeklySchedule';
 import DailyEntryModal from './DailyEntryModal';
 import { useAppContext } from '../../contexts/AppContext';
-import { Shift, EmployeeCategory, Employee } from '../../types';
+import { Shift, EmployeeCategory, Employee, EmployeePreference, CollaboratorPresence, StaffingModel, StaffingTarget } from '../../types';
 import { useTranslation } from 'react-i18next';
 import toast from 'react-hot-toast';
-import { scheduleAutoSaveService } from '../../lib/scheduleAutoSave';
+import { scheduleAutoSaveService, ScheduleSyncState } from '../../lib/scheduleAutoSave';
+import AutoSaveIndicator from './AutoSaveIndicator';
+import SchedulePresence from './SchedulePresence';
+import ShiftConflictModal from './ShiftConflictModal';
+import AutoScheduleModal from './AutoScheduleModal';
+import StaffingModelModal from './StaffingModelModal';
+import SchedulePublicationPanel from './SchedulePublicationPanel';
+import { staffingModelService } from '../../lib/staffingModel';
+import { getHolidayRegion } from '../../lib/holidayCalendar';
+import { useAuth } from '../../contexts/AuthContext';
+import { collaborationService } from '../../lib/collaborationService';
 import { v4 as uuidv4 } from 'uuid';
 
 type ViewMode = 'weekly' | 'monthly';
@@ -29,9 +39,16 @@ const SchedulePage: React.FC = () => {
     addShift,
     updateShift,
     deleteShift,
+    shiftConflicts,
+    resolveShiftConflict,
     userSettings,
-    setCurrentTab
+    setCurrentTab,
+    getEmployeeAvailabilities,
+    getEmployeePreferences,
+    checkAvailabilityConflicts,
+    schedules
   } = useAppContext();
+  const { can } = useAuth();
   
   const [weekStartDate, setWeekStartDate] = useState(() => {
     // Initialize to Monday of current week
@@ -48,11 +65,19 @@ const SchedulePage: React.FC = () => {
   
   // CRITICAL: State for manual save button
   const [isSaving, setIsSaving] = useState(false);
+  const [syncState, setSyncState] = useState<ScheduleSyncState>(() => scheduleAutoSaveService.getState());
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
   
   // CRITICAL: State for daily entry modal
   const [showDailyEntryModal, setShowDailyEntryModal] = useState(false);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
   const [selectedDay, setSelectedDay] = useState<number>(0);
+  const [showAutoScheduleModal, setShowAutoScheduleModal] = useState(false);
+  
+  // CRITICAL: Forecast-driven staffing targets
+  const [staffingModel, setStaffingModel] = useState<StaffingModel | null>(null);
+  const [staffingTargets, setStaffingTargets] = useState<StaffingTarget[]>([]);
+  const [showStaffingModelModal, setShowStaffingModelModal] = useState(false);
   
   // CRITICAL FIX: Move all derived variables before useEffect hooks
   const allEmployees = currentRestaurant 
@@ -125,47 +150,70 @@ const SchedulePage: React.FC = () => {
     });
   }, [schedule?.shifts, filteredEmployeeIds, weekStartDate, allEmployees]);
   
-  // CRITICAL: Initialize auto-save service when component mounts
+  // CRITICAL: Other weeks of the restaurant, for the labor law rules spanning weeks (12-week average, week boundaries)
+  const restaurantSchedules = useMemo(
+    () => schedules.filter(s => s.restaurantId === currentRestaurant?.id),
+    [schedules, currentRestaurant?.id]
+  );
+  
+  // CRITICAL: Scheduled headcount against the forecast target, restricted to the positions of the current view
+  const viewPositions = new Set(employees.map(employee => employee.position));
+  const staffingCoverage = staffingModel
+    ? staffingModelService
+        .getCoverage(staffingTargets, schedule?.shifts ?? [], staffingModel)
+        .filter(coverage => categoryFilter === 'all' || viewPositions.has(coverage.position))
+    : [];
+  
+  // CRITICAL: Follow the offline queue so pending changes are visible in the indicator
   useEffect(() => {
-    if (currentRestaurant) {
-      const schedule = getRestaurantScheduleForWeek(currentRestaurant.id, weekStartDate);
-      
-      // Initialize auto-save service with current shifts
-      scheduleAutoSaveService.initialize(
-        (shifts) => {
-          // This callback will be called when auto-save triggers
-          console.log('🔄 Auto-save triggered with', shifts.length, 'shifts');
-          
-          // In a real implementation, this would call an API endpoint
-          // For now, we'll just update the local state via context
-          // No need to do anything as shifts are already saved in context
-        },
-        schedule?.shifts || [],
-        i18n.language as 'en' | 'fr'
-      );
+    return scheduleAutoSaveService.subscribe(setSyncState);
+  }, []);
+  
+  // CRITICAL: Tell other managers which week we are looking at
+  useEffect(() => {
+    collaborationService.setViewedWeek(format(weekStartDate, 'yyyy-MM-dd'));
+  }, [weekStartDate, currentRestaurant?.id]);
+  
+  useEffect(() => {
+    const unsubscribe = collaborationService.subscribePresence(setCollaborators);
+    return () => {
+      unsubscribe();
+      collaborationService.setViewedWeek(null);
+    };
+  }, []);
+  
+  // CRITICAL: Load the staffing ratios of the selected restaurant
+  useEffect(() => {
+    setStaffingModel(currentRestaurant ? staffingModelService.getModel(currentRestaurant.id) : null);
+  }, [currentRestaurant?.id]);
+  
+  // CRITICAL: Forecast the displayed week and convert it into target headcounts
+  useEffect(() => {
+    if (!currentRestaurant || !staffingModel || staffingModel.restaurantId !== currentRestaurant.id) {
+      setStaffingTargets([]);
+      return;
     }
     
-    // Clean up when component unmounts
+    let cancelled = false;
+    staffingModelService.getWeekTargets(currentRestaurant.id, weekStartDate, staffingModel, getHolidayRegion(currentRestaurant))
+      .then(targets => {
+        if (!cancelled) setStaffingTargets(targets);
+      })
+      .catch(error => {
+        console.error('❌ Failed to compute staffing targets:', error);
+        if (!cancelled) setStaffingTargets([]);
+      });
+    
     return () => {
-      scheduleAutoSaveService.cleanup();
+      cancelled = true;
     };
-  }, [currentRestaurant, weekStartDate]);
+  }, [currentRestaurant?.id, weekStartDate, staffingModel]);
   
   // CRITICAL: Update auto-save service when language changes
   useEffect(() => {
     scheduleAutoSaveService.setLanguage(i18n.language as 'en' | 'fr');
   }, [i18n.language]);
   
-  // CRITICAL: Update auto-save service when shifts change
-  useEffect(() => {
-    if (currentRestaurant) {
-      const schedule = getRestaurantScheduleForWeek(currentRestaurant.id, weekStartDate);
-      if (schedule) {
-        scheduleAutoSaveService.updateShifts(schedule.shifts);
-      }
-    }
-  }, [shifts, weekStartDate]);
-  
   // CRITICAL FIX: Functional week navigation arrows
   const handlePrevWeek = () => {
     const newDate = addWeeks(weekStartDate, -1);
@@ -247,9 +295,24 @@ const SchedulePage: React.FC = () => {
     const newDay = parseInt(over.id.toString().split('-')[1]);
 
     const shift = shifts.find(s => s.id === shiftId);
-    if (shift && shift.day !== newDay) {
-      updateShift({ ...shift, day: newDay });
+    if (!shift || shift.day === newDay) return;
+
+    // Warn only - the manager may still move the shift, as in the daily entry modal
+    if (shift.start && shift.end && !shift.status) {
+      const { conflictType } = checkAvailabilityConflicts(shift.employeeId, weekStartDate, newDay, shift.start, shift.end);
+      if (conflictType === 'UNAVAILABLE') {
+        toast(i18n.language === 'fr'
+          ? 'L\'employé a indiqué être indisponible sur ce créneau'
+          : 'Employee has indicated they are unavailable during this time', { icon: '⚠️', duration: 5000 });
+      } else if (conflictType === 'LIMITED') {
+        toast(i18n.language === 'fr'
+          ? 'L\'employé a une disponibilité limitée sur ce créneau'
+          : 'Employee has limited availability during this time', { icon: '⚠️', duration: 5000 });
+      }
     }
+
+    // CRITICAL: Goes through the contract check and the week-specific update
+    handleUpdateShift({ ...shift, day: newDay });
   };
 
   // CRITICAL FIX: Validation for scheduling outside contract period
@@ -326,12 +389,23 @@ const SchedulePage: React.FC = () => {
   };
   
   // CRITICAL: Manual save function
-  const handleManualSave = () => {
+  const handleManualSave = async () => {
     setIsSaving(true);
     
     try {
-      // Force an immediate save via the auto-save service
-      scheduleAutoSaveService.saveNow();
+      // Force an immediate replay of the offline queue
+      await scheduleAutoSaveService.syncNow();
+      
+      const { pendingCount } = scheduleAutoSaveService.getState();
+      if (pendingCount > 0) {
+        toast(
+          i18n.language === 'fr'
+            ? `${pendingCount} modification(s) enregistrée(s) localement, synchronisation au retour du réseau`
+            : `${pendingCount} change(s) saved locally, will sync when back online`,
+          { icon: '📴', duration: 4000 }
+        );
+        return;
+      }
       
       // Show success message
       toast.success(
@@ -418,6 +492,24 @@ const SchedulePage: React.FC = () => {
     );
   };
 
+  // CRITICAL: Add the shifts produced by the automatic generator to the current week
+  const handleApplyGeneratedShifts = (generatedShifts: Shift[]) => {
+    // addShift assigns fresh ids, the generated ones only served the preview
+    generatedShifts.forEach(shift => handleAddShift(shift));
+
+    toast.success(
+      i18n.language === 'fr'
+        ? `${generatedShifts.filter(s => !s.status).length} service(s) générés`
+        : `${generatedShifts.filter(s => !s.status).length} shift(s) generated`
+    );
+  };
+
+  const handleSaveStaffingModel = (model: StaffingModel) => {
+    staffingModelService.saveModel(model);
+    setStaffingModel(model);
+    toast.success(i18n.language === 'fr' ? 'Ratios de personnel enregistrés' : 'Staffing ratios saved');
+  };
+
   // CRITICAL: Get restaurant location for weather
   const getRestaurantLocation = (): string => {
     if (!currentRestaurant) return '';
@@ -478,6 +570,12 @@ const SchedulePage: React.FC = () => {
             Planning Hebdomadaire - {' '}
             {currentRestaurant ? `${currentRestaurant.name} - ${currentRestaurant.location}` : t('common.selectRestaurant')}
           </p>
+          <div className="mt-2">
+            <SchedulePresence
+              collaborators={collaborators.filter(c => c.restaurantId === currentRestaurant?.id)}
+              weekStartDate={format(weekStartDate, 'yyyy-MM-dd')}
+            />
+          </div>
         </div>
         
         <div className="flex items-center gap-4">
@@ -553,6 +651,28 @@ const SchedulePage: React.FC = () => {
             </button>
           </div>
           
+          {/* Automatic schedule generation from staffing requirements */}
+          {currentRestaurant && can('schedule:edit', currentRestaurant.id) && (
+            <button
+              onClick={() => setShowAutoScheduleModal(true)}
+              className="flex items-center px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+            >
+              <Wand2 size={18} className="mr-2" />
+              {t('schedule.autoGenerate.button')}
+            </button>
+          )}
+
+          {/* Covers-per-staff ratios behind the forecast staffing targets */}
+          {currentRestaurant && can('schedule:edit', currentRestaurant.id) && (
+            <button
+              onClick={() => setShowStaffingModelModal(true)}
+              className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+            >
+              <Gauge size={18} className="mr-2" />
+              {t('schedule.staffing.button')}
+            </button>
+          )}
+
           {/* CRITICAL: Manual Save Button */}
           <button
             onClick={handleManualSave}
@@ -580,7 +700,26 @@ const SchedulePage: React.FC = () => {
           onDragEnd={handleDragEnd}
         >
           <div className="space-y-4">
+            {/* Draft vs published: employees only see the published version of the week */}
+            <SchedulePublicationPanel
+              restaurantId={currentRestaurant.id}
+              weekStartDate={weekStartDate}
+              shifts={schedule?.shifts ?? []}
+              employees={allEmployees}
+              canEdit={can('schedule:edit', currentRestaurant.id)}
+            />
+
             {/* CRITICAL: Labor Law Compliance Panel - Positioned at top for visibility */}
+            <LaborLawCompliancePanel
+              employees={employees}
+              shifts={shifts}
+              weekStartDate={weekStartDate}
+              schedules={restaurantSchedules}
+              restaurantRulePackId={currentRestaurant?.laborRulePackId}
+              canApplyFixes={!!currentRestaurant && can('schedule:edit', currentRestaurant.id)}
+              isVisible={showCompliancePanel}
+              onToggle={() => setShowCompliancePanel(!showCompliancePanel)}
+            />
 
             {viewMode === 'weekly' ? (
               <>
@@ -600,12 +739,14 @@ const SchedulePage: React.FC = () => {
                   onWeekSelect={handleWeekSelect}
                   restaurant={currentRestaurant}
                   viewType={categoryFilter}
+                  staffingCoverage={staffingCoverage}
                 />
               </>
             ) : (
               <MonthlySchedule
                 shifts={shifts}
                 employees={employees}
+                holidayRegion={getHolidayRegion(currentRestaurant)}
                 onShiftClick={(shift) => {
                   const employee = employees.find(e => e.id === shift.employeeId);
                   if (employee) {
@@ -641,6 +782,52 @@ const SchedulePage: React.FC = () => {
         onSaveAbsence={handleSaveAbsence}
         restaurantId={currentRestaurant?.id || ''}
       />
+      
+      {currentRestaurant && (
+        <AutoScheduleModal
+          isOpen={showAutoScheduleModal}
+          onClose={() => setShowAutoScheduleModal(false)}
+          restaurantId={currentRestaurant.id}
+          restaurantRulePackId={currentRestaurant.laborRulePackId}
+          weekStartDate={weekStartDate}
+          employees={activeEmployeesForWeek}
+          existingShifts={schedule?.shifts ?? []}
+          schedules={restaurantSchedules}
+          availabilities={activeEmployeesForWeek.flatMap(employee => getEmployeeAvailabilities(employee.id))}
+          preferences={activeEmployeesForWeek
+            .map(employee => getEmployeePreferences(employee.id))
+            .filter((preference): preference is EmployeePreference => !!preference)}
+          forecastRequirements={staffingModel ? staffingModelService.toRequirements(staffingTargets, staffingModel) : []}
+          onApply={handleApplyGeneratedShifts}
+        />
+      )}
+
+      {staffingModel && (
+        <StaffingModelModal
+          isOpen={showStaffingModelModal}
+          onClose={() => setShowStaffingModelModal(false)}
+          model={staffingModel}
+          hasForecast={staffingTargets.length > 0}
+          onSave={handleSaveStaffingModel}
+        />
+      )}
+
+      {/* CRITICAL: Concurrent edits waiting for a merge decision, one at a time */}
+      {currentRestaurant && shiftConflicts.some(c => c.restaurantId === currentRestaurant.id) && (
+        <ShiftConflictModal
+          conflict={shiftConflicts.find(c => c.restaurantId === currentRestaurant.id)!}
+          employees={allEmployees}
+          onResolve={resolveShiftConflict}
+        />
+      )}
+      
+      {/* CRITICAL: Sync status and offline queue size */}
+      <AutoSaveIndicator
+        lastSaved={syncState.lastSynced}
+        status={syncState.status}
+        pendingCount={syncState.pendingCount}
+        isOnline={syncState.isOnline}
+      />
     </div>
   );
 };
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { CollaboratorPresence } from '../../types';
+
+interface SchedulePresenceProps {
+  collaborators: CollaboratorPresence[];
+  weekStartDate: string;
+}
+
+const getInitials = (name: string): string =>
+  name
+    .split(' ')
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+// CRITICAL: Shows who else has this restaurant's schedule open, and on which week
+const SchedulePresence: React.FC<SchedulePresenceProps> = ({ collaborators, weekStartDate }) => {
+  const { t } = useTranslation();
+
+  if (collaborators.length === 0) return null;
+
+  const sameWeek = collaborators.filter(c => c.weekStartDate === weekStartDate);
+  const otherWeeks = collaborators.filter(c => c.weekStartDate && c.weekStartDate !== weekStartDate);
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-gray-600">
+      {sameWeek.length > 0 && (
+        <div className="flex items-center">
+          <div className="flex -space-x-2 mr-2">
+            {sameWeek.map((collaborator, index) => (
+              <div
+                key={`${collaborator.userId}-${index}`}
+                title={collaborator.name}
+                className="w-8 h-8 rounded-full bg-blue-600 text-white text-xs font-medium flex items-center justify-center ring-2 ring-white"
+              >
+                {getInitials(collaborator.name) || '?'}
+              </div>
+            ))}
+          </div>
+          <span className="flex items-center">
+            <Eye size={14} className="mr-1 text-blue-600" />
+            {t('schedule.viewingThisWeek', { count: sameWeek.length })}
+          </span>
+        </div>
+      )}
+
+      {otherWeeks.map((collaborator, index) => (
+        <span
+          key={`${collaborator.userId}-${index}`}
+          className="px-2 py-1 bg-gray-100 rounded-full text-xs"
+        >
+          {t('schedule.viewingOtherWeek', {
+            name: collaborator.name,
+            week: format(parseISO(collaborator.weekStartDate!), 'dd/MM')
+          })}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default SchedulePresence;
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { AlertTriangle, EyeOff, History, Send } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { Employee, Shift } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import {
+  DEFAULT_PUBLICATION_NOTICE_DAYS,
+  diffScheduleVersions,
+  getLateChanges,
+  getWeekPublications
+} from '../../lib/schedulePublicationService';
+import ScheduleChangeList from './ScheduleChangeList';
+
+interface SchedulePublicationPanelProps {
+  restaurantId: string;
+  weekStartDate: Date;
+  shifts: Shift[]; // Every shift of the week, whatever the view filter
+  employees: Employee[];
+  canEdit: boolean;
+}
+
+// CRITICAL: Draft vs published state of the displayed week, with its versions and what changed between them
+const SchedulePublicationPanel: React.FC<SchedulePublicationPanelProps> = ({
+  restaurantId,
+  weekStartDate,
+  shifts,
+  employees,
+  canEdit
+}) => {
+  const { t } = useTranslation();
+  const { schedulePublications, publishSchedule, unpublishSchedule, settings } = useAppContext();
+  const [showHistory, setShowHistory] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const weekKey = format(weekStartDate, 'yyyy-MM-dd');
+  const noticeDays = settings.publicationNoticeDays ?? DEFAULT_PUBLICATION_NOTICE_DAYS;
+  const versions = getWeekPublications(schedulePublications, restaurantId, weekKey);
+  const latest = versions[versions.length - 1];
+  const live = latest && !latest.unpublishedAt ? latest : undefined;
+
+  // The draft is the week as edited now, compared with what employees see
+  const pendingChanges = diffScheduleVersions(live?.shifts ?? [], shifts);
+  const lateChanges = getLateChanges(pendingChanges, weekKey, new Date().toISOString(), noticeDays);
+  const canPublish = live ? pendingChanges.length > 0 : shifts.length > 0;
+
+  const handlePublish = async () => {
+    setLoading(true);
+    try {
+      await publishSchedule(restaurantId, weekStartDate);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    if (!window.confirm(t('schedule.publication.unpublishConfirm'))) return;
+
+    setLoading(true);
+    try {
+      await unpublishSchedule(restaurantId, weekStartDate);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span
+            className={`px-2 py-1 text-xs font-medium rounded-full ${
+              live ? 'bg-green-100 text-green-800' : latest ? 'bg-gray-100 text-gray-600' : 'bg-yellow-100 text-yellow-800'
+            }`}
+          >
+            {live
+              ? t('schedule.publication.published', { version: live.version })
+              : latest
+                ? t('schedule.publication.withdrawn', { version: latest.version })
+                : t('schedule.publication.draft')}
+          </span>
+          {live && (
+            <span className="text-xs text-gray-500">
+              {t('schedule.publication.publishedOn', { date: format(parseISO(live.publishedAt), 'dd/MM/yyyy HH:mm') })}
+            </span>
+          )}
+          {live && (
+            <span className={`text-sm ${pendingChanges.length > 0 ? 'text-orange-700' : 'text-gray-500'}`}>
+              {pendingChanges.length > 0
+                ? t('schedule.publication.pendingChanges', { count: pendingChanges.length })
+                : t('schedule.publication.upToDate')}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setShowHistory(!showHistory)}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <History size={14} className="mr-1" />
+            {t('schedule.publication.history')} ({versions.length})
+          </button>
+          {canEdit && live && (
+            <button
+              type="button"
+              onClick={handleUnpublish}
+              disabled={loading}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+            >
+              <EyeOff size={14} className="mr-1" />
+              {t('schedule.publication.unpublish')}
+            </button>
+          )}
+          {canEdit && (
+            <button
+              type="button"
+              onClick={handlePublish}
+              disabled={loading || !canPublish}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send size={14} className="mr-1" />
+              {live ? t('schedule.publication.republish') : t('schedule.publication.publish')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {canEdit && live && pendingChanges.length > 0 && (
+        <div className="mt-3 p-3 rounded-md bg-gray-50 border border-gray-200">
+          <ScheduleChangeList changes={pendingChanges} weekStartDate={weekKey} employees={employees} late={lateChanges} />
+        </div>
+      )}
+
+      {canEdit && lateChanges.length > 0 && (
+        <p className="mt-2 flex items-start text-sm text-orange-700">
+          <AlertTriangle size={14} className="mr-1 mt-0.5 flex-shrink-0" />
+          <span>
+            {t('schedule.publication.lateNotice', { count: lateChanges.length, days: noticeDays })}
+            {' - '}
+            {t('schedule.publication.lateHint')}
+          </span>
+        </p>
+      )}
+
+      {showHistory && (
+        <div className="mt-4 border-t border-gray-200 pt-3">
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('schedule.publication.noHistory')}</p>
+          ) : (
+            <div className="space-y-4">
+              {[...versions].reverse().map(version => {
+                const previous = versions.find(v => v.version === version.version - 1);
+                const changes = diffScheduleVersions(previous?.shifts ?? [], version.shifts);
+                return (
+                  <div key={version.id}>
+                    <p className="text-sm font-medium text-gray-900">
+                      {t('schedule.publication.version', { version: version.version })}
+                      <span className="ml-2 font-normal text-gray-500">
+                        {t('schedule.publication.publishedOn', { date: format(parseISO(version.publishedAt), 'dd/MM/yyyy HH:mm') })}
+                      </span>
+                      {version.unpublishedAt && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                          {t('schedule.publication.withdrawn', { version: version.version })}
+                        </span>
+                      )}
+                    </p>
+                    {previous ? (
+                      <div className="mt-1">
+                        <ScheduleChangeList
+                          changes={changes}
+                          weekStartDate={weekKey}
+                          employees={employees}
+                          late={getLateChanges(changes, weekKey, version.publishedAt, noticeDays)}
+                        />
+                      </div>
+                    ) : (
+                      <p className="mt-1 text-sm text-gray-500">{t('schedule.publication.firstVersion')}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchedulePublicationPanel;
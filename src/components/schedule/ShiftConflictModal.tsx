@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { Employee, ShiftConflict } from '../../types';
+import {
+  getConflictingFields,
+  mergeShifts,
+  MergeableShiftField,
+  MergeChoice
+} from '../../lib/shiftMerge';
+
+const DAY_KEYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+interface ShiftConflictModalProps {
+  conflict: ShiftConflict;
+  employees: Employee[];
+  onResolve: (shiftId: string, resolved: ShiftConflict['local']) => void;
+}
+
+const ShiftConflictModal: React.FC<ShiftConflictModalProps> = ({ conflict, employees, onResolve }) => {
+  const { t } = useTranslation();
+  const { local, remote } = conflict;
+
+  const conflictingFields = useMemo(
+    () => (local && remote ? getConflictingFields(local, remote) : []),
+    [local, remote]
+  );
+  const [choices, setChoices] = useState<Partial<Record<MergeableShiftField, MergeChoice>>>({});
+
+  // CRITICAL: Default every field to the local value when a new conflict is shown
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflictingFields.map(field => [field, 'local'])));
+  }, [conflict.shiftId, conflict.detectedAt, conflictingFields]);
+
+  const formatValue = (field: MergeableShiftField, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'employeeId') {
+      const employee = employees.find(e => e.id === value);
+      return employee ? `${employee.firstName} ${employee.lastName}` : String(value);
+    }
+    if (field === 'day') return DAY_KEYS[value as number] ? t(`days.${DAY_KEYS[value as number]}`) : String(value);
+    if (typeof value === 'boolean') return value ? '✓' : '✗';
+    return String(value);
+  };
+
+  const shift = local ?? remote;
+  const employee = shift ? employees.find(e => e.id === shift.employeeId) : undefined;
+  const author = conflict.remoteAuthorName || t('schedule.conflictAnotherUser');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full">
+        <div className="flex items-center p-6 border-b border-gray-200">
+          <AlertTriangle className="text-amber-500 mr-3" size={24} />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{t('schedule.conflictTitle')}</h2>
+            <p className="text-sm text-gray-600">
+              {t('schedule.conflictDescription', { name: author })}
+              {employee && ` — ${employee.firstName} ${employee.lastName}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {local && remote ? (
+            conflictingFields.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 font-medium">{t('schedule.conflictField')}</th>
+                    <th className="pb-2 font-medium">{t('schedule.conflictMine')}</th>
+                    <th className="pb-2 font-medium">{t('schedule.conflictTheirs', { name: author })}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflictingFields.map(field => (
+                    <tr key={field} className="border-t border-gray-100">
+                      <td className="py-2 text-gray-700">{t(`schedule.conflictFields.${field}`)}</td>
+                      {(['local', 'remote'] as MergeChoice[]).map(side => (
+                        <td key={side} className="py-2">
+                          <label className="flex items-center cursor-pointer">
+                            <input
+                              type="radio"
+                              name={`merge-${field}`}
+                              checked={choices[field] === side}
+                              onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                              className="mr-2 text-blue-600 focus:ring-blue-500"
+                            />
+                            {formatValue(field, (side === 'local' ? local : remote)[field])}
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-600">{t('schedule.conflictNoDifference')}</p>
+            )
+          ) : (
+            <p className="text-sm text-gray-700">
+              {local ? t('schedule.conflictDeletedRemotely', { name: author }) : t('schedule.conflictDeletedLocally', { name: author })}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          {local && remote ? (
+            <>
+              <button
+                onClick={() => onResolve(conflict.shiftId, remote)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {t('schedule.conflictTakeTheirs')}
+              </button>
+              <button
+                onClick={() => onResolve(conflict.shiftId, local)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {t('schedule.conflictKeepMine')}
+              </button>
+              <button
+                onClick={() => onResolve(conflict.shiftId, mergeShifts(local, remote, choices))}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                <GitMerge size={16} className="mr-2" />
+                {t('schedule.conflictApplyMerge')}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => onResolve(conflict.shiftId, null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {t('schedule.conflictDeleteShift')}
+              </button>
+              <button
+                onClick={() => onResolve(conflict.shiftId, local ?? remote)}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                {t('schedule.conflictKeepShift')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShiftConflictModal;
@@ -635,8 +635,8 @@ const ShiftForm: React.FC<ShiftFormProps> = ({
                         <div className="mt-3">
                           <p className="text-sm text-red-600">
                             {i18n.language === 'fr' 
-                              ? 'Les heures travaillées pendant le 1er Mai seront comptées comme des heures majorées à 100%.'
-                              : 'Hours worked during May 1st will be counted with 100% premium pay.'}
+                              ? 'Les heures travaillées pendant un jour férié seront comptées comme des heures majorées à 100%.'
+                              : 'Hours worked on a public holiday will be counted with 100% premium pay.'}
                           </p>
                           
                           {/* Time input for worked holiday */}
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { X, Gauge, Plus, Trash2, Info } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { POSITIONS, StaffingModel, StaffingRatio, StaffingService } from '../../types';
+import { staffingModelService, STAFFING_SERVICES } from '../../lib/staffingModel';
+
+interface StaffingModelModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  model: StaffingModel;
+  hasForecast: boolean;
+  onSave: (model: StaffingModel) => void;
+}
+
+// CRITICAL: Covers-per-staff ratios per position and service, used to turn forecasts into target headcounts
+const StaffingModelModal: React.FC<StaffingModelModalProps> = ({
+  isOpen,
+  onClose,
+  model,
+  hasForecast,
+  onSave
+}) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<StaffingModel>(model);
+
+  useEffect(() => {
+    if (isOpen) setDraft(model);
+  }, [isOpen, model]);
+
+  if (!isOpen) return null;
+
+  const updateRatio = (index: number, changes: Partial<StaffingRatio>) => {
+    setDraft(prev => ({
+      ...prev,
+      ratios: prev.ratios.map((ratio, i) => (i === index ? { ...ratio, ...changes } : ratio))
+    }));
+  };
+
+  const updateServiceHours = (service: StaffingService, changes: Partial<{ start: string; end: string }>) => {
+    setDraft(prev => ({
+      ...prev,
+      serviceHours: { ...prev.serviceHours, [service]: { ...prev.serviceHours[service], ...changes } }
+    }));
+  };
+
+  const handleAddRatio = () => {
+    setDraft(prev => ({
+      ...prev,
+      ratios: [...prev.ratios, { position: POSITIONS[POSITIONS.length - 1], service: 'lunch', coversPerStaff: 20, minimum: 0 }]
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <Gauge className="text-blue-600 mr-3" size={24} />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('schedule.staffing.title')}</h2>
+              <p className="text-sm text-gray-600">{t('schedule.staffing.description')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {!hasForecast && (
+            <div className="flex items-start p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800">
+              <Info size={18} className="mr-2 flex-shrink-0" />
+              {t('schedule.staffing.noForecast')}
+            </div>
+          )}
+
+          {/* Service windows and lunch/dinner split */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {STAFFING_SERVICES.map(service => (
+              <div key={service}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t(`schedule.staffing.services.${service}`)}
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={draft.serviceHours[service].start}
+                    onChange={e => updateServiceHours(service, { start: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  />
+                  <span className="text-gray-400">-</span>
+                  <input
+                    type="time"
+                    value={draft.serviceHours[service].end}
+                    onChange={e => updateServiceHours(service, { end: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  />
+                </div>
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('schedule.staffing.lunchShare')}</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(draft.lunchShare * 100)}
+                onChange={e => setDraft(prev => ({ ...prev, lunchShare: Math.min(100, Math.max(0, Number(e.target.value))) / 100 }))}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">{t('schedule.staffing.lunchShareHint')}</p>
+            </div>
+          </div>
+
+          {/* Ratios */}
+          <div>
+            <table className="w-full text-sm mb-3">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2 font-medium">{t('schedule.conflictFields.position')}</th>
+                  <th className="pb-2 font-medium">{t('schedule.staffing.service')}</th>
+                  <th className="pb-2 font-medium">{t('schedule.staffing.coversPerStaff')}</th>
+                  <th className="pb-2 font-medium">{t('schedule.staffing.minimum')}</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.ratios.map((ratio, index) => (
+                  <tr key={index} className="border-t border-gray-100">
+                    <td className="py-2 pr-2">
+                      <select
+                        value={ratio.position}
+                        onChange={e => updateRatio(index, { position: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                      >
+                        {POSITIONS.map(position => (
+                          <option key={position} value={position}>
+                            {t(`positions.${position.toLowerCase().replace(/[^a-z]/g, '')}`)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <select
+                        value={ratio.service}
+                        onChange={e => updateRatio(index, { service: e.target.value as StaffingService })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                      >
+                        {STAFFING_SERVICES.map(service => (
+                          <option key={service} value={service}>{t(`schedule.staffing.services.${service}`)}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        value={ratio.coversPerStaff}
+                        onChange={e => updateRatio(index, { coversPerStaff: Math.max(0, Number(e.target.value)) })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        value={ratio.minimum}
+                        onChange={e => updateRatio(index, { minimum: Math.max(0, Number(e.target.value)) })}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                    </td>
+                    <td className="py-2">
+                      <button
+                        onClick={() => setDraft(prev => ({ ...prev, ratios: prev.ratios.filter((_, i) => i !== index) }))}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <p className="text-xs text-gray-500 mb-3">{t('schedule.staffing.fixedHint')}</p>
+
+            <div className="flex items-center gap-4">
+              <button
+                onClick={handleAddRatio}
+                className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <Plus size={16} className="mr-1" />
+                {t('schedule.staffing.addRatio')}
+              </button>
+              <button
+                onClick={() => setDraft(staffingModelService.getDefaultModel(draft.restaurantId))}
+                className="text-sm font-medium text-gray-600 hover:text-gray-800"
+              >
+                {t('schedule.staffing.resetDefaults')}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StaffingModelModal;
@@ -7,6 +7,8 @@ import { useAppContext } from '../../contexts/AppContext';
 import { Shift, EmployeeCategory, Employee, DAILY_STATUS, POSITIONS } from '../../types';
 import { useTranslation } from 'react-i18next';
 import { calculateEmployeeWeeklySummary, formatHours, formatHoursDiff } from '../../lib/scheduleUtils';
+import { StaffingCoverage, STAFFING_SERVICES } from '../../lib/staffingModel';
+import { getHolidayName, getHolidayRegion, getPublicHoliday } from '../../lib/holidayCalendar';
 // Removed DailyEntryModal, WeatherForecast, LaborLawCompliancePanel, PDFPreviewModal imports
 // as they are now managed by SchedulePage or are not needed directly here.
 import toast from 'react-hot-toast';
@@ -27,6 +29,7 @@ interface WeeklyScheduleProps {
   onWeekSelect: (date: Date) => void;
   restaurant: any;
   viewType: 'all' | 'cuisine' | 'salle';
+  staffingCoverage?: StaffingCoverage[]; // Forecast targets vs scheduled headcount, per day/service/position
 }
 
 // Generate shift colors based on employee ID
@@ -85,7 +88,8 @@ const WeeklySchedule: React.FC<WeeklyScheduleProps> = ({
   onDuplicateWeek,
   onWeekSelect,
   restaurant,
-  viewType
+  viewType,
+  staffingCoverage = []
 }) => {
   const { t, i18n } = useTranslation();
   const { userSettings } = useAppContext(); // Use userSettings instead of settings from useAppContext
@@ -101,6 +105,7 @@ const WeeklySchedule: React.FC<WeeklyScheduleProps> = ({
 
   // CRITICAL: Days of week in French
   const daysOfWeek = ['Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi', 'Dimanche'];
+  const holidayRegion = getHolidayRegion(restaurant);
 
   // CRITICAL: Get restaurant location for weather (kept here as it's specific to WeeklySchedule's WeatherForecast)
   const getRestaurantLocation = (): string => {
@@ -269,6 +274,55 @@ const WeeklySchedule: React.FC<WeeklyScheduleProps> = ({
     );
   };
 
+  // CRITICAL: Forecast staffing cell - red when understaffed, amber when overstaffed
+  const renderStaffingCell = (day: number) => {
+    const dayCoverage = staffingCoverage.filter(c => c.day === day);
+    if (dayCoverage.length === 0) return <div className="p-2" />;
+
+    return (
+      <div className="p-2 space-y-2">
+        {STAFFING_SERVICES.map(service => {
+          const serviceCoverage = dayCoverage.filter(c => c.service === service);
+          if (serviceCoverage.length === 0) return null;
+
+          return (
+            <div key={service}>
+              <div className="text-xs text-gray-500 mb-1">
+                {t(`schedule.staffing.services.${service}`)} · {t('schedule.staffing.forecastCovers', { count: serviceCoverage[0].forecastedCovers })}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {serviceCoverage.map(coverage => (
+                  <span
+                    key={coverage.position}
+                    title={
+                      coverage.difference < 0
+                        ? t('schedule.staffing.understaffed')
+                        : coverage.difference > 0
+                          ? t('schedule.staffing.overstaffed')
+                          : undefined
+                    }
+                    className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+                      coverage.difference < 0
+                        ? 'bg-red-100 text-red-700'
+                        : coverage.difference > 0
+                          ? 'bg-amber-100 text-amber-700'
+                          : 'bg-green-100 text-green-700'
+                    }`}
+                  >
+                    {POSITIONS.includes(coverage.position)
+                      ? t(`positions.${coverage.position.toLowerCase().replace(/[^a-z]/g, '')}`)
+                      : coverage.position}{' '}
+                    {coverage.scheduled}/{coverage.headcount}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   // CRITICAL: Calculate weekly summary for employee
   const calculateWeeklySummary = (employee: Employee) => {
     const employeeShifts = shifts.filter(s => s.employeeId === employee.id);
@@ -279,7 +333,8 @@ const WeeklySchedule: React.FC<WeeklyScheduleProps> = ({
       employee.startDate,
       employee.endDate,
       weekStartDate,
-      userSettings?.payBreakTimes ?? true // Use userSettings here
+      userSettings?.payBreakTimes ?? true, // Use userSettings here
+      holidayRegion
     );
   };
 
@@ -376,12 +431,21 @@ const WeeklySchedule: React.FC<WeeklyScheduleProps> = ({
           
           {daysOfWeek.map((day, index) => {
             const date = addDays(weekStartDate, index);
+            const holiday = getPublicHoliday(date, holidayRegion);
             return (
-              <div key={day} className="p-4 font-semibold text-gray-700 text-center border-r">
+              <div
+                key={day}
+                className={`p-4 font-semibold text-center border-r ${holiday ? 'bg-red-50 text-red-700' : 'text-gray-700'}`}
+              >
                 <div className="text-base">{day}</div>
-                <div className="text-sm text-gray-500 mt-1">
-                  {format(date, "d 'juil.'", { locale: fr })}
+                <div className={`text-sm mt-1 ${holiday ? 'text-red-600' : 'text-gray-500'}`}>
+                  {format(date, 'd MMM', { locale: fr })}
                 </div>
+                {holiday && (
+                  <div className="text-xs font-medium mt-1" title={DAILY_STATUS.PUBLIC_HOLIDAY.label}>
+                    {getHolidayName(holiday, i18n.language)}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -391,6 +455,28 @@ const WeeklySchedule: React.FC<WeeklyScheduleProps> = ({
           </div>
         </div>
 
+        {/* Forecast staffing targets */}
+        {staffingCoverage.length > 0 && (
+          <div className="grid grid-cols-[200px_repeat(7,1fr)_200px] border-b bg-white">
+            <div className="p-4 bg-gray-50 border-r text-sm font-semibold text-gray-700">
+              {t('schedule.staffing.target')}
+            </div>
+            {Array.from({ length: 7 }, (_, dayIndex) => (
+              <div key={dayIndex} className="border-r">
+                {renderStaffingCell(dayIndex)}
+              </div>
+            ))}
+            <div className="p-4 bg-gray-50 text-xs text-gray-600 space-y-1">
+              <div className="text-red-700">
+                {t('schedule.staffing.understaffed')}: {staffingCoverage.filter(c => c.difference < 0).length}
+              </div>
+              <div className="text-amber-700">
+                {t('schedule.staffing.overstaffed')}: {staffingCoverage.filter(c => c.difference > 0).length}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Employee Rows */}
         {/* Removed DndContext from here, as it's in SchedulePage.tsx */}
         {employees.map(employee => {
@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Settings, Bell, Shield, Globe, Clock, Save, RotateCcw, Layout, Monitor, Cloud, MapPin, DollarSign, Fingerprint, FileText, Briefcase } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useAppContext } from '../../contexts/AppContext';
-import { TIME_INPUT_TYPES, TimeInputType, SCHEDULE_LAYOUT_TYPES, ScheduleLayoutType } from '../../types';
+import { TIME_INPUT_TYPES, TimeInputType, SCHEDULE_LAYOUT_TYPES, ScheduleLayoutType, PayrollRubric, PayrollSoftware } from '../../types';
+import { PAYROLL_EXPORTERS, PAYROLL_RUBRICS } from '../../lib/payrollExporters';
 import toast from 'react-hot-toast';
 
 const SettingsPage: React.FC = () => {
@@ -37,6 +38,15 @@ const SettingsPage: React.FC = () => {
     setHasChanges(true);
   };
 
+  // Rubric code of one software; a blank code falls back to the exporter default
+  const handleRubricCodeChange = (software: PayrollSoftware, rubric: PayrollRubric, code: string) => {
+    const mappings = localSettings.payrollRubricMappings ?? {};
+    handleSettingChange('payrollRubricMappings', {
+      ...mappings,
+      [software]: { ...mappings[software], [rubric]: code }
+    });
+  };
+
   const handleSave = async () => {
     try {
       // Fix: Pass a copy of localSettings to avoid reference issues
@@ -214,6 +224,38 @@ const SettingsPage: React.FC = () => {
                   </select>
                 </div>
 
+                <div>
+                  <label htmlFor="availabilityFreezeDays" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('settings.schedule.availabilityFreezeDays')}
+                  </label>
+                  <input
+                    type="number"
+                    id="availabilityFreezeDays"
+                    min={0}
+                    max={90}
+                    value={localSettings.availabilityFreezeDays ?? 14}
+                    onChange={(e) => handleSettingChange('availabilityFreezeDays', Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{t('settings.schedule.availabilityFreezeDaysHint')}</p>
+                </div>
+
+                <div>
+                  <label htmlFor="publicationNoticeDays" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('settings.schedule.publicationNoticeDays')}
+                  </label>
+                  <input
+                    type="number"
+                    id="publicationNoticeDays"
+                    min={0}
+                    max={30}
+                    value={localSettings.publicationNoticeDays ?? 7}
+                    onChange={(e) => handleSettingChange('publicationNoticeDays', Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">{t('settings.schedule.publicationNoticeDaysHint')}</p>
+                </div>
+
                 <div className="flex items-center">
                   <input
                     type="checkbox"
@@ -497,7 +539,7 @@ const SettingsPage: React.FC = () => {
                   <input
                     type="checkbox"
                     id="payrollValidationRequired"
-                    checked={localSettings.payrollValidationRequired || true}
+                    checked={localSettings.payrollValidationRequired ?? true}
                     onChange={(e) => handleSettingChange('payrollValidationRequired', e.target.checked)}
                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                   />
@@ -507,6 +549,41 @@ const SettingsPage: React.FC = () => {
                 </div>
               </div>
 
+              {localSettings.payrollSoftware && localSettings.payrollSoftware !== 'none' && (
+                <div className="pl-8">
+                  <h3 className="text-sm font-medium text-gray-700 mb-1">
+                    {i18n.language === 'fr'
+                      ? `Codes rubriques ${PAYROLL_EXPORTERS[localSettings.payrollSoftware].name}`
+                      : `${PAYROLL_EXPORTERS[localSettings.payrollSoftware].name} rubric codes`}
+                  </h3>
+                  <p className="text-xs text-gray-500 mb-3">
+                    {i18n.language === 'fr'
+                      ? 'Code de chaque élément variable dans votre plan de paie. Laissez vide pour garder le code proposé.'
+                      : 'Code of each variable element in your payroll plan. Leave blank to keep the suggested code.'}
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {PAYROLL_RUBRICS.map(rubric => {
+                      const software = localSettings.payrollSoftware as PayrollSoftware;
+                      return (
+                        <div key={rubric.id}>
+                          <label htmlFor={`rubric-${rubric.id}`} className="block text-xs text-gray-600 mb-1">
+                            {i18n.language === 'fr' ? rubric.label : rubric.labelEn}
+                          </label>
+                          <input
+                            id={`rubric-${rubric.id}`}
+                            type="text"
+                            value={localSettings.payrollRubricMappings?.[software]?.[rubric.id] ?? ''}
+                            onChange={(e) => handleRubricCodeChange(software, rubric.id, e.target.value)}
+                            placeholder={PAYROLL_EXPORTERS[software].defaultMapping[rubric.id]}
+                            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               <div className="pl-8 mt-2 p-4 bg-blue-50 rounded-lg border border-blue-100">
                 <p className="text-sm text-blue-700">
                   {i18n.language === 'fr' 
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Users, UserPlus, Database, Heart, Calendar } from 'lucide-react';
+import { Users, UserPlus, Database, Heart, Calendar, CalendarX, Clock, Repeat } from 'lucide-react';
 import { useAppContext } from '../../contexts/AppContext';
 import { autoSaveService } from '../../lib/autoSaveService';
 import { Employee, EmployeePreference, EmployeeAvailability } from '../../types';
@@ -8,11 +8,14 @@ import EmployeeForm from '../employees/EmployeeForm';
 import ComprehensiveDirectory from '../employees/ComprehensiveDirectory';
 import EmployeePreferencesForm from '../employees/EmployeePreferencesForm';
 import EmployeeAvailabilityForm from '../employees/EmployeeAvailabilityForm'; 
+import LeaveRequestInbox from '../employees/LeaveRequestInbox';
+import AvailabilityChangeInbox from '../employees/AvailabilityChangeInbox';
+import ShiftOfferInbox from '../employees/ShiftOfferInbox';
 import DocumentManager from '../hr/DocumentManager';
 import { useTranslation } from 'react-i18next';
 import toast from 'react-hot-toast';
 
-type StaffView = 'list' | 'directory';
+type StaffView = 'list' | 'directory' | 'leaveRequests' | 'availabilityChanges' | 'shiftOffers';
 
 const StaffPage: React.FC = () => {
   const { t, i18n } = useTranslation();
@@ -26,7 +29,10 @@ const StaffPage: React.FC = () => {
     addEmployeeAvailability,
     deleteEmployeeAvailability,
     getEmployeePreferences,
-    getEmployeeAvailabilities
+    getEmployeeAvailabilities,
+    leaveRequests,
+    availabilityChangeRequests,
+    shiftOffers
   } = useAppContext();
   
   const [showEmployeeForm, setShowEmployeeForm] = useState(false);
@@ -67,6 +73,15 @@ const StaffPage: React.FC = () => {
   const employees = currentRestaurant 
     ? getRestaurantEmployees(currentRestaurant.id)
     : [];
+  const pendingLeaveRequests = leaveRequests.filter(
+    request => request.restaurantId === currentRestaurant?.id && request.status === 'pending'
+  ).length;
+  const pendingAvailabilityChanges = availabilityChangeRequests.filter(
+    request => request.restaurantId === currentRestaurant?.id && request.status === 'pending'
+  ).length;
+  const claimedShiftOffers = shiftOffers.filter(
+    offer => offer.restaurantId === currentRestaurant?.id && offer.status === 'claimed'
+  ).length;
 
   const handleAddEmployee = () => {
     setSelectedEmployee(undefined);
@@ -291,6 +306,63 @@ const StaffPage: React.FC = () => {
                 Répertoire Complet
               </div>
             </button>
+
+            <button
+              onClick={() => setCurrentView('leaveRequests')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                currentView === 'leaveRequests'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center">
+                <CalendarX size={16} className="mr-2" />
+                {t('leaveRequests.inboxTitle')}
+                {pendingLeaveRequests > 0 && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                    {pendingLeaveRequests}
+                  </span>
+                )}
+              </div>
+            </button>
+
+            <button
+              onClick={() => setCurrentView('availabilityChanges')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                currentView === 'availabilityChanges'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center">
+                <Clock size={16} className="mr-2" />
+                {t('availabilityChanges.inboxTitle')}
+                {pendingAvailabilityChanges > 0 && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                    {pendingAvailabilityChanges}
+                  </span>
+                )}
+              </div>
+            </button>
+
+            <button
+              onClick={() => setCurrentView('shiftOffers')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                currentView === 'shiftOffers'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center">
+                <Repeat size={16} className="mr-2" />
+                {t('shiftOffers.inboxTitle')}
+                {claimedShiftOffers > 0 && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                    {claimedShiftOffers}
+                  </span>
+                )}
+              </div>
+            </button>
           </nav>
         </div>
       </div>
@@ -314,6 +386,27 @@ const StaffPage: React.FC = () => {
         />
       )}
 
+      {currentView === 'leaveRequests' && currentRestaurant && (
+        <LeaveRequestInbox
+          restaurantId={currentRestaurant.id}
+          employees={employees}
+        />
+      )}
+
+      {currentView === 'availabilityChanges' && currentRestaurant && (
+        <AvailabilityChangeInbox
+          restaurantId={currentRestaurant.id}
+          employees={employees}
+        />
+      )}
+
+      {currentView === 'shiftOffers' && currentRestaurant && (
+        <ShiftOfferInbox
+          restaurantId={currentRestaurant.id}
+          employees={employees}
+        />
+      )}
+
       {showEmployeeForm && (
         <EmployeeForm
           isOpen={showEmployeeForm}
@@ -0,0 +1,54 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QrCode } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { parseBadgePayload } from '../../lib/kioskAuthService';
+
+interface BadgeScanInputProps {
+  onScan: (badgeToken: string) => void;
+  disabled?: boolean;
+}
+
+// CRITICAL: Badge readers type the QR content followed by Enter, so the kiosk only needs a focused field
+const BadgeScanInput: React.FC<BadgeScanInputProps> = ({ onScan, disabled = false }) => {
+  const { i18n } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    if (!disabled) inputRef.current?.focus();
+  }, [disabled]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' || !value.trim()) return;
+    e.preventDefault();
+
+    // Unknown content is still submitted so the attempt is audited as an invalid badge
+    onScan(parseBadgePayload(value) ?? value.trim());
+    setValue('');
+  };
+
+  return (
+    <div className="flex flex-col items-center p-4 border-2 border-dashed border-blue-300 rounded-lg bg-blue-50">
+      <QrCode size={48} className="text-blue-500 mb-2" />
+      <p className="text-sm text-blue-800 text-center mb-3">
+        {i18n.language === 'fr'
+          ? 'Présentez votre badge QR devant le lecteur'
+          : 'Hold your QR badge in front of the reader'}
+      </p>
+      <input
+        ref={inputRef}
+        type="password"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        autoComplete="off"
+        aria-label="Badge"
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-center"
+        placeholder={i18n.language === 'fr' ? 'En attente du badge...' : 'Waiting for badge...'}
+      />
+    </div>
+  );
+};
+
+export default BadgeScanInput;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldAlert, KeyRound, QrCode, RefreshCw } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Employee, KioskAuthEvent, KioskAuthOutcome } from '../../types';
+import { kioskAuthService } from '../../lib/kioskAuthService';
+
+interface KioskAuthLogProps {
+  restaurantId: string;
+  employees: Employee[];
+}
+
+const OUTCOME_LABELS: Record<KioskAuthOutcome, { fr: string; en: string }> = {
+  success: { fr: 'Réussi', en: 'Success' },
+  invalid_pin: { fr: 'PIN invalide', en: 'Invalid PIN' },
+  invalid_badge: { fr: 'Badge inconnu', en: 'Unknown badge' },
+  no_pin: { fr: 'PIN non défini', en: 'No PIN set' },
+  locked: { fr: 'Bloqué', en: 'Locked' }
+};
+
+// CRITICAL: Every kiosk identification attempt, successful or not, for the restaurant managers
+const KioskAuthLog: React.FC<KioskAuthLogProps> = ({ restaurantId, employees }) => {
+  const { i18n } = useTranslation();
+  const [events, setEvents] = useState<KioskAuthEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [failuresOnly, setFailuresOnly] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEvents = async () => {
+      setLoading(true);
+      try {
+        const trail = await kioskAuthService.getAuditTrail(restaurantId);
+        if (!cancelled) setEvents(trail);
+      } catch (error) {
+        console.error('❌ Failed to load kiosk audit trail:', error);
+        if (!cancelled) setEvents([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, refreshKey]);
+
+  const getEmployeeName = (employeeId?: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    if (employee) return `${employee.firstName} ${employee.lastName}`;
+    return i18n.language === 'fr' ? 'Inconnu' : 'Unknown';
+  };
+
+  const visibleEvents = failuresOnly ? events.filter(event => event.outcome !== 'success') : events;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            {i18n.language === 'fr' ? 'Journal de la badgeuse' : 'Time clock access log'}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {i18n.language === 'fr'
+              ? 'Toutes les tentatives d\'identification par PIN ou badge QR'
+              : 'Every PIN or QR badge identification attempt'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={failuresOnly}
+              onChange={(e) => setFailuresOnly(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600"
+            />
+            {i18n.language === 'fr' ? 'Échecs uniquement' : 'Failures only'}
+          </label>
+          <button
+            onClick={() => setRefreshKey(key => key + 1)}
+            className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <RefreshCw size={16} className={`mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {i18n.language === 'fr' ? 'Actualiser' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {visibleEvents.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          {loading
+            ? (i18n.language === 'fr' ? 'Chargement...' : 'Loading...')
+            : (i18n.language === 'fr' ? 'Aucune tentative enregistrée' : 'No attempts recorded')}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {i18n.language === 'fr' ? 'Date' : 'Date'}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {i18n.language === 'fr' ? 'Employé' : 'Employee'}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {i18n.language === 'fr' ? 'Méthode' : 'Method'}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {i18n.language === 'fr' ? 'Résultat' : 'Outcome'}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleEvents.map(event => (
+                <tr key={event.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                    {format(parseISO(event.createdAt), 'dd/MM/yyyy HH:mm:ss', { locale: i18n.language === 'fr' ? fr : undefined })}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                    {getEmployeeName(event.employeeId)}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                    <span className="inline-flex items-center">
+                      {event.method === 'badge' ? <QrCode size={14} className="mr-1" /> : <KeyRound size={14} className="mr-1" />}
+                      {event.method === 'badge' ? (i18n.language === 'fr' ? 'Badge QR' : 'QR badge') : 'PIN'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                      event.outcome === 'success'
+                        ? 'bg-green-100 text-green-800'
+                        : event.outcome === 'locked'
+                          ? 'bg-red-100 text-red-800'
+                          : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {event.outcome === 'success' ? <ShieldCheck size={12} className="mr-1" /> : <ShieldAlert size={12} className="mr-1" />}
+                      {OUTCOME_LABELS[event.outcome][i18n.language === 'fr' ? 'fr' : 'en']}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KioskAuthLog;
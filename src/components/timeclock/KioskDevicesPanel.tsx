@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Tablet, RefreshCw, Trash2, AlertTriangle, LogIn, LogOut } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { Employee, KioskDevice } from '../../types';
+import { kioskDeviceService } from '../../lib/kioskDeviceService';
+import toast from 'react-hot-toast';
+
+interface KioskDevicesPanelProps {
+  restaurantId: string;
+  employees: Employee[];
+}
+
+// CRITICAL: Kiosk tablets of the restaurant with the punches they had not sent at their last contact
+const KioskDevicesPanel: React.FC<KioskDevicesPanelProps> = ({ restaurantId, employees }) => {
+  const { i18n } = useTranslation();
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDevices = async () => {
+      setLoading(true);
+      try {
+        const loaded = await kioskDeviceService.fetchDevices(restaurantId);
+        if (!cancelled) setDevices(loaded);
+      } catch (error) {
+        console.error('❌ Failed to load kiosk devices:', error);
+        if (!cancelled) setDevices([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadDevices();
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, refreshKey]);
+
+  const handleRemove = async (device: KioskDevice) => {
+    const confirmed = window.confirm(i18n.language === 'fr'
+      ? `Retirer « ${device.name} » de la liste ? La tablette réapparaîtra à sa prochaine connexion si elle est toujours en mode borne.`
+      : `Remove "${device.name}" from the list? The tablet shows up again at its next connection if it is still in kiosk mode.`);
+    if (!confirmed) return;
+
+    try {
+      await kioskDeviceService.removeDevice(restaurantId, device.id);
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('❌ Failed to remove kiosk device:', error);
+      toast.error(i18n.language === 'fr' ? 'Échec de la suppression' : 'Failed to remove');
+    }
+  };
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : (i18n.language === 'fr' ? 'Inconnu' : 'Unknown');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            {i18n.language === 'fr' ? 'Tablettes en mode borne' : 'Kiosk tablets'}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {i18n.language === 'fr'
+              ? 'Pointages enregistrés hors connexion et pas encore transmis, au dernier contact de chaque tablette'
+              : 'Punches recorded offline and not sent yet, as of each tablet\'s last contact'}
+          </p>
+        </div>
+        <button
+          onClick={() => setRefreshKey(key => key + 1)}
+          className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <RefreshCw size={16} className={`mr-2 ${loading ? 'animate-spin' : ''}`} />
+          {i18n.language === 'fr' ? 'Actualiser' : 'Refresh'}
+        </button>
+      </div>
+
+      {devices.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          {loading
+            ? (i18n.language === 'fr' ? 'Chargement...' : 'Loading...')
+            : (i18n.language === 'fr'
+              ? 'Aucune tablette. Activez le mode borne depuis l\'appareil à placer à l\'entrée du personnel.'
+              : 'No tablet yet. Enable kiosk mode from the device placed at the staff entrance.')}
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {devices.map(device => (
+            <li key={device.id} className="p-4">
+              <div className="flex justify-between items-start">
+                <div className="flex items-start">
+                  <Tablet size={20} className="text-blue-600 mr-3 mt-0.5" />
+                  <div>
+                    <div className="font-medium text-gray-900">{device.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {i18n.language === 'fr' ? 'Dernier contact : ' : 'Last seen: '}
+                      {format(parseISO(device.lastSeenAt), 'dd/MM/yyyy HH:mm')}
+                      {' · '}
+                      {i18n.language === 'fr' ? 'Dernière synchronisation : ' : 'Last sync: '}
+                      {device.lastSyncAt ? format(parseISO(device.lastSyncAt), 'dd/MM/yyyy HH:mm') : '-'}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    device.pendingPunches.length > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+                  }`}>
+                    {device.pendingPunches.length > 0
+                      ? (i18n.language === 'fr'
+                        ? `${device.pendingPunches.length} non synchronisé(s)`
+                        : `${device.pendingPunches.length} unsynced`)
+                      : (i18n.language === 'fr' ? 'À jour' : 'Up to date')}
+                  </span>
+                  <button
+                    onClick={() => handleRemove(device)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title={i18n.language === 'fr' ? 'Retirer' : 'Remove'}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+
+              {device.pendingPunches.length > 0 && (
+                <table className="mt-3 min-w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {device.pendingPunches.map(entry => (
+                      <tr key={entry.id}>
+                        <td className="py-1 pr-4 text-gray-900">{getEmployeeName(entry.employeeId)}</td>
+                        <td className="py-1 pr-4 text-gray-700">
+                          <span className="inline-flex items-center">
+                            {entry.type === 'in'
+                              ? <LogIn size={14} className="mr-1 text-green-600" />
+                              : <LogOut size={14} className="mr-1 text-red-600" />}
+                            {entry.type === 'in'
+                              ? (i18n.language === 'fr' ? 'Arrivée' : 'Clock in')
+                              : (i18n.language === 'fr' ? 'Départ' : 'Clock out')}
+                          </span>
+                        </td>
+                        <td className="py-1 pr-4 text-gray-700">{format(parseISO(entry.deviceTime), 'dd/MM/yyyy HH:mm:ss')}</td>
+                        <td className="py-1 text-xs">
+                          {entry.rejected && (
+                            <span className="inline-flex items-center text-red-600">
+                              <AlertTriangle size={12} className="mr-1" />
+                              {i18n.language === 'fr' ? 'Refusé : ' : 'Rejected: '}{entry.lastError}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default KioskDevicesPanel;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { X, Tablet } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { useAppContext } from '../../contexts/AppContext';
+import { kioskDeviceService } from '../../lib/kioskDeviceService';
+import { PIN_PATTERN } from '../../lib/kioskAuthService';
+import toast from 'react-hot-toast';
+
+interface KioskLockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Turns the current browser into a kiosk tablet locked to the current restaurant
+const KioskLockModal: React.FC<KioskLockModalProps> = ({ isOpen, onClose }) => {
+  const { i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { currentRestaurant, getRestaurantEmployees, schedules } = useAppContext();
+  const [name, setName] = useState(i18n.language === 'fr' ? 'Tablette entrée du personnel' : 'Staff entrance tablet');
+  const [exitCode, setExitCode] = useState('');
+  const [confirmExitCode, setConfirmExitCode] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  if (!isOpen || !currentRestaurant) return null;
+
+  const handleLock = async () => {
+    if (!PIN_PATTERN.test(exitCode)) {
+      toast.error(i18n.language === 'fr' ? 'Le code doit comporter 4 à 6 chiffres' : 'The code must be 4 to 6 digits');
+      return;
+    }
+    if (exitCode !== confirmExitCode) {
+      toast.error(i18n.language === 'fr' ? 'Les codes ne correspondent pas' : 'The codes do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await kioskDeviceService.lockDevice(currentRestaurant, name.trim() || currentRestaurant.name, exitCode, {
+        employees: getRestaurantEmployees(currentRestaurant.id),
+        schedules
+      });
+      navigate('/kiosk');
+    } catch (error) {
+      console.error('❌ Failed to enable kiosk mode:', error);
+      toast.error(i18n.language === 'fr' ? 'Échec de l\'activation du mode borne' : 'Failed to enable kiosk mode');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Tablet size={20} className="mr-2 text-blue-600" />
+            {i18n.language === 'fr' ? 'Mode borne' : 'Kiosk mode'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            {i18n.language === 'fr'
+              ? `Cet appareil deviendra la badgeuse de ${currentRestaurant.name}. Il continue de fonctionner sans connexion et transmet les pointages au retour du réseau. Le code de sortie permet de consulter les pointages en attente et de quitter le mode borne.`
+              : `This device becomes the time clock of ${currentRestaurant.name}. It keeps working without a connection and sends punches once the network is back. The exit code gives access to pending punches and leaves kiosk mode.`}
+          </p>
+
+          <div>
+            <label htmlFor="kioskName" className="block text-sm font-medium text-gray-700">
+              {i18n.language === 'fr' ? 'Nom de la tablette' : 'Tablet name'}
+            </label>
+            <input
+              type="text"
+              id="kioskName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="kioskExitCode" className="block text-sm font-medium text-gray-700">
+                {i18n.language === 'fr' ? 'Code de sortie' : 'Exit code'}
+              </label>
+              <input
+                type="password"
+                id="kioskExitCode"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={exitCode}
+                onChange={(e) => setExitCode(e.target.value.replace(/\D/g, ''))}
+                maxLength={6}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="kioskExitCodeConfirm" className="block text-sm font-medium text-gray-700">
+                {i18n.language === 'fr' ? 'Confirmer' : 'Confirm'}
+              </label>
+              <input
+                type="password"
+                id="kioskExitCodeConfirm"
+                inputMode="numeric"
+                autoComplete="new-password"
+                value={confirmExitCode}
+                onChange={(e) => setConfirmExitCode(e.target.value.replace(/\D/g, ''))}
+                maxLength={6}
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {i18n.language === 'fr' ? 'Annuler' : 'Cancel'}
+          </button>
+          <button
+            onClick={handleLock}
+            disabled={loading || !exitCode}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {i18n.language === 'fr' ? 'Activer sur cet appareil' : 'Enable on this device'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KioskLockModal;
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { X, Lock, RefreshCw, Trash2, LogOut, AlertTriangle, LogIn } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { KioskPendingPunch } from '../../types';
+import { kioskDeviceService, KioskRosterEmployee, KioskSyncState } from '../../lib/kioskDeviceService';
+import toast from 'react-hot-toast';
+
+interface KioskManagerPanelProps {
+  employees: KioskRosterEmployee[];
+  onClose: () => void;
+  onExit: () => void;
+}
+
+// CRITICAL: Manager side of a kiosk tablet, behind the exit code set when the tablet was locked
+const KioskManagerPanel: React.FC<KioskManagerPanelProps> = ({ employees, onClose, onExit }) => {
+  const { i18n } = useTranslation();
+  const [exitCode, setExitCode] = useState('');
+  const [unlocked, setUnlocked] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingPunches, setPendingPunches] = useState<KioskPendingPunch[]>([]);
+  const [syncState, setSyncState] = useState<KioskSyncState>(kioskDeviceService.getState());
+
+  useEffect(() => kioskDeviceService.subscribe(setSyncState), []);
+
+  // Reload the queue whenever a sync changes it
+  useEffect(() => {
+    if (!unlocked) return;
+    kioskDeviceService.getPendingPunches().then(setPendingPunches);
+  }, [unlocked, syncState.pendingCount, syncState.syncing]);
+
+  const handleUnlock = async () => {
+    if (await kioskDeviceService.verifyExitCode(exitCode)) {
+      setUnlocked(true);
+      setError(null);
+    } else {
+      setExitCode('');
+      setError(i18n.language === 'fr' ? 'Code incorrect' : 'Incorrect code');
+    }
+  };
+
+  const handleSync = async () => {
+    if (!syncState.isOnline) {
+      toast.error(i18n.language === 'fr' ? 'Aucune connexion' : 'No connection');
+      return;
+    }
+    await kioskDeviceService.syncNow();
+    await kioskDeviceService.refreshCache();
+  };
+
+  const handleDiscard = async (entry: KioskPendingPunch) => {
+    const confirmed = window.confirm(i18n.language === 'fr'
+      ? 'Supprimer définitivement ce pointage refusé ? Pensez à le ressaisir si besoin.'
+      : 'Permanently delete this rejected punch? Remember to enter it again if needed.');
+    if (!confirmed) return;
+    await kioskDeviceService.discardPunch(entry.id);
+  };
+
+  const handleExit = () => {
+    if (pendingPunches.length > 0) {
+      const confirmed = window.confirm(i18n.language === 'fr'
+        ? `${pendingPunches.length} pointage(s) ne sont pas encore transmis. Ils resteront sur cette tablette jusqu'à sa prochaine utilisation en mode borne. Quitter quand même ?`
+        : `${pendingPunches.length} punch(es) have not been sent yet. They stay on this tablet until it is used in kiosk mode again. Exit anyway?`);
+      if (!confirmed) return;
+    }
+    kioskDeviceService.unlockDevice();
+    onExit();
+  };
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : employeeId;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Lock size={20} className="mr-2 text-blue-600" />
+            {i18n.language === 'fr' ? 'Accès responsable' : 'Manager access'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!unlocked ? (
+          <div className="p-6 space-y-4">
+            <label htmlFor="exitCode" className="block text-sm font-medium text-gray-700">
+              {i18n.language === 'fr' ? 'Code de sortie de la borne' : 'Kiosk exit code'}
+            </label>
+            <input
+              type="password"
+              id="exitCode"
+              inputMode="numeric"
+              autoFocus
+              value={exitCode}
+              onChange={(e) => setExitCode(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              className="block w-full rounded-md border border-gray-300 px-3 py-2 focus:border-blue-500 focus:ring-blue-500"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button
+              onClick={handleUnlock}
+              disabled={!exitCode}
+              className="w-full py-2 px-4 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {i18n.language === 'fr' ? 'Valider' : 'Confirm'}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="p-4 flex flex-wrap items-center justify-between gap-2 border-b border-gray-200 text-sm">
+              <div className="text-gray-600">
+                {syncState.isOnline
+                  ? (i18n.language === 'fr' ? 'Connectée' : 'Online')
+                  : (i18n.language === 'fr' ? 'Hors connexion' : 'Offline')}
+                {' · '}
+                {i18n.language === 'fr' ? 'Dernière synchronisation : ' : 'Last sync: '}
+                {syncState.lastSynced ? format(syncState.lastSynced, 'dd/MM HH:mm') : '-'}
+              </div>
+              <button
+                onClick={handleSync}
+                disabled={syncState.syncing}
+                className="flex items-center px-3 py-2 font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw size={16} className={`mr-2 ${syncState.syncing ? 'animate-spin' : ''}`} />
+                {i18n.language === 'fr' ? 'Synchroniser' : 'Sync now'}
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                {i18n.language === 'fr' ? 'Pointages non synchronisés' : 'Unsynced punches'} ({pendingPunches.length})
+              </h3>
+              {pendingPunches.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {i18n.language === 'fr' ? 'Tous les pointages ont été transmis.' : 'All punches have been sent.'}
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {pendingPunches.map(entry => (
+                    <li key={entry.id} className="py-2 flex items-center justify-between">
+                      <div className="flex items-center">
+                        {entry.type === 'in'
+                          ? <LogIn size={16} className="mr-2 text-green-600" />
+                          : <LogOut size={16} className="mr-2 text-red-600" />}
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{getEmployeeName(entry.employeeId)}</div>
+                          <div className="text-xs text-gray-500">
+                            {entry.type === 'in'
+                              ? (i18n.language === 'fr' ? 'Arrivée' : 'Clock in')
+                              : (i18n.language === 'fr' ? 'Départ' : 'Clock out')}
+                            {' · '}
+                            {format(parseISO(entry.deviceTime), 'dd/MM/yyyy HH:mm:ss')}
+                          </div>
+                          {entry.lastError && (
+                            <div className={`text-xs flex items-center ${entry.rejected ? 'text-red-600' : 'text-yellow-700'}`}>
+                              <AlertTriangle size={12} className="mr-1" />
+                              {entry.rejected
+                                ? (i18n.language === 'fr' ? 'Refusé : ' : 'Rejected: ')
+                                : (i18n.language === 'fr' ? 'Nouvel essai prévu : ' : 'Will retry: ')}
+                              {entry.lastError}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      {entry.rejected && (
+                        <button
+                          onClick={() => handleDiscard(entry)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                          title={i18n.language === 'fr' ? 'Supprimer' : 'Delete'}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="p-4 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={handleExit}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700"
+              >
+                <LogOut size={16} className="mr-2" />
+                {i18n.language === 'fr' ? 'Quitter le mode borne' : 'Exit kiosk mode'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KioskManagerPanel;
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { FileText, Calendar, Download, Filter, Search, Clock, AlertTriangle, CheckCircle, ArrowUp, ArrowDown, Minus } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import { format, subDays, startOfWeek, endOfWeek, parseISO, differenceInMinutes, addDays } from 'date-fns';
+import { format, subDays, startOfWeek, endOfWeek, parseISO } from 'date-fns';
 import { fr } from 'date-fns/locale';
-import { Employee, Shift } from '../../types';
+import { Employee, TimeClockComparisonResult } from '../../types';
 import { useAppContext } from '../../contexts/AppContext';
+import { timeClockService, getPunchRules } from '../../lib/timeClockService';
 import toast from 'react-hot-toast';
 
 interface TimeClockComparisonProps {
@@ -12,34 +13,10 @@ interface TimeClockComparisonProps {
   employees: Employee[];
 }
 
-// Mock time clock data structure
-interface TimeClockEntry {
-  id: string;
-  employeeId: string;
-  date: string;
-  clockInTime: string;
-  clockOutTime: string;
-  totalHours: number;
-}
-
-// Comparison result structure
-interface ComparisonResult {
-  employeeId: string;
-  employeeName: string;
-  date: string;
-  plannedStart: string;
-  plannedEnd: string;
-  plannedHours: number;
-  actualStart: string;
-  actualEnd: string;
-  actualHours: number;
-  variance: number;
-  status: 'on_time' | 'late' | 'early' | 'overtime' | 'undertime' | 'missing_punch';
-}
-
 const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId, employees }) => {
   const { t, i18n } = useTranslation();
-  const { getRestaurantSchedule } = useAppContext();
+  const { schedules, restaurants } = useAppContext();
+  const restaurant = restaurants.find(r => r.id === restaurantId);
   const [dateRange, setDateRange] = useState<{ start: Date; end: Date }>({
     start: startOfWeek(new Date(), { weekStartsOn: 1 }),
     end: endOfWeek(new Date(), { weekStartsOn: 1 })
@@ -47,239 +24,35 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [comparisonResults, setComparisonResults] = useState<ComparisonResult[]>([]);
+  const [comparisonResults, setComparisonResults] = useState<TimeClockComparisonResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [sortField, setSortField] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   
-  // Get schedule data
-  const schedule = getRestaurantSchedule(restaurantId);
-  const shifts = schedule?.shifts || [];
-  
-  // Generate mock time clock data for demonstration
-  const generateMockTimeClockData = (): TimeClockEntry[] => {
-    const entries: TimeClockEntry[] = [];
-    
-    // Generate entries based on shifts with some variations
-    shifts.forEach(shift => {
-      if (!shift.start || !shift.end || shift.status) return;
-      
-      const employee = employees.find(e => e.id === shift.employeeId);
-      if (!employee) return;
-      
-      const shiftDate = addDays(dateRange.start, shift.day);
-      const dateStr = format(shiftDate, 'yyyy-MM-dd');
-      
-      // Parse shift times
-      const [startHour, startMin] = shift.start.split(':').map(Number);
-      const [endHour, endMin] = shift.end.split(':').map(Number);
-      
-      // Add random variations to create realistic scenarios
-      const variation = Math.random();
-      
-      // On time (40% chance)
-      if (variation < 0.4) {
-        entries.push({
-          id: `${shift.id}-ontime`,
-          employeeId: shift.employeeId,
-          date: dateStr,
-          clockInTime: shift.start,
-          clockOutTime: shift.end,
-          totalHours: calculateHours(shift.start, shift.end)
-        });
-      }
-      // Late arrival (20% chance)
-      else if (variation < 0.6) {
-        const lateMinutes = Math.floor(Math.random() * 20) + 5; // 5-25 minutes late
-        const newStartHour = startHour + Math.floor((startMin + lateMinutes) / 60);
-        const newStartMin = (startMin + lateMinutes) % 60;
-        const newStart = `${String(newStartHour).padStart(2, '0')}:${String(newStartMin).padStart(2, '0')}`;
-        
-        entries.push({
-          id: `${shift.id}-late`,
-          employeeId: shift.employeeId,
-          date: dateStr,
-          clockInTime: newStart,
-          clockOutTime: shift.end,
-          totalHours: calculateHours(newStart, shift.end)
-        });
-      }
-      // Early arrival (15% chance)
-      else if (variation < 0.75) {
-        const earlyMinutes = Math.floor(Math.random() * 15) + 5; // 5-20 minutes early
-        const newStartMin = startMin - earlyMinutes;
-        const newStartHour = startHour - (newStartMin < 0 ? 1 : 0);
-        const adjustedStartMin = newStartMin < 0 ? 60 + newStartMin : newStartMin;
-        const newStart = `${String(newStartHour).padStart(2, '0')}:${String(adjustedStartMin).padStart(2, '0')}`;
-        
-        entries.push({
-          id: `${shift.id}-early`,
-          employeeId: shift.employeeId,
-          date: dateStr,
-          clockInTime: newStart,
-          clockOutTime: shift.end,
-          totalHours: calculateHours(newStart, shift.end)
-        });
-      }
-      // Overtime (15% chance)
-      else if (variation < 0.9) {
-        const overtimeMinutes = Math.floor(Math.random() * 45) + 15; // 15-60 minutes overtime
-        const newEndMin = endMin + overtimeMinutes;
-        const newEndHour = endHour + Math.floor(newEndMin / 60);
-        const adjustedEndMin = newEndMin % 60;
-        const newEnd = `${String(newEndHour).padStart(2, '0')}:${String(adjustedEndMin).padStart(2, '0')}`;
-        
-        entries.push({
-          id: `${shift.id}-overtime`,
-          employeeId: shift.employeeId,
-          date: dateStr,
-          clockInTime: shift.start,
-          clockOutTime: newEnd,
-          totalHours: calculateHours(shift.start, newEnd)
-        });
-      }
-      // Missing punch (10% chance)
-      else {
-        // No entry for this shift - will be detected as missing punch
-      }
-    });
-    
-    return entries;
-  };
-  
-  // Helper function to calculate hours between two time strings
-  const calculateHours = (start: string, end: string): number => {
-    const [startHour, startMin] = start.split(':').map(Number);
-    const [endHour, endMin] = end.split(':').map(Number);
-    
-    let hours = endHour - startHour;
-    let minutes = endMin - startMin;
-    
-    // Handle overnight shifts
-    if (hours < 0) {
-      hours += 24;
-    }
-    
-    if (minutes < 0) {
-      hours -= 1;
-      minutes += 60;
-    }
-    
-    return parseFloat((hours + minutes / 60).toFixed(2));
-  };
-  
-  // Compare planned shifts with actual time clock entries
-  const compareShiftsWithTimeClockData = (
-    shifts: Shift[], 
-    timeClockEntries: TimeClockEntry[]
-  ): ComparisonResult[] => {
-    const results: ComparisonResult[] = [];
-    
-    // Process each shift
-    shifts.forEach(shift => {
-      if (!shift.start || !shift.end || shift.status) return;
-      
-      const employee = employees.find(e => e.id === shift.employeeId);
-      if (!employee) return;
-      
-      const shiftDate = addDays(dateRange.start, shift.day);
-      const dateStr = format(shiftDate, 'yyyy-MM-dd');
-      
-      // Find corresponding time clock entry
-      const entry = timeClockEntries.find(e => 
-        e.employeeId === shift.employeeId && 
-        e.date === dateStr
-      );
-      
-      if (entry) {
-        // Calculate variances
-        const plannedHours = calculateHours(shift.start, shift.end);
-        const actualHours = entry.totalHours;
-        const variance = parseFloat((actualHours - plannedHours).toFixed(2));
-        
-        // Determine status
-        let status: ComparisonResult['status'] = 'on_time';
-        
-        // Check if employee was late
-        const startDiffMinutes = getTimeDifferenceInMinutes(shift.start, entry.clockInTime);
-        if (startDiffMinutes > 5) {
-          status = 'late';
-        } else if (startDiffMinutes < -5) {
-          status = 'early';
-        }
-        
-        // Check if there was significant overtime or undertime
-        if (variance > 0.25) {
-          status = 'overtime';
-        } else if (variance < -0.25) {
-          status = 'undertime';
-        }
-        
-        results.push({
-          employeeId: employee.id,
-          employeeName: `${employee.firstName} ${employee.lastName}`,
-          date: dateStr,
-          plannedStart: shift.start,
-          plannedEnd: shift.end,
-          plannedHours,
-          actualStart: entry.clockInTime,
-          actualEnd: entry.clockOutTime,
-          actualHours,
-          variance,
-          status
-        });
-      } else {
-        // Missing time clock entry
-        results.push({
-          employeeId: employee.id,
-          employeeName: `${employee.firstName} ${employee.lastName}`,
-          date: dateStr,
-          plannedStart: shift.start,
-          plannedEnd: shift.end,
-          plannedHours: calculateHours(shift.start, shift.end),
-          actualStart: '',
-          actualEnd: '',
-          actualHours: 0,
-          variance: -calculateHours(shift.start, shift.end),
-          status: 'missing_punch'
-        });
-      }
-    });
-    
-    return results;
-  };
-  
-  // Helper function to get time difference in minutes
-  const getTimeDifferenceInMinutes = (time1: string, time2: string): number => {
-    const [hour1, minute1] = time1.split(':').map(Number);
-    const [hour2, minute2] = time2.split(':').map(Number);
-    
-    const totalMinutes1 = hour1 * 60 + minute1;
-    const totalMinutes2 = hour2 * 60 + minute2;
-    
-    return totalMinutes2 - totalMinutes1;
-  };
-  
-  // Load comparison data
+  // Load comparison data from the recorded punches
   useEffect(() => {
+    let cancelled = false;
     setLoading(true);
     
-    // Simulate API call delay
-    setTimeout(() => {
-      try {
-        const timeClockEntries = generateMockTimeClockData();
-        const results = compareShiftsWithTimeClockData(shifts, timeClockEntries);
-        setComparisonResults(results);
-      } catch (error) {
-        console.error('Error generating comparison data:', error);
+    timeClockService
+      .getComparison(restaurantId, schedules, employees, dateRange.start, dateRange.end, getPunchRules(restaurant))
+      .then(results => {
+        if (!cancelled) setComparisonResults(results);
+      })
+      .catch(error => {
+        console.error('Error loading comparison data:', error);
         toast.error(i18n.language === 'fr' 
-          ? 'Erreur lors de la génération des données de comparaison' 
-          : 'Error generating comparison data');
-      } finally {
-        setLoading(false);
-      }
-    }, 1000);
-  }, [dateRange, shifts, employees]);
+          ? 'Erreur lors du chargement des données de comparaison' 
+          : 'Error loading comparison data');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, restaurant, dateRange, schedules, employees]);
   
   // Filter comparison results
   const filteredResults = comparisonResults.filter(result => {
@@ -299,8 +72,8 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
   const sortedResults = [...filteredResults].sort((a, b) => {
     if (!sortField) return 0;
     
-    let aValue: any = a[sortField as keyof ComparisonResult];
-    let bValue: any = b[sortField as keyof ComparisonResult];
+    let aValue: any = a[sortField as keyof TimeClockComparisonResult];
+    let bValue: any = b[sortField as keyof TimeClockComparisonResult];
     
     // Handle string comparisons
     if (typeof aValue === 'string' && typeof bValue === 'string') {
@@ -376,6 +149,18 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
           bgColor: 'bg-purple-100',
           label: i18n.language === 'fr' ? 'Pointage manquant' : 'Missing punch'
         };
+      case 'in_progress':
+        return {
+          color: 'text-teal-600',
+          bgColor: 'bg-teal-100',
+          label: i18n.language === 'fr' ? 'En cours' : 'In progress'
+        };
+      case 'unscheduled':
+        return {
+          color: 'text-gray-600',
+          bgColor: 'bg-gray-200',
+          label: i18n.language === 'fr' ? 'Non planifié' : 'Unscheduled'
+        };
       default:
         return {
           color: 'text-gray-600',
@@ -459,7 +244,9 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
       early: filteredResults.filter(r => r.status === 'early').length,
       overtime: filteredResults.filter(r => r.status === 'overtime').length,
       undertime: filteredResults.filter(r => r.status === 'undertime').length,
-      missing_punch: filteredResults.filter(r => r.status === 'missing_punch').length
+      missing_punch: filteredResults.filter(r => r.status === 'missing_punch').length,
+      in_progress: filteredResults.filter(r => r.status === 'in_progress').length,
+      unscheduled: filteredResults.filter(r => r.status === 'unscheduled').length
     };
     
     return {
@@ -603,6 +390,8 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
               <option value="overtime">{i18n.language === 'fr' ? 'Heures supp.' : 'Overtime'}</option>
               <option value="undertime">{i18n.language === 'fr' ? 'Heures manquantes' : 'Undertime'}</option>
               <option value="missing_punch">{i18n.language === 'fr' ? 'Pointage manquant' : 'Missing punch'}</option>
+              <option value="in_progress">{i18n.language === 'fr' ? 'En cours' : 'In progress'}</option>
+              <option value="unscheduled">{i18n.language === 'fr' ? 'Non planifié' : 'Unscheduled'}</option>
             </select>
           </div>
         </div>
@@ -675,7 +464,7 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
           <h4 className="text-sm font-medium text-gray-700 mb-2">
             {i18n.language === 'fr' ? 'Distribution des Statuts' : 'Status Distribution'}
           </h4>
-          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+          <div className="grid grid-cols-4 md:grid-cols-8 gap-2">
             {Object.entries(summary.countByStatus).map(([status, count]) => {
               const statusInfo = getStatusInfo(status);
               return (
@@ -776,12 +565,20 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
                       <div className="text-sm text-gray-500">{formatDate(result.date)}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">
-                        {result.plannedStart} - {result.plannedEnd}
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {result.plannedHours.toFixed(2)}h
-                      </div>
+                      {result.status === 'unscheduled' || !result.plannedStart ? (
+                        <div className="text-sm text-gray-500 italic">
+                          {i18n.language === 'fr' ? 'Non planifié' : 'Not scheduled'}
+                        </div>
+                      ) : (
+                        <>
+                          <div className="text-sm text-gray-900">
+                            {result.plannedStart} - {result.plannedEnd}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {result.plannedHours.toFixed(2)}h
+                          </div>
+                        </>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {result.status === 'missing_punch' ? (
@@ -791,10 +588,15 @@ const TimeClockComparison: React.FC<TimeClockComparisonProps> = ({ restaurantId,
                       ) : (
                         <>
                           <div className="text-sm text-gray-900">
-                            {result.actualStart} - {result.actualEnd}
+                            {result.actualStart} - {result.actualEnd || (i18n.language === 'fr' ? 'en cours' : 'in progress')}
                           </div>
                           <div className="text-xs text-gray-500">
                             {result.actualHours.toFixed(2)}h
+                            {result.autoClockedOut && (
+                              <span className="ml-1 text-orange-600">
+                                ({i18n.language === 'fr' ? 'sortie auto.' : 'auto clock-out'})
+                              </span>
+                            )}
                           </div>
                         </>
                       )}
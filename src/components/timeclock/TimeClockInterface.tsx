@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Fingerprint, Clock, CheckCircle, X, User, LogIn, LogOut, AlertTriangle } from 'lucide-react';
+import { Fingerprint, CheckCircle, X, User, AlertTriangle } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { useAppContext } from '../../contexts/AppContext';
-import { Employee } from '../../types';
+import { getDatedShifts, getPunchRules } from '../../lib/timeClockService';
+import { kioskAuthService, getKioskAuthErrorMessage } from '../../lib/kioskAuthService';
+import { Employee, KioskAuthMethod } from '../../types';
 import toast from 'react-hot-toast';
 
 interface TimeClockInterfaceProps {
@@ -13,10 +15,12 @@ interface TimeClockInterfaceProps {
 }
 
 const TimeClockInterface: React.FC<TimeClockInterfaceProps> = ({ restaurantId, employees }) => {
-  const { t, i18n } = useTranslation();
+  const { i18n } = useTranslation();
+  const { schedules, restaurants } = useAppContext();
+  const punchRules = getPunchRules(restaurants.find(r => r.id === restaurantId));
   const [employeeId, setEmployeeId] = useState<string>('');
   const [pin, setPin] = useState<string>('');
-  const [step, setStep] = useState<'identify' | 'action' | 'confirmation'>('identify');
+  const [step, setStep] = useState<'identify' | 'confirmation'>('identify');
   const [currentTime, setCurrentTime] = useState<Date>(new Date());
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
   const [isClockingIn, setIsClockingIn] = useState<boolean>(true);
@@ -41,55 +45,33 @@ const TimeClockInterface: React.FC<TimeClockInterfaceProps> = ({ restaurantId, e
     return format(currentTime, 'EEEE, MMMM d, yyyy, h:mm:ss a');
   };
   
-  // Handle employee identification
-  const handleIdentify = () => {
+  // Check the PIN or badge, then continue with the identified employee
+  const authenticate = async (method: KioskAuthMethod, secret: string) => {
     setError(null);
-    
-    // For PIN-based authentication
-    if (pin) {
-      // In a real implementation, we would validate the PIN against a secure database
-      // For this demo, we'll just check if the PIN matches the employee ID
-      const employee = employees.find(e => e.id === employeeId);
-      
-      if (employee) {
-        setSelectedEmployee(employee);
-        
-        // Determine if employee is clocking in or out
-        // In a real implementation, we would check the database for the last clock action
-        // For this demo, we'll randomly decide
-        setIsClockingIn(Math.random() > 0.5);
-        
-        setStep('action');
-      } else {
-        setError(i18n.language === 'fr' 
-          ? 'Identifiant ou code PIN invalide' 
-          : 'Invalid ID or PIN');
-      }
-    } else {
-      setError(i18n.language === 'fr' 
-        ? 'Veuillez saisir votre code PIN' 
-        : 'Please enter your PIN');
-    }
-  };
-  
-  // Handle clock in/out action
-  const handleClockAction = async (action: 'in' | 'out') => {
-    if (!selectedEmployee) return;
-    
     setLoading(true);
     
     try {
-      // In a real implementation, we would save the clock action to the database
-      // For this demo, we'll just simulate a delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const result = await kioskAuthService.authenticate(
+        restaurantId,
+        method,
+        method === 'pin' ? employeeId : null,
+        secret,
+        getDatedShifts(schedules, restaurantId),
+        punchRules
+      );
+      const employee = result.outcome === 'success' ? employees.find(e => e.id === result.employeeId) : undefined;
       
-      // Record the action
-      const timestamp = new Date();
-      console.log(`Employee ${selectedEmployee.id} clocked ${action} at ${timestamp.toISOString()}`);
+      if (!employee) {
+        setPin('');
+        setError(getKioskAuthErrorMessage(result.outcome === 'success' ? { outcome: 'invalid_badge' } : result, i18n.language));
+        return;
+      }
       
-      // Show success message
+      // The punch is recorded with the identification: a clock-out if the employee had an open punch
+      const clockedIn = !result.punch?.clockOutTime;
+      const timestamp = new Date();
       toast.success(
-        action === 'in'
+        clockedIn
           ? i18n.language === 'fr'
             ? `Pointage d'arrivée enregistré à ${format(timestamp, 'HH:mm:ss')}`
             : `Clock in recorded at ${format(timestamp, 'h:mm:ss a')}`
@@ -97,19 +79,40 @@ const TimeClockInterface: React.FC<TimeClockInterfaceProps> = ({ restaurantId, e
             ? `Pointage de départ enregistré à ${format(timestamp, 'HH:mm:ss')}`
             : `Clock out recorded at ${format(timestamp, 'h:mm:ss a')}`
       );
-      
-      // Move to confirmation step
+      setIsClockingIn(clockedIn);
+      setSelectedEmployee(employee);
       setStep('confirmation');
     } catch (error) {
-      console.error('Clock action failed:', error);
+      console.error('Kiosk identification failed:', error);
       setError(i18n.language === 'fr' 
-        ? 'Échec du pointage. Veuillez réessayer.' 
-        : 'Clock action failed. Please try again.');
+        ? 'Échec de l\'identification. Veuillez réessayer.' 
+        : 'Identification failed. Please try again.');
     } finally {
       setLoading(false);
     }
   };
   
+  // Handle employee identification
+  const handleIdentify = async () => {
+    setError(null);
+    
+    if (!employeeId) {
+      setError(i18n.language === 'fr' 
+        ? 'Veuillez sélectionner un employé' 
+        : 'Please select an employee');
+      return;
+    }
+    
+    if (!pin) {
+      setError(i18n.language === 'fr' 
+        ? 'Veuillez saisir votre code PIN' 
+        : 'Please enter your PIN');
+      return;
+    }
+    
+    await authenticate('pin', pin);
+  };
+  
   // Reset the form
   const handleReset = () => {
     setEmployeeId('');
@@ -194,11 +197,6 @@ const TimeClockInterface: React.FC<TimeClockInterfaceProps> = ({ restaurantId, e
                   maxLength={6}
                   required
                 />
-                <p className="mt-1 text-xs text-gray-500">
-                  {i18n.language === 'fr' 
-                    ? 'Pour cette démo, utilisez votre ID comme PIN' 
-                    : 'For this demo, use your ID as the PIN'}
-                </p>
               </div>
               
               {/* Error Message */}
@@ -214,7 +212,7 @@ const TimeClockInterface: React.FC<TimeClockInterfaceProps> = ({ restaurantId, e
               {/* Submit Button */}
               <button
                 onClick={handleIdentify}
-                disabled={!employeeId || !pin}
+                disabled={!employeeId || !pin || loading}
                 className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <User size={18} className="mr-2" />
@@ -224,87 +222,6 @@ const TimeClockInterface: React.FC<TimeClockInterfaceProps> = ({ restaurantId, e
           </div>
         )}
         
-        {step === 'action' && selectedEmployee && (
-          <div className="max-w-md mx-auto text-center">
-            <div className="mb-6">
-              <div className="inline-flex items-center justify-center h-16 w-16 rounded-full bg-blue-100 mb-4">
-                <User size={32} className="text-blue-600" />
-              </div>
-              <h3 className="text-xl font-medium text-gray-900">
-                {selectedEmployee.firstName} {selectedEmployee.lastName}
-              </h3>
-              <p className="text-gray-500">
-                {i18n.language === 'fr' 
-                  ? t(`positions.${selectedEmployee.position.toLowerCase().replace(/[^a-z]/g, '')}`)
-                  : t(`positions.${selectedEmployee.position.toLowerCase().replace(/[^a-z]/g, '')}`)}
-              </p>
-            </div>
-            
-            <div className="grid grid-cols-2 gap-4 mb-6">
-              <button
-                onClick={() => handleClockAction('in')}
-                disabled={loading || !isClockingIn}
-                className={`py-6 px-4 rounded-lg border-2 flex flex-col items-center justify-center transition-colors ${
-                  isClockingIn
-                    ? 'border-green-500 bg-green-50 text-green-700 hover:bg-green-100'
-                    : 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
-                }`}
-              >
-                <LogIn size={32} className={isClockingIn ? 'text-green-500' : 'text-gray-400'} />
-                <span className="mt-2 font-medium">
-                  {i18n.language === 'fr' ? 'Arrivée' : 'Clock In'}
-                </span>
-                <span className="text-xs mt-1">
-                  {format(currentTime, 'HH:mm:ss')}
-                </span>
-              </button>
-              
-              <button
-                onClick={() => handleClockAction('out')}
-                disabled={loading || isClockingIn}
-                className={`py-6 px-4 rounded-lg border-2 flex flex-col items-center justify-center transition-colors ${
-                  !isClockingIn
-                    ? 'border-red-500 bg-red-50 text-red-700 hover:bg-red-100'
-                    : 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
-                }`}
-              >
-                <LogOut size={32} className={!isClockingIn ? 'text-red-500' : 'text-gray-400'} />
-                <span className="mt-2 font-medium">
-                  {i18n.language === 'fr' ? 'Départ' : 'Clock Out'}
-                </span>
-                <span className="text-xs mt-1">
-                  {format(currentTime, 'HH:mm:ss')}
-                </span>
-              </button>
-            </div>
-            
-            {/* Status Message */}
-            <div className="p-3 bg-blue-50 rounded-md text-left">
-              <div className="flex">
-                <Clock className="h-5 w-5 text-blue-400" />
-                <p className="ml-2 text-sm text-blue-700">
-                  {isClockingIn
-                    ? i18n.language === 'fr'
-                      ? 'Vous êtes prêt à pointer votre arrivée.'
-                      : 'You are ready to clock in.'
-                    : i18n.language === 'fr'
-                      ? 'Vous êtes prêt à pointer votre départ.'
-                      : 'You are ready to clock out.'
-                  }
-                </p>
-              </div>
-            </div>
-            
-            {/* Cancel Button */}
-            <button
-              onClick={handleReset}
-              className="mt-4 text-sm text-gray-500 hover:text-gray-700"
-            >
-              {i18n.language === 'fr' ? 'Annuler' : 'Cancel'}
-            </button>
-          </div>
-        )}
-        
         {step === 'confirmation' && selectedEmployee && (
           <div className="max-w-md mx-auto text-center">
             <div className="mb-6">
@@ -1,19 +1,23 @@
 import React, { useState, useEffect } from 'react';
-import { Fingerprint, Clock, Users, Calendar, AlertTriangle, CheckCircle, FileText, Settings } from 'lucide-react';
+import { Fingerprint, Clock, Users, Calendar, AlertTriangle, CheckCircle, FileText, Settings, Tablet } from 'lucide-react';
 import { useAppContext } from '../../contexts/AppContext';
+import { useAuth } from '../../contexts/AuthContext';
 import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import TimeClockWidget from './TimeClockWidget';
 import TimeClockReport from './TimeClockReport';
+import KioskLockModal from './KioskLockModal';
 import toast from 'react-hot-toast';
 
 const TimeClockPage: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { currentRestaurant, getRestaurantEmployees, updateSettings } = useAppContext();
+  const { can } = useAuth();
   // TEMPORARY: Force time clock to be enabled
   const userSettings = { timeClockEnabled: true };
   const [activeTab, setActiveTab] = useState<'clock' | 'report'>('clock');
+  const [showKioskLock, setShowKioskLock] = useState(false);
 
   // Get employees for the current restaurant
   const employees = currentRestaurant ? getRestaurantEmployees(currentRestaurant.id) : [];
@@ -33,6 +37,15 @@ const TimeClockPage: React.FC = () => {
         </div>
         
         <div className="flex gap-3">
+          {currentRestaurant && can('employees:manage', currentRestaurant.id) && (
+            <button
+              onClick={() => setShowKioskLock(true)}
+              className="px-4 py-2 flex items-center gap-2 rounded-lg border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            >
+              <Tablet size={18} />
+              {i18n.language === 'fr' ? 'Mode borne' : 'Kiosk mode'}
+            </button>
+          )}
           <div className="flex rounded-lg border border-gray-300 overflow-hidden">
             <button
               onClick={() => setActiveTab('clock')}
@@ -82,6 +95,11 @@ const TimeClockPage: React.FC = () => {
         </>
       )}
 
+      <KioskLockModal
+        isOpen={showKioskLock}
+        onClose={() => setShowKioskLock(false)}
+      />
+
       {/* Information Panel */}
       <div className="mt-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
         <div className="flex items-start">
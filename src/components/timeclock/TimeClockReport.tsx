@@ -6,6 +6,9 @@ import { fr } from 'date-fns/locale';
 import { Employee } from '../../types';
 import TimeClockComparison from './TimeClockComparison';
 import TimeClockSummary from './TimeClockSummary';
+import KioskAuthLog from './KioskAuthLog';
+import KioskDevicesPanel from './KioskDevicesPanel';
+import TimesheetApproval from './TimesheetApproval';
 
 interface TimeClockReportProps {
   restaurantId: string;
@@ -14,7 +17,7 @@ interface TimeClockReportProps {
 
 const TimeClockReport: React.FC<TimeClockReportProps> = ({ restaurantId, employees }) => {
   const { t, i18n } = useTranslation();
-  const [activeTab, setActiveTab] = useState<'summary' | 'comparison'>('comparison');
+  const [activeTab, setActiveTab] = useState<'summary' | 'comparison' | 'timesheets' | 'access' | 'devices'>('comparison');
 
   return (
     <div className="space-y-6">
@@ -40,6 +43,36 @@ const TimeClockReport: React.FC<TimeClockReportProps> = ({ restaurantId, employe
         >
           {i18n.language === 'fr' ? 'Comparaison Prévu vs. Réel' : 'Planned vs. Actual Comparison'}
         </button>
+        <button
+          className={`px-6 py-3 text-sm font-medium border-b-2 ${
+            activeTab === 'timesheets'
+              ? 'border-blue-500 text-blue-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+          }`}
+          onClick={() => setActiveTab('timesheets')}
+        >
+          {i18n.language === 'fr' ? 'Feuilles de temps' : 'Timesheets'}
+        </button>
+        <button
+          className={`px-6 py-3 text-sm font-medium border-b-2 ${
+            activeTab === 'access'
+              ? 'border-blue-500 text-blue-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+          }`}
+          onClick={() => setActiveTab('access')}
+        >
+          {i18n.language === 'fr' ? 'Journal Badgeuse' : 'Access Log'}
+        </button>
+        <button
+          className={`px-6 py-3 text-sm font-medium border-b-2 ${
+            activeTab === 'devices'
+              ? 'border-blue-500 text-blue-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+          }`}
+          onClick={() => setActiveTab('devices')}
+        >
+          {i18n.language === 'fr' ? 'Tablettes' : 'Kiosk tablets'}
+        </button>
       </div>
 
       {/* Active Tab Content */}
@@ -48,11 +81,26 @@ const TimeClockReport: React.FC<TimeClockReportProps> = ({ restaurantId, employe
           restaurantId={restaurantId}
           employees={employees}
         />
-      ) : (
+      ) : activeTab === 'comparison' ? (
         <TimeClockComparison 
           restaurantId={restaurantId}
           employees={employees}
         />
+      ) : activeTab === 'timesheets' ? (
+        <TimesheetApproval
+          restaurantId={restaurantId}
+          employees={employees}
+        />
+      ) : activeTab === 'access' ? (
+        <KioskAuthLog
+          restaurantId={restaurantId}
+          employees={employees}
+        />
+      ) : (
+        <KioskDevicesPanel
+          restaurantId={restaurantId}
+          employees={employees}
+        />
       )}
     </div>
   );
@@ -1,31 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { Fingerprint, Clock, User, LogIn, LogOut, AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { Fingerprint, User, AlertTriangle, CheckCircle, KeyRound, QrCode, Wifi, WifiOff, Settings } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
-import { Employee } from '../../types';
+import { KioskAuthMethod } from '../../types';
+import { kioskDeviceService, KioskRosterEmployee, KioskSyncState } from '../../lib/kioskDeviceService';
+import { getKioskAuthErrorMessage } from '../../lib/kioskAuthService';
+import BadgeScanInput from './BadgeScanInput';
 import toast from 'react-hot-toast';
 
 interface TimeClockStandaloneProps {
-  restaurantId: string;
   restaurantName: string;
-  employees: Employee[];
+  employees: KioskRosterEmployee[];
+  onManagerAccess?: () => void;
 }
 
+// CRITICAL: Kiosk screen of a tablet locked to one restaurant - works from the tablet's cache when offline
 const TimeClockStandalone: React.FC<TimeClockStandaloneProps> = ({ 
-  restaurantId, 
   restaurantName,
-  employees 
+  employees,
+  onManagerAccess
 }) => {
-  const { t, i18n } = useTranslation();
+  const { i18n } = useTranslation();
   const [currentTime, setCurrentTime] = useState<Date>(new Date());
   const [employeeId, setEmployeeId] = useState<string>('');
   const [pin, setPin] = useState<string>('');
-  const [step, setStep] = useState<'identify' | 'action' | 'confirmation'>('identify');
-  const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [step, setStep] = useState<'identify' | 'confirmation'>('identify');
+  const [selectedEmployee, setSelectedEmployee] = useState<KioskRosterEmployee | null>(null);
   const [isClockingIn, setIsClockingIn] = useState<boolean>(true);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [authMethod, setAuthMethod] = useState<KioskAuthMethod>('pin');
+  const [syncState, setSyncState] = useState<KioskSyncState>(kioskDeviceService.getState());
+  
+  useEffect(() => kioskDeviceService.subscribe(setSyncState), []);
   
   // Update current time every second
   useEffect(() => {
@@ -62,62 +70,30 @@ const TimeClockStandalone: React.FC<TimeClockStandaloneProps> = ({
     setError(null);
   };
   
-  // Handle employee identification
-  const handleIdentify = () => {
+  // Check the PIN or badge, then continue with the identified employee
+  const authenticate = async (method: KioskAuthMethod, secret: string) => {
     setError(null);
-    
-    if (!employeeId) {
-      setError(i18n.language === 'fr' 
-        ? 'Veuillez sélectionner un employé' 
-        : 'Please select an employee');
-      return;
-    }
-    
-    if (!pin) {
-      setError(i18n.language === 'fr' 
-        ? 'Veuillez saisir votre code PIN' 
-        : 'Please enter your PIN');
-      return;
-    }
-    
-    // For demo purposes, we'll just check if the PIN matches the employee ID
-    // In a real implementation, we would validate against a secure database
-    const employee = employees.find(e => e.id === employeeId);
-    
-    if (employee) {
-      setSelectedEmployee(employee);
-      
-      // Determine if employee is clocking in or out
-      // In a real implementation, we would check the database for the last clock action
-      // For this demo, we'll randomly decide
-      setIsClockingIn(Math.random() > 0.5);
-      
-      setStep('action');
-    } else {
-      setError(i18n.language === 'fr' 
-        ? 'Identifiant ou code PIN invalide' 
-        : 'Invalid ID or PIN');
-    }
-  };
-  
-  // Handle clock in/out action
-  const handleClockAction = async (action: 'in' | 'out') => {
-    if (!selectedEmployee) return;
-    
     setLoading(true);
     
     try {
-      // In a real implementation, we would save the clock action to the database
-      // For this demo, we'll just simulate a delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const result = await kioskDeviceService.authenticate(method, method === 'pin' ? employeeId : null, secret);
+      const employee = result.outcome === 'success' ? employees.find(e => e.id === result.employeeId) : undefined;
       
-      // Record the action
-      const timestamp = new Date();
-      console.log(`Employee ${selectedEmployee.id} clocked ${action} at ${timestamp.toISOString()}`);
+      if (!employee) {
+        setPin('');
+        setError(result.outcome === 'no_pin' && !syncState.isOnline
+          ? i18n.language === 'fr'
+            ? 'Hors connexion, seuls les PIN déjà utilisés sur cette tablette sont reconnus. Utilisez votre badge QR.'
+            : 'Offline, only PINs already used on this tablet are recognized. Please use your QR badge.'
+          : getKioskAuthErrorMessage(result.outcome === 'success' ? { outcome: 'invalid_badge' } : result, i18n.language));
+        return;
+      }
       
-      // Show success message
+      // The punch is recorded with the identification: a clock-out if the employee had an open punch
+      const clockedIn = !result.punch?.clockOutTime;
+      const timestamp = new Date();
       toast.success(
-        action === 'in'
+        clockedIn
           ? i18n.language === 'fr'
             ? `Pointage d'arrivée enregistré à ${format(timestamp, 'HH:mm:ss')}`
             : `Clock in recorded at ${format(timestamp, 'h:mm:ss a')}`
@@ -125,19 +101,40 @@ const TimeClockStandalone: React.FC<TimeClockStandaloneProps> = ({
             ? `Pointage de départ enregistré à ${format(timestamp, 'HH:mm:ss')}`
             : `Clock out recorded at ${format(timestamp, 'h:mm:ss a')}`
       );
-      
-      // Move to confirmation step
+      setIsClockingIn(clockedIn);
+      setSelectedEmployee(employee);
       setStep('confirmation');
     } catch (error) {
-      console.error('Clock action failed:', error);
+      console.error('Kiosk identification failed:', error);
       setError(i18n.language === 'fr' 
-        ? 'Échec du pointage. Veuillez réessayer.' 
-        : 'Clock action failed. Please try again.');
+        ? 'Échec de l\'identification. Veuillez réessayer.' 
+        : 'Identification failed. Please try again.');
     } finally {
       setLoading(false);
     }
   };
   
+  // Handle employee identification
+  const handleIdentify = async () => {
+    setError(null);
+    
+    if (!employeeId) {
+      setError(i18n.language === 'fr' 
+        ? 'Veuillez sélectionner un employé' 
+        : 'Please select an employee');
+      return;
+    }
+    
+    if (!pin) {
+      setError(i18n.language === 'fr' 
+        ? 'Veuillez saisir votre code PIN' 
+        : 'Please enter your PIN');
+      return;
+    }
+    
+    await authenticate('pin', pin);
+  };
+  
   return (
     <div className="min-h-screen bg-gray-100 flex flex-col">
       {/* Header */}
@@ -152,9 +149,33 @@ const TimeClockStandalone: React.FC<TimeClockStandaloneProps> = ({
               <p className="text-blue-100 text-sm">{restaurantName}</p>
             </div>
           </div>
-          <div className="text-right">
-            <div className="text-2xl font-mono font-bold">{formattedTime()}</div>
-            <div className="text-sm opacity-80">{formattedDate()}</div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <div className="text-2xl font-mono font-bold">{formattedTime()}</div>
+              <div className="text-sm opacity-80">{formattedDate()}</div>
+              <div className="flex items-center justify-end text-xs mt-1">
+                {syncState.isOnline ? <Wifi size={14} className="mr-1" /> : <WifiOff size={14} className="mr-1 text-yellow-300" />}
+                {syncState.isOnline
+                  ? (i18n.language === 'fr' ? 'En ligne' : 'Online')
+                  : (i18n.language === 'fr' ? 'Hors ligne' : 'Offline')}
+                {syncState.pendingCount > 0 && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full bg-yellow-400 text-yellow-900 font-medium">
+                    {i18n.language === 'fr'
+                      ? `${syncState.pendingCount} en attente`
+                      : `${syncState.pendingCount} pending`}
+                  </span>
+                )}
+              </div>
+            </div>
+            {onManagerAccess && (
+              <button
+                onClick={onManagerAccess}
+                className="p-2 rounded-full hover:bg-blue-700"
+                title={i18n.language === 'fr' ? 'Accès responsable' : 'Manager access'}
+              >
+                <Settings size={20} />
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -169,49 +190,74 @@ const TimeClockStandalone: React.FC<TimeClockStandaloneProps> = ({
                   {i18n.language === 'fr' ? 'Identifiez-vous' : 'Identify Yourself'}
                 </h2>
                 
-                {/* Employee Selection */}
-                <div>
-                  <label htmlFor="employeeId" className="block text-sm font-medium text-gray-700 mb-1">
-                    {i18n.language === 'fr' ? 'Employé' : 'Employee'}
-                  </label>
-                  <select
-                    id="employeeId"
-                    value={employeeId}
-                    onChange={(e) => setEmployeeId(e.target.value)}
-                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                {/* Identification method */}
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => { setAuthMethod('pin'); setError(null); }}
+                    className={`flex items-center justify-center py-2 rounded-md border text-sm font-medium ${
+                      authMethod === 'pin' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
                   >
-                    <option value="">
-                      {i18n.language === 'fr' ? '-- Sélectionnez votre nom --' : '-- Select your name --'}
-                    </option>
-                    {employees.map(employee => (
-                      <option key={employee.id} value={employee.id}>
-                        {employee.firstName} {employee.lastName}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-                
-                {/* PIN Entry */}
-                <div>
-                  <label htmlFor="pin" className="block text-sm font-medium text-gray-700 mb-1">
+                    <KeyRound size={16} className="mr-2" />
                     {i18n.language === 'fr' ? 'Code PIN' : 'PIN Code'}
-                  </label>
-                  <input
-                    type="password"
-                    id="pin"
-                    value={pin}
-                    onChange={(e) => setPin(e.target.value)}
-                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                    placeholder={i18n.language === 'fr' ? 'Entrez votre code PIN' : 'Enter your PIN'}
-                    maxLength={6}
-                  />
-                  <p className="mt-1 text-xs text-gray-500">
-                    {i18n.language === 'fr' 
-                      ? 'Pour cette démo, utilisez votre ID comme PIN' 
-                      : 'For this demo, use your ID as the PIN'}
-                  </p>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setAuthMethod('badge'); setError(null); }}
+                    className={`flex items-center justify-center py-2 rounded-md border text-sm font-medium ${
+                      authMethod === 'badge' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    <QrCode size={16} className="mr-2" />
+                    {i18n.language === 'fr' ? 'Badge QR' : 'QR Badge'}
+                  </button>
                 </div>
                 
+                {authMethod === 'badge' ? (
+                  <BadgeScanInput onScan={(badgeToken) => authenticate('badge', badgeToken)} disabled={loading} />
+                ) : (
+                  <>
+                    {/* Employee Selection */}
+                    <div>
+                      <label htmlFor="employeeId" className="block text-sm font-medium text-gray-700 mb-1">
+                        {i18n.language === 'fr' ? 'Employé' : 'Employee'}
+                      </label>
+                      <select
+                        id="employeeId"
+                        value={employeeId}
+                        onChange={(e) => setEmployeeId(e.target.value)}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        <option value="">
+                          {i18n.language === 'fr' ? '-- Sélectionnez votre nom --' : '-- Select your name --'}
+                        </option>
+                        {employees.map(employee => (
+                          <option key={employee.id} value={employee.id}>
+                            {employee.firstName} {employee.lastName}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    
+                    {/* PIN Entry */}
+                    <div>
+                      <label htmlFor="pin" className="block text-sm font-medium text-gray-700 mb-1">
+                        {i18n.language === 'fr' ? 'Code PIN' : 'PIN Code'}
+                      </label>
+                      <input
+                        type="password"
+                        id="pin"
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value)}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        placeholder={i18n.language === 'fr' ? 'Entrez votre code PIN' : 'Enter your PIN'}
+                        maxLength={6}
+                      />
+                    </div>
+                  </>
+                )}
+                
                 {/* Error Message */}
                 {error && (
                   <div className="p-3 bg-red-50 rounded-md">
@@ -223,95 +269,16 @@ const TimeClockStandalone: React.FC<TimeClockStandaloneProps> = ({
                 )}
                 
                 {/* Submit Button */}
-                <button
-                  onClick={handleIdentify}
-                  className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  <User size={18} className="mr-2" />
-                  {i18n.language === 'fr' ? 'S\'identifier' : 'Identify'}
-                </button>
-              </div>
-            )}
-            
-            {step === 'action' && selectedEmployee && (
-              <div className="space-y-6">
-                <div className="text-center">
-                  <div className="inline-flex items-center justify-center h-20 w-20 rounded-full bg-blue-100 mb-4">
-                    <User size={40} className="text-blue-600" />
-                  </div>
-                  <h2 className="text-2xl font-bold text-gray-900">
-                    {selectedEmployee.firstName} {selectedEmployee.lastName}
-                  </h2>
-                  <p className="text-gray-500">
-                    {i18n.language === 'fr' 
-                      ? t(`positions.${selectedEmployee.position.toLowerCase().replace(/[^a-z]/g, '')}`)
-                      : t(`positions.${selectedEmployee.position.toLowerCase().replace(/[^a-z]/g, '')}`)}
-                  </p>
-                </div>
-                
-                <div className="grid grid-cols-2 gap-6">
+                {authMethod === 'pin' && (
                   <button
-                    onClick={() => handleClockAction('in')}
-                    disabled={loading || !isClockingIn}
-                    className={`py-8 px-4 rounded-lg border-2 flex flex-col items-center justify-center transition-colors ${
-                      isClockingIn
-                        ? 'border-green-500 bg-green-50 text-green-700 hover:bg-green-100'
-                        : 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
-                    }`}
+                    onClick={handleIdentify}
+                    disabled={loading}
+                    className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
                   >
-                    <LogIn size={40} className={isClockingIn ? 'text-green-500' : 'text-gray-400'} />
-                    <span className="mt-3 font-bold text-lg">
-                      {i18n.language === 'fr' ? 'Arrivée' : 'Clock In'}
-                    </span>
-                    <span className="text-sm mt-1">
-                      {format(currentTime, 'HH:mm:ss')}
-                    </span>
-                  </button>
-                  
-                  <button
-                    onClick={() => handleClockAction('out')}
-                    disabled={loading || isClockingIn}
-                    className={`py-8 px-4 rounded-lg border-2 flex flex-col items-center justify-center transition-colors ${
-                      !isClockingIn
-                        ? 'border-red-500 bg-red-50 text-red-700 hover:bg-red-100'
-                        : 'border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed'
-                    }`}
-                  >
-                    <LogOut size={40} className={!isClockingIn ? 'text-red-500' : 'text-gray-400'} />
-                    <span className="mt-3 font-bold text-lg">
-                      {i18n.language === 'fr' ? 'Départ' : 'Clock Out'}
-                    </span>
-                    <span className="text-sm mt-1">
-                      {format(currentTime, 'HH:mm:ss')}
-                    </span>
+                    <User size={18} className="mr-2" />
+                    {i18n.language === 'fr' ? 'S\'identifier' : 'Identify'}
                   </button>
-                </div>
-                
-                {/* Status Message */}
-                <div className="p-4 bg-blue-50 rounded-md">
-                  <div className="flex items-start">
-                    <Clock className="h-5 w-5 text-blue-400 mt-0.5" />
-                    <p className="ml-3 text-sm text-blue-700">
-                      {isClockingIn
-                        ? i18n.language === 'fr'
-                          ? 'Vous êtes prêt à pointer votre arrivée. Cliquez sur le bouton "Arrivée" pour confirmer.'
-                          : 'You are ready to clock in. Click the "Clock In" button to confirm.'
-                        : i18n.language === 'fr'
-                          ? 'Vous êtes prêt à pointer votre départ. Cliquez sur le bouton "Départ" pour confirmer.'
-                          : 'You are ready to clock out. Click the "Clock Out" button to confirm.'
-                      }
-                    </p>
-                  </div>
-                </div>
-                
-                {/* Cancel Button */}
-                <button
-                  onClick={resetForm}
-                  className="w-full text-sm text-gray-500 hover:text-gray-700 flex items-center justify-center"
-                >
-                  <X size={16} className="mr-1" />
-                  {i18n.language === 'fr' ? 'Annuler' : 'Cancel'}
-                </button>
+                )}
               </div>
             )}
             
@@ -334,6 +301,13 @@ const TimeClockStandalone: React.FC<TimeClockStandaloneProps> = ({
                         : `Clock out recorded at ${format(currentTime, 'h:mm:ss a')}`
                     }
                   </p>
+                  {!syncState.isOnline && (
+                    <p className="mt-2 text-sm text-yellow-700">
+                      {i18n.language === 'fr'
+                        ? 'Enregistré sur la tablette, il sera transmis au retour de la connexion.'
+                        : 'Saved on the tablet, it will be sent when the connection is back.'}
+                    </p>
+                  )}
                 </div>
                 
                 {/* Employee Info */}
@@ -4,6 +4,8 @@ import { useTranslation } from 'react-i18next';
 import { format, subDays, startOfWeek, endOfWeek } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { Employee, TimeClockSummary as TimeClockSummaryType } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { timeClockService, getPunchRules } from '../../lib/timeClockService';
 import toast from 'react-hot-toast';
 
 interface TimeClockSummaryProps {
@@ -13,6 +15,8 @@ interface TimeClockSummaryProps {
 
 const TimeClockSummary: React.FC<TimeClockSummaryProps> = ({ restaurantId, employees }) => {
   const { t, i18n } = useTranslation();
+  const { schedules, restaurants } = useAppContext();
+  const restaurant = restaurants.find(r => r.id === restaurantId);
   const [dateRange, setDateRange] = useState<{ start: Date; end: Date }>({
     start: startOfWeek(new Date(), { weekStartsOn: 1 }),
     end: endOfWeek(new Date(), { weekStartsOn: 1 })
@@ -22,73 +26,30 @@ const TimeClockSummary: React.FC<TimeClockSummaryProps> = ({ restaurantId, emplo
   const [summaries, setSummaries] = useState<TimeClockSummaryType[]>([]);
   const [loading, setLoading] = useState(true);
   
-  // Generate mock data for demonstration
+  // Load daily totals from the recorded punches
   useEffect(() => {
+    let cancelled = false;
     setLoading(true);
     
-    // Simulate API call delay
-    setTimeout(() => {
-      try {
-        const mockSummaries: TimeClockSummaryType[] = [];
-        
-        // Generate data for each employee
-        employees.forEach(employee => {
-          // Generate data for each day in the date range
-          let currentDate = new Date(dateRange.start);
-          while (currentDate <= dateRange.end) {
-            // Skip weekends for some employees to make data more realistic
-            const dayOfWeek = currentDate.getDay();
-            if ((dayOfWeek === 0 || dayOfWeek === 6) && Math.random() > 0.3) {
-              currentDate = new Date(currentDate.setDate(currentDate.getDate() + 1));
-              continue;
-            }
-            
-            // Generate random data
-            const scheduledHours = 8;
-            const variation = (Math.random() - 0.5) * 2; // -1 to +1 hours
-            const totalHours = Math.max(0, scheduledHours + variation);
-            const difference = totalHours - scheduledHours;
-            
-            // Determine status
-            let status: 'on_time' | 'late' | 'early' | 'overtime' | 'undertime';
-            if (Math.abs(difference) < 0.25) {
-              status = 'on_time';
-            } else if (difference > 0) {
-              status = 'overtime';
-            } else {
-              status = 'undertime';
-            }
-            
-            // Add random late/early status
-            if (Math.random() < 0.2) {
-              status = Math.random() < 0.5 ? 'late' : 'early';
-            }
-            
-            mockSummaries.push({
-              employeeId: employee.id,
-              employeeName: `${employee.firstName} ${employee.lastName}`,
-              date: format(currentDate, 'yyyy-MM-dd'),
-              totalHours,
-              scheduledHours,
-              difference,
-              status
-            });
-            
-            currentDate = new Date(currentDate.setDate(currentDate.getDate() + 1));
-          }
-        });
-        
-        setSummaries(mockSummaries);
-      } catch (error) {
-        console.error('Error generating mock data:', error);
+    timeClockService
+      .getDailySummaries(restaurantId, schedules, employees, dateRange.start, dateRange.end, getPunchRules(restaurant))
+      .then(dailySummaries => {
+        if (!cancelled) setSummaries(dailySummaries);
+      })
+      .catch(error => {
+        console.error('Error loading time clock summaries:', error);
         toast.error(i18n.language === 'fr' 
-          ? 'Erreur lors de la génération des données' 
-          : 'Error generating data');
-      } finally {
-        setLoading(false);
-      }
-    }, 1000);
-  }, [dateRange, employees]);
+          ? 'Erreur lors du chargement des données' 
+          : 'Error loading data');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, restaurant, dateRange, schedules, employees]);
   
   // Filter summaries based on search and employee selection
   const filteredSummaries = summaries.filter(summary => {
@@ -0,0 +1,489 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Lock, Send, CheckCircle, XCircle, RotateCcw, Edit2, History } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { format, addDays, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { DAILY_STATUS, Employee, Timesheet, TimesheetAuditEntry, TimesheetLine, TimesheetStatus } from '../../types';
+import { useAppContext } from '../../contexts/AppContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { timesheetService, getRetainedHours, getTimesheetWeekStart } from '../../lib/timesheetService';
+import { getPunchRules } from '../../lib/timeClockService';
+import toast from 'react-hot-toast';
+
+interface TimesheetApprovalProps {
+  restaurantId: string;
+  employees: Employee[];
+}
+
+interface LineAdjustmentDraft {
+  timesheetId: string;
+  lineId: string;
+  hours: string;
+  reason: string;
+}
+
+// CRITICAL: Weekly timesheets - review clocked hours, adjust lines with a reason, then submit, approve and lock for payroll
+const TimesheetApproval: React.FC<TimesheetApprovalProps> = ({ restaurantId, employees }) => {
+  const { i18n } = useTranslation();
+  const { schedules, restaurants } = useAppContext();
+  const restaurant = restaurants.find(r => r.id === restaurantId);
+  const { user, can } = useAuth();
+  const [weekStartDate, setWeekStartDate] = useState(() => getTimesheetWeekStart(new Date()));
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [auditLog, setAuditLog] = useState<TimesheetAuditEntry[]>([]);
+  const [adjustment, setAdjustment] = useState<LineAdjustmentDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const canApprove = can('timesheets:approve', restaurantId);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    timesheetService
+      .prepareWeek(restaurantId, weekStartDate, employees, schedules, user?.id, getPunchRules(restaurant))
+      .then(loaded => {
+        if (!cancelled) setTimesheets(loaded);
+      })
+      .catch(error => {
+        console.error('❌ Failed to load timesheets:', error);
+        toast.error(i18n.language === 'fr'
+          ? 'Erreur lors du chargement des feuilles de temps'
+          : 'Error loading timesheets');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, restaurant, weekStartDate, schedules, employees, user?.id, i18n.language]);
+
+  // Audit log of the expanded timesheet
+  useEffect(() => {
+    const expanded = timesheets.find(t => t.id === expandedId);
+    if (!expanded) {
+      setAuditLog([]);
+      return;
+    }
+    timesheetService.getAuditLog(expanded).then(setAuditLog).catch(error => {
+      console.error('❌ Failed to load timesheet audit log:', error);
+    });
+  }, [expandedId, timesheets]);
+
+  const replaceTimesheet = (updated: Timesheet) => {
+    setTimesheets(prev => prev.map(t => t.id === updated.id ? updated : t));
+  };
+
+  const runAction = async (action: () => Promise<Timesheet>, successMessage: string): Promise<boolean> => {
+    setBusy(true);
+    try {
+      replaceTimesheet(await action());
+      toast.success(successMessage);
+      return true;
+    } catch (error) {
+      console.error('❌ Timesheet action failed:', error);
+      toast.error(error instanceof Error ? error.message : String(error));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (timesheet: Timesheet) => runAction(
+    () => timesheetService.submit(timesheet, user?.id),
+    i18n.language === 'fr' ? 'Feuille de temps soumise' : 'Timesheet submitted'
+  );
+
+  const handleApprove = (timesheet: Timesheet) => runAction(
+    () => timesheetService.approve(timesheet, user?.id),
+    i18n.language === 'fr' ? 'Feuille de temps approuvée' : 'Timesheet approved'
+  );
+
+  const handleLock = (timesheet: Timesheet) => {
+    const confirmed = window.confirm(i18n.language === 'fr'
+      ? 'Verrouiller cette feuille de temps ? Elle ne pourra plus être modifiée.'
+      : 'Lock this timesheet? It can no longer be changed.');
+    if (!confirmed) return;
+    runAction(
+      () => timesheetService.lock(timesheet, user?.id),
+      i18n.language === 'fr' ? 'Feuille de temps verrouillée' : 'Timesheet locked'
+    );
+  };
+
+  const handleSendBack = (timesheet: Timesheet) => {
+    const reason = window.prompt(i18n.language === 'fr'
+      ? 'Motif du renvoi en brouillon :'
+      : 'Reason for sending back to draft:');
+    if (!reason?.trim()) return;
+    runAction(
+      () => timesheet.status === 'approved'
+        ? timesheetService.reopen(timesheet, reason, user?.id)
+        : timesheetService.reject(timesheet, reason, user?.id),
+      i18n.language === 'fr' ? 'Feuille de temps renvoyée en brouillon' : 'Timesheet sent back to draft'
+    );
+  };
+
+  const handleApproveAll = async () => {
+    const submitted = timesheets.filter(t => t.status === 'submitted');
+    setBusy(true);
+    try {
+      for (const timesheet of submitted) {
+        replaceTimesheet(await timesheetService.approve(timesheet, user?.id));
+      }
+      toast.success(i18n.language === 'fr'
+        ? `${submitted.length} feuille(s) de temps approuvée(s)`
+        : `${submitted.length} timesheet(s) approved`);
+    } catch (error) {
+      console.error('❌ Failed to approve timesheets:', error);
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveAdjustment = async (timesheet: Timesheet) => {
+    if (!adjustment) return;
+    const hours = parseFloat(adjustment.hours.replace(',', '.'));
+
+    const saved = await runAction(
+      () => timesheetService.adjustLine(timesheet, adjustment.lineId, hours, adjustment.reason, user?.id),
+      i18n.language === 'fr' ? 'Ligne ajustée' : 'Line adjusted'
+    );
+    if (saved) setAdjustment(null);
+  };
+
+  // Only the approver adjusts lines, until the week is approved
+  const canAdjust = (timesheet: Timesheet) =>
+    canApprove && (timesheet.status === 'draft' || timesheet.status === 'submitted');
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : (i18n.language === 'fr' ? 'Ancien employé' : 'Former employee');
+  };
+
+  const formatHours = (hours: number) => `${hours.toFixed(2)}h`;
+
+  const getTotals = (timesheet: Timesheet) => ({
+    planned: timesheet.lines.reduce((sum, line) => sum + line.plannedHours, 0),
+    clocked: timesheet.lines.reduce((sum, line) => sum + line.actualHours, 0),
+    retained: timesheet.lines.reduce((sum, line) => sum + getRetainedHours(line), 0),
+    adjustments: timesheet.lines.filter(line => line.adjustment).length
+  });
+
+  const getStatusInfo = (status: TimesheetStatus) => {
+    switch (status) {
+      case 'draft':
+        return { className: 'bg-gray-100 text-gray-700', label: i18n.language === 'fr' ? 'Brouillon' : 'Draft' };
+      case 'submitted':
+        return { className: 'bg-yellow-100 text-yellow-800', label: i18n.language === 'fr' ? 'Soumise' : 'Submitted' };
+      case 'approved':
+        return { className: 'bg-green-100 text-green-800', label: i18n.language === 'fr' ? 'Approuvée' : 'Approved' };
+      case 'locked':
+        return { className: 'bg-blue-100 text-blue-800', label: i18n.language === 'fr' ? 'Verrouillée' : 'Locked' };
+    }
+  };
+
+  const getAuditLabel = (entry: TimesheetAuditEntry) => {
+    const labels: Record<TimesheetAuditEntry['action'], [string, string]> = {
+      created: ['Création', 'Created'],
+      adjusted: ['Ajustement', 'Adjusted'],
+      submitted: ['Soumission', 'Submitted'],
+      approved: ['Approbation', 'Approved'],
+      rejected: ['Renvoi en brouillon', 'Sent back'],
+      reopened: ['Réouverture', 'Reopened'],
+      locked: ['Verrouillage', 'Locked']
+    };
+    return labels[entry.action][i18n.language === 'fr' ? 0 : 1];
+  };
+
+  const formatLineDate = (line: TimesheetLine) => i18n.language === 'fr'
+    ? format(parseISO(line.date), 'EEE d MMM', { locale: fr })
+    : format(parseISO(line.date), 'EEE, MMM d');
+
+  const formatWeek = () => {
+    const start = parseISO(weekStartDate);
+    const end = addDays(start, 6);
+    if (i18n.language === 'fr') {
+      return `${format(start, 'd MMMM', { locale: fr })} - ${format(end, 'd MMMM yyyy', { locale: fr })}`;
+    }
+    return `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`;
+  };
+
+  const shiftWeek = (weeks: number) => {
+    setExpandedId(null);
+    setAdjustment(null);
+    setWeekStartDate(format(addDays(parseISO(weekStartDate), weeks * 7), 'yyyy-MM-dd'));
+  };
+
+  const sortedTimesheets = [...timesheets].sort((a, b) =>
+    getEmployeeName(a.employeeId).localeCompare(getEmployeeName(b.employeeId)));
+  const submittedCount = timesheets.filter(t => t.status === 'submitted').length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="p-6 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center">
+          <ClipboardCheck className="text-blue-600 mr-3" size={24} />
+          <div>
+            <h3 className="text-lg font-medium text-gray-800">
+              {i18n.language === 'fr' ? 'Feuilles de temps' : 'Timesheets'}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {i18n.language === 'fr'
+                ? 'Seules les feuilles approuvées ou verrouillées sont prises en compte par la paie'
+                : 'Only approved or locked timesheets are used by payroll'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {canApprove && submittedCount > 0 && (
+            <button
+              onClick={handleApproveAll}
+              disabled={busy}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+            >
+              <CheckCircle size={16} className="mr-2" />
+              {i18n.language === 'fr' ? `Tout approuver (${submittedCount})` : `Approve all (${submittedCount})`}
+            </button>
+          )}
+          <div className="flex items-center border border-gray-300 rounded-md">
+            <button onClick={() => shiftWeek(-1)} className="p-2 text-gray-600 hover:bg-gray-50">
+              <ChevronLeft size={16} />
+            </button>
+            <span className="px-3 text-sm text-gray-700">{formatWeek()}</span>
+            <button onClick={() => shiftWeek(1)} className="p-2 text-gray-600 hover:bg-gray-50">
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="px-6 py-8 text-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500 mx-auto"></div>
+        </div>
+      ) : sortedTimesheets.length === 0 ? (
+        <div className="px-6 py-8 text-center text-gray-500">
+          {i18n.language === 'fr'
+            ? 'Aucun service planifié ni pointage pour cette semaine'
+            : 'No scheduled shift or punch for this week'}
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {sortedTimesheets.map(timesheet => {
+            const totals = getTotals(timesheet);
+            const statusInfo = getStatusInfo(timesheet.status);
+            const expanded = expandedId === timesheet.id;
+
+            return (
+              <div key={timesheet.id}>
+                <div
+                  className="grid grid-cols-12 gap-4 px-6 py-4 items-center cursor-pointer hover:bg-gray-50"
+                  onClick={() => setExpandedId(expanded ? null : timesheet.id)}
+                >
+                  <div className="col-span-3 flex items-center">
+                    {expanded ? <ChevronUp size={16} className="mr-2 text-gray-400" /> : <ChevronDown size={16} className="mr-2 text-gray-400" />}
+                    <span className="text-sm font-medium text-gray-900">{getEmployeeName(timesheet.employeeId)}</span>
+                  </div>
+                  <div className="col-span-2">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${statusInfo.className}`}>
+                      {timesheet.status === 'locked' && <Lock size={12} className="mr-1" />}
+                      {statusInfo.label}
+                    </span>
+                  </div>
+                  <div className="col-span-4 text-sm text-gray-600">
+                    {i18n.language === 'fr' ? 'Prévu' : 'Planned'} {formatHours(totals.planned)}
+                    {' · '}
+                    {i18n.language === 'fr' ? 'Pointé' : 'Clocked'} {formatHours(totals.clocked)}
+                    {' · '}
+                    <span className="font-medium text-gray-900">
+                      {i18n.language === 'fr' ? 'Retenu' : 'Retained'} {formatHours(totals.retained)}
+                    </span>
+                    {totals.adjustments > 0 && (
+                      <span className="ml-2 text-xs text-orange-600">
+                        ({totals.adjustments} {i18n.language === 'fr' ? 'ajust.' : 'adj.'})
+                      </span>
+                    )}
+                  </div>
+                  <div className="col-span-3 flex justify-end gap-2" onClick={(e) => e.stopPropagation()}>
+                    {timesheet.status === 'draft' && (
+                      <button
+                        onClick={() => handleSubmit(timesheet)}
+                        disabled={busy}
+                        className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium rounded text-blue-700 bg-blue-100 hover:bg-blue-200 disabled:opacity-50"
+                      >
+                        <Send size={14} className="mr-1" />
+                        {i18n.language === 'fr' ? 'Soumettre' : 'Submit'}
+                      </button>
+                    )}
+                    {timesheet.status === 'submitted' && canApprove && (
+                      <button
+                        onClick={() => handleApprove(timesheet)}
+                        disabled={busy}
+                        className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium rounded text-green-700 bg-green-100 hover:bg-green-200 disabled:opacity-50"
+                      >
+                        <CheckCircle size={14} className="mr-1" />
+                        {i18n.language === 'fr' ? 'Approuver' : 'Approve'}
+                      </button>
+                    )}
+                    {timesheet.status === 'approved' && canApprove && (
+                      <button
+                        onClick={() => handleLock(timesheet)}
+                        disabled={busy}
+                        className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium rounded text-blue-700 bg-blue-100 hover:bg-blue-200 disabled:opacity-50"
+                      >
+                        <Lock size={14} className="mr-1" />
+                        {i18n.language === 'fr' ? 'Verrouiller' : 'Lock'}
+                      </button>
+                    )}
+                    {(timesheet.status === 'submitted' || timesheet.status === 'approved') && canApprove && (
+                      <button
+                        onClick={() => handleSendBack(timesheet)}
+                        disabled={busy}
+                        className="inline-flex items-center px-2.5 py-1.5 text-xs font-medium rounded text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+                        title={i18n.language === 'fr' ? 'Renvoyer en brouillon' : 'Send back to draft'}
+                      >
+                        {timesheet.status === 'approved' ? <RotateCcw size={14} /> : <XCircle size={14} />}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="bg-gray-50 px-6 py-4 border-t border-gray-100 space-y-4">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                          <th className="py-2 pr-4">{i18n.language === 'fr' ? 'Jour' : 'Day'}</th>
+                          <th className="py-2 pr-4">{i18n.language === 'fr' ? 'Prévu' : 'Planned'}</th>
+                          <th className="py-2 pr-4">{i18n.language === 'fr' ? 'Pointé' : 'Clocked'}</th>
+                          <th className="py-2 pr-4 text-right">{i18n.language === 'fr' ? 'Heures retenues' : 'Retained hours'}</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {timesheet.lines.map(line => {
+                          const editing = adjustment?.timesheetId === timesheet.id && adjustment.lineId === line.id;
+
+                          return (
+                            <tr key={line.id} className="align-top">
+                              <td className="py-2 pr-4 text-gray-900">{formatLineDate(line)}</td>
+                              <td className="py-2 pr-4 text-gray-700">
+                                {line.status
+                                  ? DAILY_STATUS[line.status].label
+                                  : line.plannedStart
+                                    ? `${line.plannedStart} - ${line.plannedEnd} (${formatHours(line.plannedHours)})`
+                                    : (i18n.language === 'fr' ? 'Non planifié' : 'Unscheduled')}
+                              </td>
+                              <td className="py-2 pr-4 text-gray-700">
+                                {line.status
+                                  ? '-'
+                                  : line.actualStart
+                                    ? `${line.actualStart} - ${line.actualEnd || '…'} (${formatHours(line.actualHours)})`
+                                    : (i18n.language === 'fr' ? 'Pointage manquant' : 'Missing punch')}
+                              </td>
+                              <td className="py-2 pr-4 text-right">
+                                {line.status ? '-' : (
+                                  <>
+                                    <span className={line.adjustment ? 'font-medium text-orange-700' : 'text-gray-900'}>
+                                      {formatHours(getRetainedHours(line))}
+                                    </span>
+                                    {line.adjustment && (
+                                      <div className="text-xs text-gray-500">{line.adjustment.reason}</div>
+                                    )}
+                                  </>
+                                )}
+                              </td>
+                              <td className="py-2 text-right">
+                                {!line.status && canAdjust(timesheet) && !editing && (
+                                  <button
+                                    onClick={() => setAdjustment({
+                                      timesheetId: timesheet.id,
+                                      lineId: line.id,
+                                      hours: getRetainedHours(line).toString(),
+                                      reason: ''
+                                    })}
+                                    className="p-1 text-gray-400 hover:text-blue-600"
+                                    title={i18n.language === 'fr' ? 'Ajuster' : 'Adjust'}
+                                  >
+                                    <Edit2 size={14} />
+                                  </button>
+                                )}
+                                {editing && (
+                                  <div className="flex flex-col items-end gap-2">
+                                    <input
+                                      type="number"
+                                      min={0}
+                                      max={24}
+                                      step={0.25}
+                                      value={adjustment.hours}
+                                      onChange={(e) => setAdjustment({ ...adjustment, hours: e.target.value })}
+                                      className="w-24 rounded-md border border-gray-300 px-2 py-1 text-right"
+                                    />
+                                    <input
+                                      type="text"
+                                      value={adjustment.reason}
+                                      onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+                                      placeholder={i18n.language === 'fr' ? 'Motif (obligatoire)' : 'Reason (required)'}
+                                      className="w-56 rounded-md border border-gray-300 px-2 py-1"
+                                    />
+                                    <div className="flex gap-2">
+                                      <button
+                                        onClick={() => setAdjustment(null)}
+                                        className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+                                      >
+                                        {i18n.language === 'fr' ? 'Annuler' : 'Cancel'}
+                                      </button>
+                                      <button
+                                        onClick={() => handleSaveAdjustment(timesheet)}
+                                        disabled={busy || !adjustment.reason.trim()}
+                                        className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+                                      >
+                                        {i18n.language === 'fr' ? 'Enregistrer' : 'Save'}
+                                      </button>
+                                    </div>
+                                  </div>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                        <History size={14} className="mr-1" />
+                        {i18n.language === 'fr' ? 'Historique' : 'History'}
+                      </h4>
+                      <ul className="space-y-1 text-xs text-gray-600">
+                        {auditLog.map(entry => (
+                          <li key={entry.id}>
+                            {format(parseISO(entry.createdAt), 'dd/MM/yyyy HH:mm')}
+                            {' · '}
+                            <span className="font-medium text-gray-800">{getAuditLabel(entry)}</span>
+                            {entry.action === 'adjusted' && entry.previousHours !== undefined && entry.newHours !== undefined && (
+                              <> {formatHours(entry.previousHours)} → {formatHours(entry.newHours)}</>
+                            )}
+                            {entry.reason && <> - {entry.reason}</>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimesheetApproval;
@@ -1,16 +1,41 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { Restaurant, Employee, Schedule, Shift, UserSettings, TimeInputType, ScheduleLayoutType, EmployeePreference, EmployeeAvailability } from '../types';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Restaurant, Employee, Schedule, Shift, UserSettings, TimeInputType, ScheduleLayoutType, EmployeePreference, EmployeeAvailability, ShiftChange, ShiftConflict, AppTab, PayrollPeriod, LeaveRequest, AvailabilityChangeRequest, EmployeePreferenceValues, SchedulePublication, ScheduleNotification, ShiftOffer, EmployeeCategory, DocumentSignatureRequest, SignatureMethod } from '../types';
 import { mockRestaurants, mockEmployees, mockSchedules } from '../data/mockData';
-import { format, startOfWeek, addDays, parseISO, isWithinInterval } from 'date-fns';
+import { format, startOfWeek, addDays, parseISO, isWithinInterval, differenceInCalendarDays } from 'date-fns';
 import toast from 'react-hot-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { dataService, ShiftVersionConflictError } from '../lib/dataService';
+import { scheduleAutoSaveService, applyPendingOperations, NewScheduleOperation } from '../lib/scheduleAutoSave';
+import { SupabaseScheduleSyncBackend, mockScheduleSyncBackend } from '../lib/scheduleSyncBackends';
+import { collaborationService } from '../lib/collaborationService';
+import { isSameShiftContent } from '../lib/shiftMerge';
+import { useAuth } from './AuthContext';
+import { Permission, PermissionDeniedError, redactEmployee } from '../lib/permissions';
+import { payrollPeriodService, isDateInClosedPeriod, PayrollPeriodAction } from '../lib/payrollPeriodService';
+import { checkAvailability, AvailabilityCheck } from '../lib/availabilityResolver';
+import {
+  availabilityChangeService,
+  applyFreezeWindow,
+  diffAvailabilityChange,
+  getFreezeEnd,
+  getFrozenChanges,
+  DEFAULT_AVAILABILITY_FREEZE_DAYS
+} from '../lib/availabilityChangeService';
+import { leaveRequestService, getLeaveRequestDates, LEAVE_REQUEST_DAILY_STATUS } from '../lib/leaveRequestService';
+import { schedulePublicationService, getLivePublication } from '../lib/schedulePublicationService';
+import { shiftOfferService, checkShiftOfferEligibility, getShiftOfferDate, ShiftOfferEligibility } from '../lib/shiftOfferService';
+import { documentSignatureService } from '../lib/documentSignatureService';
 
 interface AppContextType {
   restaurants: Restaurant[];
   employees: Employee[];
   schedules: Schedule[];
+  // CRITICAL: True while restaurants, employees and schedules are loading from Supabase
+  dataLoading: boolean;
   currentRestaurant: Restaurant | null;
-  currentTab: 'dashboard' | 'restaurants' | 'schedule' | 'staff' | 'settings' | 'performance' | 'timeclock' | 'documents';
-  setCurrentTab: (tab: 'dashboard' | 'restaurants' | 'schedule' | 'staff' | 'settings' | 'performance' | 'timeclock' | 'documents') => void;
+  currentTab: AppTab;
+  setCurrentTab: (tab: AppTab) => void;
   setCurrentRestaurant: (restaurant: Restaurant | null) => void;
   getRestaurantEmployees: (restaurantId: string) => Employee[];
   getRestaurantSchedule: (restaurantId: string) => Schedule | undefined;
@@ -18,9 +43,12 @@ interface AppContextType {
   addEmployee: (employee: Omit<Employee, 'id'>) => Promise<void>;
   updateEmployee: (employee: Employee) => Promise<void>;
   deleteEmployee: (employeeId: string) => Promise<void>;
-  addShift: (shift: Omit<Shift, 'id'>, weekStartDate: Date) => void;
+  addShift: (shift: Omit<Shift, 'id'>, weekStartDate: Date) => string | undefined; // Id of the created shift
   updateShift: (shift: Shift, weekStartDate: Date) => void;
   deleteShift: (shiftId: string, weekStartDate: Date) => void;
+  // CRITICAL: Concurrent edits of the same shift waiting for a merge decision
+  shiftConflicts: ShiftConflict[];
+  resolveShiftConflict: (shiftId: string, resolved: Shift | null) => void;
   showAuthModal: boolean;
   setShowAuthModal: (show: boolean) => void;
   addRestaurant: (restaurant: Omit<Restaurant, 'id'>) => Promise<void>;
@@ -37,7 +65,41 @@ interface AppContextType {
   addEmployeeAvailability: (availability: Omit<EmployeeAvailability, 'id'>) => Promise<void>;
   deleteEmployeeAvailability: (availabilityId: string) => Promise<void>;
   getEmployeeAvailabilities: (employeeId: string) => EmployeeAvailability[];
-  checkAvailabilityConflicts: (employeeId: string, day: number, startTime: string, endTime: string) => { hasConflict: boolean; conflictType: string | null; };
+  checkAvailabilityConflicts: (employeeId: string, weekStartDate: Date, day: number, startTime: string, endTime: string) => AvailabilityCheck;
+  // CRITICAL: Monthly payroll periods - shifts of closed months are locked
+  payrollPeriods: PayrollPeriod[];
+  transitionPayrollPeriod: (restaurantId: string, month: string, action: PayrollPeriodAction) => Promise<PayrollPeriod | undefined>;
+  // CRITICAL: Leave requests from the employee portal - approval writes the days to the schedule
+  leaveRequests: LeaveRequest[];
+  submitLeaveRequest: (request: Pick<LeaveRequest, 'restaurantId' | 'employeeId' | 'type' | 'startDate' | 'endDate' | 'reason'>) => Promise<LeaveRequest | undefined>;
+  reviewLeaveRequest: (request: LeaveRequest, decision: 'approved' | 'rejected', comment?: string) => Promise<LeaveRequest | undefined>;
+  cancelLeaveRequest: (request: LeaveRequest) => Promise<LeaveRequest | undefined>;
+  // CRITICAL: Availability proposed from the employee portal - applied once a manager accepts it
+  availabilityChangeRequests: AvailabilityChangeRequest[];
+  submitAvailabilityChange: (employeeId: string, availabilities: EmployeeAvailability[], preference?: EmployeePreferenceValues) => Promise<AvailabilityChangeRequest | undefined>;
+  reviewAvailabilityChange: (request: AvailabilityChangeRequest, decision: 'accepted' | 'rejected', comment?: string) => Promise<AvailabilityChangeRequest | undefined>;
+  cancelAvailabilityChange: (request: AvailabilityChangeRequest) => Promise<AvailabilityChangeRequest | undefined>;
+  // CRITICAL: Published versions of the weeks - employees only see what was published
+  schedulePublications: SchedulePublication[];
+  scheduleNotifications: ScheduleNotification[];
+  publishSchedule: (restaurantId: string, weekStartDate: Date) => Promise<SchedulePublication | undefined>;
+  unpublishSchedule: (restaurantId: string, weekStartDate: Date) => Promise<SchedulePublication | undefined>;
+  markScheduleNotificationRead: (notification: ScheduleNotification) => Promise<void>;
+  // CRITICAL: Shift swaps and open shifts - qualified colleagues claim, a manager approves
+  shiftOffers: ShiftOffer[];
+  offerShift: (shift: Shift, weekStartDate: Date, note?: string) => Promise<ShiftOffer | undefined>;
+  postOpenShift: (shift: Omit<Shift, 'id' | 'employeeId'>, weekStartDate: Date, category: EmployeeCategory, note?: string) => Promise<ShiftOffer | undefined>;
+  checkShiftOfferCandidate: (offer: ShiftOffer, employeeId: string) => ShiftOfferEligibility;
+  claimShiftOffer: (offer: ShiftOffer, employeeId: string) => Promise<ShiftOffer | undefined>;
+  unclaimShiftOffer: (offer: ShiftOffer) => Promise<ShiftOffer | undefined>;
+  cancelShiftOffer: (offer: ShiftOffer) => Promise<ShiftOffer | undefined>;
+  reviewShiftOffer: (offer: ShiftOffer, decision: 'approved' | 'rejected', comment?: string) => Promise<ShiftOffer | undefined>;
+  signatureRequests: DocumentSignatureRequest[];
+  requestDocumentSignature: (request: Pick<DocumentSignatureRequest, 'employeeId' | 'kind' | 'title' | 'content' | 'message'>) => Promise<DocumentSignatureRequest | undefined>;
+  markSignatureRequestViewed: (request: DocumentSignatureRequest) => Promise<void>;
+  signDocument: (request: DocumentSignatureRequest, signature: { method: SignatureMethod; signerName: string; image: string }) => Promise<DocumentSignatureRequest | undefined>;
+  rejectSignatureRequest: (request: DocumentSignatureRequest, reason: string) => Promise<DocumentSignatureRequest | undefined>;
+  cancelSignatureRequest: (request: DocumentSignatureRequest) => Promise<DocumentSignatureRequest | undefined>;
 }
 
 // CRITICAL: Enhanced default user settings with break payment enabled by default
@@ -65,6 +127,8 @@ export const defaultUserSettings: UserSettings = {
   payBreakTimes: true, // CRITICAL: Always default to paid breaks 
   // CRITICAL: NEW - Time clock functionality disabled by default
   timeClockEnabled: false, 
+  availabilityFreezeDays: 14,
+  publicationNoticeDays: 7,
   // HR & Document Management settings
   documentStorage: 'local',
   documentRetention: '5years',
@@ -83,11 +147,13 @@ export const defaultUserSettings: UserSettings = {
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [restaurants, setRestaurants] = useState<Restaurant[]>(mockRestaurants);
-  const [employees, setEmployees] = useState<Employee[]>(mockEmployees);
-  const [schedules, setSchedules] = useState<Schedule[]>(mockSchedules);
-  const [currentRestaurant, setCurrentRestaurant] = useState<Restaurant | null>(mockRestaurants[0]); 
-  const [currentTab, setCurrentTab] = useState<'dashboard' | 'restaurants' | 'schedule' | 'staff' | 'settings' | 'performance' | 'timeclock' | 'documents'>('dashboard');
+  // CRITICAL: Demo data is only used when no Supabase project is configured
+  const [restaurants, setRestaurants] = useState<Restaurant[]>(isSupabaseConfigured ? [] : mockRestaurants);
+  const [employees, setEmployees] = useState<Employee[]>(isSupabaseConfigured ? [] : mockEmployees);
+  const [schedules, setSchedules] = useState<Schedule[]>(isSupabaseConfigured ? [] : mockSchedules);
+  const [dataLoading, setDataLoading] = useState<boolean>(isSupabaseConfigured);
+  const [currentRestaurant, setCurrentRestaurant] = useState<Restaurant | null>(isSupabaseConfigured ? null : mockRestaurants[0]); 
+  const [currentTab, setCurrentTab] = useState<AppTab>('dashboard');
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [settings, setSettings] = useState<UserSettings>(defaultUserSettings);
   // CRITICAL: Add last save timestamp for auto-save feature
@@ -95,6 +161,21 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // CRITICAL: Add state for employee preferences and availabilities
   const [employeePreferences, setEmployeePreferences] = useState<EmployeePreference[]>([]);
   const [employeeAvailabilities, setEmployeeAvailabilities] = useState<EmployeeAvailability[]>([]);
+  // CRITICAL: Real-time collaboration state
+  const { user, profile, can, accessibleRestaurantIds } = useAuth();
+  const [shiftConflicts, setShiftConflicts] = useState<ShiftConflict[]>([]);
+  const [payrollPeriods, setPayrollPeriods] = useState<PayrollPeriod[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [availabilityChangeRequests, setAvailabilityChangeRequests] = useState<AvailabilityChangeRequest[]>([]);
+  const [schedulePublications, setSchedulePublications] = useState<SchedulePublication[]>([]);
+  const [scheduleNotifications, setScheduleNotifications] = useState<ScheduleNotification[]>([]);
+  const [shiftOffers, setShiftOffers] = useState<ShiftOffer[]>([]);
+  const [signatureRequests, setSignatureRequests] = useState<DocumentSignatureRequest[]>([]);
+  // Latest schedules for listeners registered once (remote changes, rejected operations)
+  const schedulesRef = useRef<Schedule[]>(schedules);
+  schedulesRef.current = schedules;
+  // Shifts deleted in this session, to detect a remote edit of a shift we just removed
+  const deletedShiftsRef = useRef<Map<string, Shift>>(new Map());
 
   // CRITICAL: Load user settings from localStorage with break payment default
   useEffect(() => {
@@ -129,6 +210,427 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
+  // CRITICAL: Load persisted data from Supabase, then re-apply schedule edits still waiting in the offline queue
+  useEffect(() => {
+    const startScheduleSync = async () => {
+      try {
+        const pendingOperations = await scheduleAutoSaveService.getPendingOperations();
+        if (pendingOperations.length > 0) {
+          console.log('📝 Restoring', pendingOperations.length, 'unsynced schedule change(s)');
+          setSchedules(prev => applyPendingOperations(prev, pendingOperations));
+        }
+      } catch (error) {
+        console.error('❌ Error reading offline schedule changes:', error);
+      }
+
+      scheduleAutoSaveService.initialize(
+        isSupabaseConfigured ? new SupabaseScheduleSyncBackend() : mockScheduleSyncBackend
+      );
+    };
+
+    if (!isSupabaseConfigured) {
+      startScheduleSync();
+      return () => scheduleAutoSaveService.cleanup();
+    }
+
+    const loadData = async () => {
+      try {
+        console.log('🔄 Loading restaurants, employees and schedules from Supabase...');
+        const [
+          loadedRestaurants,
+          loadedEmployees,
+          loadedSchedules,
+          loadedPreferences,
+          loadedAvailabilities
+        ] = await Promise.all([
+          dataService.fetchRestaurants(),
+          dataService.fetchEmployees(),
+          dataService.fetchSchedules(),
+          dataService.fetchEmployeePreferences(),
+          dataService.fetchEmployeeAvailabilities()
+        ]);
+
+        setRestaurants(loadedRestaurants);
+        setEmployees(loadedEmployees);
+        setSchedules(loadedSchedules);
+        setEmployeePreferences(loadedPreferences);
+        setEmployeeAvailabilities(loadedAvailabilities);
+        setCurrentRestaurant(prev => prev ?? loadedRestaurants[0] ?? null);
+
+        console.log('✅ Data loaded:', {
+          restaurants: loadedRestaurants.length,
+          employees: loadedEmployees.length,
+          schedules: loadedSchedules.length
+        });
+      } catch (error) {
+        console.error('❌ Error loading data from Supabase:', error);
+        toast.error('Échec du chargement des données');
+      } finally {
+        setDataLoading(false);
+      }
+
+      await startScheduleSync();
+    };
+
+    loadData();
+    return () => scheduleAutoSaveService.cleanup();
+  }, []);
+
+  // CRITICAL: Payroll periods of the loaded restaurants, needed before any shift edit
+  const restaurantIdsKey = restaurants.map(restaurant => restaurant.id).join(',');
+  useEffect(() => {
+    if (!restaurantIdsKey) return;
+
+    payrollPeriodService.fetchPeriods(restaurantIdsKey.split(','))
+      .then(setPayrollPeriods)
+      .catch(error => {
+        console.error('❌ Error loading payroll periods:', error);
+        toast.error('Échec du chargement des périodes de paie');
+      });
+
+    leaveRequestService.fetchRequests(restaurantIdsKey.split(','))
+      .then(setLeaveRequests)
+      .catch(error => {
+        console.error('❌ Error loading leave requests:', error);
+        toast.error('Échec du chargement des demandes de congés');
+      });
+
+    availabilityChangeService.fetchRequests(restaurantIdsKey.split(','))
+      .then(setAvailabilityChangeRequests)
+      .catch(error => {
+        console.error('❌ Error loading availability changes:', error);
+        toast.error('Échec du chargement des changements de disponibilité');
+      });
+
+    schedulePublicationService.fetchPublications(restaurantIdsKey.split(','))
+      .then(setSchedulePublications)
+      .catch(error => {
+        console.error('❌ Error loading schedule publications:', error);
+        toast.error('Échec du chargement des plannings publiés');
+      });
+
+    schedulePublicationService.fetchNotifications(restaurantIdsKey.split(','))
+      .then(setScheduleNotifications)
+      .catch(error => {
+        console.error('❌ Error loading schedule notifications:', error);
+        toast.error('Échec du chargement des notifications de planning');
+      });
+
+    shiftOfferService.fetchOffers(restaurantIdsKey.split(','))
+      .then(setShiftOffers)
+      .catch(error => {
+        console.error('❌ Error loading shift offers:', error);
+        toast.error('Échec du chargement des échanges de créneaux');
+      });
+
+    documentSignatureService.fetchRequests(restaurantIdsKey.split(','))
+      .then(setSignatureRequests)
+      .catch(error => {
+        console.error('❌ Error loading signature requests:', error);
+        toast.error('Échec du chargement des demandes de signature');
+      });
+  }, [restaurantIdsKey]);
+
+  // CRITICAL: Undo local schedule edits the server refused while replaying the queue
+  useEffect(() => {
+    return scheduleAutoSaveService.onOperationRejected((operation, error) => {
+      const { shift, previousShift, schedule: target } = operation;
+
+      // CRITICAL: Someone else changed the shift first - ask for a merge instead of overwriting
+      if (error instanceof ShiftVersionConflictError) {
+        const current = schedulesRef.current
+          .find(s => s.restaurantId === target.restaurantId && s.weekStartDate === target.weekStartDate)
+          ?.shifts.find(s => s.id === shift.id);
+        // A refused delete keeps the local deletion as our side of the merge
+        const local = operation.type === 'delete' ? null : current ?? shift;
+        registerShiftConflict(local, error.remoteShift, target.restaurantId, target.weekStartDate, '');
+        return;
+      }
+
+      setSchedules(prev =>
+        prev.map(s => {
+          if (s.restaurantId !== target.restaurantId || s.weekStartDate !== target.weekStartDate) {
+            return s;
+          }
+
+          switch (operation.type) {
+            case 'create':
+              return { ...s, shifts: s.shifts.filter(existing => existing.id !== shift.id) };
+            case 'update':
+              return previousShift
+                ? { ...s, shifts: s.shifts.map(existing => existing.id === shift.id ? previousShift : existing) }
+                : s;
+            case 'delete':
+              return { ...s, shifts: [...s.shifts.filter(existing => existing.id !== shift.id), shift] };
+          }
+        })
+      );
+
+      toast.error(
+        operation.type === 'create'
+          ? 'Échec de l\'enregistrement du service'
+          : operation.type === 'update'
+            ? 'Échec de la mise à jour du service'
+            : 'Échec de la suppression du service'
+      );
+    });
+  }, []);
+
+  // CRITICAL: Schedule edits go through the durable operation log instead of direct writes
+  const queueScheduleOperation = (operation: NewScheduleOperation) => {
+    scheduleAutoSaveService.queueOperation(operation).catch(error => {
+      console.error('❌ Failed to queue schedule change:', error);
+      toast.error('Échec de l\'enregistrement local du planning');
+    });
+  };
+
+  // CRITICAL: Join the restaurant's collaboration channel (presence and shift broadcasts)
+  const currentRestaurantId = currentRestaurant?.id;
+  const userId = user?.id;
+  const collaboratorName = [profile?.firstName, profile?.lastName].filter(Boolean).join(' ') || profile?.email || user?.email || userId;
+  useEffect(() => {
+    if (!currentRestaurantId || !userId || !collaboratorName) return;
+
+    collaborationService.joinRestaurant(currentRestaurantId, { userId, name: collaboratorName });
+  }, [currentRestaurantId, userId, collaboratorName]);
+
+  // Set on every render below, so the subscription lives as long as the provider
+  const remoteShiftChangeHandlerRef = useRef<(change: ShiftChange) => void>();
+  useEffect(() => {
+    const unsubscribe = collaborationService.onShiftChange(change => remoteShiftChangeHandlerRef.current?.(change));
+    return () => {
+      unsubscribe();
+      collaborationService.leave();
+    };
+  }, []);
+
+  // Apply a change to the shifts of one restaurant week, creating the week if needed
+  const updateWeekShifts = (restaurantId: string, weekKey: string, update: (shifts: Shift[]) => Shift[]) => {
+    setSchedules(prev => {
+      const exists = prev.some(s => s.restaurantId === restaurantId && s.weekStartDate === weekKey);
+      if (!exists) {
+        return [...prev, { id: uuidv4(), restaurantId, weekStartDate: weekKey, shifts: update([]) }];
+      }
+
+      return prev.map(s =>
+        s.restaurantId === restaurantId && s.weekStartDate === weekKey
+          ? { ...s, shifts: update(s.shifts) }
+          : s
+      );
+    });
+  };
+
+  const broadcastShiftChange = (type: ShiftChange['type'], shift: Shift, weekKey: string, baseVersion?: number) => {
+    if (!user) return;
+
+    collaborationService.broadcastShiftChange({
+      type,
+      shift,
+      weekStartDate: weekKey,
+      baseVersion,
+      authorId: user.id,
+      authorName: [profile?.firstName, profile?.lastName].filter(Boolean).join(' ') || user.email || ''
+    });
+  };
+
+  const registerShiftConflict = (
+    local: Shift | null,
+    remote: Shift | null,
+    restaurantId: string,
+    weekKey: string,
+    remoteAuthorName: string
+  ) => {
+    const shiftId = (local ?? remote)!.id;
+    console.warn('⚠️ Concurrent edit detected on shift:', shiftId);
+
+    setShiftConflicts(prev => [
+      ...prev.filter(conflict => conflict.shiftId !== shiftId),
+      {
+        shiftId,
+        restaurantId,
+        weekStartDate: weekKey,
+        local,
+        remote,
+        remoteAuthorName,
+        detectedAt: new Date().toISOString()
+      }
+    ]);
+  };
+
+  /**
+   * CRITICAL: Merge a change broadcast by another manager. Changes made from the
+   * version we have are applied directly; if we edited the shift too, the
+   * collision is surfaced as a conflict instead of last-writer-wins.
+   */
+  const handleRemoteShiftChange = (change: ShiftChange) => {
+    const { shift: remote, weekStartDate: weekKey } = change;
+    const local = schedulesRef.current
+      .find(s => s.restaurantId === remote.restaurantId && s.weekStartDate === weekKey)
+      ?.shifts.find(s => s.id === remote.id);
+    const localVersion = local?.version ?? 1;
+    const remoteVersion = remote.version ?? 1;
+
+    const applyRemote = () => {
+      updateWeekShifts(remote.restaurantId, weekKey, shifts =>
+        change.type === 'delete'
+          ? shifts.filter(s => s.id !== remote.id)
+          : [...shifts.filter(s => s.id !== remote.id), remote]
+      );
+      // The other manager already resolved any collision on this shift
+      setShiftConflicts(prev => prev.filter(conflict => conflict.shiftId !== remote.id));
+    };
+
+    console.log('👥 Remote shift change from', change.authorName, change.type, remote.id);
+
+    switch (change.type) {
+      case 'create':
+        if (!local) applyRemote();
+        return;
+      case 'update': {
+        const locallyDeleted = deletedShiftsRef.current.get(remote.id);
+        if (!local && locallyDeleted) {
+          registerShiftConflict(null, remote, remote.restaurantId, weekKey, change.authorName);
+        } else if (!local || localVersion <= (change.baseVersion ?? remoteVersion - 1) || isSameShiftContent(local, remote)) {
+          applyRemote();
+        } else {
+          registerShiftConflict(local, remote, remote.restaurantId, weekKey, change.authorName);
+        }
+        return;
+      }
+      case 'delete':
+        if (!local) return;
+        if (localVersion <= remoteVersion) {
+          applyRemote();
+        } else {
+          registerShiftConflict(local, null, remote.restaurantId, weekKey, change.authorName);
+        }
+        return;
+    }
+  };
+  remoteShiftChangeHandlerRef.current = handleRemoteShiftChange;
+
+  /**
+   * Apply the manager's decision for a conflict: the resolved shift, or null to delete it.
+   * The result gets a version above both copies so it supersedes them everywhere.
+   */
+  const resolveShiftConflict = (shiftId: string, resolved: Shift | null) => {
+    const conflict = shiftConflicts.find(c => c.shiftId === shiftId);
+    if (!conflict || !checkPermission('schedule:edit', conflict.restaurantId)) return;
+
+    setShiftConflicts(prev => prev.filter(c => c.shiftId !== shiftId));
+
+    const { restaurantId, weekStartDate: weekKey, local, remote } = conflict;
+    const schedule = getOrCreateWeekSchedule(restaurantId, parseISO(weekKey));
+    const nextVersion = Math.max(local?.version ?? 1, remote?.version ?? 1) + 1;
+
+    if (!resolved) {
+      updateWeekShifts(restaurantId, weekKey, shifts => shifts.filter(s => s.id !== shiftId));
+      if (remote) {
+        queueScheduleOperation({ type: 'delete', shift: remote, schedule });
+        broadcastShiftChange('delete', { ...remote, version: nextVersion }, weekKey);
+      }
+      return;
+    }
+
+    const merged: Shift = { ...resolved, id: shiftId, version: nextVersion, weekStartDate: weekKey };
+    updateWeekShifts(restaurantId, weekKey, shifts => [...shifts.filter(s => s.id !== shiftId), merged]);
+    deletedShiftsRef.current.delete(shiftId);
+
+    if (remote) {
+      queueScheduleOperation({ type: 'update', shift: merged, previousShift: remote, schedule });
+      broadcastShiftChange('update', merged, weekKey, remote.version ?? 1);
+    } else {
+      // The other manager deleted it - bring it back
+      queueScheduleOperation({ type: 'create', shift: merged, schedule });
+      broadcastShiftChange('create', merged, weekKey);
+    }
+  };
+
+  // CRITICAL: Scope data to the restaurants the user has access to (restaurant_access)
+  const isRestaurantVisible = useCallback(
+    (restaurantId: string): boolean =>
+      accessibleRestaurantIds === null || accessibleRestaurantIds.includes(restaurantId),
+    [accessibleRestaurantIds]
+  );
+
+  const visibleRestaurants = useMemo(
+    () => restaurants.filter(restaurant => isRestaurantVisible(restaurant.id)),
+    [restaurants, isRestaurantVisible]
+  );
+
+  // CRITICAL: Pay and identity data is stripped for users without employees:viewSensitive
+  const visibleEmployees = useMemo(
+    () => employees
+      .filter(employee => isRestaurantVisible(employee.restaurantId))
+      .map(employee => can('employees:viewSensitive', employee.restaurantId) ? employee : redactEmployee(employee)),
+    [employees, isRestaurantVisible, can]
+  );
+
+  const visibleSchedules = useMemo(
+    () => schedules.filter(schedule => isRestaurantVisible(schedule.restaurantId)),
+    [schedules, isRestaurantVisible]
+  );
+
+  // Never leave the user on a restaurant they lost access to
+  useEffect(() => {
+    if (currentRestaurant && !isRestaurantVisible(currentRestaurant.id)) {
+      setCurrentRestaurant(visibleRestaurants[0] ?? null);
+    } else if (!currentRestaurant && visibleRestaurants.length > 0 && !dataLoading) {
+      setCurrentRestaurant(visibleRestaurants[0]);
+    }
+  }, [visibleRestaurants, currentRestaurant, dataLoading, isRestaurantVisible]);
+
+  // CRITICAL: Permission guard for mutating actions, scoped to the restaurant the data belongs to
+  const checkPermission = (permission: Permission, restaurantId?: string): boolean => {
+    if (can(permission, restaurantId)) return true;
+
+    console.warn('⛔ Permission denied:', permission, restaurantId ?? '(global)');
+    toast.error('Action non autorisée');
+    return false;
+  };
+
+  const ensurePermission = (permission: Permission, restaurantId?: string): void => {
+    if (!checkPermission(permission, restaurantId)) {
+      throw new PermissionDeniedError(permission);
+    }
+  };
+
+  // The signed-in account's own employee record, matched on the email like is_current_employee
+  const isCurrentEmployee = (employeeId: string): boolean => {
+    const employee = employees.find(e => e.id === employeeId);
+    return !!employee?.email && !!profile?.email && employee.email.toLowerCase() === profile.email.toLowerCase();
+  };
+
+  // Employees act for themselves from the portal, managers for anyone in their restaurant
+  const checkActingFor = (employeeId: string, restaurantId: string): boolean => {
+    if (isCurrentEmployee(employeeId) || can('employees:manage', restaurantId)) return true;
+
+    console.warn('⛔ Not allowed to act for employee:', employeeId);
+    toast.error('Action non autorisée');
+    return false;
+  };
+
+  const getEmployeeRestaurantId = (employeeId: string): string | undefined =>
+    employees.find(employee => employee.id === employeeId)?.restaurantId;
+
+  // CRITICAL: Optimistic persistence - state is updated first, then rolled back if the write fails
+  const persistOptimistically = async (
+    persist: () => Promise<void>,
+    rollback: () => void,
+    errorMessage: string
+  ): Promise<void> => {
+    if (!isSupabaseConfigured) return;
+
+    try {
+      await persist();
+    } catch (error) {
+      console.error('❌ Persistence failed, rolling back local change:', error);
+      rollback();
+      toast.error(errorMessage);
+      throw error;
+    }
+  };
+
   // CRITICAL: Ensure settings are properly applied to the UI
   useEffect(() => {
     // Log current settings for debugging
@@ -148,7 +650,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     const newSchedule: Schedule = {
-      id: Math.random().toString(36).substr(2, 9),
+      id: uuidv4(),
       restaurantId,
       weekStartDate: getWeekStartDate(currentDate),
       shifts: [] // Start with empty shifts array
@@ -160,7 +662,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const getRestaurantEmployees = (restaurantId: string): Employee[] => {
     // Get employees and attach their preferences and availabilities
-    const restaurantEmployees = employees.filter(employee => employee.restaurantId === restaurantId);
+    const restaurantEmployees = visibleEmployees.filter(employee => employee.restaurantId === restaurantId);
     
     return restaurantEmployees.map(employee => {
       const preferences = employeePreferences.find(pref => pref.employeeId === employee.id);
@@ -183,20 +685,27 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // CRITICAL: New method to get schedule for specific week
   const getRestaurantScheduleForWeek = (restaurantId: string, weekStartDate: Date): Schedule | undefined => {
     const weekKey = format(weekStartDate, 'yyyy-MM-dd');
-    const scheduleId = `${restaurantId}-${weekKey}`;
     
-    return schedules.find(s => s.id === scheduleId);
+    return visibleSchedules.find(s => s.restaurantId === restaurantId && s.weekStartDate === weekKey);
   };
 
   // CRITICAL FIX: Single notification source for employee operations
   const addEmployee = async (employeeData: Omit<Employee, 'id'>) => {
+    ensurePermission('employees:manage', employeeData.restaurantId);
+
     const newEmployee: Employee = {
       ...employeeData,
-      id: Math.random().toString(36).substr(2, 9)
+      id: uuidv4()
     };
 
     console.log('➕ Adding new employee:', newEmployee);
     setEmployees(prev => [...prev, newEmployee]);
+
+    await persistOptimistically(
+      () => dataService.insertEmployee(newEmployee),
+      () => setEmployees(prev => prev.filter(e => e.id !== newEmployee.id)),
+      'Échec de l\'enregistrement de l\'employé'
+    );
     
     // CRITICAL: Single source of truth for success notifications
     toast.success('Employé ajouté avec succès');
@@ -204,11 +713,25 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const updateEmployee = async (updatedEmployee: Employee) => {
     console.log('🔄 Updating employee:', updatedEmployee.id);
+    const previousEmployee = employees.find(e => e.id === updatedEmployee.id);
+    // Moving an employee requires access to both restaurants
+    ensurePermission('employees:manage', previousEmployee?.restaurantId ?? updatedEmployee.restaurantId);
+    ensurePermission('employees:manage', updatedEmployee.restaurantId);
     setEmployees(prev =>
       prev.map(employee =>
         employee.id === updatedEmployee.id ? updatedEmployee : employee
       )
     );
+
+    await persistOptimistically(
+      () => dataService.updateEmployee(updatedEmployee),
+      () => {
+        if (previousEmployee) {
+          setEmployees(prev => prev.map(e => e.id === previousEmployee.id ? previousEmployee : e));
+        }
+      },
+      'Échec de la mise à jour de l\'employé'
+    );
     
     // CRITICAL: Single source of truth for success notifications
     toast.success('Employé mis à jour avec succès');
@@ -216,14 +739,28 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const deleteEmployee = async (employeeId: string) => {
     console.log('🗑️ Deleting employee:', employeeId);
+    const deletedEmployee = employees.find(e => e.id === employeeId);
+    ensurePermission('employees:manage', deletedEmployee?.restaurantId);
     setEmployees(prev => prev.filter(e => e.id !== employeeId));
+
+    await persistOptimistically(
+      () => dataService.deleteEmployee(employeeId),
+      () => {
+        if (deletedEmployee) {
+          setEmployees(prev => [...prev, deletedEmployee]);
+        }
+      },
+      'Échec de la suppression de l\'employé'
+    );
   };
 
   const addRestaurant = async (restaurantData: Omit<Restaurant, 'id'>) => {
+    ensurePermission('restaurants:manage');
+
     try {
       const newRestaurant: Restaurant = {
         ...restaurantData,
-        id: Math.random().toString(36).substr(2, 9)
+        id: uuidv4()
       };
 
       console.log('🏪 Adding new restaurant:', newRestaurant);
@@ -234,10 +771,26 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setSchedules(prev => [...prev, initialSchedule]);
       
       // Automatically set as current restaurant if it's the first one
-      if (restaurants.length === 0) {
+      const isFirstRestaurant = restaurants.length === 0;
+      if (isFirstRestaurant) {
         setCurrentRestaurant(newRestaurant);
       }
 
+      await persistOptimistically(
+        async () => {
+          await dataService.insertRestaurant(newRestaurant);
+          await dataService.ensureSchedule(initialSchedule);
+        },
+        () => {
+          setRestaurants(prev => prev.filter(r => r.id !== newRestaurant.id));
+          setSchedules(prev => prev.filter(s => s.id !== initialSchedule.id));
+          if (isFirstRestaurant) {
+            setCurrentRestaurant(null);
+          }
+        },
+        'Échec de la création du restaurant'
+      );
+
       console.log('✅ Restaurant and initial schedule created successfully');
       toast.success('Restaurant created with scheduling enabled');
     } catch (error) {
@@ -247,8 +800,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const updateRestaurant = async (updatedRestaurant: Restaurant) => {
+    ensurePermission('restaurants:manage', updatedRestaurant.id);
+
     try {
       console.log('🔄 Updating restaurant:', updatedRestaurant.id);
+      const previousRestaurant = restaurants.find(r => r.id === updatedRestaurant.id);
       setRestaurants(prev =>
         prev.map(restaurant =>
           restaurant.id === updatedRestaurant.id ? updatedRestaurant : restaurant
@@ -256,9 +812,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       );
 
       // Update current restaurant if it's the one being updated
-      if (currentRestaurant?.id === updatedRestaurant.id) {
+      const isCurrentRestaurant = currentRestaurant?.id === updatedRestaurant.id;
+      if (isCurrentRestaurant) {
         setCurrentRestaurant(updatedRestaurant);
       }
+
+      await persistOptimistically(
+        () => dataService.updateRestaurant(updatedRestaurant),
+        () => {
+          if (!previousRestaurant) return;
+          setRestaurants(prev => prev.map(r => r.id === previousRestaurant.id ? previousRestaurant : r));
+          if (isCurrentRestaurant) {
+            setCurrentRestaurant(previousRestaurant);
+          }
+        },
+        'Échec de la mise à jour du restaurant'
+      );
     } catch (error) {
       console.error('❌ Error updating restaurant:', error);
       throw error;
@@ -266,8 +835,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const deleteRestaurant = async (restaurantId: string) => {
+    ensurePermission('restaurants:manage', restaurantId);
+
     try {
       console.log('🗑️ Deleting restaurant:', restaurantId);
+      const deletedRestaurant = restaurants.find(r => r.id === restaurantId);
+      const deletedSchedules = schedules.filter(s => s.restaurantId === restaurantId);
+      const deletedEmployees = employees.filter(e => e.restaurantId === restaurantId);
+      const wasCurrentRestaurant = currentRestaurant?.id === restaurantId;
       
       // Remove restaurant
       setRestaurants(prev => prev.filter(r => r.id !== restaurantId));
@@ -281,6 +856,20 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const remainingRestaurants = restaurants.filter(r => r.id !== restaurantId);
         setCurrentRestaurant(remainingRestaurants.length > 0 ? remainingRestaurants[0] : null);
       }
+
+      await persistOptimistically(
+        () => dataService.deleteRestaurant(restaurantId),
+        () => {
+          if (!deletedRestaurant) return;
+          setRestaurants(prev => [...prev, deletedRestaurant]);
+          setSchedules(prev => [...prev, ...deletedSchedules]);
+          setEmployees(prev => [...prev, ...deletedEmployees]);
+          if (wasCurrentRestaurant) {
+            setCurrentRestaurant(deletedRestaurant);
+          }
+        },
+        'Échec de la suppression du restaurant'
+      );
       
       console.log('✅ Restaurant and associated data deleted successfully');
     } catch (error) {
@@ -350,27 +939,44 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // CRITICAL: Get or create week-specific schedule
   const getOrCreateWeekSchedule = (restaurantId: string, weekStartDate: Date): Schedule => {
     const weekKey = format(weekStartDate, 'yyyy-MM-dd');
-    const scheduleId = `${restaurantId}-${weekKey}`;
     
-    let schedule = schedules.find(s => s.id === scheduleId);
+    // Read through the ref so several shifts added in one batch share the same new schedule
+    let schedule = schedulesRef.current.find(s => s.restaurantId === restaurantId && s.weekStartDate === weekKey);
     
     if (!schedule) {
-      console.log('🆕 Creating new week-specific schedule:', scheduleId);
-      schedule = {
-        id: scheduleId,
+      console.log('🆕 Creating new week-specific schedule:', restaurantId, weekKey);
+      const newSchedule: Schedule = {
+        id: uuidv4(),
         restaurantId,
         weekStartDate: weekKey,
         shifts: []
       };
+      schedule = newSchedule;
+      schedulesRef.current = [...schedulesRef.current, newSchedule];
       
-      setSchedules(prev => [...prev, schedule!]);
+      setSchedules(prev => [...prev, newSchedule]);
     }
     
     return schedule;
   };
 
+  // CRITICAL: Shifts of a closed payroll period are frozen, a correction is a regularization on the next period
+  const isPayrollLocked = (restaurantId: string, weekStartDate: Date, days: number[]): boolean => {
+    const lockedDates = days
+      .map(day => format(addDays(weekStartDate, day), 'yyyy-MM-dd'))
+      .filter(date => isDateInClosedPeriod(payrollPeriods, restaurantId, date));
+    if (lockedDates.length === 0) return false;
+
+    console.warn('🔒 Shift change refused, payroll period closed:', lockedDates);
+    toast.error('Période de paie clôturée : enregistrez une régularisation depuis la Paie');
+    return true;
+  };
+
   // CRITICAL: Week-isolated shift operations
-  const addShift = (shiftData: Omit<Shift, 'id'>, weekStartDate: Date) => {
+  const addShift = (shiftData: Omit<Shift, 'id'>, weekStartDate: Date): string | undefined => {
+    if (!checkPermission('schedule:edit', shiftData.restaurantId)) return;
+    if (isPayrollLocked(shiftData.restaurantId, weekStartDate, [shiftData.day])) return;
+
     const weekKey = format(weekStartDate, 'yyyy-MM-dd');
     const shiftDate = addDays(weekStartDate, shiftData.day);
     
@@ -389,8 +995,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const schedule = getOrCreateWeekSchedule(shiftData.restaurantId, weekStartDate);
     const newShift: Shift = {
       ...shiftData,
-      id: `${weekKey}-${Math.random().toString(36).substr(2, 9)}`,
-      weekStartDate: weekKey
+      id: uuidv4(),
+      weekStartDate: weekKey,
+      version: 1
     };
 
     console.log('➕ Adding shift to week:', weekKey, 'Shift ID:', newShift.id);
@@ -404,12 +1011,30 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     );
     
     setLastScheduleSave(new Date());
+
+    // Rollback of rejected operations is handled by the onOperationRejected listener
+    queueScheduleOperation({ type: 'create', shift: newShift, schedule });
+    broadcastShiftChange('create', newShift, weekKey);
+    return newShift.id;
   };
 
   const updateShift = (updatedShift: Shift, weekStartDate: Date) => {
+    if (!checkPermission('schedule:edit', updatedShift.restaurantId)) return;
+
     const weekKey = format(weekStartDate, 'yyyy-MM-dd');
     
     console.log('🔄 Updating shift in week:', weekKey, 'Shift ID:', updatedShift.id);
+
+    const weekSchedule = schedules.find(
+      s => s.weekStartDate === weekKey && s.restaurantId === updatedShift.restaurantId
+    );
+    const previousShift = weekSchedule?.shifts.find(shift => shift.id === updatedShift.id);
+    // Moving a shift out of a closed month changes that month too
+    const touchedDays = previousShift ? [previousShift.day, updatedShift.day] : [updatedShift.day];
+    if (isPayrollLocked(updatedShift.restaurantId, weekStartDate, touchedDays)) return;
+    // CRITICAL: Every edit bumps the version so concurrent edits can be detected
+    const baseVersion = previousShift?.version ?? updatedShift.version ?? 1;
+    const versionedShift: Shift = { ...updatedShift, weekStartDate: weekKey, version: baseVersion + 1 };
     
     setSchedules(prev => 
       prev.map(schedule => {
@@ -418,7 +1043,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           return {
             ...schedule,
             shifts: schedule.shifts.map(shift => 
-              shift.id === updatedShift.id ? { ...updatedShift, weekStartDate: weekKey } : shift
+              shift.id === updatedShift.id ? versionedShift : shift
             )
           };
         }
@@ -427,12 +1052,29 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     );
     
     setLastScheduleSave(new Date());
+
+    if (!weekSchedule || !previousShift) return;
+
+    queueScheduleOperation({
+      type: 'update',
+      shift: versionedShift,
+      previousShift,
+      schedule: weekSchedule
+    });
+    broadcastShiftChange('update', versionedShift, weekKey, baseVersion);
   };
 
   const deleteShift = (shiftId: string, weekStartDate: Date) => {
     const weekKey = format(weekStartDate, 'yyyy-MM-dd');
     
     console.log('🗑️ Deleting shift from week:', weekKey, 'Shift ID:', shiftId);
+
+    const weekSchedule = schedules.find(
+      s => s.weekStartDate === weekKey && s.shifts.some(shift => shift.id === shiftId)
+    );
+    const deletedShift = weekSchedule?.shifts.find(shift => shift.id === shiftId);
+    if (weekSchedule && !checkPermission('schedule:edit', weekSchedule.restaurantId)) return;
+    if (weekSchedule && deletedShift && isPayrollLocked(weekSchedule.restaurantId, weekStartDate, [deletedShift.day])) return;
     
     setSchedules(prev => 
       prev.map(schedule => {
@@ -448,18 +1090,32 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     );
     
     setLastScheduleSave(new Date());
+
+    if (!weekSchedule || !deletedShift) return;
+
+    deletedShiftsRef.current.set(deletedShift.id, deletedShift);
+    queueScheduleOperation({ type: 'delete', shift: deletedShift, schedule: weekSchedule });
+    broadcastShiftChange('delete', deletedShift, weekKey);
   };
 
   // CRITICAL: New methods for employee preferences
   const addEmployeePreference = async (preference: Omit<EmployeePreference, 'id'>) => {
+    ensurePermission('employees:manage', getEmployeeRestaurantId(preference.employeeId));
+
     try {
       const newPreference: EmployeePreference = {
         ...preference,
-        id: Math.random().toString(36).substr(2, 9)
+        id: uuidv4()
       };
 
       console.log('➕ Adding employee preference:', newPreference);
       setEmployeePreferences(prev => [...prev, newPreference]);
+
+      await persistOptimistically(
+        () => dataService.upsertEmployeePreference(newPreference),
+        () => setEmployeePreferences(prev => prev.filter(p => p.id !== newPreference.id)),
+        'Échec de l\'enregistrement des préférences'
+      );
       
       toast.success('Préférences enregistrées avec succès');
       return newPreference;
@@ -470,12 +1126,25 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const updateEmployeePreference = async (preference: EmployeePreference) => {
+    ensurePermission('employees:manage', getEmployeeRestaurantId(preference.employeeId));
+
     try {
       console.log('🔄 Updating employee preference:', preference.id);
+      const previousPreference = employeePreferences.find(p => p.id === preference.id);
       
       setEmployeePreferences(prev => 
         prev.map(p => p.id === preference.id ? preference : p)
       );
+
+      await persistOptimistically(
+        () => dataService.upsertEmployeePreference(preference),
+        () => {
+          if (previousPreference) {
+            setEmployeePreferences(prev => prev.map(p => p.id === previousPreference.id ? previousPreference : p));
+          }
+        },
+        'Échec de la mise à jour des préférences'
+      );
       
       toast.success('Préférences mises à jour avec succès');
     } catch (error) {
@@ -490,14 +1159,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   // CRITICAL: New methods for employee availability
   const addEmployeeAvailability = async (availability: Omit<EmployeeAvailability, 'id'>) => {
+    ensurePermission('employees:manage', getEmployeeRestaurantId(availability.employeeId));
+
     try {
       const newAvailability: EmployeeAvailability = {
         ...availability,
-        id: Math.random().toString(36).substr(2, 9)
+        id: uuidv4()
       };
 
       console.log('➕ Adding employee availability:', newAvailability);
       setEmployeeAvailabilities(prev => [...prev, newAvailability]);
+
+      await persistOptimistically(
+        () => dataService.insertEmployeeAvailability(newAvailability),
+        () => setEmployeeAvailabilities(prev => prev.filter(a => a.id !== newAvailability.id)),
+        'Échec de l\'enregistrement de la disponibilité'
+      );
       
       return newAvailability;
     } catch (error) {
@@ -507,12 +1184,26 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const deleteEmployeeAvailability = async (availabilityId: string) => {
+    const availabilityToDelete = employeeAvailabilities.find(a => a.id === availabilityId);
+    ensurePermission('employees:manage', availabilityToDelete && getEmployeeRestaurantId(availabilityToDelete.employeeId));
+
     try {
       console.log('🗑️ Deleting employee availability:', availabilityId);
+      const deletedAvailability = employeeAvailabilities.find(a => a.id === availabilityId);
       
       setEmployeeAvailabilities(prev => 
         prev.filter(a => a.id !== availabilityId)
       );
+
+      await persistOptimistically(
+        () => dataService.deleteEmployeeAvailability(availabilityId),
+        () => {
+          if (deletedAvailability) {
+            setEmployeeAvailabilities(prev => [...prev, deletedAvailability]);
+          }
+        },
+        'Échec de la suppression de la disponibilité'
+      );
     } catch (error) {
       console.error('Error deleting employee availability:', error);
       throw error;
@@ -523,76 +1214,605 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return employeeAvailabilities.filter(a => a.employeeId === employeeId);
   };
 
-  // CRITICAL: Check for availability conflicts
+  // CRITICAL: Check a shift of a given week against the employee's availability rules
   const checkAvailabilityConflicts = (
-    employeeId: string, 
-    day: number, 
-    startTime: string, 
+    employeeId: string,
+    weekStartDate: Date,
+    day: number,
+    startTime: string,
     endTime: string
-  ): { hasConflict: boolean; conflictType: string | null; } => {
-    // Get employee availabilities
-    const availabilities = getEmployeeAvailabilities(employeeId);
-    
-    // Check for conflicts with unavailable periods
-    const unavailablePeriods = availabilities.filter(a => 
-      a.type === 'UNAVAILABLE' && 
-      (
-        // For recurring availabilities, check day of week
-        (a.recurrence !== 'ONCE' && a.dayOfWeek === day) ||
-        // For one-time availabilities, check if it's for the specific date
-        // This would require converting the day to an actual date based on the current week
-        // For now, we'll just check recurring unavailabilities
-        false
-      )
-    );
-    
-    for (const period of unavailablePeriods) {
-      // Check if shift overlaps with unavailable period
-      if (
-        (startTime >= period.startTime && startTime < period.endTime) ||
-        (endTime > period.startTime && endTime <= period.endTime) ||
-        (startTime <= period.startTime && endTime >= period.endTime)
-      ) {
-        return { 
-          hasConflict: true, 
-          conflictType: 'UNAVAILABLE' 
-        };
+  ): AvailabilityCheck => checkAvailability(getEmployeeAvailabilities(employeeId), weekStartDate, day, startTime, endTime);
+
+  // CRITICAL: Validate, export or close a restaurant's payroll month
+  const transitionPayrollPeriod = async (
+    restaurantId: string,
+    month: string,
+    action: PayrollPeriodAction
+  ): Promise<PayrollPeriod | undefined> => {
+    if (!checkPermission('payroll:export', restaurantId)) return;
+
+    try {
+      const updated = await payrollPeriodService.transition(payrollPeriods, restaurantId, month, action, {
+        validationRequired: settings.payrollValidationRequired ?? true,
+        userId: user?.id
+      });
+      setPayrollPeriods(prev => [...prev.filter(period => period.id !== updated.id), updated]);
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to update payroll period:', error);
+      toast.error('Échec de la mise à jour de la période de paie');
+    }
+  };
+
+  // CRITICAL: Portal leave requests - any staff member of the restaurant can ask
+  const submitLeaveRequest = async (
+    request: Pick<LeaveRequest, 'restaurantId' | 'employeeId' | 'type' | 'startDate' | 'endDate' | 'reason'>
+  ): Promise<LeaveRequest | undefined> => {
+    if (!checkPermission('portal:access', request.restaurantId)) return;
+    if (!checkActingFor(request.employeeId, request.restaurantId)) return;
+
+    try {
+      const created = await leaveRequestService.submit(request, user?.id);
+      setLeaveRequests(prev => [...prev, created]);
+      toast.success('Demande envoyée');
+      return created;
+    } catch (error) {
+      console.error('❌ Failed to submit leave request:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de l\'envoi de la demande');
+    }
+  };
+
+  const cancelLeaveRequest = async (request: LeaveRequest): Promise<LeaveRequest | undefined> => {
+    if (!checkPermission('portal:access', request.restaurantId)) return;
+    if (!checkActingFor(request.employeeId, request.restaurantId)) return;
+
+    try {
+      const updated = await leaveRequestService.transition(request, 'cancelled');
+      setLeaveRequests(prev => prev.map(r => r.id === updated.id ? updated : r));
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to cancel leave request:', error);
+      toast.error('Échec de l\'annulation de la demande');
+    }
+  };
+
+  // CRITICAL: Write each day of an approved request to its week - the leave replaces the shifts of the day
+  const applyApprovedLeaveRequest = (request: LeaveRequest) => {
+    const employee = employees.find(e => e.id === request.employeeId);
+    if (!employee) return;
+
+    getLeaveRequestDates(request).forEach(date => {
+      const dateObj = parseISO(date);
+      const weekStartDate = startOfWeek(dateObj, { weekStartsOn: 1 });
+      const day = differenceInCalendarDays(dateObj, weekStartDate);
+
+      if (request.type === 'UNAVAILABLE') {
+        const timestamp = new Date().toISOString();
+        addEmployeeAvailability({
+          employeeId: request.employeeId,
+          type: 'UNAVAILABLE',
+          date,
+          startTime: '00:00',
+          endTime: '23:59',
+          recurrence: 'ONCE',
+          note: request.reason,
+          createdAt: timestamp,
+          updatedAt: timestamp
+        }).catch(error => console.error('❌ Failed to record approved unavailability:', error));
+        return;
+      }
+
+      const status = LEAVE_REQUEST_DAILY_STATUS[request.type];
+      const schedule = getOrCreateWeekSchedule(request.restaurantId, weekStartDate);
+      const dayEntries = schedule.shifts.filter(s => s.employeeId === request.employeeId && s.day === day);
+      // The weekly rest day stays as it is
+      if (dayEntries.some(s => s.status === 'WEEKLY_REST' || s.status === status)) return;
+
+      dayEntries.forEach(s => deleteShift(s.id, weekStartDate));
+      addShift({
+        restaurantId: request.restaurantId,
+        employeeId: request.employeeId,
+        day,
+        start: '',
+        end: '',
+        position: employee.position,
+        type: 'morning',
+        status
+      }, weekStartDate);
+    });
+  };
+
+  const reviewLeaveRequest = async (
+    request: LeaveRequest,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<LeaveRequest | undefined> => {
+    if (!checkPermission('leave:approve', request.restaurantId)) return;
+
+    if (decision === 'approved' && request.type !== 'UNAVAILABLE') {
+      const lockedDates = getLeaveRequestDates(request)
+        .filter(date => isDateInClosedPeriod(payrollPeriods, request.restaurantId, date));
+      if (lockedDates.length > 0) {
+        console.warn('🔒 Leave approval refused, payroll period closed:', lockedDates);
+        toast.error('Période de paie clôturée : la demande ne peut plus être approuvée');
+        return;
       }
     }
-    
-    // Check for conflicts with limited availability periods
-    const limitedPeriods = availabilities.filter(a => 
-      a.type === 'LIMITED' && 
-      (
-        (a.recurrence !== 'ONCE' && a.dayOfWeek === day) ||
-        false
-      )
-    );
-    
-    for (const period of limitedPeriods) {
-      // Check if shift overlaps with limited period
-      if (
-        (startTime >= period.startTime && startTime < period.endTime) ||
-        (endTime > period.startTime && endTime <= period.endTime) ||
-        (startTime <= period.startTime && endTime >= period.endTime)
-      ) {
-        return { 
-          hasConflict: true, 
-          conflictType: 'LIMITED' 
-        };
+
+    try {
+      const updated = await leaveRequestService.transition(request, decision, { comment, userId: user?.id });
+      setLeaveRequests(prev => prev.map(r => r.id === updated.id ? updated : r));
+      if (decision === 'approved') {
+        applyApprovedLeaveRequest(updated);
       }
+      toast.success(decision === 'approved' ? 'Demande approuvée' : 'Demande refusée');
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to review leave request:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la validation de la demande');
+    }
+  };
+
+  // CRITICAL: Portal availability changes - the employee proposes, nothing applies before review
+  const submitAvailabilityChange = async (
+    employeeId: string,
+    availabilities: EmployeeAvailability[],
+    preference?: EmployeePreferenceValues
+  ): Promise<AvailabilityChangeRequest | undefined> => {
+    const restaurantId = getEmployeeRestaurantId(employeeId);
+    if (!restaurantId || !checkPermission('portal:access', restaurantId)) return;
+    if (!checkActingFor(employeeId, restaurantId)) return;
+
+    if (availabilityChangeRequests.some(r => r.employeeId === employeeId && r.status === 'pending')) {
+      toast.error('Une demande est déjà en attente de validation');
+      return;
+    }
+
+    try {
+      const proposal = { restaurantId, employeeId, availabilities, preference };
+      const diff = diffAvailabilityChange(getEmployeeAvailabilities(employeeId), getEmployeePreferences(employeeId), proposal);
+      const created = await availabilityChangeService.submit(proposal, diff, {
+        freezeEnd: getFreezeEnd(settings.availabilityFreezeDays ?? DEFAULT_AVAILABILITY_FREEZE_DAYS),
+        userId: user?.id
+      });
+      setAvailabilityChangeRequests(prev => [...prev, created]);
+      toast.success('Demande envoyée');
+      return created;
+    } catch (error) {
+      console.error('❌ Failed to submit availability change:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de l\'envoi de la demande');
+    }
+  };
+
+  const cancelAvailabilityChange = async (request: AvailabilityChangeRequest): Promise<AvailabilityChangeRequest | undefined> => {
+    if (!checkPermission('portal:access', request.restaurantId)) return;
+    if (!checkActingFor(request.employeeId, request.restaurantId)) return;
+
+    try {
+      const updated = await availabilityChangeService.transition(request, 'cancelled');
+      setAvailabilityChangeRequests(prev => prev.map(r => r.id === updated.id ? updated : r));
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to cancel availability change:', error);
+      toast.error('Échec de l\'annulation de la demande');
+    }
+  };
+
+  const reviewAvailabilityChange = async (
+    request: AvailabilityChangeRequest,
+    decision: 'accepted' | 'rejected',
+    comment?: string
+  ): Promise<AvailabilityChangeRequest | undefined> => {
+    if (!checkPermission('employees:manage', request.restaurantId)) return;
+
+    // The freeze window moves with time: check again what the request touches today
+    const freezeEnd = getFreezeEnd(settings.availabilityFreezeDays ?? DEFAULT_AVAILABILITY_FREEZE_DAYS);
+    const currentPreference = getEmployeePreferences(request.employeeId);
+    const diff = diffAvailabilityChange(getEmployeeAvailabilities(request.employeeId), currentPreference, request);
+    if (decision === 'accepted' && getFrozenChanges(diff, freezeEnd).length > 0) {
+      toast.error('Certaines dates sont désormais dans la période gelée : refusez la demande');
+      return;
+    }
+
+    try {
+      const updated = await availabilityChangeService.transition(request, decision, { comment, userId: user?.id });
+      setAvailabilityChangeRequests(prev => prev.map(r => r.id === updated.id ? updated : r));
+
+      if (decision === 'accepted') {
+        const timestamp = new Date().toISOString();
+        await Promise.all(diff.removed.map(rule => deleteEmployeeAvailability(rule.id)));
+        // Added rules get a fresh id when stored
+        await Promise.all(diff.added.map(rule =>
+          addEmployeeAvailability({ ...applyFreezeWindow(rule, freezeEnd), createdAt: timestamp, updatedAt: timestamp })
+        ));
+
+        if (request.preference && diff.preferenceChanges.length > 0) {
+          if (currentPreference) {
+            await updateEmployeePreference({ ...currentPreference, ...request.preference, updatedAt: timestamp });
+          } else {
+            await addEmployeePreference({
+              ...request.preference,
+              employeeId: request.employeeId,
+              createdAt: timestamp,
+              updatedAt: timestamp
+            });
+          }
+        }
+      }
+
+      toast.success(decision === 'accepted' ? 'Disponibilités mises à jour' : 'Demande refusée');
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to review availability change:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la validation de la demande');
+    }
+  };
+
+  // CRITICAL: Publication - the week as it is now becomes a new version, employees get their changes
+  const publishSchedule = async (restaurantId: string, weekStartDate: Date): Promise<SchedulePublication | undefined> => {
+    if (!checkPermission('schedule:edit', restaurantId)) return;
+
+    try {
+      // What is published must be what is saved
+      await scheduleAutoSaveService.syncNow();
+      if (scheduleAutoSaveService.getState().pendingCount > 0) {
+        toast.error('Des modifications ne sont pas encore synchronisées : réessayez une fois en ligne');
+        return;
+      }
+
+      const weekKey = format(weekStartDate, 'yyyy-MM-dd');
+      const schedule = schedulesRef.current.find(s => s.restaurantId === restaurantId && s.weekStartDate === weekKey);
+      const { publication, notifications } = await schedulePublicationService.publish(
+        restaurantId,
+        weekStartDate,
+        schedule?.shifts ?? [],
+        schedulePublications,
+        user?.id
+      );
+      setSchedulePublications(prev => [...prev, publication]);
+      setScheduleNotifications(prev => [...prev, ...notifications]);
+      toast.success(`Planning publié (version ${publication.version}), ${notifications.length} employé(s) notifié(s)`);
+      return publication;
+    } catch (error) {
+      console.error('❌ Failed to publish schedule:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la publication du planning');
+    }
+  };
+
+  const unpublishSchedule = async (restaurantId: string, weekStartDate: Date): Promise<SchedulePublication | undefined> => {
+    if (!checkPermission('schedule:edit', restaurantId)) return;
+
+    const live = getLivePublication(schedulePublications, restaurantId, format(weekStartDate, 'yyyy-MM-dd'));
+    if (!live) {
+      toast.error('Cette semaine n\'est pas publiée');
+      return;
+    }
+
+    try {
+      const { publication, notifications } = await schedulePublicationService.unpublish(live, user?.id);
+      setSchedulePublications(prev => prev.map(p => p.id === publication.id ? publication : p));
+      setScheduleNotifications(prev => [...prev, ...notifications]);
+      toast.success('Planning retiré de la publication');
+      return publication;
+    } catch (error) {
+      console.error('❌ Failed to unpublish schedule:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec du retrait du planning');
+    }
+  };
+
+  const markScheduleNotificationRead = async (notification: ScheduleNotification): Promise<void> => {
+    if (notification.readAt) return;
+
+    try {
+      const updated = await schedulePublicationService.markRead(notification);
+      setScheduleNotifications(prev => prev.map(n => n.id === updated.id ? updated : n));
+    } catch (error) {
+      console.error('❌ Failed to mark schedule notification as read:', error);
+      toast.error('Échec de la mise à jour de la notification');
+    }
+  };
+
+  // CRITICAL: Shift marketplace - nothing moves in the schedule before a manager approves the claim
+  const findScheduledShift = (restaurantId: string, weekKey: string, shiftId: string): Shift | undefined =>
+    schedulesRef.current
+      .find(s => s.restaurantId === restaurantId && s.weekStartDate === weekKey)
+      ?.shifts.find(shift => shift.id === shiftId);
+
+  const checkShiftOfferCandidate = (offer: ShiftOffer, employeeId: string): ShiftOfferEligibility => {
+    const candidate = employees.find(e => e.id === employeeId);
+    if (!candidate) {
+      return { eligible: false, reasons: ['qualification'], violations: [] };
+    }
+
+    const restaurantSchedules = schedulesRef.current.filter(s => s.restaurantId === offer.restaurantId);
+    return checkShiftOfferEligibility(offer, candidate, {
+      weekShifts: restaurantSchedules.find(s => s.weekStartDate === offer.weekStartDate)?.shifts ?? [],
+      schedules: restaurantSchedules,
+      availabilities: getEmployeeAvailabilities(employeeId),
+      restaurantRulePackId: restaurants.find(r => r.id === offer.restaurantId)?.laborRulePackId
+    });
+  };
+
+  const offerShift = async (shift: Shift, weekStartDate: Date, note?: string): Promise<ShiftOffer | undefined> => {
+    if (!checkPermission('portal:access', shift.restaurantId)) return;
+
+    const weekKey = format(weekStartDate, 'yyyy-MM-dd');
+    const current = findScheduledShift(shift.restaurantId, weekKey, shift.id);
+    if (!current || current.employeeId !== shift.employeeId) {
+      toast.error('Ce créneau a changé depuis la publication du planning');
+      return;
+    }
+    if (format(addDays(weekStartDate, current.day), 'yyyy-MM-dd') < format(new Date(), 'yyyy-MM-dd')) {
+      toast.error('Ce créneau est déjà passé');
+      return;
+    }
+    if (shiftOffers.some(o => o.shift.id === current.id && (o.status === 'open' || o.status === 'claimed'))) {
+      toast.error('Ce créneau est déjà proposé');
+      return;
+    }
+
+    const employee = employees.find(e => e.id === current.employeeId);
+    if (!employee) return;
+
+    try {
+      const { employeeId, ...offered } = current;
+      const created = await shiftOfferService.create({
+        restaurantId: current.restaurantId,
+        weekStartDate: weekKey,
+        shift: offered,
+        category: employee.category,
+        offeredBy: employeeId,
+        note
+      }, user?.id);
+      setShiftOffers(prev => [...prev, created]);
+      toast.success('Créneau proposé à vos collègues');
+      return created;
+    } catch (error) {
+      console.error('❌ Failed to offer shift:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la proposition du créneau');
+    }
+  };
+
+  const postOpenShift = async (
+    shift: Omit<Shift, 'id' | 'employeeId'>,
+    weekStartDate: Date,
+    category: EmployeeCategory,
+    note?: string
+  ): Promise<ShiftOffer | undefined> => {
+    if (!checkPermission('schedule:edit', shift.restaurantId)) return;
+
+    try {
+      const created = await shiftOfferService.create({
+        restaurantId: shift.restaurantId,
+        weekStartDate: format(weekStartDate, 'yyyy-MM-dd'),
+        shift: { ...shift, id: uuidv4() },
+        category,
+        note
+      }, user?.id);
+      setShiftOffers(prev => [...prev, created]);
+      toast.success('Créneau ouvert publié');
+      return created;
+    } catch (error) {
+      console.error('❌ Failed to post open shift:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la publication du créneau');
+    }
+  };
+
+  const claimShiftOffer = async (offer: ShiftOffer, employeeId: string): Promise<ShiftOffer | undefined> => {
+    if (!checkPermission('portal:access', offer.restaurantId)) return;
+
+    if (!checkShiftOfferCandidate(offer, employeeId).eligible) {
+      toast.error('Vous ne pouvez pas prendre ce créneau');
+      return;
+    }
+
+    try {
+      const updated = await shiftOfferService.transition(offer, 'claimed', { employeeId, userId: user?.id });
+      setShiftOffers(prev => prev.map(o => o.id === updated.id ? updated : o));
+      toast.success('Demande envoyée au manager');
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to claim shift offer:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la prise du créneau');
+    }
+  };
+
+  const unclaimShiftOffer = async (offer: ShiftOffer): Promise<ShiftOffer | undefined> => {
+    if (!checkPermission('portal:access', offer.restaurantId)) return;
+    if (offer.claimedBy && !checkActingFor(offer.claimedBy, offer.restaurantId)) return;
+
+    try {
+      const updated = await shiftOfferService.transition(offer, 'unclaimed', { userId: user?.id });
+      setShiftOffers(prev => prev.map(o => o.id === updated.id ? updated : o));
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to withdraw shift claim:', error);
+      toast.error('Échec de l\'annulation de la demande');
+    }
+  };
+
+  const cancelShiftOffer = async (offer: ShiftOffer): Promise<ShiftOffer | undefined> => {
+    if (!checkPermission('portal:access', offer.restaurantId)) return;
+    // An open shift belongs to the schedule, an offered one to the employee giving it away
+    if (offer.offeredBy
+      ? !checkActingFor(offer.offeredBy, offer.restaurantId)
+      : !checkPermission('schedule:edit', offer.restaurantId)) return;
+
+    try {
+      const updated = await shiftOfferService.transition(offer, 'cancelled', { userId: user?.id });
+      setShiftOffers(prev => prev.map(o => o.id === updated.id ? updated : o));
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to cancel shift offer:', error);
+      toast.error('Échec de l\'annulation de la proposition');
+    }
+  };
+
+  const reviewShiftOffer = async (
+    offer: ShiftOffer,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<ShiftOffer | undefined> => {
+    if (!checkPermission('schedule:edit', offer.restaurantId)) return;
+
+    const weekStartDate = parseISO(offer.weekStartDate);
+    const current = offer.offeredBy
+      ? findScheduledShift(offer.restaurantId, offer.weekStartDate, offer.shift.id)
+      : undefined;
+
+    if (decision === 'approved') {
+      // The schedule may have moved since the claim: check again before writing it
+      if (offer.offeredBy && (!current || current.employeeId !== offer.offeredBy)) {
+        toast.error('Le créneau a été modifié depuis la proposition : refusez l\'échange');
+        return;
+      }
+      if (!offer.claimedBy || !checkShiftOfferCandidate(offer, offer.claimedBy).eligible) {
+        toast.error('Le salarié ne peut plus prendre ce créneau : refusez l\'échange');
+        return;
+      }
+      if (isPayrollLocked(offer.restaurantId, weekStartDate, [offer.shift.day])) return;
+    }
+
+    try {
+      if (decision === 'rejected') {
+        const updated = await shiftOfferService.transition(offer, decision, { comment, userId: user?.id });
+        setShiftOffers(prev => prev.map(o => o.id === updated.id ? updated : o));
+        toast.success('Échange refusé');
+        return updated;
+      }
+
+      const { offer: updated, shift } = await shiftOfferService.approve(offer, { comment, userId: user?.id });
+      setShiftOffers(prev => prev.map(o => o.id === updated.id ? updated : o));
+
+      if (shift) {
+        // Already written by the server with the approval: only mirror it locally
+        updateWeekShifts(shift.restaurantId, offer.weekStartDate, shifts => [...shifts.filter(s => s.id !== shift.id), shift]);
+        broadcastShiftChange(current ? 'update' : 'create', shift, offer.weekStartDate, current?.version);
+      } else if (updated.claimedBy) {
+        if (current) {
+          updateShift({ ...current, employeeId: updated.claimedBy }, weekStartDate);
+        } else {
+          addShift({ ...offer.shift, employeeId: updated.claimedBy }, weekStartDate);
+        }
+      }
+      console.log('🔁 Shift handed over:', { date: getShiftOfferDate(offer), to: updated.claimedBy });
+
+      toast.success('Échange approuvé : publiez le planning pour prévenir les employés');
+      return updated;
+    } catch (error) {
+      console.error('❌ Failed to review shift offer:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la validation de l\'échange');
+    }
+  };
+
+  // CRITICAL: Signature requests - sent by a manager, signed or rejected by the employee concerned only
+  const isSignatoryOf = (request: DocumentSignatureRequest): boolean => {
+    const employee = employees.find(e => e.id === request.employeeId);
+    if (employee?.email && profile?.email && employee.email.toLowerCase() === profile.email.toLowerCase()) return true;
+
+    toast.error('Seul le salarié concerné peut signer ce document');
+    return false;
+  };
+
+  const replaceSignatureRequest = (updated: DocumentSignatureRequest) =>
+    setSignatureRequests(prev => prev.map(r => r.id === updated.id ? updated : r));
+
+  const requestDocumentSignature = async (
+    request: Pick<DocumentSignatureRequest, 'employeeId' | 'kind' | 'title' | 'content' | 'message'>
+  ): Promise<DocumentSignatureRequest | undefined> => {
+    const employee = employees.find(e => e.id === request.employeeId);
+    if (!employee) return;
+    if (!checkPermission('documents:manage', employee.restaurantId)) return;
+
+    if (!settings.electronicSignature) {
+      toast.error('Activez la signature électronique dans les paramètres');
+      return;
+    }
+    if (signatureRequests.some(r => r.employeeId === employee.id && r.status === 'pending' && r.title.trim() === request.title.trim())) {
+      toast.error('Ce document attend déjà la signature du salarié');
+      return;
+    }
+
+    try {
+      const created = await documentSignatureService.create({ ...request, restaurantId: employee.restaurantId }, user?.id);
+      setSignatureRequests(prev => [...prev, created]);
+      toast.success('Document envoyé pour signature');
+      return created;
+    } catch (error) {
+      console.error('❌ Failed to request signature:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de l\'envoi du document');
+    }
+  };
+
+  // Stable so that the signing modal can record the opening from an effect
+  const markSignatureRequestViewed = useCallback(async (request: DocumentSignatureRequest): Promise<void> => {
+    if (request.viewedAt || request.status !== 'pending') return;
+
+    try {
+      const viewed = await documentSignatureService.markViewed(request);
+      setSignatureRequests(prev => prev.map(r => r.id === viewed.id ? viewed : r));
+    } catch (error) {
+      // Not blocking: the certificate then shows the signature time only
+      console.error('❌ Failed to record document opening:', error);
+    }
+  }, []);
+
+  const signDocument = async (
+    request: DocumentSignatureRequest,
+    signature: { method: SignatureMethod; signerName: string; image: string }
+  ): Promise<DocumentSignatureRequest | undefined> => {
+    if (!checkPermission('portal:access', request.restaurantId)) return;
+    if (!isSignatoryOf(request)) return;
+
+    try {
+      const signed = await documentSignatureService.sign(request, signature, user?.id);
+      replaceSignatureRequest(signed);
+      toast.success('Document signé');
+      return signed;
+    } catch (error) {
+      console.error('❌ Failed to sign document:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec de la signature');
+    }
+  };
+
+  const rejectSignatureRequest = async (
+    request: DocumentSignatureRequest,
+    reason: string
+  ): Promise<DocumentSignatureRequest | undefined> => {
+    if (!checkPermission('portal:access', request.restaurantId)) return;
+    if (!isSignatoryOf(request)) return;
+
+    try {
+      const rejected = await documentSignatureService.close(request, 'rejected', { reason, userId: user?.id });
+      replaceSignatureRequest(rejected);
+      toast.success('Document refusé : le manager est prévenu');
+      return rejected;
+    } catch (error) {
+      console.error('❌ Failed to reject document:', error);
+      toast.error(error instanceof Error ? error.message : 'Échec du refus du document');
+    }
+  };
+
+  const cancelSignatureRequest = async (request: DocumentSignatureRequest): Promise<DocumentSignatureRequest | undefined> => {
+    if (!checkPermission('documents:manage', request.restaurantId)) return;
+
+    try {
+      const cancelled = await documentSignatureService.close(request, 'cancelled', { userId: user?.id });
+      replaceSignatureRequest(cancelled);
+      return cancelled;
+    } catch (error) {
+      console.error('❌ Failed to cancel signature request:', error);
+      toast.error('Échec de l\'annulation de la demande de signature');
     }
-    
-    // No conflicts found
-    return { hasConflict: false, conflictType: null };
   };
 
   return (
     <AppContext.Provider
       value={{
-        restaurants,
-        employees,
-        schedules,
+        restaurants: visibleRestaurants,
+        employees: visibleEmployees,
+        schedules: visibleSchedules,
+        dataLoading,
         currentRestaurant,
         currentTab,
         setCurrentTab,
@@ -606,6 +1826,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         addShift,
         updateShift,
         deleteShift,
+        shiftConflicts,
+        resolveShiftConflict,
         showAuthModal,
         setShowAuthModal,
         addRestaurant,
@@ -621,7 +1843,36 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         addEmployeeAvailability,
         deleteEmployeeAvailability,
         getEmployeeAvailabilities,
-        checkAvailabilityConflicts
+        checkAvailabilityConflicts,
+        payrollPeriods,
+        transitionPayrollPeriod,
+        leaveRequests,
+        submitLeaveRequest,
+        reviewLeaveRequest,
+        cancelLeaveRequest,
+        availabilityChangeRequests,
+        submitAvailabilityChange,
+        reviewAvailabilityChange,
+        cancelAvailabilityChange,
+        schedulePublications,
+        scheduleNotifications,
+        publishSchedule,
+        unpublishSchedule,
+        markScheduleNotificationRead,
+        shiftOffers,
+        offerShift,
+        postOpenShift,
+        checkShiftOfferCandidate,
+        claimShiftOffer,
+        unclaimShiftOffer,
+        cancelShiftOffer,
+        reviewShiftOffer,
+        signatureRequests,
+        requestDocumentSignature,
+        markSignatureRequestViewed,
+        signDocument,
+        rejectSignatureRequest,
+        cancelSignatureRequest
       }}
     >
       {children}
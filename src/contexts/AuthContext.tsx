@@ -1,11 +1,19 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { supabase } from '../lib/supabase';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { User, Session } from '@supabase/supabase-js';
 import toast from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
+import {
+  UserRole,
+  Permission,
+  RestaurantAccess,
+  resolveRole,
+  hasPermission,
+  getAccessibleRestaurantIds
+} from '../lib/permissions';
 
 // Define user roles
-export type UserRole = 'admin' | 'manager' | 'employee';
+export type { UserRole };
 
 // Define user profile with role
 export interface UserProfile {
@@ -32,6 +40,11 @@ interface AuthContextType {
   isManager: () => boolean;
   isEmployee: () => boolean;
   hasAccess: (requiredRoles: UserRole[]) => boolean;
+  // CRITICAL: Per-restaurant permissions from restaurant_access
+  restaurantAccess: RestaurantAccess[];
+  can: (permission: Permission, restaurantId?: string) => boolean;
+  // null means every restaurant (global admin)
+  accessibleRestaurantIds: string[] | null;
 }
 
 // Create context
@@ -58,20 +71,69 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     restaurantId: '1' // First restaurant ID from mock data
   };
   
-  const [user, setUser] = useState<User | null>(mockUser);
-  const [profile, setProfile] = useState<UserProfile | null>(mockProfile);
-  const [session, setSession] = useState<Session | null>({ access_token: 'mock-token', token_type: 'bearer', user: mockUser });
-  const [loading, setLoading] = useState(false);
+  // CRITICAL: The mock admin is only used in demo mode, when Supabase is not configured
+  const [user, setUser] = useState<User | null>(isSupabaseConfigured ? null : mockUser);
+  const [profile, setProfile] = useState<UserProfile | null>(isSupabaseConfigured ? null : mockProfile);
+  const [session, setSession] = useState<Session | null>(
+    isSupabaseConfigured ? null : { access_token: 'mock-token', token_type: 'bearer', user: mockUser } as Session
+  );
+  const [loading, setLoading] = useState(isSupabaseConfigured);
+  const [restaurantAccess, setRestaurantAccess] = useState<RestaurantAccess[]>([]);
 
   // Initialize auth state
   useEffect(() => {
-    // TEMPORARY: Skip authentication initialization
-    // We're using mock data instead
-    setLoading(false);
+    if (!isSupabaseConfigured) {
+      setLoading(false);
+      return;
+    }
+
+    const applySession = async (nextSession: Session | null) => {
+      setSession(nextSession);
+      setUser(nextSession?.user ?? null);
+
+      if (nextSession?.user) {
+        await Promise.all([
+          fetchUserProfile(nextSession.user.id, nextSession.user.email),
+          fetchRestaurantAccess(nextSession.user.id)
+        ]);
+      } else {
+        setProfile(null);
+        setRestaurantAccess([]);
+      }
+
+      setLoading(false);
+    };
+
+    supabase.auth.getSession().then(({ data }) => applySession(data.session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      applySession(nextSession);
+    });
+
+    return () => subscription.unsubscribe();
   }, []);
 
+  // Fetch per-restaurant roles
+  const fetchRestaurantAccess = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('restaurant_access')
+        .select('restaurant_id, role')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      setRestaurantAccess(
+        (data || []).map(row => ({ restaurantId: row.restaurant_id, role: row.role as UserRole }))
+      );
+    } catch (error) {
+      console.error('Error fetching restaurant access:', error);
+      setRestaurantAccess([]);
+    }
+  };
+
   // Fetch user profile from database
-  const fetchUserProfile = async (userId: string) => {
+  const fetchUserProfile = async (userId: string, email?: string) => {
     try {
       // Query user_profiles table
       const { data, error } = await supabase
@@ -98,7 +160,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // If no profile exists, create a default one
         const defaultProfile: UserProfile = {
           id: userId,
-          email: user?.email || '',
+          email: email || '',
           role: 'employee'
         };
         
@@ -109,7 +171,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           .from('user_profiles')
           .insert([{
             id: userId,
-            email: user?.email,
+            email,
             role: 'employee'
           }]);
       }
@@ -214,15 +276,22 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  // Role check helpers
-  // TEMPORARY: Always return true for role checks
-  const isAdmin = () => true;
-  const isManager = () => true;
-  const isEmployee = () => true;
+  // Role check helpers - the highest role held globally or in any restaurant
+  const globalRole = profile?.role ?? null;
+  const effectiveRole = user ? resolveRole(globalRole, restaurantAccess) : null;
+
+  const isAdmin = () => effectiveRole === 'admin';
+  const isManager = () => effectiveRole === 'admin' || effectiveRole === 'manager';
+  const isEmployee = () => effectiveRole !== null;
 
   // Check if user has access based on required roles
-  // TEMPORARY: Always grant access
-  const hasAccess = (requiredRoles: UserRole[]) => true;
+  const hasAccess = (requiredRoles: UserRole[]) => effectiveRole !== null && requiredRoles.includes(effectiveRole);
+
+  // CRITICAL: Permission check, scoped to a restaurant when one is given
+  const can = (permission: Permission, restaurantId?: string) =>
+    user !== null && hasPermission(globalRole, restaurantAccess, permission, restaurantId);
+
+  const accessibleRestaurantIds = getAccessibleRestaurantIds(globalRole, restaurantAccess);
 
   // Context value
   const value = {
@@ -238,7 +307,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     isAdmin,
     isManager,
     isEmployee,
-    hasAccess
+    hasAccess,
+    restaurantAccess,
+    can,
+    accessibleRestaurantIds
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -11,6 +11,7 @@ export default {
       staffMember: 'Staff Member',
       selectRestaurant: 'Select Restaurant',
       selectRestaurantPrompt: 'Please select a restaurant from the sidebar.',
+      accessDenied: 'You do not have access to this page.',
       exportPDF: 'Export PDF',
       cancel: 'Cancel',
       save: 'Save',
@@ -82,6 +83,10 @@ export default {
         autoSave: 'Auto-Save',
         weekStart: 'Week Starts On',
         payBreakTimes: 'Pay Break Times',
+        availabilityFreezeDays: 'Availability freeze window (days)',
+        availabilityFreezeDaysHint: 'Changes employees make from their portal only apply after this many days',
+        publicationNoticeDays: 'Schedule notice period (days)',
+        publicationNoticeDaysHint: 'Published changes to days closer than this are flagged as late notice',
         payBreakTimesDescription: 'Include break times in worked hours calculations',
         default: 'Default'
       },
@@ -327,6 +332,183 @@ export default {
       noEmployeeRecord: 'No employee record found',
       timeClockUnavailable: 'Time clock is not available',
     },
+    leave: {
+      title: 'Leave Balances',
+      paidLeave: 'Paid leave (CP)',
+      acquired: 'Acquired in previous periods',
+      accruing: 'Accruing ({{start}} – {{end}})',
+      taken: 'Taken or planned',
+      adjustments: 'Adjustments',
+      balance: 'Balance',
+      rtt: 'RTT',
+      reposCompensateur: 'Compensatory rest',
+      days: '{{value}} d',
+      hours: '{{value}} h',
+      negativeBalance: 'Negative balance: leave taken in advance of accrual',
+      history: 'Ledger',
+      sourceAccrual: 'Monthly accrual',
+      sourceTaken: 'CP day',
+      addEntry: 'Add a movement',
+      counter: 'Counter',
+      amount: 'Amount',
+      amountHint: 'Days for CP and RTT, hours for compensatory rest. Negative to debit.',
+      date: 'Date',
+      reason: 'Reason',
+      entryAdded: 'Movement recorded',
+      entryFailed: 'Failed to record the movement',
+      loadFailed: 'Failed to load the leave ledger',
+      noMovements: 'No movements yet',
+      cpAfterDay: 'CP balance: {{balance}} d, {{after}} d once this day is placed',
+      cpWillBeNegative: 'This CP day brings the balance to {{after}} days (leave taken in advance)',
+    },
+    leaveRequests: {
+      title: 'My leave requests',
+      inboxTitle: 'Leave requests',
+      type: 'Type',
+      types: {
+        CP: 'Paid leave (CP)',
+        ABSENCE: 'Unpaid absence',
+        UNAVAILABLE: 'Unavailability'
+      },
+      status: {
+        pending: 'Pending',
+        approved: 'Approved',
+        rejected: 'Rejected',
+        cancelled: 'Cancelled'
+      },
+      startDate: 'From',
+      endDate: 'To',
+      reasonPlaceholder: 'Reason (optional)',
+      submit: 'Send request',
+      cancel: 'Withdraw',
+      noRequests: 'No leave requests',
+      filter: 'Filter',
+      allRequests: 'All requests',
+      period_one: '{{start}} to {{end}} ({{count}} day)',
+      period_other: '{{start}} to {{end}} ({{count}} days)',
+      managerComment: 'Manager comment',
+      unknownEmployee: 'Unknown employee',
+      conflicts_one: '{{count}} shift already scheduled on these dates',
+      conflicts_other: '{{count}} shifts already scheduled on these dates',
+      commentPlaceholder: 'Comment for the employee',
+      approve: 'Approve',
+      reject: 'Reject',
+      rejectHint: 'A comment is required to reject'
+    },
+    availabilityChanges: {
+      title: 'My availability',
+      inboxTitle: 'Availability changes',
+      freezeNotice: 'Schedules are frozen for {{days}} days: changes apply from {{date}}',
+      editAvailability_one: 'Edit my availability ({{count}} rule)',
+      editAvailability_other: 'Edit my availability ({{count}} rules)',
+      editPreferences: 'Edit my preferences',
+      draft: 'Changes not sent yet',
+      submit: 'Send for review',
+      discard: 'Discard',
+      pendingReview: 'Waiting for your manager\'s review',
+      lastRejected: 'Your last change was rejected: {{comment}}',
+      noRequests: 'No availability changes',
+      submittedOn: 'Sent on {{date}}',
+      startsOn: 'from {{date}}',
+      frozenDates: 'These dates are now inside the freeze window: {{dates}}',
+      accept: 'Accept',
+      status: {
+        pending: 'Pending',
+        accepted: 'Accepted',
+        rejected: 'Rejected',
+        cancelled: 'Cancelled'
+      },
+      fields: {
+        preferredDays: 'Preferred days',
+        preferredShifts: 'Preferred shifts',
+        preferredPositions: 'Positions',
+        preferredHours: 'Weekly hours',
+        notes: 'Notes'
+      }
+    },
+    shiftOffers: {
+      inboxTitle: 'Shift swaps',
+      portalTitle: 'Shift swaps',
+      status: {
+        open: 'Open',
+        claimed: 'Claimed',
+        approved: 'Approved',
+        rejected: 'Rejected',
+        cancelled: 'Cancelled'
+      },
+      openShift: 'Open shift',
+      offeredBy: 'Offered by {{name}}',
+      claimedBy: 'Claimed by {{name}}',
+      postOpenShift: 'Post an open shift',
+      date: 'Date',
+      position: 'Position',
+      category: 'Team',
+      notePlaceholder: 'Reason or details (optional)',
+      post: 'Post',
+      approve: 'Approve',
+      offerShift: 'Offer one of my shifts',
+      selectShift: 'Select a shift',
+      offer: 'Offer',
+      noShiftToOffer: 'No upcoming published shift to offer',
+      myOffers: 'My offers',
+      available: 'Shifts you can take',
+      noAvailable: 'No shift to take at the moment',
+      claim: 'Take this shift',
+      unclaim: 'Withdraw',
+      awaitingApproval: 'Waiting for the manager',
+      noOffers: 'No shift offer',
+      ineligible: 'Cannot take it: {{reasons}}',
+      reasons: {
+        self: 'Own shift',
+        qualification: 'Other position or team',
+        contract: 'Outside the contract',
+        unavailable: 'Unavailable',
+        busy: 'Already working or absent',
+        labor_law: 'Labor-law violation'
+      }
+    },
+    signatures: {
+      requestSignature: 'Request signature',
+      requestTitle: 'Send a document for signature',
+      employee: 'Employee',
+      kind: 'Document',
+      kinds: {
+        contract: 'Employment contract',
+        amendment: 'Contract amendment'
+      },
+      documentTitle: 'Title',
+      content: 'Text to sign',
+      messagePlaceholder: 'Message to the employee (optional)',
+      frozenHint: 'Once sent, the text is fingerprinted (SHA-256) and can no longer be changed: cancel and send a new document to correct it.',
+      send: 'Send for signature',
+      requestedOn: 'Sent for signature on {{date}}',
+      viewedOn: 'Opened by the employee on {{date}}',
+      signedOn: 'Signed on {{date}} by {{name}}',
+      rejectionReason: 'Rejected: {{reason}}',
+      awaitingYou_one: '{{count}} document is awaiting your signature',
+      awaitingYou_other: '{{count}} documents are awaiting your signature',
+      methods: {
+        drawn: 'Draw',
+        typed: 'Type'
+      },
+      drawHere: 'Sign in the box with your finger or mouse',
+      clear: 'Clear',
+      typeName: 'Your full name',
+      consent: 'I have read the whole document and I sign it electronically. I agree that this signature has the same value as a handwritten one.',
+      sign: 'Sign',
+      reviewAndSign: 'Review and sign',
+      reject: 'Reject',
+      rejectPlaceholder: 'Why do you reject this document?',
+      confirmReject: 'Reject the document',
+      backToSigning: 'Back to signing',
+      cancelRequest: 'Cancel the signature request',
+      cancelConfirm: 'Cancel this signature request? The employee will no longer be able to sign it.',
+      integrityOk: 'Integrity verified: the document and signature match their fingerprints',
+      integrityFailed: 'Integrity check failed: the document or signature was altered',
+      downloadSigned: 'Download signed PDF and certificate',
+      signedSuffix: 'signed',
+      pdfError: 'Failed to generate the PDF'
+    },
     timeclock: {
       title: 'Time Clock',
       clockIn: 'Clock In',
@@ -378,7 +560,7 @@ export default {
       expired: 'Expired',
       endingSoon: 'Ending Soon',
       cp: 'Paid Leave',
-      public_holiday: 'May 1st Holiday',
+      public_holiday: 'Public Holiday',
       public_holiday_worked: 'Worked Holiday (100% premium)', 
       workedOnHoliday: 'Worked holiday (100% premium)',
       workingDay: 'Normal working day',
@@ -386,7 +568,7 @@ export default {
         VACATION: 'Vacation',
         SICK_LEAVE: 'Sick leave',
         PERSONAL_LEAVE: 'Personal leave',
-        PUBLIC_HOLIDAY: 'May 1st Holiday',
+        PUBLIC_HOLIDAY: 'Public Holiday',
         TRAINING: 'Training',
         UNPAID_LEAVE: 'Unpaid leave'
       },
@@ -473,8 +655,131 @@ export default {
       saveFailed: 'Save failed. Try again',
       savedJustNow: 'just now',
       savedMinutesAgo: '{{minutes}}m ago',
+      pendingSync_one: '{{count}} change pending sync',
+      pendingSync_other: '{{count}} changes pending sync',
+      offlineMode: 'offline',
+      // CRITICAL: Real-time collaboration
+      viewingThisWeek_one: 'also viewing this week',
+      viewingThisWeek_other: '{{count}} others viewing this week',
+      viewingOtherWeek: '{{name}} · week of {{week}}',
+      conflictTitle: 'Conflicting changes',
+      conflictDescription: '{{name}} changed this shift while you were editing it',
+      conflictAnotherUser: 'Another user',
+      conflictField: 'Field',
+      conflictMine: 'My version',
+      conflictTheirs: 'Version of {{name}}',
+      conflictNoDifference: 'Both versions are identical.',
+      conflictDeletedRemotely: '{{name}} deleted this shift while you were editing it.',
+      conflictDeletedLocally: 'You deleted this shift while {{name}} was editing it.',
+      conflictTakeTheirs: 'Take theirs',
+      conflictKeepMine: 'Keep mine',
+      conflictApplyMerge: 'Apply merge',
+      conflictDeleteShift: 'Delete shift',
+      conflictKeepShift: 'Keep shift',
+      conflictFields: {
+        employeeId: 'Employee',
+        day: 'Day',
+        start: 'Start',
+        end: 'End',
+        position: 'Position',
+        type: 'Type',
+        status: 'Status',
+        isHolidayWorked: 'Holiday worked',
+        hasCoupure: 'Split shift',
+        coupureStart: 'Break start',
+        coupureEnd: 'Break end'
+      },
       autoSaveEnabled: 'Auto-save enabled',
       autoSaveDisabled: 'Auto-save disabled',
+      autoGenerate: {
+        button: 'Auto-generate week',
+        title: 'Generate the week automatically',
+        description: 'Fills the week from staffing needs, availabilities, preferences and contract hours',
+        requirements: 'Staffing requirements',
+        noRequirements: 'No requirement yet. Add one row per position and service.',
+        addRequirement: 'Add requirement',
+        copyToAllDays: 'Copy to every day',
+        headcount: 'Staff',
+        generate: 'Generate',
+        apply: 'Apply to schedule',
+        preview: 'Generated shifts',
+        generatedCount_one: '{{count}} shift generated with no critical labor law violation',
+        generatedCount_other: '{{count}} shifts generated with no critical labor law violation',
+        restDaysAdded_one: '{{count}} weekly rest day added',
+        restDaysAdded_other: '{{count}} weekly rest days added',
+        existingViolations_one: 'The shifts already planned this week contain {{count}} critical violation',
+        existingViolations_other: 'The shifts already planned this week contain {{count}} critical violations',
+        unfilledTitle: 'Slots that could not be filled',
+        missing_one: '{{count}} person missing',
+        missing_other: '{{count}} people missing',
+        reasons: {
+          noQualifiedEmployee: 'No employee holds this position',
+          position: 'Different position',
+          contract_period: 'Outside contract period',
+          absent: 'Absent or resting that day',
+          already_working: 'Already working at that time',
+          unavailable: 'Marked as unavailable',
+          max_daily_hours: 'Would exceed 10 hours that day',
+          contract_hours: 'Contract hours already reached',
+          daily_rest: 'Would break the 11-hour daily rest',
+          weekly_rest: 'No weekly rest day left',
+          labor_law: 'Labor law violation'
+        }
+      },
+      staffing: {
+        button: 'Staffing ratios',
+        title: 'Forecast staffing model',
+        description: 'Covers one person can handle per service, used to turn the covers forecast into a target headcount',
+        target: 'Target staffing',
+        forecastCovers_one: '≈ {{count}} cover',
+        forecastCovers_other: '≈ {{count}} covers',
+        service: 'Service',
+        services: {
+          lunch: 'Lunch',
+          dinner: 'Dinner'
+        },
+        lunchShare: 'Covers at lunch (%)',
+        lunchShareHint: 'Used when the POS data has no lunch/dinner split',
+        coversPerStaff: 'Covers per person',
+        minimum: 'Minimum',
+        fixedHint: '0 covers per person means a fixed headcount equal to the minimum',
+        addRatio: 'Add a ratio',
+        resetDefaults: 'Reset to defaults',
+        noForecast: 'No sales history for this restaurant yet: target headcounts will appear in the schedule once POS data is available.',
+        understaffed: 'Understaffed',
+        overstaffed: 'Overstaffed',
+        useForecast: 'Use the forecast'
+      },
+      publication: {
+        draft: 'Draft - not published',
+        published: 'Published · version {{version}}',
+        withdrawn: 'Withdrawn · version {{version}}',
+        publishedOn: 'on {{date}}',
+        pendingChanges_one: '{{count}} change not published yet',
+        pendingChanges_other: '{{count}} changes not published yet',
+        upToDate: 'Employees see the current schedule',
+        publish: 'Publish',
+        republish: 'Publish changes',
+        unpublish: 'Withdraw',
+        unpublishConfirm: 'Withdraw this week? Employees will no longer see it and will be notified.',
+        history: 'Versions',
+        noHistory: 'This week has never been published',
+        version: 'Version {{version}}',
+        firstVersion: 'First publication',
+        noChanges: 'No change',
+        lateNotice_one: '{{count}} change less than {{days}} days ahead',
+        lateNotice_other: '{{count}} changes less than {{days}} days ahead',
+        lateHint: 'The planning must be communicated in advance: keep the employee\'s agreement or the reason for late changes',
+        late: 'Late notice',
+        notificationsTitle: 'Schedule updates',
+        notificationKinds: {
+          published: 'Your schedule for the week of {{date}} is published',
+          updated: 'Your schedule for the week of {{date}} changed',
+          withdrawn: 'The schedule for the week of {{date}} was withdrawn'
+        },
+        markRead: 'Got it',
+        noNotifications: 'No new schedule update'
+      },
     },
     weather: {
       forecast: 'Weather Forecast',
@@ -512,6 +817,8 @@ export default {
       contractType: 'Contract Type',
       startDate: 'Start Date',
       endDate: 'End Date',
+      laborRulePack: 'Labor rules',
+      laborRulePackDefault: "Restaurant's rules",
       weeklyHours: 'Weekly Contractual Hours Base',
       weeklyHoursDesc: 'Standard weekly hours as per contract',
       notificationDays: 'Notification Days Before Contract End',
@@ -548,6 +855,28 @@ export default {
       hourlyRate: 'Hourly Rate',
       grossMonthlySalary: 'Gross Monthly Salary',
       monthlyHours: 'Monthly Hours',
+      kioskAccess: 'Time Clock Access',
+      kioskPinSet: 'PIN set',
+      kioskPinNotSet: 'No PIN',
+      kioskLockedUntil: 'Locked until {{time}}',
+      kioskNewPin: 'New PIN',
+      kioskConfirmPin: 'Confirm PIN',
+      kioskSavePin: 'Save PIN',
+      kioskPinHint: '4 to 6 digits. The PIN is stored hashed and cannot be displayed again.',
+      kioskRemovePin: 'Remove PIN',
+      kioskUnlock: 'Unlock',
+      kioskRegenerateBadge: 'Regenerate QR badge',
+      kioskBadgeHint: 'Regenerating the badge invalidates the previously printed one. Badges are printed from the directory.',
+      kioskPinInvalid: 'The PIN must be 4 to 6 digits',
+      kioskPinMismatch: 'The PINs do not match',
+      kioskPinSaved: 'PIN saved',
+      kioskPinRemoved: 'PIN removed',
+      kioskUnlocked: 'Time clock access unlocked',
+      kioskBadgeRegenerated: 'New QR badge issued',
+      kioskUpdateFailed: 'Failed to update time clock access',
+      kioskAfterCreation: 'The time clock PIN and QR badge can be set once the employee is created.',
+      badges: 'QR Badges',
+      badgesExportFailed: 'Failed to generate badges',
     },
     positions: {
       operationsmanager: 'Operations Manager',
@@ -610,6 +939,21 @@ export default {
       postalCode: 'Postal Code',
       city: 'City',
       country: 'Country',
+      laborRulePack: 'Labor rules',
+      laborRulePackHint: 'Collective agreement and country rules used to check schedules. Employees under 18 automatically get the stricter minors rules.',
+      punchRules: 'Time clock',
+      punchRulesHint: 'How punches become paid hours. Applied to timesheets and payroll.',
+      punchRounding: 'Punch rounding',
+      punchRoundingNone: 'No rounding',
+      punchRoundingNearest: 'Nearest',
+      punchRoundingUp: 'Up',
+      punchRoundingDown: 'Down',
+      punchRoundingIncrement: 'Rounding increment',
+      arrivalGrace: 'Arrival grace (minutes)',
+      departureGrace: 'Departure grace (minutes)',
+      autoClockOutHours: 'Automatic clock-out after (hours)',
+      autoClockOutOff: 'Off',
+      autoClockOutHint: 'A punch still open after this delay is closed automatically and flagged for review.',
       phone: 'Phone Number',
       website: 'Website URL',
       manager: 'Restaurant Manager',
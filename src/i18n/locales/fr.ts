@@ -11,6 +11,7 @@ export default {
       staffMember: 'Membre du Personnel',
       selectRestaurant: 'Sélectionner un Restaurant',
       selectRestaurantPrompt: 'Veuillez sélectionner un restaurant dans la barre latérale.',
+      accessDenied: "Vous n'avez pas accès à cette page.",
       exportPDF: 'Exporter en PDF',
       cancel: 'Annuler',
       save: 'Enregistrer',
@@ -82,6 +83,10 @@ export default {
         autoSave: 'Sauvegarde Automatique',
         weekStart: 'Début de la Semaine',
         payBreakTimes: 'Rémunérer les Temps de Pause',
+        availabilityFreezeDays: 'Période de gel des disponibilités (jours)',
+        availabilityFreezeDaysHint: 'Les changements faits par les employés depuis leur portail ne s\'appliquent qu\'après ce délai',
+        publicationNoticeDays: 'Délai de prévenance du planning (jours)',
+        publicationNoticeDaysHint: 'Les modifications publiées sur des jours plus proches sont signalées comme hors délai',
         payBreakTimesDescription: 'Inclure les temps de pause dans le calcul des heures travaillées',
         default: 'Par défaut'
       },
@@ -292,6 +297,183 @@ export default {
       noEmployeeRecord: 'Aucun dossier employé trouvé',
       timeClockUnavailable: 'La badgeuse n\'est pas disponible',
     },
+    leave: {
+      title: 'Soldes de Congés',
+      paidLeave: 'Congés payés (CP)',
+      acquired: 'Acquis des périodes précédentes',
+      accruing: 'En cours d\'acquisition ({{start}} – {{end}})',
+      taken: 'Pris ou planifiés',
+      adjustments: 'Ajustements',
+      balance: 'Solde',
+      rtt: 'RTT',
+      reposCompensateur: 'Repos compensateur',
+      days: '{{value}} j',
+      hours: '{{value}} h',
+      negativeBalance: 'Solde négatif : congés pris par anticipation',
+      history: 'Historique',
+      sourceAccrual: 'Acquisition mensuelle',
+      sourceTaken: 'Jour de CP',
+      addEntry: 'Ajouter un mouvement',
+      counter: 'Compteur',
+      amount: 'Quantité',
+      amountHint: 'Jours pour les CP et RTT, heures pour le repos compensateur. Négatif pour débiter.',
+      date: 'Date',
+      reason: 'Motif',
+      entryAdded: 'Mouvement enregistré',
+      entryFailed: 'Échec de l\'enregistrement du mouvement',
+      loadFailed: 'Échec du chargement des congés',
+      noMovements: 'Aucun mouvement',
+      cpAfterDay: 'Solde CP : {{balance}} j, {{after}} j une fois ce jour posé',
+      cpWillBeNegative: 'Ce jour de CP porte le solde à {{after}} jours (congés pris par anticipation)',
+    },
+    leaveRequests: {
+      title: 'Mes demandes de congés',
+      inboxTitle: 'Demandes de congés',
+      type: 'Type',
+      types: {
+        CP: 'Congés payés (CP)',
+        ABSENCE: 'Absence non rémunérée',
+        UNAVAILABLE: 'Indisponibilité'
+      },
+      status: {
+        pending: 'En attente',
+        approved: 'Approuvée',
+        rejected: 'Refusée',
+        cancelled: 'Annulée'
+      },
+      startDate: 'Du',
+      endDate: 'Au',
+      reasonPlaceholder: 'Motif (facultatif)',
+      submit: 'Envoyer la demande',
+      cancel: 'Retirer',
+      noRequests: 'Aucune demande de congés',
+      filter: 'Filtre',
+      allRequests: 'Toutes les demandes',
+      period_one: 'Du {{start}} au {{end}} ({{count}} jour)',
+      period_other: 'Du {{start}} au {{end}} ({{count}} jours)',
+      managerComment: 'Commentaire du responsable',
+      unknownEmployee: 'Employé inconnu',
+      conflicts_one: '{{count}} service déjà planifié sur ces dates',
+      conflicts_other: '{{count}} services déjà planifiés sur ces dates',
+      commentPlaceholder: 'Commentaire pour l\'employé',
+      approve: 'Approuver',
+      reject: 'Refuser',
+      rejectHint: 'Un commentaire est obligatoire pour refuser'
+    },
+    availabilityChanges: {
+      title: 'Mes disponibilités',
+      inboxTitle: 'Changements de disponibilité',
+      freezeNotice: 'Les plannings sont gelés sur {{days}} jours : les changements s\'appliquent à partir du {{date}}',
+      editAvailability_one: 'Modifier mes disponibilités ({{count}} règle)',
+      editAvailability_other: 'Modifier mes disponibilités ({{count}} règles)',
+      editPreferences: 'Modifier mes préférences',
+      draft: 'Changements non envoyés',
+      submit: 'Envoyer pour validation',
+      discard: 'Annuler les changements',
+      pendingReview: 'En attente de validation par votre responsable',
+      lastRejected: 'Votre dernier changement a été refusé : {{comment}}',
+      noRequests: 'Aucun changement de disponibilité',
+      submittedOn: 'Envoyé le {{date}}',
+      startsOn: 'à partir du {{date}}',
+      frozenDates: 'Ces dates sont désormais dans la période gelée : {{dates}}',
+      accept: 'Accepter',
+      status: {
+        pending: 'En attente',
+        accepted: 'Acceptée',
+        rejected: 'Refusée',
+        cancelled: 'Annulée'
+      },
+      fields: {
+        preferredDays: 'Jours préférés',
+        preferredShifts: 'Services préférés',
+        preferredPositions: 'Postes',
+        preferredHours: 'Heures hebdomadaires',
+        notes: 'Notes'
+      }
+    },
+    shiftOffers: {
+      inboxTitle: 'Échanges de créneaux',
+      portalTitle: 'Échanges de créneaux',
+      status: {
+        open: 'Ouvert',
+        claimed: 'Demandé',
+        approved: 'Approuvé',
+        rejected: 'Refusé',
+        cancelled: 'Annulé'
+      },
+      openShift: 'Créneau ouvert',
+      offeredBy: 'Proposé par {{name}}',
+      claimedBy: 'Demandé par {{name}}',
+      postOpenShift: 'Publier un créneau ouvert',
+      date: 'Date',
+      position: 'Poste',
+      category: 'Équipe',
+      notePlaceholder: 'Motif ou précisions (facultatif)',
+      post: 'Publier',
+      approve: 'Approuver',
+      offerShift: 'Proposer un de mes créneaux',
+      selectShift: 'Choisir un créneau',
+      offer: 'Proposer',
+      noShiftToOffer: 'Aucun créneau publié à venir à proposer',
+      myOffers: 'Mes propositions',
+      available: 'Créneaux que vous pouvez prendre',
+      noAvailable: 'Aucun créneau à prendre pour le moment',
+      claim: 'Prendre ce créneau',
+      unclaim: 'Retirer',
+      awaitingApproval: 'En attente du manager',
+      noOffers: 'Aucun échange de créneau',
+      ineligible: 'Ne peut pas le prendre : {{reasons}}',
+      reasons: {
+        self: 'Son propre créneau',
+        qualification: 'Autre poste ou équipe',
+        contract: 'Hors contrat',
+        unavailable: 'Indisponible',
+        busy: 'Déjà planifié ou absent',
+        labor_law: 'Infraction au droit du travail'
+      }
+    },
+    signatures: {
+      requestSignature: 'Demander une signature',
+      requestTitle: 'Envoyer un document à signer',
+      employee: 'Employé',
+      kind: 'Document',
+      kinds: {
+        contract: 'Contrat de travail',
+        amendment: 'Avenant au contrat'
+      },
+      documentTitle: 'Titre',
+      content: 'Texte à signer',
+      messagePlaceholder: 'Message au salarié (facultatif)',
+      frozenHint: 'Une fois envoyé, le texte reçoit une empreinte (SHA-256) et ne peut plus être modifié : annulez et envoyez un nouveau document pour le corriger.',
+      send: 'Envoyer pour signature',
+      requestedOn: 'Envoyé pour signature le {{date}}',
+      viewedOn: 'Ouvert par le salarié le {{date}}',
+      signedOn: 'Signé le {{date}} par {{name}}',
+      rejectionReason: 'Refusé : {{reason}}',
+      awaitingYou_one: '{{count}} document attend votre signature',
+      awaitingYou_other: '{{count}} documents attendent votre signature',
+      methods: {
+        drawn: 'Tracer',
+        typed: 'Saisir'
+      },
+      drawHere: 'Signez dans le cadre avec le doigt ou la souris',
+      clear: 'Effacer',
+      typeName: 'Vos nom et prénom',
+      consent: "J'ai lu l'intégralité du document et je le signe électroniquement. J'accepte que cette signature ait la même valeur qu'une signature manuscrite.",
+      sign: 'Signer',
+      reviewAndSign: 'Relire et signer',
+      reject: 'Refuser',
+      rejectPlaceholder: 'Pourquoi refusez-vous ce document ?',
+      confirmReject: 'Refuser le document',
+      backToSigning: 'Revenir à la signature',
+      cancelRequest: 'Annuler la demande de signature',
+      cancelConfirm: 'Annuler cette demande de signature ? Le salarié ne pourra plus signer le document.',
+      integrityOk: "Intégrité vérifiée : le document et la signature correspondent à leurs empreintes",
+      integrityFailed: 'Échec de la vérification : le document ou la signature a été modifié',
+      downloadSigned: 'Télécharger le PDF signé et le certificat',
+      signedSuffix: 'signé',
+      pdfError: 'Échec de la génération du PDF'
+    },
     timeclock: {
       title: 'Badgeuse',
       clockIn: 'Arrivée',
@@ -343,7 +525,7 @@ export default {
       expired: 'Expiré',
       endingSoon: 'Se termine bientôt',
       cp: 'Congé Payé',
-      public_holiday: 'Férié 1er Mai',
+      public_holiday: 'Férié',
       public_holiday_worked: 'Férié Travaillé (majoré 100%)', 
       workedOnHoliday: 'Férié travaillé (majoré 100%)',
       workingDay: 'Journée de travail normale',
@@ -351,7 +533,7 @@ export default {
         VACATION: 'Congés payés',
         SICK_LEAVE: 'Maladie',
         PERSONAL_LEAVE: 'Congé personnel',
-        PUBLIC_HOLIDAY: 'Férié 1er Mai',
+        PUBLIC_HOLIDAY: 'Férié',
         TRAINING: 'Formation',
         UNPAID_LEAVE: 'Congé sans solde'
       },
@@ -438,8 +620,131 @@ export default {
       saveFailed: 'Échec de la sauvegarde. Réessayez',
       savedJustNow: 'à l\'instant',
       savedMinutesAgo: 'il y a {{minutes}}m',
+      pendingSync_one: '{{count}} modification en attente de synchronisation',
+      pendingSync_other: '{{count}} modifications en attente de synchronisation',
+      offlineMode: 'hors ligne',
+      // CRITICAL: Collaboration en temps réel
+      viewingThisWeek_one: 'consulte aussi cette semaine',
+      viewingThisWeek_other: '{{count}} autres personnes consultent cette semaine',
+      viewingOtherWeek: '{{name}} · semaine du {{week}}',
+      conflictTitle: 'Modifications concurrentes',
+      conflictDescription: '{{name}} a modifié ce service pendant que vous le modifiiez',
+      conflictAnotherUser: 'Un autre utilisateur',
+      conflictField: 'Champ',
+      conflictMine: 'Ma version',
+      conflictTheirs: 'Version de {{name}}',
+      conflictNoDifference: 'Les deux versions sont identiques.',
+      conflictDeletedRemotely: '{{name}} a supprimé ce service pendant que vous le modifiiez.',
+      conflictDeletedLocally: 'Vous avez supprimé ce service pendant que {{name}} le modifiait.',
+      conflictTakeTheirs: 'Prendre sa version',
+      conflictKeepMine: 'Garder la mienne',
+      conflictApplyMerge: 'Fusionner',
+      conflictDeleteShift: 'Supprimer le service',
+      conflictKeepShift: 'Garder le service',
+      conflictFields: {
+        employeeId: 'Employé',
+        day: 'Jour',
+        start: 'Début',
+        end: 'Fin',
+        position: 'Poste',
+        type: 'Type',
+        status: 'Statut',
+        isHolidayWorked: 'Férié travaillé',
+        hasCoupure: 'Coupure',
+        coupureStart: 'Début de coupure',
+        coupureEnd: 'Fin de coupure'
+      },
       autoSaveEnabled: 'Sauvegarde automatique activée',
       autoSaveDisabled: 'Sauvegarde automatique désactivée',
+      autoGenerate: {
+        button: 'Générer la semaine',
+        title: 'Génération automatique de la semaine',
+        description: 'Remplit la semaine selon les besoins en personnel, les disponibilités, les préférences et les heures contractuelles',
+        requirements: 'Besoins en personnel',
+        noRequirements: 'Aucun besoin défini. Ajoutez une ligne par poste et par service.',
+        addRequirement: 'Ajouter un besoin',
+        copyToAllDays: 'Copier sur tous les jours',
+        headcount: 'Effectif',
+        generate: 'Générer',
+        apply: 'Appliquer au planning',
+        preview: 'Services générés',
+        generatedCount_one: '{{count}} service généré sans violation critique du droit du travail',
+        generatedCount_other: '{{count}} services générés sans violation critique du droit du travail',
+        restDaysAdded_one: '{{count}} repos hebdomadaire ajouté',
+        restDaysAdded_other: '{{count}} repos hebdomadaires ajoutés',
+        existingViolations_one: 'Les services déjà planifiés cette semaine contiennent {{count}} violation critique',
+        existingViolations_other: 'Les services déjà planifiés cette semaine contiennent {{count}} violations critiques',
+        unfilledTitle: 'Créneaux non pourvus',
+        missing_one: '{{count}} personne manquante',
+        missing_other: '{{count}} personnes manquantes',
+        reasons: {
+          noQualifiedEmployee: 'Aucun employé n\'occupe ce poste',
+          position: 'Poste différent',
+          contract_period: 'Hors période contractuelle',
+          absent: 'Absent ou en repos ce jour-là',
+          already_working: 'Déjà en service sur ce créneau',
+          unavailable: 'Indiqué comme indisponible',
+          max_daily_hours: 'Dépasserait 10h de travail ce jour-là',
+          contract_hours: 'Heures contractuelles déjà atteintes',
+          daily_rest: 'Ne respecterait pas les 11h de repos quotidien',
+          weekly_rest: 'Plus de jour disponible pour le repos hebdomadaire',
+          labor_law: 'Violation du droit du travail'
+        }
+      },
+      staffing: {
+        button: 'Ratios de personnel',
+        title: 'Effectifs prévisionnels',
+        description: 'Couverts qu\'une personne peut assurer par service, pour convertir la prévision de couverts en effectif cible',
+        target: 'Effectif cible',
+        forecastCovers_one: '≈ {{count}} couvert',
+        forecastCovers_other: '≈ {{count}} couverts',
+        service: 'Service',
+        services: {
+          lunch: 'Midi',
+          dinner: 'Soir'
+        },
+        lunchShare: 'Couverts le midi (%)',
+        lunchShareHint: 'Utilisé quand les données de caisse ne distinguent pas midi et soir',
+        coversPerStaff: 'Couverts par personne',
+        minimum: 'Minimum',
+        fixedHint: '0 couvert par personne = effectif fixe égal au minimum',
+        addRatio: 'Ajouter un ratio',
+        resetDefaults: 'Valeurs par défaut',
+        noForecast: 'Aucun historique de ventes pour ce restaurant : les effectifs cibles apparaîtront dans le planning dès que des données de caisse seront disponibles.',
+        understaffed: 'Sous-effectif',
+        overstaffed: 'Sureffectif',
+        useForecast: 'Utiliser la prévision'
+      },
+      publication: {
+        draft: 'Brouillon - non publié',
+        published: 'Publié · version {{version}}',
+        withdrawn: 'Retiré · version {{version}}',
+        publishedOn: 'le {{date}}',
+        pendingChanges_one: '{{count}} modification non publiée',
+        pendingChanges_other: '{{count}} modifications non publiées',
+        upToDate: 'Les employés voient le planning actuel',
+        publish: 'Publier',
+        republish: 'Publier les modifications',
+        unpublish: 'Retirer',
+        unpublishConfirm: 'Retirer cette semaine ? Les employés ne la verront plus et seront prévenus.',
+        history: 'Versions',
+        noHistory: 'Cette semaine n\'a jamais été publiée',
+        version: 'Version {{version}}',
+        firstVersion: 'Première publication',
+        noChanges: 'Aucune modification',
+        lateNotice_one: '{{count}} modification à moins de {{days}} jours',
+        lateNotice_other: '{{count}} modifications à moins de {{days}} jours',
+        lateHint: 'Le planning doit être communiqué à l\'avance : conservez l\'accord du salarié ou le motif des modifications tardives',
+        late: 'Hors délai',
+        notificationsTitle: 'Mises à jour du planning',
+        notificationKinds: {
+          published: 'Votre planning de la semaine du {{date}} est publié',
+          updated: 'Votre planning de la semaine du {{date}} a changé',
+          withdrawn: 'Le planning de la semaine du {{date}} a été retiré'
+        },
+        markRead: 'Vu',
+        noNotifications: 'Aucune nouvelle mise à jour du planning'
+      },
     },
     weather: {
       forecast: 'Prévisions Météo',
@@ -477,6 +782,8 @@ export default {
       contractType: 'Type de Contrat',
       startDate: 'Date de Début',
       endDate: 'Date de Fin',
+      laborRulePack: 'Règles du travail',
+      laborRulePackDefault: 'Règles du restaurant',
       weeklyHours: 'Heures Hebdomadaires Contractuelles',
       weeklyHoursDesc: 'Heures hebdomadaires standard selon le contrat',
       notificationDays: 'Jours de Préavis',
@@ -513,6 +820,28 @@ export default {
       hourlyRate: 'Taux Horaire',
       grossMonthlySalary: 'Salaire Brut Mensuel',
       monthlyHours: 'Heures Mensuelles',
+      kioskAccess: 'Accès badgeuse',
+      kioskPinSet: 'PIN défini',
+      kioskPinNotSet: 'Aucun PIN',
+      kioskLockedUntil: "Bloqué jusqu'à {{time}}",
+      kioskNewPin: 'Nouveau PIN',
+      kioskConfirmPin: 'Confirmer le PIN',
+      kioskSavePin: 'Enregistrer le PIN',
+      kioskPinHint: '4 à 6 chiffres. Le PIN est stocké chiffré et ne peut plus être affiché.',
+      kioskRemovePin: 'Supprimer le PIN',
+      kioskUnlock: 'Débloquer',
+      kioskRegenerateBadge: 'Régénérer le badge QR',
+      kioskBadgeHint: "Régénérer le badge invalide celui déjà imprimé. Les badges s'impriment depuis l'annuaire.",
+      kioskPinInvalid: 'Le PIN doit comporter 4 à 6 chiffres',
+      kioskPinMismatch: 'Les PIN ne correspondent pas',
+      kioskPinSaved: 'PIN enregistré',
+      kioskPinRemoved: 'PIN supprimé',
+      kioskUnlocked: 'Accès badgeuse débloqué',
+      kioskBadgeRegenerated: 'Nouveau badge QR émis',
+      kioskUpdateFailed: "Échec de la mise à jour de l'accès badgeuse",
+      kioskAfterCreation: "Le PIN de pointage et le badge QR pourront être définis une fois l'employé créé.",
+      badges: 'Badges QR',
+      badgesExportFailed: 'Échec de la génération des badges',
     },
     positions: {
       operationsmanager: 'Directeur / Directrice d\'Exploitation',
@@ -575,6 +904,21 @@ export default {
       postalCode: 'Code Postal',
       city: 'Ville',
       country: 'Pays',
+      laborRulePack: 'Règles du travail',
+      laborRulePackHint: 'Convention collective et règles du pays utilisées pour contrôler les plannings. Les salariés de moins de 18 ans reçoivent automatiquement les règles plus strictes des mineurs.',
+      punchRules: 'Pointeuse',
+      punchRulesHint: 'Conversion des pointages en heures payées. Appliquée aux feuilles de temps et à la paie.',
+      punchRounding: 'Arrondi des pointages',
+      punchRoundingNone: 'Aucun arrondi',
+      punchRoundingNearest: 'Au plus proche',
+      punchRoundingUp: 'Supérieur',
+      punchRoundingDown: 'Inférieur',
+      punchRoundingIncrement: 'Pas d\'arrondi',
+      arrivalGrace: 'Tolérance à l\'arrivée (minutes)',
+      departureGrace: 'Tolérance au départ (minutes)',
+      autoClockOutHours: 'Sortie automatique après (heures)',
+      autoClockOutOff: 'Désactivée',
+      autoClockOutHint: 'Un pointage encore ouvert après ce délai est clôturé automatiquement et signalé pour contrôle.',
       phone: 'Numéro de Téléphone',
       website: 'Site Web',
       manager: 'Responsable du Restaurant',
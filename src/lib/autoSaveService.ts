@@ -1,5 +1,6 @@
 // CRITICAL: Generic Auto-Save Service for all data modifications
 import toast from 'react-hot-toast';
+import { offlineStore } from './offlineStore';
 
 // Constants for auto-save configuration
 const AUTO_SAVE_INTERVAL = 30000; // 30 seconds
@@ -14,6 +15,12 @@ export interface AutoSaveData {
   operation: 'create' | 'update' | 'delete';
 }
 
+// Record stored in IndexedDB so queued changes survive a tab crash
+interface StoredAutoSaveChange {
+  key: string;
+  change: AutoSaveData;
+}
+
 export class AutoSaveService {
   private static instance: AutoSaveService;
   private autoSaveTimer: NodeJS.Timeout | null = null;
@@ -23,6 +30,7 @@ export class AutoSaveService {
   private saveCallbacks: Map<AutoSaveDataType, (data: AutoSaveData) => Promise<void>> = new Map();
   private isEnabled: boolean = true;
   private language: 'en' | 'fr' = 'fr';
+  private restorePromise: Promise<void> | null = null;
 
   private constructor() {}
 
@@ -44,6 +52,11 @@ export class AutoSaveService {
     
     // Setup beforeunload handler to save before page close/refresh
     window.addEventListener('beforeunload', this.handleBeforeUnload);
+
+    // CRITICAL: Bring back changes queued before a crash or reload
+    if (!this.restorePromise) {
+      this.restorePromise = this.restorePendingChanges();
+    }
   }
 
   /**
@@ -62,8 +75,9 @@ export class AutoSaveService {
   public queueSave(data: AutoSaveData): void {
     if (!this.isEnabled) return;
 
-    const key = `${data.type}-${data.id || 'new'}`;
+    const key = this.getChangeKey(data);
     this.pendingChanges.set(key, data);
+    this.persistChange(key, data);
     this.resetInactivityTimer();
     
     console.log(`📝 Queued ${data.operation} for ${data.type}:`, data.id);
@@ -73,30 +87,25 @@ export class AutoSaveService {
    * Force an immediate save of all pending changes
    */
   public async saveNow(): Promise<void> {
-    if (this.pendingChanges.size === 0) return;
+    if (this.restorePromise) {
+      await this.restorePromise;
+    }
+
+    // CRITICAL: Keep changes whose page has not registered a callback yet instead of dropping them
+    const changes = Array.from(this.pendingChanges.entries())
+      .filter(([, change]) => this.saveCallbacks.has(change.type));
+    if (changes.length === 0) return;
     
-    const changes = Array.from(this.pendingChanges.values());
-    this.pendingChanges.clear();
+    changes.forEach(([key]) => this.pendingChanges.delete(key));
+    const remaining = [...changes];
     
     try {
-      // Group changes by type and process them
-      const changesByType = new Map<AutoSaveDataType, AutoSaveData[]>();
-      
-      changes.forEach(change => {
-        if (!changesByType.has(change.type)) {
-          changesByType.set(change.type, []);
-        }
-        changesByType.get(change.type)!.push(change);
-      });
-
-      // Process each type of change
-      for (const [type, typeChanges] of changesByType) {
-        const callback = this.saveCallbacks.get(type);
-        if (callback) {
-          for (const change of typeChanges) {
-            await callback(change);
-          }
-        }
+      // Process changes in queue order, forgetting each one as soon as it is saved
+      while (remaining.length > 0) {
+        const [key, change] = remaining[0];
+        await this.saveCallbacks.get(change.type)!(change);
+        remaining.shift();
+        await offlineStore.delete('autoSaveChanges', key);
       }
       
       this.lastSaveTime = Date.now();
@@ -105,12 +114,13 @@ export class AutoSaveService {
       console.log('✅ Auto-saved', changes.length, 'changes successfully');
     } catch (error) {
       console.error('❌ Auto-save failed:', error);
-      this.showSaveNotification(false, changes.length);
+      this.showSaveNotification(false, remaining.length);
       
-      // Re-queue failed changes
-      changes.forEach(change => {
-        const key = `${change.type}-${change.id || 'new'}`;
-        this.pendingChanges.set(key, change);
+      // Re-queue failed changes unless a newer version was queued meanwhile
+      remaining.forEach(([key, change]) => {
+        if (!this.pendingChanges.has(key)) {
+          this.pendingChanges.set(key, change);
+        }
       });
     }
   }
@@ -149,6 +159,9 @@ export class AutoSaveService {
    */
   public clearPendingChanges(): void {
     this.pendingChanges.clear();
+    offlineStore.clear('autoSaveChanges').catch(error => {
+      console.error('❌ Failed to clear stored auto-save changes:', error);
+    });
   }
 
   /**
@@ -165,6 +178,34 @@ export class AutoSaveService {
     console.log('🧹 Auto-save service cleaned up');
   }
 
+  private getChangeKey(data: AutoSaveData): string {
+    return `${data.type}-${data.id || 'new'}`;
+  }
+
+  private persistChange(key: string, change: AutoSaveData): void {
+    offlineStore.put<StoredAutoSaveChange>('autoSaveChanges', { key, change }).catch(error => {
+      console.error('❌ Failed to store auto-save change locally:', error);
+    });
+  }
+
+  private async restorePendingChanges(): Promise<void> {
+    try {
+      const stored = await offlineStore.getAll<StoredAutoSaveChange>('autoSaveChanges');
+      stored.forEach(({ key, change }) => {
+        // Changes queued in this session are newer than the stored ones
+        if (!this.pendingChanges.has(key)) {
+          this.pendingChanges.set(key, change);
+        }
+      });
+
+      if (stored.length > 0) {
+        console.log('📝 Restored', stored.length, 'unsaved change(s) from local storage');
+      }
+    } catch (error) {
+      console.error('❌ Failed to restore auto-save changes:', error);
+    }
+  }
+
   /**
    * Start the auto-save timer
    */
@@ -0,0 +1,212 @@
+// CRITICAL: Availability change service - availability and preferences proposed from the portal, reviewed by a manager
+import { addDays, format, startOfDay } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AvailabilityChangeRequest,
+  AvailabilityChangeStatus,
+  EmployeeAvailability,
+  EmployeePreference,
+  EmployeePreferenceValues
+} from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+export type AvailabilityChangeAction = 'accepted' | 'rejected' | 'cancelled';
+
+export const DEFAULT_AVAILABILITY_FREEZE_DAYS = 14;
+
+// Only a pending request can be reviewed or withdrawn
+const TRANSITIONS: Record<AvailabilityChangeAction, { from: AvailabilityChangeStatus[]; to: AvailabilityChangeStatus }> = {
+  accepted: { from: ['pending'], to: 'accepted' },
+  rejected: { from: ['pending'], to: 'rejected' },
+  cancelled: { from: ['pending'], to: 'cancelled' }
+};
+
+const PREFERENCE_FIELDS: (keyof EmployeePreferenceValues)[] = [
+  'preferredDays',
+  'preferredShifts',
+  'preferredPositions',
+  'preferredHours',
+  'notes'
+];
+
+export interface PreferenceFieldChange<K extends keyof EmployeePreferenceValues = keyof EmployeePreferenceValues> {
+  field: K;
+  before?: EmployeePreferenceValues[K];
+  after: EmployeePreferenceValues[K];
+}
+
+export interface AvailabilityChangeDiff {
+  added: EmployeeAvailability[];
+  removed: EmployeeAvailability[];
+  preferenceChanges: PreferenceFieldChange[];
+}
+
+// First date a change may touch: the weeks before it are already planned and stay as they are
+export const getFreezeEnd = (freezeDays: number, today: Date = new Date()): string =>
+  format(addDays(startOfDay(today), freezeDays), 'yyyy-MM-dd');
+
+/**
+ * What a proposal changes compared with the rules and preferences in place. A rule edited in the
+ * form is a removal plus an addition, as the form has no in-place edit.
+ */
+export const diffAvailabilityChange = (
+  current: EmployeeAvailability[],
+  currentPreference: EmployeePreference | undefined,
+  proposal: Pick<AvailabilityChangeRequest, 'availabilities' | 'preference'>
+): AvailabilityChangeDiff => {
+  const proposedIds = new Set(proposal.availabilities.map(rule => rule.id));
+  const currentIds = new Set(current.map(rule => rule.id));
+
+  const preferenceChanges: PreferenceFieldChange[] = [];
+  const { preference } = proposal;
+  if (preference) {
+    PREFERENCE_FIELDS.forEach(field => {
+      if (JSON.stringify(currentPreference?.[field]) !== JSON.stringify(preference[field])) {
+        preferenceChanges.push({ field, before: currentPreference?.[field], after: preference[field] });
+      }
+    });
+  }
+
+  return {
+    added: proposal.availabilities.filter(rule => !currentIds.has(rule.id)),
+    removed: current.filter(rule => !proposedIds.has(rule.id)),
+    preferenceChanges
+  };
+};
+
+export const isEmptyAvailabilityChange = (diff: AvailabilityChangeDiff): boolean =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.preferenceChanges.length === 0;
+
+// One-time rules dated inside the freeze window cannot be added or removed any more
+export const getFrozenChanges = (diff: AvailabilityChangeDiff, freezeEnd: string): EmployeeAvailability[] =>
+  [...diff.added, ...diff.removed].filter(rule => rule.recurrence === 'ONCE' && !!rule.date && rule.date < freezeEnd);
+
+/**
+ * A new recurring rule only starts after the freeze window. Removed rules go at once: they only
+ * lift constraints, so the weeks already planned stay valid.
+ */
+export const applyFreezeWindow = (rule: EmployeeAvailability, freezeEnd: string): EmployeeAvailability =>
+  rule.recurrence === 'ONCE' || (rule.date && rule.date >= freezeEnd)
+    ? rule
+    : { ...rule, date: freezeEnd };
+
+export class AvailabilityChangeService {
+  private static instance: AvailabilityChangeService;
+
+  private constructor() {}
+
+  public static getInstance(): AvailabilityChangeService {
+    if (!AvailabilityChangeService.instance) {
+      AvailabilityChangeService.instance = new AvailabilityChangeService();
+    }
+    return AvailabilityChangeService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) requests are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `availabilityChanges_${restaurantId}`;
+  }
+
+  private loadLocal(restaurantId: string): AvailabilityChangeRequest[] {
+    try {
+      const saved = localStorage.getItem(this.getStorageKey(restaurantId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local availability changes:', error);
+      return [];
+    }
+  }
+
+  private async save(request: AvailabilityChangeRequest): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.upsertAvailabilityChangeRequest(request);
+      return;
+    }
+
+    const requests = this.loadLocal(request.restaurantId).filter(r => r.id !== request.id);
+    localStorage.setItem(this.getStorageKey(request.restaurantId), JSON.stringify([...requests, request]));
+  }
+
+  async fetchRequests(restaurantIds: string[]): Promise<AvailabilityChangeRequest[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchAvailabilityChangeRequests(restaurantIds);
+    }
+
+    return restaurantIds
+      .flatMap(restaurantId => this.loadLocal(restaurantId))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async submit(
+    proposal: Pick<AvailabilityChangeRequest, 'restaurantId' | 'employeeId' | 'availabilities' | 'preference'>,
+    diff: AvailabilityChangeDiff,
+    options: { freezeEnd: string; userId?: string }
+  ): Promise<AvailabilityChangeRequest> {
+    if (isEmptyAvailabilityChange(diff)) {
+      throw new Error('Nothing changed');
+    }
+
+    const frozen = getFrozenChanges(diff, options.freezeEnd);
+    if (frozen.length > 0) {
+      throw new Error(`Dates before ${options.freezeEnd} can no longer change: ${frozen.map(rule => rule.date).join(', ')}`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const created: AvailabilityChangeRequest = {
+      ...proposal,
+      id: uuidv4(),
+      // Only the preferences that changed are proposed
+      preference: diff.preferenceChanges.length > 0 ? proposal.preference : undefined,
+      status: 'pending',
+      requestedBy: options.userId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    await this.save(created);
+    console.log('📝 Availability change submitted:', {
+      employeeId: proposal.employeeId,
+      added: diff.added.length,
+      removed: diff.removed.length,
+      preferences: diff.preferenceChanges.length
+    });
+    return created;
+  }
+
+  // CRITICAL: A rejection must say why - the comment is what the employee sees on the portal
+  async transition(
+    request: AvailabilityChangeRequest,
+    action: AvailabilityChangeAction,
+    options: { comment?: string; userId?: string } = {}
+  ): Promise<AvailabilityChangeRequest> {
+    const { from, to } = TRANSITIONS[action];
+    if (!from.includes(request.status)) {
+      throw new Error(`Availability change is ${request.status}, expected ${from.join(' or ')}`);
+    }
+
+    const comment = options.comment?.trim();
+    if (action === 'rejected' && !comment) {
+      throw new Error('A comment is required to reject a request');
+    }
+
+    const timestamp = new Date().toISOString();
+    const updated: AvailabilityChangeRequest = action === 'cancelled'
+      ? { ...request, status: to, updatedAt: timestamp }
+      : {
+          ...request,
+          status: to,
+          managerComment: comment || undefined,
+          reviewedBy: options.userId,
+          reviewedAt: timestamp,
+          updatedAt: timestamp
+        };
+
+    await this.save(updated);
+    console.log(`✅ Availability change ${action}:`, { id: request.id, employeeId: request.employeeId });
+    return updated;
+  }
+}
+
+// Export singleton instance
+export const availabilityChangeService = AvailabilityChangeService.getInstance();
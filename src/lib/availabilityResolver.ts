@@ -0,0 +1,136 @@
+// CRITICAL: Availability resolution - expands employee availability rules on the concrete dates of a week
+import { addDays, differenceInCalendarWeeks, format, parseISO } from 'date-fns';
+import { EmployeeAvailability } from '../types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// One rule applied to one date
+export interface AvailabilityOccurrence {
+  availability: EmployeeAvailability;
+  date: string; // yyyy-MM-dd the occurrence starts on
+  day: number; // Offset from the week start (-1 is the Sunday before, 7 the Monday after)
+  range: [number, number]; // [start, end) in minutes from the week start, overnight rules end the next day
+}
+
+export interface AvailabilityCheck {
+  hasConflict: boolean;
+  conflictType: 'UNAVAILABLE' | 'LIMITED' | null;
+  overlaps: AvailabilityOccurrence[]; // Every rule occurrence the interval touches, whatever its type
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Absolute [start, end) from the week start - an end at or before the start is on the next day
+export const getTimeRange = (day: number, start: string, end: string): [number, number] => {
+  const startMinutes = day * MINUTES_PER_DAY + toMinutes(start);
+  let endMinutes = day * MINUTES_PER_DAY + toMinutes(end);
+  if (endMinutes <= startMinutes) endMinutes += MINUTES_PER_DAY;
+  return [startMinutes, endMinutes];
+};
+
+const rangesOverlap = (a: [number, number], b: [number, number]): boolean => a[0] < b[1] && b[0] < a[1];
+
+// Monday-based index, the convention of dayOfWeek and Shift.day
+const getDayIndex = (date: Date): number => (date.getDay() + 6) % 7;
+
+// 1 for the first such weekday of the month, 5 only in months that have five of them
+const getWeekdayOrdinal = (date: Date): number => Math.ceil(date.getDate() / 7);
+
+const isLastWeekdayOfMonth = (date: Date): boolean => addDays(date, 7).getMonth() !== date.getMonth();
+
+/**
+ * First occurrence of a recurring rule. Its date, when set, is when the rule starts; older rules
+ * without one count their bi-weekly and monthly cycles from the day they were created.
+ */
+const getFirstOccurrence = (availability: EmployeeAvailability): Date => {
+  const anchor = parseISO(availability.date ?? availability.createdAt.slice(0, 10));
+  const offset = ((availability.dayOfWeek ?? 0) - getDayIndex(anchor) + 7) % 7;
+  return addDays(anchor, offset);
+};
+
+/**
+ * Whether a rule applies on a date: ONCE on its date, WEEKLY every week, BIWEEKLY every other week
+ * from its first occurrence, MONTHLY on the same weekday of the month as its first occurrence
+ * (the 2nd Tuesday, say - a rule starting on a 5th weekday repeats on the last one).
+ */
+export const isAvailabilityOnDate = (availability: EmployeeAvailability, date: Date): boolean => {
+  if (availability.recurrence === 'ONCE') {
+    return availability.date === format(date, 'yyyy-MM-dd');
+  }
+
+  if (availability.dayOfWeek !== getDayIndex(date)) return false;
+  if (availability.date && format(date, 'yyyy-MM-dd') < availability.date) return false;
+
+  const first = getFirstOccurrence(availability);
+  switch (availability.recurrence) {
+    case 'BIWEEKLY':
+      return differenceInCalendarWeeks(date, first, { weekStartsOn: 1 }) % 2 === 0;
+    case 'MONTHLY': {
+      const ordinal = getWeekdayOrdinal(first);
+      return ordinal >= 5 ? isLastWeekdayOfMonth(date) : getWeekdayOrdinal(date) === ordinal;
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * Rule occurrences of a week, from the Sunday before (its overnight rules run into Monday)
+ * to the Monday after (reached by Sunday night shifts)
+ */
+export const resolveWeekAvailabilities = (
+  availabilities: EmployeeAvailability[],
+  weekStartDate: Date
+): AvailabilityOccurrence[] => {
+  const occurrences: AvailabilityOccurrence[] = [];
+
+  for (let day = -1; day <= 7; day++) {
+    const date = addDays(weekStartDate, day);
+    availabilities
+      .filter(availability => isAvailabilityOnDate(availability, date))
+      .forEach(availability => {
+        occurrences.push({
+          availability,
+          date: format(date, 'yyyy-MM-dd'),
+          day,
+          range: getTimeRange(day, availability.startTime, availability.endTime)
+        });
+      });
+  }
+
+  return occurrences;
+};
+
+// Every rule occurrence overlapping a shift of the week, overnight on either side included
+export const findAvailabilityOverlaps = (
+  availabilities: EmployeeAvailability[],
+  weekStartDate: Date,
+  day: number,
+  start: string,
+  end: string
+): AvailabilityOccurrence[] => {
+  const range = getTimeRange(day, start, end);
+  return resolveWeekAvailabilities(availabilities, weekStartDate)
+    .filter(occurrence => rangesOverlap(range, occurrence.range));
+};
+
+// Unavailability wins over limited availability, preferred and available slots are never a conflict
+export const checkAvailability = (
+  availabilities: EmployeeAvailability[],
+  weekStartDate: Date,
+  day: number,
+  start: string,
+  end: string
+): AvailabilityCheck => {
+  const overlaps = findAvailabilityOverlaps(availabilities, weekStartDate, day, start, end);
+  const conflictType = overlaps.some(o => o.availability.type === 'UNAVAILABLE')
+    ? 'UNAVAILABLE'
+    : overlaps.some(o => o.availability.type === 'LIMITED')
+      ? 'LIMITED'
+      : null;
+
+  return { hasConflict: conflictType !== null, conflictType, overlaps };
+};
@@ -0,0 +1,249 @@
+// CRITICAL: Real-time presence and shift broadcasting between managers editing the same restaurant
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from './supabase';
+import { v4 as uuidv4 } from 'uuid';
+import { CollaboratorPresence, ShiftChange } from '../types';
+
+const SHIFT_CHANGE_EVENT = 'shift-change';
+// Cross-tab fallback (demo mode without Supabase): presence is kept alive by heartbeats
+const HEARTBEAT_INTERVAL = 10000;
+const PRESENCE_TIMEOUT = 30000;
+
+export interface CollaboratorIdentity {
+  userId: string;
+  name: string;
+}
+
+type PresenceListener = (collaborators: CollaboratorPresence[]) => void;
+type ShiftChangeListener = (change: ShiftChange) => void;
+
+type LocalChannelMessage =
+  | { kind: 'presence'; clientId: string; presence: CollaboratorPresence }
+  | { kind: 'leave'; clientId: string }
+  | { kind: 'change'; change: ShiftChange };
+
+export class CollaborationService {
+  private static instance: CollaborationService;
+  private channel: RealtimeChannel | null = null;
+  private localChannel: BroadcastChannel | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private identity: CollaboratorIdentity | null = null;
+  // Identifies this tab on the cross-tab channel, where every tab may share the same user
+  private clientId = uuidv4();
+  private restaurantId: string | null = null;
+  private weekStartDate: string | null = null;
+  // Keyed by user id on Supabase channels, by tab id on the cross-tab channel
+  private collaborators: Map<string, CollaboratorPresence> = new Map();
+  private presenceListeners: Set<PresenceListener> = new Set();
+  private shiftChangeListeners: Set<ShiftChangeListener> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): CollaborationService {
+    if (!CollaborationService.instance) {
+      CollaborationService.instance = new CollaborationService();
+    }
+    return CollaborationService.instance;
+  }
+
+  /**
+   * Join the collaboration channel of a restaurant. Leaves the previous one.
+   */
+  public joinRestaurant(restaurantId: string, identity: CollaboratorIdentity): void {
+    if (this.restaurantId === restaurantId && this.identity?.userId === identity.userId) return;
+
+    this.leave();
+    this.restaurantId = restaurantId;
+    this.identity = identity;
+
+    if (isSupabaseConfigured) {
+      this.joinRealtimeChannel(restaurantId, identity);
+    } else if (typeof BroadcastChannel !== 'undefined') {
+      this.joinLocalChannel(restaurantId);
+    }
+
+    console.log('👥 Joined collaboration channel for restaurant:', restaurantId);
+  }
+
+  /**
+   * Announce which week the current user has open (null when leaving the schedule)
+   */
+  public setViewedWeek(weekStartDate: string | null): void {
+    this.weekStartDate = weekStartDate;
+    this.announcePresence();
+  }
+
+  public broadcastShiftChange(change: ShiftChange): void {
+    if (this.channel) {
+      this.channel.send({ type: 'broadcast', event: SHIFT_CHANGE_EVENT, payload: change }).catch(error => {
+        console.error('❌ Failed to broadcast shift change:', error);
+      });
+    } else if (this.localChannel) {
+      this.postLocal({ kind: 'change', change });
+    }
+  }
+
+  /**
+   * Other users currently connected to the restaurant (the current user excluded)
+   */
+  public subscribePresence(listener: PresenceListener): () => void {
+    this.presenceListeners.add(listener);
+    listener(this.getCollaborators());
+    return () => {
+      this.presenceListeners.delete(listener);
+    };
+  }
+
+  public onShiftChange(listener: ShiftChangeListener): () => void {
+    this.shiftChangeListeners.add(listener);
+    return () => {
+      this.shiftChangeListeners.delete(listener);
+    };
+  }
+
+  public leave(): void {
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+
+    if (this.localChannel) {
+      this.postLocal({ kind: 'leave', clientId: this.clientId });
+      this.localChannel.close();
+      this.localChannel = null;
+    }
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.restaurantId = null;
+    this.collaborators.clear();
+    this.notifyPresence();
+  }
+
+  private joinRealtimeChannel(restaurantId: string, identity: CollaboratorIdentity): void {
+    const channel = supabase.channel(`schedule:${restaurantId}`, {
+      config: {
+        presence: { key: identity.userId },
+        broadcast: { self: false }
+      }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<CollaboratorPresence>();
+        this.collaborators.clear();
+        Object.values(state).forEach(entries => {
+          // A user with several tabs appears once, with the most recent tab
+          const latest = entries[entries.length - 1];
+          if (latest && latest.userId !== identity.userId) {
+            this.collaborators.set(latest.userId, latest);
+          }
+        });
+        this.notifyPresence();
+      })
+      .on('broadcast', { event: SHIFT_CHANGE_EVENT }, ({ payload }) => {
+        this.notifyShiftChange(payload as ShiftChange);
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          this.announcePresence();
+        }
+      });
+
+    this.channel = channel;
+  }
+
+  private joinLocalChannel(restaurantId: string): void {
+    this.localChannel = new BroadcastChannel(`kollab-schedule-${restaurantId}`);
+    this.localChannel.onmessage = (event: MessageEvent<LocalChannelMessage>) => {
+      const message = event.data;
+
+      // BroadcastChannel never delivers to the sending tab, every message comes from another tab
+      if (message.kind === 'presence') {
+        const isNew = !this.collaborators.has(message.clientId);
+        this.collaborators.set(message.clientId, message.presence);
+        this.notifyPresence();
+        // Answer newcomers so they see us without waiting for the next heartbeat
+        if (isNew) this.announcePresence();
+      } else if (message.kind === 'leave') {
+        this.collaborators.delete(message.clientId);
+        this.notifyPresence();
+      } else {
+        this.notifyShiftChange(message.change);
+      }
+    };
+
+    this.heartbeatTimer = setInterval(() => {
+      this.announcePresence();
+      this.expireLocalPresence();
+    }, HEARTBEAT_INTERVAL);
+
+    this.announcePresence();
+  }
+
+  private announcePresence(): void {
+    const presence = this.buildPresence();
+    if (!presence) return;
+
+    if (this.channel) {
+      this.channel.track(presence).catch(error => {
+        console.error('❌ Failed to update presence:', error);
+      });
+    } else if (this.localChannel) {
+      this.postLocal({ kind: 'presence', clientId: this.clientId, presence });
+    }
+  }
+
+  private buildPresence(): CollaboratorPresence | null {
+    if (!this.identity || !this.restaurantId) return null;
+
+    return {
+      userId: this.identity.userId,
+      name: this.identity.name,
+      restaurantId: this.restaurantId,
+      weekStartDate: this.weekStartDate,
+      onlineAt: new Date().toISOString()
+    };
+  }
+
+  private expireLocalPresence(): void {
+    const now = Date.now();
+    let changed = false;
+
+    this.collaborators.forEach((presence, clientId) => {
+      if (now - new Date(presence.onlineAt).getTime() > PRESENCE_TIMEOUT) {
+        this.collaborators.delete(clientId);
+        changed = true;
+      }
+    });
+
+    if (changed) this.notifyPresence();
+  }
+
+  private postLocal(message: LocalChannelMessage): void {
+    try {
+      this.localChannel?.postMessage(message);
+    } catch (error) {
+      console.error('❌ Failed to post collaboration message:', error);
+    }
+  }
+
+  private getCollaborators(): CollaboratorPresence[] {
+    return Array.from(this.collaborators.values());
+  }
+
+  private notifyPresence(): void {
+    const collaborators = this.getCollaborators();
+    this.presenceListeners.forEach(listener => listener(collaborators));
+  }
+
+  private notifyShiftChange(change: ShiftChange): void {
+    this.shiftChangeListeners.forEach(listener => listener(change));
+  }
+}
+
+// Export singleton instance
+export const collaborationService = CollaborationService.getInstance();
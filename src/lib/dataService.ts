@@ -0,0 +1,1729 @@
+// CRITICAL: Supabase data layer for restaurants, employees, schedules and shifts
+import { supabase } from './supabase';
+import {
+  Restaurant,
+  Employee,
+  Schedule,
+  Shift,
+  EmployeePreference,
+  EmployeeAvailability,
+  POSData,
+  TimeClock,
+  KioskAuthEvent,
+  KioskAuthMethod,
+  KioskAuthResult,
+  KioskCredentialStatus,
+  KioskDevice,
+  KioskPendingPunch,
+  LeaveLedgerEntry,
+  LeaveRequest,
+  AvailabilityChangeRequest,
+  SchedulePublication,
+  ScheduleNotification,
+  ShiftOffer,
+  DocumentSignatureRequest,
+  PayrollPeriod,
+  PayrollRegularization,
+  Timesheet,
+  TimesheetAuditEntry,
+  TimesheetLine
+} from '../types';
+
+/**
+ * Thrown when a shift changed on the server since the editor loaded it.
+ * Carries the server copy (null if it was deleted) so the UI can offer a merge.
+ */
+export class ShiftVersionConflictError extends Error {
+  constructor(public remoteShift: Shift | null) {
+    super('Shift was modified by another user');
+    this.name = 'ShiftVersionConflictError';
+  }
+}
+
+// Database row shapes (snake_case, as defined in supabase/migrations)
+interface RestaurantRow {
+  id: string;
+  name: string;
+  commercial_name: string | null;
+  legal_name: string | null;
+  siret: string | null;
+  location: string;
+  street_address: string | null;
+  postal_code: string | null;
+  city: string | null;
+  country: string | null;
+  phone: string | null;
+  website: string | null;
+  image: string | null;
+  manager: Restaurant['manager'] | null;
+  labor_rule_pack_id: string | null;
+  punch_rules: Restaurant['punchRules'] | null;
+}
+
+interface EmployeeRow {
+  id: string;
+  restaurant_id: string;
+  first_name: string;
+  last_name: string;
+  street_address: string;
+  city: string;
+  postal_code: string;
+  phone: string;
+  email: string | null;
+  contract_type: Employee['contractType'];
+  profile_picture: string | null;
+  start_date: string;
+  end_date: string | null;
+  position: string;
+  category: Employee['category'] | null;
+  weekly_hours: number | null;
+  notification_days: number | null;
+  date_of_birth: string | null;
+  place_of_birth: string | null;
+  country_of_birth: string | null;
+  employee_status: Employee['employeeStatus'] | null;
+  hiring_date: string | null;
+  payroll_id: string | null;
+  labor_rule_pack_id: string | null;
+  employee_sensitive_data?: Omit<EmployeeSensitiveDataRow, 'employee_id'> | null; // Null without employees:viewSensitive (RLS)
+}
+
+interface EmployeeSensitiveDataRow {
+  employee_id: string;
+  social_security_number: string | null;
+  hourly_rate: number | null;
+  gross_monthly_salary: number | null;
+}
+
+interface ShiftRow {
+  id: string;
+  schedule_id: string;
+  restaurant_id: string;
+  employee_id: string;
+  week_start_date: string;
+  day: number;
+  start_time: string | null;
+  end_time: string | null;
+  position: string;
+  color: string | null;
+  type: Shift['type'];
+  is_holiday_worked: boolean | null;
+  status: Shift['status'] | null;
+  leave_type: Shift['leaveType'] | null;
+  shift_group: string | null;
+  shift_order: number | null;
+  has_coupure: boolean | null;
+  coupure_start: string | null;
+  coupure_end: string | null;
+  coupure_duration: number | null;
+  version: number;
+}
+
+interface ScheduleRow {
+  id: string;
+  restaurant_id: string;
+  week_start_date: string;
+  shifts?: ShiftRow[];
+}
+
+interface EmployeePreferenceRow {
+  id: string;
+  employee_id: string;
+  preferred_days: number[];
+  preferred_shifts: EmployeePreference['preferredShifts'];
+  preferred_positions: string[];
+  preferred_hours: EmployeePreference['preferredHours'];
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EmployeeAvailabilityRow {
+  id: string;
+  employee_id: string;
+  type: EmployeeAvailability['type'];
+  day_of_week: number | null;
+  date: string | null;
+  start_time: string;
+  end_time: string;
+  recurrence: EmployeeAvailability['recurrence'];
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface POSDataRow {
+  restaurant_id: string;
+  date: string;
+  turnover: number;
+  covers: number;
+  average_check: number | null;
+  sales_by_hour: Record<string, number> | null;
+  sales_by_category: Record<string, number> | null;
+  sales_by_service: POSData['salesByService'] | null;
+}
+
+interface TimeClockRow {
+  id: string;
+  employee_id: string;
+  restaurant_id: string;
+  clock_in_time: string;
+  clock_out_time: string | null;
+  total_hours: number | null;
+  status: TimeClock['status'];
+  shift_id: string | null;
+  device_id: string | null;
+  synced_at: string | null;
+  auto_clocked_out: boolean | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface KioskDeviceRow {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  last_seen_at: string;
+  last_sync_at: string | null;
+  pending_punches: KioskPendingPunch[] | null;
+}
+
+interface KioskAuthEventRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string | null;
+  method: KioskAuthMethod;
+  outcome: KioskAuthEvent['outcome'];
+  created_at: string;
+}
+
+interface KioskCredentialStatusRow {
+  employee_id: string;
+  has_pin: boolean;
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+interface TimesheetRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string;
+  week_start_date: string;
+  status: Timesheet['status'];
+  lines: TimesheetLine[] | null;
+  status_reason: string | null;
+  submitted_at: string | null;
+  submitted_by: string | null;
+  approved_at: string | null;
+  approved_by: string | null;
+  locked_at: string | null;
+  locked_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface TimesheetAuditRow {
+  id: string;
+  timesheet_id: string;
+  restaurant_id: string;
+  action: TimesheetAuditEntry['action'];
+  line_id: string | null;
+  previous_hours: number | null;
+  new_hours: number | null;
+  reason: string | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+interface PayrollPeriodRow {
+  id: string;
+  restaurant_id: string;
+  month: string;
+  status: PayrollPeriod['status'];
+  validated_at: string | null;
+  validated_by: string | null;
+  exported_at: string | null;
+  exported_by: string | null;
+  closed_at: string | null;
+  closed_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PayrollRegularizationRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string;
+  month: string;
+  date: string;
+  hours: number;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface LeaveLedgerEntryRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string;
+  counter: LeaveLedgerEntry['counter'];
+  date: string;
+  amount: number;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface LeaveRequestRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string;
+  type: LeaveRequest['type'];
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  status: LeaveRequest['status'];
+  manager_comment: string | null;
+  requested_by: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AvailabilityChangeRequestRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string;
+  availabilities: AvailabilityChangeRequest['availabilities'];
+  preference: AvailabilityChangeRequest['preference'] | null;
+  status: AvailabilityChangeRequest['status'];
+  manager_comment: string | null;
+  requested_by: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SchedulePublicationRow {
+  id: string;
+  restaurant_id: string;
+  week_start_date: string;
+  version: number;
+  shifts: SchedulePublication['shifts'];
+  published_by: string | null;
+  published_at: string;
+  unpublished_by: string | null;
+  unpublished_at: string | null;
+}
+
+interface ScheduleNotificationRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string;
+  publication_id: string;
+  week_start_date: string;
+  version: number;
+  kind: ScheduleNotification['kind'];
+  changes: ScheduleNotification['changes'];
+  created_at: string;
+  read_at: string | null;
+}
+
+interface ShiftOfferRow {
+  id: string;
+  restaurant_id: string;
+  week_start_date: string;
+  shift: ShiftOffer['shift'];
+  category: ShiftOffer['category'];
+  offered_by: string | null;
+  note: string | null;
+  status: ShiftOffer['status'];
+  claimed_by: string | null;
+  claimed_at: string | null;
+  manager_comment: string | null;
+  created_by: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DocumentSignatureRequestRow {
+  id: string;
+  restaurant_id: string;
+  employee_id: string;
+  kind: DocumentSignatureRequest['kind'];
+  title: string;
+  content: string;
+  content_hash: string;
+  message: string | null;
+  status: DocumentSignatureRequest['status'];
+  provider: string;
+  provider_reference: string | null;
+  signature: DocumentSignatureRequest['signature'] | null;
+  seal_hash: string | null;
+  signer_ip: string | null;
+  rejection_reason: string | null;
+  requested_by: string | null;
+  requested_at: string;
+  viewed_at: string | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  updated_at: string;
+}
+
+interface KioskAuthResultRow {
+  outcome: KioskAuthResult['outcome'];
+  employee_id: string | null;
+  locked_until: string | null;
+  remaining_attempts: number | null;
+  punch: TimeClockRow | null;
+}
+
+// CRITICAL: Row <-> model mappers
+const toRestaurant = (row: RestaurantRow): Restaurant => ({
+  id: row.id,
+  name: row.name,
+  commercialName: row.commercial_name ?? undefined,
+  legalName: row.legal_name ?? undefined,
+  siret: row.siret ?? undefined,
+  location: row.location,
+  streetAddress: row.street_address ?? undefined,
+  postalCode: row.postal_code ?? undefined,
+  city: row.city ?? undefined,
+  country: row.country ?? undefined,
+  phone: row.phone ?? undefined,
+  website: row.website ?? undefined,
+  image: row.image ?? undefined,
+  manager: row.manager ?? undefined,
+  laborRulePackId: row.labor_rule_pack_id ?? undefined,
+  punchRules: row.punch_rules ?? undefined
+});
+
+const fromRestaurant = (restaurant: Restaurant): RestaurantRow => ({
+  id: restaurant.id,
+  name: restaurant.name,
+  commercial_name: restaurant.commercialName ?? null,
+  legal_name: restaurant.legalName ?? null,
+  siret: restaurant.siret ?? null,
+  location: restaurant.location,
+  street_address: restaurant.streetAddress ?? null,
+  postal_code: restaurant.postalCode ?? null,
+  city: restaurant.city ?? null,
+  country: restaurant.country ?? null,
+  phone: restaurant.phone ?? null,
+  website: restaurant.website ?? null,
+  image: restaurant.image ?? null,
+  manager: restaurant.manager ?? null,
+  labor_rule_pack_id: restaurant.laborRulePackId ?? null,
+  punch_rules: restaurant.punchRules ?? null
+});
+
+const toEmployee = ({ employee_sensitive_data: sensitive, ...row }: EmployeeRow): Employee => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  streetAddress: row.street_address,
+  city: row.city,
+  postalCode: row.postal_code,
+  phone: row.phone,
+  email: row.email ?? undefined,
+  socialSecurityNumber: sensitive?.social_security_number ?? undefined,
+  contractType: row.contract_type,
+  profilePicture: row.profile_picture ?? undefined,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  position: row.position,
+  category: row.category ?? 'Salle',
+  weeklyHours: row.weekly_hours ?? 35,
+  notificationDays: row.notification_days ?? undefined,
+  dateOfBirth: row.date_of_birth ?? undefined,
+  placeOfBirth: row.place_of_birth ?? undefined,
+  countryOfBirth: row.country_of_birth ?? undefined,
+  employeeStatus: row.employee_status ?? undefined,
+  hiringDate: row.hiring_date ?? undefined,
+  hourlyRate: sensitive?.hourly_rate ?? undefined,
+  grossMonthlySalary: sensitive?.gross_monthly_salary ?? undefined,
+  payrollId: row.payroll_id ?? undefined,
+  laborRulePackId: row.labor_rule_pack_id ?? undefined
+});
+
+const fromEmployee = (employee: Employee): EmployeeRow => ({
+  id: employee.id,
+  restaurant_id: employee.restaurantId,
+  first_name: employee.firstName,
+  last_name: employee.lastName,
+  street_address: employee.streetAddress,
+  city: employee.city,
+  postal_code: employee.postalCode,
+  phone: employee.phone,
+  email: employee.email || null,
+  contract_type: employee.contractType,
+  profile_picture: employee.profilePicture || null,
+  start_date: employee.startDate,
+  end_date: employee.endDate || null,
+  position: employee.position,
+  category: employee.category,
+  weekly_hours: employee.weeklyHours,
+  notification_days: employee.notificationDays ?? null,
+  date_of_birth: employee.dateOfBirth || null,
+  place_of_birth: employee.placeOfBirth || null,
+  country_of_birth: employee.countryOfBirth || null,
+  employee_status: employee.employeeStatus ?? null,
+  hiring_date: employee.hiringDate || null,
+  payroll_id: employee.payrollId ?? null,
+  labor_rule_pack_id: employee.laborRulePackId || null
+});
+
+const fromEmployeeSensitiveData = (employee: Employee): EmployeeSensitiveDataRow => ({
+  employee_id: employee.id,
+  social_security_number: employee.socialSecurityNumber || null,
+  hourly_rate: employee.hourlyRate ?? null,
+  gross_monthly_salary: employee.grossMonthlySalary ?? null
+});
+
+const toShift = (row: ShiftRow): Shift => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  day: row.day,
+  start: row.start_time ?? '',
+  end: row.end_time ?? '',
+  position: row.position,
+  color: row.color ?? undefined,
+  type: row.type,
+  isHolidayWorked: row.is_holiday_worked ?? undefined,
+  status: row.status ?? undefined,
+  leaveType: row.leave_type ?? undefined,
+  shiftGroup: row.shift_group ?? undefined,
+  shiftOrder: row.shift_order ?? undefined,
+  hasCoupure: row.has_coupure ?? undefined,
+  coupureStart: row.coupure_start ?? undefined,
+  coupureEnd: row.coupure_end ?? undefined,
+  coupureDuration: row.coupure_duration ?? undefined,
+  weekStartDate: row.week_start_date,
+  version: row.version
+});
+
+const fromShift = (shift: Shift, scheduleId: string, weekStartDate: string): ShiftRow => ({
+  id: shift.id,
+  schedule_id: scheduleId,
+  restaurant_id: shift.restaurantId,
+  employee_id: shift.employeeId,
+  week_start_date: weekStartDate,
+  day: shift.day,
+  start_time: shift.start || null,
+  end_time: shift.end || null,
+  position: shift.position,
+  color: shift.color ?? null,
+  type: shift.type,
+  is_holiday_worked: shift.isHolidayWorked ?? false,
+  status: shift.status ?? null,
+  leave_type: shift.leaveType ?? null,
+  shift_group: shift.shiftGroup ?? null,
+  shift_order: shift.shiftOrder ?? null,
+  has_coupure: shift.hasCoupure ?? false,
+  coupure_start: shift.coupureStart ?? null,
+  coupure_end: shift.coupureEnd ?? null,
+  coupure_duration: shift.coupureDuration ?? null,
+  version: shift.version ?? 1
+});
+
+const toSchedule = (row: ScheduleRow): Schedule => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  weekStartDate: row.week_start_date,
+  shifts: (row.shifts || []).map(toShift)
+});
+
+const toEmployeePreference = (row: EmployeePreferenceRow): EmployeePreference => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  preferredDays: row.preferred_days,
+  preferredShifts: row.preferred_shifts,
+  preferredPositions: row.preferred_positions,
+  preferredHours: row.preferred_hours,
+  notes: row.notes ?? '',
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromEmployeePreference = (preference: EmployeePreference): EmployeePreferenceRow => ({
+  id: preference.id,
+  employee_id: preference.employeeId,
+  preferred_days: preference.preferredDays,
+  preferred_shifts: preference.preferredShifts,
+  preferred_positions: preference.preferredPositions,
+  preferred_hours: preference.preferredHours,
+  notes: preference.notes || null,
+  created_at: preference.createdAt,
+  updated_at: preference.updatedAt
+});
+
+const toEmployeeAvailability = (row: EmployeeAvailabilityRow): EmployeeAvailability => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  type: row.type,
+  dayOfWeek: row.day_of_week ?? undefined,
+  date: row.date ?? undefined,
+  startTime: row.start_time,
+  endTime: row.end_time,
+  recurrence: row.recurrence,
+  note: row.note ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromEmployeeAvailability = (availability: EmployeeAvailability): EmployeeAvailabilityRow => ({
+  id: availability.id,
+  employee_id: availability.employeeId,
+  type: availability.type,
+  // CRITICAL: One-time rules have a date only, recurring ones a day of week and an optional start date
+  day_of_week: availability.recurrence === 'ONCE' ? null : availability.dayOfWeek ?? null,
+  date: availability.date ?? null,
+  start_time: availability.startTime,
+  end_time: availability.endTime,
+  recurrence: availability.recurrence,
+  note: availability.note || null,
+  created_at: availability.createdAt,
+  updated_at: availability.updatedAt
+});
+
+const toPOSData = (row: POSDataRow): POSData => ({
+  date: row.date,
+  turnover: Number(row.turnover),
+  covers: row.covers,
+  averageCheck: Number(row.average_check ?? 0),
+  salesByHour: row.sales_by_hour ?? {},
+  salesByCategory: row.sales_by_category ?? {},
+  salesByService: row.sales_by_service ?? { lunch: 0, dinner: 0 }
+});
+
+const toTimeClock = (row: TimeClockRow): TimeClock => ({
+  id: row.id,
+  employeeId: row.employee_id,
+  restaurantId: row.restaurant_id,
+  clockInTime: row.clock_in_time,
+  clockOutTime: row.clock_out_time ?? undefined,
+  totalHours: row.total_hours === null ? undefined : Number(row.total_hours),
+  status: row.status,
+  shiftId: row.shift_id ?? undefined,
+  deviceId: row.device_id ?? undefined,
+  syncedAt: row.synced_at ?? undefined,
+  autoClockedOut: row.auto_clocked_out ?? undefined,
+  notes: row.notes ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromTimeClock = (record: TimeClock): TimeClockRow => ({
+  id: record.id,
+  employee_id: record.employeeId,
+  restaurant_id: record.restaurantId,
+  clock_in_time: record.clockInTime,
+  clock_out_time: record.clockOutTime ?? null,
+  total_hours: record.totalHours ?? null,
+  status: record.status,
+  shift_id: record.shiftId ?? null,
+  device_id: record.deviceId ?? null,
+  synced_at: record.syncedAt ?? null,
+  auto_clocked_out: record.autoClockedOut ?? false,
+  notes: record.notes ?? null,
+  created_at: record.createdAt,
+  updated_at: record.updatedAt
+});
+
+const toKioskDevice = (row: KioskDeviceRow): KioskDevice => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  name: row.name,
+  lastSeenAt: row.last_seen_at,
+  lastSyncAt: row.last_sync_at ?? undefined,
+  pendingPunches: row.pending_punches ?? []
+});
+
+const fromKioskDevice = (device: KioskDevice): KioskDeviceRow => ({
+  id: device.id,
+  restaurant_id: device.restaurantId,
+  name: device.name,
+  last_seen_at: device.lastSeenAt,
+  last_sync_at: device.lastSyncAt ?? null,
+  pending_punches: device.pendingPunches
+});
+
+const toKioskAuthEvent = (row: KioskAuthEventRow): KioskAuthEvent => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id ?? undefined,
+  method: row.method,
+  outcome: row.outcome,
+  createdAt: row.created_at
+});
+
+const toTimesheet = (row: TimesheetRow): Timesheet => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  weekStartDate: row.week_start_date,
+  status: row.status,
+  lines: row.lines ?? [],
+  statusReason: row.status_reason ?? undefined,
+  submittedAt: row.submitted_at ?? undefined,
+  submittedBy: row.submitted_by ?? undefined,
+  approvedAt: row.approved_at ?? undefined,
+  approvedBy: row.approved_by ?? undefined,
+  lockedAt: row.locked_at ?? undefined,
+  lockedBy: row.locked_by ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromTimesheet = (timesheet: Timesheet): TimesheetRow => ({
+  id: timesheet.id,
+  restaurant_id: timesheet.restaurantId,
+  employee_id: timesheet.employeeId,
+  week_start_date: timesheet.weekStartDate,
+  status: timesheet.status,
+  lines: timesheet.lines,
+  status_reason: timesheet.statusReason ?? null,
+  submitted_at: timesheet.submittedAt ?? null,
+  submitted_by: timesheet.submittedBy ?? null,
+  approved_at: timesheet.approvedAt ?? null,
+  approved_by: timesheet.approvedBy ?? null,
+  locked_at: timesheet.lockedAt ?? null,
+  locked_by: timesheet.lockedBy ?? null,
+  created_at: timesheet.createdAt,
+  updated_at: timesheet.updatedAt
+});
+
+const toTimesheetAuditEntry = (row: TimesheetAuditRow): TimesheetAuditEntry => ({
+  id: row.id,
+  timesheetId: row.timesheet_id,
+  restaurantId: row.restaurant_id,
+  action: row.action,
+  lineId: row.line_id ?? undefined,
+  previousHours: row.previous_hours === null ? undefined : Number(row.previous_hours),
+  newHours: row.new_hours === null ? undefined : Number(row.new_hours),
+  reason: row.reason ?? undefined,
+  userId: row.user_id ?? undefined,
+  createdAt: row.created_at
+});
+
+const toPayrollPeriod = (row: PayrollPeriodRow): PayrollPeriod => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  month: row.month,
+  status: row.status,
+  validatedAt: row.validated_at ?? undefined,
+  validatedBy: row.validated_by ?? undefined,
+  exportedAt: row.exported_at ?? undefined,
+  exportedBy: row.exported_by ?? undefined,
+  closedAt: row.closed_at ?? undefined,
+  closedBy: row.closed_by ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromPayrollPeriod = (period: PayrollPeriod): PayrollPeriodRow => ({
+  id: period.id,
+  restaurant_id: period.restaurantId,
+  month: period.month,
+  status: period.status,
+  validated_at: period.validatedAt ?? null,
+  validated_by: period.validatedBy ?? null,
+  exported_at: period.exportedAt ?? null,
+  exported_by: period.exportedBy ?? null,
+  closed_at: period.closedAt ?? null,
+  closed_by: period.closedBy ?? null,
+  created_at: period.createdAt,
+  updated_at: period.updatedAt
+});
+
+const toPayrollRegularization = (row: PayrollRegularizationRow): PayrollRegularization => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  month: row.month,
+  date: row.date,
+  hours: Number(row.hours),
+  reason: row.reason,
+  createdBy: row.created_by ?? undefined,
+  createdAt: row.created_at
+});
+
+const fromPayrollRegularization = (regularization: PayrollRegularization): PayrollRegularizationRow => ({
+  id: regularization.id,
+  restaurant_id: regularization.restaurantId,
+  employee_id: regularization.employeeId,
+  month: regularization.month,
+  date: regularization.date,
+  hours: regularization.hours,
+  reason: regularization.reason,
+  created_by: regularization.createdBy ?? null,
+  created_at: regularization.createdAt
+});
+
+const toLeaveLedgerEntry = (row: LeaveLedgerEntryRow): LeaveLedgerEntry => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  counter: row.counter,
+  date: row.date,
+  amount: Number(row.amount),
+  reason: row.reason,
+  createdBy: row.created_by ?? undefined,
+  createdAt: row.created_at
+});
+
+const fromLeaveLedgerEntry = (entry: LeaveLedgerEntry): LeaveLedgerEntryRow => ({
+  id: entry.id,
+  restaurant_id: entry.restaurantId,
+  employee_id: entry.employeeId,
+  counter: entry.counter,
+  date: entry.date,
+  amount: entry.amount,
+  reason: entry.reason,
+  created_by: entry.createdBy ?? null,
+  created_at: entry.createdAt
+});
+
+const toLeaveRequest = (row: LeaveRequestRow): LeaveRequest => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  type: row.type,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  reason: row.reason ?? undefined,
+  status: row.status,
+  managerComment: row.manager_comment ?? undefined,
+  requestedBy: row.requested_by ?? undefined,
+  reviewedBy: row.reviewed_by ?? undefined,
+  reviewedAt: row.reviewed_at ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromLeaveRequest = (request: LeaveRequest): LeaveRequestRow => ({
+  id: request.id,
+  restaurant_id: request.restaurantId,
+  employee_id: request.employeeId,
+  type: request.type,
+  start_date: request.startDate,
+  end_date: request.endDate,
+  reason: request.reason ?? null,
+  status: request.status,
+  manager_comment: request.managerComment ?? null,
+  requested_by: request.requestedBy ?? null,
+  reviewed_by: request.reviewedBy ?? null,
+  reviewed_at: request.reviewedAt ?? null,
+  created_at: request.createdAt,
+  updated_at: request.updatedAt
+});
+
+const toAvailabilityChangeRequest = (row: AvailabilityChangeRequestRow): AvailabilityChangeRequest => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  availabilities: row.availabilities ?? [],
+  preference: row.preference ?? undefined,
+  status: row.status,
+  managerComment: row.manager_comment ?? undefined,
+  requestedBy: row.requested_by ?? undefined,
+  reviewedBy: row.reviewed_by ?? undefined,
+  reviewedAt: row.reviewed_at ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromAvailabilityChangeRequest = (request: AvailabilityChangeRequest): AvailabilityChangeRequestRow => ({
+  id: request.id,
+  restaurant_id: request.restaurantId,
+  employee_id: request.employeeId,
+  availabilities: request.availabilities,
+  preference: request.preference ?? null,
+  status: request.status,
+  manager_comment: request.managerComment ?? null,
+  requested_by: request.requestedBy ?? null,
+  reviewed_by: request.reviewedBy ?? null,
+  reviewed_at: request.reviewedAt ?? null,
+  created_at: request.createdAt,
+  updated_at: request.updatedAt
+});
+
+const toSchedulePublication = (row: SchedulePublicationRow): SchedulePublication => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  weekStartDate: row.week_start_date,
+  version: row.version,
+  shifts: row.shifts ?? [],
+  publishedBy: row.published_by ?? undefined,
+  publishedAt: row.published_at,
+  unpublishedBy: row.unpublished_by ?? undefined,
+  unpublishedAt: row.unpublished_at ?? undefined
+});
+
+const fromSchedulePublication = (publication: SchedulePublication): SchedulePublicationRow => ({
+  id: publication.id,
+  restaurant_id: publication.restaurantId,
+  week_start_date: publication.weekStartDate,
+  version: publication.version,
+  shifts: publication.shifts,
+  published_by: publication.publishedBy ?? null,
+  published_at: publication.publishedAt,
+  unpublished_by: publication.unpublishedBy ?? null,
+  unpublished_at: publication.unpublishedAt ?? null
+});
+
+const toScheduleNotification = (row: ScheduleNotificationRow): ScheduleNotification => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  publicationId: row.publication_id,
+  weekStartDate: row.week_start_date,
+  version: row.version,
+  kind: row.kind,
+  changes: row.changes ?? [],
+  createdAt: row.created_at,
+  readAt: row.read_at ?? undefined
+});
+
+const fromScheduleNotification = (notification: ScheduleNotification): ScheduleNotificationRow => ({
+  id: notification.id,
+  restaurant_id: notification.restaurantId,
+  employee_id: notification.employeeId,
+  publication_id: notification.publicationId,
+  week_start_date: notification.weekStartDate,
+  version: notification.version,
+  kind: notification.kind,
+  changes: notification.changes,
+  created_at: notification.createdAt,
+  read_at: notification.readAt ?? null
+});
+
+const toShiftOffer = (row: ShiftOfferRow): ShiftOffer => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  weekStartDate: row.week_start_date,
+  shift: row.shift,
+  category: row.category,
+  offeredBy: row.offered_by ?? undefined,
+  note: row.note ?? undefined,
+  status: row.status,
+  claimedBy: row.claimed_by ?? undefined,
+  claimedAt: row.claimed_at ?? undefined,
+  managerComment: row.manager_comment ?? undefined,
+  createdBy: row.created_by ?? undefined,
+  reviewedBy: row.reviewed_by ?? undefined,
+  reviewedAt: row.reviewed_at ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const fromShiftOffer = (offer: ShiftOffer): ShiftOfferRow => ({
+  id: offer.id,
+  restaurant_id: offer.restaurantId,
+  week_start_date: offer.weekStartDate,
+  shift: offer.shift,
+  category: offer.category,
+  offered_by: offer.offeredBy ?? null,
+  note: offer.note ?? null,
+  status: offer.status,
+  claimed_by: offer.claimedBy ?? null,
+  claimed_at: offer.claimedAt ?? null,
+  manager_comment: offer.managerComment ?? null,
+  created_by: offer.createdBy ?? null,
+  reviewed_by: offer.reviewedBy ?? null,
+  reviewed_at: offer.reviewedAt ?? null,
+  created_at: offer.createdAt,
+  updated_at: offer.updatedAt
+});
+
+const toDocumentSignatureRequest = (row: DocumentSignatureRequestRow): DocumentSignatureRequest => ({
+  id: row.id,
+  restaurantId: row.restaurant_id,
+  employeeId: row.employee_id,
+  kind: row.kind,
+  title: row.title,
+  content: row.content,
+  contentHash: row.content_hash,
+  message: row.message ?? undefined,
+  status: row.status,
+  provider: row.provider,
+  providerReference: row.provider_reference ?? undefined,
+  signature: row.signature ?? undefined,
+  sealHash: row.seal_hash ?? undefined,
+  signerIp: row.signer_ip ?? undefined,
+  rejectionReason: row.rejection_reason ?? undefined,
+  requestedBy: row.requested_by ?? undefined,
+  requestedAt: row.requested_at,
+  viewedAt: row.viewed_at ?? undefined,
+  closedBy: row.closed_by ?? undefined,
+  closedAt: row.closed_at ?? undefined,
+  updatedAt: row.updated_at
+});
+
+// signer_ip is left out: only the server records it
+const fromDocumentSignatureRequest = (
+  request: DocumentSignatureRequest
+): Omit<DocumentSignatureRequestRow, 'signer_ip'> => ({
+  id: request.id,
+  restaurant_id: request.restaurantId,
+  employee_id: request.employeeId,
+  kind: request.kind,
+  title: request.title,
+  content: request.content,
+  content_hash: request.contentHash,
+  message: request.message ?? null,
+  status: request.status,
+  provider: request.provider,
+  provider_reference: request.providerReference ?? null,
+  signature: request.signature ?? null,
+  seal_hash: request.sealHash ?? null,
+  rejection_reason: request.rejectionReason ?? null,
+  requested_by: request.requestedBy ?? null,
+  requested_at: request.requestedAt,
+  viewed_at: request.viewedAt ?? null,
+  closed_by: request.closedBy ?? null,
+  closed_at: request.closedAt ?? null,
+  updated_at: request.updatedAt
+});
+
+export class DataService {
+  private static instance: DataService;
+  // Cache of (restaurantId, weekStartDate) -> schedules.id to avoid a lookup per shift write
+  private scheduleIds: Map<string, string> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): DataService {
+    if (!DataService.instance) {
+      DataService.instance = new DataService();
+    }
+    return DataService.instance;
+  }
+
+  // CRITICAL: Restaurants
+  async fetchRestaurants(): Promise<Restaurant[]> {
+    const { data, error } = await supabase
+      .from('restaurants')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return (data as RestaurantRow[]).map(toRestaurant);
+  }
+
+  async insertRestaurant(restaurant: Restaurant): Promise<void> {
+    const { error } = await supabase
+      .from('restaurants')
+      .insert([fromRestaurant(restaurant)]);
+
+    if (error) throw error;
+  }
+
+  async updateRestaurant(restaurant: Restaurant): Promise<void> {
+    const { error } = await supabase
+      .from('restaurants')
+      .update({ ...fromRestaurant(restaurant), updated_at: new Date().toISOString() })
+      .eq('id', restaurant.id);
+
+    if (error) throw error;
+  }
+
+  async deleteRestaurant(restaurantId: string): Promise<void> {
+    // Schedules, shifts and employees are removed by ON DELETE CASCADE
+    const { error } = await supabase
+      .from('restaurants')
+      .delete()
+      .eq('id', restaurantId);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Employees
+  async fetchEmployees(): Promise<Employee[]> {
+    const { data, error } = await supabase
+      .from('employees')
+      .select('*, employee_sensitive_data(social_security_number, hourly_rate, gross_monthly_salary)')
+      .order('last_name');
+
+    if (error) throw error;
+    return (data as EmployeeRow[]).map(toEmployee);
+  }
+
+  async insertEmployee(employee: Employee): Promise<void> {
+    await this.saveEmployee(employee);
+  }
+
+  async updateEmployee(employee: Employee): Promise<void> {
+    await this.saveEmployee(employee);
+  }
+
+  // CRITICAL: Pay and identity data live in a table only managers can read or write (RLS);
+  // save_employee writes it in the same transaction as the employee row
+  private async saveEmployee(employee: Employee): Promise<void> {
+    const { error } = await supabase.rpc('save_employee', {
+      p_employee: fromEmployee(employee),
+      p_sensitive_data: fromEmployeeSensitiveData(employee)
+    });
+
+    if (error) throw error;
+  }
+
+  async deleteEmployee(employeeId: string): Promise<void> {
+    const { error } = await supabase
+      .from('employees')
+      .delete()
+      .eq('id', employeeId);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Schedules (one row per restaurant and week) with their shifts
+  async fetchSchedules(): Promise<Schedule[]> {
+    const { data, error } = await supabase
+      .from('schedules')
+      .select('*, shifts(*)')
+      .order('week_start_date');
+
+    if (error) throw error;
+
+    const schedules = (data as ScheduleRow[]).map(toSchedule);
+    schedules.forEach(schedule => {
+      this.scheduleIds.set(`${schedule.restaurantId}-${schedule.weekStartDate}`, schedule.id);
+    });
+    return schedules;
+  }
+
+  /**
+   * Return the database id of the weekly schedule, creating the row if needed.
+   * When two managers open the same new week at the same time, the second insert
+   * is ignored (UNIQUE(restaurant_id, week_start_date)) and the existing row's id
+   * is read back: an existing schedule id is never rewritten.
+   */
+  async ensureSchedule(schedule: Pick<Schedule, 'id' | 'restaurantId' | 'weekStartDate'>): Promise<string> {
+    const cacheKey = `${schedule.restaurantId}-${schedule.weekStartDate}`;
+    const cachedId = this.scheduleIds.get(cacheKey);
+    if (cachedId) return cachedId;
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('schedules')
+      .upsert(
+        [{ id: schedule.id, restaurant_id: schedule.restaurantId, week_start_date: schedule.weekStartDate }],
+        { onConflict: 'restaurant_id,week_start_date', ignoreDuplicates: true }
+      )
+      .select('id')
+      .maybeSingle();
+
+    if (insertError) throw insertError;
+
+    let scheduleId = inserted?.id as string | undefined;
+    if (!scheduleId) {
+      // The week already existed: use its id, not ours
+      const { data: existing, error } = await supabase
+        .from('schedules')
+        .select('id')
+        .eq('restaurant_id', schedule.restaurantId)
+        .eq('week_start_date', schedule.weekStartDate)
+        .single();
+
+      if (error) throw error;
+      scheduleId = existing.id as string;
+    }
+
+    this.scheduleIds.set(cacheKey, scheduleId);
+    return scheduleId;
+  }
+
+  // CRITICAL: Shifts
+  async insertShift(shift: Shift, schedule: Pick<Schedule, 'id' | 'restaurantId' | 'weekStartDate'>): Promise<void> {
+    const scheduleId = await this.ensureSchedule(schedule);
+    const { error } = await supabase
+      .from('shifts')
+      .insert([fromShift(shift, scheduleId, schedule.weekStartDate)]);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Update a shift. When `expectedVersion` is given the write only succeeds if
+   * nobody else changed the shift in the meantime.
+   */
+  async updateShift(
+    shift: Shift,
+    schedule: Pick<Schedule, 'id' | 'restaurantId' | 'weekStartDate'>,
+    expectedVersion?: number
+  ): Promise<void> {
+    const scheduleId = await this.ensureSchedule(schedule);
+    let query = supabase
+      .from('shifts')
+      .update({ ...fromShift(shift, scheduleId, schedule.weekStartDate), updated_at: new Date().toISOString() })
+      .eq('id', shift.id);
+
+    if (expectedVersion !== undefined) {
+      query = query.eq('version', expectedVersion);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) throw error;
+
+    if (expectedVersion !== undefined && data.length === 0) {
+      throw new ShiftVersionConflictError(await this.fetchShift(shift.id));
+    }
+  }
+
+  async fetchShift(shiftId: string): Promise<Shift | null> {
+    const { data, error } = await supabase
+      .from('shifts')
+      .select('*')
+      .eq('id', shiftId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? toShift(data as ShiftRow) : null;
+  }
+
+  /**
+   * Delete a shift. When `expectedVersion` is given the delete only succeeds if
+   * nobody else changed the shift in the meantime; a shift already gone is not a conflict.
+   */
+  async deleteShift(shiftId: string, expectedVersion?: number): Promise<void> {
+    let query = supabase
+      .from('shifts')
+      .delete()
+      .eq('id', shiftId);
+
+    if (expectedVersion !== undefined) {
+      query = query.eq('version', expectedVersion);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) throw error;
+
+    if (expectedVersion !== undefined && data.length === 0) {
+      const remote = await this.fetchShift(shiftId);
+      if (remote) throw new ShiftVersionConflictError(remote);
+    }
+  }
+
+  // CRITICAL: Employee preferences and availabilities
+  async fetchEmployeePreferences(): Promise<EmployeePreference[]> {
+    const { data, error } = await supabase
+      .from('employee_preferences')
+      .select('*');
+
+    if (error) throw error;
+    return (data as EmployeePreferenceRow[]).map(toEmployeePreference);
+  }
+
+  async upsertEmployeePreference(preference: EmployeePreference): Promise<void> {
+    const { error } = await supabase
+      .from('employee_preferences')
+      .upsert([fromEmployeePreference(preference)]);
+
+    if (error) throw error;
+  }
+
+  async fetchEmployeeAvailabilities(): Promise<EmployeeAvailability[]> {
+    const { data, error } = await supabase
+      .from('employee_availabilities')
+      .select('*');
+
+    if (error) throw error;
+    return (data as EmployeeAvailabilityRow[]).map(toEmployeeAvailability);
+  }
+
+  async insertEmployeeAvailability(availability: EmployeeAvailability): Promise<void> {
+    const { error } = await supabase
+      .from('employee_availabilities')
+      .insert([fromEmployeeAvailability(availability)]);
+
+    if (error) throw error;
+  }
+
+  async deleteEmployeeAvailability(availabilityId: string): Promise<void> {
+    const { error } = await supabase
+      .from('employee_availabilities')
+      .delete()
+      .eq('id', availabilityId);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Daily POS figures (turnover, covers) used by the forecasts
+  async fetchPOSData(restaurantId: string, startDate: string, endDate: string): Promise<POSData[]> {
+    const { data, error } = await supabase
+      .from('pos_data')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date');
+
+    if (error) throw error;
+    return (data as POSDataRow[]).map(toPOSData);
+  }
+
+  // CRITICAL: Time clock punches (badgeuse)
+  async fetchTimeClockRecords(restaurantId: string, from: string, to: string): Promise<TimeClock[]> {
+    const { data, error } = await supabase
+      .from('time_clock')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .gte('clock_in_time', from)
+      .lt('clock_in_time', to)
+      .order('clock_in_time');
+
+    if (error) throw error;
+    return (data as TimeClockRow[]).map(toTimeClock);
+  }
+
+  async fetchActiveTimeClock(employeeId: string): Promise<TimeClock | null> {
+    const { data, error } = await supabase
+      .from('time_clock')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTimeClock(data as TimeClockRow) : null;
+  }
+
+  async fetchTimeClockRecord(recordId: string): Promise<TimeClock | null> {
+    const { data, error } = await supabase
+      .from('time_clock')
+      .select('*')
+      .eq('id', recordId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toTimeClock(data as TimeClockRow) : null;
+  }
+
+  async fetchActiveTimeClocks(restaurantId: string): Promise<TimeClock[]> {
+    const { data, error } = await supabase
+      .from('time_clock')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    return (data as TimeClockRow[]).map(toTimeClock);
+  }
+
+  async insertTimeClock(record: TimeClock): Promise<void> {
+    const { error } = await supabase
+      .from('time_clock')
+      .insert([fromTimeClock(record)]);
+
+    if (error) throw error;
+  }
+
+  async updateTimeClock(record: TimeClock): Promise<void> {
+    const { error } = await supabase
+      .from('time_clock')
+      .update({ ...fromTimeClock(record), updated_at: new Date().toISOString() })
+      .eq('id', record.id);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Kiosk credentials - hashing, lockout, audit and the punch itself happen in SQL functions
+  async authenticateKiosk(
+    restaurantId: string,
+    method: KioskAuthMethod,
+    employeeId: string | null,
+    secret: string,
+    shiftId?: string
+  ): Promise<KioskAuthResult> {
+    const { data, error } = await supabase.rpc('authenticate_kiosk', {
+      p_restaurant_id: restaurantId,
+      p_method: method,
+      p_employee_id: employeeId,
+      p_secret: secret,
+      p_shift_id: shiftId ?? null
+    });
+
+    if (error) throw error;
+    const row = data as KioskAuthResultRow;
+    return {
+      outcome: row.outcome,
+      employeeId: row.employee_id ?? undefined,
+      lockedUntil: row.locked_until ?? undefined,
+      remainingAttempts: row.remaining_attempts ?? undefined,
+      punch: row.punch ? toTimeClock(row.punch) : undefined
+    };
+  }
+
+  async setEmployeeKioskPin(employeeId: string, pin: string | null): Promise<void> {
+    const { error } = await supabase.rpc('set_employee_kiosk_pin', {
+      p_employee_id: employeeId,
+      p_pin: pin
+    });
+
+    if (error) throw error;
+  }
+
+  async unlockEmployeeKiosk(employeeId: string): Promise<void> {
+    const { error } = await supabase.rpc('unlock_employee_kiosk', { p_employee_id: employeeId });
+
+    if (error) throw error;
+  }
+
+  async regenerateEmployeeBadge(employeeId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('regenerate_employee_badge', { p_employee_id: employeeId });
+
+    if (error) throw error;
+    return data as string;
+  }
+
+  async fetchEmployeeBadgeTokens(restaurantId: string): Promise<Record<string, string>> {
+    const { data, error } = await supabase.rpc('get_employee_badge_tokens', { p_restaurant_id: restaurantId });
+
+    if (error) throw error;
+    return Object.fromEntries(
+      (data as { employee_id: string; badge_token: string }[]).map(row => [row.employee_id, row.badge_token])
+    );
+  }
+
+  async fetchKioskCredentialStatus(restaurantId: string): Promise<KioskCredentialStatus[]> {
+    const { data, error } = await supabase.rpc('get_kiosk_credential_status', { p_restaurant_id: restaurantId });
+
+    if (error) throw error;
+    return (data as KioskCredentialStatusRow[]).map(row => ({
+      employeeId: row.employee_id,
+      hasPin: row.has_pin,
+      failedAttempts: row.failed_attempts,
+      lockedUntil: row.locked_until ?? undefined
+    }));
+  }
+
+  async fetchKioskAuthEvents(restaurantId: string, limit: number): Promise<KioskAuthEvent[]> {
+    const { data, error } = await supabase
+      .from('kiosk_auth_events')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data as KioskAuthEventRow[]).map(toKioskAuthEvent);
+  }
+
+  // Identification attempts checked offline on a tablet; already uploaded events are ignored
+  async recordKioskAuthEvents(restaurantId: string, events: KioskAuthEvent[]): Promise<void> {
+    const { error } = await supabase.rpc('record_kiosk_auth_events', {
+      p_restaurant_id: restaurantId,
+      p_events: events
+    });
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Kiosk tablets
+  async upsertKioskDevice(device: KioskDevice): Promise<void> {
+    const { error } = await supabase
+      .from('kiosk_devices')
+      .upsert(fromKioskDevice(device));
+
+    if (error) throw error;
+  }
+
+  async fetchKioskDevices(restaurantId: string): Promise<KioskDevice[]> {
+    const { data, error } = await supabase
+      .from('kiosk_devices')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .order('name');
+
+    if (error) throw error;
+    return (data as KioskDeviceRow[]).map(toKioskDevice);
+  }
+
+  async deleteKioskDevice(deviceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('kiosk_devices')
+      .delete()
+      .eq('id', deviceId);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Weekly timesheets - weeks starting between the two Mondays (inclusive)
+  async fetchTimesheets(restaurantId: string, fromWeek: string, toWeek: string): Promise<Timesheet[]> {
+    const { data, error } = await supabase
+      .from('timesheets')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .gte('week_start_date', fromWeek)
+      .lte('week_start_date', toWeek);
+
+    if (error) throw error;
+    return (data as TimesheetRow[]).map(toTimesheet);
+  }
+
+  async upsertTimesheet(timesheet: Timesheet): Promise<void> {
+    const { error } = await supabase
+      .from('timesheets')
+      .upsert(fromTimesheet(timesheet));
+
+    if (error) throw error;
+  }
+
+  // Written by the timesheets triggers, read-only for clients
+  async fetchTimesheetAuditLog(timesheetId: string): Promise<TimesheetAuditEntry[]> {
+    const { data, error } = await supabase
+      .from('timesheet_audit_log')
+      .select('*')
+      .eq('timesheet_id', timesheetId)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data as TimesheetAuditRow[]).map(toTimesheetAuditEntry);
+  }
+
+  // CRITICAL: Monthly payroll periods of the given restaurants
+  async fetchPayrollPeriods(restaurantIds: string[]): Promise<PayrollPeriod[]> {
+    if (restaurantIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('payroll_periods')
+      .select('*')
+      .in('restaurant_id', restaurantIds)
+      .order('month');
+
+    if (error) throw error;
+    return (data as PayrollPeriodRow[]).map(toPayrollPeriod);
+  }
+
+  async upsertPayrollPeriod(period: PayrollPeriod): Promise<void> {
+    const { error } = await supabase
+      .from('payroll_periods')
+      .upsert(fromPayrollPeriod(period));
+
+    if (error) throw error;
+  }
+
+  async fetchPayrollRegularizations(restaurantId: string, month: string): Promise<PayrollRegularization[]> {
+    const { data, error } = await supabase
+      .from('payroll_regularizations')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .eq('month', month)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data as PayrollRegularizationRow[]).map(toPayrollRegularization);
+  }
+
+  async insertPayrollRegularization(regularization: PayrollRegularization): Promise<void> {
+    const { error } = await supabase
+      .from('payroll_regularizations')
+      .insert([fromPayrollRegularization(regularization)]);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Manual leave counter movements of an employee
+  async fetchLeaveLedgerEntries(employeeId: string): Promise<LeaveLedgerEntry[]> {
+    const { data, error } = await supabase
+      .from('leave_ledger_entries')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .order('date');
+
+    if (error) throw error;
+    return (data as LeaveLedgerEntryRow[]).map(toLeaveLedgerEntry);
+  }
+
+  async insertLeaveLedgerEntry(entry: LeaveLedgerEntry): Promise<void> {
+    const { error } = await supabase
+      .from('leave_ledger_entries')
+      .insert([fromLeaveLedgerEntry(entry)]);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Leave requests from the employee portal and their review
+  async fetchLeaveRequests(restaurantIds: string[]): Promise<LeaveRequest[]> {
+    if (restaurantIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('leave_requests')
+      .select('*')
+      .in('restaurant_id', restaurantIds)
+      .order('start_date');
+
+    if (error) throw error;
+    return (data as LeaveRequestRow[]).map(toLeaveRequest);
+  }
+
+  async upsertLeaveRequest(request: LeaveRequest): Promise<void> {
+    const { error } = await supabase
+      .from('leave_requests')
+      .upsert(fromLeaveRequest(request));
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Availability changes proposed from the employee portal
+  async fetchAvailabilityChangeRequests(restaurantIds: string[]): Promise<AvailabilityChangeRequest[]> {
+    if (restaurantIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('availability_change_requests')
+      .select('*')
+      .in('restaurant_id', restaurantIds)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data as AvailabilityChangeRequestRow[]).map(toAvailabilityChangeRequest);
+  }
+
+  async upsertAvailabilityChangeRequest(request: AvailabilityChangeRequest): Promise<void> {
+    const { error } = await supabase
+      .from('availability_change_requests')
+      .upsert(fromAvailabilityChangeRequest(request));
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Published versions of the weeks - insert only, a version is then just withdrawn
+  async fetchSchedulePublications(restaurantIds: string[]): Promise<SchedulePublication[]> {
+    if (restaurantIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('schedule_publications')
+      .select('*')
+      .in('restaurant_id', restaurantIds)
+      .order('published_at');
+
+    if (error) throw error;
+    return (data as SchedulePublicationRow[]).map(toSchedulePublication);
+  }
+
+  async insertSchedulePublication(publication: SchedulePublication): Promise<void> {
+    const { error } = await supabase
+      .from('schedule_publications')
+      .insert([fromSchedulePublication(publication)]);
+
+    if (error) throw error;
+  }
+
+  async withdrawSchedulePublication(publication: SchedulePublication): Promise<void> {
+    const { error } = await supabase
+      .from('schedule_publications')
+      .update({
+        unpublished_at: publication.unpublishedAt ?? null,
+        unpublished_by: publication.unpublishedBy ?? null
+      })
+      .eq('id', publication.id);
+
+    if (error) throw error;
+  }
+
+  async fetchScheduleNotifications(restaurantIds: string[]): Promise<ScheduleNotification[]> {
+    if (restaurantIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('schedule_notifications')
+      .select('*')
+      .in('restaurant_id', restaurantIds)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data as ScheduleNotificationRow[]).map(toScheduleNotification);
+  }
+
+  async insertScheduleNotifications(notifications: ScheduleNotification[]): Promise<void> {
+    if (notifications.length === 0) return;
+
+    const { error } = await supabase
+      .from('schedule_notifications')
+      .insert(notifications.map(fromScheduleNotification));
+
+    if (error) throw error;
+  }
+
+  async markScheduleNotificationRead(notification: ScheduleNotification): Promise<void> {
+    const { error } = await supabase
+      .from('schedule_notifications')
+      .update({ read_at: notification.readAt ?? null })
+      .eq('id', notification.id);
+
+    if (error) throw error;
+  }
+
+  // CRITICAL: Shift swaps and open shifts
+  async fetchShiftOffers(restaurantIds: string[]): Promise<ShiftOffer[]> {
+    if (restaurantIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('shift_offers')
+      .select('*')
+      .in('restaurant_id', restaurantIds)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data as ShiftOfferRow[]).map(toShiftOffer);
+  }
+
+  async upsertShiftOffer(offer: ShiftOffer): Promise<void> {
+    const { error } = await supabase
+      .from('shift_offers')
+      .upsert(fromShiftOffer(offer));
+
+    if (error) throw error;
+  }
+
+  // Approves the offer and hands the shift over in one transaction; returns both stored rows
+  async approveShiftOffer(offerId: string, comment?: string): Promise<{ offer: ShiftOffer; shift: Shift }> {
+    const { data, error } = await supabase.rpc('approve_shift_offer', {
+      p_offer_id: offerId,
+      p_comment: comment ?? null
+    });
+
+    if (error) throw error;
+
+    const result = data as { offer: ShiftOfferRow; shift: ShiftRow };
+    return { offer: toShiftOffer(result.offer), shift: toShift(result.shift) };
+  }
+
+  // CRITICAL: HR documents sent for electronic signature
+  async fetchDocumentSignatureRequests(restaurantIds: string[]): Promise<DocumentSignatureRequest[]> {
+    if (restaurantIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('document_signature_requests')
+      .select('*')
+      .in('restaurant_id', restaurantIds)
+      .order('requested_at');
+
+    if (error) throw error;
+    return (data as DocumentSignatureRequestRow[]).map(toDocumentSignatureRequest);
+  }
+
+  // Returns the stored row, with the IP address the server recorded on signature
+  async upsertDocumentSignatureRequest(request: DocumentSignatureRequest): Promise<DocumentSignatureRequest> {
+    const { data, error } = await supabase
+      .from('document_signature_requests')
+      .upsert(fromDocumentSignatureRequest(request))
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toDocumentSignatureRequest(data as DocumentSignatureRequestRow);
+  }
+}
+
+// CRITICAL: Export singleton instance
+export const dataService = DataService.getInstance();
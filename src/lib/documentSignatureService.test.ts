@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentSignatureRequest, SignatureEvidence } from '../types';
+import {
+  documentSignatureService,
+  getContentHash,
+  getSealHash,
+  LocalSignatureProvider,
+  verifySignatureRequest
+} from './documentSignatureService';
+
+// Demo mode: requests are kept in localStorage, never sent to Supabase
+vi.mock('./supabase', () => ({ isSupabaseConfigured: false }));
+vi.mock('./dataService', () => ({ dataService: {} }));
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key)
+});
+
+const DOCUMENT = {
+  restaurantId: 'restaurant-1',
+  employeeId: 'employee-1',
+  kind: 'amendment' as const,
+  title: 'Avenant au contrat de travail - Camille Martin',
+  content: 'Article 1 - La durée hebdomadaire de travail est portée à 35 heures.'
+};
+
+const SIGNATURE = { method: 'drawn' as const, signerName: 'Camille Martin', image: 'data:image/png;base64,AAAA' };
+
+const evidence: SignatureEvidence = {
+  ...SIGNATURE,
+  signedAt: '2025-08-01T09:00:00.000Z',
+  userId: 'user-1',
+  userAgent: 'vitest'
+};
+
+const stored = (): DocumentSignatureRequest[] =>
+  JSON.parse(localStorage.getItem('signatureRequests_restaurant-1') ?? '[]');
+
+describe('content and seal hashing', () => {
+  it('hashes everything the employee agrees to', async () => {
+    const hash = await getContentHash(DOCUMENT);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await getContentHash({ ...DOCUMENT })).toBe(hash);
+    expect(await getContentHash({ ...DOCUMENT, content: `${DOCUMENT.content} ` })).not.toBe(hash);
+    expect(await getContentHash({ ...DOCUMENT, title: 'Contrat de travail' })).not.toBe(hash);
+    expect(await getContentHash({ ...DOCUMENT, employeeId: 'employee-2' })).not.toBe(hash);
+    expect(await getContentHash({ ...DOCUMENT, kind: 'contract' })).not.toBe(hash);
+  });
+
+  it('seals the evidence together with the content hash', async () => {
+    const contentHash = await getContentHash(DOCUMENT);
+    const seal = await getSealHash(contentHash, evidence);
+
+    expect(await getSealHash(contentHash, { ...evidence })).toBe(seal);
+    expect(await getSealHash(contentHash, { ...evidence, signerName: 'C. Martin' })).not.toBe(seal);
+    expect(await getSealHash(contentHash, { ...evidence, signedAt: '2025-08-02T09:00:00.000Z' })).not.toBe(seal);
+    expect(await getSealHash(await getContentHash({ ...DOCUMENT, content: 'Autre texte' }), evidence)).not.toBe(seal);
+  });
+});
+
+describe('LocalSignatureProvider', () => {
+  it('seals with the seal hash and a local reference', async () => {
+    const request = await documentSignatureService.create(DOCUMENT, 'manager-1');
+    const { sealHash, reference } = await new LocalSignatureProvider().seal(request, evidence);
+
+    expect(sealHash).toBe(await getSealHash(request.contentHash, evidence));
+    expect(reference).toMatch(/^local-[0-9a-f-]{36}$/);
+  });
+});
+
+describe('DocumentSignatureService', () => {
+  beforeEach(() => storage.clear());
+
+  it('creates a pending request hashed from its trimmed text', async () => {
+    const request = await documentSignatureService.create(
+      { ...DOCUMENT, title: `  ${DOCUMENT.title} `, message: ' ' },
+      'manager-1'
+    );
+
+    expect(request).toMatchObject({ status: 'pending', provider: 'local', requestedBy: 'manager-1', title: DOCUMENT.title });
+    expect(request.message).toBeUndefined();
+    expect(request.contentHash).toBe(await getContentHash(DOCUMENT));
+    expect(stored()).toEqual([request]);
+  });
+
+  it('refuses a request without a text', async () => {
+    await expect(documentSignatureService.create({ ...DOCUMENT, content: '  ' })).rejects.toThrow('needs a title and a text');
+    expect(stored()).toEqual([]);
+  });
+
+  it('records the first opening only', async () => {
+    const request = await documentSignatureService.create(DOCUMENT);
+    const viewed = await documentSignatureService.markViewed(request);
+
+    expect(viewed.viewedAt).toBeDefined();
+    expect(await documentSignatureService.markViewed({ ...viewed })).toEqual(viewed);
+  });
+
+  it('signs a pending request once, with evidence that verifies', async () => {
+    const request = await documentSignatureService.create(DOCUMENT);
+    const signed = await documentSignatureService.sign(request, SIGNATURE, 'user-1');
+
+    expect(signed).toMatchObject({ status: 'signed', signature: { signerName: 'Camille Martin', userId: 'user-1' } });
+    expect(signed.providerReference).toMatch(/^local-/);
+    expect(signed.viewedAt).toBe(signed.signature?.signedAt);
+    expect(await verifySignatureRequest(signed)).toEqual({ contentIntact: true, sealIntact: true });
+    expect(stored()).toEqual([signed]);
+
+    await expect(documentSignatureService.sign(signed, SIGNATURE)).rejects.toThrow('already signed');
+    await expect(documentSignatureService.close(signed, 'cancelled')).rejects.toThrow('already signed');
+  });
+
+  it('refuses to sign a text changed after the request', async () => {
+    const request = await documentSignatureService.create(DOCUMENT);
+
+    await expect(
+      documentSignatureService.sign({ ...request, content: 'Article 1 - 39 heures.' }, SIGNATURE)
+    ).rejects.toThrow('modified after the signature was requested');
+    await expect(documentSignatureService.sign(request, { ...SIGNATURE, signerName: ' ' })).rejects.toThrow('signer name');
+  });
+
+  it('detects a tampered text or signature', async () => {
+    const signed = await documentSignatureService.sign(await documentSignatureService.create(DOCUMENT), SIGNATURE);
+
+    expect(await verifySignatureRequest({ ...signed, content: 'Autre texte' })).toEqual({ contentIntact: false, sealIntact: true });
+    expect(
+      await verifySignatureRequest({ ...signed, signature: { ...signed.signature!, signerName: 'Quelqu\'un' } })
+    ).toEqual({ contentIntact: true, sealIntact: false });
+    expect(await verifySignatureRequest({ ...signed, sealHash: undefined })).toEqual({ contentIntact: true, sealIntact: false });
+  });
+
+  it('rejects with a reason and cancels', async () => {
+    const request = await documentSignatureService.create(DOCUMENT);
+
+    await expect(documentSignatureService.close(request, 'rejected', { reason: ' ' })).rejects.toThrow('reason is required');
+
+    const rejected = await documentSignatureService.close(request, 'rejected', { reason: ' Mauvaise date ', userId: 'user-1' });
+    expect(rejected).toMatchObject({ status: 'rejected', rejectionReason: 'Mauvaise date', closedBy: 'user-1' });
+    expect(await verifySignatureRequest(rejected)).toEqual({ contentIntact: true, sealIntact: true });
+
+    const cancelled = await documentSignatureService.close(
+      await documentSignatureService.create(DOCUMENT),
+      'cancelled',
+      { reason: 'Ignored', userId: 'manager-1' }
+    );
+    expect(cancelled).toMatchObject({ status: 'cancelled', closedBy: 'manager-1' });
+    expect(cancelled.rejectionReason).toBeUndefined();
+    expect(stored().map(r => r.status)).toEqual(['rejected', 'cancelled']);
+  });
+});
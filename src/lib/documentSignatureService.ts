@@ -0,0 +1,274 @@
+// CRITICAL: Document signature service - contracts and amendments signed from the employee portal, sealed with SHA-256
+import { format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DocumentSignatureRequest,
+  Employee,
+  Restaurant,
+  SignatureDocumentKind,
+  SignatureEvidence,
+  SignatureMethod
+} from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+/**
+ * Backend that seals a signed document. A hosted e-signature service would also
+ * timestamp the seal and keep its own proof under the returned reference.
+ */
+export interface SignatureProvider {
+  readonly name: string;
+  seal(request: DocumentSignatureRequest, evidence: SignatureEvidence): Promise<{ sealHash: string; reference: string }>;
+}
+
+export interface SignatureVerification {
+  contentIntact: boolean; // The text still matches the hash taken when the signature was requested
+  sealIntact: boolean; // The signature evidence still matches the seal (true while unsigned)
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (text: string): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))));
+
+// Everything the employee agrees to: changing any of it breaks the hash
+export const getContentHash = (
+  request: Pick<DocumentSignatureRequest, 'employeeId' | 'kind' | 'title' | 'content'>
+): Promise<string> =>
+  sha256Hex(JSON.stringify([request.employeeId, request.kind, request.title, request.content]));
+
+export const getSealHash = (contentHash: string, evidence: SignatureEvidence): Promise<string> =>
+  sha256Hex(JSON.stringify([
+    contentHash,
+    evidence.method,
+    evidence.signerName,
+    evidence.image,
+    evidence.signedAt,
+    evidence.userId ?? '',
+    evidence.userAgent
+  ]));
+
+export const verifySignatureRequest = async (request: DocumentSignatureRequest): Promise<SignatureVerification> => {
+  const contentIntact = await getContentHash(request) === request.contentHash;
+  const sealIntact = request.signature && request.sealHash
+    ? await getSealHash(request.contentHash, request.signature) === request.sealHash
+    : request.status !== 'signed';
+  return { contentIntact, sealIntact };
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+/**
+ * Starting text for a new request, filled from the employee record. The manager
+ * reviews and completes it before sending; what is sent is what gets hashed.
+ */
+export const getSignatureTemplate = (
+  kind: SignatureDocumentKind,
+  employee: Employee,
+  restaurant?: Restaurant
+): { title: string; content: string } => {
+  const employer = restaurant?.legalName || restaurant?.name || "L'employeur";
+  const name = `${employee.firstName} ${employee.lastName}`;
+
+  if (kind === 'amendment') {
+    return {
+      title: `Avenant au contrat de travail - ${name}`,
+      content: [
+        `Entre ${employer} et ${name}, il est convenu de modifier le contrat de travail ${employee.contractType} conclu le ${formatDate(employee.startDate)} comme suit.`,
+        `Article 1 - À compter du ${format(new Date(), 'dd/MM/yyyy')}, la durée hebdomadaire de travail est portée à ${employee.weeklyHours} heures.`,
+        'Article 2 - Les autres clauses du contrat de travail demeurent inchangées.'
+      ].join('\n\n')
+    };
+  }
+
+  return {
+    title: `Contrat de travail ${employee.contractType} - ${name}`,
+    content: [
+      `${employer} engage ${name} en qualité de ${employee.position}, catégorie ${employee.category}, sous contrat ${employee.contractType}.`,
+      `Article 1 - Le contrat prend effet le ${formatDate(employee.startDate)}${employee.endDate ? ` et prend fin le ${formatDate(employee.endDate)}` : ''}.`,
+      `Article 2 - La durée hebdomadaire de travail est fixée à ${employee.weeklyHours} heures, réparties selon le planning publié.`,
+      ...(employee.hourlyRate ? [`Article 3 - La rémunération brute est fixée à ${employee.hourlyRate.toFixed(2)} € de l'heure.`] : []),
+      'Le salarié déclare avoir pris connaissance de la convention collective HCR applicable.'
+    ].join('\n\n')
+  };
+};
+
+/**
+ * Stand-in for a hosted e-signature service, used in demo mode and to exercise the
+ * flow by hand: the seal is computed in the browser and the reference is local.
+ */
+export class LocalSignatureProvider implements SignatureProvider {
+  readonly name = 'local';
+
+  async seal(request: DocumentSignatureRequest, evidence: SignatureEvidence): Promise<{ sealHash: string; reference: string }> {
+    return {
+      sealHash: await getSealHash(request.contentHash, evidence),
+      reference: `local-${uuidv4()}`
+    };
+  }
+}
+
+export class DocumentSignatureService {
+  private static instance: DocumentSignatureService;
+  private provider: SignatureProvider = new LocalSignatureProvider();
+
+  private constructor() {}
+
+  public static getInstance(): DocumentSignatureService {
+    if (!DocumentSignatureService.instance) {
+      DocumentSignatureService.instance = new DocumentSignatureService();
+    }
+    return DocumentSignatureService.instance;
+  }
+
+  public setProvider(provider: SignatureProvider): void {
+    this.provider = provider;
+    console.log('🔏 Signature provider:', provider.name);
+  }
+
+  // CRITICAL: Without Supabase (demo mode) requests are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `signatureRequests_${restaurantId}`;
+  }
+
+  private loadLocal(restaurantId: string): DocumentSignatureRequest[] {
+    try {
+      const saved = localStorage.getItem(this.getStorageKey(restaurantId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local signature requests:', error);
+      return [];
+    }
+  }
+
+  private async save(request: DocumentSignatureRequest): Promise<DocumentSignatureRequest> {
+    if (isSupabaseConfigured) {
+      return dataService.upsertDocumentSignatureRequest(request);
+    }
+
+    const requests = this.loadLocal(request.restaurantId).filter(r => r.id !== request.id);
+    localStorage.setItem(this.getStorageKey(request.restaurantId), JSON.stringify([...requests, request]));
+    return request;
+  }
+
+  private assertPending(request: DocumentSignatureRequest): void {
+    if (request.status !== 'pending') {
+      throw new Error(`Signature request is already ${request.status}`);
+    }
+  }
+
+  async fetchRequests(restaurantIds: string[]): Promise<DocumentSignatureRequest[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchDocumentSignatureRequests(restaurantIds);
+    }
+
+    return restaurantIds
+      .flatMap(restaurantId => this.loadLocal(restaurantId))
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+  }
+
+  async create(
+    request: Pick<DocumentSignatureRequest, 'restaurantId' | 'employeeId' | 'kind' | 'title' | 'content' | 'message'>,
+    userId?: string
+  ): Promise<DocumentSignatureRequest> {
+    const title = request.title.trim();
+    const content = request.content.trim();
+    if (!title || !content) {
+      throw new Error('A document to sign needs a title and a text');
+    }
+
+    const timestamp = new Date().toISOString();
+    const document = { ...request, title, content };
+    const created = await this.save({
+      ...document,
+      id: uuidv4(),
+      contentHash: await getContentHash(document),
+      message: request.message?.trim() || undefined,
+      status: 'pending',
+      provider: this.provider.name,
+      requestedBy: userId,
+      requestedAt: timestamp,
+      updatedAt: timestamp
+    });
+
+    console.log('📝 Signature requested:', { id: created.id, employeeId: created.employeeId, kind: created.kind });
+    return created;
+  }
+
+  // First opening by the employee, printed on the audit certificate
+  async markViewed(request: DocumentSignatureRequest): Promise<DocumentSignatureRequest> {
+    if (request.viewedAt || request.status !== 'pending') return request;
+
+    const timestamp = new Date().toISOString();
+    return this.save({ ...request, viewedAt: timestamp, updatedAt: timestamp });
+  }
+
+  // CRITICAL: Refuse to sign a text that no longer matches the hash the manager sent
+  async sign(
+    request: DocumentSignatureRequest,
+    signature: { method: SignatureMethod; signerName: string; image: string },
+    userId?: string
+  ): Promise<DocumentSignatureRequest> {
+    this.assertPending(request);
+
+    if (!signature.signerName.trim() || !signature.image) {
+      throw new Error('A signature needs the signer name and a signature image');
+    }
+    if (await getContentHash(request) !== request.contentHash) {
+      throw new Error('The document was modified after the signature was requested');
+    }
+
+    const timestamp = new Date().toISOString();
+    const evidence: SignatureEvidence = {
+      method: signature.method,
+      signerName: signature.signerName.trim(),
+      image: signature.image,
+      signedAt: timestamp,
+      userId,
+      userAgent: typeof navigator === 'undefined' ? 'unknown' : navigator.userAgent
+    };
+    const { sealHash, reference } = await this.provider.seal(request, evidence);
+
+    return this.save({
+      ...request,
+      status: 'signed',
+      provider: this.provider.name,
+      providerReference: reference,
+      signature: evidence,
+      sealHash,
+      viewedAt: request.viewedAt ?? timestamp,
+      updatedAt: timestamp
+    });
+  }
+
+  // CRITICAL: A rejection must say why - the manager needs it to send a corrected document
+  async close(
+    request: DocumentSignatureRequest,
+    action: 'rejected' | 'cancelled',
+    options: { reason?: string; userId?: string } = {}
+  ): Promise<DocumentSignatureRequest> {
+    this.assertPending(request);
+
+    const reason = options.reason?.trim();
+    if (action === 'rejected' && !reason) {
+      throw new Error('A reason is required to reject a document');
+    }
+
+    const timestamp = new Date().toISOString();
+    const closed = await this.save({
+      ...request,
+      status: action,
+      rejectionReason: action === 'rejected' ? reason : undefined,
+      closedBy: options.userId,
+      closedAt: timestamp,
+      updatedAt: timestamp
+    });
+
+    console.log(`✅ Signature request ${action}:`, { id: request.id });
+    return closed;
+  }
+}
+
+// Export singleton instance
+export const documentSignatureService = DocumentSignatureService.getInstance();
@@ -1,6 +1,10 @@
 // CRITICAL: Forecasting Service for Performance Dashboard
-import { POSData, ForecastData, ForecastingModel } from '../types';
+import { POSData, ForecastData, ForecastingModel, HolidayRegion } from '../types';
 import { addDays, subDays, format, getDay, isSameDay, parseISO } from 'date-fns';
+import { getPublicHoliday } from './holidayCalendar';
+
+// Activity on public holidays compared with a regular day
+const HOLIDAY_MULTIPLIER = 0.7;
 
 export class ForecastingService {
   private static instance: ForecastingService;
@@ -53,7 +57,8 @@ export class ForecastingService {
   async generateForecast(
     targetDate: string,
     historicalData: POSData[],
-    model: 'historical' | 'seasonal' | 'auto' = 'auto'
+    model: 'historical' | 'seasonal' | 'auto' = 'auto',
+    holidayRegion: HolidayRegion = 'metropole'
   ): Promise<ForecastData> {
     console.log('🔮 Generating forecast for:', targetDate);
 
@@ -61,16 +66,16 @@ export class ForecastingService {
     
     switch (selectedModel) {
       case 'historical':
-        return this.generateHistoricalForecast(targetDate, historicalData);
+        return this.generateHistoricalForecast(targetDate, historicalData, holidayRegion);
       case 'seasonal':
-        return this.generateSeasonalForecast(targetDate, historicalData);
+        return this.generateSeasonalForecast(targetDate, historicalData, holidayRegion);
       default:
-        return this.generateHistoricalForecast(targetDate, historicalData);
+        return this.generateHistoricalForecast(targetDate, historicalData, holidayRegion);
     }
   }
 
   // CRITICAL: Historical forecasting based on same day previous year and recent averages
-  private generateHistoricalForecast(targetDate: string, historicalData: POSData[]): ForecastData {
+  private generateHistoricalForecast(targetDate: string, historicalData: POSData[], holidayRegion: HolidayRegion): ForecastData {
     const target = parseISO(targetDate);
     const dayOfWeek = getDay(target);
     
@@ -125,7 +130,7 @@ export class ForecastingService {
     }
 
     // Apply day type adjustments
-    const dayTypeMultiplier = this.getDayTypeMultiplier(target);
+    const dayTypeMultiplier = this.getDayTypeMultiplier(target, holidayRegion);
     forecastedTurnover *= dayTypeMultiplier;
     forecastedCovers *= dayTypeMultiplier;
 
@@ -133,6 +138,11 @@ export class ForecastingService {
       factors.push(`Ajustement type de jour (${(dayTypeMultiplier * 100).toFixed(0)}%)`);
     }
 
+    const holiday = getPublicHoliday(target, holidayRegion);
+    if (holiday) {
+      factors.push(`Jour férié (${holiday.name})`);
+    }
+
     // Ensure minimum confidence and realistic bounds
     confidence = Math.min(95, Math.max(30, confidence));
     forecastedTurnover = Math.max(500, Math.round(forecastedTurnover));
@@ -149,7 +159,7 @@ export class ForecastingService {
   }
 
   // CRITICAL: Seasonal forecasting based on patterns
-  private generateSeasonalForecast(targetDate: string, historicalData: POSData[]): ForecastData {
+  private generateSeasonalForecast(targetDate: string, historicalData: POSData[], holidayRegion: HolidayRegion): ForecastData {
     const target = parseISO(targetDate);
     
     // Calculate seasonal trends
@@ -167,8 +177,20 @@ export class ForecastingService {
     const weeklyMultiplier = weeklyPattern[dayOfWeek] || 1.0;
     const monthlyMultiplier = monthlyPattern[month] || 1.0;
     
-    const forecastedTurnover = Math.round(avgTurnover * weeklyMultiplier * monthlyMultiplier);
-    const forecastedCovers = Math.round(avgCovers * weeklyMultiplier * monthlyMultiplier);
+    // Weekly patterns already cover weekends, only public holidays are adjusted
+    const holiday = getPublicHoliday(target, holidayRegion);
+    const holidayMultiplier = holiday ? HOLIDAY_MULTIPLIER : 1.0;
+    
+    const forecastedTurnover = Math.round(avgTurnover * weeklyMultiplier * monthlyMultiplier * holidayMultiplier);
+    const forecastedCovers = Math.round(avgCovers * weeklyMultiplier * monthlyMultiplier * holidayMultiplier);
+    
+    const factors = [
+      `Tendance hebdomadaire (${this.getDayName(dayOfWeek)})`,
+      `Tendance mensuelle (${this.getMonthName(month)})`
+    ];
+    if (holiday) {
+      factors.push(`Jour férié (${holiday.name})`);
+    }
     
     return {
       date: targetDate,
@@ -176,10 +198,7 @@ export class ForecastingService {
       forecastedCovers,
       confidence: 65,
       basedOn: 'seasonal',
-      factors: [
-        `Tendance hebdomadaire (${this.getDayName(dayOfWeek)})`,
-        `Tendance mensuelle (${this.getMonthName(month)})`
-      ]
+      factors
     };
   }
 
@@ -257,14 +276,12 @@ export class ForecastingService {
   }
 
   // CRITICAL: Get day type multiplier
-  private getDayTypeMultiplier(date: Date): number {
+  private getDayTypeMultiplier(date: Date, holidayRegion: HolidayRegion): number {
     const dayOfWeek = getDay(date);
     
-    // Check if it's a holiday (simplified - in production, use a holiday API)
-    const isHoliday = this.isHoliday(date);
-    
-    if (isHoliday) {
-      return 0.7; // Holidays typically slower
+    // CRITICAL: Full French calendar, including Easter-based and Alsace-Moselle holidays
+    if (getPublicHoliday(date, holidayRegion)) {
+      return HOLIDAY_MULTIPLIER; // Holidays typically slower
     }
     
     // Weekend vs weekday multipliers
@@ -275,26 +292,6 @@ export class ForecastingService {
     return 1.0; // Regular weekday
   }
 
-  // CRITICAL: Simple holiday detection (expand in production)
-  private isHoliday(date: Date): boolean {
-    const month = date.getMonth();
-    const day = date.getDate();
-    
-    // Major French holidays
-    const holidays = [
-      { month: 0, day: 1 },   // New Year
-      { month: 4, day: 1 },   // Labor Day
-      { month: 4, day: 8 },   // Victory Day
-      { month: 6, day: 14 },  // Bastille Day
-      { month: 7, day: 15 },  // Assumption
-      { month: 10, day: 1 },  // All Saints
-      { month: 10, day: 11 }, // Armistice
-      { month: 11, day: 25 }  // Christmas
-    ];
-    
-    return holidays.some(holiday => holiday.month === month && holiday.day === day);
-  }
-
   // CRITICAL: Select best model based on data quality
   private selectBestModel(data: POSData[]): 'historical' | 'seasonal' {
     if (data.length < 30) {
@@ -312,13 +309,14 @@ export class ForecastingService {
   async generateMultiDayForecast(
     startDate: string,
     days: number,
-    historicalData: POSData[]
+    historicalData: POSData[],
+    holidayRegion: HolidayRegion = 'metropole'
   ): Promise<ForecastData[]> {
     const forecasts: ForecastData[] = [];
     
     for (let i = 0; i < days; i++) {
       const targetDate = format(addDays(parseISO(startDate), i), 'yyyy-MM-dd');
-      const forecast = await this.generateForecast(targetDate, historicalData);
+      const forecast = await this.generateForecast(targetDate, historicalData, 'auto', holidayRegion);
       forecasts.push(forecast);
     }
     
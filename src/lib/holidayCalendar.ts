@@ -0,0 +1,99 @@
+// CRITICAL: French public holiday calendar - fixed dates, Easter-based movable feasts and Alsace-Moselle days
+import { addDays, format } from 'date-fns';
+import { HolidayRegion, PublicHoliday, Restaurant } from '../types';
+
+// Departments where the local law adds Good Friday and St Stephen's Day
+const ALSACE_MOSELLE_DEPARTMENTS = ['57', '67', '68'];
+
+const FIXED_HOLIDAYS: { month: number; day: number; name: string; nameEn: string }[] = [
+  { month: 0, day: 1, name: "Jour de l'an", nameEn: "New Year's Day" },
+  { month: 4, day: 1, name: 'Fête du Travail', nameEn: 'Labour Day' },
+  { month: 4, day: 8, name: 'Victoire 1945', nameEn: 'Victory in Europe Day' },
+  { month: 6, day: 14, name: 'Fête nationale', nameEn: 'Bastille Day' },
+  { month: 7, day: 15, name: 'Assomption', nameEn: 'Assumption Day' },
+  { month: 10, day: 1, name: 'Toussaint', nameEn: "All Saints' Day" },
+  { month: 10, day: 11, name: 'Armistice 1918', nameEn: 'Armistice Day' },
+  { month: 11, day: 25, name: 'Noël', nameEn: 'Christmas Day' }
+];
+
+// Movable feasts, in days from Easter Sunday
+const EASTER_HOLIDAYS: { offset: number; name: string; nameEn: string }[] = [
+  { offset: 1, name: 'Lundi de Pâques', nameEn: 'Easter Monday' },
+  { offset: 39, name: 'Ascension', nameEn: 'Ascension Day' },
+  { offset: 50, name: 'Lundi de Pentecôte', nameEn: 'Whit Monday' }
+];
+
+const holidaysCache = new Map<string, PublicHoliday[]>();
+
+// Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// All public holidays of a year, sorted by date
+export const getPublicHolidays = (year: number, region: HolidayRegion = 'metropole'): PublicHoliday[] => {
+  const cacheKey = `${year}-${region}`;
+  const cached = holidaysCache.get(cacheKey);
+  if (cached) return cached;
+
+  const easter = getEasterSunday(year);
+  const holidays: PublicHoliday[] = [
+    ...FIXED_HOLIDAYS.map(holiday => ({
+      date: format(new Date(year, holiday.month, holiday.day), 'yyyy-MM-dd'),
+      name: holiday.name,
+      nameEn: holiday.nameEn,
+      regional: false
+    })),
+    ...EASTER_HOLIDAYS.map(holiday => ({
+      date: format(addDays(easter, holiday.offset), 'yyyy-MM-dd'),
+      name: holiday.name,
+      nameEn: holiday.nameEn,
+      regional: false
+    }))
+  ];
+
+  if (region === 'alsace-moselle') {
+    holidays.push(
+      { date: format(addDays(easter, -2), 'yyyy-MM-dd'), name: 'Vendredi saint', nameEn: 'Good Friday', regional: true },
+      { date: format(new Date(year, 11, 26), 'yyyy-MM-dd'), name: 'Saint-Étienne', nameEn: "St Stephen's Day", regional: true }
+    );
+  }
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date));
+  holidaysCache.set(cacheKey, holidays);
+  return holidays;
+};
+
+export const getPublicHoliday = (date: Date, region: HolidayRegion = 'metropole'): PublicHoliday | undefined => {
+  const key = format(date, 'yyyy-MM-dd');
+  return getPublicHolidays(date.getFullYear(), region).find(holiday => holiday.date === key);
+};
+
+export const isPublicHoliday = (date: Date, region: HolidayRegion = 'metropole'): boolean =>
+  !!getPublicHoliday(date, region);
+
+// CRITICAL: Region from the restaurant's postal code (Moselle, Bas-Rhin, Haut-Rhin)
+export const getHolidayRegion = (restaurant?: Pick<Restaurant, 'postalCode' | 'country'> | null): HolidayRegion => {
+  if (!restaurant?.postalCode) return 'metropole';
+  if (restaurant.country && restaurant.country.trim().toLowerCase() !== 'france') return 'metropole';
+
+  const department = restaurant.postalCode.replace(/\s/g, '').slice(0, 2);
+  return ALSACE_MOSELLE_DEPARTMENTS.includes(department) ? 'alsace-moselle' : 'metropole';
+};
+
+export const getHolidayName = (holiday: PublicHoliday, language: string): string =>
+  language === 'fr' ? holiday.name : holiday.nameEn;
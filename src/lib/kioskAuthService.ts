@@ -0,0 +1,313 @@
+// CRITICAL: Kiosk authentication - hashed PINs, personal QR badges, lockout and audit trail
+import { addMinutes, format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  KioskAuthEvent,
+  KioskAuthMethod,
+  KioskAuthResult,
+  KioskCredentialStatus,
+  PunchRules
+} from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+import { timeClockService, matchPunchToShift, DatedShift, DEFAULT_PUNCH_RULES } from './timeClockService';
+
+// Same limits as the authenticate_kiosk SQL function
+export const MAX_FAILED_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+export const PIN_PATTERN = /^[0-9]{4,6}$/;
+
+// Content of the QR code printed on an employee badge
+export const BADGE_QR_PREFIX = 'kollab-badge:';
+
+// Local audit entries kept per restaurant in demo mode
+const MAX_LOCAL_EVENTS = 500;
+const PBKDF2_ITERATIONS = 100000;
+
+// Credential record kept in the browser when Supabase is not configured
+interface LocalKioskCredential {
+  pinHash?: string;
+  pinSalt?: string;
+  badgeToken?: string;
+  failedAttempts: number;
+  lockedUntil?: string;
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const randomHex = (length: number): string => toHex(crypto.getRandomValues(new Uint8Array(length)));
+
+export const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+};
+
+// Kiosk tablets cache badge tokens under this hash only
+export const hashBadgeToken = async (badgeToken: string): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(badgeToken))));
+
+export const getBadgePayload = (badgeToken: string): string => `${BADGE_QR_PREFIX}${badgeToken}`;
+
+// Token from a scanned badge (scanners type the QR content followed by Enter)
+export const parseBadgePayload = (scanned: string): string | null => {
+  const value = scanned.trim();
+  return value.startsWith(BADGE_QR_PREFIX) && value.length > BADGE_QR_PREFIX.length
+    ? value.slice(BADGE_QR_PREFIX.length)
+    : null;
+};
+
+// Message shown on the kiosk for a refused authentication
+export const getKioskAuthErrorMessage = (result: KioskAuthResult, language: string): string => {
+  const isFrench = language === 'fr';
+
+  switch (result.outcome) {
+    case 'locked': {
+      const until = result.lockedUntil ? format(parseISO(result.lockedUntil), 'HH:mm') : '';
+      return isFrench
+        ? `Trop d'essais incorrects. Pointage bloqué jusqu'à ${until}, contactez votre responsable.`
+        : `Too many failed attempts. Locked until ${until}, please contact your manager.`;
+    }
+    case 'no_pin':
+      return isFrench
+        ? 'Aucun code PIN défini. Demandez à votre responsable de le créer.'
+        : 'No PIN set yet. Ask your manager to create one.';
+    case 'invalid_badge':
+      return isFrench ? 'Badge non reconnu' : 'Badge not recognized';
+    case 'invalid_pin':
+    default:
+      return isFrench
+        ? `Code PIN invalide (${result.remainingAttempts ?? 0} essai(s) restant(s))`
+        : `Invalid PIN (${result.remainingAttempts ?? 0} attempt(s) left)`;
+  }
+};
+
+export class KioskAuthService {
+  private static instance: KioskAuthService;
+
+  private constructor() {}
+
+  public static getInstance(): KioskAuthService {
+    if (!KioskAuthService.instance) {
+      KioskAuthService.instance = new KioskAuthService();
+    }
+    return KioskAuthService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) credentials and audit entries are kept locally per restaurant
+  private getCredentialsKey(restaurantId: string): string {
+    return `kioskCredentials_${restaurantId}`;
+  }
+
+  private getAuditKey(restaurantId: string): string {
+    return `kioskAuthLog_${restaurantId}`;
+  }
+
+  private loadLocalCredentials(restaurantId: string): Record<string, LocalKioskCredential> {
+    try {
+      const saved = localStorage.getItem(this.getCredentialsKey(restaurantId));
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error('❌ Failed to load local kiosk credentials:', error);
+      return {};
+    }
+  }
+
+  private saveLocalCredential(restaurantId: string, employeeId: string, credential: LocalKioskCredential): void {
+    const credentials = this.loadLocalCredentials(restaurantId);
+    credentials[employeeId] = credential;
+    localStorage.setItem(this.getCredentialsKey(restaurantId), JSON.stringify(credentials));
+  }
+
+  private getLocalCredential(restaurantId: string, employeeId: string): LocalKioskCredential {
+    return this.loadLocalCredentials(restaurantId)[employeeId] ?? { failedAttempts: 0 };
+  }
+
+  private loadLocalEvents(restaurantId: string): KioskAuthEvent[] {
+    try {
+      const saved = localStorage.getItem(this.getAuditKey(restaurantId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local kiosk audit trail:', error);
+      return [];
+    }
+  }
+
+  private recordLocalEvent(restaurantId: string, method: KioskAuthMethod, result: KioskAuthResult): void {
+    const event: KioskAuthEvent = {
+      id: uuidv4(),
+      restaurantId,
+      employeeId: result.employeeId,
+      method,
+      outcome: result.outcome,
+      createdAt: new Date().toISOString()
+    };
+    const events = [event, ...this.loadLocalEvents(restaurantId)].slice(0, MAX_LOCAL_EVENTS);
+    localStorage.setItem(this.getAuditKey(restaurantId), JSON.stringify(events));
+  }
+
+  private async authenticateLocally(
+    restaurantId: string,
+    method: KioskAuthMethod,
+    employeeId: string | null,
+    secret: string
+  ): Promise<KioskAuthResult> {
+    const now = new Date();
+
+    if (method === 'badge') {
+      const match = Object.entries(this.loadLocalCredentials(restaurantId))
+        .find(([, credential]) => credential.badgeToken === secret);
+      if (!match) return { outcome: 'invalid_badge' };
+
+      const [badgeEmployeeId, credential] = match;
+      return credential.lockedUntil && parseISO(credential.lockedUntil) > now
+        ? { outcome: 'locked', employeeId: badgeEmployeeId, lockedUntil: credential.lockedUntil }
+        : { outcome: 'success', employeeId: badgeEmployeeId };
+    }
+
+    if (!employeeId) return { outcome: 'no_pin' };
+
+    const credential = this.getLocalCredential(restaurantId, employeeId);
+    if (!credential.pinHash || !credential.pinSalt) {
+      return { outcome: 'no_pin', employeeId };
+    }
+    if (credential.lockedUntil && parseISO(credential.lockedUntil) > now) {
+      return { outcome: 'locked', employeeId, lockedUntil: credential.lockedUntil };
+    }
+
+    if ((await hashPin(secret, credential.pinSalt)) === credential.pinHash) {
+      this.saveLocalCredential(restaurantId, employeeId, { ...credential, failedAttempts: 0, lockedUntil: undefined });
+      return { outcome: 'success', employeeId };
+    }
+
+    const failedAttempts = credential.failedAttempts + 1;
+    if (failedAttempts >= MAX_FAILED_PIN_ATTEMPTS) {
+      const lockedUntil = addMinutes(now, PIN_LOCKOUT_MINUTES).toISOString();
+      this.saveLocalCredential(restaurantId, employeeId, { ...credential, failedAttempts: 0, lockedUntil });
+      return { outcome: 'locked', employeeId, lockedUntil };
+    }
+
+    this.saveLocalCredential(restaurantId, employeeId, { ...credential, failedAttempts });
+    return { outcome: 'invalid_pin', employeeId, remainingAttempts: MAX_FAILED_PIN_ATTEMPTS - failedAttempts };
+  }
+
+  /**
+   * CRITICAL: Checks a PIN (employee picked on the kiosk) or a scanned badge token, records the attempt
+   * and, on success, the punch: clock-out of the open punch, else clock-in. The shifts are used to match
+   * a clock-in when the employee is known up front (PIN); badge clock-ins are matched in the reports.
+   */
+  async authenticate(
+    restaurantId: string,
+    method: KioskAuthMethod,
+    employeeId: string | null,
+    secret: string,
+    datedShifts: DatedShift[] = [],
+    rules: PunchRules = DEFAULT_PUNCH_RULES
+  ): Promise<KioskAuthResult> {
+    let result: KioskAuthResult;
+
+    if (isSupabaseConfigured) {
+      const shiftId = employeeId ? matchPunchToShift(new Date(), employeeId, datedShifts)?.shift.id : undefined;
+      result = await dataService.authenticateKiosk(restaurantId, method, employeeId, secret, shiftId);
+    } else {
+      result = await this.authenticateLocally(restaurantId, method, employeeId, secret);
+      this.recordLocalEvent(restaurantId, method, result);
+      if (result.outcome === 'success' && result.employeeId) {
+        result.punch = await timeClockService.recordPunch(result.employeeId, restaurantId, datedShifts, rules);
+      }
+    }
+
+    if (result.outcome === 'success') {
+      console.log('✅ Kiosk authentication:', { method, employeeId: result.employeeId });
+    } else {
+      console.log('⛔ Kiosk authentication refused:', { method, outcome: result.outcome, employeeId: result.employeeId });
+    }
+    return result;
+  }
+
+  // Sets a new PIN (null removes it); failures and lockout are reset
+  async setPin(restaurantId: string, employeeId: string, pin: string | null): Promise<void> {
+    if (pin !== null && !PIN_PATTERN.test(pin)) {
+      throw new Error('PIN must be 4 to 6 digits');
+    }
+
+    if (isSupabaseConfigured) {
+      await dataService.setEmployeeKioskPin(employeeId, pin);
+      return;
+    }
+
+    const credential = this.getLocalCredential(restaurantId, employeeId);
+    const pinSalt = pin ? randomHex(16) : undefined;
+    this.saveLocalCredential(restaurantId, employeeId, {
+      ...credential,
+      pinSalt,
+      pinHash: pin && pinSalt ? await hashPin(pin, pinSalt) : undefined,
+      failedAttempts: 0,
+      lockedUntil: undefined
+    });
+  }
+
+  async unlock(restaurantId: string, employeeId: string): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.unlockEmployeeKiosk(employeeId);
+      return;
+    }
+
+    const credential = this.getLocalCredential(restaurantId, employeeId);
+    this.saveLocalCredential(restaurantId, employeeId, { ...credential, failedAttempts: 0, lockedUntil: undefined });
+  }
+
+  // New badge token for one employee; badges printed before stop working
+  async regenerateBadge(restaurantId: string, employeeId: string): Promise<string> {
+    if (isSupabaseConfigured) {
+      return dataService.regenerateEmployeeBadge(employeeId);
+    }
+
+    const badgeToken = randomHex(18);
+    this.saveLocalCredential(restaurantId, employeeId, { ...this.getLocalCredential(restaurantId, employeeId), badgeToken });
+    return badgeToken;
+  }
+
+  // Badge tokens of the given employees, issuing the missing ones
+  async getBadgeTokens(restaurantId: string, employeeIds: string[]): Promise<Record<string, string>> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchEmployeeBadgeTokens(restaurantId);
+    }
+
+    const tokens: Record<string, string> = {};
+    for (const employeeId of employeeIds) {
+      const credential = this.getLocalCredential(restaurantId, employeeId);
+      tokens[employeeId] = credential.badgeToken ?? await this.regenerateBadge(restaurantId, employeeId);
+    }
+    return tokens;
+  }
+
+  async getCredentialStatus(restaurantId: string): Promise<KioskCredentialStatus[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchKioskCredentialStatus(restaurantId);
+    }
+
+    return Object.entries(this.loadLocalCredentials(restaurantId)).map(([employeeId, credential]) => ({
+      employeeId,
+      hasPin: !!credential.pinHash,
+      failedAttempts: credential.failedAttempts,
+      lockedUntil: credential.lockedUntil
+    }));
+  }
+
+  // Most recent authentication attempts first
+  async getAuditTrail(restaurantId: string, limit = 200): Promise<KioskAuthEvent[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchKioskAuthEvents(restaurantId, limit);
+    }
+    return this.loadLocalEvents(restaurantId).slice(0, limit);
+  }
+}
+
+// Export singleton instance
+export const kioskAuthService = KioskAuthService.getInstance();
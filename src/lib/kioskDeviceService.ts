@@ -0,0 +1,756 @@
+// CRITICAL: Kiosk mode - a tablet locked to one restaurant that keeps recording punches while offline
+import { addDays, addMinutes, format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Employee,
+  KioskAuthEvent,
+  KioskAuthMethod,
+  KioskAuthResult,
+  KioskDevice,
+  KioskPendingPunch,
+  PunchRules,
+  Restaurant,
+  Schedule,
+  Shift
+} from '../types';
+import { mockEmployees, mockSchedules } from '../data/mockData';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+import { offlineStore } from './offlineStore';
+import {
+  kioskAuthService,
+  hashBadgeToken,
+  hashPin,
+  randomHex,
+  MAX_FAILED_PIN_ATTEMPTS,
+  PIN_LOCKOUT_MINUTES
+} from './kioskAuthService';
+import {
+  timeClockService,
+  getDatedShifts,
+  getPunchRules,
+  matchPunchToShift,
+  DatedShift,
+  DEFAULT_PUNCH_RULES
+} from './timeClockService';
+import { isNetworkError } from './scheduleSyncBackends';
+
+const DEVICE_KEY = 'kioskDevice';
+const PUNCHES_STORE = 'kioskPunches';
+const AUTH_EVENTS_STORE = 'kioskAuthEvents';
+const SYNC_INTERVAL = 30000; // 30 seconds - retry interval while punches are pending
+const CACHE_REFRESH_INTERVAL = 15 * 60 * 1000; // Roster, shifts and heartbeat every 15 minutes
+
+export type KioskRosterEmployee = Pick<Employee, 'id' | 'firstName' | 'lastName' | 'position'>;
+
+// Set on the tablet by a manager; the exit code unlocks the kiosk and its manager panel
+export interface KioskDeviceConfig {
+  deviceId: string;
+  restaurantId: string;
+  restaurantName: string;
+  name: string;
+  exitCodeSalt: string;
+  exitCodeHash: string;
+  lockedAt: string;
+  // Rounding, grace and auto clock-out rules of the restaurant when the tablet was locked
+  punchRules?: PunchRules;
+}
+
+export interface KioskSyncState {
+  isOnline: boolean;
+  syncing: boolean;
+  pendingCount: number;
+  rejectedCount: number;
+  lastSynced: Date | null;
+  cacheRefreshedAt: string | null;
+}
+
+type SyncStateListener = (state: KioskSyncState) => void;
+
+// Shift of the cache, with its dates serialized
+interface CachedShift {
+  shift: Shift;
+  date: string;
+  start: string;
+  end: string;
+}
+
+// PIN verifier learned from the last successful online identification on this tablet
+interface CachedCredential {
+  salt: string;
+  hash: string;
+  failedAttempts: number;
+  lockedUntil?: string;
+}
+
+interface KioskCache {
+  employees: KioskRosterEmployee[];
+  shifts: CachedShift[];
+  openPunches: Record<string, { punchId: string; clockInTime: string }>;
+  badgeHashes: Record<string, string>; // Hashed badge token -> employee id
+  credentials: Record<string, CachedCredential>;
+  refreshedAt?: string;
+}
+
+const EMPTY_CACHE: KioskCache = { employees: [], shifts: [], openPunches: {}, badgeHashes: {}, credentials: {} };
+
+const byDeviceTime = (a: KioskPendingPunch, b: KioskPendingPunch) => a.deviceTime.localeCompare(b.deviceTime);
+
+export class KioskDeviceService {
+  private static instance: KioskDeviceService;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private started = false;
+  private state: KioskSyncState = {
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    syncing: false,
+    pendingCount: 0,
+    rejectedCount: 0,
+    lastSynced: null,
+    cacheRefreshedAt: null
+  };
+  private stateListeners: Set<SyncStateListener> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): KioskDeviceService {
+    if (!KioskDeviceService.instance) {
+      KioskDeviceService.instance = new KioskDeviceService();
+    }
+    return KioskDeviceService.instance;
+  }
+
+  public getConfig(): KioskDeviceConfig | null {
+    try {
+      const saved = localStorage.getItem(DEVICE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('❌ Failed to load kiosk configuration:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Lock this browser to a restaurant in kiosk mode. The roster is cached right away
+   * so the tablet works even if the connection drops before the first refresh.
+   */
+  public async lockDevice(
+    restaurant: Pick<Restaurant, 'id' | 'name' | 'punchRules'>,
+    name: string,
+    exitCode: string,
+    roster?: { employees: Employee[]; schedules: Schedule[] }
+  ): Promise<KioskDeviceConfig> {
+    const exitCodeSalt = randomHex(16);
+    const config: KioskDeviceConfig = {
+      deviceId: this.getConfig()?.deviceId ?? uuidv4(),
+      restaurantId: restaurant.id,
+      restaurantName: restaurant.name,
+      name,
+      exitCodeSalt,
+      exitCodeHash: await hashPin(exitCode, exitCodeSalt),
+      lockedAt: new Date().toISOString(),
+      punchRules: getPunchRules(restaurant)
+    };
+    localStorage.setItem(DEVICE_KEY, JSON.stringify(config));
+
+    if (roster) {
+      const openPunches: KioskCache['openPunches'] = {};
+      (await timeClockService.getActivePunches(restaurant.id)).forEach(punch => {
+        openPunches[punch.employeeId] = { punchId: punch.id, clockInTime: punch.clockInTime };
+      });
+
+      this.saveCache(restaurant.id, {
+        ...this.loadCache(restaurant.id),
+        employees: this.toRoster(roster.employees, restaurant.id),
+        shifts: this.toCachedShifts(roster.schedules, restaurant.id),
+        openPunches
+      });
+    }
+
+    console.log('🔒 Kiosk mode enabled:', { restaurantId: restaurant.id, deviceId: config.deviceId });
+    return config;
+  }
+
+  public async verifyExitCode(exitCode: string): Promise<boolean> {
+    const config = this.getConfig();
+    if (!config) return false;
+    return (await hashPin(exitCode, config.exitCodeSalt)) === config.exitCodeHash;
+  }
+
+  /**
+   * Leave kiosk mode. Punches not synced yet stay on the tablet and are sent
+   * the next time it is locked to the same restaurant.
+   */
+  public unlockDevice(): void {
+    this.stop();
+    localStorage.removeItem(DEVICE_KEY);
+    console.log('🔓 Kiosk mode disabled');
+  }
+
+  public start(): void {
+    if (this.started || !this.getConfig()) return;
+    this.started = true;
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    this.syncTimer = setInterval(() => {
+      if (this.state.pendingCount > this.state.rejectedCount) {
+        this.syncNow();
+      }
+    }, SYNC_INTERVAL);
+    this.refreshTimer = setInterval(() => {
+      this.syncNow().then(() => this.refreshCache());
+    }, CACHE_REFRESH_INTERVAL);
+
+    // CRITICAL: Send whatever was punched while the tablet was off or offline
+    this.refreshCounts()
+      .then(() => this.syncNow())
+      .then(() => this.refreshCache());
+  }
+
+  public stop(): void {
+    if (this.syncTimer) clearInterval(this.syncTimer);
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.syncTimer = null;
+    this.refreshTimer = null;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.started = false;
+  }
+
+  public getState(): KioskSyncState {
+    return this.state;
+  }
+
+  public subscribe(listener: SyncStateListener): () => void {
+    this.stateListeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  public getRoster(): KioskRosterEmployee[] {
+    const config = this.getConfig();
+    return config ? this.loadCache(config.restaurantId).employees : [];
+  }
+
+  // Reload roster, shifts around today, open punches and badges from the server
+  public async refreshCache(): Promise<void> {
+    const config = this.getConfig();
+    if (!config || !this.state.isOnline) return;
+    const { restaurantId } = config;
+
+    try {
+      // Demo mode reads the same sample data as the back office
+      const [employees, schedules] = isSupabaseConfigured
+        ? await Promise.all([dataService.fetchEmployees(), dataService.fetchSchedules()])
+        : [mockEmployees, mockSchedules] as const;
+      const activePunches = await timeClockService.getActivePunches(restaurantId);
+
+      const cache = this.loadCache(restaurantId);
+      const openPunches: KioskCache['openPunches'] = {};
+      activePunches.forEach(punch => {
+        openPunches[punch.employeeId] = { punchId: punch.id, clockInTime: punch.clockInTime };
+      });
+
+      // CRITICAL: Punches still queued on the tablet are not on the server yet
+      (await this.getPendingPunches()).filter(entry => !entry.rejected).forEach(entry => {
+        if (entry.type === 'in') {
+          openPunches[entry.employeeId] = { punchId: entry.punchId, clockInTime: entry.deviceTime };
+        } else {
+          delete openPunches[entry.employeeId];
+        }
+      });
+
+      const badgeHashes = isSupabaseConfigured
+        ? await this.loadBadgeHashes(restaurantId, cache.badgeHashes)
+        : cache.badgeHashes;
+      const refreshedAt = new Date().toISOString();
+
+      this.saveCache(restaurantId, {
+        ...cache,
+        employees: this.toRoster(employees, restaurantId),
+        shifts: this.toCachedShifts(schedules, restaurantId),
+        openPunches,
+        badgeHashes,
+        refreshedAt
+      });
+      this.setState({ cacheRefreshedAt: refreshedAt });
+      await this.reportDevice();
+      console.log('✅ Kiosk cache refreshed:', { employees: employees.length });
+    } catch (error) {
+      console.warn('⚠️ Kiosk cache refresh failed, keeping the cached roster:', error);
+    }
+  }
+
+  /**
+   * Identify an employee and record their punch: a clock-out of their open punch, else a clock-in.
+   * Online the server checks the PIN or badge (with lockout and audit) and records the punch in the
+   * same call; offline the tablet checks them against what it learned from earlier online
+   * identifications and queues the punch.
+   */
+  public async authenticate(method: KioskAuthMethod, employeeId: string | null, secret: string): Promise<KioskAuthResult> {
+    const config = this.getConfig();
+    if (!config) throw new Error('Kiosk mode is not enabled');
+
+    const datedShifts = this.toDatedShifts(this.loadCache(config.restaurantId).shifts);
+    const rules = config.punchRules ?? DEFAULT_PUNCH_RULES;
+
+    // Demo mode credentials already live in this browser
+    if (!isSupabaseConfigured) {
+      const result = await kioskAuthService.authenticate(config.restaurantId, method, employeeId, secret, datedShifts, rules);
+      this.rememberPunch(config.restaurantId, result);
+      return result;
+    }
+
+    if (this.state.isOnline) {
+      try {
+        // CRITICAL: Queued punches go first, the server toggles on the employee's latest punch
+        await this.syncNow();
+        const result = await kioskAuthService.authenticate(config.restaurantId, method, employeeId, secret, datedShifts, rules);
+        await this.rememberResult(config.restaurantId, method, employeeId, secret, result);
+        this.rememberPunch(config.restaurantId, result);
+        return result;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.warn('📴 Kiosk identification falling back to offline check:', error);
+      }
+    }
+
+    const result = await this.authenticateOffline(config.restaurantId, method, employeeId, secret);
+    await offlineStore.put<KioskAuthEvent>(AUTH_EVENTS_STORE, {
+      id: uuidv4(),
+      restaurantId: config.restaurantId,
+      employeeId: result.employeeId,
+      method,
+      outcome: result.outcome,
+      createdAt: new Date().toISOString()
+    });
+    if (result.outcome !== 'success' || !result.employeeId) return result;
+
+    const open = this.getOpenPunch(result.employeeId);
+    const entry = await this.recordPunch(result.employeeId, open ? 'out' : 'in');
+    return {
+      ...result,
+      punch: {
+        id: entry.punchId,
+        employeeId: entry.employeeId,
+        restaurantId: entry.restaurantId,
+        shiftId: entry.shiftId,
+        deviceId: entry.deviceId,
+        clockInTime: open?.clockInTime ?? entry.deviceTime,
+        clockOutTime: open ? entry.deviceTime : undefined,
+        status: open ? 'completed' : 'active',
+        createdAt: entry.deviceTime,
+        updatedAt: entry.deviceTime
+      }
+    };
+  }
+
+  public getOpenPunch(employeeId: string): { punchId: string; clockInTime: string } | null {
+    const config = this.getConfig();
+    return config ? this.getFreshOpenPunch(config, this.loadCache(config.restaurantId), employeeId) : null;
+  }
+
+  // CRITICAL: A punch left open past the auto clock-out delay is closed by the server on sync,
+  // so the employee can clock in again instead of being stuck as "present"
+  private getFreshOpenPunch(
+    config: KioskDeviceConfig,
+    cache: KioskCache,
+    employeeId: string,
+    now: Date = new Date()
+  ): { punchId: string; clockInTime: string } | null {
+    const open = cache.openPunches[employeeId];
+    if (!open) return null;
+    const hours = config.punchRules?.autoClockOutHours;
+    if (hours && now.getTime() - new Date(open.clockInTime).getTime() >= hours * 3600000) return null;
+    return open;
+  }
+
+  /**
+   * Queue a punch recorded offline with the tablet time. It is sent as soon as the connection
+   * comes back; online punches are recorded by the server during the identification.
+   */
+  private async recordPunch(employeeId: string, type: 'in' | 'out', at: Date = new Date()): Promise<KioskPendingPunch> {
+    const config = this.getConfig();
+    if (!config) throw new Error('Kiosk mode is not enabled');
+
+    const cache = this.loadCache(config.restaurantId);
+    const open = this.getFreshOpenPunch(config, cache, employeeId, at);
+    if (type === 'in' && open) throw new Error('Employee is already clocked in');
+    const punchId = type === 'in' ? uuidv4() : open?.punchId;
+    if (!punchId) throw new Error('Employee is not clocked in');
+
+    const matched = type === 'in' ? matchPunchToShift(at, employeeId, this.toDatedShifts(cache.shifts)) : undefined;
+    const entry: KioskPendingPunch = {
+      id: uuidv4(),
+      restaurantId: config.restaurantId,
+      employeeId,
+      type,
+      punchId,
+      shiftId: matched?.shift.id,
+      deviceId: config.deviceId,
+      deviceTime: at.toISOString(),
+      attempts: 0
+    };
+
+    await offlineStore.put(PUNCHES_STORE, entry);
+
+    const openPunches = { ...cache.openPunches };
+    if (type === 'in') {
+      openPunches[employeeId] = { punchId: entry.punchId, clockInTime: entry.deviceTime };
+    } else {
+      delete openPunches[employeeId];
+    }
+    this.saveCache(config.restaurantId, { ...cache, openPunches });
+
+    console.log('📝 Kiosk punch queued:', { employeeId, type, shiftId: entry.shiftId ?? 'unscheduled' });
+    await this.refreshCounts();
+    this.syncNow();
+    return entry;
+  }
+
+  // Punches of this tablet's restaurant not confirmed by the server, oldest first
+  public async getPendingPunches(): Promise<KioskPendingPunch[]> {
+    const config = this.getConfig();
+    if (!config) return [];
+
+    const punches = await offlineStore.getAll<KioskPendingPunch>(PUNCHES_STORE);
+    return punches.filter(entry => entry.restaurantId === config.restaurantId).sort(byDeviceTime);
+  }
+
+  // Drop a punch the server refused, after a manager checked it
+  public async discardPunch(entryId: string): Promise<void> {
+    const config = this.getConfig();
+    const entry = (await this.getPendingPunches()).find(p => p.id === entryId);
+    if (!config || !entry?.rejected) return;
+
+    await offlineStore.delete(PUNCHES_STORE, entryId);
+
+    const cache = this.loadCache(config.restaurantId);
+    if (entry.type === 'in' && cache.openPunches[entry.employeeId]?.punchId === entry.punchId) {
+      const openPunches = { ...cache.openPunches };
+      delete openPunches[entry.employeeId];
+      this.saveCache(config.restaurantId, { ...cache, openPunches });
+    }
+
+    console.log('🗑️ Rejected kiosk punch discarded:', entryId);
+    await this.refreshCounts();
+    await this.reportDevice();
+  }
+
+  public syncNow(): Promise<void> {
+    // CRITICAL: Never replay the queue twice in parallel, a clock-out must follow its clock-in
+    if (!this.syncPromise) {
+      this.syncPromise = this.replayPunches().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  // Tablets of a restaurant as they last reported, for the back office
+  public async fetchDevices(restaurantId: string): Promise<KioskDevice[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchKioskDevices(restaurantId);
+    }
+    return Object.values(this.loadLocalDevices(restaurantId));
+  }
+
+  public async removeDevice(restaurantId: string, deviceId: string): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.deleteKioskDevice(deviceId);
+      return;
+    }
+
+    const devices = this.loadLocalDevices(restaurantId);
+    delete devices[deviceId];
+    localStorage.setItem(this.getDevicesKey(restaurantId), JSON.stringify(devices));
+  }
+
+  private async replayPunches(): Promise<void> {
+    const config = this.getConfig();
+    if (!config || !this.state.isOnline) return;
+
+    const punches = (await this.getPendingPunches()).filter(entry => !entry.rejected);
+    this.setState({ syncing: true });
+    let interrupted = false;
+
+    for (const entry of punches) {
+      try {
+        const outcome = await timeClockService.applyKioskPunch(entry, config.punchRules ?? DEFAULT_PUNCH_RULES);
+        await offlineStore.delete(PUNCHES_STORE, entry.id);
+        if (outcome === 'duplicate') {
+          console.log('🔁 Kiosk punch already on the server:', entry.punchId);
+        }
+      } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error);
+
+        if (isNetworkError(error)) {
+          // CRITICAL: Stop at the first network failure so punches keep their order
+          console.warn('⚠️ Kiosk sync interrupted, will retry:', error);
+          await offlineStore.put(PUNCHES_STORE, { ...entry, attempts: entry.attempts + 1, lastError });
+          interrupted = true;
+          break;
+        }
+
+        // Kept on the tablet for a manager to review instead of being lost
+        console.error('❌ Kiosk punch rejected by server:', entry, error);
+        await offlineStore.put(PUNCHES_STORE, { ...entry, attempts: entry.attempts + 1, lastError, rejected: true });
+      }
+    }
+
+    if (!interrupted && isSupabaseConfigured) {
+      interrupted = !(await this.uploadAuthEvents(config.restaurantId));
+    }
+
+    await this.refreshCounts();
+    this.setState({ syncing: false, lastSynced: interrupted ? this.state.lastSynced : new Date() });
+    await this.reportDevice();
+  }
+
+  private async uploadAuthEvents(restaurantId: string): Promise<boolean> {
+    const events = (await offlineStore.getAll<KioskAuthEvent>(AUTH_EVENTS_STORE))
+      .filter(event => event.restaurantId === restaurantId);
+    if (events.length === 0) return true;
+
+    try {
+      await dataService.recordKioskAuthEvents(restaurantId, events);
+      await Promise.all(events.map(event => offlineStore.delete(AUTH_EVENTS_STORE, event.id)));
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Offline kiosk identifications not uploaded yet:', error);
+      return false;
+    }
+  }
+
+  // Heartbeat with the punches still on the tablet, so managers see them from the back office
+  private async reportDevice(): Promise<void> {
+    const config = this.getConfig();
+    if (!config || !this.state.isOnline) return;
+
+    const device: KioskDevice = {
+      id: config.deviceId,
+      restaurantId: config.restaurantId,
+      name: config.name,
+      lastSeenAt: new Date().toISOString(),
+      lastSyncAt: this.state.lastSynced?.toISOString(),
+      pendingPunches: await this.getPendingPunches()
+    };
+
+    try {
+      if (isSupabaseConfigured) {
+        await dataService.upsertKioskDevice(device);
+      } else {
+        const devices = this.loadLocalDevices(config.restaurantId);
+        devices[device.id] = device;
+        localStorage.setItem(this.getDevicesKey(config.restaurantId), JSON.stringify(devices));
+      }
+    } catch (error) {
+      console.warn('⚠️ Kiosk heartbeat failed:', error);
+    }
+  }
+
+  private async authenticateOffline(
+    restaurantId: string,
+    method: KioskAuthMethod,
+    employeeId: string | null,
+    secret: string
+  ): Promise<KioskAuthResult> {
+    const cache = this.loadCache(restaurantId);
+    const now = new Date();
+
+    if (method === 'badge') {
+      const badgeEmployeeId = cache.badgeHashes[await hashBadgeToken(secret)];
+      if (!badgeEmployeeId) return { outcome: 'invalid_badge' };
+
+      const lockedUntil = cache.credentials[badgeEmployeeId]?.lockedUntil;
+      return lockedUntil && parseISO(lockedUntil) > now
+        ? { outcome: 'locked', employeeId: badgeEmployeeId, lockedUntil }
+        : { outcome: 'success', employeeId: badgeEmployeeId };
+    }
+
+    if (!employeeId) return { outcome: 'no_pin' };
+
+    const credential = cache.credentials[employeeId];
+    if (!credential) {
+      // Never identified online on this tablet: nothing to check the PIN against
+      return { outcome: 'no_pin', employeeId };
+    }
+    if (credential.lockedUntil && parseISO(credential.lockedUntil) > now) {
+      return { outcome: 'locked', employeeId, lockedUntil: credential.lockedUntil };
+    }
+
+    if ((await hashPin(secret, credential.salt)) === credential.hash) {
+      this.saveCredential(restaurantId, employeeId, { ...credential, failedAttempts: 0, lockedUntil: undefined });
+      return { outcome: 'success', employeeId };
+    }
+
+    const failedAttempts = credential.failedAttempts + 1;
+    if (failedAttempts >= MAX_FAILED_PIN_ATTEMPTS) {
+      const lockedUntil = addMinutes(now, PIN_LOCKOUT_MINUTES).toISOString();
+      this.saveCredential(restaurantId, employeeId, { ...credential, failedAttempts: 0, lockedUntil });
+      return { outcome: 'locked', employeeId, lockedUntil };
+    }
+
+    this.saveCredential(restaurantId, employeeId, { ...credential, failedAttempts });
+    return { outcome: 'invalid_pin', employeeId, remainingAttempts: MAX_FAILED_PIN_ATTEMPTS - failedAttempts };
+  }
+
+  // Learn from the server's answer what the tablet needs to check identifications offline
+  private async rememberResult(
+    restaurantId: string,
+    method: KioskAuthMethod,
+    employeeId: string | null,
+    secret: string,
+    result: KioskAuthResult
+  ): Promise<void> {
+    if (method === 'badge') {
+      if (result.outcome === 'success' && result.employeeId) {
+        const cache = this.loadCache(restaurantId);
+        this.saveCache(restaurantId, {
+          ...cache,
+          badgeHashes: { ...cache.badgeHashes, [await hashBadgeToken(secret)]: result.employeeId }
+        });
+      }
+      return;
+    }
+
+    if (!employeeId) return;
+
+    if (result.outcome === 'success') {
+      const salt = randomHex(16);
+      this.saveCredential(restaurantId, employeeId, { salt, hash: await hashPin(secret, salt), failedAttempts: 0 });
+    } else if (result.outcome === 'locked') {
+      const credential = this.loadCache(restaurantId).credentials[employeeId];
+      if (credential) this.saveCredential(restaurantId, employeeId, { ...credential, lockedUntil: result.lockedUntil });
+    } else {
+      // CRITICAL: The PIN was changed or removed, the old one must not keep working offline
+      this.saveCredential(restaurantId, employeeId, null);
+    }
+  }
+
+  // Keep the tablet's open punches in step with what the server just recorded
+  private rememberPunch(restaurantId: string, result: KioskAuthResult): void {
+    const { punch } = result;
+    if (result.outcome !== 'success' || !punch) return;
+
+    const cache = this.loadCache(restaurantId);
+    const openPunches = { ...cache.openPunches };
+    if (punch.status === 'active') {
+      openPunches[punch.employeeId] = { punchId: punch.id, clockInTime: punch.clockInTime };
+    } else {
+      delete openPunches[punch.employeeId];
+    }
+    this.saveCache(restaurantId, { ...cache, openPunches });
+  }
+
+  private async loadBadgeHashes(restaurantId: string, fallback: Record<string, string>): Promise<Record<string, string>> {
+    try {
+      const tokens = await dataService.fetchEmployeeBadgeTokens(restaurantId);
+      const entries = await Promise.all(
+        Object.entries(tokens).map(async ([employeeId, token]) => [await hashBadgeToken(token), employeeId])
+      );
+      return Object.fromEntries(entries);
+    } catch (error) {
+      // Staff sessions cannot list badges; badges are then learned as they are scanned online
+      console.warn('⚠️ Badge list unavailable for this kiosk session:', error);
+      return fallback;
+    }
+  }
+
+  private toRoster(employees: Employee[], restaurantId: string): KioskRosterEmployee[] {
+    return employees
+      .filter(employee => employee.restaurantId === restaurantId)
+      .map(({ id, firstName, lastName, position }) => ({ id, firstName, lastName, position }))
+      .sort((a, b) => a.lastName.localeCompare(b.lastName));
+  }
+
+  // Shifts from yesterday (overnight shifts) to tomorrow
+  private toCachedShifts(schedules: Schedule[], restaurantId: string): CachedShift[] {
+    const today = new Date();
+    const firstDay = format(addDays(today, -1), 'yyyy-MM-dd');
+    const lastDay = format(addDays(today, 1), 'yyyy-MM-dd');
+
+    return getDatedShifts(schedules, restaurantId)
+      .filter(dated => dated.date >= firstDay && dated.date <= lastDay)
+      .map(dated => ({ ...dated, start: dated.start.toISOString(), end: dated.end.toISOString() }));
+  }
+
+  private toDatedShifts(shifts: CachedShift[]): DatedShift[] {
+    return shifts.map(cached => ({ ...cached, start: parseISO(cached.start), end: parseISO(cached.end) }));
+  }
+
+  private getCacheKey(restaurantId: string): string {
+    return `kioskCache_${restaurantId}`;
+  }
+
+  private getDevicesKey(restaurantId: string): string {
+    return `kioskDevices_${restaurantId}`;
+  }
+
+  private loadCache(restaurantId: string): KioskCache {
+    try {
+      const saved = localStorage.getItem(this.getCacheKey(restaurantId));
+      return saved ? { ...EMPTY_CACHE, ...JSON.parse(saved) } : EMPTY_CACHE;
+    } catch (error) {
+      console.error('❌ Failed to load kiosk cache:', error);
+      return EMPTY_CACHE;
+    }
+  }
+
+  private saveCache(restaurantId: string, cache: KioskCache): void {
+    localStorage.setItem(this.getCacheKey(restaurantId), JSON.stringify(cache));
+  }
+
+  private saveCredential(restaurantId: string, employeeId: string, credential: CachedCredential | null): void {
+    const cache = this.loadCache(restaurantId);
+    const credentials = { ...cache.credentials };
+    if (credential) {
+      credentials[employeeId] = credential;
+    } else {
+      delete credentials[employeeId];
+    }
+    this.saveCache(restaurantId, { ...cache, credentials });
+  }
+
+  private loadLocalDevices(restaurantId: string): Record<string, KioskDevice> {
+    try {
+      const saved = localStorage.getItem(this.getDevicesKey(restaurantId));
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error('❌ Failed to load local kiosk devices:', error);
+      return {};
+    }
+  }
+
+  private async refreshCounts(): Promise<void> {
+    const punches = await this.getPendingPunches();
+    this.setState({
+      pendingCount: punches.length,
+      rejectedCount: punches.filter(entry => entry.rejected).length
+    });
+  }
+
+  private setState(partial: Partial<KioskSyncState>): void {
+    this.state = { ...this.state, ...partial };
+    this.stateListeners.forEach(listener => listener(this.state));
+  }
+
+  private handleOnline = (): void => {
+    console.log('🌐 Connection restored, syncing kiosk punches');
+    this.setState({ isOnline: true });
+    this.syncNow().then(() => this.refreshCache());
+  };
+
+  private handleOffline = (): void => {
+    console.warn('📴 Connection lost, kiosk punches will be kept on the tablet');
+    this.setState({ isOnline: false });
+  };
+}
+
+// Export singleton instance
+export const kioskDeviceService = KioskDeviceService.getInstance();
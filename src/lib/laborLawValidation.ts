@@ -1,8 +1,10 @@
-import { Employee, Shift, DailyStatus } from '../types';
-import { addDays, differenceInHours, parseISO, format, startOfWeek, endOfWeek, isWithinInterval } from 'date-fns';
+import { Employee, Shift, DailyStatus, Schedule, LaborRulePack } from '../types';
+import { addDays, addMinutes, addWeeks, differenceInHours, differenceInMinutes, isSameDay, parseISO, format, startOfWeek, endOfWeek, isWithinInterval } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import { resolveRulePack } from './laborRulePacks';
 
-// CRITICAL: French Labor Law Constants for CHR Sector
+// CRITICAL: French Labor Law Constants for CHR Sector.
+// The validator reads its thresholds from the active rule pack (src/data/laborRulePacks); these mirror the French HCR pack.
 export const LABOR_LAW_CONSTANTS = {
   // Daily rest requirements
   MINIMUM_DAILY_REST_HOURS: 11, // Article L3131-1 Code du travail
@@ -15,13 +17,15 @@ export const LABOR_LAW_CONSTANTS = {
   MAXIMUM_DAILY_HOURS: 10, // Article L3121-18
   MAXIMUM_WEEKLY_HOURS: 48, // Article L3121-20
   MAXIMUM_AVERAGE_WEEKLY_HOURS_12_WEEKS: 44, // Article L3121-22
+  AVERAGE_WEEKLY_HOURS_WINDOW_WEEKS: 12, // Rolling window for the average above
   
   // Consecutive working days
   MAXIMUM_CONSECUTIVE_WORKING_DAYS: 6, // Before mandatory rest
   
   // CHR specific overtime thresholds
   CHR_OVERTIME_THRESHOLD_110_PERCENT: 35, // 35h-39h = 110%
-  CHR_OVERTIME_THRESHOLD_125_PERCENT: 39, // 39h+ = 125%
+  CHR_OVERTIME_THRESHOLD_125_PERCENT: 39, // 39h-43h = 125%
+  CHR_OVERTIME_THRESHOLD_150_PERCENT: 43, // 43h+ = 150%
   
   // Working week structure
   STANDARD_WORKING_DAYS_PER_WEEK: 6, // Monday to Saturday
@@ -37,7 +41,7 @@ export type ViolationSeverity = 'critical' | 'warning' | 'info';
 // CRITICAL: Violation types with French descriptions
 export interface LaborLawViolation {
   id: string;
-  type: 'daily_rest' | 'weekly_rest' | 'max_daily_hours' | 'max_weekly_hours' | 'consecutive_days' | 'contract_period' | 'coupure_violation';
+  type: 'daily_rest' | 'weekly_rest' | 'max_daily_hours' | 'max_weekly_hours' | 'average_weekly_hours' | 'consecutive_days' | 'contract_period' | 'coupure_violation' | 'continuous_work' | 'night_work';
   severity: ViolationSeverity;
   employeeId: string;
   employeeName: string;
@@ -46,14 +50,33 @@ export interface LaborLawViolation {
   suggestion: string;
   affectedShifts: string[]; // Shift IDs
   legalReference: string;
+  spansWeeks?: boolean; // Detected across several weeks (12-week average, week boundaries)
+  rulePackId?: string; // Rule pack the violated rule comes from
+  rulePackName?: string;
+  remediations?: ComplianceRemediation[]; // Machine-applicable fixes, best first
+}
+
+// CRITICAL: A remediation is a list of schedule edits applied through updateShift/addShift
+export type RemediationAction =
+  | { type: 'update_shift'; shiftId: string; changes: Partial<Pick<Shift, 'start' | 'end' | 'employeeId'>> }
+  | { type: 'add_shift'; shift: Omit<Shift, 'id'> };
+
+export interface ComplianceRemediation {
+  id: string;
+  label: string;
+  actions: RemediationAction[];
 }
 
 // CRITICAL: Rest period calculation result
 export interface RestPeriodAnalysis {
+  employeeId: string;
+  rulePackId: string;
   hasValidDailyRest: boolean;
   hasValidWeeklyRest: boolean;
   consecutiveWorkingDays: number;
   weeklyWorkingHours: number;
+  averageWeeklyHours?: number; // Over the pack's rolling window (12 weeks in France), when earlier weeks are known
+  weeksInAverage?: number;
   violations: LaborLawViolation[];
   suggestions: string[];
 }
@@ -68,17 +91,59 @@ interface Workday {
   hasCoupure: boolean; // Whether there are breaks between shifts
 }
 
+// Hours worked over the rolling window (e.g. 12 weeks) ending with the validated week
+interface AverageWeeklyHours {
+  average: number;
+  weeks: number;
+  previousWeeksHours: number; // Total of the window without the validated week
+}
+
 // CRITICAL: Main validation class for French labor law compliance
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minute range of a time window, overnight ends pushed to the next day
+const toRange = (start: string, end: string): [number, number] => {
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  return [startMinutes, endMinutes <= startMinutes ? endMinutes + MINUTES_PER_DAY : endMinutes];
+};
+
+const toTime = (minutes: number): string => {
+  const normalized = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
+
 export class FrenchLaborLawValidator {
   private employees: Employee[];
   private shifts: Shift[];
   private weekStartDate: Date;
+  private schedules: Schedule[];
+  private restaurantRulePackId?: string;
   private violations: LaborLawViolation[] = [];
 
-  constructor(employees: Employee[], shifts: Shift[], weekStartDate: Date) {
+  /**
+   * @param shifts Shifts of the validated week (live, possibly unsaved)
+   * @param schedules Optional rolling window of the restaurant's schedules around the week,
+   *                  used for the rules that span weeks. The validated week is read from `shifts`.
+   * @param restaurantRulePackId Rule pack of the restaurant; employees may override it with their own
+   */
+  constructor(
+    employees: Employee[],
+    shifts: Shift[],
+    weekStartDate: Date,
+    schedules: Schedule[] = [],
+    restaurantRulePackId?: string
+  ) {
     this.employees = employees;
     this.shifts = shifts;
     this.weekStartDate = weekStartDate;
+    this.schedules = schedules;
+    this.restaurantRulePackId = restaurantRulePackId;
     this.violations = [];
   }
 
@@ -104,6 +169,7 @@ export class FrenchLaborLawValidator {
     console.log('👤 Validating employee:', employee.firstName, employee.lastName);
 
     const employeeShifts = this.getEmployeeShiftsForWeek(employee.id);
+    const pack = resolveRulePack(employee, this.restaurantRulePackId, this.weekStartDate);
     const violations: LaborLawViolation[] = [];
     const suggestions: string[] = [];
 
@@ -112,49 +178,72 @@ export class FrenchLaborLawValidator {
     violations.push(...contractViolations);
 
     // CRITICAL: 2. Check daily rest periods (11h minimum BETWEEN WORKDAYS, not shifts)
-    const dailyRestViolations = this.validateDailyRestBetweenWorkdays(employee, employeeShifts);
+    const dailyRestViolations = this.validateDailyRestBetweenWorkdays(employee, employeeShifts, pack);
     violations.push(...dailyRestViolations);
 
     // CRITICAL: 3. Check coupures (breaks within same workday) - separate validation
-    const coupureViolations = this.validateCoupures(employee, employeeShifts);
+    const coupureViolations = this.validateCoupures(employee, employeeShifts, pack);
     violations.push(...coupureViolations);
 
     // 4. Check weekly rest period (35h consecutive)
-    const weeklyRestViolations = this.validateWeeklyRest(employee, employeeShifts);
+    const weeklyRestViolations = this.validateWeeklyRest(employee, employeeShifts, pack);
     violations.push(...weeklyRestViolations);
 
     // 5. Check maximum daily working hours (10h max)
-    const dailyHoursViolations = this.validateMaximumDailyHours(employee, employeeShifts);
+    const dailyHoursViolations = this.validateMaximumDailyHours(employee, employeeShifts, pack);
     violations.push(...dailyHoursViolations);
 
     // 6. Check maximum weekly working hours (48h max)
-    const weeklyHoursViolations = this.validateMaximumWeeklyHours(employee, employeeShifts);
+    const weeklyHoursViolations = this.validateMaximumWeeklyHours(employee, employeeShifts, pack);
     violations.push(...weeklyHoursViolations);
 
     // 7. Check consecutive working days (max 6 before rest)
-    const consecutiveDaysViolations = this.validateConsecutiveWorkingDays(employee, employeeShifts);
+    const consecutiveDaysViolations = this.validateConsecutiveWorkingDays(employee, employeeShifts, pack);
     violations.push(...consecutiveDaysViolations);
 
+    // 8. Check continuous work without a break and forbidden night work (minors)
+    violations.push(...this.validateContinuousWork(employee, employeeShifts, pack));
+    violations.push(...this.validateNightWork(employee, employeeShifts, pack));
+
+    // CRITICAL: 9. Rules spanning weeks (12-week average, Sunday-Monday rest, consecutive days)
+    const averageHours = this.calculateAverageWeeklyHours(employee, pack);
+    if (this.schedules.length > 0) {
+      violations.push(...this.validateAverageWeeklyHours(employee, employeeShifts, averageHours, pack));
+      violations.push(...this.validateRestBetweenWeeks(employee, employeeShifts, pack));
+      violations.push(...this.validateConsecutiveDaysAcrossWeeks(employee, pack));
+    }
+
+    // CRITICAL: Every violation cites the pack its rule comes from and carries its applicable fixes
+    violations.forEach(violation => {
+      violation.rulePackId = pack.id;
+      violation.rulePackName = pack.name;
+      violation.remediations = this.buildRemediations(employee, employeeShifts, violation, pack);
+    });
+
     // Generate intelligent suggestions
     if (violations.length > 0) {
-      suggestions.push(...this.generateComplianceSuggestions(employee, employeeShifts, violations));
+      suggestions.push(...this.generateComplianceSuggestions(employee, employeeShifts, violations, pack));
     }
 
     const weeklyHours = this.calculateWeeklyWorkingHours(employeeShifts);
     const consecutiveDays = this.calculateConsecutiveWorkingDays(employeeShifts);
 
     return {
+      employeeId: employee.id,
+      rulePackId: pack.id,
       hasValidDailyRest: !violations.some(v => v.type === 'daily_rest'),
       hasValidWeeklyRest: !violations.some(v => v.type === 'weekly_rest'),
       consecutiveWorkingDays: consecutiveDays,
       weeklyWorkingHours: weeklyHours,
+      averageWeeklyHours: averageHours?.average,
+      weeksInAverage: averageHours?.weeks,
       violations,
       suggestions
     };
   }
 
   // CRITICAL: NEW - Build workdays from shifts (groups shifts by calendar day)
-  private buildWorkdaysFromShifts(shifts: Shift[]): Workday[] {
+  private buildWorkdaysFromShifts(shifts: Shift[], weekStartDate: Date = this.weekStartDate): Workday[] {
     console.log('🏗️ Building workdays from shifts...');
     
     // Filter only actual working shifts (exclude status-only shifts like absences)
@@ -173,8 +262,8 @@ export class FrenchLaborLawValidator {
       const sortedShifts = dayShifts.sort((a, b) => a.start.localeCompare(b.start));
       
       // Calculate workday boundaries
-      const firstShiftStart = this.parseShiftDateTime(day, sortedShifts[0].start);
-      const lastShiftEnd = this.parseShiftDateTime(day, sortedShifts[sortedShifts.length - 1].end);
+      const firstShiftStart = this.parseShiftDateTime(day, sortedShifts[0].start, weekStartDate);
+      const lastShiftEnd = this.parseShiftDateTime(day, sortedShifts[sortedShifts.length - 1].end, weekStartDate);
       
       // Calculate total working hours for the day
       const totalHours = sortedShifts.reduce((total, shift) => {
@@ -206,9 +295,12 @@ export class FrenchLaborLawValidator {
   }
 
   // CRITICAL: FIXED - Validate 11-hour daily rest requirement BETWEEN WORKDAYS
-  private validateDailyRestBetweenWorkdays(employee: Employee, shifts: Shift[]): LaborLawViolation[] {
+  private validateDailyRestBetweenWorkdays(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
     console.log('🛌 Validating daily rest BETWEEN WORKDAYS (not between shifts within same day)...');
     
+    const rule = pack.rules.dailyRestHours;
+    if (!rule) return [];
+
     const violations: LaborLawViolation[] = [];
     const workdays = this.buildWorkdaysFromShifts(shifts);
 
@@ -226,7 +318,7 @@ export class FrenchLaborLawValidator {
         restHours: restHours.toFixed(1)
       });
 
-      if (restHours < LABOR_LAW_CONSTANTS.MINIMUM_DAILY_REST_HOURS) {
+      if (restHours < rule.limit) {
         violations.push({
           id: `daily-rest-${employee.id}-${currentWorkday.day}-${nextWorkday.day}`,
           type: 'daily_rest',
@@ -234,10 +326,10 @@ export class FrenchLaborLawValidator {
           employeeId: employee.id,
           employeeName: `${employee.firstName} ${employee.lastName}`,
           day: nextWorkday.day,
-          message: `Repos quotidien insuffisant : ${restHours.toFixed(1)}h au lieu de 11h minimum entre la fin du ${this.getDayName(currentWorkday.day)} (${format(currentWorkday.lastShiftEnd, 'HH:mm')}) et le début du ${this.getDayName(nextWorkday.day)} (${format(nextWorkday.firstShiftStart, 'HH:mm')})`,
-          suggestion: `Décaler le premier service du ${this.getDayName(nextWorkday.day)} à ${format(addDays(currentWorkday.lastShiftEnd, 0).setHours(currentWorkday.lastShiftEnd.getHours() + 11), 'HH:mm')} ou terminer plus tôt le ${this.getDayName(currentWorkday.day)}`,
+          message: `Repos quotidien insuffisant : ${restHours.toFixed(1)}h au lieu de ${rule.limit}h minimum entre la fin du ${this.getDayName(currentWorkday.day)} (${format(currentWorkday.lastShiftEnd, 'HH:mm')}) et le début du ${this.getDayName(nextWorkday.day)} (${format(nextWorkday.firstShiftStart, 'HH:mm')})`,
+          suggestion: `Décaler le premier service du ${this.getDayName(nextWorkday.day)} à ${format(addDays(currentWorkday.lastShiftEnd, 0).setHours(currentWorkday.lastShiftEnd.getHours() + rule.limit), 'HH:mm')} ou terminer plus tôt le ${this.getDayName(currentWorkday.day)}`,
           affectedShifts: [...currentWorkday.shifts.map(s => s.id), ...nextWorkday.shifts.map(s => s.id)],
-          legalReference: 'Article L3131-1 Code du travail - Repos quotidien entre journées de travail'
+          legalReference: rule.reference
         });
       }
     }
@@ -247,9 +339,10 @@ export class FrenchLaborLawValidator {
   }
 
   // CRITICAL: NEW - Validate coupures (breaks within same workday) - separate from daily rest
-  private validateCoupures(employee: Employee, shifts: Shift[]): LaborLawViolation[] {
+  private validateCoupures(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
     console.log('☕ Validating coupures (breaks within same workday)...');
     
+    const { minCoupureMinutes, maxCoupureHours } = pack.rules;
     const violations: LaborLawViolation[] = [];
     const workdays = this.buildWorkdaysFromShifts(shifts);
 
@@ -270,7 +363,7 @@ export class FrenchLaborLawValidator {
           });
 
           // Check minimum coupure duration (CHR requirement)
-          if (breakMinutes < LABOR_LAW_CONSTANTS.MINIMUM_COUPURE_DURATION_MINUTES) {
+          if (minCoupureMinutes && breakMinutes < minCoupureMinutes.limit) {
             violations.push({
               id: `coupure-min-${employee.id}-${workday.day}-${i}`,
               type: 'coupure_violation',
@@ -278,15 +371,15 @@ export class FrenchLaborLawValidator {
               employeeId: employee.id,
               employeeName: `${employee.firstName} ${employee.lastName}`,
               day: workday.day,
-              message: `Coupure trop courte le ${this.getDayName(workday.day)} : ${breakMinutes.toFixed(0)}min au lieu de ${LABOR_LAW_CONSTANTS.MINIMUM_COUPURE_DURATION_MINUTES}min minimum entre ${currentShift.start}-${currentShift.end} et ${nextShift.start}-${nextShift.end}`,
-              suggestion: `Allonger la coupure à au moins ${LABOR_LAW_CONSTANTS.MINIMUM_COUPURE_DURATION_MINUTES}min ou grouper les services`,
+              message: `Coupure trop courte le ${this.getDayName(workday.day)} : ${breakMinutes.toFixed(0)}min au lieu de ${minCoupureMinutes.limit}min minimum entre ${currentShift.start}-${currentShift.end} et ${nextShift.start}-${nextShift.end}`,
+              suggestion: `Allonger la coupure à au moins ${minCoupureMinutes.limit}min ou grouper les services`,
               affectedShifts: [currentShift.id, nextShift.id],
-              legalReference: 'Convention collective CHR - Durée minimale des coupures'
+              legalReference: minCoupureMinutes.reference
             });
           }
 
           // Check maximum coupure duration (beyond which it might be considered separate workdays)
-          if (breakMinutes > LABOR_LAW_CONSTANTS.MAXIMUM_COUPURE_DURATION_HOURS * 60) {
+          if (maxCoupureHours && breakMinutes > maxCoupureHours.limit * 60) {
             violations.push({
               id: `coupure-max-${employee.id}-${workday.day}-${i}`,
               type: 'coupure_violation',
@@ -297,7 +390,7 @@ export class FrenchLaborLawValidator {
               message: `Coupure très longue le ${this.getDayName(workday.day)} : ${(breakMinutes/60).toFixed(1)}h entre ${currentShift.start}-${currentShift.end} et ${nextShift.start}-${nextShift.end}`,
               suggestion: `Vérifier si cette longue coupure est justifiée ou considérer comme deux journées de travail distinctes`,
               affectedShifts: [currentShift.id, nextShift.id],
-              legalReference: 'Convention collective CHR - Gestion des coupures prolongées'
+              legalReference: maxCoupureHours.reference
             });
           }
         }
@@ -354,7 +447,8 @@ export class FrenchLaborLawValidator {
   }
 
   // CRITICAL: Validate 35-hour weekly rest requirement
-  private validateWeeklyRest(employee: Employee, shifts: Shift[]): LaborLawViolation[] {
+  private validateWeeklyRest(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
+    const { weeklyRestHours, sundayRest } = pack.rules;
     const violations: LaborLawViolation[] = [];
     
     // Check if employee has any rest day in the week
@@ -371,22 +465,23 @@ export class FrenchLaborLawValidator {
     );
 
     // If working 6 or 7 days without designated rest, it's a violation
-    if (workingDays.size >= 6 && restDays.size === 0) {
+    // (packs with a longer reference period, e.g. 14 days, rely on the consecutive days rule instead)
+    if (weeklyRestHours && (weeklyRestHours.referenceDays ?? 7) <= 7 && workingDays.size >= 6 && restDays.size === 0) {
       violations.push({
         id: `weekly-rest-${employee.id}`,
         type: 'weekly_rest',
         severity: 'critical',
         employeeId: employee.id,
         employeeName: `${employee.firstName} ${employee.lastName}`,
-        message: `Repos hebdomadaire manquant : ${workingDays.size} jours de travail sans repos de 35h consécutives`,
-        suggestion: `Planifier un repos hebdomadaire de 35h consécutives, de préférence incluant le dimanche`,
+        message: `Repos hebdomadaire manquant : ${workingDays.size} jours de travail sans repos de ${weeklyRestHours.limit}h consécutives`,
+        suggestion: `Planifier un repos hebdomadaire de ${weeklyRestHours.limit}h consécutives, de préférence incluant le dimanche`,
         affectedShifts: shifts.map(s => s.id),
-        legalReference: 'Article L3132-2 Code du travail + Convention CHR'
+        legalReference: weeklyRestHours.reference
       });
     }
 
     // Check if Sunday rest is respected (CHR preference)
-    if (workingDays.has(6) && !restDays.has(6)) { // Sunday = day 6
+    if (sundayRest && workingDays.has(6) && !restDays.has(6)) { // Sunday = day 6
       violations.push({
         id: `sunday-rest-${employee.id}`,
         type: 'weekly_rest',
@@ -397,7 +492,7 @@ export class FrenchLaborLawValidator {
         message: `Travail le dimanche sans repos compensateur désigné`,
         suggestion: `Prévoir un repos compensateur ou justifier le travail dominical selon la convention CHR`,
         affectedShifts: shifts.filter(s => s.day === 6).map(s => s.id),
-        legalReference: 'Convention collective CHR - Repos dominical'
+        legalReference: sundayRest.reference
       });
     }
 
@@ -405,12 +500,15 @@ export class FrenchLaborLawValidator {
   }
 
   // CRITICAL: Validate maximum 10 hours per day
-  private validateMaximumDailyHours(employee: Employee, shifts: Shift[]): LaborLawViolation[] {
+  private validateMaximumDailyHours(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
+    const rule = pack.rules.maxDailyHours;
+    if (!rule) return [];
+
     const violations: LaborLawViolation[] = [];
     const workdays = this.buildWorkdaysFromShifts(shifts);
 
     workdays.forEach(workday => {
-      if (workday.totalHours > LABOR_LAW_CONSTANTS.MAXIMUM_DAILY_HOURS) {
+      if (workday.totalHours > rule.limit) {
         violations.push({
           id: `daily-hours-${employee.id}-${workday.day}`,
           type: 'max_daily_hours',
@@ -418,10 +516,10 @@ export class FrenchLaborLawValidator {
           employeeId: employee.id,
           employeeName: `${employee.firstName} ${employee.lastName}`,
           day: workday.day,
-          message: `Dépassement du temps de travail quotidien : ${workday.totalHours.toFixed(1)}h au lieu de 10h maximum le ${this.getDayName(workday.day)}`,
+          message: `Dépassement du temps de travail quotidien : ${workday.totalHours.toFixed(1)}h au lieu de ${rule.limit}h maximum le ${this.getDayName(workday.day)}`,
           suggestion: `Réduire les heures du ${this.getDayName(workday.day)} ou répartir sur plusieurs jours`,
           affectedShifts: workday.shifts.map(s => s.id),
-          legalReference: 'Article L3121-18 Code du travail'
+          legalReference: rule.reference
         });
       }
     });
@@ -430,21 +528,24 @@ export class FrenchLaborLawValidator {
   }
 
   // CRITICAL: Validate maximum 48 hours per week
-  private validateMaximumWeeklyHours(employee: Employee, shifts: Shift[]): LaborLawViolation[] {
+  private validateMaximumWeeklyHours(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
+    const rule = pack.rules.maxWeeklyHours;
+    if (!rule) return [];
+
     const violations: LaborLawViolation[] = [];
     const weeklyHours = this.calculateWeeklyWorkingHours(shifts);
 
-    if (weeklyHours > LABOR_LAW_CONSTANTS.MAXIMUM_WEEKLY_HOURS) {
+    if (weeklyHours > rule.limit) {
       violations.push({
         id: `weekly-hours-${employee.id}`,
         type: 'max_weekly_hours',
         severity: 'critical',
         employeeId: employee.id,
         employeeName: `${employee.firstName} ${employee.lastName}`,
-        message: `Dépassement du temps de travail hebdomadaire : ${weeklyHours.toFixed(1)}h au lieu de 48h maximum`,
+        message: `Dépassement du temps de travail hebdomadaire : ${weeklyHours.toFixed(1)}h au lieu de ${rule.limit}h maximum`,
         suggestion: `Réduire les heures de travail ou répartir sur plusieurs semaines`,
         affectedShifts: shifts.map(s => s.id),
-        legalReference: 'Article L3121-20 Code du travail'
+        legalReference: rule.reference
       });
     }
 
@@ -452,59 +553,311 @@ export class FrenchLaborLawValidator {
   }
 
   // CRITICAL: Validate maximum 6 consecutive working days
-  private validateConsecutiveWorkingDays(employee: Employee, shifts: Shift[]): LaborLawViolation[] {
+  private validateConsecutiveWorkingDays(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
+    const rule = pack.rules.maxConsecutiveDays;
+    if (!rule) return [];
+
     const violations: LaborLawViolation[] = [];
     const consecutiveDays = this.calculateConsecutiveWorkingDays(shifts);
 
-    if (consecutiveDays > LABOR_LAW_CONSTANTS.MAXIMUM_CONSECUTIVE_WORKING_DAYS) {
+    if (consecutiveDays > rule.limit) {
       violations.push({
         id: `consecutive-days-${employee.id}`,
         type: 'consecutive_days',
         severity: 'critical',
         employeeId: employee.id,
         employeeName: `${employee.firstName} ${employee.lastName}`,
-        message: `Trop de jours consécutifs : ${consecutiveDays} jours au lieu de 6 maximum`,
-        suggestion: `Insérer un jour de repos après 6 jours de travail consécutifs`,
+        message: `Trop de jours consécutifs : ${consecutiveDays} jours au lieu de ${rule.limit} maximum`,
+        suggestion: `Insérer un jour de repos après ${rule.limit} jours de travail consécutifs`,
         affectedShifts: shifts.map(s => s.id),
-        legalReference: 'Article L3132-1 Code du travail'
+        legalReference: rule.reference
       });
     }
 
     return violations;
   }
 
+  // CRITICAL: Validate the longest service worked without a break
+  private validateContinuousWork(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
+    const rule = pack.rules.maxContinuousHours;
+    if (!rule) return [];
+
+    return shifts
+      .filter(shift => shift.start && shift.end && !shift.status)
+      .filter(shift => this.calculateShiftHours(shift.start, shift.end) > rule.limit)
+      .map(shift => ({
+        id: `continuous-work-${employee.id}-${shift.id}`,
+        type: 'continuous_work' as const,
+        severity: 'warning' as const,
+        employeeId: employee.id,
+        employeeName: `${employee.firstName} ${employee.lastName}`,
+        day: shift.day,
+        message: `Service de ${this.calculateShiftHours(shift.start, shift.end).toFixed(1)}h sans coupure le ${this.getDayName(shift.day)} (${shift.start}-${shift.end}), au-delà de ${rule.limit}h de travail continu`,
+        suggestion: `Prévoir une pause ou scinder le service en coupure`,
+        affectedShifts: [shift.id],
+        legalReference: rule.reference
+      }));
+  }
+
+  // CRITICAL: Validate the forbidden night-work window (e.g. minors after 23h30)
+  private validateNightWork(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
+    const rule = pack.rules.nightWork;
+    if (!rule) return [];
+
+    const [nightStart, nightEnd] = toRange(rule.start, rule.end);
+
+    return shifts
+      .filter(shift => shift.start && shift.end && !shift.status)
+      .filter(shift => {
+        const [start, end] = toRange(shift.start, shift.end);
+        // The night window may also be the previous evening's (early-morning shifts)
+        return [0, -MINUTES_PER_DAY].some(offset => start < nightEnd + offset && end > nightStart + offset);
+      })
+      .map(shift => ({
+        id: `night-work-${employee.id}-${shift.id}`,
+        type: 'night_work' as const,
+        severity: 'critical' as const,
+        employeeId: employee.id,
+        employeeName: `${employee.firstName} ${employee.lastName}`,
+        day: shift.day,
+        message: `Travail de nuit interdit le ${this.getDayName(shift.day)} (${shift.start}-${shift.end}) : aucune heure autorisée entre ${rule.start} et ${rule.end}`,
+        suggestion: `Terminer le service avant ${rule.start} et ne pas commencer avant ${rule.end}`,
+        affectedShifts: [shift.id],
+        legalReference: rule.reference
+      }));
+  }
+
+  // CRITICAL: Shifts of an employee for a week of the window, relative to the validated week.
+  // Returns null when that week has no schedule (unknown, not "no work").
+  private getEmployeeShiftsForWeekOffset(employeeId: string, weekOffset: number): Shift[] | null {
+    if (weekOffset === 0) return this.getEmployeeShiftsForWeek(employeeId);
+
+    const weekKey = format(addWeeks(this.weekStartDate, weekOffset), 'yyyy-MM-dd');
+    const schedule = this.schedules.find(s => s.weekStartDate === weekKey);
+    return schedule ? schedule.shifts.filter(shift => shift.employeeId === employeeId) : null;
+  }
+
+  // CRITICAL: Average weekly hours over the pack's window (12 weeks in France) ending with the validated week.
+  // Weeks without a schedule or before the contract start are left out of the average.
+  private calculateAverageWeeklyHours(employee: Employee, pack: LaborRulePack): AverageWeeklyHours | null {
+    const rule = pack.rules.averageWeeklyHours;
+    if (!rule) return null;
+
+    const contractStart = parseISO(employee.startDate || '1900-01-01');
+    let previousWeeksHours = 0;
+    let weeks = 1;
+
+    for (let offset = -(rule.weeks - 1); offset < 0; offset++) {
+      const weekStart = addWeeks(this.weekStartDate, offset);
+      if (addDays(weekStart, 6) < contractStart) continue;
+
+      const weekShifts = this.getEmployeeShiftsForWeekOffset(employee.id, offset);
+      if (!weekShifts) continue;
+
+      previousWeeksHours += this.calculateWeeklyWorkingHours(weekShifts);
+      weeks++;
+    }
+
+    if (weeks < 2) return null;
+
+    const currentWeekHours = this.calculateWeeklyWorkingHours(this.getEmployeeShiftsForWeek(employee.id));
+    return {
+      average: (previousWeeksHours + currentWeekHours) / weeks,
+      weeks,
+      previousWeeksHours
+    };
+  }
+
+  // CRITICAL: Validate the average weekly hours over consecutive weeks (44h over 12 weeks in France)
+  private validateAverageWeeklyHours(
+    employee: Employee,
+    shifts: Shift[],
+    averageHours: AverageWeeklyHours | null,
+    pack: LaborRulePack
+  ): LaborLawViolation[] {
+    const rule = pack.rules.averageWeeklyHours;
+    if (!rule || !averageHours || averageHours.average <= rule.limit) {
+      return [];
+    }
+
+    // Hours this week that would bring the average back to the limit
+    const allowedThisWeek = Math.max(0, rule.limit * averageHours.weeks - averageHours.previousWeeksHours);
+
+    return [{
+      id: `average-hours-${employee.id}`,
+      type: 'average_weekly_hours',
+      severity: 'critical',
+      employeeId: employee.id,
+      employeeName: `${employee.firstName} ${employee.lastName}`,
+      message: `Moyenne hebdomadaire trop élevée : ${averageHours.average.toFixed(1)}h sur les ${averageHours.weeks} dernières semaines au lieu de ${rule.limit}h maximum sur ${rule.weeks} semaines consécutives`,
+      suggestion: `Limiter cette semaine à ${allowedThisWeek.toFixed(1)}h ou alléger les semaines suivantes`,
+      affectedShifts: shifts.filter(s => s.start && s.end && !s.status).map(s => s.id),
+      legalReference: rule.reference,
+      spansWeeks: true
+    }];
+  }
+
+  // CRITICAL: Validate the daily rest between Sunday night and Monday morning, on both edges of the week
+  private validateRestBetweenWeeks(employee: Employee, shifts: Shift[], pack: LaborRulePack): LaborLawViolation[] {
+    const rule = pack.rules.dailyRestHours;
+    if (!rule) return [];
+
+    const violations: LaborLawViolation[] = [];
+    const boundaries = [
+      {
+        sundayShifts: this.getEmployeeShiftsForWeekOffset(employee.id, -1),
+        sundayWeekStart: addWeeks(this.weekStartDate, -1),
+        mondayShifts: shifts,
+        mondayWeekStart: this.weekStartDate,
+        day: 0
+      },
+      {
+        sundayShifts: shifts,
+        sundayWeekStart: this.weekStartDate,
+        mondayShifts: this.getEmployeeShiftsForWeekOffset(employee.id, 1),
+        mondayWeekStart: addWeeks(this.weekStartDate, 1),
+        day: 6
+      }
+    ];
+
+    boundaries.forEach(({ sundayShifts, sundayWeekStart, mondayShifts, mondayWeekStart, day }) => {
+      if (!sundayShifts || !mondayShifts) return;
+
+      const sunday = this.buildWorkdaysFromShifts(sundayShifts, sundayWeekStart).find(w => w.day === 6);
+      const monday = this.buildWorkdaysFromShifts(mondayShifts, mondayWeekStart).find(w => w.day === 0);
+      if (!sunday || !monday) return;
+
+      const restHours = differenceInMinutes(monday.firstShiftStart, sunday.lastShiftEnd) / 60;
+      if (restHours >= rule.limit) return;
+
+      violations.push({
+        id: `daily-rest-weeks-${employee.id}-${format(mondayWeekStart, 'yyyy-MM-dd')}`,
+        type: 'daily_rest',
+        severity: 'critical',
+        employeeId: employee.id,
+        employeeName: `${employee.firstName} ${employee.lastName}`,
+        day,
+        message: `Repos quotidien insuffisant entre deux semaines : ${restHours.toFixed(1)}h au lieu de ${rule.limit}h minimum entre le dimanche ${format(sunday.lastShiftEnd, 'd MMMM', { locale: fr })} (${format(sunday.lastShiftEnd, 'HH:mm')}) et le lundi ${format(monday.firstShiftStart, 'd MMMM', { locale: fr })} (${format(monday.firstShiftStart, 'HH:mm')})`,
+        suggestion: `Décaler le premier service du lundi à ${format(addDays(sunday.lastShiftEnd, 0).setHours(sunday.lastShiftEnd.getHours() + rule.limit), 'HH:mm')} ou terminer plus tôt le dimanche`,
+        affectedShifts: [...sunday.shifts.map(s => s.id), ...monday.shifts.map(s => s.id)],
+        legalReference: rule.reference,
+        spansWeeks: true
+      });
+    });
+
+    return violations;
+  }
+
+  // CRITICAL: Validate consecutive working days over the previous, current and next week.
+  // Only streaks crossing a week boundary are reported, the others are covered by validateConsecutiveWorkingDays.
+  private validateConsecutiveDaysAcrossWeeks(employee: Employee, pack: LaborRulePack): LaborLawViolation[] {
+    const rule = pack.rules.maxConsecutiveDays;
+    if (!rule) return [];
+
+    const violations: LaborLawViolation[] = [];
+    const workedDates = new Map<string, Shift[]>();
+
+    for (let offset = -1; offset <= 1; offset++) {
+      const weekShifts = this.getEmployeeShiftsForWeekOffset(employee.id, offset);
+      if (!weekShifts) continue;
+
+      weekShifts
+        .filter(shift => shift.start && shift.end && !shift.status)
+        .forEach(shift => {
+          const dateKey = format(addDays(addWeeks(this.weekStartDate, offset), shift.day), 'yyyy-MM-dd');
+          workedDates.set(dateKey, [...(workedDates.get(dateKey) ?? []), shift]);
+        });
+    }
+
+    // Days relative to the validated Monday: -7 (previous Monday) to 13 (next Sunday)
+    let streakStart: number | null = null;
+    for (let dayOffset = -7; dayOffset <= 14; dayOffset++) {
+      const dateKey = format(addDays(this.weekStartDate, dayOffset), 'yyyy-MM-dd');
+      if (dayOffset < 14 && workedDates.has(dateKey)) {
+        if (streakStart === null) streakStart = dayOffset;
+        continue;
+      }
+      if (streakStart === null) continue;
+
+      const streakFirst = streakStart;
+      const streakEnd = dayOffset - 1;
+      const length = streakEnd - streakFirst + 1;
+      const touchesWeek = streakFirst <= 6 && streakEnd >= 0;
+      const crossesWeek = streakFirst < 0 || streakEnd > 6;
+
+      if (length > rule.limit && touchesWeek && crossesWeek) {
+        const firstDate = addDays(this.weekStartDate, streakFirst);
+        const lastDate = addDays(this.weekStartDate, streakEnd);
+        // First day beyond the limit, if it falls in the validated week
+        const exceedingDay = streakFirst + rule.limit;
+
+        violations.push({
+          id: `consecutive-days-weeks-${employee.id}-${format(firstDate, 'yyyy-MM-dd')}`,
+          type: 'consecutive_days',
+          severity: 'critical',
+          employeeId: employee.id,
+          employeeName: `${employee.firstName} ${employee.lastName}`,
+          day: exceedingDay >= 0 && exceedingDay <= 6 ? exceedingDay : undefined,
+          message: `Trop de jours consécutifs sur deux semaines : ${length} jours du ${format(firstDate, 'EEEE d MMMM', { locale: fr })} au ${format(lastDate, 'EEEE d MMMM', { locale: fr })} au lieu de ${rule.limit} maximum`,
+          suggestion: `Insérer un jour de repos pour couper la série, en tenant compte des semaines voisines`,
+          affectedShifts: Array.from({ length: 7 }, (_, day) => day)
+            .filter(day => day >= streakFirst && day <= streakEnd)
+            .flatMap(day => workedDates.get(format(addDays(this.weekStartDate, day), 'yyyy-MM-dd')) ?? [])
+            .map(shift => shift.id),
+          legalReference: rule.reference,
+          spansWeeks: true
+        });
+      }
+
+      streakStart = null;
+    }
+
+    return violations;
+  }
+
   // CRITICAL: Generate intelligent compliance suggestions
-  private generateComplianceSuggestions(employee: Employee, shifts: Shift[], violations: LaborLawViolation[]): string[] {
+  private generateComplianceSuggestions(
+    employee: Employee,
+    shifts: Shift[],
+    violations: LaborLawViolation[],
+    pack: LaborRulePack
+  ): string[] {
+    const { rules } = pack;
     const suggestions: string[] = [];
 
     // Daily rest suggestions
     const dailyRestViolations = violations.filter(v => v.type === 'daily_rest');
     if (dailyRestViolations.length > 0) {
-      suggestions.push('💡 Conseil repos quotidien : Respecter 11h de repos entre la fin d\'une journée de travail et le début de la suivante');
+      suggestions.push(`💡 Conseil repos quotidien : Respecter ${rules.dailyRestHours?.limit}h de repos entre la fin d'une journée de travail et le début de la suivante`);
     }
 
     // Coupure suggestions
     const coupureViolations = violations.filter(v => v.type === 'coupure_violation');
     if (coupureViolations.length > 0) {
-      suggestions.push('💡 Conseil coupures : Les pauses entre services doivent durer au moins 1h selon la convention CHR');
+      suggestions.push(`💡 Conseil coupures : Les pauses entre services doivent durer au moins ${rules.minCoupureMinutes?.limit ?? 0}min (${pack.name})`);
     }
 
     // Weekly rest suggestions
     const weeklyRestViolations = violations.filter(v => v.type === 'weekly_rest');
     if (weeklyRestViolations.length > 0) {
-      suggestions.push('💡 Conseil repos hebdomadaire : Planifier 35h de repos consécutives, idéalement du samedi soir au lundi matin');
+      suggestions.push(`💡 Conseil repos hebdomadaire : Planifier ${rules.weeklyRestHours?.limit ?? 35}h de repos consécutives, idéalement du samedi soir au lundi matin`);
     }
 
     // Daily hours suggestions
     const dailyHoursViolations = violations.filter(v => v.type === 'max_daily_hours');
     if (dailyHoursViolations.length > 0) {
-      suggestions.push('💡 Conseil heures quotidiennes : Limiter à 10h/jour ou demander une dérogation préfectorale');
+      suggestions.push(`💡 Conseil heures quotidiennes : Limiter à ${rules.maxDailyHours?.limit}h/jour ou demander une dérogation préfectorale`);
     }
 
     // Weekly hours suggestions
     const weeklyHoursViolations = violations.filter(v => v.type === 'max_weekly_hours');
     if (weeklyHoursViolations.length > 0) {
-      suggestions.push('💡 Conseil heures hebdomadaires : Respecter 48h maximum ou étaler sur plusieurs semaines');
+      suggestions.push(`💡 Conseil heures hebdomadaires : Respecter ${rules.maxWeeklyHours?.limit}h maximum ou étaler sur plusieurs semaines`);
+    }
+
+    // 12-week average suggestions
+    if (violations.some(v => v.type === 'average_weekly_hours')) {
+      suggestions.push(`💡 Conseil moyenne ${rules.averageWeeklyHours?.weeks} semaines : Compenser les semaines chargées par des semaines plus légères pour rester sous ${rules.averageWeeklyHours?.limit}h en moyenne`);
     }
 
     return suggestions;
@@ -512,12 +865,311 @@ export class FrenchLaborLawValidator {
 
   // CRITICAL: Helper methods for calculations
 
+  // CRITICAL: Structured fixes for a violation. Each one only touches the validated week
+  // and is checked against the rules of every employee it involves.
+  private buildRemediations(
+    employee: Employee,
+    shifts: Shift[],
+    violation: LaborLawViolation,
+    pack: LaborRulePack
+  ): ComplianceRemediation[] {
+    const { rules } = pack;
+    const workingShifts = shifts
+      .filter(shift => shift.start && shift.end && !shift.status)
+      .sort((a, b) => a.day - b.day || a.start.localeCompare(b.start));
+    const affected = workingShifts.filter(shift => violation.affectedShifts.includes(shift.id));
+    const dayShifts = (day?: number) => workingShifts.filter(shift => shift.day === day);
+    const remediations: (ComplianceRemediation | null)[] = [];
+
+    switch (violation.type) {
+      case 'daily_rest': {
+        const lastDay = Math.max(...affected.map(shift => shift.day));
+        const [previous, next] = this.buildWorkdaysFromShifts(affected).sort((a, b) => a.day - b.day);
+
+        if (!violation.spansWeeks && rules.dailyRestHours && previous && next) {
+          const restMinutes = rules.dailyRestHours.limit * 60;
+          const firstShift = next.shifts[0];
+          const lastShift = previous.shifts[previous.shifts.length - 1];
+
+          // Start the next workday later...
+          const requiredStart = addMinutes(previous.lastShiftEnd, restMinutes);
+          if (
+            isSameDay(requiredStart, addDays(this.weekStartDate, next.day)) &&
+            requiredStart < this.parseShiftDateTime(next.day, firstShift.end)
+          ) {
+            remediations.push(this.updateRemediation(
+              `${violation.id}-delay`,
+              `Décaler le début du service du ${this.getDayName(next.day)} à ${format(requiredStart, 'HH:mm')}`,
+              firstShift,
+              { start: format(requiredStart, 'HH:mm') }
+            ));
+          }
+
+          // ...or end the previous one earlier
+          const latestEnd = addMinutes(next.firstShiftStart, -restMinutes);
+          if (latestEnd > this.parseShiftDateTime(previous.day, lastShift.start)) {
+            remediations.push(this.updateRemediation(
+              `${violation.id}-end-earlier`,
+              `Terminer le service du ${this.getDayName(previous.day)} à ${format(latestEnd, 'HH:mm')}`,
+              lastShift,
+              { end: format(latestEnd, 'HH:mm') }
+            ));
+          }
+        }
+
+        remediations.push(this.reassignRemediation(`${violation.id}-reassign`, employee, dayShifts(lastDay)));
+        break;
+      }
+
+      case 'coupure_violation': {
+        const [current, next] = affected;
+        if (!current || !next || !rules.minCoupureMinutes || !violation.id.startsWith('coupure-min')) break;
+
+        const newStart = toRange(current.start, current.end)[1] + rules.minCoupureMinutes.limit;
+        if (newStart < toRange(next.start, next.end)[1]) {
+          remediations.push(this.updateRemediation(
+            `${violation.id}-delay`,
+            `Décaler la reprise du ${this.getDayName(next.day)} à ${toTime(newStart)}`,
+            next,
+            { start: toTime(newStart) }
+          ));
+        }
+        break;
+      }
+
+      case 'weekly_rest':
+      case 'consecutive_days': {
+        if (violation.severity !== 'critical') break; // Sunday work is only a recommendation
+
+        const workingDays = new Set(workingShifts.map(shift => shift.day));
+        const statusDays = new Set(shifts.filter(shift => shift.status).map(shift => shift.day));
+
+        // A free day in the week only needs to be designated as weekly rest
+        const freeDay = [6, 5, 4, 3, 2, 1, 0].find(day => !workingDays.has(day) && !statusDays.has(day));
+        if (violation.type === 'weekly_rest' && freeDay !== undefined) {
+          remediations.push({
+            id: `${violation.id}-rest-${freeDay}`,
+            label: `Poser le repos hebdomadaire le ${this.getDayName(freeDay)}`,
+            actions: [this.weeklyRestAction(employee, freeDay)]
+          });
+          break;
+        }
+
+        // Otherwise free the day that breaks the streak (Sunday by default)
+        const restDay = violation.type === 'consecutive_days'
+          ? violation.day ?? this.getStreakBreakDay(workingDays, rules.maxConsecutiveDays?.limit ?? 6)
+          : 6;
+        if (restDay === undefined || !workingDays.has(restDay)) break;
+
+        remediations.push(this.reassignRemediation(
+          `${violation.id}-rest-${restDay}`,
+          employee,
+          dayShifts(restDay),
+          [this.weeklyRestAction(employee, restDay)]
+        ));
+        break;
+      }
+
+      case 'max_daily_hours': {
+        const sameDay = dayShifts(violation.day);
+        const lastShift = sameDay[sameDay.length - 1];
+        if (!lastShift || !rules.maxDailyHours) break;
+
+        const totalMinutes = sameDay.reduce((total, shift) => total + this.calculateShiftHours(shift.start, shift.end) * 60, 0);
+        const excessMinutes = Math.ceil(totalMinutes - rules.maxDailyHours.limit * 60);
+        const [start, end] = toRange(lastShift.start, lastShift.end);
+        if (end - excessMinutes > start) {
+          remediations.push(this.updateRemediation(
+            `${violation.id}-shorten`,
+            `Terminer le service du ${this.getDayName(lastShift.day)} à ${toTime(end - excessMinutes)}`,
+            lastShift,
+            { end: toTime(end - excessMinutes) }
+          ));
+        }
+        remediations.push(this.reassignRemediation(`${violation.id}-reassign`, employee, [lastShift]));
+        break;
+      }
+
+      case 'max_weekly_hours':
+      case 'average_weekly_hours': {
+        const weeklyHours = this.calculateWeeklyWorkingHours(shifts);
+        let allowedHours = rules.maxWeeklyHours?.limit ?? weeklyHours;
+        if (violation.type === 'average_weekly_hours') {
+          const average = this.calculateAverageWeeklyHours(employee, pack);
+          if (!average || !rules.averageWeeklyHours) break;
+          allowedHours = rules.averageWeeklyHours.limit * average.weeks - average.previousWeeksHours;
+        }
+
+        // Smallest shift covering the excess, the longest one otherwise
+        const excess = weeklyHours - allowedHours;
+        const byDuration = [...workingShifts].sort((a, b) =>
+          this.calculateShiftHours(a.start, a.end) - this.calculateShiftHours(b.start, b.end)
+        );
+        const shift = byDuration.find(s => this.calculateShiftHours(s.start, s.end) >= excess) ?? byDuration[byDuration.length - 1];
+        if (shift) {
+          remediations.push(this.reassignRemediation(`${violation.id}-reassign`, employee, [shift]));
+        }
+        break;
+      }
+
+      case 'continuous_work': {
+        const [shift] = affected;
+        if (!shift || !rules.maxContinuousHours) break;
+
+        const newEnd = toMinutes(shift.start) + rules.maxContinuousHours.limit * 60;
+        remediations.push(this.updateRemediation(
+          `${violation.id}-shorten`,
+          `Terminer le service du ${this.getDayName(shift.day)} à ${toTime(newEnd)}`,
+          shift,
+          { end: toTime(newEnd) }
+        ));
+        remediations.push(this.reassignRemediation(`${violation.id}-reassign`, employee, [shift]));
+        break;
+      }
+
+      case 'night_work': {
+        const [shift] = affected;
+        if (!shift || !rules.nightWork) break;
+
+        const [start, end] = toRange(shift.start, shift.end);
+        const nightStart = toMinutes(rules.nightWork.start);
+        const nightEnd = toRange(rules.nightWork.start, rules.nightWork.end)[1] - MINUTES_PER_DAY;
+        if (start < nightStart && start >= nightEnd) {
+          remediations.push(this.updateRemediation(
+            `${violation.id}-end-earlier`,
+            `Terminer le service du ${this.getDayName(shift.day)} à ${rules.nightWork.start}`,
+            shift,
+            { end: rules.nightWork.start }
+          ));
+        } else if (start < nightEnd && end > nightEnd) {
+          remediations.push(this.updateRemediation(
+            `${violation.id}-delay`,
+            `Décaler le début du service du ${this.getDayName(shift.day)} à ${rules.nightWork.end}`,
+            shift,
+            { start: rules.nightWork.end }
+          ));
+        }
+        remediations.push(this.reassignRemediation(`${violation.id}-reassign`, employee, [shift]));
+        break;
+      }
+
+      case 'contract_period':
+        remediations.push(this.reassignRemediation(`${violation.id}-reassign`, employee, affected));
+        break;
+    }
+
+    return remediations.filter((remediation): remediation is ComplianceRemediation => remediation !== null);
+  }
+
+  private updateRemediation(
+    id: string,
+    label: string,
+    shift: Shift,
+    changes: Partial<Pick<Shift, 'start' | 'end'>>
+  ): ComplianceRemediation {
+    return { id, label, actions: [{ type: 'update_shift', shiftId: shift.id, changes }] };
+  }
+
+  // CRITICAL: Hand shifts over to a colleague of the same position who stays compliant with them
+  private reassignRemediation(
+    id: string,
+    employee: Employee,
+    movedShifts: Shift[],
+    extraActions: RemediationAction[] = []
+  ): ComplianceRemediation | null {
+    if (movedShifts.length === 0) return null;
+
+    const replacement = this.findReplacementEmployee(employee, movedShifts);
+    if (!replacement) return null;
+
+    const [firstShift] = movedShifts;
+    return {
+      id,
+      label: `Confier le${movedShifts.length > 1 ? 's services' : ' service'} du ${this.getDayName(firstShift.day)} (${movedShifts.map(shift => `${shift.start}-${shift.end}`).join(', ')}) à ${replacement.firstName} ${replacement.lastName}`,
+      actions: [
+        ...movedShifts.map(shift => ({
+          type: 'update_shift' as const,
+          shiftId: shift.id,
+          changes: { employeeId: replacement.id }
+        })),
+        ...extraActions
+      ]
+    };
+  }
+
+  // Eligible colleague with the most room left in their contract
+  private findReplacementEmployee(employee: Employee, movedShifts: Shift[]): Employee | null {
+    const days = new Set(movedShifts.map(shift => shift.day));
+    const position = movedShifts[0].position;
+
+    const candidates = this.employees
+      .filter(candidate => candidate.id !== employee.id && candidate.position === position)
+      .filter(candidate => movedShifts.every(shift => {
+        const shiftDate = addDays(this.weekStartDate, shift.day);
+        return shiftDate >= parseISO(candidate.startDate) && (!candidate.endDate || shiftDate <= parseISO(candidate.endDate));
+      }))
+      .map(candidate => {
+        const candidateShifts = this.getEmployeeShiftsForWeek(candidate.id);
+        return {
+          candidate,
+          candidateShifts,
+          nextShifts: [...candidateShifts, ...movedShifts.map(shift => ({ ...shift, employeeId: candidate.id }))]
+        };
+      })
+      .filter(({ candidateShifts }) => !candidateShifts.some(shift => days.has(shift.day)))
+      .filter(({ candidate, nextShifts }) => {
+        const candidatePack = resolveRulePack(candidate, this.restaurantRulePackId, this.weekStartDate);
+        return [
+          this.validateDailyRestBetweenWorkdays(candidate, nextShifts, candidatePack),
+          this.validateMaximumDailyHours(candidate, nextShifts, candidatePack),
+          this.validateMaximumWeeklyHours(candidate, nextShifts, candidatePack),
+          this.validateConsecutiveWorkingDays(candidate, nextShifts, candidatePack),
+          this.validateContinuousWork(candidate, nextShifts, candidatePack),
+          this.validateNightWork(candidate, nextShifts, candidatePack)
+        ].every(violations => violations.length === 0);
+      })
+      .map(({ candidate, nextShifts }) => ({
+        candidate,
+        load: this.calculateWeeklyWorkingHours(nextShifts) / (candidate.weeklyHours || 35)
+      }))
+      .sort((a, b) => a.load - b.load);
+
+    return candidates[0]?.candidate ?? null;
+  }
+
+  private weeklyRestAction(employee: Employee, day: number): RemediationAction {
+    return {
+      type: 'add_shift',
+      shift: {
+        restaurantId: employee.restaurantId,
+        employeeId: employee.id,
+        day,
+        start: '',
+        end: '',
+        position: employee.position,
+        type: 'morning',
+        status: 'WEEKLY_REST',
+        weekStartDate: format(this.weekStartDate, 'yyyy-MM-dd')
+      }
+    };
+  }
+
+  // First day exceeding the consecutive days limit within the week
+  private getStreakBreakDay(workingDays: Set<number>, maxConsecutiveDays: number): number | undefined {
+    let streak = 0;
+    for (let day = 0; day < 7; day++) {
+      streak = workingDays.has(day) ? streak + 1 : 0;
+      if (streak > maxConsecutiveDays) return day;
+    }
+    return undefined;
+  }
+
   private getEmployeeShiftsForWeek(employeeId: string): Shift[] {
     return this.shifts.filter(shift => shift.employeeId === employeeId);
   }
 
-  private parseShiftDateTime(day: number, time: string): Date {
-    const shiftDate = addDays(this.weekStartDate, day);
+  private parseShiftDateTime(day: number, time: string, weekStartDate: Date = this.weekStartDate): Date {
+    const shiftDate = addDays(weekStartDate, day);
     
     // Validate time string format and extract hours/minutes
     if (!time || typeof time !== 'string' || !time.includes(':')) {
@@ -638,6 +1290,23 @@ export class FrenchLaborLawValidator {
 }
 
 // CRITICAL: Export utility functions for UI integration
+// CRITICAL: Schedule resulting from a remediation, used for the preview before applying it.
+// Added shifts get a temporary id since addShift assigns the real one.
+export const applyRemediation = (shifts: Shift[], remediation: ComplianceRemediation): Shift[] => {
+  const updated = shifts.map(shift =>
+    remediation.actions.reduce(
+      (current, action) => (action.type === 'update_shift' && action.shiftId === shift.id ? { ...current, ...action.changes } : current),
+      shift
+    )
+  );
+
+  const added = remediation.actions
+    .filter((action): action is Extract<RemediationAction, { type: 'add_shift' }> => action.type === 'add_shift')
+    .map((action, index) => ({ ...action.shift, id: `${remediation.id}-${index}` }));
+
+  return [...updated, ...added];
+};
+
 export const formatViolationMessage = (violation: LaborLawViolation): string => {
   return `⚠️ ${violation.message}`;
 };
@@ -0,0 +1,31 @@
+// CRITICAL: Labor-law rule packs - thresholds live in src/data/laborRulePacks, this module only selects them
+import { differenceInYears, parseISO } from 'date-fns';
+import { Employee, LaborRulePack } from '../types';
+import frHcr from '../data/laborRulePacks/fr-hcr.json';
+import frMinors from '../data/laborRulePacks/fr-minors.json';
+import euWtd from '../data/laborRulePacks/eu-wtd.json';
+
+export const DEFAULT_RULE_PACK_ID = 'fr-hcr';
+
+export const LABOR_RULE_PACKS: LaborRulePack[] = [frHcr, frMinors, euWtd];
+
+export const getRulePack = (packId?: string): LaborRulePack =>
+  LABOR_RULE_PACKS.find(pack => pack.id === packId) ??
+  LABOR_RULE_PACKS.find(pack => pack.id === DEFAULT_RULE_PACK_ID)!;
+
+export const isMinor = (employee: Employee, onDate: Date): boolean =>
+  !!employee.dateOfBirth && differenceInYears(onDate, parseISO(employee.dateOfBirth)) < 18;
+
+/**
+ * Pack that applies to an employee on a given date: the employee's own pack, otherwise the
+ * restaurant's pack, replaced by its minors pack while the employee is under 18
+ */
+export const resolveRulePack = (employee: Employee, restaurantPackId: string | undefined, onDate: Date): LaborRulePack => {
+  if (employee.laborRulePackId) return getRulePack(employee.laborRulePackId);
+
+  const restaurantPack = getRulePack(restaurantPackId);
+  if (restaurantPack.minorsPackId && isMinor(employee, onDate)) {
+    return getRulePack(restaurantPack.minorsPackId);
+  }
+  return restaurantPack;
+};
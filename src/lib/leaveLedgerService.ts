@@ -0,0 +1,192 @@
+// CRITICAL: Leave ledger - paid leave (CP) accrued per month worked and debited by the CP days of the schedule
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  parseISO,
+  startOfMonth
+} from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Employee, LeaveBalance, LeaveLedgerEntry, LeaveLedgerLine, Schedule } from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+// Code du travail L3141-3: 2.5 working days (jours ouvrables) per month, 30 per reference period
+export const CP_DAYS_PER_MONTH = 2.5;
+export const CP_DAYS_PER_PERIOD = 30;
+
+// The reference period runs from June 1st to May 31st
+const REFERENCE_PERIOD_START_MONTH = 5;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const getReferencePeriod = (date: Date): { start: Date; end: Date } => {
+  const year = date.getMonth() >= REFERENCE_PERIOD_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  const start = new Date(year, REFERENCE_PERIOD_START_MONTH, 1);
+  return { start, end: addDays(addMonths(start, 12), -1) };
+};
+
+/**
+ * CP days of the employee in the schedules, one per date. Sundays are not working days
+ * (jours ouvrables) and are never debited.
+ */
+export const getCpDates = (employeeId: string, schedules: Schedule[]): string[] => {
+  const dates = new Set<string>();
+
+  schedules.forEach(schedule => {
+    schedule.shifts.forEach(shift => {
+      if (shift.employeeId !== employeeId || shift.status !== 'CP') return;
+
+      const date = addDays(parseISO(schedule.weekStartDate), shift.day);
+      if (date.getDay() === 0) return;
+      dates.add(format(date, 'yyyy-MM-dd'));
+    });
+  });
+
+  return [...dates].sort();
+};
+
+/**
+ * Balances of an employee on a date. CP is credited at the end of each month of the contract
+ * (prorated for a partial month, capped per reference period) and debited by every CP day placed
+ * in the schedule, future ones included, so that planning a leave shows its effect at once.
+ */
+export const computeLeaveBalance = (
+  employee: Pick<Employee, 'id' | 'startDate' | 'endDate'>,
+  schedules: Schedule[],
+  entries: LeaveLedgerEntry[],
+  asOf: Date = new Date()
+): LeaveBalance => {
+  const lines: LeaveLedgerLine[] = [];
+  const referencePeriod = getReferencePeriod(asOf);
+  const referenceStart = format(referencePeriod.start, 'yyyy-MM-dd');
+  const contractStart = parseISO(employee.startDate);
+  const contractEnd = employee.endDate ? parseISO(employee.endDate) : null;
+  const earnedByPeriod = new Map<string, number>();
+
+  for (let month = startOfMonth(contractStart); endOfMonth(month) <= asOf; month = addMonths(month, 1)) {
+    if (contractEnd && month > contractEnd) break;
+
+    const monthEnd = endOfMonth(month);
+    const from = contractStart > month ? contractStart : month;
+    const to = contractEnd && contractEnd < monthEnd ? contractEnd : monthEnd;
+    const periodKey = format(getReferencePeriod(month).start, 'yyyy-MM-dd');
+    const earned = earnedByPeriod.get(periodKey) ?? 0;
+    const amount = round2(Math.min(
+      CP_DAYS_PER_MONTH * (differenceInCalendarDays(to, from) + 1) / getDaysInMonth(month),
+      CP_DAYS_PER_PERIOD - earned
+    ));
+    if (amount <= 0) continue;
+
+    earnedByPeriod.set(periodKey, earned + amount);
+    lines.push({ date: format(monthEnd, 'yyyy-MM-dd'), counter: 'CP', source: 'accrual', amount });
+  }
+
+  getCpDates(employee.id, schedules).forEach(date => {
+    lines.push({ date, counter: 'CP', source: 'taken', amount: -1 });
+  });
+
+  entries
+    .filter(entry => entry.employeeId === employee.id)
+    .forEach(entry => {
+      lines.push({ date: entry.date, counter: entry.counter, source: 'manual', amount: entry.amount, reason: entry.reason });
+    });
+
+  lines.sort((a, b) => a.date.localeCompare(b.date));
+
+  const sum = (filter: (line: LeaveLedgerLine) => boolean) =>
+    round2(lines.filter(filter).reduce((total, line) => total + line.amount, 0));
+
+  const cpAcquired = sum(line => line.source === 'accrual' && line.date < referenceStart);
+  const cpAccruing = sum(line => line.source === 'accrual' && line.date >= referenceStart);
+  const cpTaken = -sum(line => line.source === 'taken');
+  const cpAdjustments = sum(line => line.source === 'manual' && line.counter === 'CP');
+
+  return {
+    referencePeriodStart: referenceStart,
+    referencePeriodEnd: format(referencePeriod.end, 'yyyy-MM-dd'),
+    cpAcquired,
+    cpAccruing,
+    cpTaken,
+    cpAdjustments,
+    cpBalance: round2(cpAcquired + cpAccruing + cpAdjustments - cpTaken),
+    rttBalance: sum(line => line.counter === 'RTT'),
+    reposCompensateurBalance: sum(line => line.counter === 'REPOS_COMPENSATEUR'),
+    lines
+  };
+};
+
+export class LeaveLedgerService {
+  private static instance: LeaveLedgerService;
+
+  private constructor() {}
+
+  public static getInstance(): LeaveLedgerService {
+    if (!LeaveLedgerService.instance) {
+      LeaveLedgerService.instance = new LeaveLedgerService();
+    }
+    return LeaveLedgerService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) entries are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `leaveLedger_${restaurantId}`;
+  }
+
+  private loadLocal(restaurantId: string): LeaveLedgerEntry[] {
+    try {
+      const saved = localStorage.getItem(this.getStorageKey(restaurantId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local leave ledger:', error);
+      return [];
+    }
+  }
+
+  async fetchEntries(restaurantId: string, employeeId: string): Promise<LeaveLedgerEntry[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchLeaveLedgerEntries(employeeId);
+    }
+
+    return this.loadLocal(restaurantId).filter(entry => entry.employeeId === employeeId);
+  }
+
+  async addEntry(
+    entry: Pick<LeaveLedgerEntry, 'restaurantId' | 'employeeId' | 'counter' | 'date' | 'amount' | 'reason'>,
+    userId?: string
+  ): Promise<LeaveLedgerEntry> {
+    if (!entry.reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    if (!Number.isFinite(entry.amount) || entry.amount === 0) {
+      throw new Error('The amount cannot be zero');
+    }
+
+    const created: LeaveLedgerEntry = {
+      ...entry,
+      id: uuidv4(),
+      amount: round2(entry.amount),
+      reason: entry.reason.trim(),
+      createdBy: userId,
+      createdAt: new Date().toISOString()
+    };
+
+    if (isSupabaseConfigured) {
+      await dataService.insertLeaveLedgerEntry(created);
+    } else {
+      localStorage.setItem(
+        this.getStorageKey(entry.restaurantId),
+        JSON.stringify([...this.loadLocal(entry.restaurantId), created])
+      );
+    }
+
+    console.log('📝 Leave ledger entry added:', { employeeId: entry.employeeId, counter: entry.counter, amount: created.amount });
+    return created;
+  }
+}
+
+// Export singleton instance
+export const leaveLedgerService = LeaveLedgerService.getInstance();
@@ -0,0 +1,175 @@
+// CRITICAL: Leave request service - time off asked from the employee portal and reviewed by a manager
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { DailyStatus, LeaveRequest, LeaveRequestStatus, LeaveRequestType, Schedule, Shift } from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+export type LeaveRequestAction = 'approved' | 'rejected' | 'cancelled';
+
+// A request longer than this is an HR matter, not a portal request
+export const MAX_LEAVE_REQUEST_DAYS = 62;
+
+// Only a pending request can be reviewed or withdrawn
+const TRANSITIONS: Record<LeaveRequestAction, { from: LeaveRequestStatus[]; to: LeaveRequestStatus }> = {
+  approved: { from: ['pending'], to: 'approved' },
+  rejected: { from: ['pending'], to: 'rejected' },
+  cancelled: { from: ['pending'], to: 'cancelled' }
+};
+
+// Daily status written to the schedule for each day of an approved request
+export const LEAVE_REQUEST_DAILY_STATUS: Record<Exclude<LeaveRequestType, 'UNAVAILABLE'>, DailyStatus> = {
+  CP: 'CP',
+  ABSENCE: 'ABSENCE'
+};
+
+export interface LeaveRequestConflict {
+  date: string; // yyyy-MM-dd
+  shift: Shift;
+}
+
+// Every date of the request, yyyy-MM-dd, end date included
+export const getLeaveRequestDates = (request: Pick<LeaveRequest, 'startDate' | 'endDate'>): string[] => {
+  const start = parseISO(request.startDate);
+  const length = differenceInCalendarDays(parseISO(request.endDate), start) + 1;
+  return Array.from({ length: Math.max(length, 0) }, (_, index) => format(addDays(start, index), 'yyyy-MM-dd'));
+};
+
+/**
+ * Shifts already scheduled for the employee on the requested dates. Approving the request
+ * replaces them, so the manager sees which services lose someone before deciding.
+ */
+export const getLeaveRequestConflicts = (
+  request: Pick<LeaveRequest, 'restaurantId' | 'employeeId' | 'startDate' | 'endDate'>,
+  schedules: Schedule[]
+): LeaveRequestConflict[] => {
+  const dates = new Set(getLeaveRequestDates(request));
+  const conflicts: LeaveRequestConflict[] = [];
+
+  schedules
+    .filter(schedule => schedule.restaurantId === request.restaurantId)
+    .forEach(schedule => {
+      schedule.shifts.forEach(shift => {
+        if (shift.employeeId !== request.employeeId || shift.status) return;
+
+        const date = format(addDays(parseISO(schedule.weekStartDate), shift.day), 'yyyy-MM-dd');
+        if (dates.has(date)) {
+          conflicts.push({ date, shift });
+        }
+      });
+    });
+
+  return conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.shift.start.localeCompare(b.shift.start));
+};
+
+export class LeaveRequestService {
+  private static instance: LeaveRequestService;
+
+  private constructor() {}
+
+  public static getInstance(): LeaveRequestService {
+    if (!LeaveRequestService.instance) {
+      LeaveRequestService.instance = new LeaveRequestService();
+    }
+    return LeaveRequestService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) requests are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `leaveRequests_${restaurantId}`;
+  }
+
+  private loadLocal(restaurantId: string): LeaveRequest[] {
+    try {
+      const saved = localStorage.getItem(this.getStorageKey(restaurantId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local leave requests:', error);
+      return [];
+    }
+  }
+
+  private async save(request: LeaveRequest): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.upsertLeaveRequest(request);
+      return;
+    }
+
+    const requests = this.loadLocal(request.restaurantId).filter(r => r.id !== request.id);
+    localStorage.setItem(this.getStorageKey(request.restaurantId), JSON.stringify([...requests, request]));
+  }
+
+  async fetchRequests(restaurantIds: string[]): Promise<LeaveRequest[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchLeaveRequests(restaurantIds);
+    }
+
+    return restaurantIds
+      .flatMap(restaurantId => this.loadLocal(restaurantId))
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async submit(
+    request: Pick<LeaveRequest, 'restaurantId' | 'employeeId' | 'type' | 'startDate' | 'endDate' | 'reason'>,
+    userId?: string
+  ): Promise<LeaveRequest> {
+    const length = getLeaveRequestDates(request).length;
+    if (length === 0) {
+      throw new Error('The end date cannot be before the start date');
+    }
+    if (length > MAX_LEAVE_REQUEST_DAYS) {
+      throw new Error(`A request cannot exceed ${MAX_LEAVE_REQUEST_DAYS} days`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const created: LeaveRequest = {
+      ...request,
+      id: uuidv4(),
+      reason: request.reason?.trim() || undefined,
+      status: 'pending',
+      requestedBy: userId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    await this.save(created);
+    console.log('📝 Leave request submitted:', { employeeId: request.employeeId, type: request.type, days: length });
+    return created;
+  }
+
+  // CRITICAL: A rejection must say why - the comment is what the employee sees on the portal
+  async transition(
+    request: LeaveRequest,
+    action: LeaveRequestAction,
+    options: { comment?: string; userId?: string } = {}
+  ): Promise<LeaveRequest> {
+    const { from, to } = TRANSITIONS[action];
+    if (!from.includes(request.status)) {
+      throw new Error(`Leave request is ${request.status}, expected ${from.join(' or ')}`);
+    }
+
+    const comment = options.comment?.trim();
+    if (action === 'rejected' && !comment) {
+      throw new Error('A comment is required to reject a request');
+    }
+
+    const timestamp = new Date().toISOString();
+    const updated: LeaveRequest = action === 'cancelled'
+      ? { ...request, status: to, updatedAt: timestamp }
+      : {
+          ...request,
+          status: to,
+          managerComment: comment || undefined,
+          reviewedBy: options.userId,
+          reviewedAt: timestamp,
+          updatedAt: timestamp
+        };
+
+    await this.save(updated);
+    console.log(`✅ Leave request ${action}:`, { id: request.id, employeeId: request.employeeId });
+    return updated;
+  }
+}
+
+// Export singleton instance
+export const leaveRequestService = LeaveRequestService.getInstance();
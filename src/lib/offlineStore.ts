@@ -0,0 +1,173 @@
+// CRITICAL: Durable IndexedDB storage for changes that have not reached the server yet
+const DB_NAME = 'kollab-offline';
+const DB_VERSION = 2;
+
+export type OfflineStoreName = 'scheduleOperations' | 'autoSaveChanges' | 'kioskPunches' | 'kioskAuthEvents';
+
+const STORE_KEYS: Record<OfflineStoreName, IDBObjectStoreParameters> = {
+  // Auto-incremented sequence number gives the replay order of the operation log
+  scheduleOperations: { keyPath: 'seq', autoIncrement: true },
+  autoSaveChanges: { keyPath: 'key' },
+  // Kiosk tablets: punches and identification attempts waiting for the server
+  kioskPunches: { keyPath: 'id' },
+  kioskAuthEvents: { keyPath: 'id' }
+};
+
+export class OfflineStore {
+  private static instance: OfflineStore;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private durable = typeof indexedDB !== 'undefined';
+  // In-memory fallback when IndexedDB is unavailable (private browsing, old browsers)
+  private memoryStores: Map<OfflineStoreName, Map<IDBValidKey, unknown>> = new Map();
+  private memorySequence = 0;
+
+  private constructor() {}
+
+  public static getInstance(): OfflineStore {
+    if (!OfflineStore.instance) {
+      OfflineStore.instance = new OfflineStore();
+    }
+    return OfflineStore.instance;
+  }
+
+  /**
+   * Whether changes survive a tab crash or reload
+   */
+  public isDurable(): boolean {
+    return this.durable;
+  }
+
+  /**
+   * Insert or replace a record. Returns the record key (the generated
+   * sequence number for auto-incremented stores).
+   */
+  public async put<T extends object>(storeName: OfflineStoreName, value: T): Promise<IDBValidKey> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return this.memoryPut(storeName, value);
+    }
+
+    return this.runRequest(db, storeName, 'readwrite', store => store.put(value));
+  }
+
+  /**
+   * Return all records of a store ordered by key
+   */
+  public async getAll<T>(storeName: OfflineStoreName): Promise<T[]> {
+    const db = await this.openDatabase();
+    if (!db) {
+      const store = this.getMemoryStore(storeName);
+      return Array.from(store.entries())
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([, value]) => value as T);
+    }
+
+    return this.runRequest(db, storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+  }
+
+  public async count(storeName: OfflineStoreName): Promise<number> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return this.getMemoryStore(storeName).size;
+    }
+
+    return this.runRequest(db, storeName, 'readonly', store => store.count());
+  }
+
+  public async delete(storeName: OfflineStoreName, key: IDBValidKey): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      this.getMemoryStore(storeName).delete(key);
+      return;
+    }
+
+    await this.runRequest(db, storeName, 'readwrite', store => store.delete(key));
+  }
+
+  public async clear(storeName: OfflineStoreName): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      this.getMemoryStore(storeName).clear();
+      return;
+    }
+
+    await this.runRequest(db, storeName, 'readwrite', store => store.clear());
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.durable) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          (Object.keys(STORE_KEYS) as OfflineStoreName[]).forEach(storeName => {
+            if (!db.objectStoreNames.contains(storeName)) {
+              db.createObjectStore(storeName, STORE_KEYS[storeName]);
+            }
+          });
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        console.error('❌ IndexedDB unavailable, falling back to memory storage:', error);
+        this.durable = false;
+        return null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private runRequest<R>(
+    db: IDBDatabase,
+    storeName: OfflineStoreName,
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = createRequest(transaction.objectStore(storeName));
+      let result: R;
+
+      request.onsuccess = () => {
+        result = request.result;
+      };
+      // Resolve on commit so callers never observe a write that could still be lost
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private memoryPut(storeName: OfflineStoreName, value: object): IDBValidKey {
+    const store = this.getMemoryStore(storeName);
+    const keyPath = STORE_KEYS[storeName].keyPath as string;
+    const record = value as Record<string, unknown>;
+
+    if (record[keyPath] === undefined && STORE_KEYS[storeName].autoIncrement) {
+      record[keyPath] = ++this.memorySequence;
+    }
+
+    const key = record[keyPath] as IDBValidKey;
+    store.set(key, record);
+    return key;
+  }
+
+  private getMemoryStore(storeName: OfflineStoreName): Map<IDBValidKey, unknown> {
+    let store = this.memoryStores.get(storeName);
+    if (!store) {
+      store = new Map();
+      this.memoryStores.set(storeName, store);
+    }
+    return store;
+  }
+}
+
+// Export singleton instance
+export const offlineStore = OfflineStore.getInstance();
@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, format, parseISO } from 'date-fns';
+import { Employee } from '../types';
+import { computePayroll, PayrollWorkDay } from './payrollEngine';
+
+const makeEmployee = (overrides: Partial<Employee> = {}): Employee => ({
+  id: 'employee-1',
+  restaurantId: 'restaurant-1',
+  firstName: 'Camille',
+  lastName: 'Martin',
+  streetAddress: '1 rue de la Paix',
+  city: 'Paris',
+  postalCode: '75002',
+  phone: '0600000000',
+  contractType: 'CDI',
+  startDate: '2024-01-01',
+  endDate: null,
+  position: 'Commis de Cuisine',
+  category: 'Cuisine',
+  weeklyHours: 35,
+  hourlyRate: 10,
+  ...overrides
+});
+
+// Consecutive days from `from`, each worked `hours` without times
+const workDays = (from: string, hours: number[]): PayrollWorkDay[] =>
+  hours.map((dayHours, index) => ({ date: format(addDays(parseISO(from), index), 'yyyy-MM-dd'), hours: dayHours }));
+
+describe('computePayroll', () => {
+  describe('weekly overtime bands', () => {
+    it('splits a 45h week into 35h regular, 4h at 110%, 4h at 125% and 2h at 150%', () => {
+      const result = computePayroll(workDays('2025-03-03', [9, 9, 9, 9, 9]), makeEmployee());
+
+      expect(result.regularHours).toBe(35);
+      expect(result.complementaryHours).toBe(0);
+      expect(result.overtime110Hours).toBe(4);
+      expect(result.overtime125Hours).toBe(4);
+      expect(result.overtime150Hours).toBe(2);
+      expect(result.overtimeHours).toBe(10);
+      expect(result.overtime110Premium).toBe(4);
+      expect(result.overtime125Premium).toBe(10);
+      expect(result.overtime150Premium).toBe(10);
+      expect(result.basePay).toBe(450);
+    });
+
+    it('starts the bands again every Monday', () => {
+      const result = computePayroll(workDays('2025-03-03', [9, 9, 9, 9, 0, 0, 0, 9, 9, 9, 9]), makeEmployee());
+
+      expect(result.workedHours).toBe(72);
+      expect(result.overtime110Hours).toBe(2);
+      expect(result.overtime125Hours).toBe(0);
+    });
+
+    it('counts the days of the previous month toward the thresholds of a split week', () => {
+      // Monday 31 March to Friday 4 April 2025, 10h a day
+      const days = workDays('2025-03-31', [10, 10, 10, 10, 10]);
+      const employee = makeEmployee();
+
+      const march = computePayroll(days, employee, { from: '2025-03-01', to: '2025-03-31' });
+      const april = computePayroll(days, employee, { from: '2025-04-01', to: '2025-04-30' });
+
+      expect(march.workedHours).toBe(10);
+      expect(march.regularHours).toBe(10);
+      expect(march.overtimeHours).toBe(0);
+
+      expect(april.workedHours).toBe(40);
+      expect(april.regularHours).toBe(25);
+      expect(april.overtime110Hours).toBe(4);
+      expect(april.overtime125Hours).toBe(4);
+      expect(april.overtime150Hours).toBe(7);
+    });
+  });
+
+  describe('part-time complementary hours', () => {
+    it('pays the hours between the contract and 35h as complementary hours', () => {
+      const result = computePayroll(workDays('2025-03-03', [6, 6, 6, 6, 6]), makeEmployee({ weeklyHours: 24 }));
+
+      expect(result.regularHours).toBe(24);
+      expect(result.complementaryHours).toBe(6);
+      expect(result.complementaryPremium).toBe(6);
+      expect(result.overtimeHours).toBe(0);
+    });
+
+    it('switches to overtime above 35h', () => {
+      const result = computePayroll(workDays('2025-03-03', [8, 8, 8, 8, 5]), makeEmployee({ weeklyHours: 24 }));
+
+      expect(result.regularHours).toBe(24);
+      expect(result.complementaryHours).toBe(11);
+      expect(result.overtime110Hours).toBe(2);
+    });
+
+    it('has no complementary hours for a full-time contract', () => {
+      const result = computePayroll(workDays('2025-03-03', [7, 7, 7, 7, 7]), makeEmployee());
+
+      expect(result.regularHours).toBe(35);
+      expect(result.complementaryHours).toBe(0);
+    });
+  });
+
+  describe('public holidays', () => {
+    it('pays the hours worked on a public holiday with the holiday premium', () => {
+      const result = computePayroll([{ date: '2025-07-14', hours: 8 }], makeEmployee());
+
+      expect(result.holidayHours).toBe(8);
+      expect(result.holidayPremium).toBe(80);
+      expect(result.workedHolidayDates).toEqual(['2025-07-14']);
+    });
+
+    it('honours a day flagged as worked holiday outside the calendar', () => {
+      const result = computePayroll([{ date: '2025-03-04', hours: 5, isHolidayWorked: true }], makeEmployee());
+
+      expect(result.holidayHours).toBe(5);
+    });
+
+    it('uses the Alsace-Moselle calendar when asked', () => {
+      // St Stephen's Day
+      const days = [{ date: '2025-12-26', hours: 6 }];
+
+      expect(computePayroll(days, makeEmployee()).holidayHours).toBe(0);
+      expect(computePayroll(days, makeEmployee(), { holidayRegion: 'alsace-moselle' }).holidayHours).toBe(6);
+    });
+  });
+
+  describe('night work', () => {
+    it('counts the night hours of a service running past midnight', () => {
+      const result = computePayroll(
+        [{ date: '2025-03-07', hours: 6, periods: [{ start: '20:00', end: '02:00' }] }],
+        makeEmployee()
+      );
+
+      expect(result.nightHours).toBe(4);
+      expect(result.nightPremium).toBe(4);
+    });
+
+    it('counts the early morning hours before 07:00', () => {
+      const result = computePayroll(
+        [{ date: '2025-03-07', hours: 4, periods: [{ start: '05:00', end: '09:00' }] }],
+        makeEmployee()
+      );
+
+      expect(result.nightHours).toBe(2);
+    });
+
+    it('has no night hours for a day service', () => {
+      const result = computePayroll(
+        [{ date: '2025-03-07', hours: 8, periods: [{ start: '09:00', end: '17:00' }] }],
+        makeEmployee()
+      );
+
+      expect(result.nightHours).toBe(0);
+    });
+  });
+
+  describe('coupure and meals', () => {
+    it('gives a coupure indemnity and two meals for a split lunch and dinner service', () => {
+      const result = computePayroll(
+        [{
+          date: '2025-03-07',
+          hours: 9,
+          periods: [{ start: '10:00', end: '14:30' }, { start: '18:30', end: '23:00' }]
+        }],
+        makeEmployee()
+      );
+
+      expect(result.coupureDays).toBe(1);
+      expect(result.coupureIndemnity).toBe(4.22);
+      expect(result.meals).toBe(2);
+      expect(result.mealBenefit).toBe(8.44);
+      expect(result.nightHours).toBe(1);
+    });
+
+    it('does not count a break shorter than the minimum as a coupure', () => {
+      const result = computePayroll(
+        [{
+          date: '2025-03-07',
+          hours: 8,
+          periods: [{ start: '09:00', end: '13:00' }, { start: '13:30', end: '17:30' }]
+        }],
+        makeEmployee()
+      );
+
+      expect(result.coupureDays).toBe(0);
+      expect(result.meals).toBe(1);
+    });
+
+    it('gives no meal when the service barely touches a meal window', () => {
+      const result = computePayroll(
+        [{ date: '2025-03-07', hours: 4.75, periods: [{ start: '14:00', end: '18:45' }] }],
+        makeEmployee()
+      );
+
+      expect(result.meals).toBe(0);
+    });
+
+    it('gives one meal to a worked day without times', () => {
+      const result = computePayroll([{ date: '2025-03-07', hours: 7 }], makeEmployee());
+
+      expect(result.meals).toBe(1);
+    });
+  });
+
+  describe('absence statuses', () => {
+    const employee = makeEmployee({ weeklyHours: 36 });
+    const absence = (date: string, status: PayrollWorkDay['status']): PayrollWorkDay => ({ date, hours: 0, status });
+
+    it('pays paid leave and public holidays off at the daily contract hours', () => {
+      const result = computePayroll([absence('2025-03-03', 'CP'), absence('2025-05-01', 'PUBLIC_HOLIDAY')], employee);
+
+      expect(result.paidLeaveHours).toBe(6);
+      expect(result.publicHolidayHours).toBe(6);
+      expect(result.basePay).toBe(120);
+      expect(result.absenceHours).toBe(0);
+    });
+
+    it('leaves sickness, work accidents and absences unpaid by the employer', () => {
+      const result = computePayroll(
+        [absence('2025-03-03', 'SICK_LEAVE'), absence('2025-03-04', 'ACCIDENT'), absence('2025-03-05', 'ABSENCE')],
+        employee
+      );
+
+      expect(result.absenceHours).toBe(18);
+      expect(result.basePay).toBe(0);
+      expect(result.days.map(day => day.status)).toEqual(['SICK_LEAVE', 'ACCIDENT', 'ABSENCE']);
+    });
+
+    it('ignores weekly rest days', () => {
+      const result = computePayroll([absence('2025-03-09', 'WEEKLY_REST')], employee);
+
+      expect(result.absenceHours).toBe(0);
+      expect(result.paidLeaveHours).toBe(0);
+      expect(result.grossPay).toBe(0);
+    });
+
+    it('does not count absence days toward the overtime thresholds', () => {
+      const result = computePayroll(
+        [absence('2025-03-03', 'CP'), ...workDays('2025-03-04', [9, 9, 9, 9, 9])],
+        makeEmployee()
+      );
+
+      expect(result.workedHours).toBe(45);
+      expect(result.overtimeHours).toBe(10);
+    });
+  });
+});
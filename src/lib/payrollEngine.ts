@@ -0,0 +1,383 @@
+// CRITICAL: Payroll engine - pure computation of paid hours, CHR majorations and benefits in kind.
+// No I/O: callers turn their schedule or timesheets into work days and the engine does the rest.
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { DailyStatus, Employee, HolidayRegion, Shift, TimesheetLine } from '../types';
+import { LABOR_LAW_CONSTANTS } from './laborLawValidation';
+import { getPublicHoliday } from './holidayCalendar';
+import { calculateTimeInHours } from './scheduleUtils';
+
+export interface PayrollRules {
+  weeklyThreshold110: number; // Hours above which overtime is paid 110%
+  weeklyThreshold125: number;
+  weeklyThreshold150: number;
+  complementaryPremiumRate: number; // Part-time hours between the contract and the first threshold
+  holidayPremiumRate: number; // Hours worked on a public holiday
+  nightStart: string;
+  nightEnd: string;
+  nightPremiumRate: number;
+  minCoupureMinutes: number; // Shortest break between two services that counts as a coupure
+  coupureIndemnity: number; // Per day with at least one coupure
+  mealWindows: { start: string; end: string }[];
+  mealBenefitValue: number; // Avantage nourriture, per meal
+  employerChargesRate: number; // Used for the cost estimates of the analytics
+}
+
+export const DEFAULT_PAYROLL_RULES: PayrollRules = {
+  weeklyThreshold110: LABOR_LAW_CONSTANTS.CHR_OVERTIME_THRESHOLD_110_PERCENT,
+  weeklyThreshold125: LABOR_LAW_CONSTANTS.CHR_OVERTIME_THRESHOLD_125_PERCENT,
+  weeklyThreshold150: LABOR_LAW_CONSTANTS.CHR_OVERTIME_THRESHOLD_150_PERCENT,
+  complementaryPremiumRate: 0.1,
+  holidayPremiumRate: 1,
+  nightStart: '22:00',
+  nightEnd: '07:00',
+  nightPremiumRate: 0.1,
+  minCoupureMinutes: LABOR_LAW_CONSTANTS.MINIMUM_COUPURE_DURATION_MINUTES,
+  coupureIndemnity: 4.22,
+  mealWindows: [
+    { start: '11:30', end: '14:00' },
+    { start: '18:30', end: '21:30' }
+  ],
+  mealBenefitValue: 4.22,
+  employerChargesRate: 0.42
+};
+
+// Hourly SMIC, used when nothing better is known about the employee's pay
+export const SMIC_HOURLY_RATE = 11.88;
+
+// Usual CHR rates by position, for employees without a rate or salary on file
+const POSITION_HOURLY_RATES: Record<string, number> = {
+  'Operations Manager': 25.00,
+  'Chef de Cuisine': 18.00,
+  'Second de Cuisine': 16.00,
+  'Chef de Partie': 14.50,
+  'Commis de Cuisine': 12.00,
+  'Plongeur': 11.50,
+  'Barman/Barmaid': 13.50,
+  'Waiter(s)': 12.50
+};
+
+// Worked time of a day as the engine sees it; several entries for one date are merged
+export interface PayrollWorkDay {
+  date: string; // yyyy-MM-dd
+  hours: number; // Paid hours worked
+  periods?: { start: string; end: string }[]; // When known: night work, coupures and meals come from them
+  status?: DailyStatus; // Absence day
+  isHolidayWorked?: boolean;
+}
+
+export interface PayrollDayResult {
+  date: string;
+  workedHours: number;
+  regularHours: number;
+  complementaryHours: number;
+  overtime110Hours: number;
+  overtime125Hours: number;
+  overtime150Hours: number;
+  holidayHours: number;
+  nightHours: number;
+  paidLeaveHours: number;
+  publicHolidayHours: number; // Public holiday off, paid at the base rate
+  absenceHours: number; // Unpaid by the employer (sickness, accident, absence)
+  status?: DailyStatus; // Absence of the day
+  hasCoupure: boolean;
+  meals: number;
+}
+
+export interface PayrollResult extends Omit<PayrollDayResult, 'date' | 'status' | 'hasCoupure'> {
+  hourlyRate: number;
+  overtimeHours: number;
+  coupureDays: number;
+  workedHolidayDates: string[];
+  basePay: number;
+  complementaryPremium: number;
+  overtime110Premium: number;
+  overtime125Premium: number;
+  overtime150Premium: number;
+  overtimePremium: number;
+  holidayPremium: number;
+  nightPremium: number;
+  coupureIndemnity: number;
+  mealBenefit: number;
+  grossPay: number;
+  days: PayrollDayResult[];
+}
+
+export interface PayrollOptions {
+  from?: string; // Only days in [from, to] are paid; earlier days of their weeks still count toward the thresholds
+  to?: string;
+  rules?: PayrollRules;
+  holidayRegion?: HolidayRegion;
+}
+
+const MEAL_MIN_OVERLAP_MINUTES = 30;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minute range of a period, overnight ends pushed to the next day
+const toRange = (start: string, end: string): [number, number] => {
+  const startMinutes = toMinutes(start);
+  let endMinutes = toMinutes(end);
+  if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+  return [startMinutes, endMinutes];
+};
+
+const overlap = ([start, end]: [number, number], [windowStart, windowEnd]: [number, number]): number =>
+  Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+
+export const getHourlyRate = (employee: Employee): number => {
+  if (employee.hourlyRate) return employee.hourlyRate;
+  if (employee.grossMonthlySalary && employee.weeklyHours) {
+    return round2(employee.grossMonthlySalary / (employee.weeklyHours * 52 / 12));
+  }
+  return POSITION_HOURLY_RATES[employee.position] ?? SMIC_HOURLY_RATE;
+};
+
+// Contract hours of an absence day, over the 6 working days of a CHR week
+export const getDailyContractHours = (employee: Employee): number => (employee.weeklyHours || 35) / 6;
+
+const mergeWorkDays = (days: PayrollWorkDay[]): PayrollWorkDay[] => {
+  const byDate = new Map<string, PayrollWorkDay>();
+  days.forEach(day => {
+    const existing = byDate.get(day.date);
+    if (!existing) {
+      byDate.set(day.date, { ...day, periods: [...(day.periods ?? [])] });
+      return;
+    }
+    existing.hours += day.hours;
+    existing.periods = [...(existing.periods ?? []), ...(day.periods ?? [])];
+    existing.status = existing.status ?? day.status;
+    existing.isHolidayWorked = existing.isHolidayWorked || day.isHolidayWorked;
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const getNightHours = (ranges: [number, number][], rules: PayrollRules): number => {
+  const [nightStart, nightEnd] = toRange(rules.nightStart, rules.nightEnd);
+  // The night before, the night of the day and the next one, for periods running past midnight
+  const windows: [number, number][] = [-1, 0, 1].map(offset => [nightStart + offset * 1440, nightEnd + offset * 1440]);
+  const minutes = ranges.reduce(
+    (sum, range) => sum + windows.reduce((windowSum, window) => windowSum + overlap(range, window), 0),
+    0
+  );
+  return minutes / 60;
+};
+
+const getMeals = (ranges: [number, number][], rules: PayrollRules): number =>
+  rules.mealWindows.filter(window => {
+    const windowRange = toRange(window.start, window.end);
+    return ranges.some(range => overlap(range, windowRange) >= MEAL_MIN_OVERLAP_MINUTES);
+  }).length;
+
+const hasCoupure = (ranges: [number, number][], rules: PayrollRules): boolean => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  return sorted.some((range, index) => index > 0 && range[0] - sorted[index - 1][1] >= rules.minCoupureMinutes);
+};
+
+/**
+ * Split the hours of a day between the weekly bands, given the hours already worked earlier in the
+ * week. Part-time employees get complementary hours between their contract and the first threshold.
+ */
+const splitWeeklyHours = (
+  hoursBefore: number,
+  hours: number,
+  contractHours: number,
+  rules: PayrollRules
+): Pick<PayrollDayResult, 'regularHours' | 'complementaryHours' | 'overtime110Hours' | 'overtime125Hours' | 'overtime150Hours'> => {
+  const regularLimit = Math.min(contractHours || rules.weeklyThreshold110, rules.weeklyThreshold110);
+  const band = (from: number, to: number) => Math.max(0, Math.min(hoursBefore + hours, to) - Math.max(hoursBefore, from));
+
+  return {
+    regularHours: band(0, regularLimit),
+    complementaryHours: band(regularLimit, rules.weeklyThreshold110),
+    overtime110Hours: band(rules.weeklyThreshold110, rules.weeklyThreshold125),
+    overtime125Hours: band(rules.weeklyThreshold125, rules.weeklyThreshold150),
+    overtime150Hours: band(rules.weeklyThreshold150, Infinity)
+  };
+};
+
+const computeDay = (
+  day: PayrollWorkDay,
+  hoursBefore: number,
+  employee: Employee,
+  rules: PayrollRules,
+  holidayRegion: HolidayRegion
+): PayrollDayResult => {
+  const result: PayrollDayResult = {
+    date: day.date,
+    workedHours: 0,
+    regularHours: 0,
+    complementaryHours: 0,
+    overtime110Hours: 0,
+    overtime125Hours: 0,
+    overtime150Hours: 0,
+    holidayHours: 0,
+    nightHours: 0,
+    paidLeaveHours: 0,
+    publicHolidayHours: 0,
+    absenceHours: 0,
+    hasCoupure: false,
+    meals: 0
+  };
+
+  if (day.hours <= 0) {
+    result.status = day.status;
+    if (day.status === 'CP') result.paidLeaveHours = getDailyContractHours(employee);
+    else if (day.status === 'PUBLIC_HOLIDAY') result.publicHolidayHours = getDailyContractHours(employee);
+    else if (day.status && day.status !== 'WEEKLY_REST') result.absenceHours = getDailyContractHours(employee);
+    return result;
+  }
+
+  const ranges = (day.periods ?? []).filter(period => period.start && period.end).map(period => toRange(period.start, period.end));
+  Object.assign(result, splitWeeklyHours(hoursBefore, day.hours, employee.weeklyHours, rules));
+  result.workedHours = day.hours;
+  if (day.isHolidayWorked || getPublicHoliday(parseISO(day.date), holidayRegion)) {
+    result.holidayHours = day.hours;
+  }
+  result.nightHours = Math.min(day.hours, getNightHours(ranges, rules));
+  result.hasCoupure = hasCoupure(ranges, rules);
+  // Without times, a worked day still gives the meal taken during the service
+  result.meals = ranges.length > 0 ? getMeals(ranges, rules) : 1;
+  return result;
+};
+
+/**
+ * Pay of one employee from their work days. Overtime is weekly (Monday to Sunday): each day takes
+ * the bands left after the earlier days of its week, so a month cut in the middle of a week still
+ * pays each hour at the right rate.
+ */
+export const computePayroll = (
+  workDays: PayrollWorkDay[],
+  employee: Employee,
+  options: PayrollOptions = {}
+): PayrollResult => {
+  const rules = options.rules ?? DEFAULT_PAYROLL_RULES;
+  const holidayRegion = options.holidayRegion ?? 'metropole';
+  const hourlyRate = getHourlyRate(employee);
+  const weekHours = new Map<string, number>();
+
+  const days = mergeWorkDays(workDays)
+    .map(day => {
+      const weekKey = format(startOfWeek(parseISO(day.date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      const hoursBefore = weekHours.get(weekKey) ?? 0;
+      weekHours.set(weekKey, hoursBefore + Math.max(0, day.hours));
+      return computeDay(day, hoursBefore, employee, rules, holidayRegion);
+    })
+    .filter(day => (!options.from || day.date >= options.from) && (!options.to || day.date <= options.to));
+
+  const sum = (key: keyof Omit<PayrollDayResult, 'date' | 'status' | 'hasCoupure'>) =>
+    round2(days.reduce((total, day) => total + day[key], 0));
+
+  const workedHours = sum('workedHours');
+  const complementaryHours = sum('complementaryHours');
+  const overtime110Hours = sum('overtime110Hours');
+  const overtime125Hours = sum('overtime125Hours');
+  const overtime150Hours = sum('overtime150Hours');
+  const holidayHours = sum('holidayHours');
+  const nightHours = sum('nightHours');
+  const paidLeaveHours = sum('paidLeaveHours');
+  const publicHolidayHours = sum('publicHolidayHours');
+  const meals = sum('meals');
+  const coupureDays = days.filter(day => day.hasCoupure).length;
+
+  const basePay = round2((workedHours + paidLeaveHours + publicHolidayHours) * hourlyRate);
+  const complementaryPremium = round2(complementaryHours * hourlyRate * rules.complementaryPremiumRate);
+  const overtime110Premium = round2(overtime110Hours * hourlyRate * 0.1);
+  const overtime125Premium = round2(overtime125Hours * hourlyRate * 0.25);
+  const overtime150Premium = round2(overtime150Hours * hourlyRate * 0.5);
+  const overtimePremium = round2(overtime110Premium + overtime125Premium + overtime150Premium);
+  const holidayPremium = round2(holidayHours * hourlyRate * rules.holidayPremiumRate);
+  const nightPremium = round2(nightHours * hourlyRate * rules.nightPremiumRate);
+  const coupureIndemnity = round2(coupureDays * rules.coupureIndemnity);
+  const mealBenefit = round2(meals * rules.mealBenefitValue);
+
+  return {
+    hourlyRate,
+    workedHours,
+    regularHours: sum('regularHours'),
+    complementaryHours,
+    overtime110Hours,
+    overtime125Hours,
+    overtime150Hours,
+    overtimeHours: round2(overtime110Hours + overtime125Hours + overtime150Hours),
+    holidayHours,
+    nightHours,
+    paidLeaveHours,
+    publicHolidayHours,
+    absenceHours: sum('absenceHours'),
+    coupureDays,
+    meals,
+    workedHolidayDates: days.filter(day => day.holidayHours > 0).map(day => day.date),
+    basePay,
+    complementaryPremium,
+    overtime110Premium,
+    overtime125Premium,
+    overtime150Premium,
+    overtimePremium,
+    holidayPremium,
+    nightPremium,
+    coupureIndemnity,
+    mealBenefit,
+    grossPay: round2(basePay + complementaryPremium + overtimePremium + holidayPremium + nightPremium + coupureIndemnity + mealBenefit),
+    days
+  };
+};
+
+// Work days of one employee's planned week; unpaid breaks are taken off shifts over 6 hours
+export const buildScheduleWorkDays = (
+  shifts: Shift[],
+  weekStartDate: Date,
+  payBreakTimes: boolean = true
+): PayrollWorkDay[] =>
+  shifts.map(shift => {
+    const date = format(addDays(weekStartDate, shift.day), 'yyyy-MM-dd');
+    if (!shift.start || !shift.end) {
+      return { date, hours: 0, status: shift.status };
+    }
+    const hours = calculateTimeInHours(shift.start, shift.end);
+    return {
+      date,
+      hours: !payBreakTimes && hours > 6 ? hours - 0.5 : hours,
+      periods: [{ start: shift.start, end: shift.end }],
+      status: shift.status,
+      isHolidayWorked: shift.isHolidayWorked
+    };
+  });
+
+// Work days of approved timesheet lines: the retained hours, timed by the clocked (else planned) times
+export const buildTimesheetWorkDays = (lines: TimesheetLine[]): PayrollWorkDay[] =>
+  lines.map(line => {
+    if (line.status) return { date: line.date, hours: 0, status: line.status };
+    const start = line.actualStart || line.plannedStart;
+    const end = line.actualEnd || line.plannedEnd;
+    return {
+      date: line.date,
+      hours: line.adjustment ? line.adjustment.hours : line.actualHours,
+      periods: start && end ? [{ start, end }] : [],
+      isHolidayWorked: line.isHolidayWorked
+    };
+  });
+
+/**
+ * Weekly employer cost of an employee working their contract hours over 6 days, for cost
+ * estimates when no schedule is at hand (contracts above 35h include their majorations).
+ */
+export const estimateWeeklyContractCost = (
+  employee: Employee,
+  rules: PayrollRules = DEFAULT_PAYROLL_RULES
+): number => {
+  const monday = startOfWeek(new Date(), { weekStartsOn: 1 });
+  const dailyHours = getDailyContractHours(employee);
+  const days: PayrollWorkDay[] = Array.from({ length: 6 }, (_, index) => ({
+    date: format(addDays(monday, index), 'yyyy-MM-dd'),
+    hours: dailyHours
+  }));
+  const result = computePayroll(days, employee, { rules });
+  // Contract cost only: no holiday, meal or coupure on a theoretical week
+  const contractPay = result.basePay + result.complementaryPremium + result.overtimePremium;
+  return round2(contractPay * (1 + rules.employerChargesRate));
+};
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { Employee, PayrollSoftware } from '../types';
+import { computePayroll } from './payrollEngine';
+import {
+  buildPayrollExportLines,
+  exportPayroll,
+  PayrollExportError,
+  PayrollExportLine,
+  PAYROLL_EXPORTERS
+} from './payrollExporters';
+
+const line = (overrides: Partial<PayrollExportLine>): PayrollExportLine => ({
+  employeeId: 'employee-1',
+  payrollId: 'M0001',
+  lastName: 'Martin',
+  firstName: 'Camille',
+  rubric: 'regular_hours',
+  quantity: 0,
+  ...overrides
+});
+
+// Decimals, an amount rubric, a negative regularization and a name that needs CSV quoting
+const LINES: PayrollExportLine[] = [
+  line({ rubric: 'regular_hours', quantity: 151.67 }),
+  line({ rubric: 'overtime_125', quantity: 4.5 }),
+  line({ rubric: 'meal_benefit', quantity: 20, amount: 84.4 }),
+  line({ rubric: 'hours_regularization', quantity: -3.25, amount: -42.5 }),
+  line({
+    employeeId: 'employee-2',
+    payrollId: 'M0002',
+    lastName: 'Le Gall, dit "Yann"',
+    firstName: 'Yannick',
+    rubric: 'coupure_indemnity',
+    quantity: 2,
+    amount: 8.44
+  })
+];
+
+const exportLines = (software: PayrollSoftware, lines: PayrollExportLine[] = LINES) =>
+  exportPayroll(software, lines, { period: '2025-03', companyCode: '123456789' });
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PayrollExportError) return error.issues;
+    throw error;
+  }
+  throw new Error('Export was not blocked');
+};
+
+describe('payroll exporters', () => {
+  describe.each(Object.keys(PAYROLL_EXPORTERS) as PayrollSoftware[])('%s', software => {
+    it('matches the golden file', async () => {
+      const file = exportLines(software);
+
+      await expect(file.content).toMatchFileSnapshot(`./__golden__/payroll-${software}.txt`);
+    });
+
+    it('ends every record with CRLF', () => {
+      const { content } = exportLines(software);
+
+      expect(content.endsWith('\r\n')).toBe(true);
+      expect(content.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    });
+
+    it('blocks the export of an employee without a matricule', () => {
+      const issues = issuesOf(() => exportLines(software, [...LINES, line({ employeeId: 'employee-3', payrollId: '' })]));
+
+      expect(issues).toEqual([
+        { employeeId: 'employee-3', lastName: 'Martin', firstName: 'Camille', field: 'payrollId', value: '' }
+      ]);
+    });
+  });
+
+  it('writes French decimals for Sage and ADP and dot decimals for PayFit', () => {
+    expect(exportLines('sage').content).toContain('M0001;1000;151,67\r\n');
+    expect(exportLines('adp').content).toContain('123456789;M0001;H001;151,67;;202503\r\n');
+    expect(exportLines('payfit').content).toContain('M0001,Martin,Camille,heures_normales,151.67,,2025-03-01,2025-03-31\r\n');
+  });
+
+  it('keeps the sign of a negative regularization', () => {
+    expect(exportLines('sage').content).toContain('M0001;1900;-3,25\r\n');
+    expect(exportLines('cegid').content).toContain('-000000325-000004250\r\n');
+    expect(exportLines('quadratus').content).toContain('VM0001     190        -3,25032025\r\n');
+  });
+
+  it('quotes CSV fields holding the separator or quotes', () => {
+    expect(exportLines('payfit').content).toContain('M0002,"Le Gall, dit ""Yann""",Yannick,prime_coupure,2.00,8.44,');
+
+    const { content } = exportPayroll('adp', LINES, {
+      period: '2025-03',
+      companyCode: '123456789',
+      overrides: { regular_hours: 'H;01' }
+    });
+    expect(content).toContain('123456789;M0001;"H;01";151,67;;202503\r\n');
+  });
+
+  describe('fixed-width formats', () => {
+    it('blocks a matricule longer than the field instead of cutting it', () => {
+      const issues = issuesOf(() => exportLines('cegid', [line({ payrollId: 'MATRICULE-12', quantity: 7 })]));
+
+      expect(issues).toEqual([expect.objectContaining({ field: 'payrollId', value: 'MATRICULE-12', maxLength: 10 })]);
+    });
+
+    it('blocks a rubric code longer than the field', () => {
+      const issues = issuesOf(() => exportPayroll('quadratus', [line({ quantity: 7 })], {
+        period: '2025-03',
+        overrides: { regular_hours: 'HNORM' }
+      }));
+
+      expect(issues).toEqual([expect.objectContaining({ field: 'rubric', value: 'HNORM', maxLength: 4 })]);
+    });
+
+    it('blocks a value that overflows its field', () => {
+      expect(issuesOf(() => exportLines('cegid', [line({ quantity: 123456789 })])))
+        .toEqual([expect.objectContaining({ field: 'quantity', value: '12345678900', maxLength: 10 })]);
+      expect(issuesOf(() => exportLines('quadratus', [line({ rubric: 'transport_allowance', quantity: 1, amount: -123456789 })])))
+        .toEqual([expect.objectContaining({ field: 'amount', value: '-123456789,00', maxLength: 12 })]);
+    });
+
+    it('lists every issue of the file at once', () => {
+      const issues = issuesOf(() => exportLines('cegid', [
+        line({ payrollId: 'MATRICULE-12', quantity: 7 }),
+        line({ employeeId: 'employee-2', quantity: 123456789 })
+      ]));
+
+      expect(issues.map(issue => issue.field)).toEqual(['payrollId', 'quantity']);
+    });
+  });
+});
+
+describe('buildPayrollExportLines', () => {
+  const employee: Employee = {
+    id: 'employee-1',
+    restaurantId: 'restaurant-1',
+    firstName: 'Camille',
+    lastName: 'Martin',
+    streetAddress: '1 rue de la Paix',
+    city: 'Paris',
+    postalCode: '75002',
+    phone: '0600000000',
+    contractType: 'CDI',
+    startDate: '2024-01-01',
+    endDate: null,
+    position: 'Commis de Cuisine',
+    category: 'Cuisine',
+    weeklyHours: 35,
+    hourlyRate: 10
+  };
+  const payroll = computePayroll([{ date: '2025-03-03', hours: 7 }], employee);
+
+  it('uses the matricule of the employee', () => {
+    const lines = buildPayrollExportLines({ ...employee, payrollId: ' M0001 ' }, payroll);
+
+    expect(lines.every(l => l.payrollId === 'M0001')).toBe(true);
+  });
+
+  it('leaves the matricule empty instead of falling back to the employee id', () => {
+    const lines = buildPayrollExportLines(employee, payroll);
+
+    expect(lines.length).toBeGreaterThan(0);
+    expect(lines.every(l => l.payrollId === '')).toBe(true);
+  });
+
+  it('sends a negative regularization on its own line', () => {
+    const lines = buildPayrollExportLines(employee, payroll, 0, { hours: -3.254, amount: -42.5 });
+
+    expect(lines.find(l => l.rubric === 'hours_regularization')).toMatchObject({ quantity: -3.25, amount: -42.5 });
+  });
+});
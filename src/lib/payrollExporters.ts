@@ -0,0 +1,437 @@
+// CRITICAL: Payroll exports - one formatter per payroll software, all fed with the same rubric lines.
+// A rubric is one of our variable elements; each software gets it under its own code, which users can remap.
+import { format, parseISO, endOfMonth } from 'date-fns';
+import { DailyStatus, Employee, PayrollRubric, PayrollRubricMapping, PayrollSoftware } from '../types';
+import { PayrollResult } from './payrollEngine';
+
+export type PayrollRubricUnit = 'hours' | 'meals' | 'amount';
+
+export const PAYROLL_RUBRICS: { id: PayrollRubric; label: string; labelEn: string; unit: PayrollRubricUnit }[] = [
+  { id: 'regular_hours', label: 'Heures normales', labelEn: 'Regular hours', unit: 'hours' },
+  { id: 'complementary_hours', label: 'Heures complémentaires', labelEn: 'Complementary hours', unit: 'hours' },
+  { id: 'overtime_110', label: 'Heures supplémentaires 110%', labelEn: 'Overtime 110%', unit: 'hours' },
+  { id: 'overtime_125', label: 'Heures supplémentaires 125%', labelEn: 'Overtime 125%', unit: 'hours' },
+  { id: 'overtime_150', label: 'Heures supplémentaires 150%', labelEn: 'Overtime 150%', unit: 'hours' },
+  { id: 'holiday_hours', label: 'Heures travaillées jour férié', labelEn: 'Public holiday hours worked', unit: 'hours' },
+  { id: 'night_hours', label: 'Heures de nuit', labelEn: 'Night hours', unit: 'hours' },
+  { id: 'paid_leave', label: 'Congés payés', labelEn: 'Paid leave', unit: 'hours' },
+  { id: 'public_holiday', label: 'Jour férié chômé', labelEn: 'Public holiday off', unit: 'hours' },
+  { id: 'sick_leave', label: 'Absence maladie', labelEn: 'Sick leave', unit: 'hours' },
+  { id: 'work_accident', label: 'Accident du travail', labelEn: 'Work accident', unit: 'hours' },
+  { id: 'unpaid_absence', label: 'Absence non rémunérée', labelEn: 'Unpaid absence', unit: 'hours' },
+  { id: 'coupure_indemnity', label: 'Indemnité de coupure', labelEn: 'Split shift indemnity', unit: 'amount' },
+  { id: 'meal_benefit', label: 'Avantage nourriture', labelEn: 'Meal benefit in kind', unit: 'meals' },
+  { id: 'transport_allowance', label: 'Indemnité de transport', labelEn: 'Transport allowance', unit: 'amount' },
+  { id: 'hours_regularization', label: 'Régularisation d\'heures', labelEn: 'Hours regularization', unit: 'hours' }
+];
+
+// One variable element of one employee for the period
+export interface PayrollExportLine {
+  employeeId: string;
+  payrollId: string; // Matricule, empty when none is set (the export is then blocked)
+  lastName: string;
+  firstName: string;
+  rubric: PayrollRubric;
+  quantity: number; // Hours, days or meals
+  amount?: number; // Euros, for indemnities and benefits
+}
+
+export interface PayrollExportContext {
+  period: string; // yyyy-MM
+  companyCode: string; // Company (SIREN) for the software that imports several companies at once
+  mapping: Record<PayrollRubric, string>;
+}
+
+export interface PayrollExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// A value the import file cannot carry as is: the export is blocked rather than sent cut or without a matricule
+export interface PayrollExportIssue {
+  employeeId: string;
+  lastName: string;
+  firstName: string;
+  field: 'payrollId' | 'rubric' | 'quantity' | 'amount';
+  value: string;
+  maxLength?: number; // Width of the field, missing when the value is absent
+}
+
+export class PayrollExportError extends Error {
+  constructor(public issues: PayrollExportIssue[]) {
+    super(`Payroll export blocked: ${issues.length} value(s) do not fit the import format`);
+    this.name = 'PayrollExportError';
+  }
+}
+
+export interface PayrollExporter {
+  id: PayrollSoftware;
+  name: string;
+  defaultMapping: Record<PayrollRubric, string>;
+  format(lines: PayrollExportLine[], context: PayrollExportContext): PayrollExportFile;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const getUnit = (rubric: PayrollRubric): PayrollRubricUnit =>
+  PAYROLL_RUBRICS.find(definition => definition.id === rubric)?.unit ?? 'hours';
+
+// The single value of formats with one value column: the amount of money rubrics, the quantity otherwise
+const getValue = (line: PayrollExportLine): number =>
+  getUnit(line.rubric) === 'amount' ? line.amount ?? 0 : line.quantity;
+
+const formatDecimal = (value: number, separator: ',' | '.'): string =>
+  value.toFixed(2).replace('.', separator);
+
+// Fixed-width numbers are in hundredths, zero-padded, a negative value (regularization) starting with its sign
+const formatFixedNumber = (value: number, width: number): string => {
+  const digits = Math.round(Math.abs(value) * 100).toString();
+  return value < 0 ? `-${digits.padStart(width - 1, '0')}` : digits.padStart(width, '0');
+};
+
+/**
+ * Fields of a fixed-width record. A value wider than its field is recorded as an issue instead of
+ * being cut, and `rows` throws them all at once so the user can fix every employee in one go.
+ */
+const createFixedWidthWriter = () => {
+  const issues: PayrollExportIssue[] = [];
+
+  const check = (line: PayrollExportLine, field: PayrollExportIssue['field'], value: string, width: number): string => {
+    if (value.length > width) {
+      issues.push({
+        employeeId: line.employeeId,
+        lastName: line.lastName,
+        firstName: line.firstName,
+        field,
+        value,
+        maxLength: width
+      });
+    }
+    return value;
+  };
+
+  return {
+    text: (line: PayrollExportLine, field: PayrollExportIssue['field'], value: string, width: number): string =>
+      check(line, field, value, width).padEnd(width, ' '),
+    number: (line: PayrollExportLine, field: PayrollExportIssue['field'], value: number, width: number): string =>
+      check(line, field, formatFixedNumber(value, width), width),
+    decimal: (line: PayrollExportLine, field: PayrollExportIssue['field'], value: number, width: number): string =>
+      check(line, field, formatDecimal(value, ','), width).padStart(width, ' '),
+    rows: (rows: string[]): string[] => {
+      if (issues.length > 0) throw new PayrollExportError(issues);
+      return rows;
+    }
+  };
+};
+
+const csvField = (value: string, separator: string): string =>
+  value.includes(separator) || value.includes('"') || value.includes('\n') ? `"${value.replace(/"/g, '""')}"` : value;
+
+const getPeriodBounds = (period: string): { start: Date; end: Date } => {
+  const start = parseISO(`${period}-01`);
+  return { start, end: endOfMonth(start) };
+};
+
+// CRITICAL: Payroll software run on Windows and expect CRLF line endings
+const joinLines = (rows: string[]): string => rows.length > 0 ? `${rows.join('\r\n')}\r\n` : '';
+
+const sageExporter: PayrollExporter = {
+  id: 'sage',
+  name: 'Sage Paie',
+  defaultMapping: {
+    regular_hours: '1000',
+    complementary_hours: '1100',
+    overtime_110: '1210',
+    overtime_125: '1220',
+    overtime_150: '1230',
+    holiday_hours: '1300',
+    night_hours: '1400',
+    paid_leave: '3000',
+    public_holiday: '3100',
+    sick_leave: '3200',
+    work_accident: '3300',
+    unpaid_absence: '3400',
+    coupure_indemnity: '4000',
+    meal_benefit: '4100',
+    transport_allowance: '4200',
+    hours_regularization: '1900'
+  },
+  // Variable elements import: MATRICULE;RUBRIQUE;VALEUR, no header, French decimals
+  format(lines, context) {
+    const rows = lines.map(line =>
+      [line.payrollId, context.mapping[line.rubric], formatDecimal(getValue(line), ',')].join(';')
+    );
+    return {
+      filename: `sage-variables-${context.period}.txt`,
+      mimeType: 'text/plain;charset=utf-8',
+      content: joinLines(rows)
+    };
+  }
+};
+
+const cegidExporter: PayrollExporter = {
+  id: 'cegid',
+  name: 'Cegid',
+  defaultMapping: {
+    regular_hours: 'HNOR',
+    complementary_hours: 'HCOMP',
+    overtime_110: 'HS110',
+    overtime_125: 'HS125',
+    overtime_150: 'HS150',
+    holiday_hours: 'HFER',
+    night_hours: 'HNUIT',
+    paid_leave: 'ABSCP',
+    public_holiday: 'ABSJF',
+    sick_leave: 'ABSMA',
+    work_accident: 'ABSAT',
+    unpaid_absence: 'ABSNR',
+    coupure_indemnity: 'INDCP',
+    meal_benefit: 'AVNOU',
+    transport_allowance: 'INDTR',
+    hours_regularization: 'HREGUL'
+  },
+  // Fixed width: matricule (10), rubric (6), start and end dates (ddMMyyyy), quantity and amount (10, hundredths)
+  format(lines, context) {
+    const { start, end } = getPeriodBounds(context.period);
+    const field = createFixedWidthWriter();
+    const rows = lines.map(line => [
+      field.text(line, 'payrollId', line.payrollId, 10),
+      field.text(line, 'rubric', context.mapping[line.rubric], 6),
+      format(start, 'ddMMyyyy'),
+      format(end, 'ddMMyyyy'),
+      field.number(line, 'quantity', line.quantity, 10),
+      field.number(line, 'amount', line.amount ?? 0, 10)
+    ].join(''));
+    return {
+      filename: `cegid-variables-${context.period}.txt`,
+      mimeType: 'text/plain;charset=utf-8',
+      content: joinLines(field.rows(rows))
+    };
+  }
+};
+
+const payfitExporter: PayrollExporter = {
+  id: 'payfit',
+  name: 'PayFit',
+  defaultMapping: {
+    regular_hours: 'heures_normales',
+    complementary_hours: 'heures_complementaires',
+    overtime_110: 'heures_supplementaires_110',
+    overtime_125: 'heures_supplementaires_125',
+    overtime_150: 'heures_supplementaires_150',
+    holiday_hours: 'heures_jour_ferie',
+    night_hours: 'heures_nuit',
+    paid_leave: 'conges_payes',
+    public_holiday: 'jour_ferie_chome',
+    sick_leave: 'absence_maladie',
+    work_accident: 'absence_accident_travail',
+    unpaid_absence: 'absence_non_remuneree',
+    coupure_indemnity: 'prime_coupure',
+    meal_benefit: 'avantage_nourriture',
+    transport_allowance: 'indemnite_transport',
+    hours_regularization: 'regularisation_heures'
+  },
+  // CSV with header, one row per element, dot decimals
+  format(lines, context) {
+    const { start, end } = getPeriodBounds(context.period);
+    const header = ['Matricule', 'Nom', 'Prénom', 'Code', 'Quantité', 'Montant', 'Date de début', 'Date de fin'];
+    const rows = lines.map(line => [
+      line.payrollId,
+      line.lastName,
+      line.firstName,
+      context.mapping[line.rubric],
+      formatDecimal(line.quantity, '.'),
+      line.amount !== undefined ? formatDecimal(line.amount, '.') : '',
+      format(start, 'yyyy-MM-dd'),
+      format(end, 'yyyy-MM-dd')
+    ].map(value => csvField(value, ',')).join(','));
+    return {
+      filename: `payfit-variables-${context.period}.csv`,
+      mimeType: 'text/csv;charset=utf-8',
+      content: joinLines([header.join(','), ...rows])
+    };
+  }
+};
+
+const adpExporter: PayrollExporter = {
+  id: 'adp',
+  name: 'ADP',
+  defaultMapping: {
+    regular_hours: 'H001',
+    complementary_hours: 'H010',
+    overtime_110: 'H110',
+    overtime_125: 'H125',
+    overtime_150: 'H150',
+    holiday_hours: 'H200',
+    night_hours: 'H300',
+    paid_leave: 'A100',
+    public_holiday: 'A110',
+    sick_leave: 'A200',
+    work_accident: 'A300',
+    unpaid_absence: 'A400',
+    coupure_indemnity: 'P100',
+    meal_benefit: 'P200',
+    transport_allowance: 'P300',
+    hours_regularization: 'H900'
+  },
+  // CSV with header: company, matricule, rubric, number, amount and pay period (yyyyMM)
+  format(lines, context) {
+    const period = context.period.replace('-', '');
+    const header = ['SOCIETE', 'MATRICULE', 'RUBRIQUE', 'NOMBRE', 'MONTANT', 'PERIODE'];
+    const rows = lines.map(line => [
+      context.companyCode,
+      line.payrollId,
+      context.mapping[line.rubric],
+      formatDecimal(line.quantity, ','),
+      line.amount !== undefined ? formatDecimal(line.amount, ',') : '',
+      period
+    ].map(value => csvField(value, ';')).join(';'));
+    return {
+      filename: `adp-variables-${period}.csv`,
+      mimeType: 'text/csv;charset=utf-8',
+      content: joinLines([header.join(';'), ...rows])
+    };
+  }
+};
+
+const quadratusExporter: PayrollExporter = {
+  id: 'quadratus',
+  name: 'Quadratus',
+  defaultMapping: {
+    regular_hours: '100',
+    complementary_hours: '110',
+    overtime_110: '121',
+    overtime_125: '122',
+    overtime_150: '123',
+    holiday_hours: '130',
+    night_hours: '140',
+    paid_leave: '300',
+    public_holiday: '310',
+    sick_leave: '320',
+    work_accident: '330',
+    unpaid_absence: '340',
+    coupure_indemnity: '400',
+    meal_benefit: '410',
+    transport_allowance: '420',
+    hours_regularization: '190'
+  },
+  // Fixed width "V" records: matricule (10), rubric (4), value (12, French decimals), period (MMyyyy)
+  format(lines, context) {
+    const { start } = getPeriodBounds(context.period);
+    const field = createFixedWidthWriter();
+    const rows = lines.map(line => [
+      'V',
+      field.text(line, 'payrollId', line.payrollId, 10),
+      field.text(line, 'rubric', context.mapping[line.rubric], 4),
+      field.decimal(line, getUnit(line.rubric) === 'amount' ? 'amount' : 'quantity', getValue(line), 12),
+      format(start, 'MMyyyy')
+    ].join(''));
+    return {
+      filename: `quadratus-variables-${context.period}.txt`,
+      mimeType: 'text/plain;charset=utf-8',
+      content: joinLines(field.rows(rows))
+    };
+  }
+};
+
+export const PAYROLL_EXPORTERS: Record<PayrollSoftware, PayrollExporter> = {
+  sage: sageExporter,
+  cegid: cegidExporter,
+  payfit: payfitExporter,
+  adp: adpExporter,
+  quadratus: quadratusExporter
+};
+
+// Codes of a software: its defaults, overridden by the user's mapping (blank codes keep the default)
+export const getRubricMapping = (
+  software: PayrollSoftware,
+  overrides: PayrollRubricMapping = {}
+): Record<PayrollRubric, string> => {
+  const mapping = { ...PAYROLL_EXPORTERS[software].defaultMapping };
+  (Object.keys(overrides) as PayrollRubric[]).forEach(rubric => {
+    const code = overrides[rubric]?.trim();
+    if (code) mapping[rubric] = code;
+  });
+  return mapping;
+};
+
+/**
+ * Variable elements of one employee from their computed payroll. Hours are sent as hours, the
+ * software applying its own rates; indemnities and benefits carry their amount as well. Hours
+ * regularized from closed periods go on their own line and may be negative.
+ */
+export const buildPayrollExportLines = (
+  employee: Employee,
+  payroll: PayrollResult,
+  transportAllowance: number = 0,
+  regularization: { hours: number; amount: number } = { hours: 0, amount: 0 }
+): PayrollExportLine[] => {
+  const absenceHours = (status: DailyStatus) => round2(payroll.days
+    .filter(day => day.status === status)
+    .reduce((sum, day) => sum + day.paidLeaveHours + day.publicHolidayHours + day.absenceHours, 0));
+
+  const elements: { rubric: PayrollRubric; quantity: number; amount?: number }[] = [
+    { rubric: 'regular_hours', quantity: payroll.regularHours },
+    { rubric: 'complementary_hours', quantity: payroll.complementaryHours },
+    { rubric: 'overtime_110', quantity: payroll.overtime110Hours },
+    { rubric: 'overtime_125', quantity: payroll.overtime125Hours },
+    { rubric: 'overtime_150', quantity: payroll.overtime150Hours },
+    { rubric: 'holiday_hours', quantity: payroll.holidayHours },
+    { rubric: 'night_hours', quantity: payroll.nightHours },
+    { rubric: 'paid_leave', quantity: payroll.paidLeaveHours },
+    { rubric: 'public_holiday', quantity: payroll.publicHolidayHours },
+    { rubric: 'sick_leave', quantity: absenceHours('SICK_LEAVE') },
+    { rubric: 'work_accident', quantity: absenceHours('ACCIDENT') },
+    { rubric: 'unpaid_absence', quantity: absenceHours('ABSENCE') },
+    { rubric: 'coupure_indemnity', quantity: payroll.coupureDays, amount: payroll.coupureIndemnity },
+    { rubric: 'meal_benefit', quantity: payroll.meals, amount: payroll.mealBenefit },
+    { rubric: 'transport_allowance', quantity: transportAllowance > 0 ? 1 : 0, amount: transportAllowance },
+    { rubric: 'hours_regularization', quantity: round2(regularization.hours), amount: round2(regularization.amount) }
+  ];
+
+  return elements
+    .filter(element => element.quantity !== 0)
+    .map(element => ({
+      employeeId: employee.id,
+      payrollId: employee.payrollId?.trim() ?? '',
+      lastName: employee.lastName,
+      firstName: employee.firstName,
+      ...element
+    }));
+};
+
+// CRITICAL: Every import format is keyed on the matricule, a line without one would be rejected or misfiled
+export const getMissingPayrollIds = (lines: PayrollExportLine[]): PayrollExportIssue[] => {
+  const issues = new Map<string, PayrollExportIssue>();
+  lines.forEach(line => {
+    if (!line.payrollId && !issues.has(line.employeeId)) {
+      issues.set(line.employeeId, {
+        employeeId: line.employeeId,
+        lastName: line.lastName,
+        firstName: line.firstName,
+        field: 'payrollId',
+        value: ''
+      });
+    }
+  });
+  return [...issues.values()];
+};
+
+// Throws a PayrollExportError listing the values the software's format cannot carry
+export const exportPayroll = (
+  software: PayrollSoftware,
+  lines: PayrollExportLine[],
+  options: { period: string; companyCode?: string; overrides?: PayrollRubricMapping }
+): PayrollExportFile => {
+  const exporter = PAYROLL_EXPORTERS[software];
+  const missing = getMissingPayrollIds(lines);
+  if (missing.length > 0) throw new PayrollExportError(missing);
+
+  console.log(`📤 Payroll export for ${exporter.name}:`, { period: options.period, lines: lines.length });
+  return exporter.format(lines, {
+    period: options.period,
+    companyCode: options.companyCode ?? '',
+    mapping: getRubricMapping(software, options.overrides)
+  });
+};
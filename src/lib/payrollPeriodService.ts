@@ -0,0 +1,188 @@
+// CRITICAL: Payroll period service - monthly close of a restaurant's payroll, locking the shifts of closed months
+import { addMonths, format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { PayrollPeriod, PayrollPeriodStatus, PayrollRegularization } from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+export type PayrollPeriodAction = 'validated' | 'reopened' | 'exported' | 'closed';
+
+// Status changes and the states each one starts from, enforced server-side by check_payroll_period_transition
+const TRANSITIONS: Record<PayrollPeriodAction, { from: PayrollPeriodStatus[]; to: PayrollPeriodStatus }> = {
+  validated: { from: ['open'], to: 'validated' },
+  reopened: { from: ['validated'], to: 'open' },
+  exported: { from: ['validated'], to: 'exported' },
+  closed: { from: ['exported'], to: 'closed' }
+};
+
+// Month of a date, yyyy-MM
+export const getPayrollMonth = (date: string): string => date.slice(0, 7);
+
+// A month without a period row has not been worked on yet and is open
+export const getPayrollPeriodStatus = (
+  periods: PayrollPeriod[],
+  restaurantId: string,
+  month: string
+): PayrollPeriodStatus =>
+  periods.find(period => period.restaurantId === restaurantId && period.month === month)?.status ?? 'open';
+
+export const isDateInClosedPeriod = (periods: PayrollPeriod[], restaurantId: string, date: string): boolean =>
+  getPayrollPeriodStatus(periods, restaurantId, getPayrollMonth(date)) === 'closed';
+
+/**
+ * Period a correction of a closed month is paid with: the first following month still open.
+ * Validated and exported months are skipped so the figures already checked or sent do not change.
+ */
+export const getRegularizationMonth = (periods: PayrollPeriod[], restaurantId: string, date: string): string => {
+  let month = format(addMonths(parseISO(`${getPayrollMonth(date)}-01`), 1), 'yyyy-MM');
+  while (getPayrollPeriodStatus(periods, restaurantId, month) !== 'open') {
+    month = format(addMonths(parseISO(`${month}-01`), 1), 'yyyy-MM');
+  }
+  return month;
+};
+
+export class PayrollPeriodService {
+  private static instance: PayrollPeriodService;
+
+  private constructor() {}
+
+  public static getInstance(): PayrollPeriodService {
+    if (!PayrollPeriodService.instance) {
+      PayrollPeriodService.instance = new PayrollPeriodService();
+    }
+    return PayrollPeriodService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) periods and regularizations are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `payrollPeriods_${restaurantId}`;
+  }
+
+  private getRegularizationStorageKey(restaurantId: string): string {
+    return `payrollRegularizations_${restaurantId}`;
+  }
+
+  private loadLocal<T>(key: string): T[] {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local payroll periods:', error);
+      return [];
+    }
+  }
+
+  private async save(period: PayrollPeriod): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.upsertPayrollPeriod(period);
+      return;
+    }
+
+    const key = this.getStorageKey(period.restaurantId);
+    const periods = this.loadLocal<PayrollPeriod>(key).filter(p => p.id !== period.id);
+    localStorage.setItem(key, JSON.stringify([...periods, period]));
+  }
+
+  async fetchPeriods(restaurantIds: string[]): Promise<PayrollPeriod[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchPayrollPeriods(restaurantIds);
+    }
+
+    return restaurantIds.flatMap(restaurantId => this.loadLocal<PayrollPeriod>(this.getStorageKey(restaurantId)));
+  }
+
+  async fetchRegularizations(restaurantId: string, month: string): Promise<PayrollRegularization[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchPayrollRegularizations(restaurantId, month);
+    }
+
+    return this.loadLocal<PayrollRegularization>(this.getRegularizationStorageKey(restaurantId))
+      .filter(regularization => regularization.month === month)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Move a month to its next state. Without the validation step (payrollValidationRequired off)
+   * an open month can be exported directly.
+   */
+  async transition(
+    periods: PayrollPeriod[],
+    restaurantId: string,
+    month: string,
+    action: PayrollPeriodAction,
+    options: { validationRequired: boolean; userId?: string }
+  ): Promise<PayrollPeriod> {
+    const timestamp = new Date().toISOString();
+    const current: PayrollPeriod = periods.find(p => p.restaurantId === restaurantId && p.month === month) ?? {
+      id: uuidv4(),
+      restaurantId,
+      month,
+      status: 'open',
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    const allowed: PayrollPeriodStatus[] = action === 'exported' && !options.validationRequired
+      ? [...TRANSITIONS.exported.from, 'open']
+      : TRANSITIONS[action].from;
+    if (!allowed.includes(current.status)) {
+      throw new Error(`Payroll period ${month} is ${current.status}, expected ${allowed.join(' or ')}`);
+    }
+
+    let updated: PayrollPeriod = { ...current, status: TRANSITIONS[action].to, updatedAt: timestamp };
+
+    if (action === 'validated') {
+      updated = { ...updated, validatedAt: timestamp, validatedBy: options.userId };
+    } else if (action === 'exported') {
+      updated = { ...updated, exportedAt: timestamp, exportedBy: options.userId };
+    } else if (action === 'closed') {
+      updated = { ...updated, closedAt: timestamp, closedBy: options.userId };
+    } else {
+      updated = { ...updated, validatedAt: undefined, validatedBy: undefined };
+    }
+
+    await this.save(updated);
+    console.log(`✅ Payroll period ${action}:`, { restaurantId, month });
+    return updated;
+  }
+
+  // CRITICAL: A closed month is never edited - the hours to add or take back are paid with the next open month
+  async addRegularization(
+    periods: PayrollPeriod[],
+    regularization: Pick<PayrollRegularization, 'restaurantId' | 'employeeId' | 'date' | 'hours' | 'reason'>,
+    userId?: string
+  ): Promise<PayrollRegularization> {
+    const { restaurantId, date, hours, reason } = regularization;
+    if (!isDateInClosedPeriod(periods, restaurantId, date)) {
+      throw new Error('Only days of a closed payroll period are regularized');
+    }
+    if (!reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    if (!Number.isFinite(hours) || hours === 0 || Math.abs(hours) > 24) {
+      throw new Error('Hours must be between -24 and 24, and not zero');
+    }
+
+    const created: PayrollRegularization = {
+      ...regularization,
+      id: uuidv4(),
+      month: getRegularizationMonth(periods, restaurantId, date),
+      reason: reason.trim(),
+      createdBy: userId,
+      createdAt: new Date().toISOString()
+    };
+
+    if (isSupabaseConfigured) {
+      await dataService.insertPayrollRegularization(created);
+    } else {
+      const key = this.getRegularizationStorageKey(restaurantId);
+      localStorage.setItem(key, JSON.stringify([...this.loadLocal<PayrollRegularization>(key), created]));
+    }
+
+    console.log('📝 Payroll regularization recorded:', { date, hours, month: created.month });
+    return created;
+  }
+}
+
+// Export singleton instance
+export const payrollPeriodService = PayrollPeriodService.getInstance();
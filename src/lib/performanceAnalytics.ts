@@ -1,7 +1,6 @@
 // CRITICAL: Performance Analytics Service for Dashboard
-import { PerformanceMetrics, POSData, Employee, Shift, KPIData, ChartDataPoint } from '../types';
-import { calculateEmployeeWeeklySummary } from './scheduleUtils';
-import { addDays, format, parseISO, startOfWeek, endOfWeek } from 'date-fns';
+import { PerformanceMetrics, POSData, Employee, Shift, KPIData, ChartDataPoint, HolidayRegion } from '../types';
+import { buildScheduleWorkDays, computePayroll, DEFAULT_PAYROLL_RULES } from './payrollEngine';
 
 export class PerformanceAnalyticsService {
   private static instance: PerformanceAnalyticsService;
@@ -21,7 +20,8 @@ export class PerformanceAnalyticsService {
     employees: Employee[],
     shifts: Shift[],
     weekStartDate: Date,
-    payBreakTimes: boolean = true
+    payBreakTimes: boolean = true,
+    holidayRegion: HolidayRegion = 'metropole'
   ): PerformanceMetrics[] {
     console.log('📊 Calculating performance metrics...');
 
@@ -34,7 +34,8 @@ export class PerformanceAnalyticsService {
         shifts,
         date,
         weekStartDate,
-        payBreakTimes
+        payBreakTimes,
+        holidayRegion
       );
 
       // Calculate key performance indicators
@@ -62,13 +63,15 @@ export class PerformanceAnalyticsService {
     });
   }
 
-  // CRITICAL: Calculate daily payroll metrics
+  // CRITICAL: Calculate daily payroll metrics with the payroll engine (weekly overtime bands,
+  // holiday, night and coupure premiums, meals) plus employer charges
   private calculateDailyPayrollMetrics(
     employees: Employee[],
     shifts: Shift[],
     date: string,
     weekStartDate: Date,
-    payBreakTimes: boolean
+    payBreakTimes: boolean,
+    holidayRegion: HolidayRegion
   ): {
     grossPayrollMass: number;
     totalHoursWorked: number;
@@ -76,93 +79,25 @@ export class PerformanceAnalyticsService {
     overtimeHours: number;
     absenceHours: number;
   } {
-    const targetDate = parseISO(date);
-    const dayOfWeek = Math.floor((targetDate.getTime() - weekStartDate.getTime()) / (1000 * 60 * 60 * 24));
-    
-    // Get shifts for this specific day
-    const dailyShifts = shifts.filter(shift => shift.day === dayOfWeek);
-    
     let totalHoursWorked = 0;
     let scheduledHours = 0;
     let overtimeHours = 0;
     let absenceHours = 0;
     let grossPayrollMass = 0;
 
-    // Standard hourly rates by position (in euros)
-    const hourlyRates: Record<string, number> = {
-      'Operations Manager': 25.00,
-      'Chef de Cuisine': 18.00,
-      'Second de Cuisine': 16.00,
-      'Chef de Partie': 14.50,
-      'Commis de Cuisine': 12.00,
-      'Plongeur': 11.50,
-      'Barman/Barmaid': 13.50,
-      'Waiter(s)': 12.50
-    };
-
     employees.forEach(employee => {
-      const employeeShifts = dailyShifts.filter(shift => shift.employeeId === employee.id);
-      
-      if (employeeShifts.length > 0) {
-        // Calculate weekly summary to get proper overtime calculation
-        const weeklySummary = calculateEmployeeWeeklySummary(
-          shifts.filter(s => s.employeeId === employee.id),
-          employee.weeklyHours || 35,
-          employee.startDate,
-          employee.endDate,
-          weekStartDate,
-          payBreakTimes
-        );
-
-        // Calculate daily hours for this employee
-        let dailyWorkedHours = 0;
-        let dailyScheduledHours = 0;
-        let dailyAbsenceHours = 0;
-
-        employeeShifts.forEach(shift => {
-          if (shift.status) {
-            // Handle absence statuses
-            const contractDailyHours = (employee.weeklyHours || 35) / 6; // Assuming 6-day work week
-            
-            if (shift.status === 'CP' || shift.status === 'PUBLIC_HOLIDAY') {
-              dailyAbsenceHours += contractDailyHours;
-              if (shift.status === 'CP') {
-                dailyWorkedHours += contractDailyHours; // CP counts as worked hours
-              }
-            } else {
-              dailyAbsenceHours += contractDailyHours;
-            }
-          } else if (shift.start && shift.end) {
-            // Regular working shift
-            const shiftHours = this.calculateShiftHours(shift.start, shift.end, payBreakTimes);
-            dailyWorkedHours += shiftHours;
-            dailyScheduledHours += shiftHours;
-          }
-        });
-
-        // Calculate pay
-        const hourlyRate = hourlyRates[employee.position] || 12.00;
-        const socialCharges = 0.42; // 42% social charges in France
-        
-        // Base pay
-        let dailyPay = dailyWorkedHours * hourlyRate;
-        
-        // Add overtime premium if applicable (simplified calculation)
-        const dailyOvertimeHours = Math.max(0, dailyWorkedHours - 8); // Over 8 hours per day
-        if (dailyOvertimeHours > 0) {
-          dailyPay += dailyOvertimeHours * hourlyRate * 0.25; // 25% overtime premium
-        }
-        
-        // Add social charges
-        const dailyGrossPayroll = dailyPay * (1 + socialCharges);
-
-        // Accumulate totals
-        totalHoursWorked += dailyWorkedHours;
-        scheduledHours += dailyScheduledHours;
-        overtimeHours += dailyOvertimeHours;
-        absenceHours += dailyAbsenceHours;
-        grossPayrollMass += dailyGrossPayroll;
-      }
+      // The whole week goes to the engine so the day gets the overtime band it falls in
+      const payroll = computePayroll(
+        buildScheduleWorkDays(shifts.filter(shift => shift.employeeId === employee.id), weekStartDate, payBreakTimes),
+        employee,
+        { from: date, to: date, holidayRegion }
+      );
+
+      totalHoursWorked += payroll.workedHours + payroll.paidLeaveHours; // CP counts as worked hours
+      scheduledHours += payroll.workedHours;
+      overtimeHours += payroll.overtimeHours;
+      absenceHours += payroll.paidLeaveHours + payroll.publicHolidayHours + payroll.absenceHours;
+      grossPayrollMass += payroll.grossPay * (1 + DEFAULT_PAYROLL_RULES.employerChargesRate);
     });
 
     return {
@@ -174,29 +109,6 @@ export class PerformanceAnalyticsService {
     };
   }
 
-  // CRITICAL: Calculate shift hours with break consideration
-  private calculateShiftHours(start: string, end: string, payBreakTimes: boolean): number {
-    const [startHour, startMin] = start.split(':').map(Number);
-    const [endHour, endMin] = end.split(':').map(Number);
-    
-    let hours = endHour - startHour;
-    let minutes = endMin - startMin;
-    
-    // Handle overnight shifts
-    if (hours < 0) {
-      hours += 24;
-    }
-    
-    const totalHours = hours + minutes / 60;
-    
-    // Apply break deduction if breaks are unpaid
-    if (!payBreakTimes && totalHours > 6) {
-      return totalHours - 0.5; // Subtract 30 minutes for unpaid break
-    }
-    
-    return totalHours;
-  }
-
   // CRITICAL: Generate KPI data with trends
   generateKPIData(
     current: PerformanceMetrics[],
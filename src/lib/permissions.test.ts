@@ -0,0 +1,164 @@
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Employee } from '../types';
+import { AppProvider, useAppContext } from '../contexts/AppContext';
+import { mockEmployees } from '../data/mockData';
+import { dataService } from './dataService';
+import {
+  getAccessibleRestaurantIds,
+  hasPermission,
+  Permission,
+  PermissionDeniedError,
+  redactEmployee,
+  RestaurantAccess,
+  UserRole
+} from './permissions';
+
+// AppProvider renders once on the server side: no effects, demo data until Supabase is switched on
+const session = vi.hoisted(() => ({ access: [] as RestaurantAccess[], supabaseConfigured: false }));
+
+vi.mock('./supabase', () => ({
+  supabase: {},
+  get isSupabaseConfigured() {
+    return session.supabaseConfigured;
+  }
+}));
+
+vi.mock('./dataService', () => ({
+  dataService: { deleteEmployee: vi.fn(async () => {}) },
+  ShiftVersionConflictError: class ShiftVersionConflictError extends Error {}
+}));
+
+vi.mock('../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1' },
+    profile: null,
+    can: (permission: Permission, restaurantId?: string) => hasPermission(null, session.access, permission, restaurantId),
+    accessibleRestaurantIds: session.access.map(entry => entry.restaurantId)
+  })
+}));
+
+const employee: Employee = {
+  id: 'employee-1',
+  restaurantId: 'restaurant-1',
+  firstName: 'Camille',
+  lastName: 'Martin',
+  streetAddress: '1 rue de la Paix',
+  city: 'Paris',
+  postalCode: '75002',
+  phone: '0600000000',
+  socialSecurityNumber: '1 85 05 75 123 456 78',
+  contractType: 'CDI',
+  startDate: '2024-01-01',
+  endDate: null,
+  position: 'Commis de Cuisine',
+  category: 'Cuisine',
+  weeklyHours: 35,
+  hourlyRate: 12.5,
+  grossMonthlySalary: 1895.63
+};
+
+const access = (role: UserRole): RestaurantAccess[] => [{ restaurantId: 'restaurant-1', role }];
+
+// Who may do what in a restaurant they have access to: [permission, admin, manager, employee]
+const MATRIX: [Permission, boolean, boolean, boolean][] = [
+  ['employees:view', true, true, false],
+  ['employees:manage', true, true, false], // addEmployee, updateEmployee, deleteEmployee
+  ['employees:viewSensitive', true, true, false], // hourlyRate, grossMonthlySalary, socialSecurityNumber
+  ['schedule:view', true, true, true],
+  ['schedule:edit', true, true, false],
+  ['payroll:view', true, true, false],
+  ['payroll:export', true, true, false],
+  ['timesheets:approve', true, true, false],
+  ['leave:approve', true, true, false],
+  ['restaurants:manage', true, false, false],
+  ['settings:manage', true, false, false],
+  ['portal:access', true, true, true]
+];
+
+describe('hasPermission', () => {
+  describe.each([
+    ['admin', 1],
+    ['manager', 2],
+    ['employee', 3]
+  ] as const)('%s of the restaurant', (role, column) => {
+    it.each(MATRIX.map(row => [row[0], row[column]] as const))('%s: %s', (permission, allowed) => {
+      expect(hasPermission(null, access(role), permission, 'restaurant-1')).toBe(allowed);
+    });
+  });
+
+  it('does not let an employee delete or edit employees', () => {
+    expect(hasPermission(null, access('employee'), 'employees:manage', 'restaurant-1')).toBe(false);
+    expect(hasPermission('employee', [], 'employees:manage')).toBe(false);
+  });
+
+  it('gives a manager nothing in a restaurant they have no access to', () => {
+    expect(hasPermission(null, access('manager'), 'employees:manage', 'restaurant-2')).toBe(false);
+    expect(hasPermission(null, access('manager'), 'schedule:view', 'restaurant-2')).toBe(false);
+  });
+
+  it('makes global admins admins everywhere', () => {
+    expect(hasPermission('admin', [], 'employees:manage', 'restaurant-2')).toBe(true);
+    expect(getAccessibleRestaurantIds('admin', [])).toBeNull();
+    expect(getAccessibleRestaurantIds('manager', access('manager'))).toEqual(['restaurant-1']);
+  });
+});
+
+describe('redactEmployee', () => {
+  it('hides pay and identity data', () => {
+    const redacted = redactEmployee(employee);
+
+    expect(redacted.hourlyRate).toBeUndefined();
+    expect(redacted.grossMonthlySalary).toBeUndefined();
+    expect(redacted.socialSecurityNumber).toBeUndefined();
+    expect('hourlyRate' in redacted).toBe(false);
+  });
+
+  it('keeps the rest of the record and leaves the original untouched', () => {
+    const redacted = redactEmployee(employee);
+
+    expect(redacted.firstName).toBe('Camille');
+    expect(redacted.weeklyHours).toBe(35);
+    expect(employee.hourlyRate).toBe(12.5);
+  });
+});
+
+describe('AppContext.deleteEmployee', () => {
+  const target = mockEmployees[0];
+
+  // The actions of the provider as rendered for a user with the given role in the employee's restaurant
+  const renderAppContext = (role: UserRole) => {
+    session.access = [{ restaurantId: target.restaurantId, role }];
+    session.supabaseConfigured = false;
+
+    let context: ReturnType<typeof useAppContext> | undefined;
+    const Capture = () => {
+      context = useAppContext();
+      return null;
+    };
+    renderToString(createElement(AppProvider, null, createElement(Capture)));
+
+    // From here on deletions would reach the database
+    session.supabaseConfigured = true;
+    return context!;
+  };
+
+  beforeEach(() => {
+    vi.mocked(dataService.deleteEmployee).mockClear();
+  });
+
+  it('deletes nothing for an employee of the restaurant', async () => {
+    const { deleteEmployee } = renderAppContext('employee');
+
+    await expect(deleteEmployee(target.id)).rejects.toBeInstanceOf(PermissionDeniedError);
+    expect(dataService.deleteEmployee).not.toHaveBeenCalled();
+  });
+
+  it('deletes for a manager of the restaurant', async () => {
+    const { deleteEmployee } = renderAppContext('manager');
+
+    await deleteEmployee(target.id);
+    expect(dataService.deleteEmployee).toHaveBeenCalledWith(target.id);
+  });
+});
@@ -0,0 +1,153 @@
+// CRITICAL: Role-based permission model (global role from user_profiles, per-restaurant role from restaurant_access)
+import { AppTab, Employee } from '../types';
+
+export type UserRole = 'admin' | 'manager' | 'employee';
+
+export type Permission =
+  | 'restaurants:view'
+  | 'restaurants:manage'
+  | 'employees:view'
+  | 'employees:manage'
+  | 'employees:viewSensitive' // Hourly rate, monthly salary, social security number
+  | 'schedule:view'
+  | 'schedule:edit'
+  | 'performance:view'
+  | 'payroll:view'
+  | 'payroll:export'
+  | 'documents:view'
+  | 'documents:manage'
+  | 'timeclock:view'
+  | 'timesheets:approve' // Approve, reopen and lock weekly timesheets
+  | 'leave:approve' // Approve or reject leave requests from the portal
+  | 'settings:manage'
+  | 'portal:access';
+
+// CRITICAL: Single source of truth for what each role may do
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'restaurants:view',
+    'restaurants:manage',
+    'employees:view',
+    'employees:manage',
+    'employees:viewSensitive',
+    'schedule:view',
+    'schedule:edit',
+    'performance:view',
+    'payroll:view',
+    'payroll:export',
+    'documents:view',
+    'documents:manage',
+    'timeclock:view',
+    'timesheets:approve',
+    'leave:approve',
+    'settings:manage',
+    'portal:access'
+  ],
+  manager: [
+    'restaurants:view',
+    'employees:view',
+    'employees:manage',
+    'employees:viewSensitive',
+    'schedule:view',
+    'schedule:edit',
+    'performance:view',
+    'payroll:view',
+    'payroll:export',
+    'documents:view',
+    'documents:manage',
+    'timeclock:view',
+    'timesheets:approve',
+    'leave:approve',
+    'portal:access'
+  ],
+  employee: [
+    'schedule:view',
+    'portal:access'
+  ]
+};
+
+// Permission required to open each back-office tab
+export const TAB_PERMISSIONS: Record<AppTab, Permission> = {
+  dashboard: 'restaurants:view',
+  restaurants: 'restaurants:view',
+  schedule: 'schedule:view',
+  staff: 'employees:view',
+  settings: 'settings:manage',
+  performance: 'performance:view',
+  payroll: 'payroll:view',
+  documents: 'documents:view',
+  timeclock: 'timeclock:view'
+};
+
+export interface RestaurantAccess {
+  restaurantId: string;
+  role: UserRole;
+}
+
+/**
+ * Thrown by mutating actions when the current user lacks the permission
+ */
+export class PermissionDeniedError extends Error {
+  constructor(public permission: Permission) {
+    super(`Permission denied: ${permission}`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Effective role of a user. Global admins are admins everywhere; otherwise the
+ * restaurant_access row decides for a given restaurant. Without a restaurant,
+ * the highest role held anywhere is used (e.g. to decide which tabs exist).
+ */
+export const resolveRole = (
+  globalRole: UserRole | null,
+  access: RestaurantAccess[],
+  restaurantId?: string
+): UserRole | null => {
+  if (globalRole === 'admin') return 'admin';
+
+  if (restaurantId) {
+    return access.find(entry => entry.restaurantId === restaurantId)?.role ?? null;
+  }
+
+  const roles = [globalRole, ...access.map(entry => entry.role)];
+  if (roles.includes('admin')) return 'admin';
+  if (roles.includes('manager')) return 'manager';
+  if (roles.includes('employee')) return 'employee';
+  return null;
+};
+
+export const roleHasPermission = (role: UserRole | null, permission: Permission): boolean => {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const hasPermission = (
+  globalRole: UserRole | null,
+  access: RestaurantAccess[],
+  permission: Permission,
+  restaurantId?: string
+): boolean => {
+  return roleHasPermission(resolveRole(globalRole, access, restaurantId), permission);
+};
+
+/**
+ * Restaurant ids the user may see, or null when the user is a global admin
+ */
+export const getAccessibleRestaurantIds = (
+  globalRole: UserRole | null,
+  access: RestaurantAccess[]
+): string[] | null => {
+  if (globalRole === 'admin') return null;
+  return access.map(entry => entry.restaurantId);
+};
+
+/**
+ * Remove pay and identity data the user is not allowed to see
+ */
+export const redactEmployee = (employee: Employee): Employee => {
+  const redacted = { ...employee };
+  delete redacted.hourlyRate;
+  delete redacted.grossMonthlySalary;
+  delete redacted.socialSecurityNumber;
+  return redacted;
+};
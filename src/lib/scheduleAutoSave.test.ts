@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Shift } from '../types';
+import { ShiftVersionConflictError } from './dataService';
+import { offlineStore } from './offlineStore';
+import { NewScheduleOperation, ScheduleOperation, scheduleAutoSaveService } from './scheduleAutoSave';
+import { MockScheduleSyncBackend } from './scheduleSyncBackends';
+
+// The backends only need the conflict error of the data layer, not Supabase
+vi.mock('./dataService', () => ({
+  dataService: {},
+  ShiftVersionConflictError: class ShiftVersionConflictError extends Error {
+    constructor(public remoteShift: Shift | null) {
+      super('Shift was modified by another user');
+      this.name = 'ShiftVersionConflictError';
+    }
+  }
+}));
+
+// Online/offline events come from window; the operation log falls back to memory without IndexedDB
+vi.stubGlobal('window', new EventTarget());
+vi.stubGlobal('navigator', { onLine: true, userAgent: 'vitest' });
+
+const SCHEDULE = { id: 'schedule-1', restaurantId: 'restaurant-1', weekStartDate: '2025-03-03', shifts: [] };
+
+const shift = (overrides: Partial<Shift> = {}): Shift => ({
+  id: 'shift-1',
+  restaurantId: 'restaurant-1',
+  employeeId: 'employee-1',
+  day: 0,
+  start: '09:00',
+  end: '14:00',
+  position: 'Serveur',
+  type: 'morning',
+  weekStartDate: '2025-03-03',
+  ...overrides
+});
+
+const queue = (operation: Omit<NewScheduleOperation, 'schedule'>) =>
+  scheduleAutoSaveService.queueOperation({ ...operation, schedule: SCHEDULE });
+
+const setOnline = (online: boolean) => window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+
+describe('ScheduleAutoSaveService', () => {
+  let backend: MockScheduleSyncBackend;
+
+  beforeEach(async () => {
+    await offlineStore.clear('scheduleOperations');
+    backend = new MockScheduleSyncBackend(0);
+    scheduleAutoSaveService.initialize(backend);
+    setOnline(true);
+    await scheduleAutoSaveService.syncNow();
+  });
+
+  afterEach(() => {
+    scheduleAutoSaveService.cleanup();
+  });
+
+  it('keeps operations in the log while offline', async () => {
+    setOnline(false);
+    backend.setAvailable(false);
+    await queue({ type: 'create', shift: shift() });
+    await scheduleAutoSaveService.syncNow();
+
+    expect(scheduleAutoSaveService.getState()).toMatchObject({ status: 'offline', pendingCount: 1, isOnline: false });
+    expect(await scheduleAutoSaveService.getPendingOperations()).toMatchObject([{ type: 'create', attempts: 0 }]);
+    expect(backend.getShifts()).toEqual([]);
+  });
+
+  it('replays the log in seq order on reconnect', async () => {
+    const applied: ScheduleOperation[] = [];
+    const applyOperation = backend.applyOperation.bind(backend);
+    vi.spyOn(backend, 'applyOperation').mockImplementation(operation => {
+      applied.push(operation);
+      return applyOperation(operation);
+    });
+
+    setOnline(false);
+    backend.setAvailable(false);
+    const created = shift();
+    const updated = shift({ start: '10:00', version: 2 });
+    await queue({ type: 'create', shift: created });
+    await queue({ type: 'update', shift: updated, previousShift: created });
+    await queue({ type: 'create', shift: shift({ id: 'shift-2', day: 1 }) });
+    await queue({ type: 'delete', shift: shift({ id: 'shift-2', day: 1 }) });
+
+    backend.setAvailable(true);
+    setOnline(true);
+    await scheduleAutoSaveService.syncNow();
+
+    const seqs = applied.map(operation => operation.seq!);
+    expect(seqs).toEqual([...seqs].sort((a, b) => a - b));
+    expect(applied.map(operation => operation.type)).toEqual(['create', 'update', 'create', 'delete']);
+    expect(backend.getShifts()).toEqual([updated]);
+    expect(scheduleAutoSaveService.getState()).toMatchObject({ status: 'success', pendingCount: 0 });
+  });
+
+  it('stops at a transient error and retries it later', async () => {
+    backend.setAvailable(false);
+    await queue({ type: 'create', shift: shift() });
+    await queue({ type: 'create', shift: shift({ id: 'shift-2' }) });
+    await scheduleAutoSaveService.syncNow();
+
+    expect(scheduleAutoSaveService.getState()).toMatchObject({ status: 'error', pendingCount: 2 });
+    const [first, second] = await scheduleAutoSaveService.getPendingOperations();
+    expect(first).toMatchObject({ attempts: 1, lastError: 'Failed to fetch' });
+    expect(second.attempts).toBe(0);
+
+    backend.setAvailable(true);
+    await scheduleAutoSaveService.syncNow();
+
+    expect(backend.getShifts().map(s => s.id)).toEqual(['shift-1', 'shift-2']);
+    expect(scheduleAutoSaveService.getState()).toMatchObject({ status: 'success', pendingCount: 0 });
+  });
+
+  it('drops a rejected operation, hands it to the rollback listener and carries on', async () => {
+    const rejected: [ScheduleOperation, unknown][] = [];
+    const unsubscribe = scheduleAutoSaveService.onOperationRejected((operation, error) => {
+      rejected.push([operation, error]);
+    });
+
+    // Someone else already saved version 2 of the shift
+    const remote = shift({ start: '11:00', version: 2 });
+    await queue({ type: 'create', shift: remote });
+    const stale = shift({ version: 1 });
+    await queue({ type: 'update', shift: shift({ start: '08:00', version: 2 }), previousShift: stale });
+    await queue({ type: 'create', shift: shift({ id: 'shift-2' }) });
+    await scheduleAutoSaveService.syncNow();
+    unsubscribe();
+
+    expect(rejected).toHaveLength(1);
+    const [operation, error] = rejected[0];
+    expect(operation).toMatchObject({ type: 'update', previousShift: stale });
+    expect(error).toBeInstanceOf(ShiftVersionConflictError);
+    expect((error as ShiftVersionConflictError).remoteShift).toEqual(remote);
+
+    expect(backend.getShifts()).toEqual([remote, shift({ id: 'shift-2' })]);
+    expect(await scheduleAutoSaveService.getPendingOperations()).toEqual([]);
+    expect(scheduleAutoSaveService.getState().status).toBe('success');
+  });
+});
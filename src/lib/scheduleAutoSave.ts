@@ -1,20 +1,69 @@
-import { Shift } from '../types';
+import { Schedule, Shift } from '../types';
+import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
+import { offlineStore } from './offlineStore';
 
 // Constants for auto-save configuration
-const AUTO_SAVE_INTERVAL = 30000; // 30 seconds
+const AUTO_SAVE_INTERVAL = 30000; // 30 seconds - also the retry interval while offline
 const INACTIVITY_TIMEOUT = 3000; // 3 seconds of inactivity before saving
+const OPERATIONS_STORE = 'scheduleOperations';
+
+export type ScheduleOperationType = 'create' | 'update' | 'delete';
+
+/**
+ * One entry of the durable operation log. Operations are replayed against the
+ * backend in `seq` order so the server ends up in the same state as the UI.
+ */
+export interface ScheduleOperation {
+  seq?: number;
+  id: string;
+  type: ScheduleOperationType;
+  // For 'delete' this is the shift that was removed
+  shift: Shift;
+  // State before the edit, used to roll back if the server rejects the operation
+  previousShift?: Shift;
+  schedule: Pick<Schedule, 'id' | 'restaurantId' | 'weekStartDate'>;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type NewScheduleOperation = Pick<ScheduleOperation, 'type' | 'shift' | 'previousShift' | 'schedule'>;
+
+export interface ScheduleSyncBackend {
+  applyOperation(operation: ScheduleOperation): Promise<void>;
+  // Network failures are retried later, anything else rejects the operation
+  isTransientError(error: unknown): boolean;
+}
+
+export type ScheduleSyncStatus = 'idle' | 'saving' | 'success' | 'error' | 'offline';
+
+export interface ScheduleSyncState {
+  status: ScheduleSyncStatus;
+  pendingCount: number;
+  lastSynced: Date | null;
+  isOnline: boolean;
+}
+
+type SyncStateListener = (state: ScheduleSyncState) => void;
+type RejectedOperationListener = (operation: ScheduleOperation, error: unknown) => void;
 
 export class ScheduleAutoSaveService {
   private static instance: ScheduleAutoSaveService;
   private autoSaveTimer: NodeJS.Timeout | null = null;
   private inactivityTimer: NodeJS.Timeout | null = null;
-  private lastSaveTime: number = 0;
-  private pendingChanges: boolean = false;
-  private saveCallback: ((shifts: Shift[]) => void) | null = null;
-  private currentShifts: Shift[] = [];
+  private backend: ScheduleSyncBackend | null = null;
+  private syncPromise: Promise<void> | null = null;
   private isEnabled: boolean = true;
   private language: 'en' | 'fr' = 'fr';
+  private state: ScheduleSyncState = {
+    status: 'idle',
+    pendingCount: 0,
+    lastSynced: null,
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine
+  };
+  private stateListeners: Set<SyncStateListener> = new Set();
+  private rejectedListeners: Set<RejectedOperationListener> = new Set();
 
   private constructor() {}
 
@@ -27,61 +76,87 @@ export class ScheduleAutoSaveService {
 
   /**
    * Initialize the auto-save service
-   * @param saveCallback Function to call when auto-saving
-   * @param initialShifts Initial shifts data
+   * @param backend Backend the operation log is replayed against
    * @param language UI language ('en' or 'fr')
    */
-  public initialize(
-    saveCallback: (shifts: Shift[]) => void,
-    initialShifts: Shift[] = [],
-    language: 'en' | 'fr' = 'fr'
-  ): void {
-    this.saveCallback = saveCallback;
-    this.currentShifts = [...initialShifts];
+  public initialize(backend: ScheduleSyncBackend, language: 'en' | 'fr' = 'fr'): void {
+    this.backend = backend;
     this.language = language;
     this.startAutoSaveTimer();
-    
+
     console.log('🔄 Schedule auto-save service initialized');
-    
-    // Setup beforeunload handler to save before page close/refresh
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    // Setup beforeunload handler to warn before losing non-durable changes
     window.addEventListener('beforeunload', this.handleBeforeUnload);
+
+    // CRITICAL: Replay anything left over from a previous session (crash, closed tab)
+    this.refreshPendingCount().then(() => this.syncNow());
   }
 
   /**
-   * Update the current shifts data and mark as having pending changes
-   * @param shifts Updated shifts data
+   * Append an edit to the durable operation log and schedule a sync
    */
-  public updateShifts(shifts: Shift[]): void {
-    this.currentShifts = [...shifts];
-    this.pendingChanges = true;
+  public async queueOperation(operation: NewScheduleOperation): Promise<void> {
+    const { id, restaurantId, weekStartDate } = operation.schedule;
+    const entry: ScheduleOperation = {
+      ...operation,
+      // Only the schedule identity is needed to replay, not its shifts
+      schedule: { id, restaurantId, weekStartDate },
+      id: uuidv4(),
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    };
+
+    await offlineStore.put(OPERATIONS_STORE, entry);
+    console.log('📝 Schedule operation queued:', entry.type, entry.shift.id);
+
+    await this.refreshPendingCount();
     this.resetInactivityTimer();
-    
-    // If it's been more than 5 minutes since last save, save immediately
-    const timeSinceLastSave = Date.now() - this.lastSaveTime;
-    if (timeSinceLastSave > 5 * 60 * 1000) {
-      this.saveNow();
-    }
   }
 
   /**
-   * Force an immediate save
+   * Operations that have not reached the server yet, in replay order
+   */
+  public getPendingOperations(): Promise<ScheduleOperation[]> {
+    return offlineStore.getAll<ScheduleOperation>(OPERATIONS_STORE);
+  }
+
+  public getState(): ScheduleSyncState {
+    return this.state;
+  }
+
+  public subscribe(listener: SyncStateListener): () => void {
+    this.stateListeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called when the server refuses an operation (validation, permissions).
+   * The operation is dropped from the log; listeners should undo it locally.
+   */
+  public onOperationRejected(listener: RejectedOperationListener): () => void {
+    this.rejectedListeners.add(listener);
+    return () => {
+      this.rejectedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Force an immediate sync of the operation log
    */
-  public saveNow(): void {
-    if (!this.saveCallback || !this.pendingChanges) return;
-    
-    try {
-      this.saveCallback(this.currentShifts);
-      this.lastSaveTime = Date.now();
-      this.pendingChanges = false;
-      
-      // Show subtle notification
-      this.showSaveNotification(true);
-      
-      console.log('✅ Schedule auto-saved successfully');
-    } catch (error) {
-      console.error('❌ Schedule auto-save failed:', error);
-      this.showSaveNotification(false);
+  public syncNow(): Promise<void> {
+    // CRITICAL: Never replay the log twice in parallel, operations must stay ordered
+    if (!this.syncPromise) {
+      this.syncPromise = this.replayOperations().finally(() => {
+        this.syncPromise = null;
+      });
     }
+    return this.syncPromise;
   }
 
   /**
@@ -90,13 +165,13 @@ export class ScheduleAutoSaveService {
    */
   public setEnabled(enabled: boolean): void {
     this.isEnabled = enabled;
-    
+
     if (enabled) {
       this.startAutoSaveTimer();
     } else {
       this.stopAutoSaveTimer();
     }
-    
+
     console.log(`🔄 Schedule auto-save ${enabled ? 'enabled' : 'disabled'}`);
   }
 
@@ -109,19 +184,75 @@ export class ScheduleAutoSaveService {
   }
 
   /**
-   * Clean up resources when component unmounts
+   * Clean up resources when the app unmounts. Pending operations stay in the log.
    */
   public cleanup(): void {
-    // Save any pending changes before cleanup
-    if (this.pendingChanges) {
-      this.saveNow();
-    }
-    
     this.stopAutoSaveTimer();
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
     window.removeEventListener('beforeunload', this.handleBeforeUnload);
+    this.backend = null;
     console.log('🧹 Schedule auto-save service cleaned up');
   }
 
+  private async replayOperations(): Promise<void> {
+    const backend = this.backend;
+    if (!backend || !this.isEnabled) return;
+
+    const operations = await this.getPendingOperations();
+    if (operations.length === 0) return;
+
+    if (!this.state.isOnline) {
+      this.setState({ status: 'offline' });
+      return;
+    }
+
+    console.log(`🔄 Replaying ${operations.length} schedule operation(s)...`);
+    this.setState({ status: 'saving' });
+
+    for (const operation of operations) {
+      try {
+        await backend.applyOperation(operation);
+        await offlineStore.delete(OPERATIONS_STORE, operation.seq!);
+      } catch (error) {
+        if (backend.isTransientError(error)) {
+          // CRITICAL: Stop at the first network failure so later operations keep their order
+          console.warn('⚠️ Schedule sync interrupted, will retry:', error);
+          await offlineStore.put(OPERATIONS_STORE, {
+            ...operation,
+            attempts: operation.attempts + 1,
+            lastError: error instanceof Error ? error.message : String(error)
+          });
+          await this.refreshPendingCount();
+          this.setState({ status: this.state.isOnline ? 'error' : 'offline' });
+          if (this.state.isOnline) {
+            this.showSaveNotification(false);
+          }
+          return;
+        }
+
+        console.error('❌ Schedule operation rejected by server:', operation.type, operation.shift.id, error);
+        await offlineStore.delete(OPERATIONS_STORE, operation.seq!);
+        this.rejectedListeners.forEach(listener => listener(operation, error));
+      }
+    }
+
+    await this.refreshPendingCount();
+    this.setState({ status: 'success', lastSynced: new Date() });
+    this.showSaveNotification(true);
+    console.log('✅ Schedule operations synced successfully');
+  }
+
+  private async refreshPendingCount(): Promise<void> {
+    const pendingCount = await offlineStore.count(OPERATIONS_STORE);
+    this.setState({ pendingCount });
+  }
+
+  private setState(partial: Partial<ScheduleSyncState>): void {
+    this.state = { ...this.state, ...partial };
+    this.stateListeners.forEach(listener => listener(this.state));
+  }
+
   /**
    * Start the auto-save timer
    */
@@ -129,10 +260,10 @@ export class ScheduleAutoSaveService {
     if (this.autoSaveTimer) {
       clearInterval(this.autoSaveTimer);
     }
-    
+
     this.autoSaveTimer = setInterval(() => {
-      if (this.isEnabled && this.pendingChanges) {
-        this.saveNow();
+      if (this.isEnabled && this.state.pendingCount > 0) {
+        this.syncNow();
       }
     }, AUTO_SAVE_INTERVAL);
   }
@@ -145,7 +276,7 @@ export class ScheduleAutoSaveService {
       clearInterval(this.autoSaveTimer);
       this.autoSaveTimer = null;
     }
-    
+
     if (this.inactivityTimer) {
       clearTimeout(this.inactivityTimer);
       this.inactivityTimer = null;
@@ -159,10 +290,10 @@ export class ScheduleAutoSaveService {
     if (this.inactivityTimer) {
       clearTimeout(this.inactivityTimer);
     }
-    
+
     this.inactivityTimer = setTimeout(() => {
-      if (this.isEnabled && this.pendingChanges) {
-        this.saveNow();
+      if (this.isEnabled && this.state.pendingCount > 0) {
+        this.syncNow();
       }
     }, INACTIVITY_TIMEOUT);
   }
@@ -189,8 +320,8 @@ export class ScheduleAutoSaveService {
       );
     } else {
       toast(
-        this.language === 'fr' 
-          ? 'Échec de la sauvegarde automatique' 
+        this.language === 'fr'
+          ? 'Échec de la sauvegarde automatique'
           : 'Auto-save failed',
         {
           icon: '⚠️',
@@ -207,14 +338,23 @@ export class ScheduleAutoSaveService {
     }
   }
 
+  private handleOnline = (): void => {
+    console.log('🌐 Connection restored, syncing schedule changes');
+    this.setState({ isOnline: true, status: this.state.pendingCount > 0 ? 'saving' : 'idle' });
+    this.syncNow();
+  };
+
+  private handleOffline = (): void => {
+    console.warn('📴 Connection lost, schedule changes will be kept locally');
+    this.setState({ isOnline: false, status: 'offline' });
+  };
+
   /**
-   * Handle beforeunload event to save before page close/refresh
+   * Handle beforeunload event. Durable operations survive the reload, so only
+   * warn when the log lives in memory.
    */
   private handleBeforeUnload = (event: BeforeUnloadEvent): void => {
-    if (this.pendingChanges) {
-      // Try to save before unload
-      this.saveNow();
-      
+    if (this.state.pendingCount > 0 && !offlineStore.isDurable()) {
       // Modern browsers ignore this message but require a return value
       // to trigger the confirmation dialog
       event.preventDefault();
@@ -223,5 +363,44 @@ export class ScheduleAutoSaveService {
   };
 }
 
+/**
+ * Re-apply operations that have not been synced yet on top of schedules
+ * loaded from the server, so a reload does not hide offline edits.
+ */
+export const applyPendingOperations = (
+  schedules: Schedule[],
+  operations: ScheduleOperation[]
+): Schedule[] => {
+  return operations.reduce((result, operation) => {
+    const { shift, schedule: target } = operation;
+    let found = false;
+
+    const updated = result.map(schedule => {
+      if (schedule.restaurantId !== target.restaurantId || schedule.weekStartDate !== target.weekStartDate) {
+        return schedule;
+      }
+      found = true;
+
+      if (operation.type === 'delete') {
+        return { ...schedule, shifts: schedule.shifts.filter(s => s.id !== shift.id) };
+      }
+
+      const exists = schedule.shifts.some(s => s.id === shift.id);
+      return {
+        ...schedule,
+        shifts: exists
+          ? schedule.shifts.map(s => (s.id === shift.id ? shift : s))
+          : [...schedule.shifts, shift]
+      };
+    });
+
+    if (!found && operation.type !== 'delete') {
+      updated.push({ ...target, shifts: [shift] });
+    }
+
+    return updated;
+  }, schedules);
+};
+
 // Export singleton instance
-export const scheduleAutoSaveService = ScheduleAutoSaveService.getInstance();
\ No newline at end of file
+export const scheduleAutoSaveService = ScheduleAutoSaveService.getInstance();
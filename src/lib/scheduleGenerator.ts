@@ -0,0 +1,449 @@
+// CRITICAL: Automatic weekly schedule generation from staffing requirements
+import { addDays, addWeeks, format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Employee,
+  EmployeeAvailability,
+  EmployeePreference,
+  LaborRulePack,
+  Schedule,
+  Shift,
+  StaffingRequirement,
+  SHIFT_TYPES
+} from '../types';
+import { calculateProRatedContractHours, calculateTimeInHours } from './scheduleUtils';
+import { FrenchLaborLawValidator, LaborLawViolation } from './laborLawValidation';
+import { resolveRulePack } from './laborRulePacks';
+import { findAvailabilityOverlaps } from './availabilityResolver';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Why a given employee could not take a slot
+export type AssignmentRejectionReason =
+  | 'position'
+  | 'contract_period'
+  | 'absent'
+  | 'already_working'
+  | 'unavailable'
+  | 'max_daily_hours'
+  | 'contract_hours'
+  | 'daily_rest'
+  | 'weekly_rest'
+  | 'labor_law';
+
+export interface AssignmentRejection {
+  employeeId: string;
+  employeeName: string;
+  reason: AssignmentRejectionReason;
+  details?: string; // Violation message when the labor law validator removed the shift
+}
+
+export interface UnfilledSlot {
+  requirement: StaffingRequirement;
+  missing: number;
+  rejections: AssignmentRejection[];
+}
+
+export interface ScheduleGenerationInput {
+  restaurantId: string;
+  restaurantRulePackId?: string; // Labor rule pack of the restaurant (employees may have their own)
+  weekStartDate: Date;
+  employees: Employee[];
+  requirements: StaffingRequirement[];
+  existingShifts: Shift[];
+  schedules: Schedule[]; // Other weeks of the restaurant, for the rules spanning weeks
+  availabilities: EmployeeAvailability[];
+  preferences: EmployeePreference[];
+}
+
+export interface ScheduleGenerationResult {
+  shifts: Shift[]; // Generated shifts and weekly rest markers, existing shifts excluded
+  unfilled: UnfilledSlot[];
+  // Critical violations already present in the existing shifts (generated shifts never add any)
+  existingViolations: LaborLawViolation[];
+}
+
+interface EmployeeWeekState {
+  employee: Employee;
+  preference?: EmployeePreference;
+  availabilities: EmployeeAvailability[];
+  rules: LaborRulePack['rules']; // Thresholds of the employee's labor rule pack
+  hoursCap: number;
+  hours: number;
+  workingShifts: Shift[];
+  adjacentShifts: Shift[]; // Previous Sunday as day -1 and next Monday as day 7
+  statusDays: Set<number>;
+  hasWeeklyRest: boolean;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Absolute [start, end) in minutes from the week start, overnight shifts end the next day
+const getShiftRange = (day: number, start: string, end: string): [number, number] => {
+  const startMinutes = day * MINUTES_PER_DAY + toMinutes(start);
+  let endMinutes = day * MINUTES_PER_DAY + toMinutes(end);
+  if (endMinutes <= startMinutes) endMinutes += MINUTES_PER_DAY;
+  return [startMinutes, endMinutes];
+};
+
+const rangesOverlap = (a: [number, number], b: [number, number]): boolean => a[0] < b[1] && b[0] < a[1];
+
+const getEmployeeName = (employee: Employee): string => `${employee.firstName} ${employee.lastName}`;
+
+const matchesPosition = (state: EmployeeWeekState, position: string): boolean =>
+  state.employee.position === position || !!state.preference?.preferredPositions.includes(position);
+
+const getWorkingDays = (state: EmployeeWeekState): Set<number> =>
+  new Set(state.workingShifts.map(shift => shift.day));
+
+/**
+ * Hard constraints: returns the first rule the assignment would break, or null
+ */
+const checkAssignment = (
+  state: EmployeeWeekState,
+  requirement: StaffingRequirement,
+  weekStartDate: Date
+): AssignmentRejectionReason | null => {
+  const { employee } = state;
+  const { day, start, end } = requirement;
+
+  const shiftDate = addDays(weekStartDate, day);
+  if (shiftDate < parseISO(employee.startDate) || (employee.endDate && shiftDate > parseISO(employee.endDate))) {
+    return 'contract_period';
+  }
+
+  if (state.statusDays.has(day)) return 'absent';
+
+  const range = getShiftRange(day, start, end);
+  const dayShifts = state.workingShifts.filter(shift => shift.day === day);
+  const { rules } = state;
+  const minimumGap = rules.minCoupureMinutes?.limit ?? 0;
+  // A second service on the same day is only possible as a proper coupure
+  const clashes = dayShifts.some(shift => {
+    const [otherStart, otherEnd] = getShiftRange(shift.day, shift.start, shift.end);
+    return rangesOverlap([range[0] - minimumGap, range[1] + minimumGap], [otherStart, otherEnd]);
+  });
+  if (clashes) return 'already_working';
+
+  const blocked = findAvailabilityOverlaps(state.availabilities, weekStartDate, day, start, end)
+    .some(({ availability }) => availability.type === 'UNAVAILABLE');
+  if (blocked) return 'unavailable';
+
+  const shiftHours = calculateTimeInHours(start, end);
+  const dayHours = dayShifts.reduce((total, shift) => total + calculateTimeInHours(shift.start, shift.end), 0);
+  if (rules.maxDailyHours && dayHours + shiftHours > rules.maxDailyHours.limit) return 'max_daily_hours';
+
+  if (state.hours + shiftHours > state.hoursCap) return 'contract_hours';
+
+  // Daily rest (11h in France) between the end of a workday and the start of the next one
+  const minimumRest = (rules.dailyRestHours?.limit ?? 0) * 60;
+  const dayStart = Math.min(range[0], ...dayShifts.map(shift => getShiftRange(shift.day, shift.start, shift.end)[0]));
+  const dayEnd = Math.max(range[1], ...dayShifts.map(shift => getShiftRange(shift.day, shift.start, shift.end)[1]));
+  const restBroken = [...state.workingShifts, ...state.adjacentShifts].some(shift => {
+    const [otherStart, otherEnd] = getShiftRange(shift.day, shift.start, shift.end);
+    if (shift.day === day - 1) return dayStart - otherEnd < minimumRest;
+    if (shift.day === day + 1) return otherStart - dayEnd < minimumRest;
+    return false;
+  });
+  if (restBroken) return 'daily_rest';
+
+  const workingDays = getWorkingDays(state);
+  const maxConsecutiveDays = rules.maxConsecutiveDays?.limit ?? 7;
+  if (!workingDays.has(day)) {
+    const newDayCount = workingDays.size + 1;
+    const freeDayLeft = [0, 1, 2, 3, 4, 5, 6].some(d => d !== day && !workingDays.has(d) && !state.statusDays.has(d));
+    if (
+      newDayCount > maxConsecutiveDays ||
+      (newDayCount === maxConsecutiveDays && !state.hasWeeklyRest && !freeDayLeft)
+    ) {
+      return 'weekly_rest';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Soft constraints: higher is better
+ */
+const scoreAssignment = (
+  state: EmployeeWeekState,
+  requirement: StaffingRequirement,
+  weekStartDate: Date
+): number => {
+  const { preference } = state;
+  let score = 0;
+
+  if (state.employee.position === requirement.position) score += 2;
+  if (preference?.preferredDays.includes(requirement.day)) score += 3;
+  if (preference?.preferredShifts.includes(requirement.type)) score += 2;
+  if (preference && state.hours < preference.preferredHours.min) score += 1;
+
+  findAvailabilityOverlaps(
+    state.availabilities,
+    weekStartDate,
+    requirement.day,
+    requirement.start,
+    requirement.end
+  ).forEach(({ availability }) => {
+    if (availability.type === 'PREFERRED') score += 3;
+    if (availability.type === 'LIMITED') score -= 3;
+  });
+
+  // Spread hours fairly: employees far from their contract hours come first
+  if (state.hoursCap > 0) {
+    score += ((state.hoursCap - state.hours) / state.hoursCap) * 4;
+  }
+
+  return score;
+};
+
+const isWorkingShift = (shift: Shift): boolean => !!shift.start && !!shift.end && !shift.status;
+
+// Working shifts of the days touching the week, renumbered relative to it
+const getAdjacentShifts = (input: ScheduleGenerationInput, employeeId: string): Shift[] =>
+  [{ offset: -1, day: 6 }, { offset: 1, day: 0 }].flatMap(({ offset, day }) => {
+    const weekKey = format(addWeeks(input.weekStartDate, offset), 'yyyy-MM-dd');
+    const schedule = input.schedules.find(s => s.restaurantId === input.restaurantId && s.weekStartDate === weekKey);
+    return (schedule?.shifts ?? [])
+      .filter(shift => shift.employeeId === employeeId && shift.day === day && isWorkingShift(shift))
+      .map(shift => ({ ...shift, day: day + offset * 7 }));
+  });
+
+const buildEmployeeStates = (input: ScheduleGenerationInput): Map<string, EmployeeWeekState> => {
+  const states = new Map<string, EmployeeWeekState>();
+
+  input.employees.forEach(employee => {
+    const preference = input.preferences.find(p => p.employeeId === employee.id);
+    const employeeShifts = input.existingShifts.filter(shift => shift.employeeId === employee.id);
+    const workingShifts = employeeShifts.filter(isWorkingShift);
+    const { rules } = resolveRulePack(employee, input.restaurantRulePackId, input.weekStartDate);
+
+    const contractHours = calculateProRatedContractHours(
+      employee.startDate,
+      employee.endDate,
+      input.weekStartDate,
+      employee.weeklyHours
+    );
+    let hoursCap = Math.min(contractHours, rules.maxWeeklyHours?.limit ?? Infinity);
+    if (preference && preference.preferredHours.max > 0) {
+      hoursCap = Math.min(hoursCap, preference.preferredHours.max);
+    }
+
+    states.set(employee.id, {
+      employee,
+      preference,
+      availabilities: input.availabilities.filter(a => a.employeeId === employee.id),
+      rules,
+      hoursCap,
+      hours: workingShifts.reduce((total, shift) => total + calculateTimeInHours(shift.start, shift.end), 0),
+      workingShifts,
+      adjacentShifts: getAdjacentShifts(input, employee.id),
+      statusDays: new Set(employeeShifts.filter(shift => shift.status).map(shift => shift.day)),
+      hasWeeklyRest: employeeShifts.some(shift => shift.status === 'WEEKLY_REST')
+    });
+  });
+
+  return states;
+};
+
+/**
+ * Existing shifts already covering a requirement (same day and position, overlapping hours)
+ */
+const countExistingCoverage = (
+  requirement: StaffingRequirement,
+  existingShifts: Shift[],
+  usedShiftIds: Set<string>
+): number => {
+  const range = getShiftRange(requirement.day, requirement.start, requirement.end);
+  let covered = 0;
+
+  existingShifts.forEach(shift => {
+    if (covered >= requirement.headcount || usedShiftIds.has(shift.id)) return;
+    if (shift.status || !shift.start || !shift.end) return;
+    if (shift.day !== requirement.day || shift.position !== requirement.position) return;
+    if (!rangesOverlap(range, getShiftRange(shift.day, shift.start, shift.end))) return;
+
+    usedShiftIds.add(shift.id);
+    covered++;
+  });
+
+  return covered;
+};
+
+/**
+ * Fill a week from staffing requirements. Existing shifts are kept and count towards
+ * coverage; generated shifts respect availabilities, contract hours and never introduce
+ * a critical FrenchLaborLawValidator violation. Slots that cannot be filled are returned
+ * with the reason each employee was rejected.
+ */
+export const generateWeekSchedule = (input: ScheduleGenerationInput): ScheduleGenerationResult => {
+  console.log('🤖 Generating schedule for week:', format(input.weekStartDate, 'yyyy-MM-dd'));
+
+  const states = buildEmployeeStates(input);
+  const generated: Shift[] = [];
+  const requirementByShiftId = new Map<string, StaffingRequirement>();
+  const unfilledById = new Map<string, UnfilledSlot>();
+  const usedExistingShiftIds = new Set<string>();
+
+  const markUnfilled = (requirement: StaffingRequirement, rejections: AssignmentRejection[]) => {
+    const slot = unfilledById.get(requirement.id);
+    if (slot) {
+      slot.missing++;
+      slot.rejections.push(...rejections.filter(r => !slot.rejections.some(
+        existing => existing.employeeId === r.employeeId && existing.reason === r.reason
+      )));
+    } else {
+      unfilledById.set(requirement.id, { requirement, missing: 1, rejections: [...rejections] });
+    }
+  };
+
+  const sortedRequirements = [...input.requirements].sort((a, b) =>
+    a.day - b.day || a.start.localeCompare(b.start) || a.position.localeCompare(b.position)
+  );
+
+  sortedRequirements.forEach(requirement => {
+    const alreadyCovered = countExistingCoverage(requirement, input.existingShifts, usedExistingShiftIds);
+
+    for (let seat = alreadyCovered; seat < requirement.headcount; seat++) {
+      const rejections: AssignmentRejection[] = [];
+      let best: { state: EmployeeWeekState; score: number } | null = null;
+
+      for (const state of states.values()) {
+        const reason = matchesPosition(state, requirement.position)
+          ? checkAssignment(state, requirement, input.weekStartDate)
+          : 'position';
+
+        if (reason) {
+          rejections.push({ employeeId: state.employee.id, employeeName: getEmployeeName(state.employee), reason });
+          continue;
+        }
+
+        const score = scoreAssignment(state, requirement, input.weekStartDate);
+        if (
+          !best ||
+          score > best.score ||
+          (score === best.score && getEmployeeName(state.employee).localeCompare(getEmployeeName(best.state.employee)) < 0)
+        ) {
+          best = { state, score };
+        }
+      }
+
+      if (!best) {
+        // Employees of other positions are only worth mentioning when nobody qualifies
+        markUnfilled(requirement, rejections.filter(r => r.reason !== 'position'));
+        continue;
+      }
+
+      const { state } = best;
+      const sameDayShifts = state.workingShifts.filter(shift => shift.day === requirement.day);
+      const shift: Shift = {
+        id: uuidv4(),
+        restaurantId: input.restaurantId,
+        employeeId: state.employee.id,
+        day: requirement.day,
+        start: requirement.start,
+        end: requirement.end,
+        position: requirement.position,
+        color: SHIFT_TYPES[requirement.type].color,
+        type: requirement.type,
+        weekStartDate: format(input.weekStartDate, 'yyyy-MM-dd')
+      };
+
+      // Two services on the same day form a coupure group
+      if (sameDayShifts.length > 0) {
+        const group = sameDayShifts[0].shiftGroup || uuidv4();
+        sameDayShifts.forEach(existing => {
+          if (generated.includes(existing)) {
+            existing.shiftGroup = group;
+            existing.hasCoupure = true;
+          }
+        });
+        shift.shiftGroup = group;
+        shift.shiftOrder = sameDayShifts.length + 1;
+        shift.hasCoupure = true;
+      }
+
+      generated.push(shift);
+      requirementByShiftId.set(shift.id, requirement);
+      state.workingShifts.push(shift);
+      state.hours += calculateTimeInHours(shift.start, shift.end);
+    }
+  });
+
+  // CRITICAL: A week at the consecutive days limit (6 in France) needs a designated weekly rest day
+  states.forEach(state => {
+    const workingDays = getWorkingDays(state);
+    if (workingDays.size < (state.rules.maxConsecutiveDays?.limit ?? 7) || state.hasWeeklyRest) return;
+
+    const restDay = [6, 0, 1, 2, 3, 4, 5].find(d => !workingDays.has(d) && !state.statusDays.has(d));
+    if (restDay === undefined) return;
+
+    generated.push({
+      id: uuidv4(),
+      restaurantId: input.restaurantId,
+      employeeId: state.employee.id,
+      day: restDay,
+      start: '',
+      end: '',
+      position: state.employee.position,
+      type: 'morning',
+      status: 'WEEKLY_REST',
+      weekStartDate: format(input.weekStartDate, 'yyyy-MM-dd')
+    });
+    state.hasWeeklyRest = true;
+  });
+
+  // CRITICAL: Final safety net - drop generated shifts until the validator has no new critical violation
+  const existingViolations = getCriticalViolations(input, input.existingShifts);
+  const existingViolationIds = new Set(existingViolations.map(v => v.id));
+
+  for (let guard = generated.length; guard > 0; guard--) {
+    const introduced = getCriticalViolations(input, [...input.existingShifts, ...generated])
+      .filter(violation => !existingViolationIds.has(violation.id));
+    if (introduced.length === 0) break;
+
+    const violation = introduced[0];
+    const culprit = [...generated].reverse().find(shift =>
+      !shift.status && violation.affectedShifts.includes(shift.id)
+    );
+    if (!culprit) break;
+
+    console.warn('⚠️ Dropping generated shift after labor law check:', violation.message);
+    generated.splice(generated.indexOf(culprit), 1);
+
+    const requirement = requirementByShiftId.get(culprit.id);
+    const state = states.get(culprit.employeeId);
+    if (requirement && state) {
+      markUnfilled(requirement, [{
+        employeeId: state.employee.id,
+        employeeName: getEmployeeName(state.employee),
+        reason: 'labor_law',
+        details: violation.message
+      }]);
+    }
+  }
+
+  const unfilled = Array.from(unfilledById.values());
+  console.log('✅ Schedule generated:', {
+    shifts: generated.filter(shift => !shift.status).length,
+    unfilledSlots: unfilled.reduce((total, slot) => total + slot.missing, 0)
+  });
+
+  return { shifts: generated, unfilled, existingViolations };
+};
+
+const getCriticalViolations = (input: ScheduleGenerationInput, shifts: Shift[]): LaborLawViolation[] => {
+  const validator = new FrenchLaborLawValidator(
+    input.employees,
+    shifts,
+    input.weekStartDate,
+    input.schedules,
+    input.restaurantRulePackId
+  );
+  validator.validateWeeklySchedule();
+  return validator.getViolationsBySeverity('critical');
+};
@@ -0,0 +1,262 @@
+// CRITICAL: Schedule publication service - published versions of a week and what each employee is told
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { ScheduleDayChange, ScheduleNotification, ScheduleNotificationKind, SchedulePublication, Shift } from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+export const DEFAULT_PUBLICATION_NOTICE_DAYS = 7;
+
+// What makes an entry different for the employee: the hours, the absence status and the post
+const entryKey = (shift: Shift) => `${shift.start}-${shift.end}-${shift.status ?? ''}-${shift.position}`;
+
+const sortEntries = (shifts: Shift[]) => [...shifts].sort((a, b) => a.start.localeCompare(b.start));
+
+// Versions of a week, oldest first
+export const getWeekPublications = (
+  publications: SchedulePublication[],
+  restaurantId: string,
+  weekStartDate: string
+): SchedulePublication[] =>
+  publications
+    .filter(publication => publication.restaurantId === restaurantId && publication.weekStartDate === weekStartDate)
+    .sort((a, b) => a.version - b.version);
+
+// The version employees see: the latest one, unless the manager withdrew it
+export const getLivePublication = (
+  publications: SchedulePublication[],
+  restaurantId: string,
+  weekStartDate: string
+): SchedulePublication | undefined => {
+  const latest = getWeekPublications(publications, restaurantId, weekStartDate).pop();
+  return latest && !latest.unpublishedAt ? latest : undefined;
+};
+
+// Shifts employees can see: those of the live version of each published week
+export const getPublishedShifts = (
+  publications: SchedulePublication[],
+  restaurantId: string
+): { shift: Shift; weekStartDate: string }[] => {
+  const weekKeys = new Set(
+    publications
+      .filter(publication => publication.restaurantId === restaurantId)
+      .map(publication => publication.weekStartDate)
+  );
+  return Array.from(weekKeys).flatMap(weekKey =>
+    (getLivePublication(publications, restaurantId, weekKey)?.shifts ?? []).map(shift => ({ shift, weekStartDate: weekKey }))
+  );
+};
+
+/**
+ * Days that differ between two versions of a week, one per employee and day. A day is compared as a
+ * whole so that a split shift moved by an hour reads as one change.
+ */
+export const diffScheduleVersions = (before: Shift[], after: Shift[]): ScheduleDayChange[] => {
+  const days = new Map<string, ScheduleDayChange>();
+  const getDay = (shift: Shift) => {
+    const key = `${shift.employeeId}-${shift.day}`;
+    if (!days.has(key)) {
+      days.set(key, { employeeId: shift.employeeId, day: shift.day, before: [], after: [] });
+    }
+    return days.get(key)!;
+  };
+
+  before.forEach(shift => getDay(shift).before.push(shift));
+  after.forEach(shift => getDay(shift).after.push(shift));
+
+  return Array.from(days.values())
+    .map(change => ({ ...change, before: sortEntries(change.before), after: sortEntries(change.after) }))
+    .filter(change => change.before.map(entryKey).join('|') !== change.after.map(entryKey).join('|'))
+    .sort((a, b) => a.employeeId.localeCompare(b.employeeId) || a.day - b.day);
+};
+
+/**
+ * Changes notified less than the notice period before the day they concern. The planning must be
+ * communicated in advance: these ones need the employee's agreement or a documented reason.
+ */
+export const getLateChanges = (
+  changes: ScheduleDayChange[],
+  weekStartDate: string,
+  notifiedAt: string,
+  noticeDays: number
+): ScheduleDayChange[] => {
+  const notified = startOfDay(parseISO(notifiedAt));
+  return changes.filter(change =>
+    differenceInCalendarDays(addDays(parseISO(weekStartDate), change.day), notified) < noticeDays
+  );
+};
+
+export class SchedulePublicationService {
+  private static instance: SchedulePublicationService;
+
+  private constructor() {}
+
+  public static getInstance(): SchedulePublicationService {
+    if (!SchedulePublicationService.instance) {
+      SchedulePublicationService.instance = new SchedulePublicationService();
+    }
+    return SchedulePublicationService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) versions and notifications are kept locally per restaurant
+  private getPublicationsKey(restaurantId: string): string {
+    return `schedulePublications_${restaurantId}`;
+  }
+
+  private getNotificationsKey(restaurantId: string): string {
+    return `scheduleNotifications_${restaurantId}`;
+  }
+
+  private loadLocal<T>(key: string): T[] {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local schedule publications:', error);
+      return [];
+    }
+  }
+
+  private saveLocal<T extends { id: string }>(key: string, items: T[]): void {
+    const ids = new Set(items.map(item => item.id));
+    const kept = this.loadLocal<T>(key).filter(item => !ids.has(item.id));
+    localStorage.setItem(key, JSON.stringify([...kept, ...items]));
+  }
+
+  private async notify(
+    publication: SchedulePublication,
+    kind: ScheduleNotificationKind,
+    changes: ScheduleDayChange[]
+  ): Promise<ScheduleNotification[]> {
+    const timestamp = new Date().toISOString();
+    const employeeIds = Array.from(new Set(changes.map(change => change.employeeId)));
+    const notifications: ScheduleNotification[] = employeeIds.map(employeeId => ({
+      id: uuidv4(),
+      restaurantId: publication.restaurantId,
+      employeeId,
+      publicationId: publication.id,
+      weekStartDate: publication.weekStartDate,
+      version: publication.version,
+      kind,
+      changes: changes.filter(change => change.employeeId === employeeId),
+      createdAt: timestamp
+    }));
+
+    if (isSupabaseConfigured) {
+      await dataService.insertScheduleNotifications(notifications);
+    } else {
+      this.saveLocal(this.getNotificationsKey(publication.restaurantId), notifications);
+    }
+    return notifications;
+  }
+
+  async fetchPublications(restaurantIds: string[]): Promise<SchedulePublication[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchSchedulePublications(restaurantIds);
+    }
+
+    return restaurantIds
+      .flatMap(restaurantId => this.loadLocal<SchedulePublication>(this.getPublicationsKey(restaurantId)))
+      .sort((a, b) => a.publishedAt.localeCompare(b.publishedAt));
+  }
+
+  async fetchNotifications(restaurantIds: string[]): Promise<ScheduleNotification[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchScheduleNotifications(restaurantIds);
+    }
+
+    return restaurantIds
+      .flatMap(restaurantId => this.loadLocal<ScheduleNotification>(this.getNotificationsKey(restaurantId)))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Publishes the week as it is now, as a new version. Employees are told about their days that
+   * changed since the version they saw - all their days when the week was not on display.
+   */
+  async publish(
+    restaurantId: string,
+    weekStartDate: Date,
+    shifts: Shift[],
+    publications: SchedulePublication[],
+    userId?: string
+  ): Promise<{ publication: SchedulePublication; notifications: ScheduleNotification[] }> {
+    const weekKey = format(weekStartDate, 'yyyy-MM-dd');
+    const previous = getWeekPublications(publications, restaurantId, weekKey).pop();
+    const live = previous && !previous.unpublishedAt ? previous : undefined;
+    const changes = diffScheduleVersions(live?.shifts ?? [], shifts);
+
+    if (live && changes.length === 0) {
+      throw new Error(`Nothing changed since version ${live.version}`);
+    }
+    if (!live && shifts.length === 0) {
+      throw new Error('The week has no shifts to publish');
+    }
+
+    const publication: SchedulePublication = {
+      id: uuidv4(),
+      restaurantId,
+      weekStartDate: weekKey,
+      version: (previous?.version ?? 0) + 1,
+      // Snapshot: later edits of the week must not reach what was sent
+      shifts: JSON.parse(JSON.stringify(shifts)),
+      publishedBy: userId,
+      publishedAt: new Date().toISOString()
+    };
+
+    if (isSupabaseConfigured) {
+      await dataService.insertSchedulePublication(publication);
+    } else {
+      this.saveLocal(this.getPublicationsKey(restaurantId), [publication]);
+    }
+
+    const notifications = await this.notify(publication, live ? 'updated' : 'published', changes);
+    console.log('📣 Schedule published:', {
+      weekStartDate: weekKey,
+      version: publication.version,
+      changes: changes.length,
+      notified: notifications.length
+    });
+    return { publication, notifications };
+  }
+
+  // CRITICAL: Withdrawing keeps the version for the record, employees just stop seeing it
+  async unpublish(
+    publication: SchedulePublication,
+    userId?: string
+  ): Promise<{ publication: SchedulePublication; notifications: ScheduleNotification[] }> {
+    if (publication.unpublishedAt) {
+      throw new Error(`Version ${publication.version} is already withdrawn`);
+    }
+
+    const updated: SchedulePublication = {
+      ...publication,
+      unpublishedBy: userId,
+      unpublishedAt: new Date().toISOString()
+    };
+
+    if (isSupabaseConfigured) {
+      await dataService.withdrawSchedulePublication(updated);
+    } else {
+      this.saveLocal(this.getPublicationsKey(publication.restaurantId), [updated]);
+    }
+
+    const notifications = await this.notify(updated, 'withdrawn', diffScheduleVersions(publication.shifts, []));
+    console.log('🗑️ Schedule withdrawn:', { weekStartDate: publication.weekStartDate, version: publication.version });
+    return { publication: updated, notifications };
+  }
+
+  async markRead(notification: ScheduleNotification): Promise<ScheduleNotification> {
+    const updated: ScheduleNotification = { ...notification, readAt: new Date().toISOString() };
+
+    if (isSupabaseConfigured) {
+      await dataService.markScheduleNotificationRead(updated);
+    } else {
+      this.saveLocal(this.getNotificationsKey(notification.restaurantId), [updated]);
+    }
+    return updated;
+  }
+}
+
+// Export singleton instance
+export const schedulePublicationService = SchedulePublicationService.getInstance();
@@ -0,0 +1,103 @@
+import { Shift } from '../types';
+import { dataService, ShiftVersionConflictError } from './dataService';
+import { ScheduleOperation, ScheduleSyncBackend } from './scheduleAutoSave';
+
+// PostgreSQL unique violation - the insert already reached the server on a previous attempt
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Network failures surface as fetch TypeErrors (or messages wrapping them in supabase-js)
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+
+  const message = (error as { message?: string } | null)?.message ?? '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+// A delete carries the removed shift itself, an update the shift it replaced
+const expectedVersion = (operation: ScheduleOperation): number =>
+  (operation.type === 'delete' ? operation.shift.version : operation.previousShift?.version) ?? 1;
+
+/**
+ * Replays schedule operations against the Supabase `shifts` table
+ */
+export class SupabaseScheduleSyncBackend implements ScheduleSyncBackend {
+  async applyOperation(operation: ScheduleOperation): Promise<void> {
+    switch (operation.type) {
+      case 'create':
+        try {
+          await dataService.insertShift(operation.shift, operation.schedule);
+        } catch (error) {
+          // CRITICAL: Replaying an insert whose response was lost must not fail
+          if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+            await dataService.updateShift(operation.shift, operation.schedule);
+            return;
+          }
+          throw error;
+        }
+        return;
+      case 'update':
+        // CRITICAL: Only overwrite the version this edit started from
+        await dataService.updateShift(operation.shift, operation.schedule, expectedVersion(operation));
+        return;
+      case 'delete':
+        await dataService.deleteShift(operation.shift.id, expectedVersion(operation));
+        return;
+    }
+  }
+
+  isTransientError(error: unknown): boolean {
+    return isNetworkError(error);
+  }
+}
+
+/**
+ * In-memory backend used when Supabase is not configured (demo mode) and to
+ * exercise the offline queue by hand: toggle `setAvailable(false)` to simulate
+ * a dropped connection.
+ */
+export class MockScheduleSyncBackend implements ScheduleSyncBackend {
+  private shifts: Map<string, Shift> = new Map();
+  private available = true;
+  private latency: number;
+
+  constructor(latency: number = 300) {
+    this.latency = latency;
+  }
+
+  setAvailable(available: boolean): void {
+    this.available = available;
+    console.log(`🧪 Mock schedule backend ${available ? 'online' : 'offline'}`);
+  }
+
+  getShifts(): Shift[] {
+    return Array.from(this.shifts.values());
+  }
+
+  async applyOperation(operation: ScheduleOperation): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, this.latency));
+
+    if (!this.available || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+      throw new TypeError('Failed to fetch');
+    }
+
+    const stored = this.shifts.get(operation.shift.id);
+    if (operation.type !== 'create' && stored && (stored.version ?? 1) !== expectedVersion(operation)) {
+      throw new ShiftVersionConflictError(stored);
+    }
+
+    if (operation.type === 'delete') {
+      this.shifts.delete(operation.shift.id);
+    } else {
+      this.shifts.set(operation.shift.id, operation.shift);
+    }
+  }
+
+  isTransientError(error: unknown): boolean {
+    return isNetworkError(error);
+  }
+}
+
+export const mockScheduleSyncBackend = new MockScheduleSyncBackend();
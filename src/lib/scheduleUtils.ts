@@ -1,5 +1,6 @@
-import { Shift, DailyStatus } from '../types';
+import { Shift, DailyStatus, HolidayRegion } from '../types';
 import { addDays, parseISO, isWithinInterval, startOfWeek, endOfWeek } from 'date-fns';
+import { getPublicHoliday } from './holidayCalendar';
 
 export const calculateTimeInHours = (start: string, end: string): number => {
   if (!start || !end) return 0;
@@ -106,7 +107,8 @@ export const calculateEmployeeWeeklySummary = (
   employeeStartDate: string,
   employeeEndDate: string | null,
   weekStartDate: Date,
-  payBreakTimes: boolean = true // CRITICAL: New parameter for break payment setting
+  payBreakTimes: boolean = true, // CRITICAL: New parameter for break payment setting
+  holidayRegion: HolidayRegion = 'metropole' // Public holiday calendar of the restaurant
 ) => {
   console.log('📋 Starting weekly summary calculation for employee:', {
     shiftsCount: shifts.length,
@@ -130,7 +132,7 @@ export const calculateEmployeeWeeklySummary = (
   // Initialize counters
   let totalWorkedHours = 0; // ONLY actual hours worked (including Férié hours if scheduled)
   let totalAssimilatedHours = 0; // ONLY for CP days
-  let totalPublicHolidayHours = 0; // Track Férié (1er Mai) hours separately for display
+  let totalPublicHolidayHours = 0; // Track Férié hours separately for display
   let shiftCount = 0; // Count only valid services
 
   // Calculate daily contract hours (based on 6-day week as specified)
@@ -196,6 +198,8 @@ export const calculateEmployeeWeeklySummary = (
     const hours = dailyHours[day];
     const currentDayShifts = shiftsByDay[day] || [];
     const hasHolidayWorked = currentDayShifts.some(s => s.isHolidayWorked);
+    // CRITICAL: Any hour worked on a calendar public holiday gets the majoration, flagged or not
+    const publicHoliday = getPublicHoliday(addDays(weekStartDate, day), holidayRegion);
 
     if (status === 'WEEKLY_REST') {
       // Repos Hebdo: NO IMPACT on calculations - designated non-working day
@@ -229,9 +233,11 @@ export const calculateEmployeeWeeklySummary = (
       shiftCount += shiftsForCurrentDay.filter(s => s.start && s.end && (!s.status || s.isHolidayWorked)).length;
       
       // Check for worked holiday shifts (without status but with isHolidayWorked flag)
-      const holidayWorkedHours = shiftsForCurrentDay
-        .filter(s => s.isHolidayWorked && s.start && s.end)
-        .reduce((sum, s) => sum + calculateTimeInHours(s.start, s.end), 0);
+      const holidayWorkedHours = publicHoliday
+        ? hours
+        : shiftsForCurrentDay
+          .filter(s => s.isHolidayWorked && s.start && s.end)
+          .reduce((sum, s) => sum + calculateTimeInHours(s.start, s.end), 0);
       
       if (holidayWorkedHours > 0) {
         totalPublicHolidayHours += holidayWorkedHours;
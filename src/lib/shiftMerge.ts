@@ -0,0 +1,51 @@
+import { Shift } from '../types';
+
+// CRITICAL: Fields a manager can pick individually when two edits of the same shift collide
+export const MERGEABLE_SHIFT_FIELDS = [
+  'employeeId',
+  'day',
+  'start',
+  'end',
+  'position',
+  'type',
+  'status',
+  'isHolidayWorked',
+  'hasCoupure',
+  'coupureStart',
+  'coupureEnd'
+] as const;
+
+export type MergeableShiftField = typeof MERGEABLE_SHIFT_FIELDS[number];
+
+export type MergeChoice = 'local' | 'remote';
+
+/**
+ * Fields whose value differs between the local and the remote copy
+ */
+export const getConflictingFields = (local: Shift, remote: Shift): MergeableShiftField[] => {
+  return MERGEABLE_SHIFT_FIELDS.filter(field => (local[field] ?? null) !== (remote[field] ?? null));
+};
+
+export const isSameShiftContent = (a: Shift, b: Shift): boolean => {
+  return getConflictingFields(a, b).length === 0;
+};
+
+/**
+ * Build the merged shift, starting from the remote copy and taking the local
+ * value for every field the manager chose to keep
+ */
+export const mergeShifts = (
+  local: Shift,
+  remote: Shift,
+  choices: Partial<Record<MergeableShiftField, MergeChoice>>
+): Shift => {
+  const merged: Shift = { ...remote };
+
+  MERGEABLE_SHIFT_FIELDS.forEach(field => {
+    if (choices[field] === 'local') {
+      (merged as unknown as Record<string, unknown>)[field] = local[field];
+    }
+  });
+
+  return merged;
+};
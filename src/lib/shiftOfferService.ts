@@ -0,0 +1,261 @@
+// CRITICAL: Shift offer service - shifts given away by employees or posted open, claimed by a qualified colleague
+import { addDays, format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { Employee, EmployeeAvailability, Schedule, Shift, ShiftOffer, ShiftOfferStatus } from '../types';
+import { checkAvailability, getTimeRange } from './availabilityResolver';
+import { dataService } from './dataService';
+import { FrenchLaborLawValidator, LaborLawViolation } from './laborLawValidation';
+import { isSupabaseConfigured } from './supabase';
+
+export type ShiftOfferAction = 'claimed' | 'unclaimed' | 'approved' | 'rejected' | 'cancelled';
+
+// Why a colleague cannot take a shift, in the order they are checked
+export type ShiftOfferIneligibility = 'self' | 'qualification' | 'contract' | 'unavailable' | 'busy' | 'labor_law';
+
+export interface ShiftOfferEligibility {
+  eligible: boolean;
+  reasons: ShiftOfferIneligibility[];
+  violations: LaborLawViolation[]; // Critical violations the shift would add for the colleague
+}
+
+export interface ShiftOfferContext {
+  weekShifts: Shift[]; // Every shift of the offer's week in the restaurant
+  schedules: Schedule[]; // Restaurant schedules around the week, for the rules spanning weeks
+  availabilities: EmployeeAvailability[]; // The colleague's availability rules
+  restaurantRulePackId?: string;
+}
+
+// Anyone may claim an open offer, only a manager decides
+const TRANSITIONS: Record<ShiftOfferAction, { from: ShiftOfferStatus[]; to: ShiftOfferStatus }> = {
+  claimed: { from: ['open'], to: 'claimed' },
+  unclaimed: { from: ['claimed'], to: 'open' },
+  approved: { from: ['claimed'], to: 'approved' },
+  rejected: { from: ['open', 'claimed'], to: 'rejected' },
+  cancelled: { from: ['open', 'claimed'], to: 'cancelled' }
+};
+
+export const isOpenShiftOffer = (offer: ShiftOffer): boolean => !offer.offeredBy;
+
+export const getShiftOfferDate = (offer: ShiftOffer): string =>
+  format(addDays(parseISO(offer.weekStartDate), offer.shift.day), 'yyyy-MM-dd');
+
+const rangesOverlap = ([startA, endA]: [number, number], [startB, endB]: [number, number]) =>
+  startA < endB && startB < endA;
+
+// Critical violations of one employee, keyed so that the ones already there before the change are ignored
+const getCriticalViolations = (
+  employee: Employee,
+  shifts: Shift[],
+  weekStartDate: Date,
+  context: ShiftOfferContext
+): LaborLawViolation[] => {
+  const validator = new FrenchLaborLawValidator(
+    [employee],
+    shifts,
+    weekStartDate,
+    context.schedules,
+    context.restaurantRulePackId
+  );
+  validator.validateWeeklySchedule();
+  return validator.getViolationsBySeverity('critical');
+};
+
+/**
+ * Whether a colleague can take the offered shift: same team and position, under contract that
+ * day, not unavailable, nothing else planned at the same time (or an absence that day) and no
+ * labor-law violation the shift would add.
+ */
+export const checkShiftOfferEligibility = (
+  offer: ShiftOffer,
+  candidate: Employee,
+  context: ShiftOfferContext
+): ShiftOfferEligibility => {
+  const reasons: ShiftOfferIneligibility[] = [];
+  const { shift } = offer;
+  const date = getShiftOfferDate(offer);
+  const weekStartDate = parseISO(offer.weekStartDate);
+
+  if (candidate.id === offer.offeredBy) {
+    reasons.push('self');
+  }
+  if (candidate.restaurantId !== offer.restaurantId
+    || candidate.category !== offer.category
+    || candidate.position !== shift.position) {
+    reasons.push('qualification');
+  }
+  if (candidate.startDate > date || (candidate.endDate && candidate.endDate < date)) {
+    reasons.push('contract');
+  }
+  if (checkAvailability(context.availabilities, weekStartDate, shift.day, shift.start, shift.end).conflictType === 'UNAVAILABLE') {
+    reasons.push('unavailable');
+  }
+
+  const range = getTimeRange(shift.day, shift.start, shift.end);
+  const candidateShifts = context.weekShifts.filter(s => s.employeeId === candidate.id && s.id !== shift.id);
+  if (candidateShifts.some(s => s.status
+    ? s.day === shift.day
+    : rangesOverlap(getTimeRange(s.day, s.start, s.end), range))) {
+    reasons.push('busy');
+  }
+
+  // The validator is the costly part: only run it for otherwise suitable colleagues
+  let violations: LaborLawViolation[] = [];
+  if (reasons.length === 0) {
+    const withShift = [
+      ...context.weekShifts.filter(s => s.id !== shift.id),
+      { ...shift, employeeId: candidate.id }
+    ];
+    const before = new Set(
+      getCriticalViolations(candidate, context.weekShifts, weekStartDate, context).map(v => `${v.type}-${v.day ?? ''}`)
+    );
+    violations = getCriticalViolations(candidate, withShift, weekStartDate, context)
+      .filter(v => !before.has(`${v.type}-${v.day ?? ''}`));
+    if (violations.length > 0) {
+      reasons.push('labor_law');
+    }
+  }
+
+  return { eligible: reasons.length === 0, reasons, violations };
+};
+
+export class ShiftOfferService {
+  private static instance: ShiftOfferService;
+
+  private constructor() {}
+
+  public static getInstance(): ShiftOfferService {
+    if (!ShiftOfferService.instance) {
+      ShiftOfferService.instance = new ShiftOfferService();
+    }
+    return ShiftOfferService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) offers are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `shiftOffers_${restaurantId}`;
+  }
+
+  private loadLocal(restaurantId: string): ShiftOffer[] {
+    try {
+      const saved = localStorage.getItem(this.getStorageKey(restaurantId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local shift offers:', error);
+      return [];
+    }
+  }
+
+  private async save(offer: ShiftOffer): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.upsertShiftOffer(offer);
+      return;
+    }
+
+    const offers = this.loadLocal(offer.restaurantId).filter(o => o.id !== offer.id);
+    localStorage.setItem(this.getStorageKey(offer.restaurantId), JSON.stringify([...offers, offer]));
+  }
+
+  async fetchOffers(restaurantIds: string[]): Promise<ShiftOffer[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchShiftOffers(restaurantIds);
+    }
+
+    return restaurantIds
+      .flatMap(restaurantId => this.loadLocal(restaurantId))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async create(
+    offer: Pick<ShiftOffer, 'restaurantId' | 'weekStartDate' | 'shift' | 'category' | 'offeredBy' | 'note'>,
+    userId?: string
+  ): Promise<ShiftOffer> {
+    if (offer.shift.status) {
+      throw new Error('Only worked shifts can be offered');
+    }
+
+    const timestamp = new Date().toISOString();
+    const created: ShiftOffer = {
+      ...offer,
+      id: uuidv4(),
+      note: offer.note?.trim() || undefined,
+      status: 'open',
+      createdBy: userId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    await this.save(created);
+    console.log('📝 Shift offered:', {
+      shiftId: offer.shift.id,
+      date: getShiftOfferDate(created),
+      open: isOpenShiftOffer(created)
+    });
+    return created;
+  }
+
+  private assertTransition(offer: ShiftOffer, action: ShiftOfferAction): void {
+    const { from } = TRANSITIONS[action];
+    if (!from.includes(offer.status)) {
+      throw new Error(`Shift offer is ${offer.status}, expected ${from.join(' or ')}`);
+    }
+  }
+
+  // CRITICAL: A rejection must say why - the comment is what both employees see on the portal
+  async transition(
+    offer: ShiftOffer,
+    action: ShiftOfferAction,
+    options: { employeeId?: string; comment?: string; userId?: string } = {}
+  ): Promise<ShiftOffer> {
+    const { to } = TRANSITIONS[action];
+    this.assertTransition(offer, action);
+
+    const comment = options.comment?.trim();
+    if (action === 'rejected' && !comment) {
+      throw new Error('A comment is required to reject an offer');
+    }
+    if (action === 'claimed' && !options.employeeId) {
+      throw new Error('A claim needs the employee taking the shift');
+    }
+
+    const timestamp = new Date().toISOString();
+    let updated: ShiftOffer = { ...offer, status: to, updatedAt: timestamp };
+    if (action === 'claimed') {
+      updated = { ...updated, claimedBy: options.employeeId, claimedAt: timestamp };
+    } else if (action === 'unclaimed') {
+      updated = { ...updated, claimedBy: undefined, claimedAt: undefined };
+    } else if (action === 'approved' || action === 'rejected') {
+      updated = {
+        ...updated,
+        managerComment: comment || undefined,
+        reviewedBy: options.userId,
+        reviewedAt: timestamp
+      };
+    }
+
+    await this.save(updated);
+    console.log(`✅ Shift offer ${action}:`, { id: offer.id, claimedBy: updated.claimedBy });
+    return updated;
+  }
+
+  /**
+   * Approve a claimed offer. With Supabase the server hands the shift over in the same
+   * transaction and returns it; in demo mode only the offer changes and the caller writes
+   * the schedule.
+   */
+  async approve(
+    offer: ShiftOffer,
+    options: { comment?: string; userId?: string } = {}
+  ): Promise<{ offer: ShiftOffer; shift?: Shift }> {
+    if (!isSupabaseConfigured) {
+      return { offer: await this.transition(offer, 'approved', options) };
+    }
+
+    this.assertTransition(offer, 'approved');
+    const approval = await dataService.approveShiftOffer(offer.id, options.comment?.trim() || undefined);
+    console.log('✅ Shift offer approved:', { id: offer.id, claimedBy: approval.offer.claimedBy });
+    return approval;
+  }
+}
+
+// Export singleton instance
+export const shiftOfferService = ShiftOfferService.getInstance();
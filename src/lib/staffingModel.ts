@@ -0,0 +1,227 @@
+// CRITICAL: Staffing model - turns covers forecasts into a recommended headcount per day, service and position
+import { format, subDays } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ForecastData,
+  HolidayRegion,
+  POSData,
+  Shift,
+  StaffingModel,
+  StaffingRequirement,
+  StaffingService,
+  StaffingTarget
+} from '../types';
+import { forecastingService } from './forecastingService';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+export const STAFFING_SERVICES: StaffingService[] = ['lunch', 'dinner'];
+
+// Scheduled headcount compared with the forecast target for one cell of the grid
+export interface StaffingCoverage extends StaffingTarget {
+  scheduled: number;
+  difference: number; // scheduled - headcount (negative = understaffed)
+}
+
+// History used to build the forecasts (same date last year + recent weeks)
+const HISTORY_DAYS = 400;
+
+const DEFAULT_SERVICE_HOURS: StaffingModel['serviceHours'] = {
+  lunch: { start: '11:30', end: '15:00' },
+  dinner: { start: '18:30', end: '23:00' }
+};
+
+// Usual brasserie ratios: covers one person can handle during a service
+const DEFAULT_RATIOS: StaffingModel['ratios'] = [
+  { position: 'Waiter(s)', service: 'lunch', coversPerStaff: 20, minimum: 1 },
+  { position: 'Waiter(s)', service: 'dinner', coversPerStaff: 16, minimum: 1 },
+  { position: 'Barman/Barmaid', service: 'lunch', coversPerStaff: 80, minimum: 0 },
+  { position: 'Barman/Barmaid', service: 'dinner', coversPerStaff: 60, minimum: 1 },
+  { position: 'Chef de Cuisine', service: 'lunch', coversPerStaff: 0, minimum: 1 },
+  { position: 'Chef de Cuisine', service: 'dinner', coversPerStaff: 0, minimum: 1 },
+  { position: 'Chef de Partie', service: 'lunch', coversPerStaff: 40, minimum: 1 },
+  { position: 'Chef de Partie', service: 'dinner', coversPerStaff: 35, minimum: 1 },
+  { position: 'Commis de Cuisine', service: 'lunch', coversPerStaff: 50, minimum: 0 },
+  { position: 'Commis de Cuisine', service: 'dinner', coversPerStaff: 45, minimum: 0 },
+  { position: 'Plongeur', service: 'lunch', coversPerStaff: 80, minimum: 1 },
+  { position: 'Plongeur', service: 'dinner', coversPerStaff: 70, minimum: 1 }
+];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minute range of a time window, overnight ends pushed to the next day
+const toRange = (start: string, end: string): [number, number] => {
+  const startMinutes = toMinutes(start);
+  let endMinutes = toMinutes(end);
+  if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+  return [startMinutes, endMinutes];
+};
+
+export class StaffingModelService {
+  private static instance: StaffingModelService;
+
+  private constructor() {}
+
+  public static getInstance(): StaffingModelService {
+    if (!StaffingModelService.instance) {
+      StaffingModelService.instance = new StaffingModelService();
+    }
+    return StaffingModelService.instance;
+  }
+
+  private getStorageKey(restaurantId: string): string {
+    return `staffingModel_${restaurantId}`;
+  }
+
+  getDefaultModel(restaurantId: string): StaffingModel {
+    return {
+      restaurantId,
+      ratios: DEFAULT_RATIOS.map(ratio => ({ ...ratio })),
+      serviceHours: {
+        lunch: { ...DEFAULT_SERVICE_HOURS.lunch },
+        dinner: { ...DEFAULT_SERVICE_HOURS.dinner }
+      },
+      lunchShare: 0.45
+    };
+  }
+
+  // CRITICAL: Ratios are configured per restaurant and remembered locally, like the staffing requirements
+  getModel(restaurantId: string): StaffingModel {
+    try {
+      const saved = localStorage.getItem(this.getStorageKey(restaurantId));
+      if (saved) {
+        return { ...this.getDefaultModel(restaurantId), ...JSON.parse(saved), restaurantId };
+      }
+    } catch (error) {
+      console.error('❌ Failed to load staffing model:', error);
+    }
+    return this.getDefaultModel(restaurantId);
+  }
+
+  saveModel(model: StaffingModel): void {
+    localStorage.setItem(this.getStorageKey(model.restaurantId), JSON.stringify(model));
+    console.log('✅ Staffing model saved for restaurant:', model.restaurantId);
+  }
+
+  // Share of the day's business done at lunch, from the POS service split when it exists
+  getLunchShare(history: POSData[], model: StaffingModel): number {
+    const totals = history.reduce(
+      (sum, day) => ({
+        lunch: sum.lunch + (day.salesByService?.lunch ?? 0),
+        dinner: sum.dinner + (day.salesByService?.dinner ?? 0)
+      }),
+      { lunch: 0, dinner: 0 }
+    );
+
+    const total = totals.lunch + totals.dinner;
+    return total > 0 ? totals.lunch / total : model.lunchShare;
+  }
+
+  // CRITICAL: Headcount per day, service and position for the given forecasts
+  computeTargets(forecasts: ForecastData[], model: StaffingModel, lunchShare = model.lunchShare): StaffingTarget[] {
+    const targets: StaffingTarget[] = [];
+
+    forecasts.forEach(forecast => {
+      if (!Number.isFinite(forecast.forecastedCovers)) return;
+
+      // getDay() is 0 = Sunday, shifts use 0 = Monday
+      const day = (new Date(`${forecast.date}T00:00:00`).getDay() + 6) % 7;
+      const coversByService: Record<StaffingService, number> = {
+        lunch: Math.round(forecast.forecastedCovers * lunchShare),
+        dinner: Math.round(forecast.forecastedCovers * (1 - lunchShare))
+      };
+
+      model.ratios.forEach(ratio => {
+        const covers = coversByService[ratio.service];
+        const needed = ratio.coversPerStaff > 0 && covers > 0 ? Math.ceil(covers / ratio.coversPerStaff) : 0;
+        const headcount = Math.max(ratio.minimum, needed);
+        if (headcount === 0) return;
+
+        targets.push({
+          date: forecast.date,
+          day,
+          service: ratio.service,
+          position: ratio.position,
+          forecastedCovers: covers,
+          headcount
+        });
+      });
+    });
+
+    return targets;
+  }
+
+  // CRITICAL: Forecast the week from the POS history and convert it into targets.
+  // Returns an empty list when there is no sales history to forecast from.
+  async getWeekTargets(
+    restaurantId: string,
+    weekStartDate: Date,
+    model: StaffingModel,
+    holidayRegion: HolidayRegion = 'metropole'
+  ): Promise<StaffingTarget[]> {
+    if (!isSupabaseConfigured) return [];
+
+    const history = await dataService.fetchPOSData(
+      restaurantId,
+      format(subDays(weekStartDate, HISTORY_DAYS), 'yyyy-MM-dd'),
+      format(subDays(weekStartDate, 1), 'yyyy-MM-dd')
+    );
+
+    if (history.length === 0) {
+      console.log('⚠️ No POS history, staffing targets unavailable for restaurant:', restaurantId);
+      return [];
+    }
+
+    const forecasts = await forecastingService.generateMultiDayForecast(
+      format(weekStartDate, 'yyyy-MM-dd'),
+      7,
+      history,
+      holidayRegion
+    );
+
+    return this.computeTargets(forecasts, model, this.getLunchShare(history, model));
+  }
+
+  // Employees working during the service window for the position on that day
+  countScheduled(shifts: Shift[], model: StaffingModel, day: number, service: StaffingService, position: string): number {
+    const [serviceStart, serviceEnd] = toRange(model.serviceHours[service].start, model.serviceHours[service].end);
+    const employeeIds = new Set<string>();
+
+    shifts.forEach(shift => {
+      if (shift.day !== day || shift.status || !shift.start || !shift.end || shift.position !== position) return;
+
+      const [shiftStart, shiftEnd] = toRange(shift.start, shift.end);
+      if (shiftStart < serviceEnd && shiftEnd > serviceStart) {
+        employeeIds.add(shift.employeeId);
+      }
+    });
+
+    return employeeIds.size;
+  }
+
+  getCoverage(targets: StaffingTarget[], shifts: Shift[], model: StaffingModel): StaffingCoverage[] {
+    return targets.map(target => {
+      const scheduled = this.countScheduled(shifts, model, target.day, target.service, target.position);
+      return { ...target, scheduled, difference: scheduled - target.headcount };
+    });
+  }
+
+  // CRITICAL: Targets as requirements for the automatic schedule generator
+  toRequirements(targets: StaffingTarget[], model: StaffingModel): StaffingRequirement[] {
+    return targets.map(target => ({
+      id: uuidv4(),
+      day: target.day,
+      position: target.position,
+      start: model.serviceHours[target.service].start,
+      end: model.serviceHours[target.service].end,
+      headcount: target.headcount,
+      type: target.service === 'lunch' ? 'morning' : 'evening'
+    }));
+  }
+}
+
+// Export singleton instance
+export const staffingModelService = StaffingModelService.getInstance();
@@ -0,0 +1,616 @@
+// CRITICAL: Time clock service - records clock-in/out punches and compares them with the scheduled shifts
+import { addDays, addMinutes, differenceInMinutes, format, parseISO, startOfDay, subMinutes } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Employee,
+  KioskPendingPunch,
+  PunchRules,
+  Restaurant,
+  Schedule,
+  Shift,
+  TimeClock,
+  TimeClockComparisonResult,
+  TimeClockSummary
+} from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+
+// Worked shift placed on the calendar
+export interface DatedShift {
+  shift: Shift;
+  date: string; // yyyy-MM-dd
+  start: Date;
+  end: Date;
+}
+
+// A clock-in this long before a shift starts still belongs to that shift
+const EARLY_MATCH_MINUTES = 180;
+// Hour variance tolerated before a shift is flagged as overtime or undertime
+const VARIANCE_TOLERANCE_HOURS = 0.25;
+
+// CRITICAL: Rules of restaurants that did not configure any - no rounding and the historical 5-minute arrival tolerance
+export const DEFAULT_PUNCH_RULES: PunchRules = {
+  roundingMode: 'none',
+  roundingIncrement: 15,
+  arrivalGraceMinutes: 5,
+  departureGraceMinutes: 0
+};
+
+export const getPunchRules = (restaurant?: Pick<Restaurant, 'punchRules'> | null): PunchRules => ({
+  ...DEFAULT_PUNCH_RULES,
+  ...restaurant?.punchRules
+});
+
+const toHours = (minutes: number): number => parseFloat((minutes / 60).toFixed(2));
+
+const isWithinMinutes = (a: Date, b: Date, minutes: number): boolean =>
+  Math.abs(a.getTime() - b.getTime()) <= minutes * 60000;
+
+// Punch time rounded to the restaurant's increment, counted from midnight
+export const roundPunchTime = (time: Date, rules: PunchRules): Date => {
+  if (rules.roundingMode === 'none' || rules.roundingIncrement <= 0) return time;
+
+  const dayStart = startOfDay(time).getTime();
+  const increments = (time.getTime() - dayStart) / (rules.roundingIncrement * 60000);
+  const rounded = rules.roundingMode === 'up'
+    ? Math.ceil(increments)
+    : rules.roundingMode === 'down'
+      ? Math.floor(increments)
+      : Math.round(increments);
+
+  return new Date(dayStart + rounded * rules.roundingIncrement * 60000);
+};
+
+// When an open punch gets closed by the auto clock-out, if the restaurant uses one
+const getAutoClockOutTime = (punch: TimeClock, rules: PunchRules): Date | undefined =>
+  rules.autoClockOutHours ? addMinutes(parseISO(punch.clockInTime), rules.autoClockOutHours * 60) : undefined;
+
+// Open punch that ran past the maximum shift length
+export const isStalePunch = (punch: TimeClock, rules: PunchRules, now: Date): boolean => {
+  if (punch.clockOutTime) return false;
+  const limit = getAutoClockOutTime(punch, rules);
+  return !!limit && now >= limit;
+};
+
+/**
+ * Paid hours of the punches of one shift (or of one unscheduled punch). The first clock-in and the
+ * last clock-out within the grace windows count as the planned times; other punch times are rounded.
+ * An open punch counts until now, or until its auto clock-out.
+ */
+export const getEffectiveHours = (
+  punches: TimeClock[],
+  rules: PunchRules,
+  now: Date,
+  planned?: { start: Date; end: Date }
+): number => {
+  const minutes = punches.reduce((sum, punch, index) => {
+    const clockIn = parseISO(punch.clockInTime);
+    const start = planned && index === 0 && isWithinMinutes(clockIn, planned.start, rules.arrivalGraceMinutes)
+      ? planned.start
+      : roundPunchTime(clockIn, rules);
+
+    let end: Date;
+    if (punch.clockOutTime) {
+      const clockOut = parseISO(punch.clockOutTime);
+      end = planned && index === punches.length - 1 && isWithinMinutes(clockOut, planned.end, rules.departureGraceMinutes)
+        ? planned.end
+        : roundPunchTime(clockOut, rules);
+    } else {
+      const autoClockOut = getAutoClockOutTime(punch, rules);
+      end = autoClockOut && autoClockOut < now ? autoClockOut : now;
+    }
+
+    return sum + Math.max(0, differenceInMinutes(end, start));
+  }, 0);
+
+  return toHours(minutes);
+};
+
+// Clock-out shown for a punch: the recorded one, or the auto clock-out of a stale open punch
+const getDisplayedClockOut = (punch: TimeClock, rules: PunchRules, now: Date): string => {
+  if (punch.clockOutTime) return format(parseISO(punch.clockOutTime), 'HH:mm');
+  const autoClockOut = isStalePunch(punch, rules, now) ? getAutoClockOutTime(punch, rules) : undefined;
+  return autoClockOut ? format(autoClockOut, 'HH:mm') : '';
+};
+
+// CRITICAL: Worked shifts of a restaurant's schedules on real dates; overnight ends roll to the next day
+export const getDatedShifts = (schedules: Schedule[], restaurantId: string): DatedShift[] => {
+  const dated: DatedShift[] = [];
+
+  schedules.forEach(schedule => {
+    if (schedule.restaurantId !== restaurantId) return;
+    const weekStart = parseISO(schedule.weekStartDate);
+
+    schedule.shifts.forEach(shift => {
+      if (shift.status || !shift.start || !shift.end) return;
+
+      const date = format(addDays(weekStart, shift.day), 'yyyy-MM-dd');
+      const start = parseISO(`${date}T${shift.start}`);
+      let end = parseISO(`${date}T${shift.end}`);
+      if (end <= start) end = addDays(end, 1);
+
+      dated.push({
+        shift: { ...shift, weekStartDate: shift.weekStartDate ?? schedule.weekStartDate },
+        date,
+        start,
+        end
+      });
+    });
+  });
+
+  return dated.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Scheduled shift a clock-in belongs to: among the employee's shifts that have not ended yet
+ * (and start within EARLY_MATCH_MINUTES), the one whose start is closest to the punch.
+ * Each half of a coupure is its own shift, so clocking in again after the break matches the second half.
+ */
+export const matchPunchToShift = (
+  clockIn: Date,
+  employeeId: string,
+  datedShifts: DatedShift[]
+): DatedShift | undefined => {
+  let best: DatedShift | undefined;
+  let bestDistance = Infinity;
+
+  datedShifts.forEach(candidate => {
+    if (candidate.shift.employeeId !== employeeId) return;
+    if (clockIn < subMinutes(candidate.start, EARLY_MATCH_MINUTES) || clockIn >= candidate.end) return;
+
+    const distance = Math.abs(differenceInMinutes(clockIn, candidate.start));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+
+  return best;
+};
+
+// CRITICAL: One row per scheduled shift (with the punches matched to it) plus one per unscheduled punch
+export const compareWithSchedule = (
+  datedShifts: DatedShift[],
+  punches: TimeClock[],
+  employees: Employee[],
+  rules: PunchRules = DEFAULT_PUNCH_RULES,
+  now: Date = new Date()
+): TimeClockComparisonResult[] => {
+  const results: TimeClockComparisonResult[] = [];
+  const punchesByShift = new Map<string, TimeClock[]>();
+  const unscheduled: TimeClock[] = [];
+
+  punches.forEach(punch => {
+    const matched =
+      (punch.shiftId && datedShifts.find(dated => dated.shift.id === punch.shiftId)) ||
+      matchPunchToShift(parseISO(punch.clockInTime), punch.employeeId, datedShifts);
+
+    if (matched) {
+      punchesByShift.set(matched.shift.id, [...(punchesByShift.get(matched.shift.id) ?? []), punch]);
+    } else {
+      unscheduled.push(punch);
+    }
+  });
+
+  const getEmployeeName = (employeeId: string): string | undefined => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : undefined;
+  };
+
+  datedShifts.forEach(({ shift, date, start, end }) => {
+    const employeeName = getEmployeeName(shift.employeeId);
+    if (!employeeName) return;
+
+    const shiftPunches = (punchesByShift.get(shift.id) ?? [])
+      .sort((a, b) => a.clockInTime.localeCompare(b.clockInTime));
+    const plannedHours = toHours(differenceInMinutes(end, start));
+
+    if (shiftPunches.length === 0) {
+      // Shifts that have not started yet are not missing anything
+      if (start > now) return;
+
+      results.push({
+        shiftId: shift.id,
+        employeeId: shift.employeeId,
+        employeeName,
+        date,
+        plannedStart: shift.start,
+        plannedEnd: shift.end,
+        plannedHours,
+        actualStart: '',
+        actualEnd: '',
+        actualHours: 0,
+        variance: -plannedHours,
+        status: 'missing_punch'
+      });
+      return;
+    }
+
+    const firstIn = parseISO(shiftPunches[0].clockInTime);
+    const lastPunch = shiftPunches[shiftPunches.length - 1];
+    const actualHours = getEffectiveHours(shiftPunches, rules, now, { start, end });
+    const variance = parseFloat((actualHours - plannedHours).toFixed(2));
+
+    let status: TimeClockComparisonResult['status'] = 'on_time';
+    const startDiffMinutes = differenceInMinutes(firstIn, start);
+    if (startDiffMinutes > rules.arrivalGraceMinutes) {
+      status = 'late';
+    } else if (startDiffMinutes < -rules.arrivalGraceMinutes) {
+      status = 'early';
+    }
+
+    if (lastPunch.status === 'active' && !isStalePunch(lastPunch, rules, now)) {
+      status = 'in_progress';
+    } else if (variance > VARIANCE_TOLERANCE_HOURS) {
+      status = 'overtime';
+    } else if (variance < -VARIANCE_TOLERANCE_HOURS) {
+      status = 'undertime';
+    }
+
+    results.push({
+      shiftId: shift.id,
+      employeeId: shift.employeeId,
+      employeeName,
+      date,
+      plannedStart: shift.start,
+      plannedEnd: shift.end,
+      plannedHours,
+      actualStart: format(firstIn, 'HH:mm'),
+      actualEnd: getDisplayedClockOut(lastPunch, rules, now),
+      actualHours,
+      variance,
+      status,
+      autoClockedOut: lastPunch.autoClockedOut || isStalePunch(lastPunch, rules, now)
+    });
+  });
+
+  unscheduled.forEach(punch => {
+    const employeeName = getEmployeeName(punch.employeeId);
+    if (!employeeName) return;
+
+    const clockIn = parseISO(punch.clockInTime);
+    const actualHours = getEffectiveHours([punch], rules, now);
+    const stale = isStalePunch(punch, rules, now);
+
+    results.push({
+      employeeId: punch.employeeId,
+      employeeName,
+      date: format(clockIn, 'yyyy-MM-dd'),
+      plannedStart: '',
+      plannedEnd: '',
+      plannedHours: 0,
+      actualStart: format(clockIn, 'HH:mm'),
+      actualEnd: getDisplayedClockOut(punch, rules, now),
+      actualHours,
+      variance: actualHours,
+      status: punch.status === 'active' && !stale ? 'in_progress' : 'unscheduled',
+      punchId: punch.id,
+      autoClockedOut: punch.autoClockedOut || stale
+    });
+  });
+
+  return results.sort((a, b) => a.date.localeCompare(b.date) || a.employeeName.localeCompare(b.employeeName));
+};
+
+// CRITICAL: Daily totals per employee (both halves of a coupure add up to one day)
+export const summarizeByDay = (results: TimeClockComparisonResult[]): TimeClockSummary[] => {
+  const byDay = new Map<string, TimeClockComparisonResult[]>();
+
+  results.forEach(result => {
+    const key = `${result.employeeId}|${result.date}`;
+    byDay.set(key, [...(byDay.get(key) ?? []), result]);
+  });
+
+  return Array.from(byDay.values()).map(dayResults => {
+    const totalHours = parseFloat(dayResults.reduce((sum, r) => sum + r.actualHours, 0).toFixed(2));
+    const scheduledHours = parseFloat(dayResults.reduce((sum, r) => sum + r.plannedHours, 0).toFixed(2));
+    const difference = parseFloat((totalHours - scheduledHours).toFixed(2));
+
+    let status: TimeClockSummary['status'] = 'on_time';
+    if (difference > VARIANCE_TOLERANCE_HOURS) {
+      status = 'overtime';
+    } else if (difference < -VARIANCE_TOLERANCE_HOURS) {
+      status = 'undertime';
+    } else if (dayResults.some(r => r.status === 'late')) {
+      status = 'late';
+    } else if (dayResults.some(r => r.status === 'early')) {
+      status = 'early';
+    }
+
+    return {
+      employeeId: dayResults[0].employeeId,
+      employeeName: dayResults[0].employeeName,
+      date: dayResults[0].date,
+      totalHours,
+      scheduledHours,
+      difference,
+      status
+    };
+  });
+};
+
+export class TimeClockService {
+  private static instance: TimeClockService;
+
+  private constructor() {}
+
+  public static getInstance(): TimeClockService {
+    if (!TimeClockService.instance) {
+      TimeClockService.instance = new TimeClockService();
+    }
+    return TimeClockService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) punches are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `timeClock_${restaurantId}`;
+  }
+
+  private loadLocalPunches(restaurantId: string): TimeClock[] {
+    try {
+      const saved = localStorage.getItem(this.getStorageKey(restaurantId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local time clock punches:', error);
+      return [];
+    }
+  }
+
+  private saveLocalPunch(punch: TimeClock): void {
+    const punches = this.loadLocalPunches(punch.restaurantId).filter(p => p.id !== punch.id);
+    localStorage.setItem(this.getStorageKey(punch.restaurantId), JSON.stringify([...punches, punch]));
+  }
+
+  private async savePunch(punch: TimeClock): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.updateTimeClock(punch);
+    } else {
+      this.saveLocalPunch(punch);
+    }
+  }
+
+  // CRITICAL: Closes a punch left open past the maximum shift length at that limit
+  private async autoClockOut(punch: TimeClock, rules: PunchRules): Promise<TimeClock> {
+    const clockOut = getAutoClockOutTime(punch, rules) ?? new Date();
+    const closed: TimeClock = {
+      ...punch,
+      clockOutTime: clockOut.toISOString(),
+      totalHours: toHours(Math.max(0, differenceInMinutes(clockOut, parseISO(punch.clockInTime)))),
+      status: 'completed',
+      autoClockedOut: true,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.savePunch(closed);
+    console.log('⏱️ Auto clock-out recorded:', { employeeId: punch.employeeId, clockOutTime: closed.clockOutTime });
+    return closed;
+  }
+
+  // Open punch of an employee; one past the restaurant's maximum shift length is closed instead
+  async getActivePunch(
+    employeeId: string,
+    restaurantId: string,
+    rules: PunchRules = DEFAULT_PUNCH_RULES,
+    at: Date = new Date()
+  ): Promise<TimeClock | null> {
+    const active = isSupabaseConfigured
+      ? await dataService.fetchActiveTimeClock(employeeId)
+      : this.loadLocalPunches(restaurantId).find(p => p.employeeId === employeeId && p.status === 'active') ?? null;
+
+    if (active && isStalePunch(active, rules, at)) {
+      await this.autoClockOut(active, rules);
+      return null;
+    }
+    return active;
+  }
+
+  // Applies the auto clock-out to every open punch of the restaurant that ran too long
+  async closeStalePunches(restaurantId: string, rules: PunchRules, now: Date = new Date()): Promise<void> {
+    if (!rules.autoClockOutHours) return;
+
+    const stale = (await this.getActivePunches(restaurantId)).filter(punch => isStalePunch(punch, rules, now));
+    for (const punch of stale) {
+      await this.autoClockOut(punch, rules);
+    }
+  }
+
+  // CRITICAL: Opens a punch and links it to the scheduled shift it belongs to (if any)
+  async clockIn(
+    employeeId: string,
+    restaurantId: string,
+    datedShifts: DatedShift[],
+    at: Date = new Date(),
+    rules: PunchRules = DEFAULT_PUNCH_RULES
+  ): Promise<TimeClock> {
+    const active = await this.getActivePunch(employeeId, restaurantId, rules, at);
+    if (active) {
+      throw new Error('Employee is already clocked in');
+    }
+
+    const matched = matchPunchToShift(at, employeeId, datedShifts);
+    const timestamp = new Date().toISOString();
+    const punch: TimeClock = {
+      id: uuidv4(),
+      employeeId,
+      restaurantId,
+      clockInTime: at.toISOString(),
+      status: 'active',
+      shiftId: matched?.shift.id,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    if (isSupabaseConfigured) {
+      await dataService.insertTimeClock(punch);
+    } else {
+      this.saveLocalPunch(punch);
+    }
+
+    console.log('✅ Clock in recorded:', { employeeId, shiftId: punch.shiftId ?? 'unscheduled' });
+    return punch;
+  }
+
+  async clockOut(employeeId: string, restaurantId: string, at: Date = new Date()): Promise<TimeClock> {
+    const active = await this.getActivePunch(employeeId, restaurantId);
+    if (!active) {
+      throw new Error('Employee is not clocked in');
+    }
+
+    const punch: TimeClock = {
+      ...active,
+      clockOutTime: at.toISOString(),
+      totalHours: toHours(Math.max(0, differenceInMinutes(at, parseISO(active.clockInTime)))),
+      status: 'completed',
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.savePunch(punch);
+
+    console.log('✅ Clock out recorded:', { employeeId, totalHours: punch.totalHours });
+    return punch;
+  }
+
+  // Demo mode counterpart of the punch recorded by authenticate_kiosk: clock-out of the open punch, else clock-in
+  async recordPunch(
+    employeeId: string,
+    restaurantId: string,
+    datedShifts: DatedShift[],
+    rules: PunchRules = DEFAULT_PUNCH_RULES,
+    at: Date = new Date()
+  ): Promise<TimeClock> {
+    const active = await this.getActivePunch(employeeId, restaurantId, rules, at);
+    return active
+      ? this.clockOut(employeeId, restaurantId, at)
+      : this.clockIn(employeeId, restaurantId, datedShifts, at, rules);
+  }
+
+  async getPunch(punchId: string, restaurantId: string): Promise<TimeClock | null> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchTimeClockRecord(punchId);
+    }
+    return this.loadLocalPunches(restaurantId).find(p => p.id === punchId) ?? null;
+  }
+
+  // Open punches of a restaurant, used by kiosk tablets to know who is clocked in
+  async getActivePunches(restaurantId: string): Promise<TimeClock[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchActiveTimeClocks(restaurantId);
+    }
+    return this.loadLocalPunches(restaurantId).filter(p => p.status === 'active');
+  }
+
+  /**
+   * Uploads a punch recorded on a kiosk tablet, keeping the tablet's time.
+   * The tablet generates the punch id, so replaying an entry whose response was lost is a no-op.
+   * Runs under the manager session the tablet was locked with, direct punch writes are manager-only.
+   */
+  async applyKioskPunch(entry: KioskPendingPunch, rules: PunchRules = DEFAULT_PUNCH_RULES): Promise<'applied' | 'duplicate'> {
+    const existing = await this.getPunch(entry.punchId, entry.restaurantId);
+    const timestamp = new Date().toISOString();
+
+    if (entry.type === 'in') {
+      if (existing) return 'duplicate';
+
+      const punch: TimeClock = {
+        id: entry.punchId,
+        employeeId: entry.employeeId,
+        restaurantId: entry.restaurantId,
+        clockInTime: entry.deviceTime,
+        status: 'active',
+        shiftId: entry.shiftId,
+        deviceId: entry.deviceId,
+        syncedAt: timestamp,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      };
+
+      // A forgotten clock-out past the maximum shift length is closed before the new clock-in
+      const active = await this.getActivePunch(entry.employeeId, entry.restaurantId, rules, parseISO(entry.deviceTime));
+
+      if (isSupabaseConfigured) {
+        await dataService.insertTimeClock(punch);
+      } else {
+        if (active) {
+          throw new Error('Employee is already clocked in');
+        }
+        this.saveLocalPunch(punch);
+      }
+      return 'applied';
+    }
+
+    if (!existing) {
+      throw new Error('Clock-in not found for this clock-out');
+    }
+    if (existing.clockOutTime) return 'duplicate';
+
+    const clockOut = parseISO(entry.deviceTime);
+    const punch: TimeClock = {
+      ...existing,
+      clockOutTime: entry.deviceTime,
+      totalHours: toHours(Math.max(0, differenceInMinutes(clockOut, parseISO(existing.clockInTime)))),
+      status: 'completed',
+      syncedAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    await this.savePunch(punch);
+    return 'applied';
+  }
+
+  // Punches clocked in between the start and end days (inclusive)
+  async fetchPunches(restaurantId: string, startDate: Date, endDate: Date): Promise<TimeClock[]> {
+    const from = startOfDay(startDate);
+    const to = addDays(startOfDay(endDate), 1);
+
+    if (isSupabaseConfigured) {
+      return dataService.fetchTimeClockRecords(restaurantId, from.toISOString(), to.toISOString());
+    }
+
+    return this.loadLocalPunches(restaurantId)
+      .filter(punch => {
+        const clockIn = parseISO(punch.clockInTime);
+        return clockIn >= from && clockIn < to;
+      })
+      .sort((a, b) => a.clockInTime.localeCompare(b.clockInTime));
+  }
+
+  // CRITICAL: Planned vs actual for the shifts and punches of the period, under the restaurant's punch rules
+  async getComparison(
+    restaurantId: string,
+    schedules: Schedule[],
+    employees: Employee[],
+    startDate: Date,
+    endDate: Date,
+    rules: PunchRules = DEFAULT_PUNCH_RULES
+  ): Promise<TimeClockComparisonResult[]> {
+    try {
+      await this.closeStalePunches(restaurantId, rules);
+    } catch (error) {
+      // The comparison already counts stale punches until their auto clock-out
+      console.error('❌ Failed to apply auto clock-out:', error);
+    }
+
+    const punches = await this.fetchPunches(restaurantId, startDate, endDate);
+    const firstDay = format(startDate, 'yyyy-MM-dd');
+    const lastDay = format(endDate, 'yyyy-MM-dd');
+    const datedShifts = getDatedShifts(schedules, restaurantId)
+      .filter(dated => dated.date >= firstDay && dated.date <= lastDay);
+
+    return compareWithSchedule(datedShifts, punches, employees, rules);
+  }
+
+  async getDailySummaries(
+    restaurantId: string,
+    schedules: Schedule[],
+    employees: Employee[],
+    startDate: Date,
+    endDate: Date,
+    rules: PunchRules = DEFAULT_PUNCH_RULES
+  ): Promise<TimeClockSummary[]> {
+    const comparison = await this.getComparison(restaurantId, schedules, employees, startDate, endDate, rules);
+    return summarizeByDay(comparison);
+  }
+}
+
+// Export singleton instance
+export const timeClockService = TimeClockService.getInstance();
@@ -0,0 +1,385 @@
+// CRITICAL: Timesheet service - weekly timesheets built from the time clock, adjusted and approved by a manager, then locked for payroll
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Employee,
+  PunchRules,
+  Schedule,
+  Shift,
+  TimeClockComparisonResult,
+  Timesheet,
+  TimesheetAuditAction,
+  TimesheetAuditEntry,
+  TimesheetLine,
+  TimesheetStatus
+} from '../types';
+import { dataService } from './dataService';
+import { isSupabaseConfigured } from './supabase';
+import { timeClockService, DEFAULT_PUNCH_RULES } from './timeClockService';
+
+// Timesheet states whose hours payroll may use
+export const PAYABLE_TIMESHEET_STATUSES: TimesheetStatus[] = ['approved', 'locked'];
+
+// Status changes and the state each one starts from, enforced server-side by check_timesheet_transition
+const TRANSITIONS: Record<'submitted' | 'approved' | 'rejected' | 'reopened' | 'locked', { from: TimesheetStatus; to: TimesheetStatus }> = {
+  submitted: { from: 'draft', to: 'submitted' },
+  approved: { from: 'submitted', to: 'approved' },
+  rejected: { from: 'submitted', to: 'draft' },
+  reopened: { from: 'approved', to: 'draft' },
+  locked: { from: 'approved', to: 'locked' }
+};
+
+// Hours paid for a line: the manager's adjustment wins over the clocked hours
+export const getRetainedHours = (line: TimesheetLine): number =>
+  line.adjustment ? line.adjustment.hours : line.actualHours;
+
+export const getTimesheetWeekStart = (date: Date): string =>
+  format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+const getLineTime = (line: TimesheetLine): string => line.plannedStart || line.actualStart;
+
+/**
+ * Lines of one employee's week: the time clock comparison rows (scheduled shifts and unscheduled punches)
+ * plus the absence days of the schedule. Line ids derive from the shift or punch so that refreshing
+ * a draft keeps the adjustments on the right line.
+ */
+export const buildTimesheetLines = (
+  employeeId: string,
+  weekStartDate: string,
+  comparison: TimeClockComparisonResult[],
+  schedules: Schedule[],
+  restaurantId: string
+): TimesheetLine[] => {
+  const lines: TimesheetLine[] = [];
+  const weekEndDate = format(addDays(parseISO(weekStartDate), 6), 'yyyy-MM-dd');
+  const shiftsById = new Map<string, Shift>();
+
+  schedules.forEach(schedule => {
+    if (schedule.restaurantId !== restaurantId) return;
+
+    schedule.shifts.forEach(shift => {
+      if (shift.employeeId !== employeeId) return;
+      shiftsById.set(shift.id, shift);
+
+      // Weekly rest is not an absence
+      if (!shift.status || shift.status === 'WEEKLY_REST') return;
+
+      const date = format(addDays(parseISO(schedule.weekStartDate), shift.day), 'yyyy-MM-dd');
+      if (date < weekStartDate || date > weekEndDate) return;
+
+      lines.push({
+        id: `absence-${shift.id}`,
+        date,
+        shiftId: shift.id,
+        status: shift.status,
+        plannedStart: '',
+        plannedEnd: '',
+        plannedHours: 0,
+        actualStart: '',
+        actualEnd: '',
+        actualHours: 0
+      });
+    });
+  });
+
+  comparison.forEach(result => {
+    if (result.employeeId !== employeeId) return;
+
+    lines.push({
+      id: result.shiftId ?? `punch-${result.punchId}`,
+      date: result.date,
+      shiftId: result.shiftId,
+      isHolidayWorked: result.shiftId ? shiftsById.get(result.shiftId)?.isHolidayWorked : undefined,
+      plannedStart: result.plannedStart,
+      plannedEnd: result.plannedEnd,
+      plannedHours: result.plannedHours,
+      actualStart: result.actualStart,
+      actualEnd: result.actualEnd,
+      actualHours: result.actualHours,
+      clockStatus: result.status
+    });
+  });
+
+  return lines.sort((a, b) => a.date.localeCompare(b.date) || getLineTime(a).localeCompare(getLineTime(b)));
+};
+
+// Fresh lines keep the adjustments already made; an adjusted line whose shift disappeared stays as decided
+export const mergeTimesheetLines = (previous: TimesheetLine[], next: TimesheetLine[]): TimesheetLine[] => {
+  const adjusted = new Map(previous.filter(line => line.adjustment).map(line => [line.id, line]));
+  const merged = next.map(line => {
+    const kept = adjusted.get(line.id);
+    adjusted.delete(line.id);
+    return kept ? { ...line, adjustment: kept.adjustment } : line;
+  });
+
+  return [...merged, ...adjusted.values()]
+    .sort((a, b) => a.date.localeCompare(b.date) || getLineTime(a).localeCompare(getLineTime(b)));
+};
+
+export class TimesheetService {
+  private static instance: TimesheetService;
+
+  private constructor() {}
+
+  public static getInstance(): TimesheetService {
+    if (!TimesheetService.instance) {
+      TimesheetService.instance = new TimesheetService();
+    }
+    return TimesheetService.instance;
+  }
+
+  // CRITICAL: Without Supabase (demo mode) timesheets and their audit log are kept locally per restaurant
+  private getStorageKey(restaurantId: string): string {
+    return `timesheets_${restaurantId}`;
+  }
+
+  private getAuditStorageKey(restaurantId: string): string {
+    return `timesheetAudit_${restaurantId}`;
+  }
+
+  private loadLocal<T>(key: string): T[] {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('❌ Failed to load local timesheets:', error);
+      return [];
+    }
+  }
+
+  private async save(timesheet: Timesheet): Promise<void> {
+    if (isSupabaseConfigured) {
+      await dataService.upsertTimesheet(timesheet);
+      return;
+    }
+
+    const key = this.getStorageKey(timesheet.restaurantId);
+    const timesheets = this.loadLocal<Timesheet>(key).filter(t => t.id !== timesheet.id);
+    localStorage.setItem(key, JSON.stringify([...timesheets, timesheet]));
+  }
+
+  // CRITICAL: With Supabase the audit log is written by the timesheets triggers, never by the client
+  private audit(
+    timesheet: Timesheet,
+    action: TimesheetAuditAction,
+    userId?: string,
+    details: Pick<TimesheetAuditEntry, 'lineId' | 'previousHours' | 'newHours' | 'reason'> = {}
+  ): void {
+    if (isSupabaseConfigured) return;
+
+    const entry: TimesheetAuditEntry = {
+      id: uuidv4(),
+      timesheetId: timesheet.id,
+      restaurantId: timesheet.restaurantId,
+      action,
+      userId,
+      createdAt: new Date().toISOString(),
+      ...details
+    };
+
+    const key = this.getAuditStorageKey(timesheet.restaurantId);
+    localStorage.setItem(key, JSON.stringify([...this.loadLocal<TimesheetAuditEntry>(key), entry]));
+  }
+
+  // Timesheets of the weeks starting between the two Mondays (inclusive)
+  async fetchTimesheets(restaurantId: string, fromWeek: string, toWeek: string): Promise<Timesheet[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchTimesheets(restaurantId, fromWeek, toWeek);
+    }
+
+    return this.loadLocal<Timesheet>(this.getStorageKey(restaurantId))
+      .filter(timesheet => timesheet.weekStartDate >= fromWeek && timesheet.weekStartDate <= toWeek);
+  }
+
+  // CRITICAL: Only approved and locked timesheets of the weeks overlapping the period reach payroll
+  async getPayableTimesheets(restaurantId: string, startDate: Date, endDate: Date): Promise<Timesheet[]> {
+    const timesheets = await this.fetchTimesheets(
+      restaurantId,
+      getTimesheetWeekStart(startDate),
+      getTimesheetWeekStart(endDate)
+    );
+    return timesheets.filter(timesheet => PAYABLE_TIMESHEET_STATUSES.includes(timesheet.status));
+  }
+
+  async getAuditLog(timesheet: Timesheet): Promise<TimesheetAuditEntry[]> {
+    if (isSupabaseConfigured) {
+      return dataService.fetchTimesheetAuditLog(timesheet.id);
+    }
+
+    return this.loadLocal<TimesheetAuditEntry>(this.getAuditStorageKey(timesheet.restaurantId))
+      .filter(entry => entry.timesheetId === timesheet.id)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Timesheets of a week for the given employees. Missing ones are created as drafts and drafts are
+   * refreshed from the time clock (hours under the restaurant's punch rules); submitted, approved
+   * and locked timesheets are left as they are.
+   */
+  async prepareWeek(
+    restaurantId: string,
+    weekStartDate: string,
+    employees: Employee[],
+    schedules: Schedule[],
+    userId?: string,
+    rules: PunchRules = DEFAULT_PUNCH_RULES
+  ): Promise<Timesheet[]> {
+    const weekStart = parseISO(weekStartDate);
+    const [existing, comparison] = await Promise.all([
+      this.fetchTimesheets(restaurantId, weekStartDate, weekStartDate),
+      timeClockService.getComparison(restaurantId, schedules, employees, weekStart, addDays(weekStart, 6), rules)
+    ]);
+    const timesheets: Timesheet[] = [];
+
+    for (const employee of employees) {
+      const lines = buildTimesheetLines(employee.id, weekStartDate, comparison, schedules, restaurantId);
+      const current = existing.find(timesheet => timesheet.employeeId === employee.id);
+      const timestamp = new Date().toISOString();
+
+      if (!current) {
+        if (lines.length === 0) continue;
+
+        const created: Timesheet = {
+          id: uuidv4(),
+          restaurantId,
+          employeeId: employee.id,
+          weekStartDate,
+          status: 'draft',
+          lines,
+          createdAt: timestamp,
+          updatedAt: timestamp
+        };
+        await this.save(created);
+        this.audit(created, 'created', userId);
+        timesheets.push(created);
+        continue;
+      }
+
+      if (current.status !== 'draft') {
+        timesheets.push(current);
+        continue;
+      }
+
+      const refreshed = mergeTimesheetLines(current.lines, lines);
+      if (JSON.stringify(refreshed) === JSON.stringify(current.lines)) {
+        timesheets.push(current);
+        continue;
+      }
+
+      const updated: Timesheet = { ...current, lines: refreshed, updatedAt: timestamp };
+      await this.save(updated);
+      timesheets.push(updated);
+    }
+
+    // Timesheets of employees no longer listed (e.g. who left the restaurant) are still shown
+    existing.forEach(timesheet => {
+      if (!timesheets.some(t => t.id === timesheet.id)) timesheets.push(timesheet);
+    });
+
+    return timesheets;
+  }
+
+  // CRITICAL: Hours retained for a line instead of the clocked ones, with the reason kept in the audit log
+  async adjustLine(timesheet: Timesheet, lineId: string, hours: number, reason: string, userId?: string): Promise<Timesheet> {
+    if (timesheet.status !== 'draft' && timesheet.status !== 'submitted') {
+      throw new Error(`Cannot adjust a ${timesheet.status} timesheet`);
+    }
+    if (!reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    if (!Number.isFinite(hours) || hours < 0 || hours > 24) {
+      throw new Error('Hours must be between 0 and 24');
+    }
+
+    const line = timesheet.lines.find(l => l.id === lineId);
+    if (!line) {
+      throw new Error('Timesheet line not found');
+    }
+
+    const timestamp = new Date().toISOString();
+    const previousHours = getRetainedHours(line);
+    const updated: Timesheet = {
+      ...timesheet,
+      lines: timesheet.lines.map(l => l.id === lineId
+        ? { ...l, adjustment: { hours, reason: reason.trim(), adjustedBy: userId, adjustedAt: timestamp } }
+        : l),
+      updatedAt: timestamp
+    };
+
+    await this.save(updated);
+    this.audit(updated, 'adjusted', userId, { lineId, previousHours, newHours: hours, reason: reason.trim() });
+    console.log('📝 Timesheet line adjusted:', { timesheetId: timesheet.id, lineId, previousHours, hours });
+    return updated;
+  }
+
+  private async applyTransition(
+    timesheet: Timesheet,
+    action: keyof typeof TRANSITIONS,
+    userId?: string,
+    reason?: string
+  ): Promise<Timesheet> {
+    const { from, to } = TRANSITIONS[action];
+    if (timesheet.status !== from) {
+      throw new Error(`Timesheet is ${timesheet.status}, expected ${from}`);
+    }
+
+    const timestamp = new Date().toISOString();
+    // The reason travels with the timesheet so the audit trigger can record it
+    let updated: Timesheet = { ...timesheet, status: to, statusReason: reason, updatedAt: timestamp };
+
+    if (action === 'submitted') {
+      updated = { ...updated, submittedAt: timestamp, submittedBy: userId };
+    } else if (action === 'approved') {
+      updated = { ...updated, approvedAt: timestamp, approvedBy: userId };
+    } else if (action === 'locked') {
+      updated = { ...updated, lockedAt: timestamp, lockedBy: userId };
+    } else {
+      // Back to draft: the week is submitted and approved again from scratch
+      updated = {
+        ...updated,
+        submittedAt: undefined,
+        submittedBy: undefined,
+        approvedAt: undefined,
+        approvedBy: undefined
+      };
+    }
+
+    await this.save(updated);
+    this.audit(updated, action, userId, reason ? { reason } : {});
+    console.log(`✅ Timesheet ${action}:`, { timesheetId: timesheet.id, employeeId: timesheet.employeeId });
+    return updated;
+  }
+
+  async submit(timesheet: Timesheet, userId?: string): Promise<Timesheet> {
+    // A punch still open would change the hours after the manager's review
+    if (timesheet.lines.some(line => line.clockStatus === 'in_progress' && !line.adjustment)) {
+      throw new Error('Timesheet has punches still in progress');
+    }
+    return this.applyTransition(timesheet, 'submitted', userId);
+  }
+
+  async approve(timesheet: Timesheet, userId?: string): Promise<Timesheet> {
+    return this.applyTransition(timesheet, 'approved', userId);
+  }
+
+  async reject(timesheet: Timesheet, reason: string, userId?: string): Promise<Timesheet> {
+    if (!reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    return this.applyTransition(timesheet, 'rejected', userId, reason.trim());
+  }
+
+  async reopen(timesheet: Timesheet, reason: string, userId?: string): Promise<Timesheet> {
+    if (!reason.trim()) {
+      throw new Error('A reason is required');
+    }
+    return this.applyTransition(timesheet, 'reopened', userId, reason.trim());
+  }
+
+  async lock(timesheet: Timesheet, userId?: string): Promise<Timesheet> {
+    return this.applyTransition(timesheet, 'locked', userId);
+  }
+}
+
+// Export singleton instance
+export const timesheetService = TimesheetService.getInstance();
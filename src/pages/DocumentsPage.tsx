@@ -8,7 +8,7 @@ import DocumentManager from '../components/hr/DocumentManager';
 const DocumentsPage: React.FC = () => {
   const { t } = useTranslation();
   const { currentRestaurant } = useAppContext();
-  const { isManager } = useAuth();
+  const { can } = useAuth();
   
   // State for employee filter
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | 'all'>('all');
@@ -34,10 +34,15 @@ const DocumentsPage: React.FC = () => {
         </div>
       </div>
 
-      {currentRestaurant ? (
+      {currentRestaurant && !can('documents:view', currentRestaurant.id) ? (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <FileText size={48} className="text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">{t('common.accessDenied')}</p>
+        </div>
+      ) : currentRestaurant ? (
         <div className="space-y-6">
-          {/* Employee filter - only show if user is a manager */}
-          {isManager() && (
+          {/* Employee filter - only show if user can manage documents */}
+          {can('documents:manage', currentRestaurant.id) && (
             <div className="bg-white rounded-lg shadow-sm p-6">
               <div className="flex items-center gap-3 mb-4">
                 <Filter className="text-gray-600" size={20} />
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { Fingerprint } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import TimeClockStandalone from '../components/timeclock/TimeClockStandalone';
+import KioskManagerPanel from '../components/timeclock/KioskManagerPanel';
+import { kioskDeviceService, KioskRosterEmployee, KioskSyncState } from '../lib/kioskDeviceService';
+
+// CRITICAL: Full-screen kiosk for a tablet locked to one restaurant; no back office data is needed
+const KioskPage: React.FC = () => {
+  const { i18n } = useTranslation();
+  const navigate = useNavigate();
+  const [config] = useState(() => kioskDeviceService.getConfig());
+  const [employees, setEmployees] = useState<KioskRosterEmployee[]>(() => kioskDeviceService.getRoster());
+  const [showManagerPanel, setShowManagerPanel] = useState(false);
+
+  // Installable app: manifest and service worker keep the kiosk loading without a connection
+  useEffect(() => {
+    const manifest = document.createElement('link');
+    manifest.rel = 'manifest';
+    manifest.href = '/kiosk.webmanifest';
+    document.head.appendChild(manifest);
+
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/kiosk-sw.js').catch(error => {
+        console.error('❌ Kiosk service worker registration failed:', error);
+      });
+    }
+
+    return () => manifest.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!config) return;
+
+    kioskDeviceService.start();
+    // The roster changes when the cache is refreshed from the server
+    const unsubscribe = kioskDeviceService.subscribe((state: KioskSyncState) => {
+      if (state.cacheRefreshedAt) setEmployees(kioskDeviceService.getRoster());
+    });
+
+    return () => {
+      unsubscribe();
+      kioskDeviceService.stop();
+    };
+  }, [config]);
+
+  if (!config) {
+    return (
+      <div className="min-h-screen flex flex-col justify-center items-center bg-gray-100 p-6 text-center">
+        <Fingerprint size={48} className="text-blue-600 mb-4" />
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">
+          {i18n.language === 'fr' ? 'Cette tablette n\'est pas configurée en borne' : 'This tablet is not set up as a kiosk'}
+        </h1>
+        <p className="text-gray-600 mb-6 max-w-md">
+          {i18n.language === 'fr'
+            ? 'Un responsable doit activer le mode borne depuis la page Badgeuse de ce restaurant.'
+            : 'A manager must enable kiosk mode from the restaurant\'s Time Clock page.'}
+        </p>
+        <button
+          onClick={() => navigate('/')}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          {i18n.language === 'fr' ? 'Retour à l\'application' : 'Back to the application'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <TimeClockStandalone
+        restaurantName={config.restaurantName}
+        employees={employees}
+        onManagerAccess={() => setShowManagerPanel(true)}
+      />
+      {showManagerPanel && (
+        <KioskManagerPanel
+          employees={employees}
+          onClose={() => setShowManagerPanel(false)}
+          onExit={() => navigate('/')}
+        />
+      )}
+    </>
+  );
+};
+
+export default KioskPage;
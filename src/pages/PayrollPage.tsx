@@ -9,10 +9,14 @@ import toast from 'react-hot-toast';
 const PayrollPage: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { currentRestaurant } = useAppContext();
-  const { isManager } = useAuth();
+  const { can } = useAuth();
   
   // State for integration modals
   const [showIntegrationModal, setShowIntegrationModal] = React.useState(false);
+
+  // CRITICAL: Payroll data is restricted to roles with payroll access on this restaurant
+  const canViewPayroll = can('payroll:view', currentRestaurant?.id);
+  const canExportPayroll = can('payroll:export', currentRestaurant?.id);
   
   // Handle integration setup
   const handleIntegrationSetup = () => {
@@ -43,7 +47,7 @@ const PayrollPage: React.FC = () => {
           </div>
         </div>
         
-        {isManager() && (
+        {canExportPayroll && (
           <div className="flex gap-3">
             <button
               onClick={handleExportHistory}
@@ -64,7 +68,12 @@ const PayrollPage: React.FC = () => {
         )}
       </div>
 
-      {currentRestaurant ? (
+      {currentRestaurant && !canViewPayroll ? (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <DollarSign size={48} className="text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">{t('common.accessDenied')}</p>
+        </div>
+      ) : currentRestaurant ? (
         <div className="space-y-6">
           {/* Payroll Preparation */}
           <PayrollPreparation restaurantId={currentRestaurant.id} />
@@ -5,7 +5,7 @@ export const DAYS_OF_WEEK = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Frid
 export const DAILY_STATUS = {
   WEEKLY_REST: { label: 'Repos Hebdo', color: '#4B5563' }, // Gray
   CP: { label: 'CP', color: '#10B981' }, // Green
-  PUBLIC_HOLIDAY: { label: 'Férié 1er Mai', color: '#DC2626' }, // Red
+  PUBLIC_HOLIDAY: { label: 'Férié', color: '#DC2626' }, // Red
   SICK_LEAVE: { label: 'Maladie', color: '#F59E0B' }, // Amber
   ACCIDENT: { label: 'Accident de Travail', color: '#8B5CF6' }, // Purple
   ABSENCE: { label: 'Absence', color: '#EC4899' }  // Pink
@@ -121,6 +121,7 @@ export type TimeInputType = keyof typeof TIME_INPUT_TYPES;
 export type ScheduleLayoutType = keyof typeof SCHEDULE_LAYOUT_TYPES;
 export type AvailabilityType = keyof typeof AVAILABILITY_TYPES;
 export type RecurrenceType = keyof typeof RECURRENCE_TYPES;
+export type AppTab = 'dashboard' | 'restaurants' | 'schedule' | 'staff' | 'settings' | 'performance' | 'payroll' | 'timeclock' | 'documents';
 
 export const formatFrenchPhoneNumber = (phone: string): string => {
   const cleaned = phone.replace(/\D/g, '');
@@ -160,6 +161,19 @@ export interface Restaurant {
     phone: string;
     email: string;
   };
+  laborRulePackId?: string; // Labor-law rule pack applied to the restaurant's staff
+  punchRules?: Partial<PunchRules>; // Time clock rounding and grace windows, defaults apply to missing fields
+}
+
+// CRITICAL: How a restaurant turns raw punch times into paid hours
+export type PunchRoundingMode = 'none' | 'nearest' | 'up' | 'down';
+
+export interface PunchRules {
+  roundingMode: PunchRoundingMode;
+  roundingIncrement: number; // Minutes
+  arrivalGraceMinutes: number; // A clock-in this close to the planned start counts as on time, paid from the planned start
+  departureGraceMinutes: number; // A clock-out this close to the planned end is paid until the planned end
+  autoClockOutHours?: number; // Open punches are closed after this many hours; no auto clock-out when missing
 }
 
 // CRITICAL: New interface for employee availability
@@ -220,6 +234,8 @@ export interface Employee {
   hiringDate?: string;
   hourlyRate?: number;
   grossMonthlySalary?: number;
+  payrollId?: string; // Matricule in the payroll software
+  laborRulePackId?: string; // Overrides the restaurant's labor-law rule pack
   // CRITICAL: New fields for preferences and availability
   preferences?: EmployeePreference;
   availabilities?: EmployeeAvailability[];
@@ -248,6 +264,8 @@ export interface Shift {
   coupureDuration?: number; // Duration of coupure in minutes
   // CRITICAL: Add week identifier to prevent cross-week conflicts
   weekStartDate?: string; // ISO date string of the week start (Monday)
+  // CRITICAL: Incremented on every edit to detect concurrent changes (missing means 1)
+  version?: number;
 }
 
 export interface Schedule {
@@ -257,6 +275,34 @@ export interface Schedule {
   shifts: Shift[];
 }
 
+// Real-time collaboration on weekly schedules
+export interface CollaboratorPresence {
+  userId: string;
+  name: string;
+  restaurantId: string;
+  weekStartDate: string | null; // Week currently open in the schedule, null elsewhere in the app
+  onlineAt: string;
+}
+
+export interface ShiftChange {
+  type: 'create' | 'update' | 'delete';
+  shift: Shift;
+  weekStartDate: string;
+  baseVersion?: number; // Version the author edited from
+  authorId: string;
+  authorName: string;
+}
+
+export interface ShiftConflict {
+  shiftId: string;
+  restaurantId: string;
+  weekStartDate: string;
+  local: Shift | null; // null when the shift was deleted locally
+  remote: Shift | null; // null when the shift was deleted by the other user
+  remoteAuthorName: string;
+  detectedAt: string;
+}
+
 export interface ShiftTemplate {
   id: string;
   name: string;
@@ -269,6 +315,108 @@ export interface ShiftTemplate {
   restaurantId: string;
 }
 
+// Staffing requirement for one position on one day, used by the automatic schedule generator
+export interface StaffingRequirement {
+  id: string;
+  day: number; // 0 = Monday ... 6 = Sunday
+  position: string;
+  start: string;
+  end: string;
+  headcount: number;
+  type: ShiftType;
+}
+
+// Public holidays: the Alsace-Moselle departments (57, 67, 68) have two extra days
+export type HolidayRegion = 'metropole' | 'alsace-moselle';
+
+export interface PublicHoliday {
+  date: string; // yyyy-MM-dd
+  name: string; // French name
+  nameEn: string;
+  regional: boolean; // Only observed in the region (Good Friday, St Stephen's Day)
+}
+
+// Labor-law rule packs, loaded from src/data/laborRulePacks/*.json
+export interface LaborRuleReference {
+  reference: string; // Legal reference cited by the violations of this rule
+}
+
+export interface LaborRule extends LaborRuleReference {
+  limit: number;
+}
+
+export interface LaborRulePack {
+  id: string;
+  name: string;
+  country: string;
+  description: string;
+  minorsPackId?: string; // Pack applied to employees under 18 without a pack of their own
+  // A missing rule is not checked
+  rules: {
+    dailyRestHours?: LaborRule;
+    weeklyRestHours?: LaborRule & { referenceDays?: number }; // Period in which the rest is due (default 7 days)
+    sundayRest?: LaborRuleReference;
+    maxDailyHours?: LaborRule;
+    maxWeeklyHours?: LaborRule;
+    averageWeeklyHours?: LaborRule & { weeks: number };
+    maxConsecutiveDays?: LaborRule;
+    maxContinuousHours?: LaborRule; // Longest service without a break
+    minCoupureMinutes?: LaborRule;
+    maxCoupureHours?: LaborRule;
+    nightWork?: LaborRuleReference & { start: string; end: string }; // Forbidden working window
+  };
+}
+
+// Forecast-driven staffing model (covers per staff member, per position and service)
+export type StaffingService = 'lunch' | 'dinner';
+
+export interface StaffingRatio {
+  position: string;
+  service: StaffingService;
+  coversPerStaff: number; // 0 = fixed headcount, independent of the covers
+  minimum: number;
+}
+
+export interface StaffingModel {
+  restaurantId: string;
+  ratios: StaffingRatio[];
+  serviceHours: Record<StaffingService, { start: string; end: string }>;
+  lunchShare: number; // Share of daily covers served at lunch when POS data has no service split (0-1)
+}
+
+export interface StaffingTarget {
+  date: string;
+  day: number; // 0 = Monday ... 6 = Sunday
+  service: StaffingService;
+  position: string;
+  forecastedCovers: number;
+  headcount: number;
+}
+
+// Payroll software that can import our variable elements
+export type PayrollSoftware = 'sage' | 'cegid' | 'payfit' | 'adp' | 'quadratus';
+
+// Variable elements sent to the payroll software, each mapped to one of its rubric codes
+export type PayrollRubric =
+  | 'regular_hours'
+  | 'complementary_hours'
+  | 'overtime_110'
+  | 'overtime_125'
+  | 'overtime_150'
+  | 'holiday_hours'
+  | 'night_hours'
+  | 'paid_leave'
+  | 'public_holiday'
+  | 'sick_leave'
+  | 'work_accident'
+  | 'unpaid_absence'
+  | 'coupure_indemnity'
+  | 'meal_benefit'
+  | 'transport_allowance'
+  | 'hours_regularization';
+
+export type PayrollRubricMapping = Partial<Record<PayrollRubric, string>>;
+
 // CRITICAL: Enhanced settings interface with break payment option and time clock toggle
 export interface UserSettings {
   timeInputType: TimeInputType;
@@ -288,13 +436,18 @@ export interface UserSettings {
   payBreakTimes: boolean; // Whether break times are considered paid or unpaid 
   // CRITICAL: NEW - Time clock toggle
   timeClockEnabled: boolean; // Whether the time clock functionality is enabled 
+  // Days ahead in which employee availability changes no longer apply (published weeks stay stable)
+  availabilityFreezeDays?: number;
+  // Days ahead a week must be published; later changes are flagged as late notice
+  publicationNoticeDays?: number;
   // HR & Document Management settings
   documentStorage?: 'local' | 'cloud' | 's3' | 'gdrive';
   documentRetention?: '1year' | '3years' | '5years' | '10years' | 'indefinite';
   electronicSignature?: boolean;
   automaticDocumentGeneration?: boolean;
   // Payroll Integration settings
-  payrollSoftware?: 'none' | 'sage' | 'cegid' | 'payfit' | 'adp' | 'quadratus';
+  payrollSoftware?: 'none' | PayrollSoftware;
+  payrollRubricMappings?: Partial<Record<PayrollSoftware, PayrollRubricMapping>>; // Overrides the exporters' default codes
   payrollExportFrequency?: 'weekly' | 'biweekly' | 'monthly';
   automaticPayrollExport?: boolean;
   payrollValidationRequired?: boolean;
@@ -538,6 +691,10 @@ export interface TimeClock {
   clockOutTime?: string; // ISO date string
   totalHours?: number;
   status: 'active' | 'completed';
+  shiftId?: string; // Scheduled shift matched at clock-in (one half of a coupure), missing if unscheduled
+  deviceId?: string; // Kiosk tablet the punch was recorded on
+  syncedAt?: string; // When a kiosk punch reached the server, later than the punch itself if recorded offline
+  autoClockedOut?: boolean; // Closed by the restaurant's auto clock-out, not by the employee
   notes?: string;
   createdAt: string;
   updatedAt: string;
@@ -551,9 +708,357 @@ export interface TimeClockSummary {
   scheduledHours: number;
   difference: number;
   status: 'on_time' | 'late' | 'early' | 'overtime' | 'undertime';
+}
+
+export type TimeClockComparisonStatus =
+  | 'on_time'
+  | 'late'
+  | 'early'
+  | 'overtime'
+  | 'undertime'
+  | 'missing_punch'
+  | 'in_progress'
+  | 'unscheduled';
+
+// CRITICAL: Kiosk authentication (hashed PIN or personal QR badge)
+export type KioskAuthMethod = 'pin' | 'badge';
+
+export type KioskAuthOutcome = 'success' | 'invalid_pin' | 'invalid_badge' | 'no_pin' | 'locked';
+
+export interface KioskAuthResult {
+  outcome: KioskAuthOutcome;
+  employeeId?: string; // Identified employee (also set for a wrong PIN)
+  lockedUntil?: string; // ISO date string, set when the employee is locked out
+  remainingAttempts?: number; // Failures left before lockout after a wrong PIN
+  punch?: TimeClock; // Recorded on success: clock-out of the open punch, else clock-in
+}
+
+// Audit trail entry written for every kiosk authentication attempt
+export interface KioskAuthEvent {
+  id: string;
+  restaurantId: string;
+  employeeId?: string;
+  method: KioskAuthMethod;
+  outcome: KioskAuthOutcome;
+  createdAt: string;
+}
+
+export interface KioskCredentialStatus {
+  employeeId: string;
+  hasPin: boolean;
+  failedAttempts: number;
+  lockedUntil?: string;
+}
+
+// Punch recorded on a kiosk tablet and not yet confirmed by the server
+export interface KioskPendingPunch {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  type: 'in' | 'out';
+  punchId: string; // Time clock record opened (in) or closed (out)
+  shiftId?: string;
+  deviceId: string;
+  deviceTime: string; // ISO date string from the tablet clock
+  attempts: number;
+  lastError?: string;
+  rejected?: boolean; // Refused by the server, kept until a manager discards it
+}
+
+// Tablet locked to a restaurant in kiosk mode, as last reported by the tablet
+export interface KioskDevice {
+  id: string;
+  restaurantId: string;
+  name: string;
+  lastSeenAt: string;
+  lastSyncAt?: string;
+  pendingPunches: KioskPendingPunch[];
+}
+
+// Planned shift compared with the punches matched to it (or an unscheduled punch)
+export interface TimeClockComparisonResult {
+  shiftId?: string;
+  employeeId: string;
+  employeeName: string;
   date: string;
-  totalHours: number;
-  scheduledHours: number;
-  difference: number;
-  status: 'on_time' | 'late' | 'early' | 'overtime' | 'undertime';
-}
\ No newline at end of file
+  plannedStart: string;
+  plannedEnd: string;
+  plannedHours: number;
+  actualStart: string;
+  actualEnd: string;
+  actualHours: number;
+  variance: number;
+  status: TimeClockComparisonStatus;
+  punchId?: string; // Unscheduled rows only
+  autoClockedOut?: boolean; // The last punch was closed by the auto clock-out
+}
+
+// CRITICAL: Weekly timesheet - payroll only pays the hours of approved (or locked) timesheets
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'locked';
+
+export interface TimesheetAdjustment {
+  hours: number; // Hours retained instead of the clocked hours
+  reason: string;
+  adjustedBy?: string;
+  adjustedAt: string;
+}
+
+// One scheduled shift, absence day or unscheduled punch of the week
+export interface TimesheetLine {
+  id: string; // Stable across refreshes from the time clock so adjustments stay attached
+  date: string; // yyyy-MM-dd
+  shiftId?: string;
+  status?: DailyStatus; // Absence line
+  isHolidayWorked?: boolean;
+  plannedStart: string;
+  plannedEnd: string;
+  plannedHours: number;
+  actualStart: string;
+  actualEnd: string;
+  actualHours: number;
+  clockStatus?: TimeClockComparisonStatus;
+  adjustment?: TimesheetAdjustment;
+}
+
+export interface Timesheet {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  weekStartDate: string; // Monday, yyyy-MM-dd
+  status: TimesheetStatus;
+  lines: TimesheetLine[];
+  statusReason?: string; // Reason given with the last rejection or reopening
+  submittedAt?: string;
+  submittedBy?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+  lockedAt?: string;
+  lockedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TimesheetAuditAction = 'created' | 'adjusted' | 'submitted' | 'approved' | 'rejected' | 'reopened' | 'locked';
+
+export interface TimesheetAuditEntry {
+  id: string;
+  timesheetId: string;
+  restaurantId: string;
+  action: TimesheetAuditAction;
+  lineId?: string;
+  previousHours?: number;
+  newHours?: number;
+  reason?: string;
+  userId?: string;
+  createdAt: string;
+}
+
+// CRITICAL: Monthly payroll period of a restaurant - shifts of a closed period can no longer change
+export type PayrollPeriodStatus = 'open' | 'validated' | 'exported' | 'closed';
+
+export interface PayrollPeriod {
+  id: string;
+  restaurantId: string;
+  month: string; // yyyy-MM
+  status: PayrollPeriodStatus;
+  validatedAt?: string;
+  validatedBy?: string;
+  exportedAt?: string;
+  exportedBy?: string;
+  closedAt?: string;
+  closedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Correction of a closed period, paid with the next period still open
+export interface PayrollRegularization {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  month: string; // Period the line is paid with, yyyy-MM
+  date: string; // Corrected day, inside a closed period, yyyy-MM-dd
+  hours: number; // Hours to add (negative to take back)
+  reason: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// CRITICAL: Leave counters - CP in working days (jours ouvrables), RTT in days, repos compensateur in hours
+export type LeaveCounter = 'CP' | 'RTT' | 'REPOS_COMPENSATEUR';
+
+// Manual movement of a counter: opening balance, correction, RTT granted or taken, rest earned or taken
+export interface LeaveLedgerEntry {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  counter: LeaveCounter;
+  date: string; // yyyy-MM-dd
+  amount: number; // Credit when positive, debit when negative
+  reason: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// One line of the ledger: monthly accrual, CP day of the schedule or manual entry
+export interface LeaveLedgerLine {
+  date: string;
+  counter: LeaveCounter;
+  source: 'accrual' | 'taken' | 'manual';
+  amount: number;
+  reason?: string;
+}
+
+export interface LeaveBalance {
+  referencePeriodStart: string; // June 1st of the current reference period
+  referencePeriodEnd: string; // May 31st
+  cpAcquired: number; // Earned in previous reference periods
+  cpAccruing: number; // Earned so far in the current reference period
+  cpTaken: number; // CP days of the schedule, planned ones included
+  cpAdjustments: number;
+  cpBalance: number;
+  rttBalance: number;
+  reposCompensateurBalance: number;
+  lines: LeaveLedgerLine[];
+}
+
+// CRITICAL: Time off asked from the employee portal - approved requests are written to the schedule
+export type LeaveRequestType = 'CP' | 'ABSENCE' | 'UNAVAILABLE';
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface LeaveRequest {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  type: LeaveRequestType;
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd, included
+  reason?: string;
+  status: LeaveRequestStatus;
+  managerComment?: string;
+  requestedBy?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// CRITICAL: Availability and preferences proposed by an employee from the portal, applied once a manager accepts
+export type AvailabilityChangeStatus = 'pending' | 'accepted' | 'rejected' | 'cancelled';
+
+export type EmployeePreferenceValues = Omit<EmployeePreference, 'id' | 'employeeId' | 'createdAt' | 'updatedAt'>;
+
+export interface AvailabilityChangeRequest {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  availabilities: EmployeeAvailability[]; // Full proposed set - kept rules keep their id
+  preference?: EmployeePreferenceValues; // Proposed preferences, left as they are when absent
+  status: AvailabilityChangeStatus;
+  managerComment?: string;
+  requestedBy?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// CRITICAL: Published versions of a week - what employees see, kept as they were sent
+export interface SchedulePublication {
+  id: string;
+  restaurantId: string;
+  weekStartDate: string; // yyyy-MM-dd (Monday)
+  version: number; // 1 for the first publication of the week
+  shifts: Shift[]; // Snapshot of the week when it was published
+  publishedBy?: string;
+  publishedAt: string;
+  unpublishedBy?: string;
+  unpublishedAt?: string; // Set when the manager withdraws the week
+}
+
+// One employee's day that differs between two versions of a week
+export interface ScheduleDayChange {
+  employeeId: string;
+  day: number;
+  before: Shift[]; // Entries of the day in the previous version, empty when none
+  after: Shift[]; // Entries of the day in the new version, empty when none
+}
+
+export type ScheduleNotificationKind = 'published' | 'updated' | 'withdrawn';
+
+// What an employee is told when a week is published, republished or withdrawn
+export interface ScheduleNotification {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  publicationId: string;
+  weekStartDate: string; // yyyy-MM-dd
+  version: number;
+  kind: ScheduleNotificationKind;
+  changes: ScheduleDayChange[]; // Only the employee's own days
+  createdAt: string;
+  readAt?: string;
+}
+
+// CRITICAL: Shifts handed over between employees - offered from the portal or posted open by a manager
+export type ShiftOfferStatus = 'open' | 'claimed' | 'approved' | 'rejected' | 'cancelled';
+
+export interface ShiftOffer {
+  id: string;
+  restaurantId: string;
+  weekStartDate: string; // yyyy-MM-dd (Monday)
+  shift: Omit<Shift, 'employeeId'>; // Keeps the schedule shift id when an employee offers it
+  category: EmployeeCategory; // Team the shift belongs to
+  offeredBy?: string; // Employee giving the shift away, none for an open shift
+  note?: string;
+  status: ShiftOfferStatus;
+  claimedBy?: string; // Employee taking the shift
+  claimedAt?: string;
+  managerComment?: string;
+  createdBy?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// CRITICAL: Contracts and amendments sent to an employee for electronic signature
+export type SignatureDocumentKind = 'contract' | 'amendment';
+
+export type SignatureRequestStatus = 'pending' | 'signed' | 'rejected' | 'cancelled';
+
+export type SignatureMethod = 'drawn' | 'typed';
+
+// What the employee gave when signing, sealed with the document hash
+export interface SignatureEvidence {
+  method: SignatureMethod;
+  signerName: string; // Typed name, or the employee's name under a drawn signature
+  image: string; // PNG data URL placed in the signature block of the PDF
+  signedAt: string;
+  userId?: string;
+  userAgent: string; // Device and browser the document was signed from
+}
+
+export interface DocumentSignatureRequest {
+  id: string;
+  restaurantId: string;
+  employeeId: string;
+  kind: SignatureDocumentKind;
+  title: string;
+  content: string; // Full text the employee agrees to
+  contentHash: string; // SHA-256 of the document when the signature was requested
+  message?: string; // Note from the manager
+  status: SignatureRequestStatus;
+  provider: string; // Signing backend that sealed the document
+  providerReference?: string;
+  signature?: SignatureEvidence;
+  sealHash?: string; // SHA-256 over the document hash and the signature evidence
+  signerIp?: string; // Recorded by the server, unknown in demo mode
+  rejectionReason?: string;
+  requestedBy?: string;
+  requestedAt: string;
+  viewedAt?: string; // First time the employee opened it
+  closedBy?: string; // Who rejected or cancelled it
+  closedAt?: string;
+  updatedAt: string;
+}
@@ -0,0 +1,271 @@
+/*
+  # Add restaurants, schedules and shifts tables for persistent scheduling
+
+  1. New Tables
+    - `restaurants` - Store restaurant identity, address and manager contact
+    - `schedules` - One row per restaurant and week (Monday start)
+    - `shifts` - Store individual shifts and daily statuses within a weekly schedule
+
+  2. Changes
+    - Add missing fields to `employees` table used by the application:
+      - `category` (text, Cuisine or Salle)
+      - `weekly_hours` (numeric)
+      - `social_security_number` (text)
+      - `profile_picture` (text)
+
+  3. Security
+    - Enable RLS on all new tables
+    - Scope access through `restaurant_access` (admin, manager, employee)
+    - Global admins (`user_profiles.role = 'admin'`) see and manage every restaurant
+    - Only admins and managers can modify restaurants, schedules and shifts
+    - The creator of a restaurant is granted admin access to it (trigger), so its
+      first schedule can be written right away
+*/
+
+-- Restaurants Table
+CREATE TABLE IF NOT EXISTS restaurants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  commercial_name text,
+  legal_name text,
+  siret text,
+  location text NOT NULL DEFAULT '',
+  street_address text,
+  postal_code text,
+  city text,
+  country text,
+  phone text,
+  website text,
+  image text,
+  manager jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Schedules Table
+CREATE TABLE IF NOT EXISTS schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  week_start_date date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(restaurant_id, week_start_date)
+);
+
+-- Shifts Table
+CREATE TABLE IF NOT EXISTS shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid NOT NULL REFERENCES schedules(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  week_start_date date NOT NULL,
+  day integer NOT NULL CHECK (day BETWEEN 0 AND 6),
+  start_time text,
+  end_time text,
+  position text NOT NULL,
+  color text,
+  type text NOT NULL CHECK (type IN ('morning', 'evening', 'coupure')),
+  is_holiday_worked boolean DEFAULT false,
+  status text CHECK (status IS NULL OR status IN ('WEEKLY_REST', 'CP', 'PUBLIC_HOLIDAY', 'SICK_LEAVE', 'ACCIDENT', 'ABSENCE')),
+  leave_type text,
+  shift_group text,
+  shift_order integer,
+  has_coupure boolean DEFAULT false,
+  coupure_start text,
+  coupure_end text,
+  coupure_duration integer,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS shifts_schedule_id_idx ON shifts(schedule_id);
+CREATE INDEX IF NOT EXISTS shifts_employee_week_idx ON shifts(employee_id, week_start_date);
+
+-- Add missing fields to employees table
+DO $$
+BEGIN
+  -- Category
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'category'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN category text;
+    ALTER TABLE employees ADD CONSTRAINT employee_category_check CHECK (
+      category IS NULL OR category IN ('Cuisine', 'Salle')
+    );
+  END IF;
+
+  -- Weekly Hours
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'weekly_hours'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN weekly_hours numeric DEFAULT 35;
+  END IF;
+
+  -- Social Security Number
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'social_security_number'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN social_security_number text;
+  END IF;
+
+  -- Profile Picture
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'profile_picture'
+  ) THEN
+    ALTER TABLE employees ADD COLUMN profile_picture text;
+  END IF;
+END $$;
+
+-- Enable RLS on all tables
+ALTER TABLE restaurants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shifts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for restaurants
+CREATE POLICY "Users can view restaurants they have access to"
+  ON restaurants
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = restaurants.id
+    )
+  );
+
+CREATE POLICY "Admins can create restaurants"
+  ON restaurants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can manage restaurants"
+  ON restaurants
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = restaurants.id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+-- Create policies for schedules
+CREATE POLICY "Restaurant staff can view schedules"
+  ON schedules
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = schedules.restaurant_id
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can manage schedules"
+  ON schedules
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = schedules.restaurant_id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+-- Create policies for shifts
+CREATE POLICY "Restaurant staff can view shifts"
+  ON shifts
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = shifts.restaurant_id
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can manage shifts"
+  ON shifts
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = shifts.restaurant_id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+-- The creator of a restaurant administers it: without this row nothing else about
+-- the restaurant (schedules, shifts) could be written under RLS
+CREATE OR REPLACE FUNCTION grant_restaurant_creator_access()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO restaurant_access (user_id, restaurant_id, role)
+    VALUES (auth.uid(), NEW.id, 'admin')
+    ON CONFLICT (user_id, restaurant_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restaurants_grant_creator_access ON restaurants;
+
+CREATE TRIGGER restaurants_grant_creator_access
+  AFTER INSERT ON restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION grant_restaurant_creator_access();
+
+-- Add comments to document the tables
+COMMENT ON TABLE restaurants IS 'Stores restaurant identity and contact information';
+COMMENT ON TABLE schedules IS 'Stores one weekly schedule per restaurant and week start date (Monday)';
+COMMENT ON TABLE shifts IS 'Stores scheduled shifts and daily statuses (CP, repos, absences) for a weekly schedule';
+COMMENT ON COLUMN employees.category IS 'Employee category (Cuisine or Salle)';
+COMMENT ON COLUMN employees.weekly_hours IS 'Contractual weekly hours';
@@ -0,0 +1,23 @@
+/*
+  # Add version numbers to shifts for concurrent editing
+
+  1. Changes
+    - Add `version` (integer) to `shifts`, incremented by the client on every edit
+    - Updates are conditional on the version the editor started from, so two
+      managers editing the same shift are detected instead of overwriting each other
+
+  2. Security
+    - No policy changes, presence and shift broadcasts use Supabase Realtime channels
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'shifts' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE shifts ADD COLUMN version integer NOT NULL DEFAULT 1;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN shifts.version IS 'Optimistic concurrency version, incremented on every edit';
@@ -0,0 +1,110 @@
+/*
+  # Scope employee records through restaurant_access roles
+
+  1. Changes
+    - Employee policies still referenced the legacy `user_restaurant_access` table
+      (roles owner/manager); they now use `restaurant_access` like restaurants,
+      schedules and shifts
+    - `social_security_number`, `hourly_rate` and `gross_monthly_salary` move from
+      `employees` to `employee_sensitive_data` (one row per employee), existing values
+      are copied over
+
+  2. Security
+    - Any role with access to a restaurant can read its employees, without pay and
+      identity data
+    - Only restaurant admins/managers and global admins can create, update or delete
+      employees, and read or write their sensitive data
+*/
+
+CREATE TABLE IF NOT EXISTS employee_sensitive_data (
+  employee_id uuid PRIMARY KEY REFERENCES employees(id) ON DELETE CASCADE,
+  social_security_number text,
+  hourly_rate numeric,
+  gross_monthly_salary numeric,
+  updated_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'employees' AND column_name = 'hourly_rate'
+  ) THEN
+    INSERT INTO employee_sensitive_data (employee_id, social_security_number, hourly_rate, gross_monthly_salary)
+    SELECT id, social_security_number, hourly_rate, gross_monthly_salary
+    FROM employees
+    WHERE social_security_number IS NOT NULL
+      OR hourly_rate IS NOT NULL
+      OR gross_monthly_salary IS NOT NULL
+    ON CONFLICT (employee_id) DO NOTHING;
+
+    ALTER TABLE employees
+      DROP COLUMN social_security_number,
+      DROP COLUMN hourly_rate,
+      DROP COLUMN gross_monthly_salary;
+  END IF;
+END $$;
+
+ALTER TABLE employee_sensitive_data ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view employees" ON employees;
+DROP POLICY IF EXISTS "Restaurant managers can manage employees" ON employees;
+DROP POLICY IF EXISTS "Restaurant admins and managers can manage employees" ON employees;
+DROP POLICY IF EXISTS "Restaurant admins and managers can manage employee sensitive data" ON employee_sensitive_data;
+
+CREATE POLICY "Restaurant staff can view employees"
+  ON employees
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = employees.restaurant_id
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can manage employees"
+  ON employees
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = employees.restaurant_id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can manage employee sensitive data"
+  ON employee_sensitive_data
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM employees
+      JOIN restaurant_access ON restaurant_access.restaurant_id = employees.restaurant_id
+      WHERE employees.id = employee_sensitive_data.employee_id
+      AND restaurant_access.user_id = auth.uid()
+      AND restaurant_access.role IN ('admin', 'manager')
+    )
+  );
+
+COMMENT ON POLICY "Restaurant admins and managers can manage employees" ON employees IS 'Mirrors the employees:manage permission of the client role model';
+COMMENT ON TABLE employee_sensitive_data IS 'Pay and identity data of an employee, readable only with the employees:viewSensitive permission';
@@ -0,0 +1,19 @@
+/*
+  # Labor rule packs per restaurant and employee
+
+  1. Changes
+    - `restaurants.labor_rule_pack_id`: collective agreement / country rule pack used
+      to validate schedules (e.g. `fr-hcr`, `eu-wtd`); NULL falls back to French HCR
+    - `employees.labor_rule_pack_id`: optional override for a single employee; NULL
+      uses the restaurant's pack (or its minors pack for employees under 18)
+    - Pack definitions themselves ship with the application as data files
+
+  2. Security
+    - No policy change: the columns follow the existing restaurants and employees policies
+*/
+
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS labor_rule_pack_id text;
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS labor_rule_pack_id text;
+
+COMMENT ON COLUMN restaurants.labor_rule_pack_id IS 'Labor rule pack id (fr-hcr, fr-minors, eu-wtd); NULL = fr-hcr';
+COMMENT ON COLUMN employees.labor_rule_pack_id IS 'Per-employee labor rule pack override; NULL = restaurant pack';
@@ -0,0 +1,105 @@
+/*
+  # Link time clock punches to scheduled shifts
+
+  1. Changes
+    - `time_clock.shift_id`: scheduled shift the punch was matched to when clocking in
+      (each half of a coupure is its own shift); NULL for unscheduled punches
+    - At most one open (`active`) punch per employee
+    - Index on (restaurant_id, clock_in_time) for the comparison and summary reports
+
+  2. Security
+    - Time clock policies still referenced the legacy `user_restaurant_access` table;
+      they now use `restaurant_access` like schedules and shifts
+    - Any role with access to a restaurant can read its punches
+    - Only restaurant admins/managers and global admins can record, correct or delete
+      punches directly; employees punch through `authenticate_kiosk`, which records the
+      punch of the identified employee only
+*/
+
+ALTER TABLE time_clock ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES shifts(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS time_clock_one_active_per_employee
+  ON time_clock (employee_id)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS time_clock_restaurant_clock_in_idx
+  ON time_clock (restaurant_id, clock_in_time);
+
+DROP POLICY IF EXISTS "Restaurant owners and managers can manage time clock records" ON time_clock;
+DROP POLICY IF EXISTS "Employees can view and create their own time clock records" ON time_clock;
+DROP POLICY IF EXISTS "Employees can insert their own time clock records" ON time_clock;
+DROP POLICY IF EXISTS "Restaurant admins and managers can record time clock punches" ON time_clock;
+DROP POLICY IF EXISTS "Restaurant admins and managers can correct time clock punches" ON time_clock;
+
+CREATE POLICY "Restaurant staff can view time clock records"
+  ON time_clock
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = time_clock.restaurant_id
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can record time clock punches"
+  ON time_clock
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = time_clock.restaurant_id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can correct time clock punches"
+  ON time_clock
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = time_clock.restaurant_id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+CREATE POLICY "Restaurant admins and managers can delete time clock records"
+  ON time_clock
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = time_clock.restaurant_id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+COMMENT ON COLUMN time_clock.shift_id IS 'Scheduled shift matched at clock-in (one coupure half); NULL = unscheduled punch';
@@ -0,0 +1,400 @@
+/*
+  # Kiosk authentication: hashed PINs, QR badges, lockout and audit trail
+
+  1. New Tables
+    - `employee_kiosk_credentials` - one row per employee: bcrypt PIN hash, personal
+      badge token (encoded in the printable QR badge), failed attempts and lockout
+    - `kiosk_auth_events` - audit trail of every kiosk authentication attempt
+      (method, outcome, employee when known, session user)
+
+  2. Functions
+    - `authenticate_kiosk` checks a PIN or badge server-side, counts failures, locks the
+      employee for 15 minutes after 5 wrong PINs and records the attempt; a successful
+      check records the punch (clock-out of the open punch, else clock-in) at server time
+    - `set_employee_kiosk_pin`, `unlock_employee_kiosk`, `regenerate_employee_badge`,
+      `get_employee_badge_tokens` and `get_kiosk_credential_status` for managers
+
+  3. Security
+    - Credentials have RLS enabled and no policy: hashes and tokens are only reachable
+      through the SECURITY DEFINER functions above
+    - Any role with access to a restaurant can authenticate on its kiosk; only restaurant
+      admins/managers and global admins manage credentials and read the audit trail
+    - `record_kiosk_punch` is only reachable through `authenticate_kiosk`: no punch without
+      a valid PIN or badge
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS employee_kiosk_credentials (
+  employee_id uuid PRIMARY KEY REFERENCES employees(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  pin_hash text,
+  badge_token text UNIQUE,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS kiosk_auth_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid REFERENCES employees(id) ON DELETE SET NULL,
+  method text NOT NULL CHECK (method IN ('pin', 'badge')),
+  outcome text NOT NULL CHECK (outcome IN ('success', 'invalid_pin', 'invalid_badge', 'no_pin', 'locked')),
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS kiosk_auth_events_restaurant_created_idx
+  ON kiosk_auth_events (restaurant_id, created_at DESC);
+
+ALTER TABLE employee_kiosk_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kiosk_auth_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant admins and managers can view kiosk auth events" ON kiosk_auth_events;
+
+CREATE POLICY "Restaurant admins and managers can view kiosk auth events"
+  ON kiosk_auth_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM restaurant_access
+      WHERE user_id = auth.uid()
+      AND restaurant_id = kiosk_auth_events.restaurant_id
+      AND role IN ('admin', 'manager')
+    )
+  );
+
+-- Access helpers (same rules as the policies)
+CREATE OR REPLACE FUNCTION can_manage_restaurant_employees(p_restaurant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  )
+  OR EXISTS (
+    SELECT 1 FROM restaurant_access
+    WHERE user_id = auth.uid()
+    AND restaurant_id = p_restaurant_id
+    AND role IN ('admin', 'manager')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION has_restaurant_access(p_restaurant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  )
+  OR EXISTS (
+    SELECT 1 FROM restaurant_access
+    WHERE user_id = auth.uid()
+    AND restaurant_id = p_restaurant_id
+  );
+$$;
+
+-- Sets (or clears with NULL) an employee's PIN; resets failures and lockout
+CREATE OR REPLACE FUNCTION set_employee_kiosk_pin(p_employee_id uuid, p_pin text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id FROM employees WHERE id = p_employee_id;
+
+  IF v_restaurant_id IS NULL OR NOT can_manage_restaurant_employees(v_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this employee' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_pin IS NOT NULL AND p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO employee_kiosk_credentials (employee_id, restaurant_id, pin_hash)
+  VALUES (
+    p_employee_id,
+    v_restaurant_id,
+    CASE WHEN p_pin IS NULL THEN NULL ELSE crypt(p_pin, gen_salt('bf')) END
+  )
+  ON CONFLICT (employee_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash,
+        restaurant_id = EXCLUDED.restaurant_id,
+        failed_attempts = 0,
+        locked_until = NULL,
+        updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unlock_employee_kiosk(p_employee_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_restaurant_id uuid;
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id FROM employees WHERE id = p_employee_id;
+
+  IF v_restaurant_id IS NULL OR NOT can_manage_restaurant_employees(v_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this employee' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE employee_kiosk_credentials
+  SET failed_attempts = 0, locked_until = NULL, updated_at = now()
+  WHERE employee_id = p_employee_id;
+END;
+$$;
+
+-- Issues a new badge token; previously printed badges stop working
+CREATE OR REPLACE FUNCTION regenerate_employee_badge(p_employee_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_restaurant_id uuid;
+  v_token text := encode(gen_random_bytes(18), 'hex');
+BEGIN
+  SELECT restaurant_id INTO v_restaurant_id FROM employees WHERE id = p_employee_id;
+
+  IF v_restaurant_id IS NULL OR NOT can_manage_restaurant_employees(v_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this employee' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO employee_kiosk_credentials (employee_id, restaurant_id, badge_token)
+  VALUES (p_employee_id, v_restaurant_id, v_token)
+  ON CONFLICT (employee_id) DO UPDATE
+    SET badge_token = EXCLUDED.badge_token,
+        updated_at = now();
+
+  RETURN v_token;
+END;
+$$;
+
+-- Badge tokens of a restaurant's employees, issuing the missing ones (used to print badges)
+CREATE OR REPLACE FUNCTION get_employee_badge_tokens(p_restaurant_id uuid)
+RETURNS TABLE (employee_id uuid, badge_token text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT can_manage_restaurant_employees(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this restaurant' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO employee_kiosk_credentials (employee_id, restaurant_id, badge_token)
+  SELECT e.id, e.restaurant_id, encode(gen_random_bytes(18), 'hex')
+  FROM employees e
+  WHERE e.restaurant_id = p_restaurant_id
+  ON CONFLICT (employee_id) DO UPDATE
+    SET badge_token = COALESCE(employee_kiosk_credentials.badge_token, EXCLUDED.badge_token);
+
+  RETURN QUERY
+  SELECT c.employee_id, c.badge_token
+  FROM employee_kiosk_credentials c
+  JOIN employees e ON e.id = c.employee_id
+  WHERE e.restaurant_id = p_restaurant_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_kiosk_credential_status(p_restaurant_id uuid)
+RETURNS TABLE (employee_id uuid, has_pin boolean, failed_attempts integer, locked_until timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT can_manage_restaurant_employees(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage this restaurant' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.employee_id, c.pin_hash IS NOT NULL, c.failed_attempts, c.locked_until
+  FROM employee_kiosk_credentials c
+  JOIN employees e ON e.id = c.employee_id
+  WHERE e.restaurant_id = p_restaurant_id;
+END;
+$$;
+
+-- Clock-out of the employee's open punch, else a clock-in (the matched shift is kept only if it is theirs)
+CREATE OR REPLACE FUNCTION record_kiosk_punch(p_restaurant_id uuid, p_employee_id uuid, p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_punch time_clock%ROWTYPE;
+BEGIN
+  SELECT * INTO v_punch
+  FROM time_clock
+  WHERE employee_id = p_employee_id
+  AND status = 'active'
+  FOR UPDATE;
+
+  IF FOUND THEN
+    UPDATE time_clock
+    SET clock_out_time = now(),
+        total_hours = round((extract(epoch FROM now() - clock_in_time) / 3600)::numeric, 2),
+        status = 'completed',
+        updated_at = now()
+    WHERE id = v_punch.id
+    RETURNING * INTO v_punch;
+  ELSE
+    INSERT INTO time_clock (employee_id, restaurant_id, clock_in_time, status, shift_id)
+    VALUES (
+      p_employee_id,
+      p_restaurant_id,
+      now(),
+      'active',
+      (SELECT id FROM shifts WHERE id = p_shift_id AND employee_id = p_employee_id AND restaurant_id = p_restaurant_id)
+    )
+    RETURNING * INTO v_punch;
+  END IF;
+
+  RETURN to_jsonb(v_punch);
+END;
+$$;
+
+-- CRITICAL: Kiosk sign-in with a PIN (employee picked from the list) or a badge token.
+-- Every attempt is written to kiosk_auth_events, whatever the outcome; a success records the punch.
+CREATE OR REPLACE FUNCTION authenticate_kiosk(
+  p_restaurant_id uuid,
+  p_method text,
+  p_employee_id uuid,
+  p_secret text,
+  p_shift_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_max_attempts CONSTANT integer := 5;
+  v_lockout CONSTANT interval := interval '15 minutes';
+  v_credential employee_kiosk_credentials%ROWTYPE;
+  v_employee_id uuid := p_employee_id;
+  v_outcome text;
+  v_remaining integer;
+  v_punch jsonb;
+BEGIN
+  IF NOT has_restaurant_access(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to use this kiosk' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_method = 'badge' THEN
+    SELECT c.* INTO v_credential
+    FROM employee_kiosk_credentials c
+    JOIN employees e ON e.id = c.employee_id
+    WHERE c.badge_token = p_secret
+    AND e.restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      v_outcome := 'invalid_badge';
+      v_employee_id := NULL;
+    ELSE
+      v_employee_id := v_credential.employee_id;
+      v_outcome := CASE WHEN v_credential.locked_until > now() THEN 'locked' ELSE 'success' END;
+    END IF;
+  ELSE
+    SELECT c.* INTO v_credential
+    FROM employee_kiosk_credentials c
+    JOIN employees e ON e.id = c.employee_id
+    WHERE c.employee_id = p_employee_id
+    AND e.restaurant_id = p_restaurant_id
+    FOR UPDATE OF c;
+
+    IF NOT FOUND OR v_credential.pin_hash IS NULL THEN
+      v_outcome := 'no_pin';
+      IF NOT EXISTS (SELECT 1 FROM employees WHERE id = p_employee_id AND restaurant_id = p_restaurant_id) THEN
+        v_employee_id := NULL;
+      END IF;
+    ELSIF v_credential.locked_until > now() THEN
+      v_outcome := 'locked';
+    ELSIF v_credential.pin_hash = crypt(COALESCE(p_secret, ''), v_credential.pin_hash) THEN
+      v_outcome := 'success';
+      UPDATE employee_kiosk_credentials
+      SET failed_attempts = 0, locked_until = NULL, updated_at = now()
+      WHERE employee_id = p_employee_id;
+    ELSE
+      v_credential.failed_attempts := v_credential.failed_attempts + 1;
+
+      IF v_credential.failed_attempts >= v_max_attempts THEN
+        v_outcome := 'locked';
+        v_credential.failed_attempts := 0;
+        v_credential.locked_until := now() + v_lockout;
+      ELSE
+        v_outcome := 'invalid_pin';
+        v_remaining := v_max_attempts - v_credential.failed_attempts;
+      END IF;
+
+      UPDATE employee_kiosk_credentials
+      SET failed_attempts = v_credential.failed_attempts,
+          locked_until = v_credential.locked_until,
+          updated_at = now()
+      WHERE employee_id = p_employee_id;
+    END IF;
+  END IF;
+
+  INSERT INTO kiosk_auth_events (restaurant_id, employee_id, method, outcome)
+  VALUES (p_restaurant_id, v_employee_id, p_method, v_outcome);
+
+  IF v_outcome = 'success' THEN
+    v_punch := record_kiosk_punch(p_restaurant_id, v_employee_id, p_shift_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'outcome', v_outcome,
+    'employee_id', v_employee_id,
+    'locked_until', CASE WHEN v_outcome = 'locked' THEN v_credential.locked_until END,
+    'remaining_attempts', v_remaining,
+    'punch', v_punch
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_employee_kiosk_pin(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION unlock_employee_kiosk(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION regenerate_employee_badge(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_employee_badge_tokens(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_kiosk_credential_status(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_kiosk_punch(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION authenticate_kiosk(uuid, text, uuid, text, uuid) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION set_employee_kiosk_pin(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_employee_kiosk(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION regenerate_employee_badge(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_employee_badge_tokens(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_kiosk_credential_status(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION authenticate_kiosk(uuid, text, uuid, text, uuid) TO authenticated;
+
+COMMENT ON TABLE employee_kiosk_credentials IS 'Kiosk PIN hashes (bcrypt) and QR badge tokens; only reachable through SECURITY DEFINER functions';
+COMMENT ON TABLE kiosk_auth_events IS 'Audit trail of every kiosk authentication attempt';
@@ -0,0 +1,109 @@
+/*
+  # Offline kiosk tablets
+
+  1. Changes
+    - `time_clock.device_id`: kiosk tablet the punch was recorded on
+    - `time_clock.synced_at`: when a kiosk punch reached the server; later than the punch
+      itself when it was recorded offline (clock-in/out times come from the tablet clock)
+
+  2. New Tables
+    - `kiosk_devices`: tablets locked to a restaurant in kiosk mode
+      - `id` (uuid, generated on the tablet)
+      - `restaurant_id`, `name`
+      - `last_seen_at`, `last_sync_at`
+      - `pending_punches` (jsonb): punches still waiting on the tablet at its last contact,
+        so managers can see them from the back office
+
+  3. New Functions
+    - `record_kiosk_auth_events(p_restaurant_id, p_events)`: uploads identification attempts
+      checked offline on a tablet into `kiosk_auth_events`; re-sending an event is a no-op
+
+  4. Security
+    - Any role with access to the restaurant can see its tablets; only restaurant admins/managers
+      and global admins can register, update or remove one, and upload its identification
+      attempts (a kiosk runs under the manager session that locked it, which also writes its
+      punches to `time_clock`)
+*/
+
+ALTER TABLE time_clock ADD COLUMN IF NOT EXISTS device_id uuid;
+ALTER TABLE time_clock ADD COLUMN IF NOT EXISTS synced_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+  id uuid PRIMARY KEY,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_sync_at timestamptz,
+  pending_punches jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS kiosk_devices_restaurant_idx ON kiosk_devices (restaurant_id);
+
+ALTER TABLE kiosk_devices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view kiosk devices" ON kiosk_devices;
+DROP POLICY IF EXISTS "Restaurant staff can register kiosk devices" ON kiosk_devices;
+DROP POLICY IF EXISTS "Restaurant staff can update kiosk devices" ON kiosk_devices;
+DROP POLICY IF EXISTS "Restaurant admins and managers can register kiosk devices" ON kiosk_devices;
+DROP POLICY IF EXISTS "Restaurant admins and managers can update kiosk devices" ON kiosk_devices;
+DROP POLICY IF EXISTS "Restaurant admins and managers can remove kiosk devices" ON kiosk_devices;
+
+CREATE POLICY "Restaurant staff can view kiosk devices"
+  ON kiosk_devices
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Restaurant admins and managers can register kiosk devices"
+  ON kiosk_devices
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id));
+
+CREATE POLICY "Restaurant admins and managers can update kiosk devices"
+  ON kiosk_devices
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_restaurant_employees(restaurant_id))
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id));
+
+CREATE POLICY "Restaurant admins and managers can remove kiosk devices"
+  ON kiosk_devices
+  FOR DELETE
+  TO authenticated
+  USING (can_manage_restaurant_employees(restaurant_id));
+
+CREATE OR REPLACE FUNCTION record_kiosk_auth_events(p_restaurant_id uuid, p_events jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_restaurant_employees(p_restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to record kiosk events for this restaurant';
+  END IF;
+
+  INSERT INTO kiosk_auth_events (id, restaurant_id, employee_id, method, outcome, created_at)
+  SELECT
+    (event->>'id')::uuid,
+    p_restaurant_id,
+    -- Only employees of this restaurant can be referenced
+    (SELECT e.id FROM employees e
+      WHERE e.id = NULLIF(event->>'employeeId', '')::uuid
+      AND e.restaurant_id = p_restaurant_id),
+    event->>'method',
+    event->>'outcome',
+    (event->>'createdAt')::timestamptz
+  FROM jsonb_array_elements(p_events) AS event
+  ON CONFLICT (id) DO NOTHING;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_kiosk_auth_events(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_kiosk_auth_events(uuid, jsonb) TO authenticated;
+
+COMMENT ON COLUMN time_clock.device_id IS 'Kiosk tablet the punch was recorded on';
+COMMENT ON COLUMN time_clock.synced_at IS 'When a kiosk punch reached the server (later than the punch if recorded offline)';
+COMMENT ON TABLE kiosk_devices IS 'Tablets locked to a restaurant in kiosk mode, with the punches they still hold';
@@ -0,0 +1,286 @@
+/*
+  # Weekly timesheets between the time clock and payroll
+
+  1. New Tables
+    - `timesheets` - one row per employee and week: status (draft, submitted, approved,
+      locked) and the lines built from the time clock comparison, each line carrying the
+      manager's adjustment (retained hours and reason) if any, and the reason given with
+      the last rejection or reopening
+    - `timesheet_audit_log` - append-only history of adjustments and status changes,
+      written by a trigger on `timesheets`
+
+  2. Security
+    - Any role with access to a restaurant can read its timesheets
+    - Restaurant admins/managers and global admins can prepare any timesheet of the
+      restaurant; other roles only their own (employee matched on the account email)
+    - Statuses follow draft -> submitted -> approved -> locked, with submitted -> draft
+      (rejection) and approved -> draft (reopening) (trigger)
+    - Only restaurant admins/managers and global admins can adjust lines, or make any
+      transition other than submitting (trigger)
+    - Who submitted, approved and locked a timesheet, and when, is set by the trigger
+    - The lines of approved and locked timesheets can no longer change, and locked
+      timesheets can no longer change at all (trigger)
+    - Audit entries can be read, never added, changed or deleted by clients
+*/
+
+CREATE TABLE IF NOT EXISTS timesheets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  week_start_date date NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'locked')),
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status_reason text,
+  submitted_at timestamptz,
+  submitted_by uuid,
+  approved_at timestamptz,
+  approved_by uuid,
+  locked_at timestamptz,
+  locked_by uuid,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, employee_id, week_start_date)
+);
+
+CREATE TABLE IF NOT EXISTS timesheet_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  timesheet_id uuid NOT NULL REFERENCES timesheets(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('created', 'adjusted', 'submitted', 'approved', 'rejected', 'reopened', 'locked')),
+  line_id text,
+  previous_hours numeric,
+  new_hours numeric,
+  reason text,
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS timesheets_restaurant_week_idx
+  ON timesheets (restaurant_id, week_start_date);
+
+CREATE INDEX IF NOT EXISTS timesheet_audit_log_timesheet_idx
+  ON timesheet_audit_log (timesheet_id, created_at);
+
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timesheet_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view timesheets" ON timesheets;
+DROP POLICY IF EXISTS "Restaurant staff can create timesheets" ON timesheets;
+DROP POLICY IF EXISTS "Restaurant staff can update timesheets" ON timesheets;
+DROP POLICY IF EXISTS "Managers and the employee can create timesheets" ON timesheets;
+DROP POLICY IF EXISTS "Managers and the employee can update timesheets" ON timesheets;
+DROP POLICY IF EXISTS "Restaurant staff can view timesheet audit log" ON timesheet_audit_log;
+DROP POLICY IF EXISTS "Restaurant staff can add timesheet audit entries" ON timesheet_audit_log;
+
+-- Whether the employee record is the signed-in account's own (matched on the account email)
+CREATE OR REPLACE FUNCTION is_current_employee(p_employee_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM employees
+    WHERE id = p_employee_id
+    AND lower(email) = lower(auth.jwt() ->> 'email')
+  );
+$$;
+
+CREATE POLICY "Restaurant staff can view timesheets"
+  ON timesheets
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Managers and the employee can create timesheets"
+  ON timesheets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_restaurant_access(restaurant_id)
+    AND (can_manage_restaurant_employees(restaurant_id) OR is_current_employee(employee_id))
+    AND status = 'draft'
+    -- Adjustments are made on an existing timesheet, where the trigger checks them
+    AND NOT jsonb_path_exists(lines, '$[*].adjustment')
+  );
+
+CREATE POLICY "Managers and the employee can update timesheets"
+  ON timesheets
+  FOR UPDATE
+  TO authenticated
+  USING (
+    has_restaurant_access(restaurant_id)
+    AND (can_manage_restaurant_employees(restaurant_id) OR is_current_employee(employee_id))
+  )
+  WITH CHECK (
+    has_restaurant_access(restaurant_id)
+    AND (can_manage_restaurant_employees(restaurant_id) OR is_current_employee(employee_id))
+  );
+
+CREATE POLICY "Restaurant staff can view timesheet audit log"
+  ON timesheet_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+-- Same transitions as timesheetService: adjustments and decisions are the manager's, approved
+-- hours are frozen, a locked week is final and the actor columns come from the session
+CREATE OR REPLACE FUNCTION check_timesheet_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- An upsert fires this on the proposed row too: the insert policy keeps new timesheets in
+  -- draft, the transition is checked on the update
+  IF TG_OP = 'INSERT' THEN
+    NEW.submitted_by := NULL;
+    NEW.submitted_at := NULL;
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+    NEW.locked_by := NULL;
+    NEW.locked_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'locked' THEN
+    RAISE EXCEPTION 'Timesheet is locked';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND (OLD.status, NEW.status) NOT IN (
+    ('draft', 'submitted'),
+    ('submitted', 'approved'),
+    ('submitted', 'draft'),
+    ('approved', 'draft'),
+    ('approved', 'locked')
+  ) THEN
+    RAISE EXCEPTION 'Timesheet cannot go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status <> 'submitted'
+    AND NOT can_manage_restaurant_employees(NEW.restaurant_id) THEN
+    RAISE EXCEPTION 'Only managers can approve, reject, reopen or lock timesheets';
+  END IF;
+
+  IF NEW.employee_id IS DISTINCT FROM OLD.employee_id
+    OR NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id
+    OR NEW.week_start_date IS DISTINCT FROM OLD.week_start_date THEN
+    RAISE EXCEPTION 'The employee and week of a timesheet cannot be changed';
+  END IF;
+
+  IF NEW.lines IS DISTINCT FROM OLD.lines THEN
+    IF OLD.status = 'approved' THEN
+      RAISE EXCEPTION 'Timesheet is approved, reopen it to change its lines';
+    END IF;
+
+    IF NOT can_manage_restaurant_employees(NEW.restaurant_id) AND EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(NEW.lines) AS new_line
+      FULL JOIN jsonb_array_elements(OLD.lines) AS old_line
+        ON old_line ->> 'id' = new_line ->> 'id'
+      WHERE (new_line -> 'adjustment') IS DISTINCT FROM (old_line -> 'adjustment')
+    ) THEN
+      RAISE EXCEPTION 'Only managers can adjust timesheet lines';
+    END IF;
+  END IF;
+
+  NEW.submitted_by := OLD.submitted_by;
+  NEW.submitted_at := OLD.submitted_at;
+  NEW.approved_by := OLD.approved_by;
+  NEW.approved_at := OLD.approved_at;
+  NEW.locked_by := OLD.locked_by;
+  NEW.locked_at := OLD.locked_at;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    CASE NEW.status
+      WHEN 'submitted' THEN
+        NEW.submitted_by := auth.uid();
+        NEW.submitted_at := now();
+      WHEN 'approved' THEN
+        NEW.approved_by := auth.uid();
+        NEW.approved_at := now();
+      WHEN 'locked' THEN
+        NEW.locked_by := auth.uid();
+        NEW.locked_at := now();
+      ELSE
+        -- Back to draft: the week is submitted and approved again from scratch
+        NEW.submitted_by := NULL;
+        NEW.submitted_at := NULL;
+        NEW.approved_by := NULL;
+        NEW.approved_at := NULL;
+    END CASE;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- CRITICAL: The audit trail is written server-side, a client can neither skip nor forge it
+CREATE OR REPLACE FUNCTION log_timesheet_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO timesheet_audit_log (timesheet_id, restaurant_id, action)
+    VALUES (NEW.id, NEW.restaurant_id, 'created');
+    RETURN NULL;
+  END IF;
+
+  -- Hours retained before and after, for every line whose adjustment changed
+  INSERT INTO timesheet_audit_log (timesheet_id, restaurant_id, action, line_id, previous_hours, new_hours, reason)
+  SELECT
+    NEW.id,
+    NEW.restaurant_id,
+    'adjusted',
+    new_line ->> 'id',
+    COALESCE((old_line -> 'adjustment' ->> 'hours')::numeric, (old_line ->> 'actualHours')::numeric),
+    (new_line -> 'adjustment' ->> 'hours')::numeric,
+    new_line -> 'adjustment' ->> 'reason'
+  FROM jsonb_array_elements(NEW.lines) AS new_line
+  LEFT JOIN jsonb_array_elements(OLD.lines) AS old_line
+    ON old_line ->> 'id' = new_line ->> 'id'
+  WHERE new_line ? 'adjustment'
+  AND (new_line -> 'adjustment') IS DISTINCT FROM (old_line -> 'adjustment');
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO timesheet_audit_log (timesheet_id, restaurant_id, action, reason)
+    VALUES (
+      NEW.id,
+      NEW.restaurant_id,
+      CASE
+        WHEN NEW.status IN ('submitted', 'approved', 'locked') THEN NEW.status
+        WHEN OLD.status = 'approved' THEN 'reopened'
+        ELSE 'rejected'
+      END,
+      CASE WHEN NEW.status = 'draft' THEN NEW.status_reason END
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS timesheets_check_transition ON timesheets;
+DROP TRIGGER IF EXISTS timesheets_log_changes ON timesheets;
+
+CREATE TRIGGER timesheets_check_transition
+  BEFORE INSERT OR UPDATE ON timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION check_timesheet_transition();
+
+CREATE TRIGGER timesheets_log_changes
+  AFTER INSERT OR UPDATE ON timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION log_timesheet_changes();
+
+COMMENT ON TABLE timesheets IS 'Weekly timesheet per employee; payroll only uses approved and locked ones';
+COMMENT ON COLUMN timesheets.lines IS 'Shift, absence and unscheduled punch lines with planned/clocked hours and the manager adjustment';
+COMMENT ON COLUMN timesheets.status_reason IS 'Reason given with the last rejection or reopening, copied to the audit log';
+COMMENT ON TABLE timesheet_audit_log IS 'Append-only history of timesheet adjustments and status changes';
@@ -0,0 +1,20 @@
+/*
+  # Per-restaurant punch rounding, grace windows and auto clock-out
+
+  1. Changes
+    - `restaurants.punch_rules` (jsonb): rounding mode (none, nearest, up, down) and
+      increment in minutes, arrival and departure grace windows in minutes, and the
+      maximum shift length in hours after which an open punch is closed; NULL or
+      missing fields use the application defaults
+    - `time_clock.auto_clocked_out`: the punch was closed by the auto clock-out rather
+      than by the employee
+
+  2. Security
+    - No change: restaurants and time clock policies already cover the new columns
+*/
+
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS punch_rules jsonb;
+ALTER TABLE time_clock ADD COLUMN IF NOT EXISTS auto_clocked_out boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN restaurants.punch_rules IS 'Time clock rules: roundingMode, roundingIncrement, arrivalGraceMinutes, departureGraceMinutes, autoClockOutHours';
+COMMENT ON COLUMN time_clock.auto_clocked_out IS 'Closed automatically after the restaurant maximum shift length';
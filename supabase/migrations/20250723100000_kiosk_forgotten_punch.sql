@@ -0,0 +1,72 @@
+/*
+  # Close forgotten kiosk punches at the maximum shift length
+
+  1. Changes
+    - `record_kiosk_punch` closes a punch left open past the restaurant's maximum shift
+      length (`punch_rules.autoClockOutHours`) at that limit and flags it
+      `auto_clocked_out`, then clocks the employee in, instead of clocking them out
+
+  2. Security
+    - No change: `record_kiosk_punch` stays reachable only through `authenticate_kiosk`
+*/
+
+-- Same as in sealed_turnstile, except that an open punch past the maximum shift length is
+-- closed at that limit and followed by a clock-in
+CREATE OR REPLACE FUNCTION record_kiosk_punch(p_restaurant_id uuid, p_employee_id uuid, p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_punch time_clock%ROWTYPE;
+  v_auto_clock_out_hours numeric;
+BEGIN
+  SELECT * INTO v_punch
+  FROM time_clock
+  WHERE employee_id = p_employee_id
+  AND status = 'active'
+  FOR UPDATE;
+
+  IF FOUND THEN
+    SELECT NULLIF(punch_rules ->> 'autoClockOutHours', '')::numeric INTO v_auto_clock_out_hours
+    FROM restaurants
+    WHERE id = v_punch.restaurant_id;
+
+    -- A forgotten clock-out: close it at the limit and clock in
+    IF v_auto_clock_out_hours > 0 AND now() >= v_punch.clock_in_time + v_auto_clock_out_hours * interval '1 hour' THEN
+      UPDATE time_clock
+      SET clock_out_time = clock_in_time + v_auto_clock_out_hours * interval '1 hour',
+          total_hours = round(v_auto_clock_out_hours, 2),
+          status = 'completed',
+          auto_clocked_out = true,
+          updated_at = now()
+      WHERE id = v_punch.id;
+    ELSE
+      UPDATE time_clock
+      SET clock_out_time = now(),
+          total_hours = round((extract(epoch FROM now() - clock_in_time) / 3600)::numeric, 2),
+          status = 'completed',
+          updated_at = now()
+      WHERE id = v_punch.id
+      RETURNING * INTO v_punch;
+
+      RETURN to_jsonb(v_punch);
+    END IF;
+  END IF;
+
+  INSERT INTO time_clock (employee_id, restaurant_id, clock_in_time, status, shift_id)
+  VALUES (
+    p_employee_id,
+    p_restaurant_id,
+    now(),
+    'active',
+    (SELECT id FROM shifts WHERE id = p_shift_id AND employee_id = p_employee_id AND restaurant_id = p_restaurant_id)
+  )
+  RETURNING * INTO v_punch;
+
+  RETURN to_jsonb(v_punch);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_kiosk_punch(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
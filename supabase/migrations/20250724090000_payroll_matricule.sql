@@ -0,0 +1,15 @@
+/*
+  # Employee matricule for payroll exports
+
+  1. Changes
+    - `employees.payroll_id` (text): the employee's matricule in the payroll software,
+      used as the key of the variable-element import files (Sage, Cegid, PayFit, ADP,
+      Quadratus)
+
+  2. Security
+    - No change: employees policies already cover the new column
+*/
+
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS payroll_id text;
+
+COMMENT ON COLUMN employees.payroll_id IS 'Matricule of the employee in the payroll software, used by the payroll exports';
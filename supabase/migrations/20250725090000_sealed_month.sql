@@ -0,0 +1,179 @@
+/*
+  # Monthly payroll close with period locking
+
+  1. New Tables
+    - `payroll_periods` - one row per restaurant and month (yyyy-MM): status (open, validated,
+      exported, closed) with who moved it forward and when
+    - `payroll_regularizations` - corrections of a closed month (hours to add or take back for
+      an employee's day), paid with the next open month
+
+  2. Security
+    - Any role with access to a restaurant can read its periods and regularizations
+    - Only restaurant admins/managers and global admins can validate, export or close a period,
+      or record a regularization
+    - Periods only move open -> validated -> exported -> closed; a validated period can be
+      reopened and an open one exported directly when the validation step is off (insert
+      policy and trigger)
+    - A closed period is final (trigger)
+    - Shifts dated in a closed period can no longer be created, changed or deleted (trigger)
+*/
+
+CREATE TABLE IF NOT EXISTS payroll_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  month text NOT NULL CHECK (month ~ '^\d{4}-\d{2}$'),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'validated', 'exported', 'closed')),
+  validated_at timestamptz,
+  validated_by uuid,
+  exported_at timestamptz,
+  exported_by uuid,
+  closed_at timestamptz,
+  closed_by uuid,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, month)
+);
+
+CREATE TABLE IF NOT EXISTS payroll_regularizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  month text NOT NULL CHECK (month ~ '^\d{4}-\d{2}$'),
+  date date NOT NULL,
+  hours numeric NOT NULL CHECK (hours <> 0 AND hours BETWEEN -24 AND 24),
+  reason text NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payroll_regularizations_restaurant_month_idx
+  ON payroll_regularizations (restaurant_id, month);
+
+ALTER TABLE payroll_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_regularizations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view payroll periods" ON payroll_periods;
+DROP POLICY IF EXISTS "Managers can create payroll periods" ON payroll_periods;
+DROP POLICY IF EXISTS "Managers can update payroll periods" ON payroll_periods;
+DROP POLICY IF EXISTS "Restaurant staff can view payroll regularizations" ON payroll_regularizations;
+DROP POLICY IF EXISTS "Managers can add payroll regularizations" ON payroll_regularizations;
+
+CREATE POLICY "Restaurant staff can view payroll periods"
+  ON payroll_periods
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+-- A month without a row is open: its first row is open or one step from it. This is checked
+-- here rather than in the trigger, which an upsert also fires on the row it ends up updating.
+CREATE POLICY "Managers can create payroll periods"
+  ON payroll_periods
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    can_manage_restaurant_employees(restaurant_id)
+    AND status IN ('open', 'validated', 'exported')
+  );
+
+CREATE POLICY "Managers can update payroll periods"
+  ON payroll_periods
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_restaurant_employees(restaurant_id))
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id));
+
+CREATE POLICY "Restaurant staff can view payroll regularizations"
+  ON payroll_regularizations
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Managers can add payroll regularizations"
+  ON payroll_regularizations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id));
+
+-- CRITICAL: Same status changes as TRANSITIONS in payrollPeriodService; a month without a row is open
+-- and a closed month is final. open -> exported is the export without the validation step, a user
+-- setting the server does not see.
+CREATE OR REPLACE FUNCTION check_payroll_period_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'closed' THEN
+    RAISE EXCEPTION 'Payroll period % is closed', NEW.month;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND (OLD.status, NEW.status) NOT IN (
+    ('open', 'validated'),
+    ('validated', 'open'),
+    ('validated', 'exported'),
+    ('open', 'exported'),
+    ('exported', 'closed')
+  ) THEN
+    RAISE EXCEPTION 'Payroll period % cannot go from % to %', NEW.month, OLD.status, NEW.status;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payroll_periods_check_transition ON payroll_periods;
+
+CREATE TRIGGER payroll_periods_check_transition
+  BEFORE UPDATE ON payroll_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION check_payroll_period_transition();
+
+-- Shifts of a closed month are locked: the correction is a regularization on the next period
+CREATE OR REPLACE FUNCTION check_shift_payroll_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Deleting an employee or a restaurant cascades to its shifts
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+    SELECT 1 FROM payroll_periods
+    WHERE restaurant_id = OLD.restaurant_id
+      AND month = to_char(OLD.week_start_date + OLD.day, 'YYYY-MM')
+      AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Shift is in a closed payroll period';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND EXISTS (
+    SELECT 1 FROM payroll_periods
+    WHERE restaurant_id = NEW.restaurant_id
+      AND month = to_char(NEW.week_start_date + NEW.day, 'YYYY-MM')
+      AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Shift is in a closed payroll period';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shifts_check_payroll_period ON shifts;
+
+CREATE TRIGGER shifts_check_payroll_period
+  BEFORE INSERT OR UPDATE OR DELETE ON shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_shift_payroll_period();
+
+COMMENT ON TABLE payroll_periods IS 'Monthly payroll close per restaurant: open, validated, exported, then closed';
+COMMENT ON TABLE payroll_regularizations IS 'Hours corrections of a closed month, paid with the month in the month column';
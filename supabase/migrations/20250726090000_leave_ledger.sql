@@ -0,0 +1,48 @@
+/*
+  # Paid leave ledger
+
+  1. New Tables
+    - `leave_ledger_entries` - manual movements of an employee's leave counters: CP (opening
+      balance, corrections), RTT and repos compensateur credits and debits. Monthly CP accruals
+      and the CP days taken are derived from the contract dates and the schedule.
+
+  2. Security
+    - Any role with access to a restaurant can read its entries (employees see their balance)
+    - Only restaurant admins/managers and global admins can add entries
+    - Entries are never changed or deleted, a correction is a new entry
+*/
+
+CREATE TABLE IF NOT EXISTS leave_ledger_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  counter text NOT NULL CHECK (counter IN ('CP', 'RTT', 'REPOS_COMPENSATEUR')),
+  date date NOT NULL,
+  amount numeric NOT NULL CHECK (amount <> 0),
+  reason text NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS leave_ledger_entries_employee_idx
+  ON leave_ledger_entries (employee_id, date);
+
+ALTER TABLE leave_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view leave ledger" ON leave_ledger_entries;
+DROP POLICY IF EXISTS "Managers can add leave ledger entries" ON leave_ledger_entries;
+
+CREATE POLICY "Restaurant staff can view leave ledger"
+  ON leave_ledger_entries
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Managers can add leave ledger entries"
+  ON leave_ledger_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id));
+
+COMMENT ON TABLE leave_ledger_entries IS 'Manual leave counter movements; CP accruals and days taken are derived from contract dates and the schedule';
+COMMENT ON COLUMN leave_ledger_entries.amount IS 'Days for CP and RTT, hours for repos compensateur; negative for a debit';
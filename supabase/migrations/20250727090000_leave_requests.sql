@@ -0,0 +1,134 @@
+/*
+  # Leave requests from the employee portal
+
+  1. New Tables
+    - `leave_requests` - time off asked by an employee (CP, unpaid absence or unavailability)
+      over a range of dates, with its review: status (pending, approved, rejected, cancelled),
+      the manager's comment, who reviewed it and when
+
+  2. Security
+    - Any role with access to a restaurant can read its requests
+    - An employee (matched on the account email) can submit a pending request for themselves;
+      restaurant admins/managers and global admins for any employee of the restaurant
+    - Only restaurant admins/managers and global admins can approve or reject a request;
+      the employee who asked can only cancel it (trigger)
+    - The employee, type, dates and reason of a request never change once submitted, and who
+      asked and who reviewed are set by the trigger
+    - A reviewed or cancelled request is final (trigger)
+*/
+
+CREATE TABLE IF NOT EXISTS leave_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('CP', 'ABSENCE', 'UNAVAILABLE')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  manager_comment text,
+  requested_by uuid DEFAULT auth.uid(),
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS leave_requests_restaurant_status_idx
+  ON leave_requests (restaurant_id, status);
+
+ALTER TABLE leave_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view leave requests" ON leave_requests;
+DROP POLICY IF EXISTS "Restaurant staff can submit leave requests" ON leave_requests;
+DROP POLICY IF EXISTS "Restaurant staff can update leave requests" ON leave_requests;
+
+CREATE POLICY "Restaurant staff can view leave requests"
+  ON leave_requests
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Restaurant staff can submit leave requests"
+  ON leave_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_restaurant_access(restaurant_id)
+    AND (can_manage_restaurant_employees(restaurant_id) OR is_current_employee(employee_id))
+    AND status = 'pending'
+    AND manager_comment IS NULL
+  );
+
+CREATE POLICY "Restaurant staff can update leave requests"
+  ON leave_requests
+  FOR UPDATE
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id))
+  WITH CHECK (has_restaurant_access(restaurant_id));
+
+-- Only a pending request moves, managers decide and the requester may only withdraw it
+CREATE OR REPLACE FUNCTION check_leave_request_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Also fired by an upsert on the row it ends up updating (and then seen by the update branch,
+  -- which restores or stamps these columns); the insert policy keeps the comment empty
+  IF TG_OP = 'INSERT' THEN
+    NEW.requested_by := auth.uid();
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Leave request is already %', OLD.status;
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    RAISE EXCEPTION 'Only managers can review leave requests';
+  END IF;
+
+  IF NEW.status IN ('pending', 'cancelled')
+    AND OLD.requested_by IS DISTINCT FROM auth.uid()
+    AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    RAISE EXCEPTION 'Only the requester or a manager can change a pending leave request';
+  END IF;
+
+  IF NEW.employee_id IS DISTINCT FROM OLD.employee_id
+    OR NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.reason IS DISTINCT FROM OLD.reason THEN
+    RAISE EXCEPTION 'A submitted leave request cannot be changed, cancel it and ask again';
+  END IF;
+
+  NEW.requested_by := OLD.requested_by;
+
+  IF NEW.status IN ('approved', 'rejected') THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  ELSE
+    NEW.manager_comment := OLD.manager_comment;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leave_requests_check_transition ON leave_requests;
+
+CREATE TRIGGER leave_requests_check_transition
+  BEFORE INSERT OR UPDATE ON leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION check_leave_request_transition();
+
+COMMENT ON TABLE leave_requests IS 'Time off asked from the employee portal; approved requests are written to the schedule by the app';
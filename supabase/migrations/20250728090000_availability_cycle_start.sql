@@ -0,0 +1,16 @@
+/*
+  # Start date for recurring availabilities
+
+  1. Changes
+    - `employee_availabilities.date` is now also allowed on recurring rules, where it is the day
+      the rule starts: bi-weekly and monthly cycles are counted from its first occurrence
+    - One-time rules still need a date, recurring rules still need a day of the week
+*/
+
+ALTER TABLE employee_availabilities DROP CONSTRAINT IF EXISTS day_or_date_required;
+ALTER TABLE employee_availabilities DROP CONSTRAINT IF EXISTS once_requires_date;
+
+ALTER TABLE employee_availabilities
+  ADD CONSTRAINT once_requires_date CHECK (recurrence <> 'ONCE' OR date IS NOT NULL);
+
+COMMENT ON COLUMN employee_availabilities.date IS 'Date of a one-time rule, or first day of a recurring one';
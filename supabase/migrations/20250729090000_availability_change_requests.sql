@@ -0,0 +1,135 @@
+/*
+  # Employee self-service availability with manager review
+
+  1. New Tables
+    - `availability_change_requests` - availability rules and preferences proposed by an employee
+      from the portal: the full proposed set of rules, the proposed preferences, and the review
+      (status pending, accepted, rejected or cancelled, manager comment, who reviewed it and when)
+
+  2. Security
+    - Any role with access to a restaurant can read its requests
+    - An employee (matched on the account email) can submit a pending request for themselves;
+      restaurant admins/managers and global admins for any employee of the restaurant
+    - Only restaurant admins/managers and global admins can accept or reject a request;
+      the employee who asked can only cancel it (trigger)
+    - The employee and the proposed rules and preferences never change once submitted, and
+      who asked and who reviewed are set by the trigger
+    - A reviewed or cancelled request is final (trigger)
+*/
+
+CREATE TABLE IF NOT EXISTS availability_change_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  availabilities jsonb NOT NULL DEFAULT '[]'::jsonb,
+  preference jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled')),
+  manager_comment text,
+  requested_by uuid DEFAULT auth.uid(),
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS availability_change_requests_restaurant_status_idx
+  ON availability_change_requests (restaurant_id, status);
+
+-- One open request per employee, a new proposal replaces the withdrawn one
+CREATE UNIQUE INDEX IF NOT EXISTS availability_change_requests_one_pending_idx
+  ON availability_change_requests (employee_id)
+  WHERE status = 'pending';
+
+ALTER TABLE availability_change_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view availability change requests" ON availability_change_requests;
+DROP POLICY IF EXISTS "Restaurant staff can submit availability change requests" ON availability_change_requests;
+DROP POLICY IF EXISTS "Restaurant staff can update availability change requests" ON availability_change_requests;
+
+CREATE POLICY "Restaurant staff can view availability change requests"
+  ON availability_change_requests
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Restaurant staff can submit availability change requests"
+  ON availability_change_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_restaurant_access(restaurant_id)
+    AND (can_manage_restaurant_employees(restaurant_id) OR is_current_employee(employee_id))
+    AND status = 'pending'
+    AND manager_comment IS NULL
+  );
+
+CREATE POLICY "Restaurant staff can update availability change requests"
+  ON availability_change_requests
+  FOR UPDATE
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id))
+  WITH CHECK (has_restaurant_access(restaurant_id));
+
+-- Only a pending request moves, managers decide and the requester may only withdraw it
+CREATE OR REPLACE FUNCTION check_availability_change_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Also fired by an upsert on the row it ends up updating (and then seen by the update branch,
+  -- which restores or stamps these columns); the insert policy keeps the comment empty
+  IF TG_OP = 'INSERT' THEN
+    NEW.requested_by := auth.uid();
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Availability change request is already %', OLD.status;
+  END IF;
+
+  IF NEW.status IN ('accepted', 'rejected') AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    RAISE EXCEPTION 'Only managers can review availability changes';
+  END IF;
+
+  IF NEW.status IN ('pending', 'cancelled')
+    AND OLD.requested_by IS DISTINCT FROM auth.uid()
+    AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    RAISE EXCEPTION 'Only the requester or a manager can change a pending availability request';
+  END IF;
+
+  -- What the manager reviews is what gets applied
+  IF NEW.employee_id IS DISTINCT FROM OLD.employee_id
+    OR NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id
+    OR NEW.availabilities IS DISTINCT FROM OLD.availabilities
+    OR NEW.preference IS DISTINCT FROM OLD.preference THEN
+    RAISE EXCEPTION 'A submitted availability change cannot be changed, cancel it and submit a new one';
+  END IF;
+
+  NEW.requested_by := OLD.requested_by;
+
+  IF NEW.status IN ('accepted', 'rejected') THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  ELSE
+    NEW.manager_comment := OLD.manager_comment;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS availability_change_requests_check_transition ON availability_change_requests;
+
+CREATE TRIGGER availability_change_requests_check_transition
+  BEFORE INSERT OR UPDATE ON availability_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION check_availability_change_transition();
+
+COMMENT ON TABLE availability_change_requests IS 'Availability and preferences proposed from the employee portal; accepted requests are applied by the app';
@@ -0,0 +1,163 @@
+/*
+  # Schedule publication, versions and employee notifications
+
+  1. New Tables
+    - `schedule_publications` - each published version of a restaurant's week: version number,
+      snapshot of the week's shifts, who published it and when, and when it was withdrawn
+    - `schedule_notifications` - what each employee is told about a publication: the days of the
+      week that changed for them, and when they read it
+
+  2. Security
+    - Any role with access to a restaurant can read its publications
+    - A notification can only be read and marked as read by the employee it is addressed to
+      (matched on the account email), restaurant admins/managers and global admins
+    - Only restaurant admins/managers and global admins can publish, withdraw a week or notify
+    - A published snapshot is immutable: a version can only be withdrawn, once (trigger)
+    - A notification can only be marked as read (trigger)
+*/
+
+CREATE TABLE IF NOT EXISTS schedule_publications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  week_start_date date NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  shifts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  published_by uuid DEFAULT auth.uid(),
+  published_at timestamptz NOT NULL DEFAULT now(),
+  unpublished_by uuid,
+  unpublished_at timestamptz,
+  UNIQUE (restaurant_id, week_start_date, version)
+);
+
+CREATE TABLE IF NOT EXISTS schedule_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  publication_id uuid NOT NULL REFERENCES schedule_publications(id) ON DELETE CASCADE,
+  week_start_date date NOT NULL,
+  version integer NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('published', 'updated', 'withdrawn')),
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS schedule_notifications_employee_idx
+  ON schedule_notifications (employee_id, created_at);
+
+ALTER TABLE schedule_publications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view schedule publications" ON schedule_publications;
+DROP POLICY IF EXISTS "Managers can publish schedules" ON schedule_publications;
+DROP POLICY IF EXISTS "Managers can withdraw schedules" ON schedule_publications;
+DROP POLICY IF EXISTS "Restaurant staff can view schedule notifications" ON schedule_notifications;
+DROP POLICY IF EXISTS "Managers can send schedule notifications" ON schedule_notifications;
+DROP POLICY IF EXISTS "Restaurant staff can read schedule notifications" ON schedule_notifications;
+DROP POLICY IF EXISTS "Employees and managers can view schedule notifications" ON schedule_notifications;
+DROP POLICY IF EXISTS "Employees and managers can read schedule notifications" ON schedule_notifications;
+
+CREATE POLICY "Restaurant staff can view schedule publications"
+  ON schedule_publications
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Managers can publish schedules"
+  ON schedule_publications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id) AND unpublished_at IS NULL);
+
+CREATE POLICY "Managers can withdraw schedules"
+  ON schedule_publications
+  FOR UPDATE
+  TO authenticated
+  USING (can_manage_restaurant_employees(restaurant_id))
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id));
+
+CREATE POLICY "Employees and managers can view schedule notifications"
+  ON schedule_notifications
+  FOR SELECT
+  TO authenticated
+  USING (is_current_employee(employee_id) OR can_manage_restaurant_employees(restaurant_id));
+
+CREATE POLICY "Managers can send schedule notifications"
+  ON schedule_notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (can_manage_restaurant_employees(restaurant_id));
+
+CREATE POLICY "Employees and managers can read schedule notifications"
+  ON schedule_notifications
+  FOR UPDATE
+  TO authenticated
+  USING (is_current_employee(employee_id) OR can_manage_restaurant_employees(restaurant_id))
+  WITH CHECK (is_current_employee(employee_id) OR can_manage_restaurant_employees(restaurant_id));
+
+-- What was published stays as it was sent: a version can only be withdrawn, and only once
+CREATE OR REPLACE FUNCTION check_schedule_publication_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.unpublished_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Schedule version % is already withdrawn', OLD.version;
+  END IF;
+
+  IF NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id
+    OR NEW.week_start_date IS DISTINCT FROM OLD.week_start_date
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.shifts IS DISTINCT FROM OLD.shifts
+    OR NEW.published_by IS DISTINCT FROM OLD.published_by
+    OR NEW.published_at IS DISTINCT FROM OLD.published_at THEN
+    RAISE EXCEPTION 'A published schedule version cannot be changed';
+  END IF;
+
+  NEW.unpublished_at := COALESCE(NEW.unpublished_at, now());
+  NEW.unpublished_by := COALESCE(NEW.unpublished_by, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS schedule_publications_check_update ON schedule_publications;
+
+CREATE TRIGGER schedule_publications_check_update
+  BEFORE UPDATE ON schedule_publications
+  FOR EACH ROW
+  EXECUTE FUNCTION check_schedule_publication_update();
+
+-- Employees only mark their notifications as read, the content is what was sent
+CREATE OR REPLACE FUNCTION check_schedule_notification_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id
+    OR NEW.employee_id IS DISTINCT FROM OLD.employee_id
+    OR NEW.publication_id IS DISTINCT FROM OLD.publication_id
+    OR NEW.week_start_date IS DISTINCT FROM OLD.week_start_date
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.kind IS DISTINCT FROM OLD.kind
+    OR NEW.changes IS DISTINCT FROM OLD.changes
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'A schedule notification can only be marked as read';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS schedule_notifications_check_update ON schedule_notifications;
+
+CREATE TRIGGER schedule_notifications_check_update
+  BEFORE UPDATE ON schedule_notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION check_schedule_notification_update();
+
+COMMENT ON TABLE schedule_publications IS 'Immutable snapshots of each published version of a week, the proof of when the planning was communicated';
+COMMENT ON TABLE schedule_notifications IS 'Per-employee notice of a publication, listing only the days that changed for the employee';
@@ -0,0 +1,237 @@
+/*
+  # Shift swap and open-shift marketplace
+
+  1. New Tables
+    - `shift_offers` - a shift given away by an employee, or an open shift posted by a manager,
+      with the colleague who claims it and the manager's decision: status (open, claimed,
+      approved, rejected, cancelled)
+
+  2. Security
+    - Any role with access to a restaurant can read its offers
+    - An employee (matched on the account email) can only offer their own scheduled shifts;
+      only restaurant admins/managers and global admins can post an open shift (no offering
+      employee) or offer a shift for someone else
+    - An employee can only claim an open offer for themselves and withdraw their own claim (trigger)
+    - Only restaurant admins/managers and global admins can approve or reject (trigger); an
+      approval goes through `approve_shift_offer`, which hands the shift over to the claimant
+      in the same transaction
+    - An approved, rejected or cancelled offer is final (trigger)
+*/
+
+CREATE TABLE IF NOT EXISTS shift_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  week_start_date date NOT NULL,
+  shift jsonb NOT NULL,
+  category text NOT NULL CHECK (category IN ('Cuisine', 'Salle')),
+  offered_by uuid REFERENCES employees(id) ON DELETE CASCADE,
+  note text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'claimed', 'approved', 'rejected', 'cancelled')),
+  claimed_by uuid REFERENCES employees(id) ON DELETE SET NULL,
+  claimed_at timestamptz,
+  manager_comment text,
+  created_by uuid DEFAULT auth.uid(),
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status <> 'claimed' OR claimed_by IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS shift_offers_restaurant_status_idx
+  ON shift_offers (restaurant_id, status);
+
+-- A shift is offered once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS shift_offers_one_active_per_shift_idx
+  ON shift_offers ((shift->>'id'))
+  WHERE status IN ('open', 'claimed');
+
+ALTER TABLE shift_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view shift offers" ON shift_offers;
+DROP POLICY IF EXISTS "Restaurant staff can offer shifts" ON shift_offers;
+DROP POLICY IF EXISTS "Restaurant staff can update shift offers" ON shift_offers;
+
+CREATE POLICY "Restaurant staff can view shift offers"
+  ON shift_offers
+  FOR SELECT
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id));
+
+CREATE POLICY "Restaurant staff can offer shifts"
+  ON shift_offers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_restaurant_access(restaurant_id)
+    AND status = 'open'
+    AND claimed_by IS NULL
+    AND (
+      can_manage_restaurant_employees(restaurant_id)
+      OR (offered_by IS NOT NULL AND is_current_employee(offered_by))
+    )
+    AND (
+      offered_by IS NULL
+      OR EXISTS (
+        SELECT 1 FROM shifts
+        WHERE shifts.id = (shift_offers.shift ->> 'id')::uuid
+        AND shifts.employee_id = shift_offers.offered_by
+      )
+    )
+  );
+
+CREATE POLICY "Restaurant staff can update shift offers"
+  ON shift_offers
+  FOR UPDATE
+  TO authenticated
+  USING (has_restaurant_access(restaurant_id))
+  WITH CHECK (has_restaurant_access(restaurant_id));
+
+-- Colleagues claim and withdraw, managers decide, the offered shift itself never changes
+CREATE OR REPLACE FUNCTION check_shift_offer_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status NOT IN ('open', 'claimed') THEN
+    RAISE EXCEPTION 'Shift offer is already %', OLD.status;
+  END IF;
+
+  IF NEW.shift IS DISTINCT FROM OLD.shift
+    OR NEW.offered_by IS DISTINCT FROM OLD.offered_by
+    OR NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id
+    OR NEW.week_start_date IS DISTINCT FROM OLD.week_start_date THEN
+    RAISE EXCEPTION 'The offered shift cannot be changed';
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    RAISE EXCEPTION 'Only managers can review shift offers';
+  END IF;
+
+  IF NEW.status = 'approved' AND OLD.status <> 'claimed' THEN
+    RAISE EXCEPTION 'Only a claimed shift offer can be approved';
+  END IF;
+
+  -- Employees claim for themselves and withdraw only their own claim
+  IF NEW.claimed_by IS DISTINCT FROM OLD.claimed_by AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    IF NEW.claimed_by IS NOT NULL AND NOT is_current_employee(NEW.claimed_by) THEN
+      RAISE EXCEPTION 'Employees can only claim a shift for themselves';
+    END IF;
+    IF OLD.claimed_by IS NOT NULL AND NOT is_current_employee(OLD.claimed_by) THEN
+      RAISE EXCEPTION 'Only the employee who claimed the shift can withdraw the claim';
+    END IF;
+  END IF;
+
+  IF NEW.claimed_by IS NOT NULL AND NEW.claimed_by = OLD.offered_by THEN
+    RAISE EXCEPTION 'Employees cannot claim their own shift';
+  END IF;
+
+  IF NEW.status = 'cancelled'
+    AND NOT is_current_employee(OLD.offered_by)
+    AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    RAISE EXCEPTION 'Only the offering employee or a manager can cancel a shift offer';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shift_offers_check_transition ON shift_offers;
+
+CREATE TRIGGER shift_offers_check_transition
+  BEFORE UPDATE ON shift_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION check_shift_offer_transition();
+
+-- Approves a claimed offer and hands the shift over in one transaction: the offered shift goes
+-- to the claimant, an open shift is added to the claimant's schedule
+CREATE OR REPLACE FUNCTION approve_shift_offer(p_offer_id uuid, p_comment text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer shift_offers;
+  v_shift shifts;
+  v_schedule_id uuid;
+BEGIN
+  SELECT * INTO v_offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT can_manage_restaurant_employees(v_offer.restaurant_id) THEN
+    RAISE EXCEPTION 'Not allowed to review this shift offer' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_offer.status <> 'claimed' THEN
+    RAISE EXCEPTION 'Only a claimed shift offer can be approved';
+  END IF;
+
+  IF v_offer.offered_by IS NOT NULL THEN
+    -- The schedule may have moved since the claim
+    UPDATE shifts
+    SET employee_id = v_offer.claimed_by,
+        version = version + 1,
+        updated_at = now()
+    WHERE id = (v_offer.shift ->> 'id')::uuid
+      AND employee_id = v_offer.offered_by
+    RETURNING * INTO v_shift;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The offered shift has changed since it was offered';
+    END IF;
+  ELSE
+    INSERT INTO schedules (restaurant_id, week_start_date)
+    VALUES (v_offer.restaurant_id, v_offer.week_start_date)
+    ON CONFLICT (restaurant_id, week_start_date) DO NOTHING;
+
+    SELECT id INTO v_schedule_id
+    FROM schedules
+    WHERE restaurant_id = v_offer.restaurant_id
+      AND week_start_date = v_offer.week_start_date;
+
+    INSERT INTO shifts (
+      schedule_id, restaurant_id, employee_id, week_start_date, day, start_time, end_time,
+      position, color, type, is_holiday_worked, shift_group, shift_order,
+      has_coupure, coupure_start, coupure_end, coupure_duration
+    )
+    VALUES (
+      v_schedule_id,
+      v_offer.restaurant_id,
+      v_offer.claimed_by,
+      v_offer.week_start_date,
+      (v_offer.shift ->> 'day')::integer,
+      NULLIF(v_offer.shift ->> 'start', ''),
+      NULLIF(v_offer.shift ->> 'end', ''),
+      v_offer.shift ->> 'position',
+      v_offer.shift ->> 'color',
+      v_offer.shift ->> 'type',
+      COALESCE((v_offer.shift ->> 'isHolidayWorked')::boolean, false),
+      v_offer.shift ->> 'shiftGroup',
+      (v_offer.shift ->> 'shiftOrder')::integer,
+      COALESCE((v_offer.shift ->> 'hasCoupure')::boolean, false),
+      v_offer.shift ->> 'coupureStart',
+      v_offer.shift ->> 'coupureEnd',
+      (v_offer.shift ->> 'coupureDuration')::integer
+    )
+    RETURNING * INTO v_shift;
+  END IF;
+
+  UPDATE shift_offers
+  SET status = 'approved',
+      manager_comment = NULLIF(trim(p_comment), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_offer_id
+  RETURNING * INTO v_offer;
+
+  RETURN jsonb_build_object('offer', to_jsonb(v_offer), 'shift', to_jsonb(v_shift));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION approve_shift_offer(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION approve_shift_offer(uuid, text) TO authenticated;
+
+COMMENT ON TABLE shift_offers IS 'Shift swaps and open shifts; approve_shift_offer writes approved offers to the schedule';
@@ -0,0 +1,177 @@
+/*
+  # Electronic signature of HR documents
+
+  1. New Tables
+    - `document_signature_requests` - a contract or amendment sent to an employee for signature:
+      the full text and its SHA-256 hash when requested, status (pending, signed, rejected,
+      cancelled), the signature evidence (method, name, image, time, device), the seal hash
+      over the document and the evidence, and the signer's IP address
+
+  2. Security
+    - Only the employee concerned (matched on the account email), restaurant admins/managers
+      and global admins can read or update a signature request
+    - Only restaurant admins/managers and global admins can request or cancel a signature
+    - Only the employee concerned can sign or reject (trigger)
+    - The document text and hash never change once requested, and a signed, rejected or
+      cancelled request is final (trigger)
+    - A new request carries no evidence (insert policy); the signature and seal hash are then
+      only written by the employee's own signature, and who closed the request and when are
+      set by the trigger (trigger)
+    - The first opening is recorded once, for the employee concerned, at server time (trigger)
+    - The signer's IP address is taken from the last proxy hop of the request headers, never
+      from the client (trigger)
+*/
+
+CREATE TABLE IF NOT EXISTS document_signature_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  employee_id uuid NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('contract', 'amendment')),
+  title text NOT NULL,
+  content text NOT NULL,
+  content_hash text NOT NULL,
+  message text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'signed', 'rejected', 'cancelled')),
+  provider text NOT NULL DEFAULT 'local',
+  provider_reference text,
+  signature jsonb,
+  seal_hash text,
+  signer_ip text,
+  rejection_reason text,
+  requested_by uuid DEFAULT auth.uid(),
+  requested_at timestamptz DEFAULT now(),
+  viewed_at timestamptz,
+  closed_by uuid,
+  closed_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status <> 'signed' OR (signature IS NOT NULL AND seal_hash IS NOT NULL)),
+  CHECK (status <> 'rejected' OR rejection_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS document_signature_requests_employee_idx
+  ON document_signature_requests (employee_id, status);
+
+ALTER TABLE document_signature_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Restaurant staff can view signature requests" ON document_signature_requests;
+DROP POLICY IF EXISTS "Restaurant managers can request signatures" ON document_signature_requests;
+DROP POLICY IF EXISTS "Restaurant staff can update signature requests" ON document_signature_requests;
+DROP POLICY IF EXISTS "Employees and managers can view signature requests" ON document_signature_requests;
+DROP POLICY IF EXISTS "Employees and managers can update signature requests" ON document_signature_requests;
+
+CREATE POLICY "Employees and managers can view signature requests"
+  ON document_signature_requests
+  FOR SELECT
+  TO authenticated
+  USING (is_current_employee(employee_id) OR can_manage_restaurant_employees(restaurant_id));
+
+CREATE POLICY "Restaurant managers can request signatures"
+  ON document_signature_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    can_manage_restaurant_employees(restaurant_id)
+    AND status = 'pending'
+    -- Checked here rather than cleared by the trigger, which an upsert also fires on the row it
+    -- ends up updating
+    AND signature IS NULL
+    AND seal_hash IS NULL
+    AND viewed_at IS NULL
+  );
+
+CREATE POLICY "Employees and managers can update signature requests"
+  ON document_signature_requests
+  FOR UPDATE
+  TO authenticated
+  USING (is_current_employee(employee_id) OR can_manage_restaurant_employees(restaurant_id))
+  WITH CHECK (is_current_employee(employee_id) OR can_manage_restaurant_employees(restaurant_id));
+
+-- The signed text is frozen, the employee signs or rejects, managers may only withdraw
+CREATE OR REPLACE FUNCTION check_document_signature_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers json;
+BEGIN
+  -- The update branch restores or stamps these again when an upsert ends up updating
+  IF TG_OP = 'INSERT' THEN
+    NEW.requested_by := auth.uid();
+    NEW.signer_ip := NULL;
+    NEW.closed_by := NULL;
+    NEW.closed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Signature request is already %', OLD.status;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.content_hash IS DISTINCT FROM OLD.content_hash
+    OR NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.kind IS DISTINCT FROM OLD.kind
+    OR NEW.employee_id IS DISTINCT FROM OLD.employee_id
+    OR NEW.restaurant_id IS DISTINCT FROM OLD.restaurant_id THEN
+    RAISE EXCEPTION 'The document to sign cannot be changed';
+  END IF;
+
+  IF NEW.status IN ('signed', 'rejected') AND NOT is_current_employee(OLD.employee_id) THEN
+    RAISE EXCEPTION 'Only the employee concerned can sign or reject this document';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND NOT can_manage_restaurant_employees(OLD.restaurant_id) THEN
+    RAISE EXCEPTION 'Only managers can cancel a signature request';
+  END IF;
+
+  NEW.requested_by := OLD.requested_by;
+
+  IF OLD.viewed_at IS NOT NULL THEN
+    IF NEW.viewed_at IS DISTINCT FROM OLD.viewed_at THEN
+      RAISE EXCEPTION 'The opening of this document is already recorded';
+    END IF;
+  ELSIF NEW.viewed_at IS NOT NULL THEN
+    IF NOT is_current_employee(OLD.employee_id) THEN
+      RAISE EXCEPTION 'Only the employee concerned can record the opening of this document';
+    END IF;
+    NEW.viewed_at := now();
+  END IF;
+
+  -- Past this point a signed status is the employee's own signature
+  IF NEW.status <> 'signed' AND (
+    NEW.signature IS DISTINCT FROM OLD.signature
+    OR NEW.seal_hash IS DISTINCT FROM OLD.seal_hash
+  ) THEN
+    RAISE EXCEPTION 'The signature evidence can only be written by the employee signing';
+  END IF;
+
+  IF NEW.status <> OLD.status THEN
+    NEW.closed_by := auth.uid();
+    NEW.closed_at := now();
+  ELSIF NEW.closed_by IS DISTINCT FROM OLD.closed_by OR NEW.closed_at IS DISTINCT FROM OLD.closed_at THEN
+    RAISE EXCEPTION 'The signature evidence can only be written by the employee signing';
+  END IF;
+
+  -- The first addresses of x-forwarded-for come from the client, the last one from our proxy
+  IF NEW.status = 'signed' THEN
+    v_headers := NULLIF(current_setting('request.headers', true), '')::json;
+    NEW.signer_ip := NULLIF(trim(regexp_replace(v_headers ->> 'x-forwarded-for', '^.*,', '')), '');
+  ELSE
+    NEW.signer_ip := OLD.signer_ip;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS document_signature_requests_check_transition ON document_signature_requests;
+
+CREATE TRIGGER document_signature_requests_check_transition
+  BEFORE INSERT OR UPDATE ON document_signature_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION check_document_signature_transition();
+
+COMMENT ON TABLE document_signature_requests IS 'HR documents signed from the employee portal; the signed PDF and its audit certificate are rebuilt from this row';
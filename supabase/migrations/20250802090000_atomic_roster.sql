@@ -0,0 +1,78 @@
+/*
+  # Save an employee and their sensitive data in one transaction
+
+  1. Functions
+    - `save_employee(p_employee, p_sensitive_data)`: creates or updates an `employees` row and
+      its `employee_sensitive_data` row together, so a refused or failed second write no longer
+      leaves an employee without pay data (or with pay data from before the edit)
+
+  2. Security
+    - Runs with the caller's rights: the employees and sensitive data policies still decide
+      who may write (restaurant admins/managers and global admins)
+*/
+
+CREATE OR REPLACE FUNCTION save_employee(p_employee jsonb, p_sensitive_data jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_employee employees := jsonb_populate_record(NULL::employees, p_employee);
+  v_sensitive employee_sensitive_data := jsonb_populate_record(NULL::employee_sensitive_data, p_sensitive_data);
+BEGIN
+  INSERT INTO employees (
+    id, restaurant_id, first_name, last_name, street_address, city, postal_code, phone, email,
+    contract_type, profile_picture, start_date, end_date, position, category, weekly_hours,
+    notification_days, date_of_birth, place_of_birth, country_of_birth, employee_status,
+    hiring_date, payroll_id, labor_rule_pack_id
+  )
+  VALUES (
+    v_employee.id, v_employee.restaurant_id, v_employee.first_name, v_employee.last_name,
+    v_employee.street_address, v_employee.city, v_employee.postal_code, v_employee.phone,
+    v_employee.email, v_employee.contract_type, v_employee.profile_picture, v_employee.start_date,
+    v_employee.end_date, v_employee.position, v_employee.category, v_employee.weekly_hours,
+    v_employee.notification_days, v_employee.date_of_birth, v_employee.place_of_birth,
+    v_employee.country_of_birth, v_employee.employee_status, v_employee.hiring_date,
+    v_employee.payroll_id, v_employee.labor_rule_pack_id
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    restaurant_id = EXCLUDED.restaurant_id,
+    first_name = EXCLUDED.first_name,
+    last_name = EXCLUDED.last_name,
+    street_address = EXCLUDED.street_address,
+    city = EXCLUDED.city,
+    postal_code = EXCLUDED.postal_code,
+    phone = EXCLUDED.phone,
+    email = EXCLUDED.email,
+    contract_type = EXCLUDED.contract_type,
+    profile_picture = EXCLUDED.profile_picture,
+    start_date = EXCLUDED.start_date,
+    end_date = EXCLUDED.end_date,
+    position = EXCLUDED.position,
+    category = EXCLUDED.category,
+    weekly_hours = EXCLUDED.weekly_hours,
+    notification_days = EXCLUDED.notification_days,
+    date_of_birth = EXCLUDED.date_of_birth,
+    place_of_birth = EXCLUDED.place_of_birth,
+    country_of_birth = EXCLUDED.country_of_birth,
+    employee_status = EXCLUDED.employee_status,
+    hiring_date = EXCLUDED.hiring_date,
+    payroll_id = EXCLUDED.payroll_id,
+    labor_rule_pack_id = EXCLUDED.labor_rule_pack_id,
+    updated_at = now();
+
+  -- Always the row of the employee just written, whatever the payload says
+  INSERT INTO employee_sensitive_data (employee_id, social_security_number, hourly_rate, gross_monthly_salary)
+  VALUES (v_employee.id, v_sensitive.social_security_number, v_sensitive.hourly_rate, v_sensitive.gross_monthly_salary)
+  ON CONFLICT (employee_id) DO UPDATE SET
+    social_security_number = EXCLUDED.social_security_number,
+    hourly_rate = EXCLUDED.hourly_rate,
+    gross_monthly_salary = EXCLUDED.gross_monthly_salary,
+    updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_employee(jsonb, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_employee(jsonb, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION save_employee(jsonb, jsonb) IS 'Creates or updates an employee together with their pay and identity data';